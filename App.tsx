@@ -1,10 +1,12 @@
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { ProductSummary, Batch as InventoryBatch, StockItem, User } from './types';
-import { NewInventoryItemData, PeerListing } from './types';
+import { ProductSummary, Batch as InventoryBatch, StockItem, User, Order, SupplyProposal, Delivery } from './types';
+import { NewInventoryItemData, PeerListing, NotificationLink } from './types';
 import * as dataService from './services/vectorDBService';
 import * as backendService from './services/backendService';
 import { ActiveShopContextType } from './services/vectorDBService';
-import { AuthenticatedProfile } from './services/shopAuthService';
+import { AuthenticatedProfile, createOperatorShop, logoutUser, restoreSession, switchShop } from './services/shopAuthService';
+import { subscribeToSession } from './services/authSession';
+import { hasStaffPermission, resolveStaffRole } from './services/staff';
 import AuthPage from './components/AuthPage';
 import Header from './components/Header';
 import Dashboard from './components/Dashboard';
@@ -16,24 +18,48 @@ import CustomerPage from './components/CustomerPage';
 import SupplierPage from './components/SupplierPage';
 import ProductCatalogPage from './components/ProductCatalogPage';
 import BatchesPage from './components/BatchesPage';
+import OrdersPage from './components/OrdersPage';
+import DriversPage from './components/DriversPage';
+import PolicyCenterPage from './components/PolicyCenterPage';
+import StaffPage from './components/StaffPage';
+import ShopsPage from './components/ShopsPage';
 import ToastContainer, { useToast } from './components/Toast';
-import { BACKEND_SERVICE_URL, IS_SIMULATED_BACKEND } from './config';
+import { BACKEND_SERVICE_URL } from './config';
 
-type Tab = 'dashboard' | 'inventory' | 'marketplace' | 'kiosk' | 'catalog' | 'batches' | 'backend' | 'customer' | 'supplier';
+type Tab = 'dashboard' | 'inventory' | 'marketplace' | 'orders' | 'drivers' | 'kiosk' | 'catalog' | 'batches' | 'backend' | 'customer' | 'supplier' | 'policies' | 'staff' | 'shops';
+
+// Notification emails link to /?tab=inventory&item=<inventoryUuid> (or &product=<productId>)
+const readInventoryDeepLink = (): NotificationLink | null => {
+  const params = new URLSearchParams(window.location.search);
+  if (params.get('tab') !== 'inventory') return null;
+  window.history.replaceState(null, '', window.location.pathname);
+  return {
+    tab: 'inventory',
+    inventoryUuid: params.get('item') || undefined,
+    productId: params.get('product') || undefined,
+  };
+};
 
 const App: React.FC = () => {
   const [session, setSession] = useState<AuthenticatedProfile | null>(null);
-  const { toasts, removeToast } = useToast();
+  const { toasts, showToast, removeToast } = useToast();
   const currentUser = session?.user ?? null;
   
   const hasShopRole = Boolean(currentUser?.roles?.shop || currentUser?.shopId);
   const hasCustomerRole = Boolean(currentUser?.roles?.customer || currentUser?.customerId);
   const hasSupplierRole = Boolean(currentUser?.roles?.supplier || currentUser?.supplierId);
+  const hasDriverRole = Boolean(currentUser?.roles?.driver || currentUser?.driverId);
+  const canManagePolicies = hasStaffPermission(currentUser, 'managePolicies');
   
   const [batches, setBatches] = useState<InventoryBatch[]>([]);
   const [productSummaries, setProductSummaries] = useState<ProductSummary[]>([]);
   const [allItems, setAllItems] = useState<StockItem[]>([]);
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [proposals, setProposals] = useState<SupplyProposal[]>([]);
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
   const [activeTab, setActiveTab] = useState<Tab>('dashboard');
+  const [inventoryFocus, setInventoryFocus] = useState<NotificationLink | null>(null);
+  const [pendingDeepLink, setPendingDeepLink] = useState<NotificationLink | null>(readInventoryDeepLink);
   const [isLoading, setIsLoading] = useState(true);
   const requiresLogin = dataService.usesSupabaseStorage() && !currentUser;
 
@@ -53,10 +79,12 @@ const App: React.FC = () => {
       return null;
     }
     
+    // Staff sign in under their own name, so the shop's name comes from the context
+    const shopDetails = typeof session.shopContext === 'object' ? session.shopContext : null;
     return {
       id: shopId,
-      name: currentUser.companyName,
-      contactEmail: currentUser.email,
+      name: shopDetails?.name || currentUser.companyName,
+      contactEmail: shopDetails?.contactEmail || currentUser.email,
       location: currentUser.address,
       qdrantNamespace: shopId,
     };
@@ -100,6 +128,43 @@ const App: React.FC = () => {
     }
   }, []);
 
+  const refreshNetworkData = useCallback(async (user?: User) => {
+    if (!user) return;
+    try {
+      const networkOrders = await backendService.getNetworkOrders();
+      const orderProposals = await backendService.getProposalsForOrders(networkOrders.map(o => o.id));
+      setOrders(networkOrders);
+      setProposals(orderProposals);
+
+      if (user.roles?.driver || user.driverId) {
+        const [available, mine] = await Promise.all([
+          backendService.getAvailableDeliveries(),
+          backendService.getMyDeliveries(user),
+        ]);
+        const byId = new Map<string, Delivery>();
+        [...available, ...mine].forEach(d => byId.set(d.id, d));
+        setDeliveries(Array.from(byId.values()));
+      } else {
+        setDeliveries([]);
+      }
+    } catch (err) {
+      console.error('[App] Failed to load network orders/deliveries:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!currentUser) return;
+    if (activeTab === 'orders' || activeTab === 'drivers') {
+      refreshNetworkData(currentUser);
+    }
+  }, [activeTab, currentUser, refreshNetworkData]);
+
+  // Draft purchase orders for products at their reorder point (once per shop per day)
+  const runReorderCheck = useCallback(() => {
+    dataService.runDailyReorderCheck().catch(err =>
+      console.error('[App] Reorder check failed:', err));
+  }, []);
+
   // Track if we've initialized to avoid re-initializing
   const hasInitializedRef = useRef(false);
   const lastShopIdRef = useRef<string | null>(null);
@@ -126,9 +191,10 @@ const App: React.FC = () => {
       await refreshData(currentUser);
       hasInitializedRef.current = true;
       lastShopIdRef.current = currentShopId;
+      runReorderCheck();
     };
     init();
-  }, [requiresLogin, currentUser?.shopId, refreshData]);
+  }, [requiresLogin, currentUser?.shopId, refreshData, runReorderCheck]);
 
   // Track if inventory form is active to prevent auto-refresh during scanning
   const isInventoryFormActiveRef = useRef(false);
@@ -140,9 +206,11 @@ const App: React.FC = () => {
       if (!isInventoryFormActiveRef.current) {
         refreshData(currentUser);
       }
+      // Picks up the next day's reorder run in long-lived sessions
+      runReorderCheck();
     }, 60000);
     return () => clearInterval(interval);
-  }, [currentUser, hasShopRole, refreshData]);
+  }, [currentUser, hasShopRole, refreshData, runReorderCheck]);
 
   const handleAuthSuccess = useCallback((profile: AuthenticatedProfile) => {
     setSession(profile);
@@ -157,32 +225,78 @@ const App: React.FC = () => {
     else setActiveTab('dashboard');
   }, []);
 
+  // A verification decision reaches the profile (and token) through a session refresh
+  const handleVerified = useCallback(async () => {
+    const profile = await restoreSession();
+    if (profile) setSession(profile);
+  }, []);
+
+  // The profile for the other shop resets the shop context, which reloads its data
+  const handleSwitchShop = useCallback(async (shopId: string) => {
+    try {
+      setSession(await switchShop(shopId));
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Could not switch shop.', 'error');
+    }
+  }, []);
+
+  const handleCreateShop = useCallback(async (params: { name: string; contactEmail?: string }) => {
+    setSession(await createOperatorShop(params));
+  }, []);
+
   const handleLogout = useCallback(() => {
+    logoutUser().catch(err => console.error('[App] Logout failed:', err));
     setSession(null);
     setBatches([]);
     setProductSummaries([]);
     setAllItems([]);
+    setOrders([]);
+    setProposals([]);
+    setDeliveries([]);
     setActiveTab('dashboard');
   }, []);
 
+  // Pick up a session kept from earlier in this tab, and sign out when the server ends it
+  useEffect(() => {
+    restoreSession().then(profile => {
+      if (profile) handleAuthSuccess(profile);
+    });
+    return subscribeToSession(tokens => {
+      if (!tokens) setSession(null);
+    });
+  }, [handleAuthSuccess]);
+
   const addInventoryBatch = async (batchData: Omit<InventoryBatch, 'id'>, newItemsData: NewInventoryItemData[]) => {
     await dataService.addInventoryBatch(batchData, newItemsData);
     if (currentUser) await refreshData(currentUser);
   };
 
-  const handlePurchase = async (cart: { productName: string; quantity: number }[]) => {
-    await dataService.recordSale(cart);
+  const handlePurchase = async (cart: { productName: string; quantity: number }[], idempotencyKey?: string) => {
+    await dataService.recordSale(cart, { idempotencyKey });
     if (currentUser) await refreshData(currentUser);
   };
 
   const handleMarketplacePurchase = async (item: PeerListing, quantity: number) => {
-    await dataService.purchaseFromMarketplace(item, quantity);
+    // Claim the listing first so a sold-out or contested listing never reaches our inventory
     await backendService.consumePeerListing(item.listingId, quantity);
+    await dataService.purchaseFromMarketplace(item, quantity);
     if (currentUser) await refreshData(currentUser);
   };
 
   const handleTabChange = (tab: Tab) => setActiveTab(tab);
 
+  const handleOpenNotificationLink = useCallback((link: NotificationLink) => {
+    setInventoryFocus(link.inventoryUuid || link.productId ? link : null);
+    setActiveTab(link.tab);
+  }, []);
+
+  // Apply a deep link once someone is signed in (login resets the tab)
+  useEffect(() => {
+    if (!currentUser || !pendingDeepLink) return;
+    handleOpenNotificationLink(pendingDeepLink);
+    setPendingDeepLink(null);
+  }, [currentUser, pendingDeepLink, handleOpenNotificationLink]);
+
   const legacyItems = useMemo(() => {
     if (!currentUser || !hasShopRole) {
       return [];
@@ -213,6 +327,7 @@ const App: React.FC = () => {
           supplierId: item.supplierId || null,
           buyPrice: item.buyPrice ?? item.costPerUnit,
           sellPrice: item.sellPrice ?? undefined,
+          tags: item.tags || [],
         };
       });
   }, [allItems, productSummaries, currentUser?.shopId, hasShopRole]);
@@ -250,7 +365,9 @@ const App: React.FC = () => {
         onTabChange={handleTabChange}
         user={currentUser}
         onLogout={handleLogout}
-        isBackendAvailable={IS_SIMULATED_BACKEND}
+        isBackendAvailable={Boolean(currentUser.isAdmin)}
+        onOpenNotificationLink={handleOpenNotificationLink}
+        onSwitchShop={handleSwitchShop}
       />
       <main className="container mx-auto p-4 md:p-8">
         {activeTab === 'dashboard' && (
@@ -272,26 +389,55 @@ const App: React.FC = () => {
           onInventoryFormActiveChange={(isActive) => {
             isInventoryFormActiveRef.current = isActive;
           }}
+          focus={inventoryFocus}
+          onClearFocus={() => setInventoryFocus(null)}
+          user={currentUser}
         />
         )}
-        {activeTab === 'catalog' && hasShopRole && <ProductCatalogPage />}
-        {activeTab === 'batches' && hasShopRole && <BatchesPage />}
+        {activeTab === 'catalog' && hasShopRole && <ProductCatalogPage user={currentUser} />}
+        {activeTab === 'batches' && hasShopRole && <BatchesPage user={currentUser} />}
+        {activeTab === 'policies' && hasShopRole && canManagePolicies && (
+          <PolicyCenterPage author={currentUser.contactPerson || currentUser.email} />
+        )}
+        {activeTab === 'staff' && hasShopRole && <StaffPage user={currentUser} />}
+        {activeTab === 'shops' && hasShopRole && resolveStaffRole(currentUser) === 'owner' && (
+          <ShopsPage user={currentUser} onCreateShop={handleCreateShop} onTransferred={() => refreshData(currentUser)} />
+        )}
         {activeTab === 'kiosk' && hasShopRole && (
           <KioskPage summaries={productSummaries} onPurchase={handlePurchase} />
         )}
         {activeTab === 'marketplace' && hasShopRole && (
-          <MarketplacePage summaries={productSummaries} user={currentUser} onPurchase={handleMarketplacePurchase} />
+          <MarketplacePage summaries={productSummaries} user={currentUser} onPurchase={handleMarketplacePurchase} onVerified={handleVerified} />
+        )}
+        
+        {activeTab === 'orders' && hasShopRole && (
+          <OrdersPage
+            user={currentUser}
+            summaries={productSummaries}
+            orders={orders}
+            proposals={proposals}
+            onDataChange={() => refreshNetworkData(currentUser)}
+            onVerified={handleVerified}
+          />
+        )}
+        {activeTab === 'drivers' && (hasDriverRole || hasShopRole) && (
+          <DriversPage user={currentUser} deliveries={deliveries} onDataChange={() => refreshNetworkData(currentUser)} onVerified={handleVerified} />
         )}
         
         {activeTab === 'customer' && hasCustomerRole && <CustomerPage name={currentUser.companyName} />}
         {activeTab === 'supplier' && hasSupplierRole && <SupplierPage name={currentUser.companyName} />}
-        {IS_SIMULATED_BACKEND && activeTab === 'backend' && <BackendPage />}
+        {currentUser.isAdmin && activeTab === 'backend' && <BackendPage />}
         
-        {!hasShopRole && ['inventory', 'catalog', 'batches', 'kiosk', 'marketplace'].includes(activeTab) && (
+        {!hasShopRole && ['inventory', 'catalog', 'batches', 'kiosk', 'marketplace', 'orders', 'policies', 'staff', 'shops'].includes(activeTab) && (
           <div className="bg-gray-800/50 border border-gray-700 rounded-xl p-6 text-center">
             <p className="text-red-400">Access Denied: Shop role required</p>
           </div>
         )}
+        {hasShopRole && !canManagePolicies && activeTab === 'policies' && (
+          <div className="bg-gray-800/50 border border-gray-700 rounded-xl p-6 text-center">
+            <p className="text-red-400">Access Denied: your staff role cannot manage policies</p>
+          </div>
+        )}
         {!hasCustomerRole && activeTab === 'customer' && (
           <div className="bg-gray-800/50 border border-gray-700 rounded-xl p-6 text-center">
             <p className="text-red-400">Access Denied: Customer role required</p>
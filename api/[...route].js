@@ -0,0 +1,62 @@
+/**
+ * Vercel Serverless Function - API routes
+ *
+ * Serves /api/auth, /api/shops, /api/staff, /api/verification, /api/orders,
+ * /api/marketplace, /api/webhooks, /api/dan/* and /api/v1 with the same
+ * routers as server/index.js, so a Vercel deployment can sign in on its own
+ * origin. /api/qdrant/* has its own function. Functions do not run the
+ * policy worker, which also sends queued webhooks: run `npm run policy:worker`
+ * on a host of its own.
+ */
+
+import express from 'express';
+import cors from 'cors';
+import { QdrantClient } from '@qdrant/js-client-rest';
+import { createApiV1Router, handleApiV1Error } from '../server/apiV1.js';
+import { createServerSupabaseClient } from '../server/supabaseClient.js';
+import { createAuthRouter, requireSession, resolveAuthSecret, resolveCorsOrigin } from '../server/auth.js';
+import { createShopsRouter } from '../server/shops.js';
+import { createStaffRouter } from '../server/staff.js';
+import { createVerificationRouter } from '../server/verification.js';
+import { createOrdersRouter } from '../server/orders.js';
+import { createMarketplaceRouter } from '../server/marketplace.js';
+import { createWebhooksRouter } from '../server/webhooks.js';
+import { createDanKeysRouter } from '../server/danKeys.js';
+import { createDanPoliciesRouter } from '../server/danPolicies.js';
+
+// Resolved when the function loads, so a deployment without AUTH_TOKEN_SECRET fails to start
+const authSecret = resolveAuthSecret();
+
+const upstreamBase = process.env.QDRANT_UPSTREAM_URL;
+const upstreamApiKey = process.env.QDRANT_API_KEY;
+// Without Qdrant the orders, marketplace and /api/v1 routes answer 503
+const qdrantClient = upstreamBase && upstreamApiKey
+  ? new QdrantClient({ url: upstreamBase.replace(/\/+$/, ''), apiKey: upstreamApiKey })
+  : null;
+
+const app = express();
+app.use(cors({ origin: resolveCorsOrigin() }));
+app.use(express.json({ limit: '25mb' }));
+
+const sessionGuard = requireSession(authSecret, { serviceKey: upstreamApiKey });
+app.use('/api/auth', createAuthRouter(createServerSupabaseClient(), { secret: authSecret }));
+app.use('/api', (req, res, next) => (req.path.startsWith('/v1/') ? next() : sessionGuard(req, res, next)));
+app.use('/api/shops', createShopsRouter(createServerSupabaseClient()));
+app.use('/api/staff', createStaffRouter(createServerSupabaseClient()));
+app.use('/api/verification', createVerificationRouter(createServerSupabaseClient(), { qdrantClient }));
+app.use('/api/orders', createOrdersRouter(qdrantClient, { supabase: createServerSupabaseClient() }));
+app.use('/api/marketplace', createMarketplaceRouter(qdrantClient, { supabase: createServerSupabaseClient() }));
+app.use('/api/webhooks', createWebhooksRouter(createServerSupabaseClient()));
+app.use('/api/dan/keys', createDanKeysRouter(createServerSupabaseClient()));
+app.use('/api/dan/policies', createDanPoliciesRouter(createServerSupabaseClient()));
+if (qdrantClient) {
+  app.use('/api/v1', createApiV1Router(qdrantClient, { apiKey: process.env.API_V1_KEY, authSecret }), handleApiV1Error);
+} else {
+  app.use('/api/v1', (req, res) => res.status(503).json({ error: 'QDRANT_UPSTREAM_URL and QDRANT_API_KEY must be set in Vercel environment variables' }));
+}
+
+app.use('/api', (req, res) => {
+  res.status(404).json({ error: `No route for ${req.method} ${req.originalUrl}` });
+});
+
+export default app;
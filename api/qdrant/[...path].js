@@ -3,11 +3,35 @@
  * 
  * This handles all /qdrant/* requests and forwards them to the upstream Qdrant instance.
  * Vercel serverless functions are the only way to handle API routes on Vercel.
+ * Requests need a session token (or the Qdrant key) and are scoped to the
+ * caller by server/qdrantAccess.js, like the Express proxy.
  */
 
+import { QdrantClient } from '@qdrant/js-client-rest';
+import { resolveAuthSecret, resolveCorsOrigin, safeEqual, verifyAccessToken } from '../../server/auth.js';
+import { authorizeQdrantRequest, QdrantAccessError } from '../../server/qdrantAccess.js';
+
+// Resolved when the function loads, so a deployment without AUTH_TOKEN_SECRET fails to start
+const authSecret = resolveAuthSecret();
+
+// Claims of the caller: a service session for the Qdrant key, else the Bearer token's claims
+const readSession = (req, secret, serviceKey) => {
+  if (req.headers['api-key'] && safeEqual(req.headers['api-key'], serviceKey)) {
+    return { sub: null, service: true };
+  }
+  const header = req.headers['authorization'] || '';
+  return header.startsWith('Bearer ') ? verifyAccessToken(secret, header.slice(7).trim()) : null;
+};
+
 export default async function handler(req, res) {
-  // Enable CORS for all requests
-  res.setHeader('Access-Control-Allow-Origin', '*');
+  // CORS for the configured origins (CORS_ALLOWED_ORIGINS), or any origin when unset
+  const allowedOrigin = resolveCorsOrigin();
+  if (allowedOrigin === true) {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+  } else if (req.headers.origin && allowedOrigin.includes(req.headers.origin)) {
+    res.setHeader('Access-Control-Allow-Origin', req.headers.origin);
+    res.setHeader('Vary', 'Origin');
+  }
   res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, PATCH, OPTIONS');
   res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, api-key');
 
@@ -29,7 +53,6 @@ export default async function handler(req, res) {
     queryPathType: typeof req.query.path,
     queryPathIsArray: Array.isArray(req.query.path),
     pathname: req.url.split('?')[0],
-    headers: req.headers,
   });
 
   if (!upstreamBase || !upstreamApiKey) {
@@ -43,6 +66,11 @@ export default async function handler(req, res) {
     });
   }
 
+  const session = readSession(req, authSecret, upstreamApiKey);
+  if (!session) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+
   // Sanitize upstream URL
   const baseUrl = upstreamBase.endsWith('/') ? upstreamBase.slice(0, -1) : upstreamBase;
   
@@ -95,6 +123,13 @@ export default async function handler(req, res) {
   });
 
   try {
+    // Scope the request to the caller before it reaches Qdrant with the master key
+    const { body, filterResult } = await authorizeQdrantRequest(
+      new QdrantClient({ url: baseUrl, apiKey: upstreamApiKey }),
+      session,
+      { method: req.method, path: upstreamPath, body: req.body },
+    );
+
     const headers = {
       'Content-Type': 'application/json',
       'api-key': upstreamApiKey,
@@ -114,8 +149,8 @@ export default async function handler(req, res) {
     };
 
     // Include body for non-GET/HEAD requests
-    if (req.method !== 'GET' && req.method !== 'HEAD' && req.body) {
-      init.body = JSON.stringify(req.body);
+    if (req.method !== 'GET' && req.method !== 'HEAD' && body) {
+      init.body = JSON.stringify(body);
     }
 
     // Forward the request with a 30-second timeout
@@ -137,9 +172,17 @@ export default async function handler(req, res) {
 
     // Forward status and body
     res.status(response.status);
+    if (filterResult && response.ok) {
+      const parsed = JSON.parse(text);
+      return res.send(JSON.stringify({ ...parsed, result: filterResult(parsed.result) }));
+    }
     res.send(text);
 
   } catch (error) {
+    if (error instanceof QdrantAccessError) {
+      console.warn(`[Qdrant Proxy] Denied ${req.method} ${upstreamPath}: ${error.message}`);
+      return res.status(error.status).json({ error: error.message });
+    }
     console.error('[Qdrant Proxy] Error forwarding request:', error);
 
     if (error.name === 'AbortError') {
@@ -155,11 +198,7 @@ export default async function handler(req, res) {
         hint: 'Check QDRANT_UPSTREAM_URL environment variable',
       });
     } else {
-      return res.status(500).json({ 
-        error: 'Proxy request failed',
-        details: error.message,
-        upstreamUrl: baseUrl,
-      });
+      return res.status(500).json({ error: 'Proxy request failed' });
     }
   }
 }
@@ -1,126 +1,170 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { User } from '../types';
-import * as backendService from '../services/backendService';
+import { VerificationApplication, VerificationKind, VerificationStatus } from '../types';
+import {
+    getVerificationApplications,
+    openVerificationDocument,
+    reviewVerification,
+    VERIFICATION_DOCUMENT_LABELS,
+    VERIFICATION_STATUS_LABELS,
+} from '../services/verification';
+import { useToast } from './Toast';
+
+const REVIEW_FILTERS: VerificationStatus[] = ['pending', 'rejected', 'approved'];
+const KIND_LABELS: Record<VerificationKind, string> = { shop: 'Shop', driver: 'Driver' };
 
 const BackendPage: React.FC = () => {
-    const [pendingClients, setPendingClients] = useState<User[]>([]);
-    const [verifiedClients, setVerifiedClients] = useState<User[]>([]);
-    const [pendingDrivers, setPendingDrivers] = useState<User[]>([]);
-    const [verifiedDrivers, setVerifiedDrivers] = useState<User[]>([]);
+    const [statusFilter, setStatusFilter] = useState<VerificationStatus>('pending');
+    const [applications, setApplications] = useState<VerificationApplication[]>([]);
     const [isLoading, setIsLoading] = useState(true);
-    const [lastUpdated, setLastUpdated] = useState(new Date());
+    const { showToast } = useToast();
 
-    const fetchAllData = useCallback(async () => {
+    const fetchApplications = useCallback(async () => {
         setIsLoading(true);
-        const [pClients, vClients, pDrivers, vDrivers] = await Promise.all([
-            backendService.getPendingClients(),
-            backendService.getVerifiedClients(),
-            backendService.getPendingDrivers(),
-            backendService.getVerifiedDrivers()
-        ]);
-        setPendingClients(pClients);
-        setVerifiedClients(vClients);
-        setPendingDrivers(pDrivers);
-        setVerifiedDrivers(vDrivers);
-        setIsLoading(false);
-    }, []);
+        try {
+            setApplications(await getVerificationApplications(statusFilter));
+        } catch (err) {
+            showToast(err instanceof Error ? err.message : 'Failed to load verifications.', 'error');
+        } finally {
+            setIsLoading(false);
+        }
+    }, [statusFilter, showToast]);
 
     useEffect(() => {
-        fetchAllData();
-    }, [fetchAllData, lastUpdated]);
+        fetchApplications();
+    }, [fetchApplications]);
 
-    const handleVerifyClient = async (clientId: string) => {
-        await backendService.verifyClient(clientId);
-        setLastUpdated(new Date()); // Trigger re-fetch
+    const handleDecision = async (application: VerificationApplication, status: 'approved' | 'rejected', reason?: string) => {
+        try {
+            await reviewVerification(application.userId, application.kind, status, reason);
+            showToast(`${application.displayName || application.username} ${status === 'approved' ? 'verified' : 'rejected'}.`, 'success');
+            await fetchApplications();
+        } catch (err) {
+            showToast(err instanceof Error ? err.message : 'Decision failed.', 'error');
+        }
     };
-    
-    const handleVerifyDriver = async (clientId: string) => {
-        await backendService.verifyDriver(clientId);
-        setLastUpdated(new Date());
-    }
-    
+
     return (
         <div className="space-y-8">
             <div>
                 <h1 className="text-3xl font-bold text-white">Backend Admin Panel</h1>
-                <p className="text-lg text-gray-400">Simulated proxy server for verifying new shops and drivers.</p>
+                <p className="text-lg text-gray-400">Review license documents from shops and drivers. Every decision is kept in the verification history.</p>
             </div>
 
-            {/* SHOP VERIFICATION */}
             <div className="bg-gray-800/50 p-6 rounded-lg border border-gray-700">
-                <div className="flex justify-between items-center mb-4">
-                    <h2 className="text-xl font-semibold text-white">Pending Shop Verifications ({pendingClients.length})</h2>
-                    <button onClick={() => setLastUpdated(new Date())} className="text-sm text-cyan-400 hover:text-cyan-300">Refresh</button>
+                <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+                    <div className="flex gap-2">
+                        {REVIEW_FILTERS.map(status => (
+                            <button
+                                key={status}
+                                onClick={() => setStatusFilter(status)}
+                                className={`px-3 py-1 rounded-md text-sm ${statusFilter === status ? 'bg-cyan-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                            >
+                                {VERIFICATION_STATUS_LABELS[status]}
+                            </button>
+                        ))}
+                    </div>
+                    <button onClick={fetchApplications} className="text-sm text-cyan-400 hover:text-cyan-300">Refresh</button>
                 </div>
-                {isLoading ? <p className="text-center text-gray-400">Loading...</p> : pendingClients.length === 0 ? (
-                    <p className="text-center text-gray-500 py-8">No shops are awaiting verification.</p>
-                ) : (
-                     <UserTable users={pendingClients} onVerify={handleVerifyClient} />
-                )}
-            </div>
-            
-            {/* DRIVER VERIFICATION */}
-            <div className="bg-gray-800/50 p-6 rounded-lg border border-gray-700">
-                <h2 className="text-xl font-semibold text-white mb-4">Pending Driver Verifications ({pendingDrivers.length})</h2>
-                {isLoading ? <p className="text-center text-gray-400">Loading...</p> : pendingDrivers.length === 0 ? (
-                    <p className="text-center text-gray-500 py-8">No drivers are awaiting verification.</p>
+                {isLoading ? <p className="text-center text-gray-400">Loading...</p> : applications.length === 0 ? (
+                    <p className="text-center text-gray-500 py-8">No {VERIFICATION_STATUS_LABELS[statusFilter].toLowerCase()} verifications.</p>
                 ) : (
-                     <UserTable users={pendingDrivers} onVerify={handleVerifyDriver} isDriverTable={true}/>
+                    <div className="space-y-3">
+                        {applications.map(application => (
+                            <ApplicationCard key={`${application.userId}:${application.kind}`} application={application} onDecision={handleDecision} />
+                        ))}
+                    </div>
                 )}
             </div>
+        </div>
+    );
+};
 
-            {/* ACTIVE PEERS */}
-            <div className="bg-gray-800/50 p-6 rounded-lg border border-gray-700">
-                <h2 className="text-xl font-semibold text-white mb-4">Active Network Participants</h2>
-                <div className="space-y-4">
-                    <h3 className="text-lg font-semibold text-cyan-400">Verified Shops ({verifiedClients.length})</h3>
-                    {verifiedClients.length > 0 ? <UserTable users={verifiedClients} /> : <p className="text-gray-500 text-sm">No verified shops.</p>}
-                     <h3 className="text-lg font-semibold text-cyan-400 mt-6">Verified Drivers ({verifiedDrivers.length})</h3>
-                    {verifiedDrivers.length > 0 ? <UserTable users={verifiedDrivers} isDriverTable={true}/> : <p className="text-gray-500 text-sm">No verified drivers.</p>}
+
+const ApplicationCard: React.FC<{
+    application: VerificationApplication;
+    onDecision: (application: VerificationApplication, status: 'approved' | 'rejected', reason?: string) => Promise<void>;
+}> = ({ application, onDecision }) => {
+    const [reason, setReason] = useState('');
+    const [isBusy, setIsBusy] = useState(false);
+    const { showToast } = useToast();
+    const latest = application.history[application.history.length - 1];
+    const submitted = new Set(latest?.documentIds || []);
+
+    const decide = async (status: 'approved' | 'rejected') => {
+        setIsBusy(true);
+        await onDecision(application, status, reason.trim() || undefined);
+        setIsBusy(false);
+    };
+
+    const handleView = (documentId: string) => {
+        openVerificationDocument(documentId).catch(err =>
+            showToast(err instanceof Error ? err.message : 'Could not open document.', 'error'));
+    };
+
+    return (
+        <div className="p-4 bg-gray-900/40 rounded-lg border border-gray-700 space-y-3">
+            <div className="flex flex-wrap justify-between gap-2">
+                <div>
+                    <p className="text-white font-semibold">
+                        {application.displayName || application.username || application.userId}
+                        <span className="ml-2 px-2 py-0.5 rounded text-xs font-normal bg-gray-700 text-gray-200">{KIND_LABELS[application.kind]}</span>
+                    </p>
+                    <p className="text-sm text-gray-400">{application.username} · {application.email}</p>
+                    <p className="text-xs text-gray-500 font-mono">{application.userId}</p>
                 </div>
+                <span className="text-xs text-gray-400">
+                    {VERIFICATION_STATUS_LABELS[application.status]}{application.updatedAt && ` · ${new Date(application.updatedAt).toLocaleString()}`}
+                </span>
             </div>
 
-             <div className="mt-6 p-4 bg-gray-900/50 rounded-lg border border-cyan-800/50">
-                <h4 className="font-semibold text-cyan-500">How this simulation works:</h4>
-                <p className="text-xs text-gray-400 mt-1">
-                    When a new user registers, they appear in the appropriate "Pending" list. Clicking "Verify" updates a shared `localStorage` value. The main application is continuously polling for this change. Once it detects it has been verified, it will automatically unlock the relevant features (Marketplace, Orders, or Driver panel).
-                </p>
+            {application.documents.length === 0 ? (
+                <p className="text-sm text-gray-500">No documents uploaded.</p>
+            ) : (
+                <ul className="space-y-1 text-sm">
+                    {application.documents.map(document => (
+                        <li key={document.id} className="flex justify-between text-gray-300">
+                            <span>
+                                {VERIFICATION_DOCUMENT_LABELS[document.documentType]}: {document.fileName}
+                                {submitted.has(document.id) && <span className="ml-2 text-xs text-cyan-400">submitted</span>}
+                            </span>
+                            <button onClick={() => handleView(document.id)} className="text-cyan-400 hover:text-cyan-300">View</button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {application.history.length > 0 && (
+                <ul className="space-y-1 text-xs text-gray-500">
+                    {[...application.history].reverse().map(event => (
+                        <li key={event.id}>
+                            {new Date(event.createdAt).toLocaleString()} · {VERIFICATION_STATUS_LABELS[event.status]}
+                            {event.reason && ` · ${event.reason}`}
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <div className="flex flex-wrap gap-2 pt-2 border-t border-gray-700">
+                <input
+                    value={reason}
+                    onChange={e => setReason(e.target.value)}
+                    placeholder="Reason (required to reject)"
+                    className="flex-1 min-w-[12rem] bg-gray-900 border border-gray-700 rounded-md px-3 py-1 text-sm text-white"
+                />
+                {application.status !== 'approved' && (
+                    <button onClick={() => decide('approved')} disabled={isBusy} className="py-1 px-3 rounded-md text-xs font-medium text-white bg-green-600 hover:bg-green-700 disabled:opacity-50">
+                        Approve
+                    </button>
+                )}
+                {application.status !== 'rejected' && (
+                    <button onClick={() => decide('rejected')} disabled={isBusy || !reason.trim()} className="py-1 px-3 rounded-md text-xs font-medium text-white bg-red-600 hover:bg-red-700 disabled:opacity-50">
+                        {application.status === 'approved' ? 'Revoke' : 'Reject'}
+                    </button>
+                )}
             </div>
         </div>
     );
 };
 
 
-const UserTable: React.FC<{users: User[], onVerify?: (clientId: string) => void, isDriverTable?: boolean}> = ({ users, onVerify, isDriverTable }) => (
-    <div className="overflow-x-auto">
-        <table className="min-w-full divide-y divide-gray-700">
-            <thead className="bg-gray-800">
-                <tr>
-                    <th scope="col" className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-300 sm:pl-6">{isDriverTable ? 'Name' : 'Company'}</th>
-                    <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-300">Email</th>
-                    <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-300">Client ID</th>
-                    {onVerify && <th scope="col" className="relative py-3.5 pl-3 pr-4 sm:pr-6"><span className="sr-only">Verify</span></th>}
-                </tr>
-            </thead>
-            <tbody className="divide-y divide-gray-700 bg-gray-900/50">
-                {users.map(client => (
-                    <tr key={client.clientId}>
-                        <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm font-medium text-white sm:pl-6">{client.companyName}</td>
-                        <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-400">{client.email}</td>
-                        <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500 font-mono text-xs">{client.clientId}</td>
-                        {onVerify && (
-                            <td className="relative whitespace-nowrap py-4 pl-3 pr-4 text-right text-sm font-medium sm:pr-6">
-                                <button onClick={() => onVerify(client.clientId)} className="py-1 px-3 border border-transparent rounded-md shadow-sm text-xs font-medium text-white bg-green-600 hover:bg-green-700">
-                                    Verify
-                                </button>
-                            </td>
-                        )}
-                    </tr>
-                ))}
-            </tbody>
-        </table>
-    </div>
-);
-
-
-export default BackendPage;
\ No newline at end of file
+export default BackendPage;
@@ -1,10 +1,14 @@
 import React, { useEffect, useState, useRef, useMemo } from 'react';
-import { BatchRecord, BatchLineItem, BatchDocument, ProductDefinition, SupplierProfile } from '../types';
-import { createBatchForShop, fetchBatchRecords, fetchSuppliersForActiveShop, fetchCanonicalProducts, syncBatchesFromQdrant } from '../services/vectorDBService';
+import { BatchRecord, BatchLineItem, BatchDocument, ProductDefinition, SupplierProfile, User } from '../types';
+import { createBatchForShop, fetchBatchRecords, fetchSuppliersForActiveShop, fetchCanonicalProducts, syncBatchesFromQdrant, discrepancyReportToCsv, markDiscrepancyReportSent } from '../services/vectorDBService';
 import { analyzeBatchDocuments, AnalyzedBatchData } from '../services/geminiService';
 import { UploadIcon } from './icons/UploadIcon';
 import { SparkleIcon } from './icons/SparkleIcon';
 import { TrashIcon } from './icons/TrashIcon';
+import PurchaseOrdersPanel from './PurchaseOrdersPanel';
+import ReceivingModal, { DISCREPANCY_LABELS } from './ReceivingModal';
+import { downloadCsv } from '../utils/download';
+import { hasStaffPermission } from '../services/staff';
 
 const hashBlob = async (blob: Blob): Promise<string> => {
   const buffer = await blob.arrayBuffer();
@@ -14,7 +18,14 @@ const hashBlob = async (blob: Blob): Promise<string> => {
     .join('');
 };
 
-const BatchesPage: React.FC = () => {
+interface BatchesPageProps {
+  // Signed-in user; clerks can log and receive, only some roles see costs
+  user: User;
+}
+
+const BatchesPage: React.FC<BatchesPageProps> = ({ user }) => {
+  const canReceiveBatches = hasStaffPermission(user, 'receiveBatches');
+  const canViewFinancials = hasStaffPermission(user, 'viewFinancials');
   const [batches, setBatches] = useState<BatchRecord[]>([]);
   const [suppliers, setSuppliers] = useState<SupplierProfile[]>([]);
   const [products, setProducts] = useState<ProductDefinition[]>([]);
@@ -27,6 +38,8 @@ const BatchesPage: React.FC = () => {
     documents: [],
   });
   const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
+  const [countBeforeStocking, setCountBeforeStocking] = useState(false);
+  const [receivingBatch, setReceivingBatch] = useState<BatchRecord | null>(null);
   
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isProcessingDoc, setIsProcessingDoc] = useState(false);
@@ -157,7 +170,8 @@ const BatchesPage: React.FC = () => {
       await createBatchForShop({
         ...draftBatch,
         deliveryDate: draftBatch.deliveryDate!,
-        lineItems: validLineItems
+        lineItems: validLineItems,
+        status: countBeforeStocking ? 'EXPECTED' : 'RECEIVED',
       });
       resetForm();
       await loadData();
@@ -181,8 +195,39 @@ const BatchesPage: React.FC = () => {
     }
   };
 
+  const handleReceived = async () => {
+    setReceivingBatch(null);
+    await loadData();
+  };
+
+  const handleExportReport = (batch: BatchRecord) => {
+    if (!batch.discrepancyReport) return;
+    const supplierName = supplierMap.get(batch.supplierId || '');
+    downloadCsv(`discrepancies-${batch.id.slice(0, 8)}.csv`, discrepancyReportToCsv(batch.discrepancyReport, supplierName));
+  };
+
+  const handleMarkReportSent = async (batch: BatchRecord) => {
+    setError(null);
+    try {
+      await markDiscrepancyReportSent(batch.id);
+      await loadData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update discrepancy report.');
+    }
+  };
+
   return (
     <div className="space-y-8">
+      {receivingBatch && (
+        <ReceivingModal
+          batch={receivingBatch}
+          products={products}
+          supplierName={supplierMap.get(receivingBatch.supplierId || '')}
+          onClose={() => setReceivingBatch(null)}
+          onReceived={handleReceived}
+        />
+      )}
+      {canReceiveBatches && (
       <div className="bg-gray-800/50 border border-gray-700 rounded-xl p-6">
         <h2 className="text-xl font-semibold text-white mb-4 flex items-center gap-2">
             <SparkleIcon className="w-6 h-6 text-cyan-400"/>
@@ -254,6 +299,10 @@ const BatchesPage: React.FC = () => {
                     ))}
                  </div>
                  <button type="button" onClick={addLineItem} className="button-secondary text-sm">Add Manual Item</button>
+                 <label className="flex items-center gap-2 text-sm text-gray-300">
+                    <input type="checkbox" checked={countBeforeStocking} onChange={e => setCountBeforeStocking(e.target.checked)} />
+                    Count before stocking (receive it from Logged Batches)
+                 </label>
                  <button type="submit" disabled={isSubmitting} className="button-primary w-full">
                     {isSubmitting ? 'Saving Batch...' : 'Save Batch'}
                  </button>
@@ -261,6 +310,11 @@ const BatchesPage: React.FC = () => {
         </form>
         {error && <p className="text-red-400 text-sm mt-4">{error}</p>}
       </div>
+      )}
+
+      {canReceiveBatches && (
+        <PurchaseOrdersPanel products={products} suppliers={suppliers} onOrderSent={loadData} />
+      )}
 
       {/* Existing Batches */}
        <div className="bg-gray-800/50 border border-gray-700 rounded-xl p-6">
@@ -276,12 +330,23 @@ const BatchesPage: React.FC = () => {
                 <summary className="cursor-pointer">
                     <div className="flex items-start justify-between">
                         <div>
-                            <p className="text-white font-semibold">Delivery: {batch.deliveryDate}</p>
+                            <p className="text-white font-semibold">
+                                Delivery: {batch.deliveryDate}
+                                {batch.status === 'EXPECTED' && (
+                                    <span className="ml-2 px-2 py-0.5 rounded text-xs font-normal bg-yellow-500/20 text-yellow-300">Expected</span>
+                                )}
+                            </p>
                             <p className="text-sm text-gray-400">Supplier: {supplierMap.get(batch.supplierId || '') || batch.supplierId || 'N/A'}</p>
                             <p className="text-xs text-gray-500">Invoice #: {batch.invoiceNumber || 'N/A'}</p>
                         </div>
-                        <div className="text-right text-sm">
+                        <div className="text-right text-sm space-y-1">
                             <span className="text-gray-300">{batch.lineItems?.length || 0} items</span>
+                            {batch.status === 'EXPECTED' && canReceiveBatches && (
+                                <button onClick={() => setReceivingBatch(batch)} className="button-primary text-xs">Receive</button>
+                            )}
+                            {batch.discrepancyReport && batch.discrepancyReport.discrepancies.length > 0 && (
+                                <p className="text-xs text-yellow-300">{batch.discrepancyReport.discrepancies.length} discrepancies</p>
+                            )}
                         </div>
                     </div>
                 </summary>
@@ -290,10 +355,39 @@ const BatchesPage: React.FC = () => {
                         {batch.lineItems?.map((item, idx) => (
                            <li key={idx} className="flex justify-between text-gray-300">
                                <span>{item.quantity}x {productMap.get(item.productId)?.name || item.productName}</span>
-                               <span className="text-gray-400">${item.cost.toFixed(2)}/unit</span>
+                               {canViewFinancials && <span className="text-gray-400">${item.cost.toFixed(2)}/unit</span>}
                            </li>
                         ))}
                     </ul>
+                    {batch.discrepancyReport && batch.discrepancyReport.discrepancies.length > 0 && (
+                        <div className="mt-3 p-3 rounded-md border border-yellow-500/30 bg-yellow-500/5 space-y-2">
+                            <div className="flex items-center justify-between">
+                                <h4 className="text-sm font-semibold text-yellow-300">Discrepancy Report</h4>
+                                <span className="text-xs text-gray-400">
+                                    {batch.discrepancyReport.status === 'SENT_TO_SUPPLIER'
+                                        ? `Sent ${batch.discrepancyReport.sentAt?.slice(0, 10) || ''}`
+                                        : batch.discrepancyReport.status === 'RESOLVED' ? 'Resolved' : 'Open'}
+                                </span>
+                            </div>
+                            <ul className="space-y-1 text-sm">
+                                {batch.discrepancyReport.discrepancies.map((entry, idx) => (
+                                    <li key={idx} className="flex justify-between text-gray-300">
+                                        <span>{DISCREPANCY_LABELS[entry.type]}: {entry.productName} (expected {entry.expected}, got {entry.actual})</span>
+                                        <span>${entry.valueImpact.toFixed(2)}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                            <div className="flex items-center justify-between pt-2 border-t border-gray-700">
+                                <span className="text-sm text-gray-300">Owed by supplier ${batch.discrepancyReport.totalValueImpact.toFixed(2)}</span>
+                                <div className="flex gap-2">
+                                    <button onClick={() => handleExportReport(batch)} className="button-secondary text-xs">Export CSV</button>
+                                    {batch.discrepancyReport.status === 'OPEN' && canReceiveBatches && (
+                                        <button onClick={() => handleMarkReportSent(batch)} className="button-secondary text-xs">Mark Sent to Supplier</button>
+                                    )}
+                                </div>
+                            </div>
+                        </div>
+                    )}
                 </div>
               </details>
             ))}
@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
-import { recordSale, getProductSummaries, setActiveShopContext } from '../services/vectorDBService';
+import { v4 as uuidv4 } from 'uuid';
+import { recordCustomerSale } from '../services/vectorDBService';
 import { useToast } from './Toast';
 import { CheckCircleIcon } from './icons/CheckCircleIcon';
 
@@ -30,41 +31,20 @@ const CustomerCheckout: React.FC<CustomerCheckoutProps> = ({
 }) => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [isComplete, setIsComplete] = useState(false);
+  // Stable for this checkout so a retried purchase is not recorded twice
+  const [checkoutKey] = useState(() => uuidv4());
   const { showToast } = useToast();
 
   const handlePurchase = async () => {
     try {
       setIsProcessing(true);
 
-      // Get product summaries to create product map
-      const summaries = await getProductSummaries();
-      const productMap = new Map(
-        summaries.map(p => [p.productName, { id: p.productId, name: p.productName }])
+      await recordCustomerSale(
+        shopId,
+        cart.map(item => ({ productId: item.productId, quantity: item.quantity })),
+        { idempotencyKey: checkoutKey },
       );
 
-      // Convert cart to sale format
-      const saleCart = cart.map(item => ({
-        productName: item.productName,
-        quantity: item.quantity,
-      }));
-
-      // Set active shop context temporarily for the sale
-      setActiveShopContext({
-        id: shopId,
-        name: null,
-        contactEmail: null,
-        location: null,
-        qdrantNamespace: null,
-      });
-      
-      try {
-        // Record the sale
-        await recordSale(saleCart, productMap);
-      } finally {
-        // Restore previous context (or clear it)
-        setActiveShopContext(null);
-      }
-
       setIsComplete(true);
       showToast('Purchase completed successfully!', 'success');
       
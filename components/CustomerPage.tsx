@@ -8,9 +8,15 @@ import CameraCapture from './CameraCapture';
 import AuthPage from './AuthPage';
 import { AuthenticatedProfile } from '../services/shopAuthService';
 import { useToast } from './Toast';
-import { StockItem, ProductSummary, ProductDefinition } from '../types';
+import { StockItem, ProductSummary, ProductDefinition, Promotion } from '../types';
 import { getAllStockItems } from '../services/qdrant/services/inventory';
-import { getProductSummaries, searchCatalogProducts } from '../services/vectorDBService';
+import {
+  applyPromotions,
+  getActivePromotionsForShop,
+  getProductSummaries,
+  quoteSale,
+  searchCatalogProducts,
+} from '../services/vectorDBService';
 import { CameraIcon } from './icons/CameraIcon';
 
 interface CartItem {
@@ -29,6 +35,8 @@ const CustomerShopPage: React.FC = () => {
   const [inventory, setInventory] = useState<StockItem[]>([]);
   const [productSummaries, setProductSummaries] = useState<ProductSummary[]>([]);
   const [cart, setCart] = useState<CartItem[]>([]);
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [quotedTotal, setQuotedTotal] = useState<number | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const { showToast } = useToast();
 
@@ -54,6 +62,7 @@ const CustomerShopPage: React.FC = () => {
       // Fetch product summaries to get product names
       const summaries = await getProductSummaries();
       setProductSummaries(summaries);
+      setPromotions(await getActivePromotionsForShop(currentShop.id));
     } catch (error) {
       console.error('Failed to load inventory:', error);
       showToast('Failed to load inventory', 'error');
@@ -67,6 +76,37 @@ const CustomerShopPage: React.FC = () => {
     return summary?.productName || 'Unknown Product';
   };
 
+  // Lot price after this shop's active promotions
+  const getLotPrice = (item: StockItem) => {
+    const basePrice = item.sellPrice || item.costPerUnit * 1.4;
+    const [priced] = applyPromotions([{
+      productId: item.productId,
+      category: productSummaries.find(p => p.productId === item.productId)?.category,
+      inventoryUuid: item.inventoryUuid,
+      quantity: 1,
+      basePrice,
+    }], promotions);
+    return { basePrice, price: priced.unitPrice };
+  };
+
+  // Cart totals come from the same FEFO + promotion pricing the sale will be recorded with
+  useEffect(() => {
+    setQuotedTotal(null);
+    if (!currentShop || cart.length === 0) return;
+    let cancelled = false;
+    const productMap = new Map<string, { id: string; name: string; category?: string }>(
+      productSummaries.map(p => [p.productName, { id: p.productId, name: p.productName, category: p.category }])
+    );
+    quoteSale(cart.map(({ productName, quantity }) => ({ productName, quantity })), { shopId: currentShop.id, productMap })
+      .then(quote => {
+        if (!cancelled) setQuotedTotal(quote.totalAmount);
+      })
+      .catch(error => console.warn('Failed to quote cart:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [cart, currentShop, productSummaries, promotions]);
+
   const addToCart = (item: StockItem) => {
     const productName = getProductName(item.productId);
     const existingCartItem = cart.find(c => c.productId === item.productId);
@@ -85,7 +125,7 @@ const CustomerShopPage: React.FC = () => {
       }
     } else {
       // Add new item to cart
-      const price = item.sellPrice || item.costPerUnit * 1.4;
+      const { price } = getLotPrice(item);
       setCart([...cart, {
         productId: item.productId,
         productName,
@@ -127,7 +167,7 @@ const CustomerShopPage: React.FC = () => {
     );
   }
 
-  const totalPrice = cart.reduce((sum, item) => sum + (item.price * item.quantity), 0);
+  const totalPrice = quotedTotal ?? cart.reduce((sum, item) => sum + (item.price * item.quantity), 0);
 
   return (
     <div className="space-y-6">
@@ -171,7 +211,7 @@ const CustomerShopPage: React.FC = () => {
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 {inventory.map((item) => {
                   const productName = getProductName(item.productId);
-                  const price = item.sellPrice || item.costPerUnit * 1.4;
+                  const { basePrice, price } = getLotPrice(item);
                   const cartItem = cart.find(c => c.productId === item.productId);
                   const inCart = cartItem !== undefined;
 
@@ -189,6 +229,9 @@ const CustomerShopPage: React.FC = () => {
                         </div>
                         <div className="text-right">
                           <p className="text-lg font-bold text-cyan-400">${price.toFixed(2)}</p>
+                          {price < basePrice && (
+                            <p className="text-xs text-gray-500 line-through">${basePrice.toFixed(2)}</p>
+                          )}
                           {item.expirationDate && (
                             <p className="text-xs text-gray-500">
                               Exp: {new Date(item.expirationDate).toLocaleDateString()}
@@ -0,0 +1,193 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { DanContext, DanDeviceKey, DanKeyStatus } from '../types';
+import {
+  approveDanDeviceKey,
+  getDanContext,
+  revokeDanKey,
+  rotateDanKey,
+  setDanDeviceLabel,
+  DAN_KEY_ROTATION_OVERLAP_DAYS,
+} from '../services/vectorDBService';
+import { useToast } from './Toast';
+import { formatDisplayDate } from '../utils/date';
+
+const STATUS_STYLES: Record<DanKeyStatus, string> = {
+  active: 'bg-green-700/60 text-green-200',
+  pending: 'bg-yellow-700/60 text-yellow-200',
+  retiring: 'bg-gray-700 text-gray-300',
+  revoked: 'bg-red-800/60 text-red-200',
+};
+
+const DanDevicesPanel: React.FC = () => {
+  const [context, setContext] = useState<DanContext | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyFingerprint, setBusyFingerprint] = useState<string | null>(null);
+  const [label, setLabel] = useState('');
+  const { showToast } = useToast();
+
+  const loadContext = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setContext(await getDanContext());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load DAN devices.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadContext();
+  }, [loadContext]);
+
+  const runKeyAction = async (fingerprint: string, action: () => Promise<unknown>, success: string) => {
+    setBusyFingerprint(fingerprint);
+    try {
+      await action();
+      showToast(success, 'success');
+      await loadContext();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'DAN key update failed.', 'error');
+    } finally {
+      setBusyFingerprint(null);
+    }
+  };
+
+  const handleRevoke = (key: DanDeviceKey) => {
+    const reason = window.prompt(`Revoke ${key.deviceLabel || key.fingerprint}? Events it signed will be rejected. Reason:`);
+    if (reason === null) return;
+    runKeyAction(key.fingerprint, () => revokeDanKey(key.fingerprint, reason), 'Key revoked.');
+  };
+
+  const handleSaveLabel = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!context?.fingerprint) return;
+    await runKeyAction(context.fingerprint, () => setDanDeviceLabel(label), 'Device name saved.');
+    setLabel('');
+  };
+
+  const isActiveDevice = context?.keyStatus === 'active';
+  const signaturesByKey = (fingerprint: string) =>
+    (context?.recentSignatures || []).filter(entry => entry.fingerprint === fingerprint).length;
+
+  return (
+    <div className="bg-gray-800/50 p-6 rounded-lg border border-gray-700 shadow-lg">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-white">DAN Devices</h2>
+        {isActiveDevice && context?.fingerprint && (
+          <button
+            onClick={() => runKeyAction(context.fingerprint!, rotateDanKey, `Key rotated. The old key stays valid for ${DAN_KEY_ROTATION_OVERLAP_DAYS} days.`)}
+            disabled={busyFingerprint !== null}
+            className="px-3 py-1 rounded-md bg-indigo-600 text-white text-xs hover:bg-indigo-500 disabled:opacity-50"
+          >
+            Rotate This Device's Key
+          </button>
+        )}
+      </div>
+
+      {isLoading && <p className="text-indigo-300 text-sm">Loading...</p>}
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+
+      {!isLoading && context && (
+        <>
+          {context.reason === 'pending-approval' && (
+            <p className="mb-3 p-3 rounded-md bg-yellow-900/40 text-yellow-200 text-sm">
+              This device is waiting for approval. Approve fingerprint{' '}
+              <span className="font-mono">{context.fingerprint}</span> from an enrolled device before it can publish DAN events.
+            </p>
+          )}
+          {context.reason === 'key-revoked' && (
+            <p className="mb-3 p-3 rounded-md bg-red-900/40 text-red-200 text-sm">
+              This device's key was revoked. Reload to enroll it again with a new key.
+            </p>
+          )}
+
+          <form onSubmit={handleSaveLabel} className="flex gap-2 mb-4">
+            <input
+              className="flex-1 bg-gray-900 border border-gray-600 rounded-md px-2 py-1 text-sm text-white"
+              placeholder="Name this device (e.g. Front counter tablet)"
+              value={label}
+              onChange={e => setLabel(e.target.value)}
+            />
+            <button
+              type="submit"
+              disabled={!label.trim() || busyFingerprint !== null}
+              className="px-3 py-1 rounded-md bg-gray-700 text-white text-xs hover:bg-gray-600 disabled:opacity-50"
+            >
+              Save
+            </button>
+          </form>
+
+          <div className="space-y-2">
+            {(context.shopKeys || []).length === 0 && (
+              <p className="text-gray-500 text-sm text-center py-2">No registered keys yet.</p>
+            )}
+            {(context.shopKeys || []).map(key => {
+              const isThisDevice = key.fingerprint === context.fingerprint;
+              return (
+                <div key={key.fingerprint} className="p-3 bg-gray-900/50 rounded-md text-sm">
+                  <div className="flex justify-between items-center">
+                    <span className="font-semibold text-white">
+                      {key.deviceLabel || `Device ${key.deviceId.slice(0, 8)}`}
+                      {isThisDevice && <span className="ml-2 text-xs text-indigo-300">(this device)</span>}
+                    </span>
+                    <span className={`px-2 py-0.5 rounded text-xs ${STATUS_STYLES[key.status]}`}>{key.status}</span>
+                  </div>
+                  <p className="text-xs text-gray-400 font-mono">
+                    {key.fingerprint} · {key.algorithm || 'legacy'}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    Enrolled {formatDisplayDate(key.createdAt)}
+                    {key.approvedByFingerprint && ` · approved by ${key.approvedByFingerprint}`}
+                    {key.status === 'retiring' && key.expiresAt && ` · valid until ${formatDisplayDate(key.expiresAt)}`}
+                    {key.status === 'revoked' && key.revokedReason && ` · ${key.revokedReason}`}
+                    {isThisDevice && ` · signed ${signaturesByKey(key.fingerprint)} recent events`}
+                  </p>
+                  {isActiveDevice && key.status !== 'revoked' && (
+                    <div className="flex gap-2 mt-2">
+                      {key.status === 'pending' && (
+                        <button
+                          onClick={() => runKeyAction(key.fingerprint, () => approveDanDeviceKey(key.fingerprint), 'Device approved.')}
+                          disabled={busyFingerprint !== null}
+                          className="px-2 py-0.5 rounded text-xs bg-green-700 text-white hover:bg-green-600 disabled:opacity-50"
+                        >
+                          Approve
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleRevoke(key)}
+                        disabled={busyFingerprint !== null}
+                        className="px-2 py-0.5 rounded text-xs bg-red-700 text-white hover:bg-red-600 disabled:opacity-50"
+                      >
+                        Revoke
+                      </button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {(context.recentSignatures || []).length > 0 && (
+            <div className="mt-4">
+              <h3 className="text-sm font-semibold text-gray-300 mb-2">Recently Signed on This Device</h3>
+              <div className="space-y-1 max-h-40 overflow-y-auto">
+                {(context.recentSignatures || []).map(entry => (
+                  <div key={entry.eventId} className="flex justify-between text-xs text-gray-400">
+                    <span>{entry.eventType}</span>
+                    <span className="font-mono">{entry.fingerprint}</span>
+                    <span>{new Date(entry.createdAt).toLocaleString()}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DanDevicesPanel;
@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { DanOutboxEntry, DanOutboxSummary } from '../types';
+import {
+  getDanOutboxEntries,
+  retryDanOutboxEvents,
+  discardDanOutboxEvent,
+  subscribeToDanOutbox,
+} from '../services/vectorDBService';
+import { useToast } from './Toast';
+
+const formatTime = (value: string) => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleTimeString();
+};
+
+// Header badge for DAN events still waiting to reach Supabase; hidden while the outbox is empty
+const DanOutboxStatus: React.FC = () => {
+  const [summary, setSummary] = useState<DanOutboxSummary>({ pending: 0, failed: 0, nextAttemptAt: null });
+  const [entries, setEntries] = useState<DanOutboxEntry[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const { showToast } = useToast();
+
+  useEffect(() => subscribeToDanOutbox(setSummary), []);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    getDanOutboxEntries().then(setEntries).catch(() => setEntries([]));
+  }, [isOpen, summary]);
+
+  if (!summary.pending && !summary.failed) return null;
+
+  const runAction = async (id: string, action: () => Promise<unknown>, success: string) => {
+    setBusyId(id);
+    try {
+      await action();
+      showToast(success, 'success');
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Outbox update failed.', 'error');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDiscard = (entry: DanOutboxEntry) => {
+    if (!window.confirm(`Discard ${entry.event.eventType}? It will never be shared with the network.`)) return;
+    runAction(entry.eventId, () => discardDanOutboxEvent(entry.eventId), 'Event discarded.');
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`px-2 py-1 rounded-md text-xs font-semibold ${
+          summary.failed ? 'bg-red-800/60 text-red-200' : 'bg-yellow-700/60 text-yellow-200'
+        }`}
+        title="DAN events waiting to be sent"
+      >
+        {summary.failed ? `${summary.failed} DAN failed` : `${summary.pending} DAN queued`}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-96 bg-gray-800 border border-gray-700 rounded-md shadow-lg z-20">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700">
+            <div>
+              <p className="text-sm font-semibold text-white">DAN outbox</p>
+              <p className="text-xs text-gray-400">
+                {summary.pending} pending · {summary.failed} failed
+                {summary.nextAttemptAt && ` · next try ${formatTime(summary.nextAttemptAt)}`}
+              </p>
+            </div>
+            <button
+              onClick={() => runAction('all', () => retryDanOutboxEvents(), 'Retrying queued events.')}
+              disabled={busyId === 'all'}
+              className="text-xs text-cyan-400 hover:text-cyan-300 disabled:text-gray-500"
+            >
+              {summary.failed ? 'Retry failed' : 'Send now'}
+            </button>
+          </div>
+          <ul className="max-h-80 overflow-y-auto divide-y divide-gray-700">
+            {entries.map(entry => (
+              <li key={entry.eventId} className="px-4 py-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm text-white">{entry.event.eventType}</p>
+                    <p className="text-xs text-gray-400">
+                      {entry.status === 'failed' ? 'Failed' : 'Pending'} · {entry.attempts} attempt{entry.attempts === 1 ? '' : 's'}
+                      {entry.status === 'pending' && entry.attempts > 0 && ` · next ${formatTime(entry.nextAttemptAt)}`}
+                    </p>
+                    {entry.lastError && <p className="text-xs text-red-300 break-words">{entry.lastError}</p>}
+                  </div>
+                  <div className="flex flex-col items-end gap-1 text-xs">
+                    <button
+                      onClick={() => runAction(entry.eventId, () => retryDanOutboxEvents(entry.eventId), 'Retrying event.')}
+                      disabled={busyId === entry.eventId}
+                      className="text-cyan-400 hover:text-cyan-300 disabled:text-gray-500"
+                    >
+                      Retry
+                    </button>
+                    <button
+                      onClick={() => handleDiscard(entry)}
+                      disabled={busyId === entry.eventId}
+                      className="text-gray-400 hover:text-red-300 disabled:text-gray-500"
+                    >
+                      Discard
+                    </button>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DanOutboxStatus;
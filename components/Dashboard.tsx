@@ -5,7 +5,7 @@ import { ValueIcon } from './icons/ValueIcon';
 import { ItemsIcon } from './icons/ItemsIcon';
 import { ExpirationIcon } from './icons/ExpirationIcon';
 import { useToast } from './Toast';
-import { createCanonicalProduct, registerLocalSupplier, createBatchForShop, addInventoryBatch, getAllStockItems } from '../services/vectorDBService';
+import { createCanonicalProduct, registerLocalSupplier, createBatchForShop, addInventoryBatch, getAllStockItems, STOCKOUT_ALERT_DAYS } from '../services/vectorDBService';
 import { getAllSales } from '../services/qdrant/services/sales';
 import { ProductImage, BatchLineItem } from '../types';
 import VisualInsightsPanel from './VisualInsightsPanel';
@@ -341,6 +341,12 @@ const Dashboard: React.FC<DashboardProps> = ({ summaries, onNavigateToInventory,
         };
     }, [summaries]); // Only depend on summaries - loading state is handled in render
 
+    // Products whose forecast demand uses up stock on hand within the alert window
+    const stockoutRisks = useMemo(() => summaries
+        .filter(s => s.daysOfCover !== undefined && s.daysOfCover !== null && s.daysOfCover <= STOCKOUT_ALERT_DAYS)
+        .sort((a, b) => (a.daysOfCover ?? 0) - (b.daysOfCover ?? 0)),
+    [summaries]);
+
     return (
         <div className="space-y-8">
             <div>
@@ -441,6 +447,29 @@ const Dashboard: React.FC<DashboardProps> = ({ summaries, onNavigateToInventory,
                 </div>
             )}
 
+            {/* Stockout Forecast */}
+            {stockoutRisks.length > 0 && (
+                <div className="bg-gray-800/50 p-6 rounded-lg border border-orange-700">
+                    <h2 className="text-xl font-semibold text-white mb-4 flex items-center gap-2">
+                        <ItemsIcon className="w-6 h-6 text-orange-400" />
+                        Will Run Out Within {STOCKOUT_ALERT_DAYS} Days ({stockoutRisks.length})
+                    </h2>
+                    <ul className="space-y-2">
+                        {stockoutRisks.map(summary => (
+                            <li key={summary.productId} className="flex justify-between text-sm p-2 bg-orange-900/30 rounded-md">
+                                <span>
+                                    <span className="text-white font-medium">{summary.productName}</span>
+                                    <span className="text-gray-400 ml-2">{summary.totalQuantity} left · {summary.dailyVelocity}/day</span>
+                                </span>
+                                <span className="text-orange-300">
+                                    {summary.daysOfCover} days{summary.projectedStockoutDate ? ` (by ${summary.projectedStockoutDate})` : ''}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
             {/* Multi-Modal AI Visual Insights */}
             {isLoadingInsights ? (
                 <div className="bg-gray-800/50 p-6 rounded-lg border border-gray-700">
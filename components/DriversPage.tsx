@@ -2,14 +2,16 @@ import React, { useState } from 'react';
 import { User, Delivery } from '../types';
 import * as backendService from '../services/backendService';
 import * as geminiService from '../services/geminiService';
+import VerificationPanel from './VerificationPanel';
 
 interface DriversPageProps {
     user: User;
     deliveries: Delivery[];
     onDataChange: () => void;
+    onVerified?: () => void;
 }
 
-const DriversPage: React.FC<DriversPageProps> = ({ user, deliveries, onDataChange }) => {
+const DriversPage: React.FC<DriversPageProps> = ({ user, deliveries, onDataChange, onVerified }) => {
     const [selectedDeliveries, setSelectedDeliveries] = useState<Set<string>>(new Set());
     const [suggestedRoute, setSuggestedRoute] = useState<string | null>(null);
     const [isLoadingRoute, setIsLoadingRoute] = useState(false);
@@ -17,10 +19,23 @@ const DriversPage: React.FC<DriversPageProps> = ({ user, deliveries, onDataChang
     const isShopOnly = user.roles?.shop && !isDriver;
     
     const availableDeliveries = deliveries.filter(d => d.status === 'AWAITING_DRIVER');
-    const myDeliveries = deliveries.filter(d => d.driver?.id === user.clientId);
+    const myDeliveries = deliveries.filter(d => d.driver?.id === user.driverId);
 
     const handleAcceptDelivery = async (deliveryId: string) => {
-        await backendService.acceptDelivery(deliveryId, user);
+        try {
+            await backendService.acceptDelivery(deliveryId, user);
+        } catch (err) {
+            alert(err instanceof Error ? err.message : 'Failed to accept delivery.');
+        }
+        onDataChange();
+    };
+
+    const handleCompleteDelivery = async (deliveryId: string) => {
+        try {
+            await backendService.completeDelivery(deliveryId);
+        } catch (err) {
+            alert(err instanceof Error ? err.message : 'Failed to complete delivery.');
+        }
         onDataChange();
     };
 
@@ -61,13 +76,7 @@ const DriversPage: React.FC<DriversPageProps> = ({ user, deliveries, onDataChang
     }
 
     if (isDriver && !user.isDriverVerified) {
-        return (
-            <div className="text-center bg-gray-800/50 p-12 rounded-lg border border-gray-700">
-                <h1 className="text-2xl font-bold text-yellow-400">Driver Verification Pending</h1>
-                <p className="text-lg text-gray-400 mt-2">Your driver account is awaiting verification by the network admin.</p>
-                <p className="text-gray-500 mt-4">Once verified, you will be able to accept delivery jobs here.</p>
-            </div>
-        );
+        return <VerificationPanel kind="driver" user={user} unlocks="delivery jobs" onApproved={onVerified} />;
     }
 
     if (!isDriver) {
@@ -97,7 +106,14 @@ const DriversPage: React.FC<DriversPageProps> = ({ user, deliveries, onDataChang
                             <p className="text-sm text-gray-400">To: {d.dropoff.name}</p>
                             <div className="flex justify-between items-center mt-2">
                                 <span className="text-sm font-bold text-green-400">Fee: ${d.fee.toFixed(2)}</span>
-                                <span className="px-2 py-1 text-xs font-semibold rounded-full bg-yellow-800 text-yellow-300">{d.status}</span>
+                                <div className="flex items-center gap-2">
+                                    <span className={`px-2 py-1 text-xs font-semibold rounded-full ${d.status === 'DELIVERED' ? 'bg-green-800 text-green-300' : 'bg-yellow-800 text-yellow-300'}`}>{d.status}</span>
+                                    {d.status === 'IN_TRANSIT' && (
+                                        <button onClick={() => handleCompleteDelivery(d.id)} className="py-1 px-3 text-xs font-medium text-white bg-green-600 hover:bg-green-700 rounded-md">
+                                            Mark Delivered
+                                        </button>
+                                    )}
+                                </div>
                             </div>
                         </div>
                     ))}
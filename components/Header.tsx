@@ -1,8 +1,12 @@
 import React, { useState } from 'react';
 import { SparkleIcon } from './icons/SparkleIcon';
-import { User } from '../types';
+import NotificationInbox from './NotificationInbox';
+import DanOutboxStatus from './DanOutboxStatus';
+import { ENABLE_DAN_EXPERIMENT } from '../config';
+import { NotificationLink, User } from '../types';
+import { hasStaffPermission, resolveStaffRole, STAFF_ROLE_LABELS } from '../services/staff';
 
-type Tab = 'dashboard' | 'inventory' | 'marketplace' | 'kiosk' | 'catalog' | 'batches' | 'backend' | 'customer' | 'supplier';
+type Tab = 'dashboard' | 'inventory' | 'marketplace' | 'orders' | 'drivers' | 'kiosk' | 'catalog' | 'batches' | 'backend' | 'customer' | 'supplier' | 'policies' | 'staff' | 'shops';
 
 interface HeaderProps {
   activeTab: Tab;
@@ -10,10 +14,13 @@ interface HeaderProps {
   user: User;
   onLogout: () => void;
   isBackendAvailable: boolean;
+  onOpenNotificationLink: (link: NotificationLink) => void;
+  onSwitchShop: (shopId: string) => Promise<void>;
 }
 
-const Header: React.FC<HeaderProps> = ({ activeTab, onTabChange, user, onLogout, isBackendAvailable }) => {
+const Header: React.FC<HeaderProps> = ({ activeTab, onTabChange, user, onLogout, isBackendAvailable, onOpenNotificationLink, onSwitchShop }) => {
   const [dropdownOpen, setDropdownOpen] = useState(false);
+  const [isSwitchingShop, setIsSwitchingShop] = useState(false);
   
   // Role-based permissions: Check both role flags AND IDs
   // If user has shopId/customerId/driverId/supplierId, they have that role and permissions
@@ -21,6 +28,17 @@ const Header: React.FC<HeaderProps> = ({ activeTab, onTabChange, user, onLogout,
   const canCustomer = Boolean(user.roles?.customer || user.customerId);
   const canDriver = Boolean(user.roles?.driver || user.driverId);
   const canSupplier = Boolean(user.roles?.supplier || user.supplierId);
+  const staffRole = resolveStaffRole(user);
+  const shops = user.shops || [];
+
+  const handleShopChange = async (shopId: string) => {
+    setIsSwitchingShop(true);
+    try {
+      await onSwitchShop(shopId);
+    } finally {
+      setIsSwitchingShop(false);
+    }
+  };
   
   const getLinkClasses = (tab: Tab, isDisabled: boolean = false) => {
     let baseClasses = "px-3 py-2 rounded-md text-sm font-medium transition-colors";
@@ -34,7 +52,8 @@ const Header: React.FC<HeaderProps> = ({ activeTab, onTabChange, user, onLogout,
     return `${baseClasses} text-gray-300 hover:bg-gray-700 hover:text-white`;
   };
 
-  const isMarketplaceDisabled = !user.isVerified;
+  // Unverified shops still open these tabs, which lead them through verification
+  const needsShopVerification = !user.isVerified;
 
   return (
     <header className="bg-gray-800/50 backdrop-blur-sm sticky top-0 z-10">
@@ -56,13 +75,27 @@ const Header: React.FC<HeaderProps> = ({ activeTab, onTabChange, user, onLogout,
                   <a onClick={() => onTabChange('catalog')} className={getLinkClasses('catalog')}>Products</a>
                   <a onClick={() => onTabChange('batches')} className={getLinkClasses('batches')}>Batches</a>
                   <a 
-                    onClick={() => !isMarketplaceDisabled && onTabChange('marketplace')} 
-                    className={getLinkClasses('marketplace', isMarketplaceDisabled)}
-                    title={isMarketplaceDisabled ? 'Verification Pending' : 'Marketplace'}
+                    onClick={() => onTabChange('marketplace')} 
+                    className={getLinkClasses('marketplace')}
+                    title={needsShopVerification ? 'Verification required' : 'Marketplace'}
                   >
                     Marketplace
                   </a>
+                  <a 
+                    onClick={() => onTabChange('orders')} 
+                    className={getLinkClasses('orders')}
+                    title={needsShopVerification ? 'Verification required' : 'Orders'}
+                  >
+                    Orders
+                  </a>
                   <a onClick={() => onTabChange('kiosk')} className={getLinkClasses('kiosk')}>Kiosk</a>
+                  {hasStaffPermission(user, 'managePolicies') && (
+                    <a onClick={() => onTabChange('policies')} className={getLinkClasses('policies')}>Policies</a>
+                  )}
+                  <a onClick={() => onTabChange('staff')} className={getLinkClasses('staff')}>Staff</a>
+                  {staffRole === 'owner' && (
+                    <a onClick={() => onTabChange('shops')} className={getLinkClasses('shops')}>Shops</a>
+                  )}
                 </>
               )}
               {canCustomer && (
@@ -70,6 +103,11 @@ const Header: React.FC<HeaderProps> = ({ activeTab, onTabChange, user, onLogout,
                   Customer
                 </a>
               )}
+              {canDriver && (
+                <a onClick={() => onTabChange('drivers')} className={getLinkClasses('drivers')}>
+                  Drivers
+                </a>
+              )}
               {canSupplier && (
                 <a onClick={() => onTabChange('supplier')} className={getLinkClasses('supplier')}>
                   Supplier
@@ -78,6 +116,21 @@ const Header: React.FC<HeaderProps> = ({ activeTab, onTabChange, user, onLogout,
 
               {isBackendAvailable && <a onClick={() => onTabChange('backend')} className={getLinkClasses('backend')}>Backend</a>}
             </nav>
+            {canShop && shops.length > 1 && (
+              <select
+                value={user.shopId}
+                onChange={e => handleShopChange(e.target.value)}
+                disabled={isSwitchingShop}
+                title="Switch shop"
+                className="bg-gray-900 border border-gray-700 rounded-md px-2 py-1 text-sm text-white disabled:opacity-50"
+              >
+                {shops.map(shop => (
+                  <option key={shop.shopId} value={shop.shopId}>{shop.name}</option>
+                ))}
+              </select>
+            )}
+            {canShop && ENABLE_DAN_EXPERIMENT && <DanOutboxStatus />}
+            {canShop && <NotificationInbox user={user} onOpenLink={onOpenNotificationLink} />}
              <div className="relative">
                 <button onClick={() => setDropdownOpen(!dropdownOpen)} className="flex items-center space-x-2 p-2 rounded-lg hover:bg-gray-700">
                     <div className="w-8 h-8 bg-cyan-800 rounded-full flex items-center justify-center text-cyan-300 font-bold">
@@ -94,6 +147,7 @@ const Header: React.FC<HeaderProps> = ({ activeTab, onTabChange, user, onLogout,
                         <div className="px-4 py-2 text-xs text-gray-400">
                             Shop: {canShop ? <span className="text-green-400">Enabled</span> : <span className="text-gray-500">Off</span>}
                             {user.shopId && <span className="text-gray-500 ml-2">(ID: {user.shopId.slice(0, 8)}...)</span>}
+                            {staffRole && <span className="block text-gray-500">Role: {STAFF_ROLE_LABELS[staffRole]}</span>}
                         </div>
                         <div className="px-4 py-2 text-xs text-gray-400">
                             Customer: {canCustomer ? <span className="text-green-400">Enabled</span> : <span className="text-gray-500">Off</span>}
@@ -9,8 +9,10 @@ interface InventoryGridProps {
   summaries: ProductSummary[];
   inventoryItems: InventoryItem[];
   onSelectProduct: (product: ProductSummary) => void;
-  onEditItem: (item: InventoryItem) => void;
-  onDeleteItem: (item: InventoryItem) => void;
+  // Left out when the user's staff role does not allow the action
+  onEditItem?: (item: InventoryItem) => void;
+  onDeleteItem?: (item: InventoryItem) => void;
+  onHistoryItem?: (item: InventoryItem) => void;
 }
 
 const getInitials = (name: string) => {
@@ -22,7 +24,7 @@ const getInitials = (name: string) => {
 const EXPIRY_THRESHOLD_DAYS = 7;
 const LOW_STOCK_THRESHOLD = 10;
 
-const InventoryGrid: React.FC<InventoryGridProps> = ({ summaries, inventoryItems, onSelectProduct, onEditItem, onDeleteItem }) => {
+const InventoryGrid: React.FC<InventoryGridProps> = ({ summaries, inventoryItems, onSelectProduct, onEditItem, onDeleteItem, onHistoryItem }) => {
   const [suppliers, setSuppliers] = useState<SupplierProfile[]>([]);
   const [selectedSupplierId, setSelectedSupplierId] = useState<string>('');
   const [inventoryFilter, setInventoryFilter] = useState<'all' | 'expiringSoon' | 'lowStock'>('all');
@@ -226,26 +228,42 @@ const InventoryGrid: React.FC<InventoryGridProps> = ({ summaries, inventoryItems
                             <span>${item.costPerUnit.toFixed(2)}/unit</span>
                           </div>
                           <div className="flex justify-end gap-2 pt-1">
-                            <button
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                onEditItem(item);
-                              }}
-                              disabled={!item.inventoryUuid}
-                              className="px-2 py-1 rounded bg-gray-700 text-white disabled:opacity-40 disabled:cursor-not-allowed"
-                            >
-                              Edit
-                            </button>
-                            <button
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                onDeleteItem(item);
-                              }}
-                              disabled={!item.inventoryUuid}
-                              className="px-2 py-1 rounded bg-red-700/80 text-white disabled:opacity-40 disabled:cursor-not-allowed"
-                            >
-                              Delete
-                            </button>
+                            {onHistoryItem && (
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  onHistoryItem(item);
+                                }}
+                                disabled={!item.inventoryUuid}
+                                className="px-2 py-1 rounded bg-gray-700 text-white disabled:opacity-40 disabled:cursor-not-allowed"
+                              >
+                                History
+                              </button>
+                            )}
+                            {onEditItem && (
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  onEditItem(item);
+                                }}
+                                disabled={!item.inventoryUuid}
+                                className="px-2 py-1 rounded bg-gray-700 text-white disabled:opacity-40 disabled:cursor-not-allowed"
+                              >
+                                Edit
+                              </button>
+                            )}
+                            {onDeleteItem && (
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  onDeleteItem(item);
+                                }}
+                                disabled={!item.inventoryUuid}
+                                className="px-2 py-1 rounded bg-red-700/80 text-white disabled:opacity-40 disabled:cursor-not-allowed"
+                              >
+                                Delete
+                              </button>
+                            )}
                           </div>
                         </div>
                       ))}
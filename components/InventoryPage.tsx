@@ -1,5 +1,5 @@
 import React, { useState, useMemo, useCallback, useRef, useEffect } from 'react';
-import { ProductSummary, NewInventoryItemData, StockItem } from '../types';
+import { ProductSummary, NewInventoryItemData, StockItem, NotificationLink, User } from '../types';
 import { InventoryItem, InventoryBatch } from '../legacyTypes';
 import InventoryGrid from './InventoryGrid';
 import InventoryTable, { InventoryEditPayload } from './InventoryTable';
@@ -8,6 +8,9 @@ import ProductDetailModal from './ProductDetailModal';
 import InventoryForm from './InventoryForm';
 import CameraCapture, { CameraScanResult, ScanProductOption } from './CameraCapture';
 import ShelfScanner from './ShelfScanner';
+import StockHistoryDrawer, { MOVEMENT_REASON_LABELS } from './StockHistoryDrawer';
+import MarkdownCandidatesPanel from './MarkdownCandidatesPanel';
+import PromotionsPanel from './PromotionsPanel';
 import { GridViewIcon } from './icons/GridViewIcon';
 import { ListViewIcon } from './icons/ListViewIcon';
 import { ScanLineIcon } from './icons/ScanLineIcon';
@@ -16,6 +19,7 @@ import { ExpirationIcon } from './icons/ExpirationIcon';
 import { useToast } from './Toast';
 import { searchInventoryByImage } from '../services/geminiService';
 import { getActiveShopId, updateInventoryItem, removeInventoryItem } from '../services/vectorDBService';
+import { hasStaffPermission } from '../services/staff';
 
 interface InventoryPageProps {
   summaries: ProductSummary[];
@@ -24,6 +28,11 @@ interface InventoryPageProps {
   onAddBatch: (batch: Omit<InventoryBatch, 'id'>, items: NewInventoryItemData[]) => void;
   onDataRefresh: () => void;
   onInventoryFormActiveChange?: (isActive: boolean) => void;
+  // Item or product opened from a notification link
+  focus?: NotificationLink | null;
+  onClearFocus?: () => void;
+  // Signed-in user; their staff role decides which actions are offered
+  user: User;
 }
 
 type ViewMode = 'grid' | 'table';
@@ -35,8 +44,16 @@ const InventoryPage: React.FC<InventoryPageProps> = ({
   batches, 
   onAddBatch, 
   onDataRefresh,
-  onInventoryFormActiveChange
+  onInventoryFormActiveChange,
+  focus = null,
+  onClearFocus,
+  user,
 }) => {
+  const canEditPrices = hasStaffPermission(user, 'editPrices');
+  const canAdjustStock = hasStaffPermission(user, 'adjustStock');
+  const canDeleteInventory = hasStaffPermission(user, 'deleteInventory');
+  const canReceiveBatches = hasStaffPermission(user, 'receiveBatches');
+  const canViewFinancials = hasStaffPermission(user, 'viewFinancials');
   const [selectedProduct, setSelectedProduct] = useState<ProductSummary | null>(null);
   const [viewMode, setViewMode] = useState<ViewMode>('grid');
   const [inventoryMode, setInventoryMode] = useState<InventoryMode>('overview');
@@ -58,8 +75,31 @@ const InventoryPage: React.FC<InventoryPageProps> = ({
   const [editingItem, setEditingItem] = useState<InventoryItem | null>(null);
   const [editForm, setEditForm] = useState<InventoryEditPayload>({});
   const [deleteTarget, setDeleteTarget] = useState<InventoryItem | null>(null);
+  const [historyItem, setHistoryItem] = useState<InventoryItem | null>(null);
   const [inventoryModalError, setInventoryModalError] = useState<string | null>(null);
   const [isMutatingItem, setIsMutatingItem] = useState(false);
+  const [tagFilter, setTagFilter] = useState('');
+
+  const availableTags = useMemo(() => (
+    Array.from(new Set(items.flatMap(item => item.tags || []))).sort()
+  ), [items]);
+
+  useEffect(() => {
+    if (focus?.inventoryUuid) setViewMode('table');
+  }, [focus]);
+
+  const visibleItems = useMemo(() => items.filter(item => {
+    if (tagFilter && !(item.tags || []).includes(tagFilter)) return false;
+    if (focus?.inventoryUuid) return item.inventoryUuid === focus.inventoryUuid;
+    if (focus?.productId) return item.productId === focus.productId;
+    return true;
+  }), [items, tagFilter, focus]);
+
+  const visibleSummaries = useMemo(() => {
+    if (!tagFilter && !focus) return summaries;
+    const productIds = new Set(visibleItems.map(item => item.productId));
+    return summaries.filter(summary => productIds.has(summary.productId));
+  }, [summaries, visibleItems, tagFilter, focus]);
   const scanProductOptions = useMemo<ScanProductOption[]>(() => (
     summaries.map(summary => ({
       productId: summary.productId,
@@ -151,10 +191,19 @@ const InventoryPage: React.FC<InventoryPageProps> = ({
       location: item.location || '',
       costPerUnit: item.costPerUnit,
       sellPrice: item.sellPrice ?? undefined,
+      movementReason: 'adjustment',
     });
     setEditingItem(item);
   }, [showToast]);
 
+  const openInventoryHistory = useCallback((item: InventoryItem) => {
+    if (!item.inventoryUuid) {
+      showToast('This entry was imported without a Qdrant reference and has no stock history.', 'error');
+      return;
+    }
+    setHistoryItem(item);
+  }, [showToast]);
+
   const openInventoryDelete = useCallback((item: InventoryItem) => {
     if (!item.inventoryUuid) {
       showToast('This entry was imported without a Qdrant reference and cannot be deleted.', 'error');
@@ -278,16 +327,18 @@ const InventoryPage: React.FC<InventoryPageProps> = ({
               >
                 Overview
               </button>
-              <button
-                onClick={() => setInventoryMode('manual')}
-                className={`px-4 py-2 rounded-md text-sm font-semibold transition ${
-                  inventoryMode === 'manual'
-                    ? 'bg-cyan-600 text-white'
-                    : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
-                }`}
-              >
-                Manual Entry
-              </button>
+              {canReceiveBatches && (
+                <button
+                  onClick={() => setInventoryMode('manual')}
+                  className={`px-4 py-2 rounded-md text-sm font-semibold transition ${
+                    inventoryMode === 'manual'
+                      ? 'bg-cyan-600 text-white'
+                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }`}
+                >
+                  Manual Entry
+                </button>
+              )}
             </div>
           </div>
 
@@ -333,7 +384,9 @@ const InventoryPage: React.FC<InventoryPageProps> = ({
                 <div className="space-y-4">
                   <button
                     onClick={() => setIsShelfScanning(true)}
-                    className="w-full flex items-center justify-center gap-3 py-3 px-4 border border-transparent rounded-md shadow-sm text-base font-medium text-white bg-cyan-600 hover:bg-cyan-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-cyan-500 transition-all"
+                    disabled={!canAdjustStock}
+                    title={canAdjustStock ? undefined : 'Your staff role cannot adjust stock'}
+                    className="w-full flex items-center justify-center gap-3 py-3 px-4 border border-transparent rounded-md shadow-sm text-base font-medium text-white bg-cyan-600 hover:bg-cyan-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-cyan-500 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     <CameraIcon className="w-6 h-6" />
                     Scan Shelf
@@ -344,7 +397,9 @@ const InventoryPage: React.FC<InventoryPageProps> = ({
 
                   <button
                     onClick={() => setIsLiveScanning(true)}
-                    className="w-full flex items-center justify-center gap-3 py-3 px-4 border border-transparent rounded-md shadow-sm text-base font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-indigo-500 transition-all"
+                    disabled={!canReceiveBatches}
+                    title={canReceiveBatches ? undefined : 'Your staff role cannot receive stock'}
+                    className="w-full flex items-center justify-center gap-3 py-3 px-4 border border-transparent rounded-md shadow-sm text-base font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-indigo-500 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     <CameraIcon className="w-6 h-6" />
                     Live Scan Item
@@ -367,7 +422,9 @@ const InventoryPage: React.FC<InventoryPageProps> = ({
                   
                   <button
                     onClick={() => setInventoryMode('manual')}
-                    className="w-full flex items-center justify-center gap-3 py-3 px-4 border border-gray-600 rounded-md shadow-sm text-base font-medium text-gray-200 bg-gray-700/50 hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-cyan-500 transition-all"
+                    disabled={!canReceiveBatches}
+                    title={canReceiveBatches ? undefined : 'Your staff role cannot receive stock'}
+                    className="w-full flex items-center justify-center gap-3 py-3 px-4 border border-gray-600 rounded-md shadow-sm text-base font-medium text-gray-200 bg-gray-700/50 hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-cyan-500 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     <ScanLineIcon className="w-6 h-6" />
                     Manual Entry
@@ -401,61 +458,96 @@ const InventoryPage: React.FC<InventoryPageProps> = ({
                 )}
               </div>
               
-              <AnalysisPanel items={items} batches={batches} />
+              {canEditPrices && (
+                <>
+                  <MarkdownCandidatesPanel summaries={summaries} onDataRefresh={onDataRefresh} />
+                  <PromotionsPanel summaries={summaries} items={items} />
+                </>
+              )}
+
+              {canViewFinancials && <AnalysisPanel items={items} batches={batches} />}
             </div>
 
             <div className="lg:col-span-8 space-y-4">
               <div className="flex justify-between items-center">
                 <h2 className="text-xl font-semibold text-white">Current Inventory</h2>
-                <div className="flex items-center p-1 bg-gray-900/50 rounded-lg border border-gray-700">
-                  <button
-                    onClick={() => setViewMode('grid')}
-                    className={`p-2 rounded-md transition-colors ${
-                      viewMode === 'grid'
-                        ? 'bg-cyan-600 text-white'
-                        : 'text-gray-400 hover:text-white'
-                    }`}
-                    aria-label="Grid view"
-                    title="Grid View"
-                  >
-                    <GridViewIcon className="w-5 h-5" />
-                  </button>
-                  <button
-                    onClick={() => setViewMode('table')}
-                    className={`p-2 rounded-md transition-colors ${
-                      viewMode === 'table'
-                        ? 'bg-cyan-600 text-white'
-                        : 'text-gray-400 hover:text-white'
-                    }`}
-                    aria-label="Table view"
-                    title="Table View"
-                  >
-                    <ListViewIcon className="w-5 h-5" />
-                  </button>
+                <div className="flex items-center gap-3">
+                  {availableTags.length > 0 && (
+                    <select
+                      value={tagFilter}
+                      onChange={e => setTagFilter(e.target.value)}
+                      className="bg-gray-900 border border-gray-700 rounded-md px-3 py-2 text-sm text-white"
+                      aria-label="Filter by tag"
+                    >
+                      <option value="">All tags</option>
+                      {availableTags.map(tag => (
+                        <option key={tag} value={tag}>{tag}</option>
+                      ))}
+                    </select>
+                  )}
+                  <div className="flex items-center p-1 bg-gray-900/50 rounded-lg border border-gray-700">
+                    <button
+                      onClick={() => setViewMode('grid')}
+                      className={`p-2 rounded-md transition-colors ${
+                        viewMode === 'grid'
+                          ? 'bg-cyan-600 text-white'
+                          : 'text-gray-400 hover:text-white'
+                      }`}
+                      aria-label="Grid view"
+                      title="Grid View"
+                    >
+                      <GridViewIcon className="w-5 h-5" />
+                    </button>
+                    <button
+                      onClick={() => setViewMode('table')}
+                      className={`p-2 rounded-md transition-colors ${
+                        viewMode === 'table'
+                          ? 'bg-cyan-600 text-white'
+                          : 'text-gray-400 hover:text-white'
+                      }`}
+                      aria-label="Table view"
+                      title="Table View"
+                    >
+                      <ListViewIcon className="w-5 h-5" />
+                    </button>
+                  </div>
                 </div>
               </div>
 
+              {focus && (
+                <div className="flex items-center justify-between bg-cyan-900/30 border border-cyan-700 rounded-md px-4 py-2 text-sm text-cyan-200">
+                  <span>
+                    {visibleItems.length
+                      ? `Showing the ${focus.inventoryUuid ? 'item' : 'product'} from your notification.`
+                      : 'The item from your notification is no longer in stock.'}
+                  </span>
+                  <button onClick={onClearFocus} className="text-cyan-300 hover:text-white font-semibold">Clear</button>
+                </div>
+              )}
+
               {viewMode === 'grid' ? (
                 <InventoryGrid
-                  summaries={summaries}
-                  inventoryItems={items}
+                  summaries={visibleSummaries}
+                  inventoryItems={visibleItems}
                   onSelectProduct={setSelectedProduct}
-                  onEditItem={openInventoryEdit}
-                  onDeleteItem={openInventoryDelete}
+                  onEditItem={canAdjustStock || canEditPrices ? openInventoryEdit : undefined}
+                  onDeleteItem={canDeleteInventory ? openInventoryDelete : undefined}
+                  onHistoryItem={openInventoryHistory}
                 />
               ) : (
                 <InventoryTable
-                  inventory={items}
+                  inventory={visibleItems}
                   batches={batches}
-                  onEditRequest={openInventoryEdit}
-                  onDeleteRequest={openInventoryDelete}
+                  onEditRequest={canAdjustStock || canEditPrices ? openInventoryEdit : undefined}
+                  onDeleteRequest={canDeleteInventory ? openInventoryDelete : undefined}
+                  onHistoryRequest={openInventoryHistory}
                 />
               )}
             </div>
           </div>
         )}
 
-        {inventoryMode === 'manual' && (
+        {inventoryMode === 'manual' && canReceiveBatches && (
           <InventoryForm
             onAddBatch={async (batch, items) => {
               // Save the batch first (this already calls refreshData in App.tsx)
@@ -496,18 +588,20 @@ const InventoryPage: React.FC<InventoryPageProps> = ({
                     <input
                       type="number"
                       min={0}
-                      className="mt-1 w-full bg-gray-800 border border-gray-700 rounded-md p-2 text-white"
+                      className="mt-1 w-full bg-gray-800 border border-gray-700 rounded-md p-2 text-white disabled:opacity-50"
                       value={editForm.quantity ?? ''}
                       onChange={(e) => handleEditFormChange('quantity', e.target.value)}
+                      disabled={!canAdjustStock}
                     />
                   </label>
                   <label className="text-sm text-gray-300">
                     Expiration Date
                     <input
                       type="date"
-                      className="mt-1 w-full bg-gray-800 border border-gray-700 rounded-md p-2 text-white"
+                      className="mt-1 w-full bg-gray-800 border border-gray-700 rounded-md p-2 text-white disabled:opacity-50"
                       value={editForm.expirationDate ?? ''}
                       onChange={(e) => handleEditFormChange('expirationDate', e.target.value)}
+                      disabled={!canAdjustStock}
                     />
                   </label>
                   <label className="text-sm text-gray-300">
@@ -515,9 +609,10 @@ const InventoryPage: React.FC<InventoryPageProps> = ({
                     <input
                       type="number"
                       step="0.01"
-                      className="mt-1 w-full bg-gray-800 border border-gray-700 rounded-md p-2 text-white"
+                      className="mt-1 w-full bg-gray-800 border border-gray-700 rounded-md p-2 text-white disabled:opacity-50"
                       value={editForm.costPerUnit ?? ''}
                       onChange={(e) => handleEditFormChange('costPerUnit', e.target.value)}
+                      disabled={!canEditPrices}
                     />
                   </label>
                   <label className="text-sm text-gray-300">
@@ -525,19 +620,35 @@ const InventoryPage: React.FC<InventoryPageProps> = ({
                     <input
                       type="number"
                       step="0.01"
-                      className="mt-1 w-full bg-gray-800 border border-gray-700 rounded-md p-2 text-white"
+                      className="mt-1 w-full bg-gray-800 border border-gray-700 rounded-md p-2 text-white disabled:opacity-50"
                       value={editForm.sellPrice ?? ''}
                       onChange={(e) => handleEditFormChange('sellPrice', e.target.value)}
+                      disabled={!canEditPrices}
                     />
                   </label>
                 </div>
+                {editForm.quantity !== undefined && editForm.quantity !== editingItem.quantity && (
+                  <label className="text-sm text-gray-300 block">
+                    Reason for quantity change
+                    <select
+                      className="mt-1 w-full bg-gray-800 border border-gray-700 rounded-md p-2 text-white disabled:opacity-50"
+                      value={editForm.movementReason ?? 'adjustment'}
+                      onChange={(e) => handleEditFormChange('movementReason', e.target.value)}
+                    >
+                      {(['adjustment', 'shrinkage', 'shelf_scan_correction', 'expiry_write_off', 'transfer'] as const).map(reason => (
+                        <option key={reason} value={reason}>{MOVEMENT_REASON_LABELS[reason]}</option>
+                      ))}
+                    </select>
+                  </label>
+                )}
                 <label className="text-sm text-gray-300 block">
                   Location
                   <input
                     type="text"
-                    className="mt-1 w-full bg-gray-800 border border-gray-700 rounded-md p-2 text-white"
+                    className="mt-1 w-full bg-gray-800 border border-gray-700 rounded-md p-2 text-white disabled:opacity-50"
                     value={editForm.location ?? ''}
                     onChange={(e) => handleEditFormChange('location', e.target.value)}
+                    disabled={!canAdjustStock}
                   />
                 </label>
                 {inventoryModalError && (
@@ -567,6 +678,10 @@ const InventoryPage: React.FC<InventoryPageProps> = ({
           </div>
         )}
 
+        {historyItem && (
+          <StockHistoryDrawer item={historyItem} onClose={() => setHistoryItem(null)} />
+        )}
+
         {deleteTarget && (
           <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
             <div className="bg-gray-900 rounded-xl border border-gray-700 w-full max-w-md p-6">
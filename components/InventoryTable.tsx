@@ -1,5 +1,5 @@
 import React from 'react';
-import { InventoryItem, InventoryBatch } from '../types';
+import { InventoryItem, InventoryBatch, StockMovementReason } from '../types';
 import { formatDisplayDate } from '../utils/date';
 
 export type InventoryEditPayload = {
@@ -8,16 +8,19 @@ export type InventoryEditPayload = {
   location?: string;
   costPerUnit?: number;
   sellPrice?: number;
+  movementReason?: StockMovementReason;
 };
 
 interface InventoryTableProps {
   inventory: InventoryItem[];
   batches: InventoryBatch[];
-  onEditRequest: (item: InventoryItem) => void;
-  onDeleteRequest: (item: InventoryItem) => void;
+  // Left out when the user's staff role does not allow the action
+  onEditRequest?: (item: InventoryItem) => void;
+  onDeleteRequest?: (item: InventoryItem) => void;
+  onHistoryRequest?: (item: InventoryItem) => void;
 }
 
-const InventoryTable: React.FC<InventoryTableProps> = ({ inventory, batches, onEditRequest, onDeleteRequest }) => {
+const InventoryTable: React.FC<InventoryTableProps> = ({ inventory, batches, onEditRequest, onDeleteRequest, onHistoryRequest }) => {
   if (inventory.length === 0) {
     return (
       <div className="bg-gray-800/50 p-6 rounded-lg border border-gray-700 text-center text-gray-400">
@@ -46,7 +49,16 @@ const InventoryTable: React.FC<InventoryTableProps> = ({ inventory, batches, onE
           <tbody className="divide-y divide-gray-700 bg-gray-900/50">
             {inventory.map(item => (
               <tr key={item.id} className="hover:bg-gray-800 transition-colors">
-                <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm font-medium text-white sm:pl-6">{item.productName}</td>
+                <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm font-medium text-white sm:pl-6">
+                  {item.productName}
+                  {item.tags && item.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {item.tags.map(tag => (
+                        <span key={tag} className="px-2 py-0.5 rounded-full bg-gray-700 text-gray-300 text-xs font-normal">{tag}</span>
+                      ))}
+                    </div>
+                  )}
+                </td>
                 <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-400">{item.manufacturer}</td>
                 <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-400">{formatDisplayDate(item.expirationDate)}</td>
                 <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-400">{item.quantity} {item.quantityType}</td>
@@ -54,20 +66,33 @@ const InventoryTable: React.FC<InventoryTableProps> = ({ inventory, batches, onE
                 <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-400">${item.costPerUnit.toFixed(2)}</td>
                 <td className="whitespace-nowrap px-3 py-4 text-sm text-right text-gray-400">
                   <div className="flex justify-end gap-2">
-                    <button
-                      onClick={() => onEditRequest(item)}
-                      disabled={!item.inventoryUuid}
-                      className="px-3 py-1 rounded-md bg-gray-700 text-white text-xs hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed"
-                    >
-                      Edit
-                    </button>
-                    <button
-                      onClick={() => onDeleteRequest(item)}
-                      disabled={!item.inventoryUuid}
-                      className="px-3 py-1 rounded-md bg-red-700/70 text-white text-xs hover:bg-red-700 disabled:opacity-40 disabled:cursor-not-allowed"
-                    >
-                      Delete
-                    </button>
+                    {onHistoryRequest && (
+                      <button
+                        onClick={() => onHistoryRequest(item)}
+                        disabled={!item.inventoryUuid}
+                        className="px-3 py-1 rounded-md bg-gray-700 text-white text-xs hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed"
+                      >
+                        History
+                      </button>
+                    )}
+                    {onEditRequest && (
+                      <button
+                        onClick={() => onEditRequest(item)}
+                        disabled={!item.inventoryUuid}
+                        className="px-3 py-1 rounded-md bg-gray-700 text-white text-xs hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed"
+                      >
+                        Edit
+                      </button>
+                    )}
+                    {onDeleteRequest && (
+                      <button
+                        onClick={() => onDeleteRequest(item)}
+                        disabled={!item.inventoryUuid}
+                        className="px-3 py-1 rounded-md bg-red-700/70 text-white text-xs hover:bg-red-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                      >
+                        Delete
+                      </button>
+                    )}
                   </div>
                 </td>
               </tr>
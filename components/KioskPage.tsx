@@ -1,6 +1,14 @@
 
-import React, { useState, useMemo } from 'react';
-import { ProductSummary } from '../types';
+import React, { useState, useMemo, useEffect } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { ProductSummary, Promotion } from '../types';
+import {
+  applyPromotions,
+  describePromotion,
+  getActivePromotionsForShop,
+  promotionAppliesTo,
+  quoteSale,
+} from '../services/vectorDBService';
 import { ShoppingCartIcon } from './icons/ShoppingCartIcon';
 import { ItemsIcon } from './icons/ItemsIcon';
 import { PlusIcon } from './icons/PlusIcon';
@@ -13,29 +21,48 @@ const RETAIL_MARKUP = 1.4; // 40% markup - fallback only
 
 interface KioskPageProps {
   summaries: ProductSummary[];
-  onPurchase: (cart: { productName: string; quantity: number }[]) => void;
+  onPurchase: (cart: { productName: string; quantity: number }[], idempotencyKey: string) => Promise<void>;
 }
 
 interface CartItem {
+  productId: string;
   productName: string;
+  category: string;
   quantity: number;
   price: number;
 }
 
+// Wait for the cart to settle before asking for a quote
+const QUOTE_DEBOUNCE_MS = 300;
+
 const KioskPage: React.FC<KioskPageProps> = ({ summaries, onPurchase }) => {
   const [cart, setCart] = useState<CartItem[]>([]);
   const [purchaseComplete, setPurchaseComplete] = useState(false);
+  // Reused until the checkout succeeds so retries are recorded once
+  const [checkoutKey, setCheckoutKey] = useState(() => uuidv4());
   const [selectedCategory, setSelectedCategory] = useState('All');
   const [isScanning, setIsScanning] = useState(false);
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [quotedTotal, setQuotedTotal] = useState<number | null>(null);
+
+  useEffect(() => {
+    getActivePromotionsForShop()
+      .then(setPromotions)
+      .catch(error => console.error('Failed to load promotions:', error));
+  }, [summaries]);
 
   const products = useMemo(() => {
     return summaries
         .map(summary => {
             // Use actual sellPrice from DB if available, otherwise fallback to calculated markup
             const price = summary.averageSellPrice ?? (summary.averageCostPerUnit * RETAIL_MARKUP);
+            const line = { productId: summary.productId, category: summary.category };
+            const [priced] = applyPromotions([{ ...line, quantity: 1, basePrice: price }], promotions);
             return {
                 ...summary,
-                price
+                price,
+                promoPrice: priced.unitPrice < price ? priced.unitPrice : null,
+                promoLabels: promotions.filter(promotion => promotionAppliesTo(promotion, line)).map(describePromotion),
             };
         })
         .filter(product => {
@@ -49,7 +76,7 @@ const KioskPage: React.FC<KioskPageProps> = ({ summaries, onPurchase }) => {
       return ['All', ...Array.from(allCategories)];
   }, [summaries]);
 
-  const handleAddToCart = (product: typeof products[0]) => {
+  const handleAddToCart = (product: Pick<typeof products[0], 'productId' | 'productName' | 'category' | 'price'>) => {
     setCart(prevCart => {
       const existingItem = prevCart.find(item => item.productName === product.productName);
       if (existingItem) {
@@ -63,7 +90,13 @@ const KioskPage: React.FC<KioskPageProps> = ({ summaries, onPurchase }) => {
             : item
         );
       }
-      return [...prevCart, { productName: product.productName, quantity: 1, price: product.price }];
+      return [...prevCart, {
+        productId: product.productId,
+        productName: product.productName,
+        category: product.category,
+        quantity: 1,
+        price: product.price,
+      }];
     });
   };
   
@@ -83,12 +116,39 @@ const KioskPage: React.FC<KioskPageProps> = ({ summaries, onPurchase }) => {
     setCart(prevCart => prevCart.filter(item => item.productName !== productName));
   };
   
-  const cartTotal = useMemo(() => {
-    return cart.reduce((total, item) => total + item.price * item.quantity, 0);
-  }, [cart]);
+  // Estimate from average prices until the lot-level quote (what recordSale will charge) arrives
+  const pricedCart = useMemo(() => applyPromotions(
+    cart.map(item => ({ productId: item.productId, category: item.category, quantity: item.quantity, basePrice: item.price })),
+    promotions,
+  ), [cart, promotions]);
 
-  const handleCheckout = () => {
-    onPurchase(cart.map(({ productName, quantity }) => ({ productName, quantity })));
+  useEffect(() => {
+    setQuotedTotal(null);
+    if (cart.length === 0) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      quoteSale(cart.map(({ productName, quantity }) => ({ productName, quantity })))
+        .then(quote => {
+          if (!cancelled) setQuotedTotal(quote.totalAmount);
+        })
+        .catch(error => console.warn('Failed to quote cart:', error));
+    }, QUOTE_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [cart, promotions]);
+
+  const cartTotal = quotedTotal ?? pricedCart.reduce((total, line) => total + line.lineTotal, 0);
+
+  const handleCheckout = async () => {
+    try {
+      await onPurchase(cart.map(({ productName, quantity }) => ({ productName, quantity })), checkoutKey);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Checkout failed. Please try again.');
+      return;
+    }
+    setCheckoutKey(uuidv4());
     setCart([]);
     setPurchaseComplete(true);
     setTimeout(() => setPurchaseComplete(false), 4000); // Reset message after 4s
@@ -173,7 +233,19 @@ const KioskPage: React.FC<KioskPageProps> = ({ summaries, onPurchase }) => {
                      </div>
                     <h3 className="font-semibold text-white truncate">{product.productName}</h3>
                     <p className="text-sm text-gray-400 mb-2 truncate">{product.manufacturer}</p>
-                    <p className="text-xl font-bold text-cyan-400">${product.price.toFixed(2)}</p>
+                    {product.promoPrice !== null ? (
+                      <p className="text-xl font-bold text-cyan-400">
+                        ${product.promoPrice.toFixed(2)}{' '}
+                        <span className="text-sm font-normal text-gray-500 line-through">${product.price.toFixed(2)}</span>
+                      </p>
+                    ) : (
+                      <p className="text-xl font-bold text-cyan-400">${product.price.toFixed(2)}</p>
+                    )}
+                    {product.promoLabels.map(label => (
+                      <span key={label} className="inline-block mt-1 mr-1 px-2 py-0.5 rounded-full bg-yellow-500/20 text-yellow-300 text-xs">
+                        {label}
+                      </span>
+                    ))}
                   </div>
                   <div className="p-4 bg-gray-900/50">
                     <button 
@@ -208,11 +280,18 @@ const KioskPage: React.FC<KioskPageProps> = ({ summaries, onPurchase }) => {
           {cart.length > 0 ? (
             <div className="space-y-4">
               <ul className="space-y-3 max-h-80 overflow-y-auto pr-2 -mr-2">
-                {cart.map(item => (
+                {cart.map((item, index) => (
                   <li key={item.productName} className="flex items-center gap-4 text-sm">
                     <div className="flex-grow">
                       <p className="font-medium text-white truncate">{item.productName}</p>
-                      <p className="text-gray-400">${item.price.toFixed(2)}</p>
+                      {pricedCart[index].promotionId ? (
+                        <p className="text-yellow-300">
+                          ${pricedCart[index].unitPrice.toFixed(2)}{' '}
+                          <span className="text-gray-500 line-through">${item.price.toFixed(2)}</span>
+                        </p>
+                      ) : (
+                        <p className="text-gray-400">${item.price.toFixed(2)}</p>
+                      )}
                     </div>
                     <div className="flex items-center gap-1 bg-gray-700/50 rounded-md">
                       <button onClick={() => updateCartQuantity(item.productName, -1)} className="p-1 text-gray-300 hover:text-white"><MinusIcon className="w-4 h-4"/></button>
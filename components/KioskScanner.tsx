@@ -3,7 +3,7 @@ import { ProductSummary } from '../types';
 import { identifyProductNameFromImage } from '../services/geminiService';
 
 interface KioskScannerProps {
-  summaries: ProductSummary[];
+  summaries: Pick<ProductSummary, 'productName'>[]; // Candidate products the scanner can recognise
   onProductScanned: (productName: string) => void;
   onClose: () => void;
 }
@@ -0,0 +1,121 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { MarkdownCandidate, ProductSummary } from '../types';
+import { applyMarkdown, getMarkdownCandidates, sweepExpiredStock } from '../services/vectorDBService';
+import { useToast } from './Toast';
+import { formatDisplayDate } from '../utils/date';
+
+interface MarkdownCandidatesPanelProps {
+  summaries: ProductSummary[];
+  onDataRefresh: () => void;
+}
+
+const MarkdownCandidatesPanel: React.FC<MarkdownCandidatesPanelProps> = ({ summaries, onDataRefresh }) => {
+  const [candidates, setCandidates] = useState<MarkdownCandidate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [isSweeping, setIsSweeping] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { showToast } = useToast();
+
+  const productNames = useMemo(
+    () => new Map(summaries.map(summary => [summary.productId, summary.productName])),
+    [summaries],
+  );
+
+  const loadCandidates = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setCandidates(await getMarkdownCandidates());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load markdown candidates.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCandidates();
+  }, [loadCandidates, summaries]);
+
+  const handleApply = async (candidate: MarkdownCandidate) => {
+    setBusyId(candidate.inventoryUuid);
+    try {
+      await applyMarkdown(candidate.inventoryUuid, candidate.suggestedSellPrice);
+      showToast(`Marked down to $${candidate.suggestedSellPrice.toFixed(2)}.`, 'success');
+      onDataRefresh();
+    } catch (error) {
+      showToast('Markdown failed: ' + (error instanceof Error ? error.message : 'Unknown error'), 'error');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSweep = async () => {
+    setIsSweeping(true);
+    try {
+      const result = await sweepExpiredStock();
+      showToast(
+        result.expiredLots > 0
+          ? `Wrote off ${result.expiredLots} expired lot(s): ${result.unitsWrittenOff} units, $${result.costOfGoodsLoss.toFixed(2)} at cost.`
+          : 'No expired lots to write off.',
+        result.expiredLots > 0 ? 'success' : 'info',
+      );
+      if (result.expiredLots > 0) onDataRefresh();
+    } catch (error) {
+      showToast('Expiry sweep failed: ' + (error instanceof Error ? error.message : 'Unknown error'), 'error');
+    } finally {
+      setIsSweeping(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800/50 p-6 rounded-lg border border-gray-700 shadow-lg">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-white">Markdown Candidates</h2>
+        <button
+          onClick={handleSweep}
+          disabled={isSweeping}
+          className="px-3 py-1 rounded-md bg-red-700/70 text-white text-xs hover:bg-red-700 disabled:opacity-50"
+        >
+          {isSweeping ? 'Sweeping...' : 'Write Off Expired'}
+        </button>
+      </div>
+      {isLoading && <p className="text-cyan-400 text-sm">Loading...</p>}
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+      {!isLoading && !error && candidates.length === 0 && (
+        <p className="text-gray-500 text-sm text-center py-2">No lots are close to expiry.</p>
+      )}
+      <div className="space-y-2 max-h-64 overflow-y-auto">
+        {candidates.map(candidate => (
+          <div key={candidate.inventoryUuid} className="p-3 bg-gray-900/50 rounded-md text-sm">
+            <div className="flex justify-between">
+              <span className="font-semibold text-white">{productNames.get(candidate.productId) || candidate.productId}</span>
+              <span className="text-yellow-300 text-xs">
+                {candidate.daysUntilExpiry === 0 ? 'Expires today' : `${candidate.daysUntilExpiry}d left`}
+              </span>
+            </div>
+            <p className="text-xs text-gray-400">
+              {candidate.quantity} units · Exp {formatDisplayDate(candidate.expirationDate)}
+            </p>
+            <div className="flex justify-between items-center mt-2">
+              <span className="text-gray-300">
+                <span className="line-through text-gray-500">${candidate.currentSellPrice.toFixed(2)}</span>{' '}
+                ${candidate.suggestedSellPrice.toFixed(2)} (-{candidate.discountPercent}%)
+              </span>
+              <button
+                onClick={() => handleApply(candidate)}
+                disabled={busyId === candidate.inventoryUuid}
+                className="px-3 py-1 rounded-md bg-cyan-600 text-white text-xs hover:bg-cyan-500 disabled:opacity-50"
+              >
+                Apply
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default MarkdownCandidatesPanel;
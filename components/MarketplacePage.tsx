@@ -1,17 +1,51 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { ProductSummary, User, PeerShop, PeerListing, MarketplaceListing, DanInventoryOffer } from '../types';
+import { ProductSummary, User, PeerShop, PeerListing, MarketplaceListing, DanInventoryOffer, DanShopReputation, DanOpenReservation } from '../types';
 import * as backendService from '../services/backendService';
-import { getMyMarketplaceListings, listProductOnMarketplace, getDanInventoryOffers } from '../services/vectorDBService';
+import {
+  getMyMarketplaceListings,
+  listProductOnMarketplace,
+  getDanInventoryOffers,
+  startDanInventorySync,
+  getShopReputations,
+  filterDanOffers,
+  reserveDanOffer,
+  getOpenDanReservations,
+  fulfillDanReservation,
+} from '../services/vectorDBService';
 import ListProductModal from './ListProductModal';
+import DanDevicesPanel from './DanDevicesPanel';
+import VerificationPanel from './VerificationPanel';
 import { ENABLE_DAN_EXPERIMENT } from '../config';
 
+const TIER_STYLES: Record<DanShopReputation['tier'], string> = {
+  trusted: 'border-green-400 text-green-300',
+  fair: 'border-yellow-400 text-yellow-300',
+  poor: 'border-red-400 text-red-300',
+  new: 'border-gray-500 text-gray-400',
+};
+
+const formatRate = (value: number | null) => (value === null ? '—' : `${Math.round(value * 100)}%`);
+
+const ReputationBadge: React.FC<{ reputation?: DanShopReputation }> = ({ reputation }) => {
+  if (!reputation) return null;
+  const title = reputation.tier === 'new'
+    ? 'Not enough recent reservations to score this shop'
+    : `Fill ${formatRate(reputation.fillRate)} · on time ${formatRate(reputation.onTimeRate)} · cancelled ${formatRate(reputation.cancellationRate)} · quantity accuracy ${formatRate(reputation.quantityAccuracy)}`;
+  return (
+    <span className={`text-xs px-2 py-1 rounded-full border ${TIER_STYLES[reputation.tier]}`} title={title}>
+      {reputation.tier === 'new' ? 'New seller' : `${reputation.tier.charAt(0).toUpperCase()}${reputation.tier.slice(1)} · ${reputation.score}`}
+    </span>
+  );
+};
+
 interface MarketplacePageProps {
   summaries: ProductSummary[];
   user: User;
-  onPurchase: (item: PeerListing, quantity: number) => void;
+  onPurchase: (item: PeerListing, quantity: number) => Promise<void>;
+  onVerified?: () => void;
 }
 
-const MarketplacePage: React.FC<MarketplacePageProps> = ({ summaries, user, onPurchase }) => {
+const MarketplacePage: React.FC<MarketplacePageProps> = ({ summaries, user, onPurchase, onVerified }) => {
   const [peerData, setPeerData] = useState<PeerShop[]>([]);
   const [myListings, setMyListings] = useState<MarketplaceListing[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -21,6 +55,11 @@ const MarketplacePage: React.FC<MarketplacePageProps> = ({ summaries, user, onPu
   const [danOffers, setDanOffers] = useState<DanInventoryOffer[]>([]);
   const [isDanLoading, setIsDanLoading] = useState(false);
   const [danError, setDanError] = useState<string | null>(null);
+  const [reputations, setReputations] = useState<Record<string, DanShopReputation>>({});
+  // inventoryUuid -> name of the reject_offer policy that hid it
+  const [hiddenOffers, setHiddenOffers] = useState<Record<string, string>>({});
+  const [showHiddenOffers, setShowHiddenOffers] = useState(false);
+  const [openReservations, setOpenReservations] = useState<DanOpenReservation[]>([]);
 
   const fetchData = useCallback(async () => {
     if (!user.isVerified) {
@@ -44,19 +83,31 @@ const MarketplacePage: React.FC<MarketplacePageProps> = ({ summaries, user, onPu
     }
   }, [user]);
 
-  const fetchDanOffers = useCallback(async () => {
+  const fetchDanOffers = useCallback(async (forceRefresh = false) => {
     if (!ENABLE_DAN_EXPERIMENT) return;
     setIsDanLoading(true);
     setDanError(null);
     try {
       const offers = await getDanInventoryOffers();
       setDanOffers(offers);
+      // Offers still show if reputation or the filters cannot be loaded
+      const shopIds = Array.from(new Set(offers.map(offer => offer.shopId)));
+      const scores = await getShopReputations(shopIds, forceRefresh).catch(err => {
+        console.warn('[DAN] Failed to load shop reputations', err);
+        return {} as Record<string, DanShopReputation>;
+      });
+      setReputations(scores);
+      setOpenReservations(await getOpenDanReservations(user.shopId || user.clientId).catch(err => {
+        console.warn('[DAN] Failed to load reservations on your offers', err);
+        return [] as DanOpenReservation[];
+      }));
+      setHiddenOffers(await filterDanOffers(offers, scores, user.shopId || user.clientId).catch(() => ({})));
     } catch (err) {
       setDanError(err instanceof Error ? err.message : 'Failed to load DAN offers.');
     } finally {
       setIsDanLoading(false);
     }
-  }, []);
+  }, [user.shopId, user.clientId]);
 
   useEffect(() => {
     fetchData();
@@ -69,27 +120,69 @@ const MarketplacePage: React.FC<MarketplacePageProps> = ({ summaries, user, onPu
     }
   }, [viewMode, fetchDanOffers]);
 
+  // Keep the DAN feed live while it is on screen
+  useEffect(() => {
+    if (!ENABLE_DAN_EXPERIMENT || viewMode !== 'dan') return;
+    return startDanInventorySync(() => {
+      fetchDanOffers();
+    });
+  }, [viewMode, fetchDanOffers]);
+
   const handleListProduct = async (productName: string, quantity: number, price: number) => {
     const product = summaries.find(s => s.productName === productName);
     if (!product) return;
     
-    const productId = productName.toLowerCase().replace(/ /g, '-');
-    await listProductOnMarketplace({ productId, productName, quantity, price });
-    setIsModalOpen(false);
-    fetchData(); // Refresh listings
+    try {
+      await listProductOnMarketplace({ productId: product.productId, productName, quantity, price });
+      setIsModalOpen(false);
+      fetchData(); // Refresh listings
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to list product.');
+    }
+  };
+
+  const handleDanOfferInterest = async (offer: DanInventoryOffer) => {
+    const quantity = prompt(`How many units of ${offer.productName} would you like to reserve? (Available: ${offer.quantity})`, '1');
+    if (!quantity) return;
+    try {
+      await reserveDanOffer(offer, parseInt(quantity, 10));
+      alert(`Reservation sent! Coordinate with ${offer.shopName || offer.shopId} to fulfill ${offer.productName}.`);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to reserve offer.');
+    }
   };
 
-  const handleDanOfferInterest = (offer: DanInventoryOffer) => {
-    alert(`Signal sent! Coordinate with ${offer.shopName || offer.shopId} to fulfill ${offer.productName}.`);
+  const handleFulfilReservation = async (reservation: DanOpenReservation) => {
+    const open = reservation.reservedQuantity - reservation.fulfilledQuantity;
+    const quantity = prompt(`How many units of ${reservation.productName} are you sending to ${reservation.reservedBy}? (Open: ${open})`, String(open));
+    if (!quantity) return;
+    try {
+      await fulfillDanReservation(reservation, parseInt(quantity, 10));
+      await fetchDanOffers(true);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to fulfil reservation.');
+    }
   };
+
+  const peerDanOffers = danOffers.filter(offer => offer.shopId !== (user.shopId || user.clientId));
+  const hiddenOfferCount = peerDanOffers.filter(offer => hiddenOffers[offer.inventoryUuid]).length;
+  const visibleDanOffers = showHiddenOffers
+    ? peerDanOffers
+    : peerDanOffers.filter(offer => !hiddenOffers[offer.inventoryUuid]);
   
-  const handleBuyItem = (item: PeerListing) => {
+  const handleBuyItem = async (item: PeerListing) => {
       const quantity = prompt(`How many units of ${item.productName} would you like to buy? (Available: ${item.quantity})`, "1");
       if (quantity) {
           const numQuantity = parseInt(quantity, 10);
           if (!isNaN(numQuantity) && numQuantity > 0 && numQuantity <= item.quantity) {
-              onPurchase(item, numQuantity);
-              alert(`Successfully purchased ${numQuantity} ${item.productName}! It has been added to your inventory.`);
+              try {
+                  await onPurchase(item, numQuantity);
+                  alert(`Successfully purchased ${numQuantity} ${item.productName}! It has been added to your inventory.`);
+              } catch (err) {
+                  alert(err instanceof Error ? err.message : 'Purchase failed.');
+              } finally {
+                  fetchData(); // Refresh remaining quantities
+              }
           } else {
               alert("Invalid quantity entered.");
           }
@@ -97,14 +190,7 @@ const MarketplacePage: React.FC<MarketplacePageProps> = ({ summaries, user, onPu
   }
 
   if (!user.isVerified) {
-    return (
-        <div className="text-center bg-gray-800/50 p-12 rounded-lg border border-gray-700">
-            <h1 className="text-2xl font-bold text-yellow-400">Verification Pending</h1>
-            <p className="text-lg text-gray-400 mt-2">Your shop is awaiting verification by the network admin.</p>
-            <p className="text-gray-500 mt-4">Once verified, you will be able to access the peer-to-peer marketplace here.</p>
-            <p className="text-gray-500 mt-1">Navigate to the "Backend" tab to simulate the admin view and verify this shop.</p>
-        </div>
-    );
+    return <VerificationPanel kind="shop" user={user} unlocks="the peer-to-peer marketplace" onApproved={onVerified} />;
   }
 
   return (
@@ -227,26 +313,68 @@ const MarketplacePage: React.FC<MarketplacePageProps> = ({ summaries, user, onPu
                   {danError && <p className="text-red-400">{danError}</p>}
                   {!isDanLoading && !danError && (
                     <>
-                      {danOffers.filter(offer => offer.shopId !== (user.shopId || user.clientId)).length === 0 ? (
+                      {openReservations.length > 0 && (
+                        <div className="p-4 rounded-lg border border-indigo-700 bg-indigo-900/20 space-y-2">
+                          <p className="text-sm font-semibold text-indigo-200">Reservations on your offers</p>
+                          <p className="text-xs text-gray-400">Unfulfilled reservations count as cancelled after 48 hours.</p>
+                          {openReservations.map(reservation => (
+                            <div key={reservation.reservationEventId} className="flex items-center justify-between text-sm text-gray-300">
+                              <span>
+                                {reservation.reservedBy} reserved {reservation.reservedQuantity} × {reservation.productName}
+                                {reservation.fulfilledQuantity > 0 && ` (${reservation.fulfilledQuantity} sent)`}
+                                <span className="text-xs text-gray-500"> · {new Date(reservation.reservedAt).toLocaleString()}</span>
+                              </span>
+                              <button
+                                onClick={() => handleFulfilReservation(reservation)}
+                                className="py-1 px-3 rounded-md text-xs font-medium text-white bg-indigo-600 hover:bg-indigo-700"
+                              >
+                                Fulfil
+                              </button>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      {hiddenOfferCount > 0 && (
+                        <div className="flex items-center justify-between text-sm text-gray-400">
+                          <span>{hiddenOfferCount} offer{hiddenOfferCount === 1 ? '' : 's'} hidden by your offer policies</span>
+                          <button
+                            onClick={() => setShowHiddenOffers(!showHiddenOffers)}
+                            className="text-indigo-300 hover:text-indigo-200"
+                          >
+                            {showHiddenOffers ? 'Hide them' : 'Show them'}
+                          </button>
+                        </div>
+                      )}
+                      {visibleDanOffers.length === 0 ? (
                         <p className="text-gray-400">
-                          No external DAN offers yet. Encourage peers to opt-in sharing from Inventory &gt; Manual Entry.
+                          {peerDanOffers.length
+                            ? 'Every peer offer is hidden by your offer policies.'
+                            : 'No external DAN offers yet. Encourage peers to opt-in sharing from Inventory > Manual Entry.'}
                         </p>
                       ) : (
                         <div className="grid grid-cols-1 gap-4">
-                          {danOffers
-                            .filter(offer => offer.shopId !== (user.shopId || user.clientId))
+                          {visibleDanOffers
                             .map(offer => (
-                              <div key={offer.inventoryUuid} className="p-4 rounded-lg border border-gray-700 bg-gray-900/40">
+                              <div
+                                key={offer.inventoryUuid}
+                                className={`p-4 rounded-lg border border-gray-700 bg-gray-900/40 ${hiddenOffers[offer.inventoryUuid] ? 'opacity-60' : ''}`}
+                              >
                                 <div className="flex items-center justify-between">
                                   <div>
                                     <p className="text-lg font-semibold text-white">{offer.productName}</p>
                                     <p className="text-xs text-gray-400">
                                       From {offer.shopName || offer.shopId}
                                     </p>
+                                    {hiddenOffers[offer.inventoryUuid] && (
+                                      <p className="text-xs text-yellow-300">Hidden by “{hiddenOffers[offer.inventoryUuid]}”</p>
+                                    )}
+                                  </div>
+                                  <div className="flex items-center gap-2">
+                                    <ReputationBadge reputation={reputations[offer.shopId]} />
+                                    <span className="text-xs px-2 py-1 rounded-full border border-indigo-400 text-indigo-300">
+                                      DAN
+                                    </span>
                                   </div>
-                                  <span className="text-xs px-2 py-1 rounded-full border border-indigo-400 text-indigo-300">
-                                    DAN
-                                  </span>
                                 </div>
                                 <div className="mt-3 grid grid-cols-1 md:grid-cols-4 gap-3 text-sm text-gray-300">
                                   <div>
@@ -286,6 +414,11 @@ const MarketplacePage: React.FC<MarketplacePageProps> = ({ summaries, user, onPu
                 </div>
               )}
             </div>
+            {viewMode === 'dan' && ENABLE_DAN_EXPERIMENT && (
+              <div className="mt-8">
+                <DanDevicesPanel />
+              </div>
+            )}
           </div>
         </div>
       </div>
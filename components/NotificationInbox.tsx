@@ -0,0 +1,250 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { AppNotification, NotificationLink, NotificationSubscription, User } from '../types';
+import {
+  getNotifications,
+  markNotificationRead,
+  markAllNotificationsRead,
+  getNotificationSubscription,
+  saveNotificationSubscription,
+} from '../services/vectorDBService';
+import { BellIcon } from './icons/BellIcon';
+import { useToast } from './Toast';
+
+const POLL_INTERVAL_MS = 30 * 1000;
+
+interface NotificationInboxProps {
+  user: User;
+  onOpenLink: (link: NotificationLink) => void;
+}
+
+const formatTimestamp = (value: string) => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString();
+};
+
+const NotificationInbox: React.FC<NotificationInboxProps> = ({ user, onOpenLink }) => {
+  const shopId = user.shopId;
+  const [isOpen, setIsOpen] = useState(false);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [showSettings, setShowSettings] = useState(false);
+  const [subscription, setSubscription] = useState<NotificationSubscription | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { showToast } = useToast();
+
+  const loadNotifications = useCallback(async () => {
+    if (!shopId) return;
+    try {
+      setNotifications(await getNotifications(shopId, user.clientId));
+    } catch (err) {
+      console.warn('[Notifications] Failed to load inbox', err);
+    }
+  }, [shopId, user.clientId]);
+
+  useEffect(() => {
+    loadNotifications();
+    const timer = setInterval(loadNotifications, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [loadNotifications]);
+
+  useEffect(() => {
+    if (!showSettings || !shopId) return;
+    getNotificationSubscription(shopId, user.clientId)
+      .then(saved => setSubscription({ ...saved, emailAddress: saved.emailAddress || user.email }))
+      .catch(err => showToast(err instanceof Error ? err.message : 'Failed to load notification settings.', 'error'));
+  }, [showSettings, shopId, user.clientId, user.email, showToast]);
+
+  if (!shopId) return null;
+
+  const unreadCount = notifications.filter(notification => !notification.read).length;
+
+  const handleOpen = async (notification: AppNotification) => {
+    if (!notification.read) {
+      try {
+        await markNotificationRead(notification.id);
+        setNotifications(prev => prev.map(entry => (entry.id === notification.id ? { ...entry, read: true } : entry)));
+      } catch (err) {
+        console.warn('[Notifications] Failed to mark notification read', err);
+      }
+    }
+    if (notification.link) {
+      setIsOpen(false);
+      onOpenLink(notification.link);
+    }
+  };
+
+  const handleToggleRead = async (notification: AppNotification) => {
+    try {
+      await markNotificationRead(notification.id, !notification.read);
+      setNotifications(prev => prev.map(entry => (entry.id === notification.id ? { ...entry, read: !entry.read } : entry)));
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to update notification.', 'error');
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await markAllNotificationsRead(shopId, user.clientId);
+      setNotifications(prev => prev.map(entry => ({ ...entry, read: true })));
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to update notifications.', 'error');
+    }
+  };
+
+  const handleMutePolicy = async (policyId: string) => {
+    try {
+      const saved = await getNotificationSubscription(shopId, user.clientId);
+      const { updatedAt, ...settings } = saved;
+      setSubscription(await saveNotificationSubscription({
+        ...settings,
+        mutedPolicyIds: Array.from(new Set([...saved.mutedPolicyIds, policyId])),
+      }));
+      showToast('You will no longer be notified by this policy.', 'success');
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to mute policy.', 'error');
+    }
+  };
+
+  const handleSaveSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!subscription) return;
+    setIsSaving(true);
+    try {
+      const { updatedAt, ...settings } = subscription;
+      setSubscription(await saveNotificationSubscription(settings));
+      showToast('Notification settings saved.', 'success');
+      setShowSettings(false);
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to save notification settings.', 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 rounded-lg text-gray-300 hover:bg-gray-700 hover:text-white"
+        title="Notifications"
+      >
+        <BellIcon className="w-6 h-6" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-cyan-600 text-white text-xs font-bold flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-96 bg-gray-800 border border-gray-700 rounded-md shadow-lg z-20">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700">
+            <p className="text-sm font-semibold text-white">Notifications</p>
+            <div className="flex items-center gap-3 text-xs">
+              {unreadCount > 0 && (
+                <button onClick={handleMarkAllRead} className="text-cyan-400 hover:text-cyan-300">Mark all read</button>
+              )}
+              <button onClick={() => setShowSettings(!showSettings)} className="text-gray-400 hover:text-white">
+                {showSettings ? 'Inbox' : 'Settings'}
+              </button>
+            </div>
+          </div>
+
+          {showSettings ? (
+            <form onSubmit={handleSaveSettings} className="px-4 py-3 space-y-3 text-sm text-gray-300">
+              {!subscription ? (
+                <p className="text-gray-400">Loading settings...</p>
+              ) : (
+                <>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={subscription.inApp}
+                      onChange={e => setSubscription({ ...subscription, inApp: e.target.checked })}
+                    />
+                    Show policy alerts in this inbox
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={subscription.email}
+                      onChange={e => setSubscription({ ...subscription, email: e.target.checked })}
+                    />
+                    Email me policy alerts
+                  </label>
+                  {subscription.email && (
+                    <input
+                      type="email"
+                      value={subscription.emailAddress || ''}
+                      onChange={e => setSubscription({ ...subscription, emailAddress: e.target.value })}
+                      placeholder="name@example.com"
+                      className="w-full bg-gray-900 border border-gray-700 rounded-md px-3 py-2 text-white"
+                    />
+                  )}
+                  {subscription.mutedPolicyIds.length > 0 && (
+                    <div className="flex items-center justify-between text-xs text-gray-400">
+                      <span>{subscription.mutedPolicyIds.length} muted polic{subscription.mutedPolicyIds.length === 1 ? 'y' : 'ies'}</span>
+                      <button
+                        type="button"
+                        onClick={() => setSubscription({ ...subscription, mutedPolicyIds: [] })}
+                        className="text-cyan-400 hover:text-cyan-300"
+                      >
+                        Unmute all
+                      </button>
+                    </div>
+                  )}
+                  <p className="text-xs text-gray-500">Emails are sent by the server policy worker when SMTP is configured.</p>
+                  <button
+                    type="submit"
+                    disabled={isSaving}
+                    className="w-full bg-cyan-600 hover:bg-cyan-500 disabled:bg-gray-600 text-white font-semibold py-2 rounded-md"
+                  >
+                    {isSaving ? 'Saving...' : 'Save'}
+                  </button>
+                </>
+              )}
+            </form>
+          ) : notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-gray-400 text-center">No notifications yet.</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-700">
+              {notifications.map(notification => (
+                <li
+                  key={notification.id}
+                  className={`px-4 py-3 ${notification.read ? 'opacity-70' : 'bg-gray-700/30'}`}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <button onClick={() => handleOpen(notification)} className="text-left flex-1">
+                      <p className="text-sm font-semibold text-white">{notification.title}</p>
+                      <p className="text-xs text-gray-300 mt-0.5">{notification.message}</p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {formatTimestamp(notification.createdAt)}
+                        {notification.link && <span className="text-cyan-400 ml-2">View item</span>}
+                      </p>
+                    </button>
+                    <div className="flex flex-col items-end gap-1">
+                      <button
+                        onClick={() => handleToggleRead(notification)}
+                        className="text-xs text-gray-400 hover:text-white whitespace-nowrap"
+                      >
+                        {notification.read ? 'Mark unread' : 'Mark read'}
+                      </button>
+                      {notification.policyId && (
+                        <button
+                          onClick={() => handleMutePolicy(notification.policyId!)}
+                          className="text-xs text-gray-500 hover:text-white whitespace-nowrap"
+                        >
+                          Mute policy
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationInbox;
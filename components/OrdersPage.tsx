@@ -1,6 +1,7 @@
 import React, { useState, useMemo } from 'react';
 import { User, ProductSummary, Order, SupplyProposal } from '../types';
 import * as backendService from '../services/backendService';
+import VerificationPanel from './VerificationPanel';
 
 interface OrdersPageProps {
     user: User;
@@ -8,41 +9,44 @@ interface OrdersPageProps {
     orders: Order[];
     proposals: SupplyProposal[];
     onDataChange: () => void;
+    onVerified?: () => void;
 }
 
-const OrdersPage: React.FC<OrdersPageProps> = ({ user, summaries, orders, proposals, onDataChange }) => {
+const OrdersPage: React.FC<OrdersPageProps> = ({ user, summaries, orders, proposals, onDataChange, onVerified }) => {
     const [isCreateModalOpen, setCreateModalOpen] = useState(false);
     const [isProposalModalOpen, setProposalModalOpen] = useState(false);
     const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
 
-    const myOrders = useMemo(() => orders.filter(o => o.requesterShop.id === user.clientId), [orders, user.clientId]);
-    const networkOrders = useMemo(() => orders.filter(o => o.requesterShop.id !== user.clientId && o.status === 'OPEN'), [orders, user.clientId]);
+    const myOrders = useMemo(() => orders.filter(o => o.requesterShop.id === user.shopId), [orders, user.shopId]);
+    const networkOrders = useMemo(() => orders.filter(o => o.requesterShop.id !== user.shopId && o.status === 'OPEN'), [orders, user.shopId]);
+
+    const runAction = async (action: () => Promise<unknown>) => {
+        try {
+            await action();
+        } catch (err) {
+            alert(err instanceof Error ? err.message : 'Request failed.');
+        } finally {
+            onDataChange();
+        }
+    };
 
     const handleCreateOrder = async (productName: string, quantity: number) => {
-        await backendService.createOrder({ productName, quantity, requesterShop: {id: user.clientId, name: user.companyName, address: user.address} }, user);
         setCreateModalOpen(false);
-        onDataChange();
+        await runAction(() => backendService.createOrder({ productName, quantity }, user));
     };
     
     const handleMakeProposal = async (order: Order, price: number) => {
-        await backendService.createSupplyProposal({ orderId: order.id, pricePerUnit: price, supplierShop: {id: user.clientId, name: user.companyName, address: user.address} }, user);
         setProposalModalOpen(false);
         setSelectedOrder(null);
-        onDataChange();
+        await runAction(() => backendService.createSupplyProposal({ orderId: order.id, pricePerUnit: price }, user));
     };
 
     const handleAcceptProposal = async (proposalId: string) => {
-        await backendService.acceptProposal(proposalId);
-        onDataChange();
+        await runAction(() => backendService.acceptProposal(proposalId));
     };
 
     if (!user.isVerified) {
-        return (
-            <div className="text-center bg-gray-800/50 p-12 rounded-lg border border-gray-700">
-                <h1 className="text-2xl font-bold text-yellow-400">Verification Pending</h1>
-                <p className="text-lg text-gray-400 mt-2">The Orders tab requires shop verification.</p>
-            </div>
-        );
+        return <VerificationPanel kind="shop" user={user} unlocks="network orders" onApproved={onVerified} />;
     }
 
     return (
@@ -84,10 +88,12 @@ const OrdersPage: React.FC<OrdersPageProps> = ({ user, summaries, orders, propos
                                                         <p className="text-gray-200">{p.supplierShop.name}</p>
                                                         <p className="font-bold text-cyan-400">${p.pricePerUnit.toFixed(2)} / unit</p>
                                                     </div>
-                                                    {order.status === 'OPEN' && (
+                                                    {order.status === 'OPEN' && p.status === 'PENDING' ? (
                                                         <button onClick={() => handleAcceptProposal(p.id)} className="py-1 px-3 text-xs font-medium text-white bg-green-600 hover:bg-green-700 rounded-md">
                                                             Accept
                                                         </button>
+                                                    ) : (
+                                                        <span className={`text-xs font-semibold ${p.status === 'ACCEPTED' ? 'text-green-400' : p.status === 'REJECTED' ? 'text-red-400' : 'text-gray-400'}`}>{p.status}</span>
                                                     )}
                                                 </div>
                                             ))}
@@ -104,7 +110,7 @@ const OrdersPage: React.FC<OrdersPageProps> = ({ user, summaries, orders, propos
                     <h2 className="text-xl font-semibold text-white mb-4">Network Supply Requests</h2>
                     <div className="space-y-2">
                         {networkOrders.map(order => {
-                            const myProposal = proposals.find(p => p.orderId === order.id && p.supplierShop.id === user.clientId);
+                            const myProposal = proposals.find(p => p.orderId === order.id && p.supplierShop.id === user.shopId);
                             const stockInfo = summaries.find(s => s.productName === order.productName);
                             const hasStock = (stockInfo?.totalQuantity || 0) >= order.quantity;
 
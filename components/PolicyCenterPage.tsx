@@ -0,0 +1,271 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { PolicyDescriptor, PolicyRunLog } from '../types';
+import {
+  getActiveShopId,
+  getPoliciesForShop,
+  getRecentPolicyRuns,
+  upsertPolicy,
+  nextPolicyVersion,
+} from '../services/vectorDBService';
+import { ACTION_LABELS, ACTION_DEFAULT_PARAMS } from '../services/policyCatalog';
+import { DAN_POLICY_EXECUTION } from '../config';
+import PolicyEditor from './PolicyEditor';
+import WebhooksPanel from './WebhooksPanel';
+import { useToast } from './Toast';
+
+type RunOutcome = PolicyRunLog['outcome'];
+
+const RUN_LOG_LIMIT = 100;
+const RUN_OUTCOMES: RunOutcome[] = ['triggered', 'suppressed', 'skipped', 'error'];
+
+const OUTCOME_STYLES: Record<RunOutcome, string> = {
+  triggered: 'bg-green-700/60 text-green-200',
+  suppressed: 'bg-yellow-700/60 text-yellow-200',
+  skipped: 'bg-gray-700 text-gray-300',
+  error: 'bg-red-800/60 text-red-200',
+};
+
+interface PolicyCenterPageProps {
+  author: string;
+}
+
+const createDraftPolicy = (shopId: string): PolicyDescriptor => {
+  const now = new Date().toISOString();
+  return {
+    id: uuidv4(),
+    shopId,
+    name: '',
+    eventType: 'inventory.offer.created',
+    scope: 'inventory',
+    version: '1.0',
+    enabled: true,
+    conditions: [],
+    actions: [{ type: 'notify', params: { ...ACTION_DEFAULT_PARAMS.notify } }],
+    cooldown: null,
+    createdAt: '',
+    updatedAt: now,
+  };
+};
+
+const PolicyCenterPage: React.FC<PolicyCenterPageProps> = ({ author }) => {
+  const [policies, setPolicies] = useState<PolicyDescriptor[]>([]);
+  const [runs, setRuns] = useState<PolicyRunLog[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editing, setEditing] = useState<{ policy: PolicyDescriptor; isNew: boolean } | null>(null);
+  const [outcomeFilter, setOutcomeFilter] = useState<RunOutcome | ''>('');
+  const [policyFilter, setPolicyFilter] = useState('');
+  const [busyPolicyId, setBusyPolicyId] = useState<string | null>(null);
+  const { showToast } = useToast();
+  const shopId = getActiveShopId();
+
+  const loadPolicies = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setPolicies(await getPoliciesForShop());
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const loadRuns = useCallback(async () => {
+    setRuns(await getRecentPolicyRuns(undefined, RUN_LOG_LIMIT, {
+      policyId: policyFilter || null,
+      outcome: outcomeFilter || null,
+    }));
+  }, [policyFilter, outcomeFilter]);
+
+  useEffect(() => {
+    loadPolicies();
+  }, [loadPolicies]);
+
+  useEffect(() => {
+    loadRuns();
+  }, [loadRuns]);
+
+  const handleToggleEnabled = async (policy: PolicyDescriptor) => {
+    setBusyPolicyId(policy.id);
+    try {
+      await upsertPolicy({ ...policy, enabled: !policy.enabled, version: nextPolicyVersion(policy.version), author });
+      showToast(`Policy ${policy.enabled ? 'disabled' : 'enabled'}.`, 'success');
+      await loadPolicies();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to update policy.', 'error');
+    } finally {
+      setBusyPolicyId(null);
+    }
+  };
+
+  const handleSaved = async (saved: PolicyDescriptor) => {
+    await loadPolicies();
+    setEditing({ policy: saved, isNew: false });
+  };
+
+  const policyName = (policyId: string) => policies.find(policy => policy.id === policyId)?.name || policyId.slice(0, 8);
+
+  if (!shopId) {
+    return (
+      <div className="bg-gray-800/50 p-6 rounded-lg border border-gray-700 text-center text-gray-400">
+        Select a shop to manage its policies.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Policy Center</h1>
+          <p className="text-sm text-gray-400">
+            Guardrails that react to DAN events.{' '}
+            {DAN_POLICY_EXECUTION === 'server'
+              ? 'They are run by the server policy worker.'
+              : 'They are run in this browser as events are published.'}
+          </p>
+        </div>
+        <button
+          onClick={() => setEditing({ policy: createDraftPolicy(shopId), isNew: true })}
+          className="px-4 py-2 rounded-md bg-cyan-600 text-white text-sm font-semibold hover:bg-cyan-500"
+        >
+          New policy
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
+        <div className="lg:col-span-4 bg-gray-800/50 p-6 rounded-lg border border-gray-700 shadow-lg">
+          <h2 className="text-xl font-semibold text-white mb-4">Policies</h2>
+          {isLoading ? (
+            <p className="text-sm text-gray-400">Loading policies...</p>
+          ) : policies.length === 0 ? (
+            <p className="text-sm text-gray-400">No policies yet.</p>
+          ) : (
+            <ul className="space-y-3">
+              {policies.map(policy => (
+                <li
+                  key={policy.id}
+                  className={`p-3 rounded-md border ${
+                    editing?.policy.id === policy.id ? 'border-cyan-600 bg-cyan-900/20' : 'border-gray-700 bg-gray-900/40'
+                  }`}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <button onClick={() => setEditing({ policy, isNew: false })} className="text-left flex-1">
+                      <p className="text-sm font-semibold text-white">{policy.name}</p>
+                      <p className="text-xs text-gray-400">{policy.eventType} · v{policy.version}</p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {policy.actions.map(action => ACTION_LABELS[action.type] || action.type).join(', ')}
+                      </p>
+                    </button>
+                    <label className="flex items-center gap-1 text-xs text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={policy.enabled}
+                        disabled={busyPolicyId === policy.id}
+                        onChange={() => handleToggleEnabled(policy)}
+                      />
+                      {policy.enabled ? 'On' : 'Off'}
+                    </label>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="lg:col-span-8">
+          {editing ? (
+            <PolicyEditor
+              policy={editing.policy}
+              isNew={editing.isNew}
+              author={author}
+              onSaved={handleSaved}
+              onCancel={() => setEditing(null)}
+            />
+          ) : (
+            <div className="bg-gray-800/50 p-6 rounded-lg border border-gray-700 text-center text-gray-400">
+              Choose a policy to edit it, or create a new one.
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-gray-800/50 rounded-lg border border-gray-700 overflow-hidden">
+        <div className="flex flex-wrap items-center justify-between gap-3 p-6">
+          <h2 className="text-xl font-semibold text-white">Run log</h2>
+          <div className="flex items-center gap-2">
+            <select
+              value={policyFilter}
+              onChange={e => setPolicyFilter(e.target.value)}
+              className="bg-gray-900 border border-gray-700 rounded-md px-3 py-2 text-sm text-white"
+              aria-label="Filter by policy"
+            >
+              <option value="">All policies</option>
+              {policies.map(policy => <option key={policy.id} value={policy.id}>{policy.name}</option>)}
+            </select>
+            <select
+              value={outcomeFilter}
+              onChange={e => setOutcomeFilter(e.target.value as RunOutcome | '')}
+              className="bg-gray-900 border border-gray-700 rounded-md px-3 py-2 text-sm text-white"
+              aria-label="Filter by outcome"
+            >
+              <option value="">All outcomes</option>
+              {RUN_OUTCOMES.map(outcome => <option key={outcome} value={outcome}>{outcome}</option>)}
+            </select>
+            <button onClick={loadRuns} className="px-3 py-2 rounded-md bg-gray-700 text-white text-sm hover:bg-gray-600">
+              Refresh
+            </button>
+          </div>
+        </div>
+        {runs.length === 0 ? (
+          <p className="px-6 pb-6 text-sm text-gray-400">No runs match these filters.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-700">
+              <thead className="bg-gray-800">
+                <tr>
+                  <th scope="col" className="py-3.5 pl-6 pr-3 text-left text-sm font-semibold text-gray-300">Time</th>
+                  <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-300">Policy</th>
+                  <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-300">Event</th>
+                  <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-300">Outcome</th>
+                  <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-300">Notes</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700 bg-gray-900/50">
+                {runs.map(run => (
+                  <tr key={run.id}>
+                    <td className="whitespace-nowrap py-3 pl-6 pr-3 text-sm text-gray-400">{new Date(run.createdAt).toLocaleString()}</td>
+                    <td className="whitespace-nowrap px-3 py-3 text-sm text-white">{policyName(run.policyId)}</td>
+                    <td className="whitespace-nowrap px-3 py-3 text-sm text-gray-400">
+                      {run.eventType}
+                      {run.eventPayload?.productName && <span className="text-gray-500 ml-1">({run.eventPayload.productName})</span>}
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-3 text-sm">
+                      <span className={`px-2 py-0.5 rounded-full text-xs ${OUTCOME_STYLES[run.outcome] || OUTCOME_STYLES.skipped}`}>
+                        {run.outcome}
+                      </span>
+                      {(run.attempts ?? 1) > 1 && <span className="text-xs text-gray-500 ml-2">{run.attempts} attempts</span>}
+                    </td>
+                    <td className="px-3 py-3 text-sm text-gray-400">
+                      {run.notes}
+                      {run.dedupKey && <span className="block text-xs text-gray-500">key: {run.dedupKey}</span>}
+                      {run.webhookDeliveries?.map(delivery => (
+                        <span key={delivery.id} className="block text-xs text-gray-500">
+                          webhook {delivery.status}: {delivery.lastStatusCode ?? 'no response'}
+                          {delivery.lastLatencyMs !== null && ` in ${delivery.lastLatencyMs} ms`}
+                          {` after ${delivery.attempts} attempt${delivery.attempts === 1 ? '' : 's'}`}
+                        </span>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <WebhooksPanel policyName={policyName} />
+    </div>
+  );
+};
+
+export default PolicyCenterPage;
@@ -0,0 +1,665 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  DanEventType,
+  PolicyActionDefinition,
+  PolicyActionType,
+  PolicyCondition,
+  PolicyConditionOperator,
+  PolicyConditionRule,
+  PolicyDescriptor,
+  PolicyScope,
+  PolicyTestResult,
+  PolicyVersion,
+  WebhookEndpoint,
+} from '../types';
+import {
+  getPolicyVersions,
+  getWebhookEndpoints,
+  upsertPolicy,
+  nextPolicyVersion,
+  testPolicyAgainstEvent,
+} from '../services/vectorDBService';
+import {
+  ACTION_DEFAULT_PARAMS,
+  ACTION_LABELS,
+  DAN_EVENT_TYPES,
+  OPERATOR_LABELS,
+  OPERATORS_BY_KIND,
+  POLICY_EVENT_FIELDS,
+  POLICY_SCOPES,
+  buildSamplePayload,
+  getPolicyEventField,
+} from '../services/policyCatalog';
+import { useToast } from './Toast';
+
+interface PolicyEditorProps {
+  policy: PolicyDescriptor;
+  isNew: boolean;
+  author: string;
+  onSaved: (policy: PolicyDescriptor) => void;
+  onCancel: () => void;
+}
+
+// Rule conditions are edited field by field; groups and aggregates as JSON
+type ConditionDraft =
+  | { kind: 'rule'; rule: PolicyConditionRule }
+  | { kind: 'advanced'; text: string };
+
+const NUMERIC_OPERATORS: PolicyConditionOperator[] = ['gt', 'gte', 'lt', 'lte', 'withinDays', 'olderThan'];
+
+const inputClasses = 'w-full bg-gray-900 border border-gray-700 rounded-md px-3 py-2 text-sm text-white';
+const labelClasses = 'block text-xs font-semibold text-gray-400 mb-1';
+
+const isRule = (condition: PolicyCondition): condition is PolicyConditionRule =>
+  'field' in condition && 'operator' in condition && !('aggregate' in condition);
+
+const toConditionDrafts = (conditions: PolicyCondition[]): ConditionDraft[] =>
+  conditions.map(condition => (isRule(condition)
+    ? { kind: 'rule', rule: { ...condition } }
+    : { kind: 'advanced', text: JSON.stringify(condition, null, 2) }));
+
+// Comma-separated input: keep what is typed, trim when the policy is built
+const splitList = (text: string): string[] => text.split(',').map(entry => entry.replace(/^\s+/, ''));
+const cleanList = (values?: string[]): string[] => (values || []).map(entry => entry.trim()).filter(Boolean);
+
+const toLocalDateTime = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+const PolicyEditor: React.FC<PolicyEditorProps> = ({ policy, isNew, author, onSaved, onCancel }) => {
+  const [draft, setDraft] = useState<PolicyDescriptor>(policy);
+  const [conditionDrafts, setConditionDrafts] = useState<ConditionDraft[]>(() => toConditionDrafts(policy.conditions));
+  const [versions, setVersions] = useState<PolicyVersion[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [samplePayload, setSamplePayload] = useState(() => JSON.stringify(buildSamplePayload(policy.eventType), null, 2));
+  const [sampleTime, setSampleTime] = useState(() => toLocalDateTime(new Date()));
+  const [testResult, setTestResult] = useState<PolicyTestResult | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+  const [webhookEndpoints, setWebhookEndpoints] = useState<WebhookEndpoint[]>([]);
+  const { showToast } = useToast();
+
+  const fields = POLICY_EVENT_FIELDS[draft.eventType] || [];
+
+  useEffect(() => {
+    setDraft(policy);
+    setConditionDrafts(toConditionDrafts(policy.conditions));
+    setSamplePayload(JSON.stringify(buildSamplePayload(policy.eventType), null, 2));
+    setTestResult(null);
+    setFormError(null);
+  }, [policy]);
+
+  useEffect(() => {
+    if (isNew) {
+      setVersions([]);
+      return;
+    }
+    getPolicyVersions(policy.id).then(setVersions).catch(() => setVersions([]));
+  }, [policy.id, policy.updatedAt, isNew]);
+
+  useEffect(() => {
+    getWebhookEndpoints(policy.shopId).then(setWebhookEndpoints).catch(() => setWebhookEndpoints([]));
+  }, [policy.shopId]);
+
+  // Builds the policy from the form; throws with a readable message on bad JSON
+  const buildPolicy = (): PolicyDescriptor => {
+    const conditions = conditionDrafts.map((entry, index): PolicyCondition => {
+      if (entry.kind === 'advanced') {
+        try {
+          return JSON.parse(entry.text);
+        } catch {
+          throw new Error(`Condition ${index + 1} is not valid JSON.`);
+        }
+      }
+      const { field, operator, value } = entry.rule;
+      const kind = getPolicyEventField(draft.eventType, field)?.kind;
+      const numeric = NUMERIC_OPERATORS.includes(operator) || (kind === 'number' && (operator === 'eq' || operator === 'neq'));
+      return { field, operator, value: numeric && value !== '' ? Number(value) : value };
+    });
+    const actions = draft.actions.map(action => {
+      if (action.type !== 'tag_inventory') return action;
+      const { tags, removeTags, ...params } = action.params || {};
+      return {
+        ...action,
+        params: {
+          ...params,
+          ...(cleanList(tags).length ? { tags: cleanList(tags) } : {}),
+          ...(cleanList(removeTags).length ? { removeTags: cleanList(removeTags) } : {}),
+        },
+      };
+    });
+    const cooldown = draft.cooldown
+      ? { minutes: Number(draft.cooldown.minutes), keyFields: cleanList(draft.cooldown.keyFields) }
+      : null;
+    return { ...draft, name: draft.name.trim(), conditions, actions, cooldown };
+  };
+
+  // Operators for the field's kind, plus the rule's own if it was saved with another
+  const operatorOptions = (rule: PolicyConditionRule): PolicyConditionOperator[] => {
+    const options = OPERATORS_BY_KIND[getPolicyEventField(draft.eventType, rule.field)?.kind || 'string'];
+    return options.includes(rule.operator) ? options : [...options, rule.operator];
+  };
+
+  const updateRule = (index: number, patch: Partial<PolicyConditionRule>) => {
+    setConditionDrafts(prev => prev.map((entry, i) => (
+      i === index && entry.kind === 'rule' ? { kind: 'rule', rule: { ...entry.rule, ...patch } } : entry
+    )));
+  };
+
+  const handleFieldChange = (index: number, field: string) => {
+    const kind = getPolicyEventField(draft.eventType, field)?.kind || 'string';
+    const current = conditionDrafts[index];
+    const operator = current.kind === 'rule' && OPERATORS_BY_KIND[kind].includes(current.rule.operator)
+      ? current.rule.operator
+      : OPERATORS_BY_KIND[kind][0];
+    updateRule(index, { field, operator });
+  };
+
+  const addRule = () => {
+    const field = fields[0];
+    setConditionDrafts(prev => [...prev, {
+      kind: 'rule',
+      rule: { field: field?.path || '', operator: field ? OPERATORS_BY_KIND[field.kind][0] : 'eq', value: '' },
+    }]);
+  };
+
+  const addAdvanced = () => {
+    setConditionDrafts(prev => [...prev, {
+      kind: 'advanced',
+      text: JSON.stringify({
+        aggregate: { eventType: draft.eventType, fn: 'count', windowMinutes: 60, groupBy: 'productId' },
+        operator: 'gt',
+        value: 5,
+      }, null, 2),
+    }]);
+  };
+
+  const updateAction = (index: number, patch: Partial<PolicyActionDefinition>) => {
+    setDraft(prev => ({
+      ...prev,
+      actions: prev.actions.map((action, i) => (i === index ? { ...action, ...patch } : action)),
+    }));
+  };
+
+  const updateActionParams = (index: number, params: Record<string, any>) => {
+    const action = draft.actions[index];
+    updateAction(index, { params: { ...(action.params || {}), ...params } });
+  };
+
+  const handleEventTypeChange = (eventType: DanEventType) => {
+    setDraft(prev => ({ ...prev, eventType }));
+    setSamplePayload(JSON.stringify(buildSamplePayload(eventType), null, 2));
+    setTestResult(null);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+    setIsSaving(true);
+    try {
+      const built = buildPolicy();
+      const saved = await upsertPolicy({
+        ...built,
+        version: isNew ? built.version || '1.0' : nextPolicyVersion(policy.version),
+        author,
+      });
+      showToast(`Policy "${saved.name}" saved as version ${saved.version}.`, 'success');
+      onSaved(saved);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to save policy.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleTest = async () => {
+    setFormError(null);
+    setIsTesting(true);
+    setTestResult(null);
+    try {
+      let payload: Record<string, any>;
+      try {
+        payload = JSON.parse(samplePayload);
+      } catch {
+        throw new Error('The sample payload is not valid JSON.');
+      }
+      setTestResult(await testPolicyAgainstEvent(buildPolicy(), {
+        eventType: draft.eventType,
+        payload,
+        createdAt: new Date(sampleTime).toISOString(),
+      }));
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Policy test failed.');
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleRestore = (version: PolicyVersion) => {
+    const { id, shopId, createdAt } = policy;
+    const restored = { ...version.snapshot, id, shopId, createdAt };
+    setDraft(restored);
+    setConditionDrafts(toConditionDrafts(restored.conditions));
+    setTestResult(null);
+    showToast(`Loaded version ${version.version}. Save to make it current.`, 'info');
+  };
+
+  const conditionLabels = useMemo(() => conditionDrafts.map(entry => {
+    if (entry.kind === 'advanced') return 'Advanced condition';
+    const field = getPolicyEventField(draft.eventType, entry.rule.field);
+    return `${field?.label || entry.rule.field} ${OPERATOR_LABELS[entry.rule.operator] || entry.rule.operator} ${String(entry.rule.value)}`;
+  }), [conditionDrafts, draft.eventType]);
+
+  const renderActionParams = (action: PolicyActionDefinition, index: number) => {
+    const params = action.params || {};
+    switch (action.type) {
+      case 'notify': {
+        const channels: string[] = params.channels || ['in_app', 'email'];
+        const toggleChannel = (channel: string, enabled: boolean) => updateActionParams(index, {
+          channels: enabled ? Array.from(new Set([...channels, channel])) : channels.filter(entry => entry !== channel),
+        });
+        return (
+          <div className="space-y-2">
+            <input
+              value={params.title || ''}
+              onChange={e => updateActionParams(index, { title: e.target.value })}
+              placeholder="Title (defaults to the policy name)"
+              className={inputClasses}
+            />
+            <textarea
+              value={params.message || ''}
+              onChange={e => updateActionParams(index, { message: e.target.value })}
+              placeholder="Message"
+              rows={2}
+              className={inputClasses}
+            />
+            <div className="flex gap-4 text-sm text-gray-300">
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={channels.includes('in_app')} onChange={e => toggleChannel('in_app', e.target.checked)} />
+                In-app inbox
+              </label>
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={channels.includes('email')} onChange={e => toggleChannel('email', e.target.checked)} />
+                Email
+              </label>
+            </div>
+          </div>
+        );
+      }
+      case 'create_dan_event':
+        return (
+          <input
+            value={params.trigger || ''}
+            onChange={e => updateActionParams(index, { trigger: e.target.value })}
+            placeholder="Trigger name, e.g. policy.auto-alert"
+            className={inputClasses}
+          />
+        );
+      case 'tag_inventory':
+        return (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+            <input
+              value={(params.tags || []).join(', ')}
+              onChange={e => updateActionParams(index, { tags: splitList(e.target.value) })}
+              placeholder="Add tags (comma-separated)"
+              className={inputClasses}
+            />
+            <input
+              value={(params.removeTags || []).join(', ')}
+              onChange={e => updateActionParams(index, { removeTags: splitList(e.target.value) })}
+              placeholder="Remove tags"
+              className={inputClasses}
+            />
+            <select
+              value={params.target || 'item'}
+              onChange={e => updateActionParams(index, { target: e.target.value })}
+              className={inputClasses}
+            >
+              <option value="item">The event's item</option>
+              <option value="product">Every item of the product</option>
+            </select>
+          </div>
+        );
+      case 'call_webhook':
+        return (
+          <div className="space-y-2">
+            <select
+              value={params.endpointId || ''}
+              onChange={e => updateActionParams(index, { endpointId: e.target.value })}
+              className={inputClasses}
+            >
+              <option value="">{webhookEndpoints.length ? 'Choose an endpoint' : 'No endpoints registered yet'}</option>
+              {webhookEndpoints.map(endpoint => (
+                <option key={endpoint.id} value={endpoint.id}>
+                  {endpoint.name}{endpoint.enabled ? '' : ' (disabled)'}
+                </option>
+              ))}
+            </select>
+          </div>
+        );
+      case 'reject_offer':
+        return (
+          <p className="text-xs text-gray-400">
+            Peer offers matching the conditions are hidden in the DAN marketplace. Use the seller reputation fields to screen unreliable shops.
+          </p>
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleSave} className="bg-gray-800/50 p-6 rounded-lg border border-gray-700 shadow-lg space-y-5">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-white">
+            {isNew ? 'New policy' : `Edit policy`}
+            {!isNew && <span className="ml-2 text-sm font-normal text-gray-400">v{policy.version}</span>}
+          </h2>
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={draft.enabled}
+              onChange={e => setDraft(prev => ({ ...prev, enabled: e.target.checked }))}
+            />
+            Enabled
+          </label>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className={labelClasses}>Name</label>
+            <input
+              value={draft.name}
+              onChange={e => setDraft(prev => ({ ...prev, name: e.target.value }))}
+              placeholder="e.g. Flag low stock offers"
+              className={inputClasses}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className={labelClasses}>When this event happens</label>
+              <select
+                value={draft.eventType}
+                onChange={e => handleEventTypeChange(e.target.value as DanEventType)}
+                className={inputClasses}
+              >
+                {DAN_EVENT_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClasses}>Scope</label>
+              <select
+                value={draft.scope}
+                onChange={e => setDraft(prev => ({ ...prev, scope: e.target.value as PolicyScope }))}
+                className={inputClasses}
+              >
+                {POLICY_SCOPES.map(scope => <option key={scope} value={scope}>{scope}</option>)}
+              </select>
+            </div>
+          </div>
+          <div className="md:col-span-2">
+            <label className={labelClasses}>Description</label>
+            <input
+              value={draft.description || ''}
+              onChange={e => setDraft(prev => ({ ...prev, description: e.target.value }))}
+              placeholder="What this guardrail is for"
+              className={inputClasses}
+            />
+          </div>
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-semibold text-white">Conditions <span className="font-normal text-gray-400">(all must match)</span></h3>
+            <div className="flex gap-3 text-xs">
+              <button type="button" onClick={addRule} className="text-cyan-400 hover:text-cyan-300">+ Condition</button>
+              <button type="button" onClick={addAdvanced} className="text-gray-400 hover:text-white">+ Advanced (JSON)</button>
+            </div>
+          </div>
+          {conditionDrafts.length === 0 && (
+            <p className="text-sm text-gray-400">No conditions: the policy fires on every {draft.eventType} event.</p>
+          )}
+          <div className="space-y-2">
+            {conditionDrafts.map((entry, index) => (
+              <div key={index} className="flex items-start gap-2">
+                {entry.kind === 'rule' ? (
+                  <div className="grid grid-cols-3 gap-2 flex-1">
+                    <select
+                      value={entry.rule.field}
+                      onChange={e => handleFieldChange(index, e.target.value)}
+                      className={inputClasses}
+                    >
+                      {!getPolicyEventField(draft.eventType, entry.rule.field) && (
+                        <option value={entry.rule.field}>{entry.rule.field || 'Choose a field'}</option>
+                      )}
+                      {fields.map(field => <option key={field.path} value={field.path}>{field.label}</option>)}
+                    </select>
+                    <select
+                      value={entry.rule.operator}
+                      onChange={e => updateRule(index, { operator: e.target.value as PolicyConditionOperator })}
+                      className={inputClasses}
+                    >
+                      {operatorOptions(entry.rule)
+                        .map(operator => <option key={operator} value={operator}>{OPERATOR_LABELS[operator] || operator}</option>)}
+                    </select>
+                    <input
+                      value={entry.rule.value ?? ''}
+                      onChange={e => updateRule(index, { value: e.target.value })}
+                      placeholder={NUMERIC_OPERATORS.includes(entry.rule.operator) ? 'Number' : 'Value'}
+                      className={inputClasses}
+                    />
+                  </div>
+                ) : (
+                  <textarea
+                    value={entry.text}
+                    onChange={e => setConditionDrafts(prev => prev.map((item, i) => (i === index ? { kind: 'advanced', text: e.target.value } : item)))}
+                    rows={5}
+                    className={`${inputClasses} font-mono text-xs flex-1`}
+                  />
+                )}
+                <button
+                  type="button"
+                  onClick={() => setConditionDrafts(prev => prev.filter((_, i) => i !== index))}
+                  className="px-2 py-2 text-xs text-red-300 hover:text-red-200"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-semibold text-white">Actions</h3>
+            <select
+              value=""
+              onChange={e => {
+                const type = e.target.value as PolicyActionType;
+                if (!type) return;
+                setDraft(prev => ({ ...prev, actions: [...prev.actions, { type, params: { ...ACTION_DEFAULT_PARAMS[type] } }] }));
+              }}
+              className="bg-gray-900 border border-gray-700 rounded-md px-2 py-1 text-xs text-cyan-400"
+            >
+              <option value="">+ Action</option>
+              {(Object.keys(ACTION_LABELS) as PolicyActionType[]).map(type => (
+                <option key={type} value={type}>{ACTION_LABELS[type]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-3">
+            {draft.actions.map((action, index) => (
+              <div key={index} className="bg-gray-900/50 border border-gray-700 rounded-md p-3 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-semibold text-gray-200">{ACTION_LABELS[action.type] || action.type}</span>
+                  <button
+                    type="button"
+                    onClick={() => setDraft(prev => ({ ...prev, actions: prev.actions.filter((_, i) => i !== index) }))}
+                    className="text-xs text-red-300 hover:text-red-200"
+                  >
+                    Remove
+                  </button>
+                </div>
+                {renderActionParams(action, index)}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={Boolean(draft.cooldown)}
+              onChange={e => setDraft(prev => ({
+                ...prev,
+                cooldown: e.target.checked ? { minutes: 1440, keyFields: ['productId'] } : null,
+              }))}
+            />
+            Cooldown (fire once per key)
+          </label>
+          {draft.cooldown && (
+            <>
+              <div>
+                <label className={labelClasses}>Minutes</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={draft.cooldown.minutes}
+                  onChange={e => setDraft(prev => ({ ...prev, cooldown: { ...prev.cooldown!, minutes: Number(e.target.value) } }))}
+                  className={inputClasses}
+                />
+              </div>
+              <div>
+                <label className={labelClasses}>Per (fields, comma-separated)</label>
+                <input
+                  value={(draft.cooldown.keyFields || []).join(', ')}
+                  onChange={e => setDraft(prev => ({ ...prev, cooldown: { ...prev.cooldown!, keyFields: splitList(e.target.value) } }))}
+                  placeholder="productId"
+                  className={inputClasses}
+                />
+              </div>
+            </>
+          )}
+        </div>
+
+        {formError && <p className="text-sm text-red-400 whitespace-pre-wrap">{formError}</p>}
+
+        <div className="flex justify-end gap-3">
+          <button type="button" onClick={onCancel} className="px-4 py-2 rounded-md bg-gray-700 text-white text-sm hover:bg-gray-600">
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="px-4 py-2 rounded-md bg-cyan-600 text-white text-sm font-semibold hover:bg-cyan-500 disabled:bg-gray-600"
+          >
+            {isSaving ? 'Saving...' : 'Save policy'}
+          </button>
+        </div>
+      </form>
+
+      <div className="bg-gray-800/50 p-6 rounded-lg border border-gray-700 shadow-lg space-y-4">
+        <h3 className="text-lg font-semibold text-white">Test against sample event</h3>
+        <p className="text-xs text-gray-400">
+          Evaluates the form as it is now, without saving or running any action. Aggregates use the shop's real recent events.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="md:col-span-2">
+            <label className={labelClasses}>{draft.eventType} payload</label>
+            <textarea
+              value={samplePayload}
+              onChange={e => setSamplePayload(e.target.value)}
+              rows={10}
+              className={`${inputClasses} font-mono text-xs`}
+            />
+          </div>
+          <div className="space-y-3">
+            <div>
+              <label className={labelClasses}>Event time</label>
+              <input
+                type="datetime-local"
+                value={sampleTime}
+                onChange={e => setSampleTime(e.target.value)}
+                className={inputClasses}
+              />
+            </div>
+            <button
+              type="button"
+              onClick={() => setSamplePayload(JSON.stringify(buildSamplePayload(draft.eventType), null, 2))}
+              className="w-full px-3 py-2 rounded-md bg-gray-700 text-white text-sm hover:bg-gray-600"
+            >
+              Reset sample
+            </button>
+            <button
+              type="button"
+              onClick={handleTest}
+              disabled={isTesting}
+              className="w-full px-3 py-2 rounded-md bg-indigo-600 text-white text-sm font-semibold hover:bg-indigo-500 disabled:bg-gray-600"
+            >
+              {isTesting ? 'Testing...' : 'Run test'}
+            </button>
+          </div>
+        </div>
+        {testResult && (
+          <div className="bg-gray-900/50 border border-gray-700 rounded-md p-4 text-sm space-y-2">
+            {testResult.errors.length > 0 ? (
+              <ul className="list-disc list-inside text-red-400">
+                {testResult.errors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            ) : (
+              <>
+                <p className={testResult.matched ? 'text-green-400 font-semibold' : 'text-gray-300 font-semibold'}>
+                  {testResult.matched
+                    ? testResult.cooldownActive
+                      ? 'Matches, but the cooldown would suppress it right now.'
+                      : 'Matches: the actions would run.'
+                    : 'Does not match: nothing would run.'}
+                </p>
+                <ul className="space-y-1">
+                  {testResult.conditionResults.map((passed, index) => (
+                    <li key={index} className={passed ? 'text-green-300' : 'text-red-300'}>
+                      {passed ? '✓' : '✗'} {conditionLabels[index]}
+                    </li>
+                  ))}
+                </ul>
+                {testResult.dedupKey && <p className="text-xs text-gray-400">Cooldown key: {testResult.dedupKey}</p>}
+              </>
+            )}
+          </div>
+        )}
+      </div>
+
+      {!isNew && (
+        <div className="bg-gray-800/50 p-6 rounded-lg border border-gray-700 shadow-lg">
+          <h3 className="text-lg font-semibold text-white mb-3">Version history</h3>
+          {versions.length === 0 ? (
+            <p className="text-sm text-gray-400">No saved versions yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-700">
+              {versions.map(version => (
+                <li key={version.id} className="py-2 flex items-center justify-between text-sm">
+                  <div>
+                    <span className="text-white font-semibold">v{version.version}</span>
+                    <span className="text-gray-400 ml-2">{new Date(version.createdAt).toLocaleString()}</span>
+                    {version.author && <span className="text-gray-500 ml-2">by {version.author}</span>}
+                    {!version.snapshot.enabled && <span className="text-gray-500 ml-2">(disabled)</span>}
+                  </div>
+                  {version.version !== policy.version && (
+                    <button onClick={() => handleRestore(version)} className="text-xs text-cyan-400 hover:text-cyan-300">
+                      Restore
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PolicyEditor;
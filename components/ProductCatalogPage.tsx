@@ -1,12 +1,24 @@
 import React, { useEffect, useState } from 'react';
-import { ProductDefinition, ProductImage } from '../types';
+import { ProductDefinition, ProductImage, User } from '../types';
 import { createCanonicalProduct, updateCanonicalProduct, deleteCanonicalProduct, fetchCanonicalProductsForShop, fetchSuppliersForActiveShop } from '../services/vectorDBService';
+import { hasStaffPermission } from '../services/staff';
 import { useToast } from './Toast';
 import ProductLearningScanner from './ProductLearningScanner';
 import { BrainCircuitIcon } from './icons/BrainCircuitIcon';
 import { BookOpenIcon } from './icons/BookOpenIcon';
 
-const ProductCatalogPage: React.FC = () => {
+interface ProductCatalogPageProps {
+  // Signed-in user; their staff role decides which actions are offered
+  user: User;
+}
+
+const ProductCatalogPage: React.FC<ProductCatalogPageProps> = ({ user }) => {
+  const canEditCatalog = hasStaffPermission(user, 'editCatalog');
+  const canDeleteProducts = hasStaffPermission(user, 'deleteInventory');
+  // Entries can only be changed by the shop that created them (older entries have no shop)
+  const ownsProduct = (product: ProductDefinition) => Boolean(product.shopId) && (
+    product.shopId === user.shopId || Boolean(user.shops?.some(shop => shop.shopId === product.shopId && shop.role === 'owner'))
+  );
   const [products, setProducts] = useState<ProductDefinition[]>([]);
   const [filteredProducts, setFilteredProducts] = useState<ProductDefinition[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -198,13 +210,15 @@ const ProductCatalogPage: React.FC = () => {
         <div className="bg-gray-800/50 border border-gray-700 rounded-xl p-6">
           <div className="flex items-center justify-between mb-4">
             <h1 className="text-2xl font-bold text-white">Product Catalog</h1>
-            <button
-              onClick={() => setIsLearningScannerOpen(true)}
-              className="flex items-center justify-center gap-3 py-3 px-6 border border-transparent rounded-md shadow-sm text-base font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-indigo-500 transition-all"
-            >
-              <BrainCircuitIcon className="w-6 h-6" />
-              Scan & Train New Product
-            </button>
+            {canEditCatalog && (
+              <button
+                onClick={() => setIsLearningScannerOpen(true)}
+                className="flex items-center justify-center gap-3 py-3 px-6 border border-transparent rounded-md shadow-sm text-base font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-indigo-500 transition-all"
+              >
+                <BrainCircuitIcon className="w-6 h-6" />
+                Scan & Train New Product
+              </button>
+            )}
           </div>
           <p className="text-gray-400 text-sm">
             Use the AI scanner to learn new products. The system will extract all relevant information sections 
@@ -213,6 +227,7 @@ const ProductCatalogPage: React.FC = () => {
         </div>
 
         {/* Manual Product Creation Form */}
+        {canEditCatalog ? (
         <div className="bg-gray-800/50 border border-gray-700 rounded-xl p-6">
           <h2 className="text-xl font-semibold text-white mb-4">
             {editingProduct ? 'Edit Product' : 'Create Product Manually'}
@@ -300,6 +315,9 @@ const ProductCatalogPage: React.FC = () => {
           </form>
           {error && <p className="text-red-400 text-sm mt-2">{error}</p>}
         </div>
+        ) : (
+          error && <p className="text-red-400 text-sm">{error}</p>
+        )}
 
         {/* Products List */}
         <div className="bg-gray-800/50 border border-gray-700 rounded-xl p-6">
@@ -363,7 +381,7 @@ const ProductCatalogPage: React.FC = () => {
               <p className="text-gray-500 text-lg mb-2">
                 {products.length === 0 ? 'No products yet.' : 'No products match your filters.'}
               </p>
-              {products.length === 0 && (
+              {products.length === 0 && canEditCatalog && (
                 <button
                   onClick={() => setIsLearningScannerOpen(true)}
                   className="mt-4 px-6 py-3 rounded-md bg-indigo-600 text-white font-semibold hover:bg-indigo-700 transition-colors"
@@ -410,20 +428,24 @@ const ProductCatalogPage: React.FC = () => {
                       </div>
                     </div>
                     <div className="flex items-center gap-2 flex-shrink-0">
-                      <button
-                        onClick={() => handleEditProduct(product)}
-                        className="px-3 py-1.5 rounded-md bg-blue-600/80 text-white text-sm hover:bg-blue-600 transition-colors"
-                        title="Edit product"
-                      >
-                        Edit
-                      </button>
-                      <button
-                        onClick={() => setShowDeleteConfirm(product.id)}
-                        className="px-3 py-1.5 rounded-md bg-red-600/80 text-white text-sm hover:bg-red-600 transition-colors"
-                        title="Delete product"
-                      >
-                        Delete
-                      </button>
+                      {canEditCatalog && ownsProduct(product) && (
+                        <button
+                          onClick={() => handleEditProduct(product)}
+                          className="px-3 py-1.5 rounded-md bg-blue-600/80 text-white text-sm hover:bg-blue-600 transition-colors"
+                          title="Edit product"
+                        >
+                          Edit
+                        </button>
+                      )}
+                      {canDeleteProducts && ownsProduct(product) && (
+                        <button
+                          onClick={() => setShowDeleteConfirm(product.id)}
+                          className="px-3 py-1.5 rounded-md bg-red-600/80 text-white text-sm hover:bg-red-600 transition-colors"
+                          title="Delete product"
+                        >
+                          Delete
+                        </button>
+                      )}
                     </div>
                   </div>
                   {showDeleteConfirm === product.id && (
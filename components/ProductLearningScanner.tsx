@@ -2,8 +2,8 @@
 
 import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
 import { fieldMetadata, ScannedItemData, analyzeImageForInventory, analyzeCroppedImageForField } from '../services/geminiService';
-import { createCanonicalProduct, addImageForField, persistInventoryEntry } from '../services/vectorDBService';
-import { activeShopId } from '../services/qdrant/core';
+import { createCanonicalProduct, addImageForField, persistInventoryEntry, recordStockMovement } from '../services/vectorDBService';
+import { activeShopId, resolveActorId } from '../services/qdrant/core';
 import { v4 as uuidv4 } from 'uuid';
 import type { StockItem, ScanMetadata } from '../types';
 import { LockIcon } from './icons/LockIcon';
@@ -281,7 +281,7 @@ const ProductLearningScanner: React.FC<ProductLearningScannerProps> = ({ onClose
             scanMetadata,
             qdrantId: inventoryUuid,
             status: 'ACTIVE',
-            createdByUserId: activeShopId,
+            createdByUserId: resolveActorId() || activeShopId,
             createdAt: now,
             updatedAt: now,
             shareScope: ['local'],
@@ -289,6 +289,14 @@ const ProductLearningScanner: React.FC<ProductLearningScannerProps> = ({ onClose
         
         // Persist the inventory item to Qdrant items collection
         await persistInventoryEntry(inventoryItem, scanMetadata);
+        await recordStockMovement({
+            inventoryUuid,
+            productId: newProduct.id,
+            delta: inventoryItem.quantity,
+            quantityAfter: inventoryItem.quantity,
+            reason: 'receipt',
+            referenceId: scanMetadata.sourcePhotoId,
+        });
         
         // Stop camera before closing
         stopCamera();
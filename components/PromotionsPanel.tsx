@@ -0,0 +1,234 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { InventoryItem, ProductSummary, Promotion, PromotionScope, PromotionType } from '../types';
+import { describePromotion, getActiveShopId, getPromotions, savePromotion, setPromotionActive } from '../services/vectorDBService';
+import { useToast } from './Toast';
+import { formatDisplayDate } from '../utils/date';
+
+interface PromotionsPanelProps {
+  summaries: ProductSummary[];
+  items: InventoryItem[];
+}
+
+const todayKey = () => new Date().toISOString().slice(0, 10);
+
+const EMPTY_FORM = {
+  name: '',
+  type: 'PERCENTAGE' as PromotionType,
+  value: '',
+  buyQuantity: '3',
+  payQuantity: '2',
+  scope: 'product' as PromotionScope,
+  targetId: '',
+  startsAt: todayKey(),
+  endsAt: todayKey(),
+};
+
+const PromotionsPanel: React.FC<PromotionsPanelProps> = ({ summaries, items }) => {
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const { showToast } = useToast();
+
+  const categories = useMemo(
+    () => Array.from(new Set(summaries.map(summary => summary.category).filter(Boolean))).sort(),
+    [summaries],
+  );
+
+  const lots = useMemo(
+    () => items.filter(item => item.inventoryUuid && item.quantity > 0),
+    [items],
+  );
+
+  const describeTarget = (promotion: Promotion) => {
+    if (promotion.scope === 'category') return `Category: ${promotion.targetId}`;
+    if (promotion.scope === 'lot') {
+      const lot = items.find(item => item.inventoryUuid === promotion.targetId);
+      return lot ? `Lot: ${lot.productName} (exp ${formatDisplayDate(lot.expirationDate)})` : 'Lot';
+    }
+    return summaries.find(summary => summary.productId === promotion.targetId)?.productName || promotion.targetId;
+  };
+
+  const loadPromotions = useCallback(async () => {
+    const shopId = getActiveShopId();
+    if (!shopId) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      setPromotions(await getPromotions(shopId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load promotions.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPromotions();
+  }, [loadPromotions]);
+
+  const handleChange = (field: keyof typeof EMPTY_FORM, value: string) => {
+    setForm(prev => ({
+      ...prev,
+      [field]: value,
+      // Changing scope invalidates the chosen target
+      ...(field === 'scope' ? { targetId: '' } : {}),
+    }));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      const lot = form.scope === 'lot' ? lots.find(item => item.inventoryUuid === form.targetId) : undefined;
+      await savePromotion({
+        name: form.name,
+        type: form.type,
+        value: Number(form.value),
+        buyQuantity: Number(form.buyQuantity),
+        payQuantity: Number(form.payQuantity),
+        scope: form.scope,
+        targetId: form.targetId,
+        productId: lot?.productId,
+        // Date inputs are whole days: run from the start of the first day to the end of the last
+        startsAt: new Date(`${form.startsAt}T00:00:00`).toISOString(),
+        endsAt: new Date(`${form.endsAt}T23:59:59`).toISOString(),
+      });
+      showToast('Promotion saved.', 'success');
+      setForm(EMPTY_FORM);
+      setIsFormOpen(false);
+      await loadPromotions();
+    } catch (err) {
+      showToast('Failed to save promotion: ' + (err instanceof Error ? err.message : 'Unknown error'), 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (promotion: Promotion) => {
+    try {
+      await setPromotionActive(promotion.id, !promotion.active);
+      await loadPromotions();
+    } catch (err) {
+      showToast('Failed to update promotion: ' + (err instanceof Error ? err.message : 'Unknown error'), 'error');
+    }
+  };
+
+  const inputClass = 'w-full bg-gray-900 border border-gray-600 rounded-md px-2 py-1 text-sm text-white';
+
+  return (
+    <div className="bg-gray-800/50 p-6 rounded-lg border border-gray-700 shadow-lg">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-white">Promotions</h2>
+        <button
+          onClick={() => setIsFormOpen(open => !open)}
+          className="px-3 py-1 rounded-md bg-cyan-600 text-white text-xs hover:bg-cyan-500"
+        >
+          {isFormOpen ? 'Cancel' : 'New Promotion'}
+        </button>
+      </div>
+
+      {isFormOpen && (
+        <form onSubmit={handleSave} className="space-y-2 mb-4 p-3 bg-gray-900/50 rounded-md">
+          <input
+            className={inputClass}
+            placeholder="Name (e.g. Weekend dairy deal)"
+            value={form.name}
+            onChange={e => handleChange('name', e.target.value)}
+            required
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <select className={inputClass} value={form.type} onChange={e => handleChange('type', e.target.value)}>
+              <option value="PERCENTAGE">Percent off</option>
+              <option value="FIXED">Amount off</option>
+              <option value="MULTI_BUY">Multi-buy</option>
+            </select>
+            {form.type === 'MULTI_BUY' ? (
+              <div className="flex items-center gap-1 text-xs text-gray-400">
+                Buy
+                <input className={inputClass} type="number" min="2" value={form.buyQuantity} onChange={e => handleChange('buyQuantity', e.target.value)} />
+                pay
+                <input className={inputClass} type="number" min="0" value={form.payQuantity} onChange={e => handleChange('payQuantity', e.target.value)} />
+              </div>
+            ) : (
+              <input
+                className={inputClass}
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder={form.type === 'PERCENTAGE' ? '% off' : '$ off per unit'}
+                value={form.value}
+                onChange={e => handleChange('value', e.target.value)}
+                required
+              />
+            )}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <select className={inputClass} value={form.scope} onChange={e => handleChange('scope', e.target.value)}>
+              <option value="product">Product</option>
+              <option value="category">Category</option>
+              <option value="lot">Single lot</option>
+            </select>
+            <select className={inputClass} value={form.targetId} onChange={e => handleChange('targetId', e.target.value)} required>
+              <option value="">Select...</option>
+              {form.scope === 'product' && summaries.map(summary => (
+                <option key={summary.productId} value={summary.productId}>{summary.productName}</option>
+              ))}
+              {form.scope === 'category' && categories.map(category => (
+                <option key={category} value={category}>{category}</option>
+              ))}
+              {form.scope === 'lot' && lots.map(item => (
+                <option key={item.inventoryUuid} value={item.inventoryUuid}>
+                  {item.productName} · exp {formatDisplayDate(item.expirationDate)} · {item.quantity} units
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <input className={inputClass} type="date" value={form.startsAt} onChange={e => handleChange('startsAt', e.target.value)} required />
+            <input className={inputClass} type="date" value={form.endsAt} onChange={e => handleChange('endsAt', e.target.value)} required />
+          </div>
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="w-full px-3 py-1 rounded-md bg-cyan-600 text-white text-sm hover:bg-cyan-500 disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Save Promotion'}
+          </button>
+        </form>
+      )}
+
+      {isLoading && <p className="text-cyan-400 text-sm">Loading...</p>}
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+      {!isLoading && !error && promotions.length === 0 && (
+        <p className="text-gray-500 text-sm text-center py-2">No promotions yet.</p>
+      )}
+      <div className="space-y-2 max-h-64 overflow-y-auto">
+        {promotions.map(promotion => (
+          <div key={promotion.id} className="p-3 bg-gray-900/50 rounded-md text-sm">
+            <div className="flex justify-between items-center">
+              <span className="font-semibold text-white">{promotion.name}</span>
+              <span className="text-yellow-300 text-xs">{describePromotion(promotion)}</span>
+            </div>
+            <p className="text-xs text-gray-400 truncate">{describeTarget(promotion)}</p>
+            <div className="flex justify-between items-center mt-1">
+              <span className="text-xs text-gray-500">
+                {formatDisplayDate(promotion.startsAt)} – {formatDisplayDate(promotion.endsAt)}
+              </span>
+              <button
+                onClick={() => handleToggle(promotion)}
+                className={`px-2 py-0.5 rounded text-xs ${promotion.active ? 'bg-green-700/60 text-green-200' : 'bg-gray-700 text-gray-400'}`}
+              >
+                {promotion.active ? 'Active' : 'Paused'}
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PromotionsPanel;
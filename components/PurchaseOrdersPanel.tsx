@@ -0,0 +1,265 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ProductDefinition, PurchaseOrder, PurchaseOrderLine, ReorderSetting, SupplierProfile } from '../types';
+import {
+  cancelPurchaseOrder,
+  getActiveShopId,
+  getPurchaseOrders,
+  getReorderSettings,
+  purchaseOrderToCsv,
+  runDailyReorderCheck,
+  saveReorderSetting,
+  sendPurchaseOrder,
+  updatePurchaseOrderDraft,
+} from '../services/vectorDBService';
+import { downloadCsv } from '../utils/download';
+
+interface PurchaseOrdersPanelProps {
+  products: ProductDefinition[];
+  suppliers: SupplierProfile[];
+  onOrderSent: () => void;
+}
+
+type SettingForm = { reorderPoint: string; targetLevel: string; leadTimeDays: string; supplierId: string };
+
+const STATUS_CLASSES: Record<PurchaseOrder['status'], string> = {
+  DRAFT: 'bg-yellow-500/20 text-yellow-300',
+  SENT: 'bg-green-700/40 text-green-300',
+  CANCELLED: 'bg-gray-700 text-gray-400',
+};
+
+const PurchaseOrdersPanel: React.FC<PurchaseOrdersPanelProps> = ({ products, suppliers, onOrderSent }) => {
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [settings, setSettings] = useState<Record<string, SettingForm>>({});
+  const [edits, setEdits] = useState<Record<string, PurchaseOrder>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRunning, setIsRunning] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const supplierMap = useMemo(() => new Map(suppliers.map(s => [s.id, s.name || s.id])), [suppliers]);
+
+  const loadData = useCallback(async () => {
+    const shopId = getActiveShopId();
+    if (!shopId) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [orderList, settingList] = await Promise.all([getPurchaseOrders(shopId), getReorderSettings(shopId)]);
+      setOrders(orderList);
+      setEdits(Object.fromEntries(orderList.filter(o => o.status === 'DRAFT').map(o => [o.id, o])));
+      setSettings(Object.fromEntries(settingList.map((setting: ReorderSetting) => [setting.productId, {
+        reorderPoint: String(setting.reorderPoint),
+        targetLevel: String(setting.targetLevel),
+        leadTimeDays: String(setting.leadTimeDays),
+        supplierId: setting.supplierId || '',
+      }])));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load purchase orders.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const runAction = async (id: string, action: () => Promise<unknown>, message: string) => {
+    setBusyId(id);
+    setError(null);
+    setNotice(null);
+    try {
+      await action();
+      setNotice(message);
+      await loadData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRunReorder = async () => {
+    setIsRunning(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const created = await runDailyReorderCheck(true);
+      setNotice(created.length > 0 ? `Drafted ${created.length} purchase order(s).` : 'No products need reordering.');
+      await loadData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Reorder check failed.');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const updateSettingField = (productId: string, field: keyof SettingForm, value: string) => {
+    setSettings(prev => ({
+      ...prev,
+      [productId]: { reorderPoint: '', targetLevel: '', leadTimeDays: '', supplierId: '', ...prev[productId], [field]: value },
+    }));
+  };
+
+  const handleSaveSetting = (productId: string) => {
+    const form = settings[productId];
+    if (!form) return;
+    runAction(productId, () => saveReorderSetting({
+      productId,
+      reorderPoint: Number(form.reorderPoint),
+      targetLevel: Number(form.targetLevel),
+      leadTimeDays: Number(form.leadTimeDays),
+      supplierId: form.supplierId || null,
+    }), 'Reorder point saved.');
+  };
+
+  const updateDraft = (orderId: string, changes: Partial<PurchaseOrder>) => {
+    setEdits(prev => ({ ...prev, [orderId]: { ...prev[orderId], ...changes } }));
+  };
+
+  const updateDraftLine = (orderId: string, index: number, field: keyof PurchaseOrderLine, value: number) => {
+    const lines = [...edits[orderId].lines];
+    lines[index] = { ...lines[index], [field]: value };
+    updateDraft(orderId, { lines });
+  };
+
+  const saveDraft = (order: PurchaseOrder) => updatePurchaseOrderDraft(order.id, {
+    lines: order.lines,
+    supplierId: order.supplierId,
+    expectedDeliveryDate: order.expectedDeliveryDate,
+  });
+
+  const handleSend = (order: PurchaseOrder) => runAction(order.id, async () => {
+    await saveDraft(order);
+    await sendPurchaseOrder(order.id);
+    onOrderSent();
+  }, 'Purchase order sent. Its delivery is now expected under Logged Batches.');
+
+  const handleExport = (order: PurchaseOrder) => {
+    const supplierName = order.supplierId ? supplierMap.get(order.supplierId) : undefined;
+    downloadCsv(`purchase-order-${order.id.slice(0, 8)}.csv`, purchaseOrderToCsv(order, supplierName));
+  };
+
+  return (
+    <div className="bg-gray-800/50 border border-gray-700 rounded-xl p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold text-white">Purchase Orders</h2>
+        <button onClick={handleRunReorder} disabled={isRunning} className="button-secondary text-sm">
+          {isRunning ? 'Checking...' : 'Run Reorder Check'}
+        </button>
+      </div>
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+      {notice && <p className="text-green-400 text-sm">{notice}</p>}
+
+      <details className="p-3 bg-gray-900/40 rounded-lg border border-gray-700">
+        <summary className="cursor-pointer text-gray-200 font-semibold">Reorder Points</summary>
+        <div className="mt-3 space-y-2 max-h-96 overflow-y-auto">
+          <div className="grid grid-cols-12 gap-2 text-xs text-gray-400">
+            <span className="col-span-4">Product</span>
+            <span className="col-span-2">Reorder at</span>
+            <span className="col-span-2">Order up to</span>
+            <span className="col-span-1">Lead days</span>
+            <span className="col-span-2">Supplier</span>
+          </div>
+          {products.map(product => {
+            const form = settings[product.id];
+            return (
+              <div key={product.id} className="grid grid-cols-12 gap-2 items-center">
+                <span className="col-span-4 text-sm text-white truncate">{product.name}</span>
+                <input type="number" min="0" className="form-input text-sm col-span-2" value={form?.reorderPoint ?? ''} onChange={e => updateSettingField(product.id, 'reorderPoint', e.target.value)} />
+                <input type="number" min="0" className="form-input text-sm col-span-2" value={form?.targetLevel ?? ''} onChange={e => updateSettingField(product.id, 'targetLevel', e.target.value)} />
+                <input type="number" min="0" className="form-input text-sm col-span-1" value={form?.leadTimeDays ?? ''} onChange={e => updateSettingField(product.id, 'leadTimeDays', e.target.value)} />
+                <select className="form-input text-sm col-span-2" value={form?.supplierId ?? ''} onChange={e => updateSettingField(product.id, 'supplierId', e.target.value)}>
+                  <option value="">{product.defaultSupplierId ? 'Default' : 'None'}</option>
+                  {suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                </select>
+                <button
+                  onClick={() => handleSaveSetting(product.id)}
+                  disabled={!form || busyId === product.id}
+                  className="col-span-1 text-cyan-400 hover:text-cyan-300 text-sm disabled:text-gray-600"
+                >
+                  Save
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      </details>
+
+      {isLoading ? (
+        <p className="text-gray-400">Loading purchase orders...</p>
+      ) : orders.length === 0 ? (
+        <p className="text-gray-500 text-center py-4">No purchase orders yet. Set reorder points to get daily drafts.</p>
+      ) : (
+        <div className="space-y-3">
+          {orders.map(order => {
+            const draft = edits[order.id];
+            const current = draft || order;
+            const total = current.lines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0);
+            return (
+              <div key={order.id} className="p-3 bg-gray-900/40 rounded-lg border border-gray-700 space-y-2">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-white font-semibold">
+                      {current.supplierId ? supplierMap.get(current.supplierId) || current.supplierId : 'No supplier'}
+                    </p>
+                    <p className="text-xs text-gray-500">Created {current.createdAt.slice(0, 10)} · Expected {current.expectedDeliveryDate}</p>
+                  </div>
+                  <span className={`px-2 py-0.5 rounded text-xs ${STATUS_CLASSES[current.status]}`}>{current.status}</span>
+                </div>
+
+                {draft && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <select className="form-input text-sm" value={draft.supplierId || ''} onChange={e => updateDraft(order.id, { supplierId: e.target.value || null })}>
+                      <option value="">Select Supplier...</option>
+                      {suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                    </select>
+                    <input type="date" className="form-input text-sm" value={draft.expectedDeliveryDate} onChange={e => updateDraft(order.id, { expectedDeliveryDate: e.target.value })} />
+                  </div>
+                )}
+
+                <ul className="space-y-1 text-sm">
+                  {current.lines.map((line, index) => (
+                    <li key={line.productId} className="grid grid-cols-12 gap-2 items-center text-gray-300">
+                      <span className="col-span-6 truncate">
+                        {line.productName}
+                        {line.dailyVelocity !== undefined && (
+                          <span className="text-xs text-gray-500"> · {line.onHand ?? 0} on hand, {line.dailyVelocity}/day</span>
+                        )}
+                      </span>
+                      {draft ? (
+                        <>
+                          <input type="number" min="0" className="form-input text-sm col-span-3" value={line.quantity} onChange={e => updateDraftLine(order.id, index, 'quantity', Number(e.target.value))} />
+                          <input type="number" min="0" step="0.01" className="form-input text-sm col-span-3" value={line.unitCost} onChange={e => updateDraftLine(order.id, index, 'unitCost', Number(e.target.value))} />
+                        </>
+                      ) : (
+                        <span className="col-span-6 text-right">{line.quantity} × ${line.unitCost.toFixed(2)}</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+
+                <div className="flex items-center justify-between pt-2 border-t border-gray-700">
+                  <span className="text-sm text-gray-300">Total ${total.toFixed(2)}</span>
+                  <div className="flex gap-2">
+                    <button onClick={() => handleExport(current)} className="button-secondary text-xs">Export CSV</button>
+                    {draft && (
+                      <>
+                        <button onClick={() => runAction(order.id, () => saveDraft(draft), 'Draft saved.')} disabled={busyId === order.id} className="button-secondary text-xs">Save</button>
+                        <button onClick={() => runAction(order.id, () => cancelPurchaseOrder(order.id), 'Purchase order cancelled.')} disabled={busyId === order.id} className="button-secondary text-xs">Cancel</button>
+                        <button onClick={() => handleSend(draft)} disabled={busyId === order.id} className="button-primary text-xs">Send</button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PurchaseOrdersPanel;
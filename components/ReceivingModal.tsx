@@ -0,0 +1,212 @@
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import { BatchDiscrepancyType, BatchLineItem, BatchRecord, ProductDefinition, ReceivingLine } from '../types';
+import { buildReceivingLines, receiveBatch, reconcileReceivingLines } from '../services/vectorDBService';
+import { analyzeBatchDocuments } from '../services/geminiService';
+import KioskScanner from './KioskScanner';
+import { UploadIcon } from './icons/UploadIcon';
+
+interface ReceivingModalProps {
+  batch: BatchRecord;
+  products: ProductDefinition[];
+  supplierName?: string;
+  onClose: () => void;
+  onReceived: (batch: BatchRecord) => void;
+}
+
+export const DISCREPANCY_LABELS: Record<BatchDiscrepancyType, string> = {
+  SHORTAGE: 'Short',
+  OVERAGE: 'Over',
+  DAMAGED: 'Damaged',
+  PRICE_VARIANCE: 'Price variance',
+};
+
+type NumericField = 'countedQuantity' | 'damagedQuantity' | 'invoicedQuantity' | 'invoicedCost';
+
+const ReceivingModal: React.FC<ReceivingModalProps> = ({ batch, products, supplierName, onClose, onReceived }) => {
+  const [lines, setLines] = useState<ReceivingLine[]>(() => buildReceivingLines(batch));
+  const [invoiceNumber, setInvoiceNumber] = useState(batch.invoiceNumber || '');
+  const [isScanning, setIsScanning] = useState(false);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastScanned, setLastScanned] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const discrepancies = useMemo(() => reconcileReceivingLines(lines), [lines]);
+  const totalImpact = discrepancies.reduce((sum, entry) => sum + entry.valueImpact, 0);
+
+  // Only the names matter to the scanner; keep the list stable while counts change
+  const lineNamesKey = lines.map(line => line.productName).join('\n');
+  const scanTargets = useMemo(
+    () => lineNamesKey.split('\n').map(productName => ({ productName })),
+    [lineNamesKey],
+  );
+
+  const updateLine = (index: number, field: NumericField, value: number) => {
+    setLines(prev => prev.map((line, i) => (i === index ? { ...line, [field]: Math.max(0, value) } : line)));
+  };
+
+  const updateExpiration = (index: number, expirationDate: string) => {
+    setLines(prev => prev.map((line, i) => (i === index ? { ...line, expirationDate: expirationDate || undefined } : line)));
+  };
+
+  const handleProductScanned = useCallback((productName: string) => {
+    const name = productName.toLowerCase();
+    setLines(prev => prev.map(line => (
+      line.productName.toLowerCase() === name ? { ...line, countedQuantity: line.countedQuantity + 1 } : line
+    )));
+    setLastScanned(productName);
+  }, []);
+
+  // Read the supplier invoice and fill in what it bills for, keeping counts entered so far
+  const handleInvoiceSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    if (files.length === 0) return;
+    setIsAnalyzing(true);
+    setError(null);
+    try {
+      const result = await analyzeBatchDocuments(files);
+      const invoiceItems: BatchLineItem[] = result.items
+        .map(item => {
+          const name = item.productName.toLowerCase();
+          const matched = lines.find(line => line.productName.toLowerCase() === name)
+            || products.find(p => p.name.toLowerCase() === name);
+          return {
+            productId: matched ? ('productId' in matched ? matched.productId : matched.id) : '',
+            productName: item.productName,
+            quantity: item.quantity,
+            cost: item.costPerUnit,
+          };
+        })
+        .filter(item => item.productId);
+
+      const counted = new Map<string, ReceivingLine>(lines.map(line => [line.productId, line]));
+      setLines(buildReceivingLines(batch, invoiceItems).map(line => {
+        const existing = counted.get(line.productId);
+        return existing
+          ? { ...line, countedQuantity: existing.countedQuantity, damagedQuantity: existing.damagedQuantity, expirationDate: existing.expirationDate }
+          : line;
+      }));
+      if (result.invoiceNumber) setInvoiceNumber(result.invoiceNumber);
+      if (invoiceItems.length < result.items.length) {
+        setError(`${result.items.length - invoiceItems.length} invoice line(s) did not match a product and were skipped.`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to analyze invoice.');
+    } finally {
+      setIsAnalyzing(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleReceive = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const received = await receiveBatch(batch.id, lines, { invoiceNumber: invoiceNumber || undefined });
+      onReceived(received);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to receive batch.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-40 flex items-center justify-center p-4" onClick={onClose}>
+      {isScanning && (
+        <KioskScanner
+          summaries={scanTargets}
+          onProductScanned={handleProductScanned}
+          onClose={() => setIsScanning(false)}
+        />
+      )}
+      <div
+        className="bg-gray-800 border border-gray-700 rounded-lg shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-6 border-b border-gray-700 flex justify-between items-center">
+          <div>
+            <h2 className="text-2xl font-bold text-white">Receive Delivery</h2>
+            <p className="text-sm text-gray-400">{supplierName || 'No supplier'} · expected {batch.deliveryDate}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+            <div>
+              <label className="block text-sm text-gray-300 mb-1">Invoice Number</label>
+              <input className="form-input" value={invoiceNumber} onChange={e => setInvoiceNumber(e.target.value)} />
+            </div>
+            <input type="file" ref={fileInputRef} onChange={handleInvoiceSelected} accept="image/*" className="hidden" multiple />
+            <button type="button" onClick={() => fileInputRef.current?.click()} disabled={isAnalyzing} className="button-secondary">
+              <UploadIcon className="w-5 h-5" /> {isAnalyzing ? 'Reading invoice...' : 'Read Invoice'}
+            </button>
+            <button type="button" onClick={() => setIsScanning(true)} className="button-secondary">Scan to Count</button>
+          </div>
+          {lastScanned && <p className="text-xs text-green-400">Counted one {lastScanned}.</p>}
+
+          <div className="space-y-2">
+            <div className="grid grid-cols-12 gap-2 text-xs text-gray-400">
+              <span className="col-span-3">Product</span>
+              <span className="col-span-1">Ordered</span>
+              <span className="col-span-2">Invoiced</span>
+              <span className="col-span-2">Counted</span>
+              <span className="col-span-1">Damaged</span>
+              <span className="col-span-1">Cost</span>
+              <span className="col-span-2">Expires</span>
+            </div>
+            {lines.map((line, index) => (
+              <div key={line.productId} className="grid grid-cols-12 gap-2 items-center p-2 rounded-md bg-gray-900/40">
+                <span className="col-span-3 text-sm text-white truncate">{line.productName}</span>
+                <span className="col-span-1 text-sm text-gray-400">{line.expectedQuantity}</span>
+                <input type="number" min="0" className="form-input text-sm col-span-2" value={line.invoicedQuantity} onChange={e => updateLine(index, 'invoicedQuantity', Number(e.target.value))} />
+                <div className="col-span-2 flex items-center gap-1">
+                  <button type="button" onClick={() => updateLine(index, 'countedQuantity', line.countedQuantity - 1)} className="px-2 text-gray-300 hover:text-white">−</button>
+                  <input type="number" min="0" className="form-input text-sm" value={line.countedQuantity} onChange={e => updateLine(index, 'countedQuantity', Number(e.target.value))} />
+                  <button type="button" onClick={() => updateLine(index, 'countedQuantity', line.countedQuantity + 1)} className="px-2 text-gray-300 hover:text-white">+</button>
+                </div>
+                <input type="number" min="0" className="form-input text-sm col-span-1" value={line.damagedQuantity} onChange={e => updateLine(index, 'damagedQuantity', Number(e.target.value))} />
+                <input type="number" min="0" step="0.01" className="form-input text-sm col-span-1" value={line.invoicedCost} onChange={e => updateLine(index, 'invoicedCost', Number(e.target.value))} />
+                <input type="date" className="form-input text-sm col-span-2" value={line.expirationDate || ''} onChange={e => updateExpiration(index, e.target.value)} />
+              </div>
+            ))}
+          </div>
+
+          <div className="p-3 rounded-lg border border-gray-700 bg-gray-900/40">
+            <h3 className="text-sm font-semibold text-gray-200 mb-2">Discrepancies</h3>
+            {discrepancies.length === 0 ? (
+              <p className="text-sm text-green-400">Counts and costs match the invoice.</p>
+            ) : (
+              <ul className="space-y-1 text-sm">
+                {discrepancies.map((entry, idx) => (
+                  <li key={`${entry.productId}-${entry.type}-${idx}`} className="flex justify-between text-yellow-300">
+                    <span>{DISCREPANCY_LABELS[entry.type]}: {entry.productName} (expected {entry.expected}, got {entry.actual})</span>
+                    <span>${entry.valueImpact.toFixed(2)}</span>
+                  </li>
+                ))}
+                <li className="flex justify-between pt-1 border-t border-gray-700 text-gray-200">
+                  <span>Owed by supplier</span>
+                  <span>${totalImpact.toFixed(2)}</span>
+                </li>
+              </ul>
+            )}
+          </div>
+          {error && <p className="text-red-400 text-sm">{error}</p>}
+        </div>
+
+        <div className="p-6 border-t border-gray-700 flex justify-end gap-2">
+          <button type="button" onClick={onClose} className="button-secondary">Cancel</button>
+          <button type="button" onClick={handleReceive} disabled={isSubmitting} className="button-primary">
+            {isSubmitting ? 'Receiving...' : 'Receive & Stock'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReceivingModal;
@@ -2,7 +2,7 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
 import { scanShelfForProducts, ShelfScanResult, ShelfProductDetection, GeminiOverloadError } from '../services/geminiService';
 import { ProductSummary } from '../types';
-import { persistInventoryEntry, getActiveShopId } from '../services/vectorDBService';
+import { persistInventoryEntry, recordStockMovement, getActiveShopId, getActiveActorId } from '../services/vectorDBService';
 import { v4 as uuidv4 } from 'uuid';
 import type { StockItem, ScanMetadata } from '../types';
 import { useToast } from './Toast';
@@ -164,7 +164,7 @@ const ShelfScanner: React.FC<ShelfScannerProps> = ({ summaries, onScanComplete,
       scanMetadata,
       qdrantId: inventoryUuid,
       status: 'ACTIVE',
-      createdByUserId: shopId,
+      createdByUserId: getActiveActorId() || shopId,
       createdAt: now,
       updatedAt: now,
       shareScope: ['local'],
@@ -172,6 +172,14 @@ const ShelfScanner: React.FC<ShelfScannerProps> = ({ summaries, onScanComplete,
 
     try {
       await persistInventoryEntry(inventoryItem, scanMetadata);
+      await recordStockMovement({
+        inventoryUuid,
+        productId,
+        delta: inventoryItem.quantity,
+        quantityAfter: inventoryItem.quantity,
+        reason: 'shelf_scan_correction',
+        referenceId: scanMetadata.sourcePhotoId,
+      });
       return true;
     } catch (err) {
       console.error('Failed to update inventory:', err);
@@ -0,0 +1,313 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ShopOverview, StockItem, StockTransfer, User } from '../types';
+import {
+  fetchCanonicalProducts,
+  getShopOverviews,
+  getStockItemsForShop,
+  getTransfersForShops,
+  transferStock,
+} from '../services/vectorDBService';
+import { useToast } from './Toast';
+
+const inputClasses = 'bg-gray-900 border border-gray-700 rounded-md px-3 py-2 text-sm text-white';
+const EXPIRY_WINDOW_DAYS = 7;
+
+const formatMoney = (value: number) => `$${value.toFixed(2)}`;
+
+interface ShopsPageProps {
+  user: User;
+  onCreateShop: (params: { name: string; contactEmail?: string }) => Promise<void>;
+  // Called after a transfer so the active shop's views reload
+  onTransferred: () => void;
+}
+
+/**
+ * Operator view across every shop the owner runs: consolidated stock, sales
+ * and expiring lots, opening further shops, and moving stock between them.
+ */
+const ShopsPage: React.FC<ShopsPageProps> = ({ user, onCreateShop, onTransferred }) => {
+  const shops = useMemo(() => (user.shops || []).filter(shop => shop.role === 'owner'), [user.shops]);
+  const [overviews, setOverviews] = useState<ShopOverview[]>([]);
+  const [transfers, setTransfers] = useState<StockTransfer[]>([]);
+  const [productNames, setProductNames] = useState<Map<string, string>>(new Map());
+  const [isLoading, setIsLoading] = useState(true);
+  const [newShop, setNewShop] = useState({ name: '', contactEmail: '' });
+  const [isCreating, setIsCreating] = useState(false);
+  const { showToast } = useToast();
+
+  const shopNames = useMemo(() => new Map(shops.map(shop => [shop.shopId, shop.name])), [shops]);
+  const productName = (productId: string) => productNames.get(productId) || productId;
+
+  const loadOverview = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [nextOverviews, nextTransfers, products] = await Promise.all([
+        getShopOverviews(shops, EXPIRY_WINDOW_DAYS),
+        getTransfersForShops(shops.map(shop => shop.shopId)),
+        fetchCanonicalProducts(),
+      ]);
+      setOverviews(nextOverviews);
+      setTransfers(nextTransfers);
+      setProductNames(new Map(products.map(product => [product.id, product.name])));
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to load your shops.', 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [shops]);
+
+  useEffect(() => {
+    loadOverview();
+  }, [loadOverview]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newShop.name.trim()) return;
+    setIsCreating(true);
+    try {
+      await onCreateShop({ name: newShop.name.trim(), contactEmail: newShop.contactEmail.trim() || undefined });
+      showToast(`${newShop.name.trim()} opened. Switch to it from the shop menu in the header.`, 'success');
+      setNewShop({ name: '', contactEmail: '' });
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Could not open the shop.', 'error');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const totals = overviews.reduce((sum, overview) => ({
+    stockUnits: sum.stockUnits + overview.stockUnits,
+    stockValue: sum.stockValue + overview.stockValue,
+    lotCount: sum.lotCount + overview.lotCount,
+    salesCount: sum.salesCount + overview.salesCount,
+    revenue: sum.revenue + overview.revenue,
+    expiringLots: sum.expiringLots + overview.expiringLots.length,
+  }), { stockUnits: 0, stockValue: 0, lotCount: 0, salesCount: 0, revenue: 0, expiringLots: 0 });
+
+  const expiringLots = overviews
+    .flatMap(overview => overview.expiringLots.map(lot => ({ ...lot, shopName: overview.shopName })))
+    .sort((a, b) => a.daysUntilExpiry - b.daysUntilExpiry);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gray-800/50 rounded-lg border border-gray-700 p-6 space-y-4">
+        <div className="flex flex-wrap justify-between items-start gap-2">
+          <div>
+            <h1 className="text-2xl font-bold text-white">Shops</h1>
+            <p className="text-sm text-gray-400">
+              Every shop you run, side by side. Staff are added per shop from the Staff tab while that shop is active.
+            </p>
+          </div>
+          <button onClick={loadOverview} className="text-sm text-cyan-400 hover:text-cyan-300">Refresh</button>
+        </div>
+
+        <form onSubmit={handleCreate} className="flex flex-wrap gap-2">
+          <input
+            value={newShop.name}
+            onChange={e => setNewShop({ ...newShop, name: e.target.value })}
+            placeholder="New shop name"
+            className={`${inputClasses} w-56`}
+          />
+          <input
+            type="email"
+            value={newShop.contactEmail}
+            onChange={e => setNewShop({ ...newShop, contactEmail: e.target.value })}
+            placeholder={`Contact email (default ${user.email})`}
+            className={`${inputClasses} w-72`}
+          />
+          <button
+            type="submit"
+            disabled={isCreating || !newShop.name.trim()}
+            className="px-4 py-2 rounded-md bg-cyan-600 text-white text-sm font-semibold hover:bg-cyan-500 disabled:bg-gray-600"
+          >
+            Open shop
+          </button>
+        </form>
+      </div>
+
+      <div className="bg-gray-800/50 rounded-lg border border-gray-700 p-6 overflow-x-auto">
+        <h2 className="text-xl font-semibold text-white mb-4">Consolidated overview</h2>
+        {isLoading ? <p className="text-sm text-gray-400">Loading shops...</p> : (
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-400">
+                <th className="py-2 pr-4 font-medium">Shop</th>
+                <th className="py-2 px-3 font-medium text-right">Lots</th>
+                <th className="py-2 px-3 font-medium text-right">Units</th>
+                <th className="py-2 px-3 font-medium text-right">Stock value</th>
+                <th className="py-2 px-3 font-medium text-right">Sales</th>
+                <th className="py-2 px-3 font-medium text-right">Revenue</th>
+                <th className="py-2 px-3 font-medium text-right">Expiring ({EXPIRY_WINDOW_DAYS}d)</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-800">
+              {overviews.map(overview => (
+                <tr key={overview.shopId} className="text-gray-300">
+                  <td className="py-2 pr-4">
+                    {overview.shopName}
+                    {overview.shopId === user.shopId && <span className="ml-2 text-xs text-cyan-400">active</span>}
+                  </td>
+                  <td className="py-2 px-3 text-right">{overview.lotCount}</td>
+                  <td className="py-2 px-3 text-right">{overview.stockUnits}</td>
+                  <td className="py-2 px-3 text-right">{formatMoney(overview.stockValue)}</td>
+                  <td className="py-2 px-3 text-right">{overview.salesCount}</td>
+                  <td className="py-2 px-3 text-right">{formatMoney(overview.revenue)}</td>
+                  <td className={`py-2 px-3 text-right ${overview.expiringLots.length > 0 ? 'text-yellow-300' : ''}`}>{overview.expiringLots.length}</td>
+                </tr>
+              ))}
+              <tr className="text-white font-semibold">
+                <td className="py-2 pr-4">All shops</td>
+                <td className="py-2 px-3 text-right">{totals.lotCount}</td>
+                <td className="py-2 px-3 text-right">{totals.stockUnits}</td>
+                <td className="py-2 px-3 text-right">{formatMoney(totals.stockValue)}</td>
+                <td className="py-2 px-3 text-right">{totals.salesCount}</td>
+                <td className="py-2 px-3 text-right">{formatMoney(totals.revenue)}</td>
+                <td className="py-2 px-3 text-right">{totals.expiringLots}</td>
+              </tr>
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="bg-gray-800/50 rounded-lg border border-gray-700 p-6">
+        <h2 className="text-xl font-semibold text-white mb-4">Expiring across shops</h2>
+        {expiringLots.length === 0 ? (
+          <p className="text-sm text-gray-500">No lots expire in the next {EXPIRY_WINDOW_DAYS} days.</p>
+        ) : (
+          <ul className="space-y-1 text-sm">
+            {expiringLots.map(lot => (
+              <li key={lot.inventoryUuid} className="flex flex-wrap justify-between gap-2 text-gray-300">
+                <span>{productName(lot.productId)} · {lot.quantity} units · {lot.shopName}</span>
+                <span className="text-yellow-300">
+                  {lot.daysUntilExpiry <= 0 ? 'expires today' : `${lot.daysUntilExpiry}d left`} · {new Date(lot.expirationDate).toLocaleDateString()}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {shops.length > 1 && (
+        <TransferPanel
+          shops={shops}
+          productName={productName}
+          onTransferred={async () => {
+            onTransferred();
+            await loadOverview();
+          }}
+        />
+      )}
+
+      {transfers.length > 0 && (
+        <div className="bg-gray-800/50 rounded-lg border border-gray-700 p-6">
+          <h2 className="text-xl font-semibold text-white mb-4">Recent transfers</h2>
+          <ul className="space-y-1 text-sm text-gray-300">
+            {transfers.slice(0, 20).map(transfer => (
+              <li key={transfer.id}>
+                {new Date(transfer.createdAt).toLocaleString()} · {transfer.quantity} × {productName(transfer.productId)} ·{' '}
+                {shopNames.get(transfer.fromShopId) || 'Unknown shop'} → {shopNames.get(transfer.toShopId) || 'Unknown shop'}
+                {transfer.note && <span className="text-gray-500"> · {transfer.note}</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+
+const TransferPanel: React.FC<{
+  shops: NonNullable<User['shops']>;
+  productName: (productId: string) => string;
+  onTransferred: () => Promise<void>;
+}> = ({ shops, productName, onTransferred }) => {
+  const [fromShopId, setFromShopId] = useState(shops[0].shopId);
+  const [toShopId, setToShopId] = useState(shops[1].shopId);
+  const [lots, setLots] = useState<StockItem[]>([]);
+  const [inventoryUuid, setInventoryUuid] = useState('');
+  const [quantity, setQuantity] = useState(1);
+  const [note, setNote] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const { showToast } = useToast();
+
+  const loadLots = useCallback(async () => {
+    try {
+      const items = await getStockItemsForShop(fromShopId);
+      setLots(items);
+      setInventoryUuid(current => (items.some(item => item.inventoryUuid === current) ? current : items[0]?.inventoryUuid || ''));
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to load stock.', 'error');
+    }
+  }, [fromShopId]);
+
+  useEffect(() => {
+    loadLots();
+  }, [loadLots]);
+
+  const selectedLot = lots.find(item => item.inventoryUuid === inventoryUuid);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedLot) return;
+    setIsBusy(true);
+    try {
+      await transferStock({ inventoryUuid, toShopId, quantity, note: note.trim() || undefined });
+      showToast(`Moved ${quantity} × ${productName(selectedLot.productId)}.`, 'success');
+      setNote('');
+      setQuantity(1);
+      await loadLots();
+      await onTransferred();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Transfer failed.', 'error');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800/50 rounded-lg border border-gray-700 p-6 space-y-3">
+      <div>
+        <h2 className="text-xl font-semibold text-white">Transfer stock</h2>
+        <p className="text-sm text-gray-400">
+          Move units of a lot to another of your shops. Both shops' stock histories record the transfer.
+        </p>
+      </div>
+      <form onSubmit={handleSubmit} className="flex flex-wrap gap-2 items-center">
+        <select value={fromShopId} onChange={e => setFromShopId(e.target.value)} className={inputClasses}>
+          {shops.map(shop => <option key={shop.shopId} value={shop.shopId}>From {shop.name}</option>)}
+        </select>
+        <select value={inventoryUuid} onChange={e => setInventoryUuid(e.target.value)} className={`${inputClasses} w-72`}>
+          {lots.length === 0 && <option value="">No stock</option>}
+          {lots.map(item => (
+            <option key={item.inventoryUuid} value={item.inventoryUuid}>
+              {productName(item.productId)} · {item.quantity} units · exp {new Date(item.expirationDate).toLocaleDateString()}
+            </option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min={1}
+          max={selectedLot?.quantity || 1}
+          value={quantity}
+          onChange={e => setQuantity(Math.max(1, Math.floor(Number(e.target.value) || 1)))}
+          className={`${inputClasses} w-24`}
+        />
+        <select value={toShopId} onChange={e => setToShopId(e.target.value)} className={inputClasses}>
+          {shops.map(shop => <option key={shop.shopId} value={shop.shopId}>To {shop.name}</option>)}
+        </select>
+        <input value={note} onChange={e => setNote(e.target.value)} placeholder="Note (optional)" className={`${inputClasses} w-56`} />
+        <button
+          type="submit"
+          disabled={isBusy || !selectedLot || fromShopId === toShopId || quantity > (selectedLot?.quantity || 0)}
+          className="px-4 py-2 rounded-md bg-cyan-600 text-white text-sm font-semibold hover:bg-cyan-500 disabled:bg-gray-600"
+        >
+          Transfer
+        </button>
+      </form>
+    </div>
+  );
+};
+
+
+export default ShopsPage;
@@ -0,0 +1,188 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { StaffMember, StaffPermission, StaffRole, User } from '../types';
+import {
+  addStaffMember,
+  ASSIGNABLE_STAFF_ROLES,
+  getStaffMembers,
+  hasStaffPermission,
+  removeStaffMember,
+  STAFF_PERMISSION_LABELS,
+  STAFF_ROLE_LABELS,
+  STAFF_ROLE_PERMISSIONS,
+  updateStaffRole,
+} from '../services/staff';
+import { useToast } from './Toast';
+
+const inputClasses = 'bg-gray-900 border border-gray-700 rounded-md px-3 py-2 text-sm text-white';
+
+interface StaffPageProps {
+  user: User;
+}
+
+const StaffPage: React.FC<StaffPageProps> = ({ user }) => {
+  const [members, setMembers] = useState<StaffMember[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [newMember, setNewMember] = useState<{ username: string; role: StaffRole }>({ username: '', role: 'clerk' });
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const { showToast } = useToast();
+  const canManage = hasStaffPermission(user, 'manageStaff');
+
+  const loadMembers = useCallback(async () => {
+    try {
+      setMembers(await getStaffMembers());
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to load staff.', 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showToast]);
+
+  useEffect(() => {
+    loadMembers();
+  }, [loadMembers]);
+
+  const runAction = async (id: string, action: () => Promise<unknown>, success: string) => {
+    setBusyId(id);
+    try {
+      await action();
+      showToast(success, 'success');
+      await loadMembers();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Staff update failed.', 'error');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newMember.username.trim()) return;
+    await runAction('new', async () => {
+      await addStaffMember(newMember.username, newMember.role);
+      setNewMember({ username: '', role: newMember.role });
+    }, 'Staff member added. Their role applies the next time they sign in.');
+  };
+
+  const handleRoleChange = (member: StaffMember, role: StaffRole) => runAction(
+    member.userId,
+    () => updateStaffRole(member.userId, role),
+    `${member.displayName} is now ${STAFF_ROLE_LABELS[role].toLowerCase()}.`,
+  );
+
+  const handleRemove = (member: StaffMember) => {
+    if (!window.confirm(`Remove ${member.displayName} from your staff? They lose access within 15 minutes.`)) return;
+    runAction(member.userId, () => removeStaffMember(member.userId), `${member.displayName} removed.`);
+  };
+
+  const permissions = Object.keys(STAFF_PERMISSION_LABELS) as StaffPermission[];
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gray-800/50 rounded-lg border border-gray-700 p-6 space-y-4">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Staff</h1>
+          <p className="text-sm text-gray-400">
+            Everyone who works in this shop signs in with their own account, so stock movements and audit
+            entries show who made each change. {canManage
+              ? 'Add staff by the username they registered with.'
+              : 'Only the owner can add or change staff.'}
+          </p>
+        </div>
+
+        {canManage && (
+          <form onSubmit={handleAdd} className="flex flex-wrap gap-2">
+            <input
+              value={newMember.username}
+              onChange={e => setNewMember({ ...newMember, username: e.target.value })}
+              placeholder="Username"
+              className={`${inputClasses} w-56`}
+            />
+            <select
+              value={newMember.role}
+              onChange={e => setNewMember({ ...newMember, role: e.target.value as StaffRole })}
+              className={inputClasses}
+            >
+              {ASSIGNABLE_STAFF_ROLES.map(role => (
+                <option key={role} value={role}>{STAFF_ROLE_LABELS[role]}</option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={busyId === 'new'}
+              className="px-4 py-2 rounded-md bg-cyan-600 text-white text-sm font-semibold hover:bg-cyan-500 disabled:bg-gray-600"
+            >
+              Add staff member
+            </button>
+          </form>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-gray-400">Loading staff...</p>
+        ) : (
+          <ul className="space-y-2">
+            {members.map(member => (
+              <li key={member.userId} className="p-3 rounded-md border border-gray-700 bg-gray-900/40 flex flex-wrap items-center justify-between gap-2">
+                <div>
+                  <p className="text-sm font-semibold text-white">
+                    {member.displayName}
+                    {member.userId === user.clientId && <span className="ml-2 text-xs text-gray-400">(you)</span>}
+                  </p>
+                  <p className="text-xs text-gray-400">{member.username} · {member.email}</p>
+                </div>
+                {canManage && member.role !== 'owner' ? (
+                  <div className="flex items-center gap-3 text-xs">
+                    <select
+                      value={member.role}
+                      disabled={busyId === member.userId}
+                      onChange={e => handleRoleChange(member, e.target.value as StaffRole)}
+                      className={inputClasses}
+                    >
+                      {ASSIGNABLE_STAFF_ROLES.map(role => (
+                        <option key={role} value={role}>{STAFF_ROLE_LABELS[role]}</option>
+                      ))}
+                    </select>
+                    <button onClick={() => handleRemove(member)} disabled={busyId === member.userId} className="text-red-400 hover:text-red-300">
+                      Remove
+                    </button>
+                  </div>
+                ) : (
+                  <span className="px-2 py-1 rounded text-xs bg-gray-700 text-gray-200">{STAFF_ROLE_LABELS[member.role]}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="bg-gray-800/50 rounded-lg border border-gray-700 p-6 overflow-x-auto">
+        <h2 className="text-xl font-semibold text-white mb-4">Role permissions</h2>
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-400">
+              <th className="py-2 pr-4 font-medium">Permission</th>
+              {(Object.keys(STAFF_ROLE_LABELS) as StaffRole[]).map(role => (
+                <th key={role} className="py-2 px-3 font-medium text-center">{STAFF_ROLE_LABELS[role]}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-800">
+            {permissions.map(permission => (
+              <tr key={permission}>
+                <td className="py-2 pr-4 text-gray-300">{STAFF_PERMISSION_LABELS[permission]}</td>
+                {(Object.keys(STAFF_ROLE_LABELS) as StaffRole[]).map(role => (
+                  <td key={role} className="py-2 px-3 text-center">
+                    {STAFF_ROLE_PERMISSIONS[role].includes(permission)
+                      ? <span className="text-green-400">✓</span>
+                      : <span className="text-gray-600">—</span>}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default StaffPage;
@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { InventoryItem, StockMovement, StockMovementReason, StockReconciliation } from '../types';
+import { getStockMovementsForItem, reconcileStockItem } from '../services/vectorDBService';
+
+interface StockHistoryDrawerProps {
+  item: InventoryItem;
+  onClose: () => void;
+}
+
+export const MOVEMENT_REASON_LABELS: Record<StockMovementReason, string> = {
+  sale: 'Sale',
+  order: 'Order',
+  shrinkage: 'Shrinkage',
+  shelf_scan_correction: 'Shelf-scan correction',
+  receipt: 'Receipt',
+  transfer: 'Transfer',
+  expiry_write_off: 'Expiry write-off',
+  adjustment: 'Adjustment',
+};
+
+const StockHistoryDrawer: React.FC<StockHistoryDrawerProps> = ({ item, onClose }) => {
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [reconciliation, setReconciliation] = useState<StockReconciliation | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!item.inventoryUuid) return;
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    Promise.all([
+      getStockMovementsForItem(item.inventoryUuid),
+      reconcileStockItem(item.inventoryUuid),
+    ])
+      .then(([history, result]) => {
+        if (cancelled) return;
+        setMovements([...history].reverse());
+        setReconciliation(result);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load stock history.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [item.inventoryUuid]);
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex justify-end z-50" onClick={onClose}>
+      <div
+        className="h-full w-full max-w-md bg-gray-900 border-l border-gray-700 flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center border-b border-gray-700 p-4">
+          <div>
+            <h3 className="text-lg font-semibold text-white">Stock History</h3>
+            <p className="text-sm text-gray-400">{item.productName}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white text-2xl leading-5"
+            aria-label="Close stock history"
+          >
+            &times;
+          </button>
+        </div>
+
+        {reconciliation && (
+          <div
+            className={`m-4 p-3 rounded-md text-sm border ${
+              reconciliation.consistent
+                ? 'bg-green-900/20 border-green-700 text-green-300'
+                : 'bg-yellow-900/20 border-yellow-600 text-yellow-300'
+            }`}
+          >
+            {reconciliation.consistent
+              ? `Ledger matches current quantity (${reconciliation.currentQuantity}).`
+              : `Ledger replays to ${reconciliation.replayedQuantity}, but stored quantity is ${reconciliation.currentQuantity}.`}
+            {reconciliation.preLedger && (
+              <span className="block text-xs text-gray-400 mt-1">
+                {`This item held ${reconciliation.openingQuantity} units before the ledger started recording it.`}
+              </span>
+            )}
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto px-4 pb-4 space-y-2">
+          {isLoading && <p className="text-cyan-400">Loading movements...</p>}
+          {error && <p className="text-red-400">{error}</p>}
+          {!isLoading && !error && movements.length === 0 && (
+            <p className="text-gray-500 text-center py-6">No movements recorded for this item yet.</p>
+          )}
+          {movements.map(movement => (
+            <div key={movement.id} className="p-3 bg-gray-800/60 rounded-md text-sm">
+              <div className="flex justify-between items-center">
+                <span className="font-semibold text-white">{MOVEMENT_REASON_LABELS[movement.reason] || movement.reason}</span>
+                <span className={movement.delta < 0 ? 'text-red-400 font-mono' : 'text-green-400 font-mono'}>
+                  {movement.delta > 0 ? `+${movement.delta}` : movement.delta}
+                </span>
+              </div>
+              <div className="flex justify-between text-xs text-gray-400 mt-1">
+                <span>{new Date(movement.createdAt).toLocaleString()}</span>
+                {movement.quantityAfter !== undefined && <span>Balance: {movement.quantityAfter}</span>}
+              </div>
+              {(movement.referenceId || movement.note) && (
+                <p className="text-xs text-gray-500 mt-1 truncate">
+                  {movement.note ? `${movement.note} ` : ''}
+                  {movement.referenceId ? `Ref: ${movement.referenceId}` : ''}
+                </p>
+              )}
+              <p className="text-xs text-gray-500">By {movement.createdByUserId || 'unknown'}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StockHistoryDrawer;
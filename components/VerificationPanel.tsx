@@ -0,0 +1,198 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { User, VerificationDocumentType, VerificationKind, VerificationRecord } from '../types';
+import {
+  getMyVerification,
+  openVerificationDocument,
+  submitVerification,
+  uploadVerificationDocument,
+  VERIFICATION_ACCEPTED_FILE_TYPES,
+  VERIFICATION_DOCUMENT_LABELS,
+  VERIFICATION_STATUS_LABELS,
+} from '../services/verification';
+import { useToast } from './Toast';
+
+const inputClasses = 'bg-gray-900 border border-gray-700 rounded-md px-3 py-2 text-sm text-white';
+
+const STATUS_CLASSES: Record<VerificationRecord['status'], string> = {
+  unsubmitted: 'bg-gray-700 text-gray-200',
+  pending: 'bg-yellow-500/20 text-yellow-300',
+  approved: 'bg-green-500/20 text-green-300',
+  rejected: 'bg-red-500/20 text-red-300',
+};
+
+interface VerificationPanelProps {
+  kind: VerificationKind;
+  user: User;
+  // What verification unlocks, e.g. "the peer-to-peer marketplace"
+  unlocks: string;
+  // Called when the server reports the account as approved
+  onApproved?: () => void;
+}
+
+/**
+ * Shown in place of features that need verification: the status from the
+ * server, the reason for a rejection, and the upload and submit steps for
+ * the applicant. Staff see their shop's status; its owner applies.
+ */
+const VerificationPanel: React.FC<VerificationPanelProps> = ({ kind, user, unlocks, onApproved }) => {
+  const [record, setRecord] = useState<VerificationRecord | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+  const [documentType, setDocumentType] = useState<VerificationDocumentType>(kind === 'driver' ? 'driverLicense' : 'businessLicense');
+  const [file, setFile] = useState<File | null>(null);
+  const { showToast } = useToast();
+  const canApply = kind === 'driver' || user.staffRole === 'owner';
+
+  const loadRecord = useCallback(async () => {
+    try {
+      const records = await getMyVerification();
+      const next = records[kind] || null;
+      setRecord(next);
+      if (next?.status === 'approved') onApproved?.();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to load verification status.', 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [kind, onApproved, showToast]);
+
+  useEffect(() => {
+    loadRecord();
+  }, [loadRecord]);
+
+  const runAction = async (action: () => Promise<unknown>, success: string) => {
+    setIsBusy(true);
+    try {
+      await action();
+      showToast(success, 'success');
+      await loadRecord();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Verification request failed.', 'error');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleUpload = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+    await runAction(async () => {
+      await uploadVerificationDocument(kind, file, documentType);
+      setFile(null);
+    }, `${file.name} uploaded.`);
+  };
+
+  const handleView = (documentId: string) => {
+    openVerificationDocument(documentId).catch(err =>
+      showToast(err instanceof Error ? err.message : 'Could not open document.', 'error'));
+  };
+
+  const status = record?.status || 'unsubmitted';
+  const lastChange = record?.updatedAt ? new Date(record.updatedAt).getTime() : 0;
+  const newDocuments = (record?.documents || []).filter(document => new Date(document.uploadedAt).getTime() > lastChange);
+  const canSubmit = canApply && (status === 'unsubmitted' || status === 'rejected');
+  const subject = kind === 'driver' ? 'Your driver account' : 'Your shop';
+
+  return (
+    <div className="bg-gray-800/50 p-8 rounded-lg border border-gray-700 space-y-6 max-w-3xl mx-auto">
+      <div className="text-center space-y-2">
+        <h1 className="text-2xl font-bold text-yellow-400">
+          {kind === 'driver' ? 'Driver Verification' : 'Shop Verification'}
+        </h1>
+        {isLoading ? (
+          <p className="text-gray-400">Loading verification status...</p>
+        ) : (
+          <>
+            <span className={`inline-block px-3 py-1 rounded text-sm ${STATUS_CLASSES[status]}`}>{VERIFICATION_STATUS_LABELS[status]}</span>
+            <p className="text-gray-400">
+              {status === 'pending'
+                ? `${subject} is awaiting review by a network admin.`
+                : status === 'rejected'
+                  ? `${subject} was not verified. Upload corrected documents and submit again.`
+                  : `${subject} needs verification before you can use ${unlocks}.`}
+            </p>
+            {status === 'rejected' && record?.reason && (
+              <p className="text-sm text-red-300">Reason: {record.reason}</p>
+            )}
+            {!canApply && <p className="text-sm text-gray-500">Your shop's owner applies for verification.</p>}
+          </>
+        )}
+      </div>
+
+      {!isLoading && canApply && (
+        <div className="space-y-4">
+          {canSubmit && (
+            <form onSubmit={handleUpload} className="flex flex-wrap gap-2 items-center">
+              <select
+                value={documentType}
+                onChange={e => setDocumentType(e.target.value as VerificationDocumentType)}
+                className={inputClasses}
+              >
+                {(Object.keys(VERIFICATION_DOCUMENT_LABELS) as VerificationDocumentType[]).map(type => (
+                  <option key={type} value={type}>{VERIFICATION_DOCUMENT_LABELS[type]}</option>
+                ))}
+              </select>
+              <input
+                type="file"
+                accept={VERIFICATION_ACCEPTED_FILE_TYPES}
+                onChange={e => setFile(e.target.files?.[0] || null)}
+                className="text-sm text-gray-300"
+              />
+              <button
+                type="submit"
+                disabled={!file || isBusy}
+                className="px-4 py-2 rounded-md bg-gray-700 text-white text-sm hover:bg-gray-600 disabled:opacity-50"
+              >
+                Upload
+              </button>
+            </form>
+          )}
+
+          {(record?.documents.length || 0) > 0 && (
+            <ul className="space-y-1 text-sm">
+              {record!.documents.map(document => (
+                <li key={document.id} className="flex justify-between text-gray-300">
+                  <span>
+                    {VERIFICATION_DOCUMENT_LABELS[document.documentType]}: {document.fileName}
+                    <span className="ml-2 text-xs text-gray-500">{new Date(document.uploadedAt).toLocaleDateString()}</span>
+                  </span>
+                  <button onClick={() => handleView(document.id)} className="text-cyan-400 hover:text-cyan-300">View</button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {canSubmit && (
+            <button
+              onClick={() => runAction(() => submitVerification(kind), 'Submitted for review.')}
+              disabled={isBusy || newDocuments.length === 0}
+              className="w-full px-4 py-2 rounded-md bg-cyan-600 text-white text-sm font-semibold hover:bg-cyan-500 disabled:bg-gray-600"
+            >
+              Submit {newDocuments.length} document{newDocuments.length === 1 ? '' : 's'} for review
+            </button>
+          )}
+        </div>
+      )}
+
+      {!isLoading && (record?.history.length || 0) > 0 && (
+        <div>
+          <h2 className="text-sm font-semibold text-gray-300 mb-2">History</h2>
+          <ul className="space-y-1 text-xs text-gray-400">
+            {[...record!.history].reverse().map(event => (
+              <li key={event.id}>
+                {new Date(event.createdAt).toLocaleString()} · {VERIFICATION_STATUS_LABELS[event.status]}
+                {event.reason && ` · ${event.reason}`}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="text-center">
+        <button onClick={loadRecord} className="text-sm text-cyan-400 hover:text-cyan-300">Check status</button>
+      </div>
+    </div>
+  );
+};
+
+export default VerificationPanel;
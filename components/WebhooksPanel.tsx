@@ -0,0 +1,284 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { WebhookDelivery, WebhookDeliveryStatus, WebhookEndpoint } from '../types';
+import {
+  getWebhookEndpoints,
+  saveWebhookEndpoint,
+  rotateWebhookSecret,
+  deleteWebhookEndpoint,
+  getWebhookDeliveries,
+  redeliverWebhook,
+} from '../services/vectorDBService';
+import { useToast } from './Toast';
+
+const DELIVERY_LIMIT = 100;
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['pending', 'retrying', 'delivered', 'dead'];
+
+const STATUS_STYLES: Record<WebhookDeliveryStatus, string> = {
+  pending: 'bg-gray-700 text-gray-300',
+  retrying: 'bg-yellow-700/60 text-yellow-200',
+  delivered: 'bg-green-700/60 text-green-200',
+  dead: 'bg-red-800/60 text-red-200',
+};
+
+const STATUS_LABELS: Record<WebhookDeliveryStatus, string> = {
+  pending: 'pending',
+  retrying: 'retrying',
+  delivered: 'delivered',
+  dead: 'dead letter',
+};
+
+const inputClasses = 'bg-gray-900 border border-gray-700 rounded-md px-3 py-2 text-sm text-white';
+
+interface WebhooksPanelProps {
+  policyName: (policyId: string) => string;
+}
+
+const WebhooksPanel: React.FC<WebhooksPanelProps> = ({ policyName }) => {
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [statusFilter, setStatusFilter] = useState<WebhookDeliveryStatus | ''>('');
+  const [newEndpoint, setNewEndpoint] = useState({ name: '', url: '' });
+  // The server returns a signing secret only on create and rotate, so it is shown once
+  const [revealedSecret, setRevealedSecret] = useState<{ endpointId: string; secret: string } | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const { showToast } = useToast();
+
+  const loadEndpoints = useCallback(async () => {
+    try {
+      setEndpoints(await getWebhookEndpoints());
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to load webhook endpoints.', 'error');
+    }
+  }, [showToast]);
+
+  const loadDeliveries = useCallback(async () => {
+    try {
+      setDeliveries(await getWebhookDeliveries(undefined, { status: statusFilter || null, limit: DELIVERY_LIMIT }));
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to load webhook deliveries.', 'error');
+    }
+  }, [statusFilter, showToast]);
+
+  useEffect(() => {
+    loadEndpoints();
+  }, [loadEndpoints]);
+
+  useEffect(() => {
+    loadDeliveries();
+  }, [loadDeliveries]);
+
+  // Shared busy/toast handling for the endpoint and delivery buttons
+  const runAction = async (id: string, action: () => Promise<unknown>, success: string) => {
+    setBusyId(id);
+    try {
+      await action();
+      showToast(success, 'success');
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Webhook update failed.', 'error');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await runAction('new', async () => {
+      const { endpoint, secret } = await saveWebhookEndpoint({ ...newEndpoint, enabled: true });
+      setNewEndpoint({ name: '', url: '' });
+      if (secret) setRevealedSecret({ endpointId: endpoint.id, secret });
+      await loadEndpoints();
+    }, 'Endpoint registered. Copy its signing secret into the receiver.');
+  };
+
+  const handleToggle = (endpoint: WebhookEndpoint) => runAction(endpoint.id, async () => {
+    await saveWebhookEndpoint({ ...endpoint, enabled: !endpoint.enabled });
+    await loadEndpoints();
+  }, `Endpoint ${endpoint.enabled ? 'disabled' : 'enabled'}.`);
+
+  const handleRotate = (endpoint: WebhookEndpoint) => {
+    if (!window.confirm(`Rotate the secret for "${endpoint.name}"? The receiver must be updated with the new one.`)) return;
+    runAction(endpoint.id, async () => {
+      const { secret } = await rotateWebhookSecret(endpoint.id);
+      setRevealedSecret({ endpointId: endpoint.id, secret });
+      await loadEndpoints();
+    }, 'Signing secret rotated.');
+  };
+
+  const handleDelete = (endpoint: WebhookEndpoint) => {
+    if (!window.confirm(`Delete "${endpoint.name}"? Policies using it will fail their webhook actions.`)) return;
+    runAction(endpoint.id, async () => {
+      await deleteWebhookEndpoint(endpoint.id);
+      await Promise.all([loadEndpoints(), loadDeliveries()]);
+    }, 'Endpoint deleted.');
+  };
+
+  const handleRedeliver = (delivery: WebhookDelivery) => runAction(delivery.id, async () => {
+    await redeliverWebhook(delivery.id);
+    await loadDeliveries();
+  }, 'Delivery queued; the server sends it on its next pass.');
+
+  const endpointName = (delivery: WebhookDelivery) =>
+    endpoints.find(endpoint => endpoint.id === delivery.endpointId)?.name || delivery.url;
+
+  return (
+    <div className="bg-gray-800/50 rounded-lg border border-gray-700 overflow-hidden">
+      <div className="p-6 space-y-4">
+        <div>
+          <h2 className="text-xl font-semibold text-white">Webhooks</h2>
+          <p className="text-sm text-gray-400">
+            Endpoints that "Call webhook" actions post to. Each body is signed with HMAC-SHA256 over
+            {' '}<code className="text-gray-300">timestamp.body</code>; failed deliveries are retried with backoff
+            and land in the dead-letter queue when retries run out.
+          </p>
+        </div>
+
+        <form onSubmit={handleCreate} className="flex flex-wrap gap-2">
+          <input
+            value={newEndpoint.name}
+            onChange={e => setNewEndpoint({ ...newEndpoint, name: e.target.value })}
+            placeholder="Name, e.g. ERP"
+            className={`${inputClasses} w-48`}
+          />
+          <input
+            type="url"
+            value={newEndpoint.url}
+            onChange={e => setNewEndpoint({ ...newEndpoint, url: e.target.value })}
+            placeholder="https://example.com/hooks/shopnexus"
+            className={`${inputClasses} flex-1 min-w-[16rem]`}
+          />
+          <button
+            type="submit"
+            disabled={busyId === 'new'}
+            className="px-4 py-2 rounded-md bg-cyan-600 text-white text-sm font-semibold hover:bg-cyan-500 disabled:bg-gray-600"
+          >
+            Add endpoint
+          </button>
+        </form>
+
+        {endpoints.length === 0 ? (
+          <p className="text-sm text-gray-400">No endpoints registered.</p>
+        ) : (
+          <ul className="space-y-2">
+            {endpoints.map(endpoint => (
+              <li key={endpoint.id} className="p-3 rounded-md border border-gray-700 bg-gray-900/40">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div>
+                    <p className="text-sm font-semibold text-white">{endpoint.name}</p>
+                    <p className="text-xs text-gray-400 break-all">{endpoint.url}</p>
+                  </div>
+                  <div className="flex items-center gap-3 text-xs">
+                    <label className="flex items-center gap-1 text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={endpoint.enabled}
+                        disabled={busyId === endpoint.id}
+                        onChange={() => handleToggle(endpoint)}
+                      />
+                      {endpoint.enabled ? 'On' : 'Off'}
+                    </label>
+                    <button onClick={() => handleRotate(endpoint)} disabled={busyId === endpoint.id} className="text-cyan-400 hover:text-cyan-300">
+                      Rotate secret
+                    </button>
+                    <button onClick={() => handleDelete(endpoint)} disabled={busyId === endpoint.id} className="text-red-400 hover:text-red-300">
+                      Delete
+                    </button>
+                  </div>
+                </div>
+                {revealedSecret?.endpointId === endpoint.id && (
+                  <div className="mt-2 flex items-start justify-between gap-2">
+                    <div>
+                      <p className="text-xs font-mono text-yellow-200 break-all">{revealedSecret.secret}</p>
+                      <p className="text-xs text-gray-500">Copy it now; it is not shown again.</p>
+                    </div>
+                    <button onClick={() => setRevealedSecret(null)} className="text-xs text-gray-400 hover:text-white">
+                      Done
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3 px-6 pb-4">
+        <h3 className="text-lg font-semibold text-white">Deliveries</h3>
+        <div className="flex items-center gap-2">
+          <select
+            value={statusFilter}
+            onChange={e => setStatusFilter(e.target.value as WebhookDeliveryStatus | '')}
+            className={inputClasses}
+            aria-label="Filter by delivery status"
+          >
+            <option value="">All deliveries</option>
+            {DELIVERY_STATUSES.map(status => <option key={status} value={status}>{STATUS_LABELS[status]}</option>)}
+          </select>
+          <button onClick={loadDeliveries} className="px-3 py-2 rounded-md bg-gray-700 text-white text-sm hover:bg-gray-600">
+            Refresh
+          </button>
+        </div>
+      </div>
+      {deliveries.length === 0 ? (
+        <p className="px-6 pb-6 text-sm text-gray-400">No deliveries match this filter.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-700">
+            <thead className="bg-gray-800">
+              <tr>
+                <th scope="col" className="py-3.5 pl-6 pr-3 text-left text-sm font-semibold text-gray-300">Time</th>
+                <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-300">Endpoint</th>
+                <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-300">Policy</th>
+                <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-300">Status</th>
+                <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-300">Last attempt</th>
+                <th scope="col" className="px-3 py-3.5" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700 bg-gray-900/50">
+              {deliveries.map(delivery => (
+                <tr key={delivery.id}>
+                  <td className="whitespace-nowrap py-3 pl-6 pr-3 text-sm text-gray-400">{new Date(delivery.createdAt).toLocaleString()}</td>
+                  <td className="px-3 py-3 text-sm text-white break-all">
+                    {endpointName(delivery)}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-3 text-sm text-gray-400">{delivery.policyId ? policyName(delivery.policyId) : '-'}</td>
+                  <td className="whitespace-nowrap px-3 py-3 text-sm">
+                    <span className={`px-2 py-0.5 rounded-full text-xs ${STATUS_STYLES[delivery.status] || STATUS_STYLES.pending}`}>
+                      {STATUS_LABELS[delivery.status] || delivery.status}
+                    </span>
+                    <span className="text-xs text-gray-500 ml-2">
+                      {delivery.attempts} attempt{delivery.attempts === 1 ? '' : 's'}
+                    </span>
+                    {delivery.status === 'retrying' && delivery.nextAttemptAt && (
+                      <span className="block text-xs text-gray-500">next {new Date(delivery.nextAttemptAt).toLocaleTimeString()}</span>
+                    )}
+                  </td>
+                  <td className="px-3 py-3 text-sm text-gray-400">
+                    {delivery.attempts === 0 ? 'Not sent yet' : (
+                      <>
+                        {delivery.lastStatusCode ?? 'no response'} · {delivery.lastLatencyMs ?? 0} ms
+                        {delivery.lastError && <span className="block text-xs text-red-300">{delivery.lastError}</span>}
+                      </>
+                    )}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-3 text-right text-sm">
+                    {delivery.status !== 'pending' && (
+                      <button
+                        onClick={() => handleRedeliver(delivery)}
+                        disabled={busyId === delivery.id}
+                        className="text-cyan-400 hover:text-cyan-300 disabled:text-gray-500"
+                      >
+                        Redeliver
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WebhooksPanel;
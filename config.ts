@@ -30,10 +30,20 @@ export const ENABLE_DAN_EXPERIMENT = (() => {
   return raw === '1' || raw === 'true' || raw === 'yes';
 })();
 
-export const DAN_KEY_SALT = resolveEnvValue('VITE_DAN_DERIVATION_SALT', 'dan-dev-salt');
-
 export const DAN_REALTIME_CHANNEL = resolveEnvValue('VITE_DAN_REALTIME_CHANNEL', 'dan_events');
 
+// 'browser' evaluates DAN policies in the tab that publishes the event;
+// 'server' leaves them to the policy worker (server/policyWorker.js)
+export const DAN_POLICY_EXECUTION = resolveEnvValue('VITE_DAN_POLICY_EXECUTION', 'browser').toLowerCase();
+
+// Origin of the Express server (auth endpoints); defaults to the Qdrant proxy URL
+// without its /qdrant suffix, i.e. '' (same origin) in production builds, where
+// server/index.js or, on Vercel, api/[...route].js serves /api
+export const SERVER_BASE_URL = (
+  resolveEnvValue('VITE_SERVER_URL') ||
+  (process.env.QDRANT_URL || 'http://localhost:8787/qdrant').replace(/\/qdrant\/?$/, '')
+).replace(/\/+$/, '');
+
 export const SUPABASE_BROWSER_URL = resolveEnvValue('VITE_SUPABASE_URL', resolveEnvValue('SUPABASE_URL', ''));
 export const SUPABASE_BROWSER_ANON_KEY = resolveEnvValue('VITE_SUPABASE_ANON_KEY', resolveEnvValue('SUPABASE_ANON_KEY', ''));
 
@@ -27,4 +27,5 @@ export interface InventoryItem {
   supplierId?: string | null;
   buyPrice?: number;
   sellPrice?: number;
+  tags?: string[];
 }
@@ -16,7 +16,7 @@ const COLLECTION_NAMES = (
   .filter(Boolean);
 const SAMPLE_LIMIT = Number(process.env.SAMPLE_LIMIT || 256);
 
-const client = new QdrantClient({ url: QDRANT_URL });
+const client = new QdrantClient({ url: QDRANT_URL, apiKey: process.env.QDRANT_API_KEY });
 
 const inferSchema = (value) => {
   if (typeof value === 'boolean') return 'bool';
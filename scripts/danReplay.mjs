@@ -0,0 +1,171 @@
+#!/usr/bin/env node
+/**
+ * DAN Replay Script
+ *
+ * Rebuilds the dan_inventory collection from the dan_events log, e.g. on a new
+ * node (server/danReplay.js). Events are verified before they are applied;
+ * progress and the rebuilt offers are kept in a checkpoint file, so an
+ * interrupted replay resumes where it stopped and a later run only reads new
+ * events. Before writing, it reports where the rebuilt offers differ from the
+ * live collection.
+ *
+ * Environment:
+ *   SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY (or SUPABASE_ANON_KEY)
+ *   QDRANT_URL   Qdrant (or proxy) holding dan_inventory
+ *
+ * Usage:
+ *   node scripts/danReplay.mjs                         # Replay, report differences and write dan_inventory
+ *   node scripts/danReplay.mjs --report-only           # Replay and report without writing
+ *   node scripts/danReplay.mjs --shop=<shopId>         # Only one shop's events and offers
+ *   node scripts/danReplay.mjs --reset                 # Ignore the checkpoint and start from the first event
+ *   node scripts/danReplay.mjs --checkpoint=path.json  # Checkpoint file (default .dan-replay-checkpoint.json)
+ *   node scripts/danReplay.mjs --report=diff.json      # Also write the full difference report
+ *   node scripts/danReplay.mjs --policies [--since=2025-01-01]
+ *                                                      # Also dry-run every enabled policy (default: last 7 days)
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { config } from 'dotenv';
+import { QdrantClient } from '@qdrant/js-client-rest';
+import { createServerSupabaseClient } from '../server/supabaseClient.js';
+import { createPolicyWorker } from '../server/policyWorker.js';
+import {
+  CHECKPOINT_VERSION,
+  createReplayCheckpoint,
+  diffDanInventory,
+  replayDanEvents,
+} from '../server/danReplay.js';
+import {
+  listDanInventoryPayloads,
+  removeDanInventoryOffer,
+  upsertDanInventoryOffer,
+} from '../server/danInventory.js';
+
+// Same env files as the server
+if (config({ path: '.env.proxy' }).error) {
+  config();
+}
+
+const args = process.argv.slice(2);
+const readArg = (name) => args.find(arg => arg.startsWith(`--${name}=`))?.split('=')[1];
+const shopId = readArg('shop') || null;
+const checkpointPath = readArg('checkpoint') || '.dan-replay-checkpoint.json';
+const reportPath = readArg('report') || null;
+const pageSize = Number(readArg('page-size') || '500');
+const reportOnly = args.includes('--report-only');
+const PREVIEW_LIMIT = 20;
+
+const loadCheckpoint = async () => {
+  if (args.includes('--reset')) return { ...createReplayCheckpoint(), shopId };
+  let saved;
+  try {
+    saved = JSON.parse(await readFile(checkpointPath, 'utf8'));
+  } catch (error) {
+    if (error.code === 'ENOENT') return { ...createReplayCheckpoint(), shopId };
+    throw new Error(`Could not read checkpoint ${checkpointPath}: ${error.message}`);
+  }
+  if (saved.version !== CHECKPOINT_VERSION) {
+    throw new Error(`Checkpoint ${checkpointPath} has version ${saved.version}; run with --reset.`);
+  }
+  if ((saved.shopId || null) !== shopId) {
+    throw new Error(`Checkpoint ${checkpointPath} was made for ${saved.shopId ? `shop ${saved.shopId}` : 'all shops'}; pass the same --shop or --reset.`);
+  }
+  return saved;
+};
+
+const saveCheckpoint = (checkpoint) => writeFile(checkpointPath, JSON.stringify(checkpoint));
+
+const printDiff = (diff) => {
+  console.log(`\nDifferences from the live collection: ${diff.missing.length} missing, ${diff.extra.length} extra, ${diff.changed.length} changed`);
+  diff.missing.slice(0, PREVIEW_LIMIT).forEach(offer => {
+    console.log(`  + ${offer.inventoryUuid} ${offer.productName} x${offer.quantity} (${offer.shopId})`);
+  });
+  diff.extra.slice(0, PREVIEW_LIMIT).forEach(offer => {
+    console.log(`  - ${offer.inventoryUuid} ${offer.productName || ''} x${offer.quantity ?? '?'} (${offer.shopId || 'unknown shop'})`);
+  });
+  diff.changed.slice(0, PREVIEW_LIMIT).forEach(entry => {
+    const fields = entry.fields.map(({ field, live, rebuilt }) => `${field}: ${JSON.stringify(live)} -> ${JSON.stringify(rebuilt)}`);
+    console.log(`  ~ ${entry.inventoryUuid} ${fields.join(', ')}`);
+  });
+  const hidden = Math.max(0, diff.missing.length - PREVIEW_LIMIT)
+    + Math.max(0, diff.extra.length - PREVIEW_LIMIT)
+    + Math.max(0, diff.changed.length - PREVIEW_LIMIT);
+  if (hidden) console.log(`  ... and ${hidden} more${reportPath ? '' : ' (use --report=<file> for the full list)'}`);
+};
+
+const runPolicyDryRuns = async (supabase) => {
+  const worker = createPolicyWorker(supabase);
+  const since = new Date(readArg('since') || Date.now() - 7 * 24 * 60 * 60 * 1000);
+  let query = supabase.from('dan_policies').select('id, name, shop_id').eq('enabled', true);
+  if (shopId) query = query.eq('shop_id', shopId);
+  const { data, error } = await query;
+  if (error) throw error;
+  const policies = data || [];
+  console.log(`\nPolicy dry runs since ${since.toISOString()} (${policies.length} policies):`);
+  for (const row of policies) {
+    try {
+      const report = await worker.dryRun(row.id, { since });
+      console.log(`  ${row.name} (${row.shop_id}): ${report.eventsScanned} events, ${report.triggered} would trigger, ${report.suppressed} suppressed`);
+    } catch (error) {
+      console.log(`  ${row.name} (${row.shop_id}): ${error.message}`);
+    }
+  }
+};
+
+const main = async () => {
+  const supabase = createServerSupabaseClient();
+  if (!supabase) throw new Error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY (or SUPABASE_ANON_KEY) must be set.');
+  const qdrantUrl = process.env.QDRANT_URL || process.env.QDRANT_PROXY_URL || 'http://localhost:8787/qdrant';
+  const client = new QdrantClient({ url: qdrantUrl, apiKey: process.env.QDRANT_API_KEY });
+
+  const checkpoint = await loadCheckpoint();
+  console.log(checkpoint.cursor
+    ? `Resuming after ${checkpoint.cursor.createdAt} (${checkpoint.processed} events already replayed)`
+    : `Replaying dan_events${shopId ? ` for shop ${shopId}` : ''} from the beginning`);
+
+  await replayDanEvents(supabase, {
+    checkpoint,
+    shopId,
+    pageSize,
+    onPage: async (current) => {
+      await saveCheckpoint(current);
+      console.log(`  ${current.processed} events replayed, ${Object.keys(current.offers).length} open offers`);
+    },
+  });
+  const rejected = Object.entries(checkpoint.rejected);
+  console.log(`Replayed ${checkpoint.processed} events (${checkpoint.applied} applied to offers).`);
+  if (rejected.length) {
+    console.log(`Rejected by verification: ${rejected.map(([reason, count]) => `${reason} ${count}`).join(', ')}`);
+  }
+
+  const live = (await listDanInventoryPayloads(client)).filter(payload => !shopId || payload.shopId === shopId);
+  const diff = diffDanInventory(checkpoint.offers, live);
+  printDiff(diff);
+  if (reportPath) {
+    await writeFile(reportPath, JSON.stringify({
+      generatedAt: new Date().toISOString(),
+      shopId,
+      cursor: checkpoint.cursor,
+      missing: diff.missing.map(({ vector, ...offer }) => offer),
+      extra: diff.extra,
+      changed: diff.changed,
+    }, null, 2));
+    console.log(`Full report written to ${reportPath}`);
+  }
+
+  if (!reportOnly) {
+    const toUpsert = [...diff.missing, ...diff.changed.map(entry => checkpoint.offers[entry.inventoryUuid])];
+    for (const offer of toUpsert) await upsertDanInventoryOffer(client, offer);
+    for (const offer of diff.extra) await removeDanInventoryOffer(client, offer.inventoryUuid);
+    console.log(`\nWrote ${toUpsert.length} offers and removed ${diff.extra.length} from dan_inventory.`);
+  }
+
+  if (args.includes('--policies')) {
+    await runPolicyDryRuns(supabase);
+  }
+};
+
+main().catch((error) => {
+  console.error(`DAN replay failed: ${error.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,61 @@
+#!/usr/bin/env node
+/**
+ * Expiry Sweep Script
+ *
+ * Flips inventory lots past their expiration date to EXPIRED, writes them off
+ * to the stock movement ledger and lists upcoming markdown candidates.
+ * Intended for cron; the server can also run it on an interval
+ * (EXPIRY_SWEEP_INTERVAL_MINUTES).
+ *
+ * Usage:
+ *   node scripts/expirySweep.mjs                       # Sweep all shops
+ *   node scripts/expirySweep.mjs --shop=<shopId>       # Sweep a single shop
+ *   node scripts/expirySweep.mjs --dry-run             # Report without writing
+ *   node scripts/expirySweep.mjs --shop=<shopId> --markdown-days=3  # Also list markdown candidates
+ */
+
+import { QdrantClient } from '@qdrant/js-client-rest';
+import { runExpirySweep, listMarkdownCandidates } from '../server/expirySweep.js';
+
+// Configuration
+const QDRANT_URL =
+  process.env.QDRANT_URL ||
+  process.env.QDRANT_PROXY_URL ||
+  'http://localhost:8787/qdrant';
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const readArg = (name) => args.find(arg => arg.startsWith(`--${name}=`))?.split('=')[1];
+const shopId = readArg('shop') || null;
+const markdownDays = readArg('markdown-days');
+const dryRun = args.includes('--dry-run');
+
+const client = new QdrantClient({ url: QDRANT_URL, apiKey: process.env.QDRANT_API_KEY });
+
+const main = async () => {
+  console.log(`Expiry sweep against ${QDRANT_URL} (${shopId || 'all shops'}${dryRun ? ', dry run' : ''})`);
+
+  const result = await runExpirySweep(client, { shopId, dryRun });
+  result.lots.forEach(lot => {
+    console.log(`  ${lot.inventoryUuid} ${lot.productId}: ${lot.quantity} units, $${lot.costOfGoodsLoss.toFixed(2)}`);
+  });
+  const lotCount = dryRun ? result.lots.length : result.expiredLots;
+  console.log(`${dryRun ? 'Would write off' : 'Wrote off'} ${lotCount} lot(s).`);
+
+  if (markdownDays !== undefined) {
+    if (!shopId) throw new Error('--markdown-days requires --shop=<shopId>');
+    const candidates = await listMarkdownCandidates(client, { shopId, withinDays: Number(markdownDays) });
+    console.log(`\nMarkdown candidates (within ${markdownDays} days): ${candidates.length}`);
+    candidates.forEach(candidate => {
+      console.log(
+        `  ${candidate.productId} exp ${candidate.expirationDate} (${candidate.daysUntilExpiry}d): ` +
+        `$${candidate.currentSellPrice.toFixed(2)} -> $${candidate.suggestedSellPrice.toFixed(2)}`,
+      );
+    });
+  }
+};
+
+main().catch((error) => {
+  console.error(`Expiry sweep failed: ${error.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,101 @@
+#!/usr/bin/env node
+/**
+ * DAN Policy Worker Script
+ *
+ * Runs the policy worker (server/policyWorker.js) on its own: subscribes to
+ * dan_events, evaluates dan_policies and writes dan_policy_runs, and sends
+ * queued webhook deliveries (retries included). The server
+ * can also run it in-process (DAN_POLICY_WORKER_ENABLED=true).
+ *
+ * Environment:
+ *   SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY (or SUPABASE_ANON_KEY)
+ *   DAN_WORKER_PRIVATE_KEY   Ed25519 PKCS#8 key (base64) for create_dan_event actions
+ *   DAN_POLICY_WORKER_LOOKBACK_MINUTES  How far back to catch up on start (default 60)
+ *   QDRANT_URL               Qdrant (or proxy) for notify and tag_inventory actions
+ *   SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, NOTIFY_FROM_EMAIL  Email notifications (optional)
+ *   APP_BASE_URL             Used for links in notification emails
+ *
+ * Usage:
+ *   node scripts/policyWorker.mjs                 # Run until stopped
+ *   node scripts/policyWorker.mjs --once          # Catch up on recent events and due webhooks, then exit
+ *   node scripts/policyWorker.mjs --generate-key  # Print a new DAN_WORKER_PRIVATE_KEY
+ *   node scripts/policyWorker.mjs --dry-run --policy=<policyId> --since=2025-01-01 [--until=...]
+ *                                                 # Report which runs a policy would have fired
+ */
+
+import { config } from 'dotenv';
+import { QdrantClient } from '@qdrant/js-client-rest';
+import { createServerSupabaseClient } from '../server/supabaseClient.js';
+import { createPolicyWorker } from '../server/policyWorker.js';
+import { loadSigningKey, generateSigningKey } from '../server/danSigning.js';
+import { createMailer } from '../server/mailer.js';
+
+// Same env files as the server
+if (config({ path: '.env.proxy' }).error) {
+  config();
+}
+
+const args = process.argv.slice(2);
+const readArg = (name) => args.find(arg => arg.startsWith(`--${name}=`))?.split('=')[1];
+const lookbackMinutes = Number(process.env.DAN_POLICY_WORKER_LOOKBACK_MINUTES || '60');
+
+const main = async () => {
+  if (args.includes('--generate-key')) {
+    console.log(`DAN_WORKER_PRIVATE_KEY=${await generateSigningKey()}`);
+    return;
+  }
+
+  const supabase = createServerSupabaseClient();
+  if (!supabase) throw new Error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY (or SUPABASE_ANON_KEY) must be set.');
+
+  const signingKey = process.env.DAN_WORKER_PRIVATE_KEY
+    ? await loadSigningKey(process.env.DAN_WORKER_PRIVATE_KEY)
+    : null;
+  if (signingKey) {
+    console.log(`Policy worker key fingerprint: ${signingKey.fingerprint}`);
+  } else {
+    console.log('DAN_WORKER_PRIVATE_KEY not set; create_dan_event actions will fail.');
+  }
+
+  const qdrantUrl = process.env.QDRANT_URL || process.env.QDRANT_PROXY_URL || 'http://localhost:8787/qdrant';
+  const mailer = createMailer();
+  if (!mailer) console.log('SMTP_HOST not set; notify actions will only reach in-app inboxes.');
+
+  const worker = createPolicyWorker(supabase, {
+    signingKey,
+    qdrantClient: new QdrantClient({ url: qdrantUrl, apiKey: process.env.QDRANT_API_KEY }),
+    mailer,
+    appBaseUrl: process.env.APP_BASE_URL || null,
+  });
+  if (args.includes('--dry-run')) {
+    const policyId = readArg('policy');
+    if (!policyId) throw new Error('--dry-run needs --policy=<policyId>.');
+    const since = new Date(readArg('since') || Date.now() - 7 * 24 * 60 * 60 * 1000);
+    const until = readArg('until') ? new Date(readArg('until')) : new Date();
+    const report = await worker.dryRun(policyId, { since, until });
+    report.results.forEach(result => {
+      console.log(`  ${result.createdAt} ${result.eventId} ${result.outcome}${result.dedupKey ? ` (${result.dedupKey})` : ''}`);
+    });
+    console.log(`${report.eventsScanned} events, ${report.triggered} would trigger, ${report.suppressed} suppressed by cooldown.`);
+    process.exit(0);
+  }
+  if (args.includes('--once')) {
+    await worker.backfill(new Date(Date.now() - lookbackMinutes * 60 * 1000));
+    const deliveries = await worker.webhooks.processDue();
+    console.log(`Processed events from the last ${lookbackMinutes} minutes and ${deliveries.length} due webhook deliveries.`);
+    process.exit(0);
+  }
+
+  const stop = worker.start({ lookbackMinutes });
+  const shutdown = async () => {
+    await stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+};
+
+main().catch((error) => {
+  console.error(`Policy worker failed: ${error.message}`);
+  process.exit(1);
+});
@@ -5,7 +5,7 @@ import { v4 as uuidv4 } from 'uuid';
 const SHOP_ID = process.argv[2] || 'c6172524-3288-407a-b695-66c1b304b2f0';
 const QDRANT_URL = process.env.QDRANT_URL || process.env.QDRANT_PROXY_URL || 'http://localhost:8787/qdrant';
 
-const client = new QdrantClient({ url: QDRANT_URL });
+const client = new QdrantClient({ url: QDRANT_URL, apiKey: process.env.QDRANT_API_KEY });
 const placeholderVector = Array(8).fill(0.25);
 
 const scrollItemsForShop = async () => {
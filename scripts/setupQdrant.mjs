@@ -37,6 +37,15 @@ const BASE_COLLECTIONS = [
   'visual',
   'marketplace',
   'dan_inventory',
+  'orders',
+  'proposals',
+  'deliveries',
+  'stock_movements',
+  'promotions',
+  'reorder_settings',
+  'purchase_orders',
+  'notifications',
+  'notification_subscriptions',
 ];
 
 // Payload index definitions based on architecture guide
@@ -76,6 +85,7 @@ const COLLECTION_PAYLOAD_INDEXES = {
     status: { type: 'keyword' },
     quantity: { type: 'integer' },
     expiration: { type: 'keyword' },
+    tags: { type: 'keyword' },
   },
   batches: {
     batchId: { type: 'keyword' },
@@ -83,11 +93,15 @@ const COLLECTION_PAYLOAD_INDEXES = {
     supplierId: { type: 'keyword' },
     deliveryDate: { type: 'keyword' },
     inventoryDate: { type: 'keyword' },
+    status: { type: 'keyword' },
+    purchaseOrderId: { type: 'keyword' },
   },
   sales: {
     saleId: { type: 'keyword' },
     shopId: { type: 'keyword' },
     timestamp: { type: 'keyword' },
+    idempotencyKey: { type: 'keyword' },
+    status: { type: 'keyword' },
   },
   customers: {
     customerId: { type: 'keyword' },
@@ -108,6 +122,8 @@ const COLLECTION_PAYLOAD_INDEXES = {
     listingId: { type: 'keyword' },
     shopId: { type: 'keyword' },
     productId: { type: 'keyword' },
+    quantity: { type: 'integer' },
+    version: { type: 'integer' },
   },
   dan_inventory: {
     inventoryUuid: { type: 'keyword' },
@@ -117,6 +133,72 @@ const COLLECTION_PAYLOAD_INDEXES = {
     locationBucket: { type: 'keyword' },
     shareScope: { type: 'keyword' },
     expirationDate: { type: 'keyword' },
+    signerFingerprint: { type: 'keyword' },
+  },
+  orders: {
+    orderId: { type: 'keyword' },
+    requesterShopId: { type: 'keyword' },
+    productName: { type: 'keyword' },
+    status: { type: 'keyword' },
+    createdAt: { type: 'keyword' },
+  },
+  proposals: {
+    proposalId: { type: 'keyword' },
+    orderId: { type: 'keyword' },
+    supplierShopId: { type: 'keyword' },
+    status: { type: 'keyword' },
+  },
+  deliveries: {
+    deliveryId: { type: 'keyword' },
+    orderId: { type: 'keyword' },
+    proposalId: { type: 'keyword' },
+    driverId: { type: 'keyword' },
+    status: { type: 'keyword' },
+  },
+  stock_movements: {
+    movementId: { type: 'keyword' },
+    shopId: { type: 'keyword' },
+    inventoryUuid: { type: 'keyword' },
+    productId: { type: 'keyword' },
+    reason: { type: 'keyword' },
+    referenceId: { type: 'keyword' },
+    createdAt: { type: 'keyword' },
+  },
+  promotions: {
+    promotionId: { type: 'keyword' },
+    shopId: { type: 'keyword' },
+    type: { type: 'keyword' },
+    scope: { type: 'keyword' },
+    targetId: { type: 'keyword' },
+    productId: { type: 'keyword' },
+    active: { type: 'bool' },
+    startsAt: { type: 'keyword' },
+    endsAt: { type: 'keyword' },
+  },
+  reorder_settings: {
+    shopId: { type: 'keyword' },
+    productId: { type: 'keyword' },
+    supplierId: { type: 'keyword' },
+  },
+  purchase_orders: {
+    purchaseOrderId: { type: 'keyword' },
+    shopId: { type: 'keyword' },
+    supplierId: { type: 'keyword' },
+    status: { type: 'keyword' },
+    batchId: { type: 'keyword' },
+    createdAt: { type: 'keyword' },
+  },
+  notifications: {
+    notificationId: { type: 'keyword' },
+    shopId: { type: 'keyword' },
+    userId: { type: 'keyword' },
+    policyId: { type: 'keyword' },
+    read: { type: 'bool' },
+    createdAt: { type: 'keyword' },
+  },
+  notification_subscriptions: {
+    shopId: { type: 'keyword' },
+    userId: { type: 'keyword' },
   },
 };
 
@@ -128,7 +210,7 @@ const targetCollections = collectionsArg
   ? collectionsArg.split('=')[1].split(',').map(c => c.trim())
   : BASE_COLLECTIONS;
 
-const client = new QdrantClient({ url: QDRANT_URL });
+const client = new QdrantClient({ url: QDRANT_URL, apiKey: process.env.QDRANT_API_KEY });
 
 // Color output helpers
 const colors = {
@@ -0,0 +1,90 @@
+#!/usr/bin/env node
+/**
+ * Webhook Receiver Script
+ *
+ * A local HTTP endpoint for testing call_webhook deliveries: verifies the
+ * X-ShopNexus-Signature header against WEBHOOK_SECRET and prints each body.
+ * Start the server with WEBHOOK_ALLOW_LOOPBACK=true (development only), then
+ * register http://localhost:<port>/ as an endpoint in the Policy Center and
+ * copy the signing secret it shows here. --fail-first makes the first N requests fail
+ * so retries and the dead-letter queue can be watched end to end.
+ *
+ * Environment:
+ *   WEBHOOK_SECRET  The endpoint's signing secret (unsigned requests are accepted without it)
+ *
+ * Usage:
+ *   node scripts/webhookReceiver.mjs                    # Listen on port 4000
+ *   node scripts/webhookReceiver.mjs --port=4001
+ *   node scripts/webhookReceiver.mjs --fail-first=3     # Answer 500 to the first 3 requests
+ *   node scripts/webhookReceiver.mjs --status=410       # Answer every request with 410
+ */
+
+import http from 'node:http';
+import {
+  DELIVERY_HEADER,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  verifyWebhookSignature,
+} from '../server/webhooks.js';
+
+const args = process.argv.slice(2);
+const readArg = (name) => args.find(arg => arg.startsWith(`--${name}=`))?.split('=')[1];
+const port = Number(readArg('port') || process.env.PORT || '4000');
+const failFirst = Number(readArg('fail-first') || '0');
+const fixedStatus = readArg('status') ? Number(readArg('status')) : null;
+const secret = process.env.WEBHOOK_SECRET || null;
+
+let received = 0;
+
+const server = http.createServer((req, res) => {
+  if (req.method !== 'POST') {
+    res.writeHead(405).end();
+    return;
+  }
+  const chunks = [];
+  req.on('data', (chunk) => chunks.push(chunk));
+  req.on('end', () => {
+    received += 1;
+    const body = Buffer.concat(chunks).toString('utf8');
+    const deliveryId = req.headers[DELIVERY_HEADER.toLowerCase()] || '-';
+    const signature = req.headers[SIGNATURE_HEADER.toLowerCase()];
+
+    let status = 200;
+    let note = signature ? 'signature valid' : 'unsigned';
+    if (secret) {
+      const verification = verifyWebhookSignature(secret, {
+        signature,
+        timestamp: req.headers[TIMESTAMP_HEADER.toLowerCase()],
+        body,
+      });
+      if (!verification.valid) {
+        status = 401;
+        note = verification.reason;
+      }
+    }
+    if (status === 200 && received <= failFirst) {
+      status = 500;
+      note = `failing request ${received} of ${failFirst}`;
+    } else if (status === 200 && fixedStatus) {
+      status = fixedStatus;
+    }
+
+    console.log(`[${new Date().toISOString()}] #${received} delivery ${deliveryId} -> ${status} (${note})`);
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log(body);
+    }
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ received: status < 300 }));
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Webhook receiver listening on http://localhost:${port}/`);
+  if (!secret) console.log('WEBHOOK_SECRET not set; signatures are not checked.');
+});
+
+const shutdown = () => server.close(() => process.exit(0));
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
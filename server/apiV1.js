@@ -0,0 +1,667 @@
+/**
+ * REST API v1 (server-side)
+ *
+ * Versioned JSON API over the same Qdrant collections the browser services
+ * write, for integrations without a browser (POS hardware, ERP, scripts).
+ * Writes follow services/qdrant/services/*: same payloads, point IDs, stock
+ * compare-and-set and movement ledger.
+ *
+ * Responses are { data } or { data, pagination: { limit, nextCursor } }; errors
+ * are { error: { code, message, details? } }. List endpoints take ?limit= (1-100)
+ * and ?cursor= (the previous page's nextCursor).
+ */
+
+import express from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { validateSchema } from './schema.js';
+import { composePointId, retrievePayload, upsertPoint, scrollAll } from './qdrantPoints.js';
+import { mapItemPayload, getItemPayload, compareAndSetStockQuantity, recordStockMovements, createLots } from './inventory.js';
+import { recordSale, mapSalePayload } from './sales.js';
+import { safeEqual, verifyAccessToken } from './auth.js';
+import { canAccessShop, isAdminSession } from './qdrantAccess.js';
+import { sessionHasPermission } from './staff.js';
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+const API_ACTOR = 'api:v1';
+
+export class ApiError extends Error {
+  constructor(status, code, message, details) {
+    super(message);
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+const notFound = (resource) => new ApiError(404, 'not_found', `${resource} not found`);
+
+// Statuses for errors raised by server/sales.js
+const SALE_ERROR_STATUS = {
+  insufficient_stock: 409,
+  sale_in_progress: 409,
+  stock_conflict: 409,
+};
+
+// ===== SCHEMAS =====
+
+const dateString = { type: 'string', format: 'date' };
+const money = { type: 'number', minimum: 0 };
+const optionalId = { type: ['string', 'null'], minLength: 1 };
+
+const productCreateSchema = {
+  type: 'object',
+  required: ['name', 'manufacturer', 'category'],
+  additionalProperties: false,
+  properties: {
+    name: { type: 'string', minLength: 1, maxLength: 200 },
+    manufacturer: { type: 'string', maxLength: 200 },
+    category: { type: 'string', maxLength: 100 },
+    description: { type: 'string', maxLength: 2000 },
+    defaultSupplierId: optionalId,
+  },
+};
+
+const productUpdateSchema = { ...productCreateSchema, required: [] };
+
+const itemCreateSchema = {
+  type: 'object',
+  required: ['productId', 'quantity', 'buyPrice', 'expirationDate'],
+  additionalProperties: false,
+  properties: {
+    productId: { type: 'string', minLength: 1 },
+    quantity: { type: 'integer', minimum: 1 },
+    buyPrice: money,
+    sellPrice: money,
+    expirationDate: dateString,
+    location: { type: 'string', maxLength: 100 },
+    supplierId: optionalId,
+  },
+};
+
+const itemUpdateSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    quantity: { type: 'integer', minimum: 0 },
+    sellPrice: money,
+    location: { type: ['string', 'null'], maxLength: 100 },
+    note: { type: 'string', maxLength: 500 },
+    expectedUpdatedAt: { type: 'string', format: 'date-time' },
+  },
+};
+
+const batchCreateSchema = {
+  type: 'object',
+  required: ['deliveryDate', 'lineItems'],
+  additionalProperties: false,
+  properties: {
+    supplierId: optionalId,
+    deliveryDate: dateString,
+    invoiceNumber: { type: 'string', maxLength: 100 },
+    status: { type: 'string', enum: ['EXPECTED', 'RECEIVED'] },
+    lineItems: {
+      type: 'array',
+      minItems: 1,
+      maxItems: 500,
+      items: {
+        type: 'object',
+        required: ['productId', 'quantity', 'cost'],
+        additionalProperties: false,
+        properties: {
+          productId: { type: 'string', minLength: 1 },
+          productName: { type: 'string', maxLength: 200 },
+          quantity: { type: 'integer', minimum: 1 },
+          cost: money,
+          expirationDate: dateString,
+        },
+      },
+    },
+  },
+};
+
+const saleCreateSchema = {
+  type: 'object',
+  required: ['lines'],
+  additionalProperties: false,
+  properties: {
+    idempotencyKey: { type: 'string', minLength: 1, maxLength: 200 },
+    lines: {
+      type: 'array',
+      minItems: 1,
+      maxItems: 200,
+      items: {
+        type: 'object',
+        required: ['productId', 'quantity'],
+        additionalProperties: false,
+        properties: {
+          productId: { type: 'string', minLength: 1 },
+          quantity: { type: 'integer', minimum: 1 },
+        },
+      },
+    },
+  },
+};
+
+const supplierCreateSchema = {
+  type: 'object',
+  required: ['name'],
+  additionalProperties: false,
+  properties: {
+    name: { type: 'string', minLength: 1, maxLength: 200 },
+    contactEmail: { type: 'string', maxLength: 200 },
+  },
+};
+
+const listingCreateSchema = {
+  type: 'object',
+  required: ['productId', 'quantity', 'price'],
+  additionalProperties: false,
+  properties: {
+    productId: { type: 'string', minLength: 1 },
+    productName: { type: 'string', maxLength: 200 },
+    quantity: { type: 'integer', minimum: 1 },
+    price: { type: 'number', minimum: 0.01 },
+  },
+};
+
+const validateBody = (schema, body) => {
+  const errors = validateSchema(schema, body ?? {});
+  if (errors.length > 0) throw new ApiError(400, 'validation_failed', 'Request body is invalid', errors);
+  return body;
+};
+
+// ===== PAGINATION =====
+
+const encodeCursor = (offset) => (offset === undefined || offset === null
+  ? null
+  : Buffer.from(JSON.stringify(offset)).toString('base64url'));
+
+const decodeCursor = (cursor) => {
+  if (cursor === undefined) return undefined;
+  try {
+    return JSON.parse(Buffer.from(String(cursor), 'base64url').toString('utf8'));
+  } catch {
+    throw new ApiError(400, 'invalid_cursor', 'cursor is not valid');
+  }
+};
+
+const parseLimit = (value) => {
+  if (value === undefined) return DEFAULT_PAGE_SIZE;
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new ApiError(400, 'invalid_limit', `limit must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+  }
+  return limit;
+};
+
+const scrollPage = async (client, collection, query, filter) => {
+  const limit = parseLimit(query.limit);
+  const response = await client.scroll(collection, {
+    with_payload: true,
+    limit,
+    offset: decodeCursor(query.cursor),
+    filter,
+  });
+  return {
+    points: response?.points ?? [],
+    pagination: { limit, nextCursor: encodeCursor(response?.next_page_offset) },
+  };
+};
+
+const sendPage = (res, { points, pagination }, mapPoint) => {
+  res.json({ data: points.map(mapPoint), pagination });
+};
+
+// ===== MAPPERS =====
+
+const mapShop = (payload) => ({
+  id: payload.shopId,
+  name: payload.name,
+  contactEmail: payload.contactEmail || payload.contact || null,
+});
+
+const mapProduct = (payload) => ({
+  id: payload.productId,
+  name: payload.name,
+  manufacturer: payload.manufacturer || '',
+  category: payload.category || '',
+  description: payload.description || '',
+  defaultSupplierId: payload.defaultSupplierId || null,
+  shopId: payload.shopId || null,
+  images: payload.images || [],
+});
+
+const mapBatch = (payload) => ({
+  id: payload.batchId,
+  shopId: payload.shopId,
+  supplierId: payload.supplierId || null,
+  deliveryDate: payload.deliveryDate,
+  inventoryDate: payload.inventoryDate || null,
+  invoiceNumber: payload.invoiceNumber || null,
+  lineItems: payload.lineItems || [],
+  status: payload.status || 'RECEIVED',
+  purchaseOrderId: payload.purchaseOrderId || null,
+  receivedAt: payload.receivedAt || null,
+  createdAt: payload.createdAt,
+});
+
+const mapSupplier = (payload) => ({
+  id: payload.supplierId,
+  shopId: payload.shopId || null,
+  linkedUserId: payload.linkedUserId || null,
+  name: payload.name,
+  contactEmail: payload.contactEmail || payload.contact || null,
+});
+
+const mapListing = (payload) => ({
+  id: Number(payload.listingId),
+  shopId: payload.shopId,
+  shopName: payload.shopName || null,
+  productId: payload.productId,
+  productName: payload.productName,
+  quantity: Number(payload.quantity) || 0,
+  price: Number(payload.price) || 0,
+  createdAt: payload.createdAt || null,
+});
+
+const shopFilter = (shopId, ...conditions) => ({ must: [{ key: 'shopId', match: { value: shopId } }, ...conditions] });
+
+const requireProducts = async (client, productIds) => {
+  const unique = [...new Set(productIds)];
+  const points = await scrollAll(client, 'products', { must: [{ key: 'productId', match: { any: unique } }] });
+  const found = new Map(points.map((point) => [point.payload?.productId, point.payload]));
+  const missing = unique.filter((productId) => !found.has(productId));
+  if (missing.length > 0) {
+    throw new ApiError(400, 'validation_failed', 'Unknown products', missing.map((productId) => ({ path: 'productId', message: `${productId} does not exist` })));
+  }
+  return found;
+};
+
+// Shop routes any session may call for another shop; customers may also browse stock and check out
+const isOpenShopRoute = (req) => req.method === 'GET' && /^\/shops\/[^/]+(\/listings)?$/.test(req.path);
+const isStorefrontRoute = (req) =>
+  (req.method === 'GET' && /^\/shops\/[^/]+\/items(\/[^/]+)?$/.test(req.path)) ||
+  (req.method === 'POST' && /^\/shops\/[^/]+\/sales$/.test(req.path));
+
+// Staff sessions need their role's permission (server/staff.js); the API key is not limited
+const requirePermission = (req, permission) => {
+  if (req.session && !sessionHasPermission(req.session, permission)) {
+    throw new ApiError(403, 'forbidden', `Your staff role does not allow this (needs ${permission})`);
+  }
+};
+
+// Lots as the caller sees them: purchase prices are for the shop's own sessions with viewFinancials and the API key
+const itemMapperFor = (req) => {
+  const ownShop = !req.session || (canAccessShop(req.session, req.params.shopId) && sessionHasPermission(req.session, 'viewFinancials'));
+  return (payload, pointId) => {
+    const item = mapItemPayload(payload, pointId);
+    if (ownShop) return item;
+    const { buyPrice, ...storefrontItem } = item;
+    return storefrontItem;
+  };
+};
+
+// ===== ROUTER =====
+
+export const createApiV1Router = (client, { apiKey, authSecret } = {}) => {
+  const router = express.Router();
+
+  // A session token (server/auth.js) or the shared key: Authorization: Bearer <token|key> or x-api-key
+  router.use((req, _res, next) => {
+    if (!apiKey && !authSecret) return next();
+    const header = req.get('authorization') || '';
+    const provided = header.startsWith('Bearer ') ? header.slice(7) : req.get('x-api-key');
+    if (apiKey && provided && safeEqual(provided, apiKey)) return next();
+    const claims = authSecret ? verifyAccessToken(authSecret, provided) : null;
+    if (!claims) {
+      return next(new ApiError(401, 'unauthorized', apiKey ? 'A valid API key or session token is required' : 'A valid session token is required'));
+    }
+    req.session = claims;
+    next();
+  });
+
+  // Every /shops/:shopId route needs the shop to exist; sessions are limited to their own shop
+  router.param('shopId', async (req, _res, next, shopId) => {
+    if (req.session && !isOpenShopRoute(req) && !canAccessShop(req.session, shopId, { storefront: isStorefrontRoute(req) })) {
+      return next(new ApiError(403, 'forbidden', 'Not allowed for this shop'));
+    }
+    try {
+      const shop = await retrievePayload(client, 'shops', composePointId('shops', shopId));
+      if (!shop) return next(notFound('Shop'));
+      req.shop = shop;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // ----- Shops -----
+
+  router.get('/shops', async (req, res) => {
+    sendPage(res, await scrollPage(client, 'shops', req.query), (point) => mapShop(point.payload));
+  });
+
+  router.get('/shops/:shopId', (req, res) => {
+    res.json({ data: mapShop(req.shop) });
+  });
+
+  // ----- Products (shared catalog) -----
+
+  router.use('/products', (req, _res, next) => {
+    if (req.method !== 'GET' && req.session && !req.session.roles?.shop && !isAdminSession(req.session)) {
+      return next(new ApiError(403, 'forbidden', 'Only shops can change the catalog'));
+    }
+    next();
+  });
+
+  router.get('/products', async (req, res) => {
+    const must = [];
+    if (req.query.category) must.push({ key: 'category', match: { value: String(req.query.category) } });
+    if (req.query.manufacturer) must.push({ key: 'manufacturer', match: { value: String(req.query.manufacturer) } });
+    const page = await scrollPage(client, 'products', req.query, must.length ? { must } : undefined);
+    sendPage(res, page, (point) => mapProduct(point.payload));
+  });
+
+  router.get('/products/:productId', async (req, res) => {
+    const payload = await retrievePayload(client, 'products', composePointId('products', req.params.productId));
+    if (!payload) throw notFound('Product');
+    res.json({ data: mapProduct(payload) });
+  });
+
+  router.post('/products', async (req, res) => {
+    requirePermission(req, 'editCatalog');
+    const body = validateBody(productCreateSchema, req.body);
+    const productId = uuidv4();
+    const payload = {
+      productId,
+      name: body.name.trim(),
+      manufacturer: body.manufacturer.trim(),
+      category: body.category.trim(),
+      description: body.description?.trim() || '',
+      defaultSupplierId: body.defaultSupplierId || null,
+      shopId: req.session?.shopId || null,
+      images: [],
+      audit: [{ userId: API_ACTOR, shopId: req.session?.shopId || null, action: 'create', timestamp: new Date().toISOString() }],
+    };
+    await upsertPoint(client, 'products', productId, payload);
+    res.status(201).json({ data: mapProduct(payload) });
+  });
+
+  router.patch('/products/:productId', async (req, res) => {
+    requirePermission(req, 'editCatalog');
+    const body = validateBody(productUpdateSchema, req.body);
+    const pointId = composePointId('products', req.params.productId);
+    const existing = await retrievePayload(client, 'products', pointId);
+    if (!existing) throw notFound('Product');
+    // Sessions change only their shops' entries; the API key and admins change any
+    if (req.session && !canAccessShop(req.session, existing.shopId)) {
+      throw new ApiError(403, 'forbidden', 'Only the shop that created this product can change it');
+    }
+
+    const changes = Object.fromEntries(Object.entries(body).map(([key, value]) => [key, typeof value === 'string' ? value.trim() : value]));
+    const audit = [...(existing.audit || []), { userId: API_ACTOR, shopId: req.session?.shopId || null, action: 'update', timestamp: new Date().toISOString() }];
+    await client.setPayload('products', { wait: true, payload: { ...changes, audit }, points: [pointId] });
+    res.json({ data: mapProduct({ ...existing, ...changes }) });
+  });
+
+  // ----- Items (stock lots) -----
+
+  router.get('/shops/:shopId/items', async (req, res) => {
+    const conditions = [];
+    if (req.query.productId) conditions.push({ key: 'productId', match: { value: String(req.query.productId) } });
+    if (req.query.status) conditions.push({ key: 'status', match: { value: String(req.query.status) } });
+    const page = await scrollPage(client, 'items', req.query, shopFilter(req.params.shopId, ...conditions));
+    const mapItem = itemMapperFor(req);
+    sendPage(res, page, (point) => mapItem(point.payload, point.id));
+  });
+
+  router.get('/shops/:shopId/items/:inventoryUuid', async (req, res) => {
+    const payload = await getItemPayload(client, req.params.inventoryUuid).catch(() => null);
+    if (!payload || payload.shopId !== req.params.shopId) throw notFound('Item');
+    res.json({ data: itemMapperFor(req)(payload, req.params.inventoryUuid) });
+  });
+
+  router.post('/shops/:shopId/items', async (req, res) => {
+    requirePermission(req, 'receiveBatches');
+    const body = validateBody(itemCreateSchema, req.body);
+    await requireProducts(client, [body.productId]);
+    const [item] = await createLots(client, {
+      shopId: req.params.shopId,
+      batchId: null,
+      lines: [body],
+      createdByUserId: API_ACTOR,
+    });
+    res.status(201).json({ data: item });
+  });
+
+  // Quantity changes are recorded as adjustment movements. Pass expectedUpdatedAt
+  // to fail with 409 instead of overwriting a change made since it was read.
+  router.patch('/shops/:shopId/items/:inventoryUuid', async (req, res) => {
+    const body = validateBody(itemUpdateSchema, req.body);
+    if (body.quantity !== undefined || body.location !== undefined) requirePermission(req, 'adjustStock');
+    if (body.sellPrice !== undefined) requirePermission(req, 'editPrices');
+    const { inventoryUuid, shopId } = req.params;
+    const current = await getItemPayload(client, inventoryUuid).catch(() => null);
+    if (!current || current.shopId !== shopId) throw notFound('Item');
+    if (body.expectedUpdatedAt && body.expectedUpdatedAt !== current.updatedAt) {
+      throw new ApiError(409, 'stale_item', 'Item changed since expectedUpdatedAt');
+    }
+    const currentQuantity = Number(current.quantity) || 0;
+    const quantity = body.quantity ?? currentQuantity;
+    if (quantity !== currentQuantity && current.status === 'EXPIRED') {
+      throw new ApiError(409, 'lot_expired', 'Expired lots cannot be restocked');
+    }
+
+    const extra = {};
+    if (body.sellPrice !== undefined) extra.sellPrice = body.sellPrice;
+    if (body.location !== undefined) extra.location = body.location;
+    if (quantity === currentQuantity) extra.status = current.status || 'ACTIVE';
+
+    const updatedAt = await compareAndSetStockQuantity(client, inventoryUuid, current.updatedAt, quantity, extra);
+    if (!updatedAt) throw new ApiError(409, 'stale_item', 'Item changed while updating. Please retry.');
+
+    await recordStockMovements(client, shopId, [{
+      inventoryUuid,
+      productId: current.productId,
+      delta: quantity - currentQuantity,
+      quantityAfter: quantity,
+      reason: 'adjustment',
+      note: body.note,
+    }], API_ACTOR);
+
+    const stored = await getItemPayload(client, inventoryUuid);
+    res.json({ data: mapItemPayload(stored, inventoryUuid) });
+  });
+
+  // ----- Batches -----
+
+  // Batch lines carry purchase costs, so reading batches needs viewFinancials
+  router.get('/shops/:shopId/batches', async (req, res) => {
+    requirePermission(req, 'viewFinancials');
+    const conditions = req.query.status ? [{ key: 'status', match: { value: String(req.query.status) } }] : [];
+    const page = await scrollPage(client, 'batches', req.query, shopFilter(req.params.shopId, ...conditions));
+    sendPage(res, page, (point) => mapBatch(point.payload));
+  });
+
+  router.get('/shops/:shopId/batches/:batchId', async (req, res) => {
+    requirePermission(req, 'viewFinancials');
+    const payload = await retrievePayload(client, 'batches', composePointId('batches', req.params.batchId));
+    if (!payload || payload.shopId !== req.params.shopId) throw notFound('Batch');
+    res.json({ data: mapBatch(payload) });
+  });
+
+  // RECEIVED batches (the default) are stocked immediately; EXPECTED ones are
+  // stocked when received in the app.
+  router.post('/shops/:shopId/batches', async (req, res) => {
+    requirePermission(req, 'receiveBatches');
+    const body = validateBody(batchCreateSchema, req.body);
+    const { shopId } = req.params;
+    const products = await requireProducts(client, body.lineItems.map((line) => line.productId));
+
+    const now = new Date().toISOString();
+    const status = body.status || 'RECEIVED';
+    const batchId = uuidv4();
+    const lineItems = body.lineItems.map((line) => ({
+      productId: line.productId,
+      productName: line.productName || products.get(line.productId)?.name || line.productId,
+      quantity: line.quantity,
+      cost: line.cost,
+      ...(line.expirationDate ? { expirationDate: line.expirationDate } : {}),
+    }));
+    const payload = {
+      batchId,
+      shopId,
+      supplierId: body.supplierId || null,
+      deliveryDate: body.deliveryDate,
+      inventoryDate: status === 'RECEIVED' ? now.split('T')[0] : null,
+      invoiceNumber: body.invoiceNumber || null,
+      documents: [],
+      lineItems,
+      createdAt: now,
+      createdByUserId: API_ACTOR,
+      status,
+      purchaseOrderId: null,
+      receivedAt: status === 'RECEIVED' ? now : null,
+      discrepancyReport: null,
+    };
+    await upsertPoint(client, 'batches', batchId, payload);
+
+    let items = [];
+    if (status === 'RECEIVED') {
+      const delivery = new Date(body.deliveryDate);
+      delivery.setFullYear(delivery.getFullYear() + 1);
+      items = await createLots(client, {
+        shopId,
+        batchId,
+        supplierId: body.supplierId || null,
+        lines: lineItems.map((line) => ({ ...line, buyPrice: line.cost })),
+        createdByUserId: API_ACTOR,
+        defaultExpiration: delivery.toISOString().split('T')[0],
+      });
+    }
+    res.status(201).json({ data: { ...mapBatch(payload), items } });
+  });
+
+  // ----- Sales -----
+
+  router.get('/shops/:shopId/sales', async (req, res) => {
+    requirePermission(req, 'viewFinancials');
+    const status = String(req.query.status || 'COMMITTED');
+    const statusMatch = { key: 'status', match: { value: status } };
+    // Sales recorded before the journal have no status and count as committed
+    const statusCondition = status === 'COMMITTED'
+      ? { should: [statusMatch, { is_empty: { key: 'status' } }] }
+      : statusMatch;
+    const page = await scrollPage(client, 'sales', req.query, shopFilter(req.params.shopId, statusCondition));
+    sendPage(res, page, (point) => mapSalePayload(point.payload));
+  });
+
+  router.get('/shops/:shopId/sales/:saleId', async (req, res) => {
+    requirePermission(req, 'viewFinancials');
+    const payload = await retrievePayload(client, 'sales', composePointId('sales', req.params.saleId));
+    if (!payload || payload.shopId !== req.params.shopId) throw notFound('Sale');
+    res.json({ data: mapSalePayload(payload) });
+  });
+
+  // Idempotency-Key header (or idempotencyKey in the body) makes retries safe:
+  // a replay returns the committed sale with 200 instead of selling again.
+  router.post('/shops/:shopId/sales', async (req, res) => {
+    // Customers check out through the storefront; the shop's own staff need adjustStock
+    if (canAccessShop(req.session, req.params.shopId)) requirePermission(req, 'adjustStock');
+    const body = validateBody(saleCreateSchema, req.body);
+    const idempotencyKey = req.get('idempotency-key') || body.idempotencyKey;
+    const { sale, replayed } = await recordSale(client, req.params.shopId, {
+      lines: body.lines,
+      idempotencyKey,
+      source: { type: 'pos' },
+      createdByUserId: req.session?.sub || API_ACTOR,
+    });
+    res.status(replayed ? 200 : 201).json({ data: sale });
+  });
+
+  // ----- Suppliers -----
+
+  // The shop's local suppliers plus suppliers linked to a user account
+  router.get('/shops/:shopId/suppliers', async (req, res) => {
+    const page = await scrollPage(client, 'suppliers', req.query, {
+      should: [
+        { key: 'shopId', match: { value: req.params.shopId } },
+        { must_not: [{ is_empty: { key: 'linkedUserId' } }] },
+      ],
+    });
+    sendPage(res, page, (point) => mapSupplier(point.payload));
+  });
+
+  router.post('/shops/:shopId/suppliers', async (req, res) => {
+    requirePermission(req, 'receiveBatches');
+    const body = validateBody(supplierCreateSchema, req.body);
+    const supplierId = uuidv4();
+    const payload = {
+      supplierId,
+      name: body.name.trim(),
+      contact: body.contactEmail || '',
+      contactEmail: body.contactEmail || '',
+      shopId: req.params.shopId,
+      linkedUserId: null,
+      metadata: {},
+    };
+    await upsertPoint(client, 'suppliers', supplierId, payload);
+    res.status(201).json({ data: mapSupplier(payload) });
+  });
+
+  // ----- Marketplace listings -----
+
+  router.get('/listings', async (req, res) => {
+    const must = [{ key: 'quantity', range: { gt: 0 } }];
+    if (req.query.productId) must.push({ key: 'productId', match: { value: String(req.query.productId) } });
+    sendPage(res, await scrollPage(client, 'marketplace', req.query, { must }), (point) => mapListing(point.payload));
+  });
+
+  router.get('/shops/:shopId/listings', async (req, res) => {
+    const page = await scrollPage(client, 'marketplace', req.query, shopFilter(req.params.shopId, { key: 'quantity', range: { gt: 0 } }));
+    sendPage(res, page, (point) => mapListing(point.payload));
+  });
+
+  router.post('/shops/:shopId/listings', async (req, res) => {
+    requirePermission(req, 'editPrices');
+    const body = validateBody(listingCreateSchema, req.body);
+    const products = await requireProducts(client, [body.productId]);
+    const listingId = Date.now();
+    const payload = {
+      shopId: req.params.shopId,
+      shopName: req.shop.name,
+      listingId,
+      productId: body.productId,
+      productName: body.productName || products.get(body.productId)?.name,
+      quantity: body.quantity,
+      price: body.price,
+      version: 0,
+      createdAt: new Date().toISOString(),
+    };
+    await upsertPoint(client, 'marketplace', listingId, payload);
+    res.status(201).json({ data: mapListing(payload) });
+  });
+
+  router.use((req, _res, next) => next(new ApiError(404, 'not_found', `No route for ${req.method} ${req.baseUrl}${req.path}`)));
+
+  return router;
+};
+
+// Error envelope for everything under /api/v1, including body parse errors
+// raised before the router runs
+export const handleApiV1Error = (error, _req, res, _next) => {
+  if (error instanceof ApiError) {
+    return res.status(error.status).json({
+      error: { code: error.code, message: error.message, ...(error.details ? { details: error.details } : {}) },
+    });
+  }
+  if (SALE_ERROR_STATUS[error?.code]) {
+    return res.status(SALE_ERROR_STATUS[error.code]).json({ error: { code: error.code, message: error.message } });
+  }
+  if (error?.type === 'entity.parse.failed') {
+    return res.status(400).json({ error: { code: 'invalid_json', message: 'Request body is not valid JSON' } });
+  }
+  console.error('[API v1] Request failed:', error);
+  res.status(500).json({ error: { code: 'internal_error', message: 'Internal server error' } });
+};
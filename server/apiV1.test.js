@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import express from 'express';
+import { createApiV1Router, handleApiV1Error } from './apiV1.js';
+import { signAccessToken } from './auth.js';
+import { composePointId } from './qdrantPoints.js';
+import { createFakeQdrant } from './testing/fakeQdrant.js';
+
+const SECRET = 'test-secret';
+
+const sessions = {
+  owner: { sub: 'owner', shopId: 'shop-a', shopIds: ['shop-a'], staffRole: 'owner', roles: { shop: true } },
+  clerk: { sub: 'clerk', shopId: 'shop-a', shopIds: ['shop-a'], staffRole: 'clerk', roles: { shop: true } },
+  auditor: { sub: 'auditor', shopId: 'shop-a', shopIds: ['shop-a'], staffRole: 'auditor', roles: { shop: true } },
+  customer: { sub: 'customer', shopId: null, shopIds: [], customerId: 'customer-1', roles: { customer: true } },
+};
+
+describe('/api/v1 items', () => {
+  let server;
+  let base;
+
+  beforeEach(() => {
+    const client = createFakeQdrant({
+      shops: [{ id: composePointId('shops', 'shop-a'), payload: { shopId: 'shop-a', name: 'Corner Shop' } }],
+      items: [{ id: 'lot-1', payload: { inventoryUuid: 'lot-1', shopId: 'shop-a', productId: 'milk', quantity: 5, buyPrice: 1.1, sellPrice: 1.9 } }],
+    });
+    const app = express();
+    app.use(express.json());
+    app.use('/api/v1', createApiV1Router(client, { authSecret: SECRET }), handleApiV1Error);
+    server = app.listen(0);
+    base = `http://127.0.0.1:${server.address().port}/api/v1`;
+  });
+
+  afterEach(() => server.close());
+
+  const call = async (session, method, path, body) => {
+    const response = await fetch(`${base}${path}`, {
+      method,
+      headers: { authorization: `Bearer ${signAccessToken(SECRET, session)}`, 'Content-Type': 'application/json' },
+      body: body && JSON.stringify(body),
+    });
+    return { status: response.status, body: await response.json() };
+  };
+  const get = (session, path) => call(session, 'GET', path);
+
+  it('shows purchase prices to the shop itself', async () => {
+    const { status, body } = await get(sessions.owner, '/shops/shop-a/items');
+    expect(status).toBe(200);
+    expect(body.data[0]).toMatchObject({ buyPrice: 1.1, sellPrice: 1.9 });
+  });
+
+  it('hides purchase prices from storefront customers', async () => {
+    const list = await get(sessions.customer, '/shops/shop-a/items');
+    expect(list.status).toBe(200);
+    expect(list.body.data[0]).toMatchObject({ sellPrice: 1.9 });
+    expect(list.body.data[0]).not.toHaveProperty('buyPrice');
+
+    const single = await get(sessions.customer, '/shops/shop-a/items/lot-1');
+    expect(single.body.data).not.toHaveProperty('buyPrice');
+  });
+
+  it('hides purchase prices from staff without viewFinancials', async () => {
+    const { body } = await get(sessions.clerk, '/shops/shop-a/items');
+    expect(body.data[0]).not.toHaveProperty('buyPrice');
+  });
+
+  it('checks the staff role on writes', async () => {
+    const adjust = await call(sessions.auditor, 'PATCH', '/shops/shop-a/items/lot-1', { quantity: 50 });
+    expect(adjust.status).toBe(403);
+    expect(adjust.body.error.message).toContain('adjustStock');
+
+    const reprice = await call(sessions.clerk, 'PATCH', '/shops/shop-a/items/lot-1', { sellPrice: 0.5 });
+    expect(reprice.status).toBe(403);
+
+    const catalog = await call(sessions.clerk, 'POST', '/products', { name: 'Bread', manufacturer: 'Bakery', category: 'Bakery' });
+    expect(catalog.status).toBe(403);
+
+    const batch = await call(sessions.auditor, 'POST', '/shops/shop-a/batches', {
+      deliveryDate: '2030-01-01',
+      lineItems: [{ productId: 'milk', quantity: 1, cost: 1 }],
+    });
+    expect(batch.status).toBe(403);
+
+    const counted = await call(sessions.clerk, 'PATCH', '/shops/shop-a/items/lot-1', { quantity: 4 });
+    expect(counted.status).toBe(200);
+    expect(counted.body.data.quantity).toBe(4);
+  });
+});
@@ -0,0 +1,378 @@
+/**
+ * Authentication (server-side)
+ *
+ * Credentials are checked here, never in the browser: the users table is
+ * closed to the anon key and password hashes do not leave the server. A login
+ * issues a short-lived access token (HMAC-SHA256, JWT layout) that every /api
+ * and /qdrant request carries as `Authorization: Bearer`, and a refresh token
+ * stored hashed in auth_sessions. Each refresh rotates the refresh token; an
+ * old one presented again revokes the session, since it can only come from a
+ * copy. Accounts with several shops work in one at a time; switching
+ * re-points the session (auth_sessions.active_shop_id) and takes effect at
+ * the next refresh.
+ */
+
+import crypto from 'node:crypto';
+import express from 'express';
+import bcrypt from 'bcryptjs';
+import { v4 as uuidv4 } from 'uuid';
+import { loadAccountShops } from './shops.js';
+import { loadStaffMembership } from './staff.js';
+import { loadVerificationSummary } from './verification.js';
+
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+export const REFRESH_TOKEN_TTL_DAYS = 30;
+const BCRYPT_ROUNDS = 10;
+const MIN_PASSWORD_LENGTH = 8;
+const UNIQUE_VIOLATION = '23505';
+// Compared against when the username does not exist, so both paths cost a bcrypt check
+const DUMMY_PASSWORD_HASH = bcrypt.hashSync('shopnexus-dummy-password', BCRYPT_ROUNDS);
+
+// Every users column except password_hash
+const PUBLIC_USER_COLUMNS = [
+  'id',
+  'username',
+  'email',
+  'display_name',
+  'contact_email',
+  'is_shop',
+  'is_customer',
+  'is_driver',
+  'is_supplier',
+  'is_admin',
+  'qdrant_user_id',
+  'shop_qdrant_id',
+  'qdrant_namespace',
+  'customer_qdrant_id',
+  'driver_qdrant_id',
+  'supplier_qdrant_id',
+  'metadata',
+].join(', ');
+
+class AuthError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const base64url = (input) => Buffer.from(input).toString('base64url');
+
+const hashRefreshSecret = (secret) => crypto.createHash('sha256').update(secret).digest('hex');
+
+// Constant-time string comparison for secrets and keys
+export const safeEqual = (a, b) => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
+
+/**
+ * The token signing secret. AUTH_TOKEN_SECRET is required in production and
+ * on Vercel, where each instance would otherwise sign with its own secret;
+ * in local development a random secret is used, which signs everyone out on
+ * restart.
+ */
+export const resolveAuthSecret = (env = process.env) => {
+  if (env.AUTH_TOKEN_SECRET) return env.AUTH_TOKEN_SECRET;
+  if (env.NODE_ENV === 'production' || env.VERCEL) {
+    throw new Error('AUTH_TOKEN_SECRET must be set in production.');
+  }
+  console.warn('[Auth] AUTH_TOKEN_SECRET is not set; using a random secret (sessions end when the server restarts)');
+  return crypto.randomBytes(32).toString('hex');
+};
+
+// CORS origins from CORS_ALLOWED_ORIGINS (comma-separated); any origin when unset
+export const resolveCorsOrigin = (env = process.env) => {
+  const origins = (env.CORS_ALLOWED_ORIGINS || '').split(',').map((origin) => origin.trim()).filter(Boolean);
+  return origins.length > 0 ? origins : true;
+};
+
+export const signAccessToken = (secret, claims, now = Date.now()) => {
+  const issuedAt = Math.floor(now / 1000);
+  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload = base64url(JSON.stringify({ ...claims, iat: issuedAt, exp: issuedAt + ACCESS_TOKEN_TTL_SECONDS }));
+  const signature = crypto.createHmac('sha256', secret).update(`${header}.${payload}`).digest('base64url');
+  return `${header}.${payload}.${signature}`;
+};
+
+// Claims of a valid, unexpired access token; null otherwise
+export const verifyAccessToken = (secret, token, now = Date.now()) => {
+  if (typeof token !== 'string') return null;
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) return null;
+  const expected = crypto.createHmac('sha256', secret).update(`${header}.${payload}`).digest('base64url');
+  if (!safeEqual(signature, expected)) return null;
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (typeof claims.exp !== 'number' || claims.exp * 1000 <= now) return null;
+    return claims;
+  } catch {
+    return null;
+  }
+};
+
+const readBearerToken = (req) => {
+  const header = req.get('authorization') || '';
+  return header.startsWith('Bearer ') ? header.slice(7).trim() : null;
+};
+
+/**
+ * Middleware that rejects requests without a valid access token and exposes
+ * its claims as req.session. Server jobs may send the upstream Qdrant key
+ * (`api-key` header) instead, as they could reach Qdrant with it directly.
+ */
+export const requireSession = (secret, { serviceKey = null } = {}) => (req, res, next) => {
+  const serviceHeader = req.get('api-key');
+  if (serviceKey && serviceHeader && safeEqual(serviceHeader, serviceKey)) {
+    req.session = { sub: null, service: true };
+    return next();
+  }
+  const claims = verifyAccessToken(secret, readBearerToken(req));
+  if (!claims) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+  req.session = claims;
+  return next();
+};
+
+// `user.activeShop` is the shop the session works in and `user.shops` every shop the user can (server/shops.js)
+const buildClaims = (user, sessionId) => {
+  const activeShop = user.activeShop || null;
+  // Owners act on all their shops (consolidated views, transfers); staff only on the active one
+  const otherShopIds = activeShop?.role === 'owner'
+    ? user.shops.filter((shop) => shop.role === 'owner' && shop.shopId !== activeShop.shopId).map((shop) => shop.shopId)
+    : [];
+  return {
+    sub: user.id,
+    sid: sessionId,
+    shopId: activeShop?.shopId || null,
+    shopIds: activeShop ? [activeShop.shopId, ...otherShopIds] : [],
+    staffRole: activeShop?.role || null,
+    customerId: user.customer_qdrant_id || null,
+    driverId: user.driver_qdrant_id || null,
+    supplierId: user.supplier_qdrant_id || null,
+    roles: {
+      shop: user.is_shop || user.shops.length > 0,
+      customer: user.is_customer,
+      driver: user.is_driver,
+      supplier: user.is_supplier,
+      admin: user.is_admin === true,
+    },
+  };
+};
+
+const toPublicUser = ({ password_hash, ...user }) => user;
+
+const validateRegistration = (body) => {
+  const { username, email, password, displayName, roles } = body || {};
+  if (!username || typeof username !== 'string' || !username.trim()) throw new AuthError(400, 'username is required');
+  if (!email || typeof email !== 'string' || !email.includes('@')) throw new AuthError(400, 'A valid email is required');
+  if (!displayName || typeof displayName !== 'string' || !displayName.trim()) throw new AuthError(400, 'displayName is required');
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    throw new AuthError(400, `Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+  }
+  if (!roles || !['shop', 'customer', 'driver', 'supplier'].some((role) => roles[role] === true)) {
+    throw new AuthError(400, 'Please select at least one role.');
+  }
+};
+
+export const createAuthRouter = (supabase, { secret, logger = console } = {}) => {
+  const router = express.Router();
+
+  const ensureSupabase = () => {
+    if (!supabase) throw new AuthError(503, 'Authentication is unavailable: SUPABASE_URL is not set on the server.');
+    return supabase;
+  };
+
+  const issueSession = async (user, req) => {
+    const sessionId = uuidv4();
+    const refreshSecret = crypto.randomBytes(32).toString('base64url');
+    const refreshExpiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+    const { error } = await ensureSupabase().from('auth_sessions').insert({
+      id: sessionId,
+      user_id: user.id,
+      refresh_token_hash: hashRefreshSecret(refreshSecret),
+      expires_at: refreshExpiresAt.toISOString(),
+      user_agent: req.get('user-agent')?.slice(0, 200) || null,
+    });
+    if (error) throw error;
+    return {
+      accessToken: signAccessToken(secret, buildClaims(user, sessionId)),
+      accessTokenExpiresAt: new Date(Date.now() + ACCESS_TOKEN_TTL_SECONDS * 1000).toISOString(),
+      refreshToken: `${sessionId}.${refreshSecret}`,
+      refreshTokenExpiresAt: refreshExpiresAt.toISOString(),
+    };
+  };
+
+  /**
+   * The users row plus its shops, the one the session works in (`activeShopId`
+   * when the user can, else their first), the shop they work at as staff and
+   * their verification status.
+   */
+  const withAccountDetails = async (user, activeShopId = null) => {
+    const client = ensureSupabase();
+    const shops = await loadAccountShops(client, user);
+    const activeShop = shops.find((shop) => shop.shopId === activeShopId) || shops[0] || null;
+    const staff = activeShop && activeShop.role !== 'owner'
+      ? await loadStaffMembership(client, user, activeShop.shopId)
+      : null;
+    const account = { ...user, shops, activeShop, staff };
+    return { ...account, verification: await loadVerificationSummary(client, account) };
+  };
+
+  const loadUser = async (userId, activeShopId = null) => {
+    const { data, error } = await ensureSupabase().from('users').select(PUBLIC_USER_COLUMNS).eq('id', userId).maybeSingle();
+    if (error) throw error;
+    return data ? withAccountDetails(data, activeShopId) : null;
+  };
+
+  const handle = (fn) => async (req, res) => {
+    try {
+      await fn(req, res);
+    } catch (error) {
+      if (error instanceof AuthError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      logger.error('[Auth] Request failed:', error);
+      res.status(500).json({ error: 'Authentication failed' });
+    }
+  };
+
+  router.post('/register', handle(async (req, res) => {
+    validateRegistration(req.body);
+    const { username, email, password, displayName, roles, licenseId, supplierShopId } = req.body;
+    const userId = uuidv4(); // also the user's Qdrant point ID
+    const shopQdrantId = roles.shop ? uuidv4() : null;
+    const row = {
+      id: userId,
+      username: username.trim(),
+      email: email.trim(),
+      contact_email: email.trim(),
+      display_name: displayName.trim(),
+      password_hash: await bcrypt.hash(password, BCRYPT_ROUNDS),
+      is_shop: roles.shop === true,
+      is_customer: roles.customer === true,
+      is_driver: roles.driver === true,
+      is_supplier: roles.supplier === true,
+      qdrant_user_id: userId,
+      shop_qdrant_id: shopQdrantId,
+      qdrant_namespace: shopQdrantId ? `shop-${shopQdrantId}` : null,
+      customer_qdrant_id: roles.customer ? uuidv4() : null,
+      driver_qdrant_id: roles.driver ? uuidv4() : null,
+      supplier_qdrant_id: roles.supplier ? uuidv4() : null,
+      metadata: {
+        ...(roles.driver && licenseId ? { licenseId: String(licenseId) } : {}),
+        ...(roles.supplier && supplierShopId ? { linkedShop: String(supplierShopId) } : {}),
+      },
+    };
+    const { error } = await ensureSupabase().from('users').insert(row);
+    if (error?.code === UNIQUE_VIOLATION) throw new AuthError(409, 'That username or email is already registered.');
+    if (error) throw error;
+    const user = await withAccountDetails(toPublicUser(row));
+    res.status(201).json({ user, session: await issueSession(user, req) });
+  }));
+
+  router.post('/login', handle(async (req, res) => {
+    const { username, password } = req.body || {};
+    if (typeof username !== 'string' || typeof password !== 'string') {
+      throw new AuthError(400, 'username and password are required');
+    }
+    const { data: row, error } = await ensureSupabase()
+      .from('users')
+      .select(`${PUBLIC_USER_COLUMNS}, password_hash`)
+      .eq('username', username.trim())
+      .maybeSingle();
+    if (error) throw error;
+    const valid = await bcrypt.compare(password, row?.password_hash || DUMMY_PASSWORD_HASH);
+    if (!row || !valid) throw new AuthError(401, 'Invalid username or password.');
+    const user = await withAccountDetails(toPublicUser(row));
+    res.json({ user, session: await issueSession(user, req) });
+  }));
+
+  router.post('/refresh', handle(async (req, res) => {
+    const [sessionId, refreshSecret] = String(req.body?.refreshToken || '').split('.');
+    if (!sessionId || !refreshSecret) throw new AuthError(401, 'Session expired. Please sign in again.');
+    const client = ensureSupabase();
+    const { data: session, error } = await client.from('auth_sessions').select('*').eq('id', sessionId).maybeSingle();
+    if (error) throw error;
+    if (!session || session.revoked_at || new Date(session.expires_at).getTime() <= Date.now()) {
+      throw new AuthError(401, 'Session expired. Please sign in again.');
+    }
+    if (!safeEqual(hashRefreshSecret(refreshSecret), session.refresh_token_hash)) {
+      await client.from('auth_sessions').update({ revoked_at: new Date().toISOString() }).eq('id', sessionId);
+      logger.warn(`[Auth] Reused refresh token for session ${sessionId}; session revoked`);
+      throw new AuthError(401, 'Session expired. Please sign in again.');
+    }
+    const user = await loadUser(session.user_id, session.active_shop_id);
+    if (!user) throw new AuthError(401, 'Session expired. Please sign in again.');
+
+    const nextSecret = crypto.randomBytes(32).toString('base64url');
+    const refreshExpiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+    // Conditional on the old hash, so two concurrent refreshes cannot both win
+    const { data: rotated, error: rotateError } = await client
+      .from('auth_sessions')
+      .update({
+        refresh_token_hash: hashRefreshSecret(nextSecret),
+        expires_at: refreshExpiresAt.toISOString(),
+        last_used_at: new Date().toISOString(),
+      })
+      .eq('id', sessionId)
+      .eq('refresh_token_hash', session.refresh_token_hash)
+      .select('id');
+    if (rotateError) throw rotateError;
+    if (!rotated?.length) throw new AuthError(401, 'Session expired. Please sign in again.');
+
+    res.json({
+      user,
+      session: {
+        accessToken: signAccessToken(secret, buildClaims(user, sessionId)),
+        accessTokenExpiresAt: new Date(Date.now() + ACCESS_TOKEN_TTL_SECONDS * 1000).toISOString(),
+        refreshToken: `${sessionId}.${nextSecret}`,
+        refreshTokenExpiresAt: refreshExpiresAt.toISOString(),
+      },
+    });
+  }));
+
+  router.post('/logout', handle(async (req, res) => {
+    const [sessionId, refreshSecret] = String(req.body?.refreshToken || '').split('.');
+    if (sessionId && refreshSecret) {
+      const { error } = await ensureSupabase()
+        .from('auth_sessions')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', sessionId)
+        .eq('refresh_token_hash', hashRefreshSecret(refreshSecret));
+      if (error) throw error;
+    }
+    res.status(204).end();
+  }));
+
+  router.get('/me', requireSession(secret), handle(async (req, res) => {
+    const user = req.session.sub ? await loadUser(req.session.sub, req.session.shopId) : null;
+    if (!user) throw new AuthError(404, 'User not found');
+    res.json({ user });
+  }));
+
+  // Work in another of the user's shops; the client refreshes to get tokens for it
+  router.post('/switch-shop', requireSession(secret), handle(async (req, res) => {
+    const { shopId } = req.body || {};
+    if (typeof shopId !== 'string' || !shopId) throw new AuthError(400, 'shopId is required');
+    if (!req.session.sub || !req.session.sid) throw new AuthError(403, 'Only user sessions can switch shops.');
+    const user = await loadUser(req.session.sub, shopId);
+    if (!user) throw new AuthError(404, 'User not found');
+    if (user.activeShop?.shopId !== shopId) throw new AuthError(403, 'You do not work at that shop.');
+    const { data: updated, error } = await ensureSupabase()
+      .from('auth_sessions')
+      .update({ active_shop_id: shopId })
+      .eq('id', req.session.sid)
+      .eq('user_id', req.session.sub)
+      .is('revoked_at', null)
+      .select('id');
+    if (error) throw error;
+    if (!updated?.length) throw new AuthError(401, 'Session expired. Please sign in again.');
+    res.status(204).end();
+  }));
+
+  return router;
+};
@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import express from 'express';
+import bcrypt from 'bcryptjs';
+import { createAuthRouter, resolveAuthSecret, verifyAccessToken } from './auth.js';
+import { createFakeSupabase } from './testing/fakeSupabase.js';
+
+const SECRET = 'test-secret';
+const logger = { error: vi.fn(), warn: vi.fn(), info: vi.fn() };
+
+const startServer = (supabase) => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/auth', createAuthRouter(supabase, { secret: SECRET, logger }));
+  const server = app.listen(0);
+  const call = async (path, body) => {
+    const response = await fetch(`http://127.0.0.1:${server.address().port}/api/auth${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const text = await response.text();
+    return { status: response.status, data: text ? JSON.parse(text) : null };
+  };
+  return { server, call };
+};
+
+describe('refresh tokens', () => {
+  let supabase;
+  let api;
+
+  beforeEach(() => {
+    supabase = createFakeSupabase({
+      users: [{
+        id: 'user-1',
+        username: 'kiosk',
+        email: 'kiosk@example.com',
+        display_name: 'Kiosk',
+        password_hash: bcrypt.hashSync('password1', 4),
+        is_shop: true,
+        shop_qdrant_id: 'shop-1',
+      }],
+      operator_shops: [],
+      shop_staff: [],
+      auth_sessions: [],
+      verification_events: [],
+    });
+    api = startServer(supabase);
+  });
+
+  afterEach(() => api.server.close());
+
+  const login = async () => (await api.call('/login', { username: 'kiosk', password: 'password1' })).data.session;
+
+  it('rotates the refresh token and keeps the session claims', async () => {
+    const session = await login();
+    const { status, data } = await api.call('/refresh', { refreshToken: session.refreshToken });
+
+    expect(status).toBe(200);
+    expect(data.session.refreshToken).not.toBe(session.refreshToken);
+    expect(data.session.refreshToken.split('.')[0]).toBe(session.refreshToken.split('.')[0]);
+    expect(verifyAccessToken(SECRET, data.session.accessToken)).toMatchObject({ sub: 'user-1', shopId: 'shop-1', shopIds: ['shop-1'] });
+  });
+
+  it('revokes the session when a rotated-out token is reused', async () => {
+    const session = await login();
+    const rotated = (await api.call('/refresh', { refreshToken: session.refreshToken })).data.session;
+
+    const reuse = await api.call('/refresh', { refreshToken: session.refreshToken });
+    expect(reuse.status).toBe(401);
+    expect(supabase.db.auth_sessions[0].revoked_at).toBeTruthy();
+
+    // The legitimate holder of the newer token is signed out too
+    const next = await api.call('/refresh', { refreshToken: rotated.refreshToken });
+    expect(next.status).toBe(401);
+  });
+
+  it('rejects malformed, unknown and logged-out tokens', async () => {
+    expect((await api.call('/refresh', { refreshToken: 'garbage' })).status).toBe(401);
+    expect((await api.call('/refresh', { refreshToken: 'missing.secret' })).status).toBe(401);
+
+    const session = await login();
+    expect((await api.call('/logout', { refreshToken: session.refreshToken })).status).toBe(204);
+    expect((await api.call('/refresh', { refreshToken: session.refreshToken })).status).toBe(401);
+  });
+
+  it('does not leak internal errors', async () => {
+    const failing = createFakeSupabase();
+    failing.from = () => { throw new Error('connection string postgres://secret'); };
+    const broken = startServer(failing);
+    try {
+      const { status, data } = await broken.call('/refresh', { refreshToken: 'session.secret' });
+      expect(status).toBe(500);
+      expect(data).toEqual({ error: 'Authentication failed' });
+    } finally {
+      broken.server.close();
+    }
+  });
+});
+
+describe('resolveAuthSecret', () => {
+  it('uses AUTH_TOKEN_SECRET when set', () => {
+    expect(resolveAuthSecret({ AUTH_TOKEN_SECRET: 'configured', NODE_ENV: 'production' })).toBe('configured');
+  });
+
+  it('refuses to start in production or on Vercel without a secret', () => {
+    expect(() => resolveAuthSecret({ NODE_ENV: 'production' })).toThrow('AUTH_TOKEN_SECRET');
+    expect(() => resolveAuthSecret({ VERCEL: '1' })).toThrow('AUTH_TOKEN_SECRET');
+  });
+});
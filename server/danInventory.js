@@ -0,0 +1,100 @@
+/**
+ * DAN inventory (server-side)
+ *
+ * Node counterparts of services/qdrant/services/danInventory.ts. Points are
+ * keyed by the raw inventoryUuid and carry the same payload as the browser
+ * writes, so offers rebuilt here are indistinguishable from synced ones.
+ */
+
+import { buildPlaceholderVector, EMBEDDING_VECTOR_SIZE, resolveVectorField, scrollAll } from './qdrantPoints.js';
+
+const COLLECTION_NAME = 'dan_inventory';
+
+// The event's vectorContext when usable, a placeholder seeded by the id otherwise
+const resolveOfferVector = (candidate, inventoryUuid) => (
+  Array.isArray(candidate)
+    && candidate.length === EMBEDDING_VECTOR_SIZE
+    && candidate.every((value) => typeof value === 'number' && Number.isFinite(value))
+    ? candidate
+    : buildPlaceholderVector(inventoryUuid)
+);
+
+export const buildDanInventoryPayload = (input) => ({
+  inventoryUuid: input.inventoryUuid,
+  productId: input.productId,
+  productName: input.productName,
+  quantity: input.quantity,
+  expirationDate: input.expirationDate,
+  locationBucket: input.locationBucket || null,
+  sellPrice: input.sellPrice ?? null,
+  shopId: input.shopId,
+  shopName: input.shopName || null,
+  shareScope: input.shareScope,
+  proofHash: input.proofHash,
+  signerFingerprint: input.signerFingerprint || null,
+  updatedAt: input.updatedAt || new Date().toISOString(),
+});
+
+export const upsertDanInventoryOffer = async (client, input) => {
+  const vectorField = await resolveVectorField(
+    client,
+    COLLECTION_NAME,
+    resolveOfferVector(input.vector, input.inventoryUuid),
+  );
+  await client.upsert(COLLECTION_NAME, {
+    wait: true,
+    points: [{ id: input.inventoryUuid, ...vectorField, payload: buildDanInventoryPayload(input) }],
+  });
+};
+
+export const removeDanInventoryOffer = async (client, inventoryUuid) => {
+  await client.delete(COLLECTION_NAME, { wait: true, points: [inventoryUuid] });
+};
+
+/**
+ * Mirror a verified offer event from dan_events into dan_inventory, like
+ * applyDanOfferEvent in services/vectorDBService.ts did in the browser before
+ * the proxy limited browsers to their own shop's offers.
+ */
+export const mirrorDanOfferEvent = async (client, event) => {
+  const payload = event.payload || {};
+  if (!payload.inventoryUuid) return;
+  if (event.eventType === 'inventory.offer.created') {
+    await upsertDanInventoryOffer(client, {
+      inventoryUuid: payload.inventoryUuid,
+      productId: payload.productId,
+      productName: payload.productName,
+      quantity: Number(payload.quantity) || 0,
+      expirationDate: payload.expirationDate,
+      locationBucket: payload.locationBucket ?? null,
+      sellPrice: payload.sellPrice ?? null,
+      shopId: event.shopId,
+      shopName: payload.shopName ?? null,
+      shareScope: event.shareScope,
+      proofHash: payload.proofHash,
+      signerFingerprint: event.actor.fingerprint,
+      vector: event.vectorContext || undefined,
+    });
+  } else if (event.eventType === 'inventory.offer.fulfilled') {
+    const remaining = Number(payload.remainingQuantity) || 0;
+    if (remaining <= 0) {
+      await removeDanInventoryOffer(client, payload.inventoryUuid);
+      return;
+    }
+    await client.setPayload(COLLECTION_NAME, {
+      wait: true,
+      payload: {
+        quantity: remaining,
+        ...(event.actor.fingerprint ? { signerFingerprint: event.actor.fingerprint } : {}),
+        updatedAt: new Date().toISOString(),
+      },
+      points: [payload.inventoryUuid],
+    });
+  }
+};
+
+// Raw payloads of every offer in the collection, including sold-out ones
+export const listDanInventoryPayloads = async (client) => {
+  const points = await scrollAll(client, COLLECTION_NAME);
+  return points.map((point) => ({ ...(point.payload || {}), inventoryUuid: point.payload?.inventoryUuid || String(point.id) }));
+};
@@ -0,0 +1,244 @@
+/**
+ * DAN device keys (server-side)
+ *
+ * dan_keys is the registry every verifier (browsers, the policy worker,
+ * replay) trusts, so only the server writes it. Devices prove they hold the
+ * private key they register by signing its key approval themselves.
+ *
+ * A shop's first signing key is activated without an approval, and only for
+ * a session that may manage the shop's policies; verifiers accept exactly one
+ * such key per shop. Every later key stays pending until an active device
+ * signs its approval, which is checked here before the row changes.
+ */
+
+import express from 'express';
+import {
+  fingerprintPublicKey,
+  isSupportedDanAlgorithm,
+  mapDanKeyRow,
+  verifyKeyApproval,
+} from './danSigning.js';
+import { canAccessShop } from './qdrantAccess.js';
+import { sessionHasPermission } from './staff.js';
+
+// Matches DAN_KEY_ROTATION_OVERLAP_DAYS in services/danRegistry.ts
+const ROTATION_OVERLAP_DAYS = 7;
+const MAX_DEVICE_LABEL_LENGTH = 80;
+const MAX_REVOKE_REASON_LENGTH = 500;
+const UNIQUE_VIOLATION = '23505';
+
+class DanKeysError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const isSigningStatus = (status) => status === 'active' || status === 'retiring';
+
+/**
+ * /api/dan/keys: register, rotate, approve and revoke a shop's device keys.
+ * Requests act on the session's active shop, or `shopId` when the session
+ * covers it. Approving, rotating and revoking need managePolicies.
+ */
+export const createDanKeysRouter = (supabase, { logger = console } = {}) => {
+  const router = express.Router();
+
+  const ensureSupabase = () => {
+    if (!supabase) throw new DanKeysError(503, 'DAN keys are unavailable: SUPABASE_URL is not set on the server.');
+    return supabase;
+  };
+
+  const resolveShop = (req) => {
+    const shopId = req.body?.shopId || req.session?.shopId;
+    if (!shopId || !canAccessShop(req.session, shopId)) throw new DanKeysError(403, 'DAN keys belong to a shop you work at.');
+    return shopId;
+  };
+
+  const requireManage = (req) => {
+    if (!sessionHasPermission(req.session, 'managePolicies')) {
+      throw new DanKeysError(403, 'Your staff role does not allow this (needs managePolicies).');
+    }
+  };
+
+  const loadShopKeys = async (shopId) => {
+    const { data, error } = await ensureSupabase()
+      .from('dan_keys')
+      .select('*')
+      .eq('shop_id', shopId)
+      .order('created_at', { ascending: true });
+    if (error) throw error;
+    return data || [];
+  };
+
+  const findKey = (rows, fingerprint) => {
+    const row = rows.find((entry) => entry.fingerprint === fingerprint);
+    if (!row) throw new DanKeysError(404, `DAN key ${fingerprint} not found.`);
+    return row;
+  };
+
+  const updateKey = async (shopId, fingerprint, patch, expectedStatus) => {
+    let query = ensureSupabase()
+      .from('dan_keys')
+      .update({ ...patch, updated_at: new Date().toISOString() })
+      .eq('shop_id', shopId)
+      .eq('fingerprint', fingerprint);
+    if (expectedStatus) query = query.eq('status', expectedStatus);
+    const { data, error } = await query.select();
+    if (error) throw error;
+    if (!data?.length) throw new DanKeysError(409, `DAN key ${fingerprint} changed. Reload and try again.`);
+    return mapDanKeyRow(data[0]);
+  };
+
+  // The key a device registers, with its proof that it holds the private half
+  const readKeyMaterial = async (shopId, body) => {
+    const { deviceId, publicKey, algorithm, proof } = body || {};
+    if (typeof deviceId !== 'string' || !deviceId) throw new DanKeysError(400, 'deviceId is required');
+    if (typeof publicKey !== 'string' || !publicKey) throw new DanKeysError(400, 'publicKey is required');
+    if (!isSupportedDanAlgorithm(algorithm)) throw new DanKeysError(400, `Unsupported DAN key algorithm: ${algorithm}`);
+    const fingerprint = await fingerprintPublicKey(publicKey);
+    const proven = typeof proof === 'string'
+      && await verifyKeyApproval({ algorithm, publicKey }, shopId, publicKey, fingerprint, proof);
+    if (!proven) throw new DanKeysError(400, 'proof must be the key\'s own signature over its approval.');
+    return {
+      shop_id: shopId,
+      device_id: deviceId,
+      namespace: typeof body.namespace === 'string' ? body.namespace : null,
+      public_key: publicKey,
+      fingerprint,
+      algorithm,
+      capability_scope: ['local', 'dan'],
+    };
+  };
+
+  const insertKey = async (row) => {
+    const { data, error } = await ensureSupabase().from('dan_keys').insert(row).select().single();
+    if (error?.code === UNIQUE_VIOLATION) throw new DanKeysError(409, `DAN key ${row.fingerprint} is already registered.`);
+    if (error) throw error;
+    return mapDanKeyRow(data);
+  };
+
+  const handle = (fn) => async (req, res) => {
+    try {
+      await fn(req, res);
+    } catch (error) {
+      if (error instanceof DanKeysError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      logger.error('[DanKeys] Request failed:', error);
+      res.status(500).json({ error: 'DAN key request failed' });
+    }
+  };
+
+  // Registering again only refreshes last_seen_at; status never changes here
+  router.post('/', handle(async (req, res) => {
+    const shopId = resolveShop(req);
+    const material = await readKeyMaterial(shopId, req.body);
+    const rows = await loadShopKeys(shopId);
+    const existing = rows.find((entry) => entry.fingerprint === material.fingerprint);
+    if (existing) {
+      const key = await updateKey(shopId, existing.fingerprint, { last_seen_at: new Date().toISOString() });
+      res.json({ key });
+      return;
+    }
+
+    const bootstrap = !rows.some((entry) => isSigningStatus(entry.status))
+      && sessionHasPermission(req.session, 'managePolicies');
+    const key = await insertKey({
+      ...material,
+      status: bootstrap ? 'active' : 'pending',
+      last_seen_at: new Date().toISOString(),
+    });
+    if (bootstrap) logger.info(`[DanKeys] ${req.session.sub} enrolled the first DAN key ${key.fingerprint} for shop ${shopId}.`);
+    res.status(201).json({ key });
+  }));
+
+  /**
+   * The new key is approved by the current one, which keeps verifying for the
+   * overlap. The current key is retired first, conditional on it still being
+   * active, so concurrent rotations cannot leave two active successors; if the
+   * new key cannot be stored the current one is made active again.
+   */
+  router.post('/rotate', handle(async (req, res) => {
+    const shopId = resolveShop(req);
+    requireManage(req);
+    const { fingerprint, approvalSignature } = req.body || {};
+    const current = findKey(await loadShopKeys(shopId), fingerprint);
+    if (current.status !== 'active') throw new DanKeysError(409, `DAN key ${fingerprint} is ${current.status}, not active.`);
+    const material = await readKeyMaterial(shopId, req.body?.next);
+    const approved = typeof approvalSignature === 'string' && await verifyKeyApproval(
+      mapDanKeyRow(current), shopId, material.public_key, material.fingerprint, approvalSignature,
+    );
+    if (!approved) throw new DanKeysError(400, 'approvalSignature does not verify against the current key.');
+
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + ROTATION_OVERLAP_DAYS * 24 * 60 * 60 * 1000);
+    const retired = await updateKey(shopId, current.fingerprint, { status: 'retiring', expires_at: expiresAt.toISOString() }, 'active');
+    let key;
+    try {
+      key = await insertKey({
+        ...material,
+        status: 'active',
+        approved_by_fingerprint: current.fingerprint,
+        approval_signature: approvalSignature,
+        last_seen_at: now.toISOString(),
+      });
+    } catch (error) {
+      await updateKey(shopId, current.fingerprint, { status: 'active', expires_at: null }, 'retiring').catch((restoreError) =>
+        logger.error(`[DanKeys] Failed to reactivate DAN key ${current.fingerprint} after a failed rotation:`, restoreError));
+      throw error;
+    }
+    res.status(201).json({ key, retired });
+  }));
+
+  router.post('/:fingerprint/approve', handle(async (req, res) => {
+    const shopId = resolveShop(req);
+    requireManage(req);
+    const { approverFingerprint, approvalSignature } = req.body || {};
+    const rows = await loadShopKeys(shopId);
+    const pending = findKey(rows, req.params.fingerprint);
+    if (pending.status !== 'pending') throw new DanKeysError(409, `DAN key ${pending.fingerprint} is ${pending.status}, not pending.`);
+    const approver = findKey(rows, approverFingerprint);
+    if (approver.status !== 'active') throw new DanKeysError(409, `Approving key ${approver.fingerprint} is ${approver.status}, not active.`);
+    const approved = typeof approvalSignature === 'string' && await verifyKeyApproval(
+      mapDanKeyRow(approver), shopId, pending.public_key, pending.fingerprint, approvalSignature,
+    );
+    if (!approved) throw new DanKeysError(400, 'approvalSignature does not verify against the approving key.');
+
+    const key = await updateKey(shopId, pending.fingerprint, {
+      status: 'active',
+      approved_by_fingerprint: approver.fingerprint,
+      approval_signature: approvalSignature,
+    }, 'pending');
+    res.json({ key });
+  }));
+
+  // Revoked keys fail verification for every event they signed, past or future
+  router.post('/:fingerprint/revoke', handle(async (req, res) => {
+    const shopId = resolveShop(req);
+    requireManage(req);
+    const existing = findKey(await loadShopKeys(shopId), req.params.fingerprint);
+    if (existing.status === 'revoked') throw new DanKeysError(409, `DAN key ${existing.fingerprint} is already revoked.`);
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim().slice(0, MAX_REVOKE_REASON_LENGTH) : '';
+    const now = new Date().toISOString();
+    const key = await updateKey(shopId, existing.fingerprint, {
+      status: 'revoked',
+      revoked_at: now,
+      revoked_reason: reason || null,
+    }, existing.status);
+    logger.info(`[DanKeys] ${req.session.sub} revoked DAN key ${key.fingerprint} of shop ${shopId}.`);
+    res.json({ key });
+  }));
+
+  router.patch('/:fingerprint', handle(async (req, res) => {
+    const shopId = resolveShop(req);
+    const label = typeof req.body?.deviceLabel === 'string' ? req.body.deviceLabel.trim() : '';
+    if (label.length > MAX_DEVICE_LABEL_LENGTH) throw new DanKeysError(400, `deviceLabel must be at most ${MAX_DEVICE_LABEL_LENGTH} characters`);
+    findKey(await loadShopKeys(shopId), req.params.fingerprint);
+    const key = await updateKey(shopId, req.params.fingerprint, { device_label: label || null });
+    res.json({ key });
+  }));
+
+  return router;
+};
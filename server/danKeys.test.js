@@ -0,0 +1,180 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import express from 'express';
+import { webcrypto } from 'node:crypto';
+import { createDanKeysRouter } from './danKeys.js';
+import { requireSession, signAccessToken } from './auth.js';
+import {
+  generateSigningKey,
+  loadSigningKey,
+  mapDanKeyRow,
+  serializeKeyApproval,
+  signDanEvent,
+  verifyDanEvent,
+} from './danSigning.js';
+import { createFakeSupabase } from './testing/fakeSupabase.js';
+
+const SECRET = 'test-secret';
+const silent = { info: () => {}, warn: () => {}, error: () => {} };
+
+const owner = { sub: 'owner-a', shopId: 'shop-a', shopIds: ['shop-a'], staffRole: 'owner', roles: { shop: true } };
+const clerk = { sub: 'clerk-a', shopId: 'shop-a', shopIds: ['shop-a'], staffRole: 'clerk', roles: { shop: true } };
+const otherShop = { sub: 'owner-b', shopId: 'shop-b', shopIds: ['shop-b'], staffRole: 'owner', roles: { shop: true } };
+
+const newKey = async () => loadSigningKey(await generateSigningKey());
+
+const signApproval = async (signer, key, shopId = 'shop-a') => {
+  const signature = await webcrypto.subtle.sign(
+    { name: 'Ed25519' },
+    signer.privateKey,
+    new TextEncoder().encode(serializeKeyApproval(shopId, key.publicKey, key.fingerprint)),
+  );
+  return Buffer.from(signature).toString('base64');
+};
+
+const registration = async (key, deviceId = 'device-1') => ({
+  deviceId,
+  publicKey: key.publicKey,
+  algorithm: key.algorithm,
+  proof: await signApproval(key, key),
+});
+
+describe('/api/dan/keys', () => {
+  let supabase;
+  let server;
+  let base;
+
+  beforeEach(() => {
+    supabase = createFakeSupabase({ dan_keys: [] });
+    const app = express();
+    app.use(express.json());
+    app.use('/api/dan/keys', requireSession(SECRET), createDanKeysRouter(supabase, { logger: silent }));
+    server = app.listen(0);
+    base = `http://127.0.0.1:${server.address().port}/api/dan/keys`;
+  });
+
+  afterEach(() => server.close());
+
+  const post = async (session, path, body = {}) => {
+    const response = await fetch(`${base}${path}`, {
+      method: 'POST',
+      headers: { authorization: `Bearer ${signAccessToken(SECRET, session)}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  const storedKey = (fingerprint) => supabase.db.dan_keys.find((row) => row.fingerprint === fingerprint);
+
+  it('activates only the first key an owner or manager enrolls', async () => {
+    const first = await newKey();
+    const clerkKey = await newKey();
+    expect((await post(clerk, '', await registration(clerkKey))).body.key.status).toBe('pending');
+
+    const enrolled = await post(owner, '', await registration(first));
+    expect(enrolled.status).toBe(201);
+    expect(enrolled.body.key).toMatchObject({ fingerprint: first.fingerprint, status: 'active', approvedByFingerprint: null });
+
+    const second = await newKey();
+    expect((await post(owner, '', await registration(second, 'device-2'))).body.key.status).toBe('pending');
+    expect((await post(owner, '', await registration(first))).body.key.status).toBe('active');
+  });
+
+  it('refuses keys the device cannot prove it holds', async () => {
+    const key = await newKey();
+    const stranger = await newKey();
+    const { status } = await post(owner, '', { ...(await registration(key)), proof: await signApproval(stranger, key) });
+    expect(status).toBe(400);
+    expect(supabase.db.dan_keys).toHaveLength(0);
+  });
+
+  it('approves pending keys only with a signature from an active key', async () => {
+    const first = await newKey();
+    const pending = await newKey();
+    await post(owner, '', await registration(first));
+    await post(clerk, '', await registration(pending, 'device-2'));
+
+    const approval = { approverFingerprint: first.fingerprint, approvalSignature: await signApproval(first, pending) };
+    expect((await post(clerk, `/${pending.fingerprint}/approve`, approval)).status).toBe(403);
+    expect((await post(otherShop, `/${pending.fingerprint}/approve`, approval)).status).toBe(404);
+    const forged = { ...approval, approvalSignature: await signApproval(pending, pending) };
+    expect((await post(owner, `/${pending.fingerprint}/approve`, forged)).status).toBe(400);
+    expect(storedKey(pending.fingerprint).status).toBe('pending');
+
+    const approved = await post(owner, `/${pending.fingerprint}/approve`, approval);
+    expect(approved.body.key).toMatchObject({ status: 'active', approvedByFingerprint: first.fingerprint });
+  });
+
+  it('only lets the shop revoke its keys', async () => {
+    const key = await newKey();
+    await post(owner, '', await registration(key));
+
+    expect((await post(otherShop, `/${key.fingerprint}/revoke`)).status).toBe(404);
+    expect((await post(otherShop, `/${key.fingerprint}/revoke`, { shopId: 'shop-a' })).status).toBe(403);
+    expect((await post(clerk, `/${key.fingerprint}/revoke`)).status).toBe(403);
+    expect(storedKey(key.fingerprint).status).toBe('active');
+
+    const revoked = await post(owner, `/${key.fingerprint}/revoke`, { reason: 'Lost tablet' });
+    expect(revoked.body.key).toMatchObject({ status: 'revoked', revokedReason: 'Lost tablet' });
+  });
+
+  it('rotates to a key approved by the current one', async () => {
+    const current = await newKey();
+    const next = await newKey();
+    await post(owner, '', await registration(current));
+    const rotation = {
+      fingerprint: current.fingerprint,
+      approvalSignature: await signApproval(current, next),
+      next: await registration(next),
+    };
+
+    expect((await post(clerk, '/rotate', rotation)).status).toBe(403);
+    expect(storedKey(current.fingerprint).status).toBe('active');
+
+    const rotated = await post(owner, '/rotate', rotation);
+    expect(rotated.status).toBe(201);
+    expect(rotated.body.key).toMatchObject({ status: 'active', approvedByFingerprint: current.fingerprint });
+    expect(rotated.body.retired.status).toBe('retiring');
+    expect(rotated.body.retired.expiresAt).toBeTruthy();
+    expect((await post(owner, '/rotate', rotation)).status).toBe(409);
+  });
+
+  it('keeps the current key active when the new key cannot be stored', async () => {
+    const current = await newKey();
+    const next = await newKey();
+    await post(owner, '', await registration(current));
+    // Every insert fails, as when the database rejects the new row
+    const { from } = supabase;
+    supabase.from = (table) => ({
+      ...from(table),
+      insert: () => ({ select: () => ({ single: async () => ({ data: null, error: new Error('insert failed') }) }) }),
+    });
+
+    const { status } = await post(owner, '/rotate', {
+      fingerprint: current.fingerprint,
+      approvalSignature: await signApproval(current, next),
+      next: await registration(next),
+    });
+    expect(status).toBe(500);
+    expect(storedKey(current.fingerprint)).toMatchObject({ status: 'active', expires_at: null });
+    expect(supabase.db.dan_keys.filter((row) => row.status === 'active')).toHaveLength(1);
+  });
+});
+
+describe('DAN key trust', () => {
+  it('trusts no unapproved key when a shop has more than one', async () => {
+    const first = await newKey();
+    const second = await newKey();
+    const row = (key, createdAt) => ({
+      shop_id: 'shop-a', device_id: key.fingerprint, public_key: key.publicKey, fingerprint: key.fingerprint,
+      algorithm: key.algorithm, status: 'active', created_at: createdAt,
+    });
+    const event = await signDanEvent(first, {
+      eventId: 'event-1', eventType: 'inventory.offer.created', shopId: 'shop-a', namespace: null,
+      payload: {}, shareScope: ['dan'], createdAt: new Date().toISOString(),
+    });
+
+    expect(await verifyDanEvent(event, [mapDanKeyRow(row(first, '2024-01-01'))])).toEqual({ valid: true });
+    const tampered = [row(first, '2024-01-01'), row(second, '2024-01-02')].map(mapDanKeyRow);
+    expect(await verifyDanEvent(event, tampered)).toEqual({ valid: false, reason: 'key-unapproved' });
+  });
+});
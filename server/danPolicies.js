@@ -0,0 +1,129 @@
+/**
+ * DAN policies (server-side)
+ *
+ * The policy worker runs dan_policies with the service role key, so a policy
+ * row can notify staff, tag stock, publish signed DAN events and call
+ * webhooks for its shop. Only the server writes the table: saves and deletes
+ * come through here from sessions that may manage the shop's policies, and
+ * each save is validated with the worker's own rules and recorded in
+ * dan_policy_versions.
+ */
+
+import express from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { validatePolicy } from './policyRules.js';
+import { mapPolicyRow } from './policyWorker.js';
+import { canAccessShop } from './qdrantAccess.js';
+import { sessionHasPermission } from './staff.js';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+class DanPoliciesError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/**
+ * /api/dan/policies: create, update and delete a shop's policies. Reads stay
+ * on Supabase directly. Requests act on the policy's shop, which the session
+ * must cover, and need managePolicies.
+ */
+export const createDanPoliciesRouter = (supabase, { logger = console } = {}) => {
+  const router = express.Router();
+
+  const ensureSupabase = () => {
+    if (!supabase) throw new DanPoliciesError(503, 'Policies are unavailable: SUPABASE_URL is not set on the server.');
+    return supabase;
+  };
+
+  const authorize = (req, shopId) => {
+    if (!shopId || !canAccessShop(req.session, shopId)) {
+      throw new DanPoliciesError(403, 'Policies belong to a shop you work at.');
+    }
+    if (!sessionHasPermission(req.session, 'managePolicies')) {
+      throw new DanPoliciesError(403, 'Your staff role does not allow this (needs managePolicies).');
+    }
+  };
+
+  const loadPolicyRow = async (policyId) => {
+    const { data, error } = await ensureSupabase().from('dan_policies').select('*').eq('id', policyId).maybeSingle();
+    if (error) throw error;
+    return data;
+  };
+
+  const handle = (fn) => async (req, res) => {
+    try {
+      await fn(req, res);
+    } catch (error) {
+      if (error instanceof DanPoliciesError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      logger.error('[DanPolicies] Request failed:', error);
+      res.status(500).json({ error: 'Policy request failed' });
+    }
+  };
+
+  // Creates the policy or replaces it; a policy never moves between shops
+  router.put('/:policyId', handle(async (req, res) => {
+    const { policyId } = req.params;
+    if (!UUID_PATTERN.test(policyId)) throw new DanPoliciesError(400, 'Policy IDs are UUIDs.');
+    const input = req.body?.policy;
+    if (!input || typeof input !== 'object') throw new DanPoliciesError(400, 'policy is required');
+    authorize(req, input.shopId);
+    const errors = validatePolicy(input);
+    if (errors.length) throw new DanPoliciesError(400, `Invalid policy: ${errors.join('; ')}`);
+
+    const existing = await loadPolicyRow(policyId);
+    if (existing && existing.shop_id !== input.shopId) throw new DanPoliciesError(404, `Policy ${policyId} not found`);
+    const now = new Date().toISOString();
+    const row = {
+      id: policyId,
+      shop_id: input.shopId,
+      name: input.name.trim(),
+      description: typeof input.description === 'string' && input.description ? input.description : null,
+      event_type: input.eventType,
+      scope: typeof input.scope === 'string' ? input.scope : 'inventory',
+      version: typeof input.version === 'string' ? input.version : '1.0',
+      config: { conditions: input.conditions, actions: input.actions, cooldown: input.cooldown || null },
+      enabled: input.enabled !== false,
+      author: typeof input.author === 'string' && input.author ? input.author : req.session.sub,
+      updated_at: now,
+    };
+
+    const client = ensureSupabase();
+    const { data, error } = existing
+      ? await client.from('dan_policies').update(row).eq('id', policyId).eq('shop_id', input.shopId).select().single()
+      : await client.from('dan_policies').insert({ ...row, created_at: now }).select().single();
+    if (error) throw error;
+    const policy = mapPolicyRow(data);
+
+    // The Policy Center lists these snapshots as the policy's history
+    const { error: versionError } = await client.from('dan_policy_versions').insert({
+      id: uuidv4(),
+      policy_id: policy.id,
+      shop_id: policy.shopId,
+      version: policy.version,
+      snapshot: policy,
+      author: policy.author,
+      created_at: now,
+    });
+    if (versionError) logger.warn('[DanPolicies] Failed to record policy version', versionError.message);
+
+    res.status(existing ? 200 : 201).json({ policy });
+  }));
+
+  router.delete('/:policyId', handle(async (req, res) => {
+    const shopId = req.query.shopId || req.session?.shopId;
+    authorize(req, shopId);
+    const existing = UUID_PATTERN.test(req.params.policyId) ? await loadPolicyRow(req.params.policyId) : null;
+    if (!existing || existing.shop_id !== shopId) throw new DanPoliciesError(404, `Policy ${req.params.policyId} not found`);
+    const { error } = await ensureSupabase().from('dan_policies').delete().eq('id', existing.id).eq('shop_id', shopId);
+    if (error) throw error;
+    res.status(204).end();
+  }));
+
+  return router;
+};
@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import express from 'express';
+import { createDanPoliciesRouter } from './danPolicies.js';
+import { requireSession, signAccessToken } from './auth.js';
+import { createFakeSupabase } from './testing/fakeSupabase.js';
+
+const SECRET = 'test-secret';
+const silent = { info: () => {}, warn: () => {}, error: () => {} };
+
+const owner = { sub: 'owner-a', shopId: 'shop-a', shopIds: ['shop-a'], staffRole: 'owner', roles: { shop: true } };
+const clerk = { sub: 'clerk-a', shopId: 'shop-a', shopIds: ['shop-a'], staffRole: 'clerk', roles: { shop: true } };
+const otherShop = { sub: 'owner-b', shopId: 'shop-b', shopIds: ['shop-b'], staffRole: 'owner', roles: { shop: true } };
+
+const POLICY_ID = '0b6f2f6c-3f5e-4c1e-9a52-5d1c2b7e8a10';
+
+const policy = (overrides = {}) => ({
+  id: POLICY_ID,
+  shopId: 'shop-a',
+  name: 'Low stock alert',
+  eventType: 'inventory.offer.created',
+  scope: 'inventory',
+  version: '1.0',
+  enabled: true,
+  conditions: [{ field: 'quantity', operator: 'lt', value: 10 }],
+  actions: [{ type: 'notify', params: { message: 'Low stock' } }],
+  ...overrides,
+});
+
+describe('/api/dan/policies', () => {
+  let supabase;
+  let server;
+  let base;
+
+  beforeEach(() => {
+    supabase = createFakeSupabase({ dan_policies: [], dan_policy_versions: [] });
+    const app = express();
+    app.use(express.json());
+    app.use('/api/dan/policies', requireSession(SECRET), createDanPoliciesRouter(supabase, { logger: silent }));
+    server = app.listen(0);
+    base = `http://127.0.0.1:${server.address().port}/api/dan/policies`;
+  });
+
+  afterEach(() => server.close());
+
+  const call = async (session, method, path, body) => {
+    const response = await fetch(`${base}${path}`, {
+      method,
+      headers: { authorization: `Bearer ${signAccessToken(SECRET, session)}`, 'Content-Type': 'application/json' },
+      body: body && JSON.stringify(body),
+    });
+    return { status: response.status, body: response.status === 204 ? null : await response.json() };
+  };
+
+  it('saves policies and records each version', async () => {
+    const created = await call(owner, 'PUT', `/${POLICY_ID}`, { policy: policy() });
+    expect(created.status).toBe(201);
+    expect(created.body.policy).toMatchObject({ id: POLICY_ID, shopId: 'shop-a', enabled: true });
+
+    const updated = await call(owner, 'PUT', `/${POLICY_ID}`, { policy: policy({ version: '1.1', enabled: false }) });
+    expect(updated.status).toBe(200);
+    expect(supabase.db.dan_policies).toHaveLength(1);
+    expect(supabase.db.dan_policies[0]).toMatchObject({ version: '1.1', enabled: false });
+    expect(supabase.db.dan_policy_versions.map((row) => row.version)).toEqual(['1.0', '1.1']);
+  });
+
+  it('needs managePolicies and the policy\'s shop', async () => {
+    expect((await call(clerk, 'PUT', `/${POLICY_ID}`, { policy: policy() })).status).toBe(403);
+    expect((await call(otherShop, 'PUT', `/${POLICY_ID}`, { policy: policy() })).status).toBe(403);
+    await call(owner, 'PUT', `/${POLICY_ID}`, { policy: policy() });
+
+    // Reusing another shop's policy ID does not move the policy
+    const hijack = await call(otherShop, 'PUT', `/${POLICY_ID}`, { policy: policy({ shopId: 'shop-b' }) });
+    expect(hijack.status).toBe(404);
+    expect((await call(otherShop, 'DELETE', `/${POLICY_ID}`)).status).toBe(404);
+    expect((await call(clerk, 'DELETE', `/${POLICY_ID}`)).status).toBe(403);
+    expect(supabase.db.dan_policies[0].shop_id).toBe('shop-a');
+
+    expect((await call(owner, 'DELETE', `/${POLICY_ID}`)).status).toBe(204);
+    expect(supabase.db.dan_policies).toHaveLength(0);
+  });
+
+  it('rejects policies the worker would skip', async () => {
+    const { status, body } = await call(owner, 'PUT', `/${POLICY_ID}`, {
+      policy: policy({ actions: [{ type: 'call_webhook', params: { url: 'http://169.254.169.254/' } }] }),
+    });
+    expect(status).toBe(400);
+    expect(body.error).toMatch(/endpointId/);
+    expect(supabase.db.dan_policies).toHaveLength(0);
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * DAN replay (server-side)
+ *
+ * Rebuilds dan_inventory from the dan_events log, for a node that joins late
+ * or lost its Qdrant data. Events are read in created_at order, verified the
+ * way the live sync verifies them (signature, key trust and payload hash) and
+ * folded into an offer map with the same rules as applyDanOfferEvent in
+ * services/vectorDBService.ts. Progress is kept in a checkpoint so a long
+ * replay can stop and resume; the rebuilt map is compared with the live
+ * collection before anything is written.
+ */
+
+import { canonicalizeDanValue, mapDanEventRow, mapDanKeyRow, verifyDanEvent } from './danSigning.js';
+
+export const CHECKPOINT_VERSION = 1;
+const DEFAULT_PAGE_SIZE = 500;
+
+// Offer fields compared against the live collection (updatedAt differs by design)
+const DIFF_FIELDS = [
+  'shopId',
+  'shopName',
+  'productId',
+  'productName',
+  'quantity',
+  'expirationDate',
+  'locationBucket',
+  'sellPrice',
+  'shareScope',
+  'proofHash',
+  'signerFingerprint',
+];
+
+export const createReplayCheckpoint = () => ({
+  version: CHECKPOINT_VERSION,
+  cursor: null,
+  processed: 0,
+  applied: 0,
+  rejected: {},
+  offers: {},
+  updatedAt: null,
+});
+
+// Mirrors applyDanOfferEvent; returns whether the offer map changed
+export const applyDanOfferEvent = (offers, event) => {
+  const payload = event.payload || {};
+  if (!payload.inventoryUuid) return false;
+  if (event.eventType === 'inventory.offer.created') {
+    offers[payload.inventoryUuid] = {
+      inventoryUuid: payload.inventoryUuid,
+      productId: payload.productId,
+      productName: payload.productName,
+      quantity: Number(payload.quantity) || 0,
+      expirationDate: payload.expirationDate,
+      locationBucket: payload.locationBucket ?? null,
+      sellPrice: payload.sellPrice ?? null,
+      shopId: event.shopId,
+      shopName: payload.shopName ?? null,
+      shareScope: event.shareScope,
+      proofHash: payload.proofHash,
+      signerFingerprint: event.actor.fingerprint,
+      vector: event.vectorContext || undefined,
+      updatedAt: event.createdAt,
+    };
+    return true;
+  }
+  if (event.eventType === 'inventory.offer.fulfilled') {
+    const offer = offers[payload.inventoryUuid];
+    if (!offer) return false;
+    const remaining = Number(payload.remainingQuantity) || 0;
+    if (remaining <= 0) {
+      delete offers[payload.inventoryUuid];
+    } else {
+      offers[payload.inventoryUuid] = {
+        ...offer,
+        quantity: remaining,
+        signerFingerprint: event.actor.fingerprint || offer.signerFingerprint,
+        updatedAt: event.createdAt,
+      };
+    }
+    return true;
+  }
+  return false;
+};
+
+const sameValue = (a, b) => canonicalizeDanValue(a ?? null) === canonicalizeDanValue(b ?? null);
+
+/**
+ * Where the rebuilt offers differ from the live collection: offers only the
+ * replay produced (missing), offers only live has (extra) and offers whose
+ * fields disagree (changed).
+ */
+export const diffDanInventory = (rebuiltOffers, livePayloads) => {
+  const live = new Map(livePayloads.map((payload) => [payload.inventoryUuid, payload]));
+  const missing = [];
+  const changed = [];
+  Object.values(rebuiltOffers).forEach((offer) => {
+    const current = live.get(offer.inventoryUuid);
+    live.delete(offer.inventoryUuid);
+    if (!current) {
+      missing.push(offer);
+      return;
+    }
+    const fields = DIFF_FIELDS
+      .filter((field) => !sameValue(offer[field], current[field]))
+      .map((field) => ({ field, live: current[field] ?? null, rebuilt: offer[field] ?? null }));
+    if (fields.length) changed.push({ inventoryUuid: offer.inventoryUuid, fields });
+  });
+  return { missing, extra: Array.from(live.values()), changed };
+};
+
+/**
+ * Page through dan_events from the checkpoint's cursor, folding verified
+ * offer events into checkpoint.offers. onPage runs after every page with the
+ * updated checkpoint so the caller can persist it.
+ */
+export const replayDanEvents = async (supabase, {
+  checkpoint = createReplayCheckpoint(),
+  shopId = null,
+  pageSize = DEFAULT_PAGE_SIZE,
+  onPage = null,
+} = {}) => {
+  const keyCache = new Map();
+  const loadShopKeys = async (eventShopId) => {
+    if (!keyCache.has(eventShopId)) {
+      const { data, error } = await supabase
+        .from('dan_keys')
+        .select('*')
+        .eq('shop_id', eventShopId)
+        .order('created_at', { ascending: true });
+      if (error) throw error;
+      keyCache.set(eventShopId, (data || []).map(mapDanKeyRow));
+    }
+    return keyCache.get(eventShopId);
+  };
+
+  for (;;) {
+    let query = supabase.from('dan_events').select('*');
+    if (shopId) query = query.eq('shop_id', shopId);
+    // Keyset paging on (created_at, event_id), so resuming never skips or repeats an event
+    const { cursor } = checkpoint;
+    if (cursor) {
+      query = query.or(
+        `created_at.gt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",event_id.gt.${cursor.eventId})`,
+      );
+    }
+    const { data, error } = await query
+      .order('created_at', { ascending: true })
+      .order('event_id', { ascending: true })
+      .limit(pageSize);
+    if (error) throw error;
+
+    for (const row of data || []) {
+      const event = mapDanEventRow(row);
+      const verification = await verifyDanEvent(event, await loadShopKeys(event.shopId));
+      if (verification.valid) {
+        if (applyDanOfferEvent(checkpoint.offers, event)) checkpoint.applied += 1;
+      } else {
+        checkpoint.rejected[verification.reason] = (checkpoint.rejected[verification.reason] || 0) + 1;
+      }
+      checkpoint.processed += 1;
+      checkpoint.cursor = { createdAt: row.created_at, eventId: row.event_id };
+    }
+    checkpoint.updatedAt = new Date().toISOString();
+    if (onPage) await onPage(checkpoint);
+    if (!data || data.length < pageSize) break;
+  }
+  return checkpoint;
+};
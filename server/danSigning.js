@@ -0,0 +1,205 @@
+/**
+ * DAN signing (server-side)
+ *
+ * Node counterpart of the signing and verification half of
+ * services/danRegistry.ts. Canonical serialization, payload hashes, key
+ * approvals and trust rules must match the browser byte for byte, or events
+ * signed on one side fail verification on the other.
+ */
+
+import { webcrypto } from 'node:crypto';
+
+const subtle = webcrypto.subtle;
+
+const SIGNING_PARAMS = {
+  Ed25519: { key: { name: 'Ed25519' }, sign: { name: 'Ed25519' } },
+  'ECDSA-P256': {
+    key: { name: 'ECDSA', namedCurve: 'P-256' },
+    sign: { name: 'ECDSA', hash: 'SHA-256' },
+  },
+};
+
+const toBase64 = (buffer) => Buffer.from(buffer).toString('base64');
+const fromBase64 = (value) => Buffer.from(value, 'base64');
+
+export const canonicalizeDanValue = (value) => {
+  if (value === null || value === undefined || typeof value !== 'object') {
+    return JSON.stringify(value ?? null);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalizeDanValue(item)).join(',')}]`;
+  }
+  const entries = Object.entries(value)
+    .filter(([, member]) => member !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([key, member]) => `${JSON.stringify(key)}:${canonicalizeDanValue(member)}`).join(',')}}`;
+};
+
+export const hashDanPayload = async (input) => {
+  const serialized = typeof input === 'string' ? input : canonicalizeDanValue(input ?? {});
+  const digest = await subtle.digest('SHA-256', new TextEncoder().encode(serialized));
+  return Buffer.from(digest).toString('hex');
+};
+
+export const serializeDanEventForSigning = (record) => canonicalizeDanValue({
+  eventId: record.eventId,
+  eventType: record.eventType,
+  shopId: record.shopId,
+  namespace: record.namespace ?? null,
+  payload: record.payload,
+  shareScope: record.shareScope,
+  vectorContext: record.vectorContext ?? null,
+  proofs: record.proofs ?? null,
+  createdAt: new Date(record.createdAt).toISOString(),
+  publicKey: record.actor.publicKey,
+});
+
+export const serializeKeyApproval = (shopId, publicKey, fingerprint) =>
+  canonicalizeDanValue({ purpose: 'dan-key-approval', shopId, publicKey, fingerprint });
+
+export const fingerprintPublicKey = async (publicKey) => (await hashDanPayload(publicKey)).slice(0, 16);
+
+export const mapDanEventRow = (row) => ({
+  eventId: row.event_id,
+  eventType: row.event_type,
+  shopId: row.shop_id,
+  namespace: row.namespace,
+  payload: row.payload,
+  shareScope: row.share_scope || ['local'],
+  vectorContext: row.vector_context || null,
+  proofs: row.proofs,
+  actor: {
+    publicKey: row.actor_public_key,
+    fingerprint: row.actor_fingerprint,
+    signature: row.actor_signature,
+  },
+  createdAt: row.created_at,
+});
+
+export const toDanEventRow = (record) => ({
+  event_id: record.eventId,
+  shop_id: record.shopId,
+  namespace: record.namespace,
+  event_type: record.eventType,
+  payload: record.payload,
+  share_scope: record.shareScope,
+  vector_context: record.vectorContext,
+  proofs: record.proofs,
+  actor_public_key: record.actor.publicKey,
+  actor_fingerprint: record.actor.fingerprint,
+  actor_signature: record.actor.signature,
+  created_at: record.createdAt,
+});
+
+export const mapDanKeyRow = (row) => ({
+  shopId: row.shop_id,
+  deviceId: row.device_id,
+  deviceLabel: row.device_label || null,
+  publicKey: row.public_key,
+  fingerprint: row.fingerprint,
+  algorithm: row.algorithm || null,
+  status: row.status || 'pending',
+  approvedByFingerprint: row.approved_by_fingerprint || null,
+  approvalSignature: row.approval_signature || null,
+  expiresAt: row.expires_at || null,
+  revokedAt: row.revoked_at || null,
+  revokedReason: row.revoked_reason || null,
+  createdAt: row.created_at,
+});
+
+// ===== KEYS =====
+
+// Import a base64 PKCS#8 Ed25519 private key and derive its public half
+export const loadSigningKey = async (privateKeyBase64) => {
+  const privateKey = await subtle.importKey('pkcs8', fromBase64(privateKeyBase64), SIGNING_PARAMS.Ed25519.key, true, ['sign']);
+  const jwk = await subtle.exportKey('jwk', privateKey);
+  const publicKeyObject = await subtle.importKey('jwk', { kty: jwk.kty, crv: jwk.crv, x: jwk.x }, SIGNING_PARAMS.Ed25519.key, true, ['verify']);
+  const publicKey = toBase64(await subtle.exportKey('spki', publicKeyObject));
+  return {
+    algorithm: 'Ed25519',
+    privateKey,
+    publicKey,
+    fingerprint: await fingerprintPublicKey(publicKey),
+  };
+};
+
+export const generateSigningKey = async () => {
+  const pair = await subtle.generateKey(SIGNING_PARAMS.Ed25519.key, true, ['sign', 'verify']);
+  return toBase64(await subtle.exportKey('pkcs8', pair.privateKey));
+};
+
+export const signDanEvent = async (signingKey, unsignedRecord) => {
+  const record = { ...unsignedRecord, actor: { publicKey: signingKey.publicKey } };
+  const signature = await subtle.sign(
+    SIGNING_PARAMS.Ed25519.sign,
+    signingKey.privateKey,
+    new TextEncoder().encode(serializeDanEventForSigning(record)),
+  );
+  return {
+    ...unsignedRecord,
+    actor: { publicKey: signingKey.publicKey, fingerprint: signingKey.fingerprint, signature: toBase64(signature) },
+  };
+};
+
+const verifyMessage = async (algorithm, publicKey, signature, message) => {
+  const params = SIGNING_PARAMS[algorithm];
+  if (!params) return false;
+  try {
+    const key = await subtle.importKey('spki', fromBase64(publicKey), params.key, false, ['verify']);
+    return await subtle.verify(params.sign, key, fromBase64(signature), new TextEncoder().encode(message));
+  } catch {
+    return false;
+  }
+};
+
+// ===== VERIFICATION =====
+
+export const isSupportedDanAlgorithm = (algorithm) => Object.hasOwn(SIGNING_PARAMS, algorithm);
+
+// Whether `signer` signed the key approval for `publicKey` in the shop
+export const verifyKeyApproval = (signer, shopId, publicKey, fingerprint, signature) =>
+  verifyMessage(signer.algorithm, signer.publicKey, signature, serializeKeyApproval(shopId, publicKey, fingerprint));
+
+const checkKeyTrust = async (key, shopKeys, eventCreatedAt) => {
+  if (key.status === 'revoked') return 'key-revoked';
+  if (key.status === 'pending') return 'key-pending';
+  if (key.status === 'retiring' && key.expiresAt
+    && new Date(eventCreatedAt).getTime() > new Date(key.expiresAt).getTime()) {
+    return 'key-expired';
+  }
+  if (!key.approvedByFingerprint) {
+    // One unapproved signing key per shop, as server/danKeys.js enrolls them
+    const bootstrapKeys = shopKeys.filter((entry) => !entry.approvedByFingerprint
+      && (entry.status === 'active' || entry.status === 'retiring'));
+    return bootstrapKeys.length === 1 && bootstrapKeys[0].fingerprint === key.fingerprint ? null : 'key-unapproved';
+  }
+  const approver = shopKeys.find((entry) => entry.fingerprint === key.approvedByFingerprint);
+  if (!approver?.algorithm || approver.status === 'revoked' || !key.approvalSignature) return 'key-unapproved';
+  const approved = await verifyKeyApproval(approver, key.shopId, key.publicKey, key.fingerprint, key.approvalSignature);
+  return approved ? null : 'key-unapproved';
+};
+
+/**
+ * Verify an event against its shop's keys (all of them, oldest first, as
+ * returned by a dan_keys query). Returns { valid, reason? } like the browser.
+ */
+export const verifyDanEvent = async (record, shopKeys) => {
+  const fail = (reason) => ({ valid: false, reason });
+  if (!record.actor?.publicKey || !record.actor.signature) return fail('unsigned');
+  const signingKey = shopKeys.find((entry) => entry.publicKey === record.actor.publicKey);
+  if (!signingKey) return fail('unknown-key');
+  if (signingKey.fingerprint !== record.actor.fingerprint) return fail('key-mismatch');
+  if (!signingKey.algorithm || !SIGNING_PARAMS[signingKey.algorithm]) return fail('unsupported-algorithm');
+  const trustFailure = await checkKeyTrust(signingKey, shopKeys, record.createdAt);
+  if (trustFailure) return fail(trustFailure);
+  if (record.proofs?.hash && record.proofs.hash !== (await hashDanPayload(record.payload))) {
+    return fail('payload-hash-mismatch');
+  }
+  const valid = await verifyMessage(
+    signingKey.algorithm,
+    signingKey.publicKey,
+    record.actor.signature,
+    serializeDanEventForSigning(record),
+  );
+  return valid ? { valid: true } : fail('bad-signature');
+};
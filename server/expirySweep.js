@@ -0,0 +1,136 @@
+/**
+ * Expiry Sweep (server-side)
+ *
+ * Node counterpart of services/qdrant/services/expiry.ts so the sweep can run on
+ * a schedule from server/index.js or from scripts/expirySweep.mjs without a browser.
+ * Point IDs and placeholder vectors match the client so both write the same ledger.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { composePointId, buildPlaceholderVector, resolveVectorField, scrollAll } from './qdrantPoints.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RETAIL_MARKUP = 1.4;
+
+export const DEFAULT_MARKDOWN_WINDOW_DAYS = 3;
+
+const MARKDOWN_TIERS = [
+  { maxDays: 1, discount: 0.5 },
+  { maxDays: 2, discount: 0.3 },
+  { maxDays: 7, discount: 0.15 },
+];
+
+const toDateKey = (value) => (typeof value === 'string' ? value.slice(0, 10) : value.toISOString().slice(0, 10));
+
+export const isPastExpiration = (expiration, now = new Date()) => !!expiration && toDateKey(expiration) < toDateKey(now);
+
+const daysUntil = (expiration, now) => Math.round((Date.parse(toDateKey(expiration)) - Date.parse(toDateKey(now))) / DAY_MS);
+
+const suggestMarkdownDiscount = (days) =>
+  (MARKDOWN_TIERS.find((tier) => days <= tier.maxDays) || MARKDOWN_TIERS[MARKDOWN_TIERS.length - 1]).discount;
+
+const scrollItems = (client, shopId) =>
+  scrollAll(client, 'items', shopId ? { must: [{ key: 'shopId', match: { value: shopId } }] } : undefined);
+
+// Flip ACTIVE lots past their expiration to EXPIRED and append write-off movements.
+export const runExpirySweep = async (client, { shopId = null, now = new Date(), dryRun = false } = {}) => {
+  const result = { shopId, expiredLots: 0, unitsWrittenOff: 0, costOfGoodsLoss: 0, lots: [] };
+  const points = await scrollItems(client, shopId);
+
+  for (const point of points) {
+    const payload = point.payload || {};
+    if ((payload.status || 'ACTIVE') !== 'ACTIVE' || !isPastExpiration(payload.expiration, now)) continue;
+
+    const inventoryUuid = payload.inventoryUuid || String(point.id);
+    const quantity = Number(payload.quantity) || 0;
+    const unitCost = Number(payload.buyPrice ?? payload.costPerUnit) || 0;
+    const costOfGoodsLoss = Math.round(quantity * unitCost * 100) / 100;
+    result.lots.push({ inventoryUuid, productId: payload.productId, quantity, costOfGoodsLoss });
+    if (dryRun) continue;
+
+    // Compare-and-set on updatedAt so a concurrent sale is never overwritten
+    const writeId = uuidv4();
+    await client.setPayload('items', {
+      wait: true,
+      payload: {
+        status: 'EXPIRED',
+        quantity: 0,
+        expiredAt: now.toISOString(),
+        writtenOffQuantity: quantity,
+        updatedAt: now.toISOString(),
+        lastWriteId: writeId,
+      },
+      filter: {
+        must: [
+          { has_id: [point.id] },
+          payload.updatedAt
+            ? { key: 'updatedAt', match: { value: payload.updatedAt } }
+            : { is_empty: { key: 'updatedAt' } },
+        ],
+      },
+    });
+    const [stored] = await client.retrieve('items', { ids: [point.id], with_payload: true });
+    if (stored?.payload?.lastWriteId !== writeId) {
+      console.warn(`[Expiry] Skipped ${inventoryUuid}: modified during sweep.`);
+      result.lots.pop();
+      continue;
+    }
+
+    const movementId = `expiry:${inventoryUuid}`;
+    const vector = buildPlaceholderVector(movementId);
+    await client.upsert('stock_movements', {
+      wait: true,
+      points: [{
+        id: composePointId('stock_movements', movementId),
+        ...(await resolveVectorField(client, 'stock_movements', vector)),
+        payload: {
+          movementId,
+          shopId: payload.shopId,
+          inventoryUuid,
+          productId: payload.productId,
+          delta: -quantity,
+          quantityAfter: 0,
+          reason: 'expiry_write_off',
+          createdByUserId: 'system:expiry-sweep',
+          referenceId: toDateKey(payload.expiration),
+          note: null,
+          costOfGoodsLoss,
+          createdAt: now.toISOString(),
+        },
+      }],
+    });
+
+    result.expiredLots += 1;
+    result.unitsWrittenOff += quantity;
+    result.costOfGoodsLoss += costOfGoodsLoss;
+  }
+
+  result.costOfGoodsLoss = Math.round(result.costOfGoodsLoss * 100) / 100;
+  return result;
+};
+
+// Active lots within `withinDays` of expiry with a suggested discounted sellPrice
+export const listMarkdownCandidates = async (client, { shopId, withinDays = DEFAULT_MARKDOWN_WINDOW_DAYS, now = new Date() }) => {
+  const points = await scrollItems(client, shopId);
+  return points
+    .map((point) => point.payload || {})
+    .filter((payload) => (payload.status || 'ACTIVE') === 'ACTIVE' && Number(payload.quantity) > 0)
+    .filter((payload) => payload.expiration && !isPastExpiration(payload.expiration, now))
+    .map((payload) => ({ payload, daysUntilExpiry: daysUntil(payload.expiration, now) }))
+    .filter(({ daysUntilExpiry }) => daysUntilExpiry <= withinDays)
+    .map(({ payload, daysUntilExpiry }) => {
+      const currentSellPrice = payload.sellPrice ?? (Number(payload.buyPrice) || 0) * RETAIL_MARKUP;
+      const discount = suggestMarkdownDiscount(daysUntilExpiry);
+      return {
+        inventoryUuid: payload.inventoryUuid,
+        productId: payload.productId,
+        expirationDate: payload.expiration,
+        daysUntilExpiry,
+        quantity: Number(payload.quantity),
+        currentSellPrice,
+        suggestedSellPrice: Math.round(currentSellPrice * (1 - discount) * 100) / 100,
+        discountPercent: Math.round(discount * 100),
+      };
+    })
+    .sort((a, b) => a.daysUntilExpiry - b.daysUntilExpiry);
+};
@@ -4,6 +4,23 @@ import { config } from 'dotenv';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 import { QdrantClient } from '@qdrant/js-client-rest';
+import { getActivePromotions, buildOnSaleClauses, promotionAppliesToProduct } from './promotions.js';
+import { runExpirySweep, listMarkdownCandidates, DEFAULT_MARKDOWN_WINDOW_DAYS } from './expirySweep.js';
+import { createApiV1Router, handleApiV1Error } from './apiV1.js';
+import { createServerSupabaseClient } from './supabaseClient.js';
+import { createPolicyWorker } from './policyWorker.js';
+import { loadSigningKey } from './danSigning.js';
+import { createMailer } from './mailer.js';
+import { createAuthRouter, requireSession, resolveAuthSecret, resolveCorsOrigin } from './auth.js';
+import { createShopsRouter } from './shops.js';
+import { createStaffRouter } from './staff.js';
+import { createVerificationRouter } from './verification.js';
+import { createOrdersRouter } from './orders.js';
+import { createMarketplaceRouter } from './marketplace.js';
+import { createWebhooksRouter } from './webhooks.js';
+import { createDanKeysRouter } from './danKeys.js';
+import { createDanPoliciesRouter } from './danPolicies.js';
+import { authorizeQdrantRequest, canAccessShop, QdrantAccessError } from './qdrantAccess.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -57,6 +74,7 @@ const PRODUCT_COLLECTION = process.env.QDRANT_PRODUCTS_COLLECTION || 'products';
 const VECTOR_NAME = process.env.QDRANT_VECTOR_NAME || 'embedding';
 const VECTOR_KEY = VECTOR_NAME || 'embedding';
 const VECTOR_SIZE = Number(process.env.QDRANT_VECTOR_SIZE || '768');
+const EXPIRY_SWEEP_INTERVAL_MINUTES = Number(process.env.EXPIRY_SWEEP_INTERVAL_MINUTES || '0');
 
 const proxyLogMode = process.env.QDRANT_PROXY_LOG || 'summary';
 const shouldLogProxy = proxyLogMode !== 'none';
@@ -82,9 +100,31 @@ const summarizePointsPayload = (body) => {
 };
 
 // Middleware
-app.use(cors());
+app.use(cors({ origin: resolveCorsOrigin() }));
 app.use(express.json({ limit: '25mb' }));
 
+// Sessions: /api/auth issues tokens; every other /api and /qdrant request needs one.
+// /api/v1 checks the token (or its API key) itself.
+let authSecret;
+try {
+  authSecret = resolveAuthSecret();
+} catch (error) {
+  console.error(`ERROR: ${error.message}`);
+  process.exit(1);
+}
+const sessionGuard = requireSession(authSecret, { serviceKey: upstreamApiKey });
+app.use('/api/auth', createAuthRouter(createServerSupabaseClient(), { secret: authSecret }));
+app.use('/api', (req, res, next) => (req.path.startsWith('/v1/') ? next() : sessionGuard(req, res, next)));
+app.use('/qdrant', sessionGuard);
+app.use('/api/shops', createShopsRouter(createServerSupabaseClient()));
+app.use('/api/staff', createStaffRouter(createServerSupabaseClient()));
+app.use('/api/verification', createVerificationRouter(createServerSupabaseClient(), { qdrantClient }));
+app.use('/api/orders', createOrdersRouter(qdrantClient, { supabase: createServerSupabaseClient() }));
+app.use('/api/marketplace', createMarketplaceRouter(qdrantClient, { supabase: createServerSupabaseClient() }));
+app.use('/api/webhooks', createWebhooksRouter(createServerSupabaseClient()));
+app.use('/api/dan/keys', createDanKeysRouter(createServerSupabaseClient()));
+app.use('/api/dan/policies', createDanPoliciesRouter(createServerSupabaseClient()));
+
 const withVectorStruct = (embedding) => {
   return { vectors: { [VECTOR_KEY]: embedding } };
 };
@@ -130,7 +170,7 @@ ensureProductsCollection().catch((error) => {
   console.error('[Qdrant Proxy] Failed to ensure products collection:', error);
 });
 
-const buildSearchFilter = (shopId, filters = {}) => {
+const buildSearchFilter = (shopId, filters = {}, promotions = []) => {
   const must = [{ key: 'shop_id', match: { value: shopId } }];
   if (filters.category) {
     must.push({ key: 'category', match: { value: filters.category } });
@@ -145,19 +185,21 @@ const buildSearchFilter = (shopId, filters = {}) => {
     must.push({ key: 'expiry_date', range });
   }
   if (filters.onSale) {
-    const now = Date.now();
-    must.push({
-      key: 'sale_start_date',
-      range: { lte: now },
-    });
-    must.push({
-      key: 'sale_end_date',
-      range: { gte: now },
-    });
+    return { must, should: buildOnSaleClauses(promotions) };
   }
   return { must };
 };
 
+// Active promotions for the onSale filter; a missing promotions collection means none
+const loadActivePromotions = async (shopId) => {
+  try {
+    return await getActivePromotions(qdrantClient, shopId);
+  } catch (error) {
+    console.warn('[Qdrant Proxy] Failed to load promotions:', error?.message || error);
+    return [];
+  }
+};
+
 const validateEmbedding = (embedding) => {
   if (!Array.isArray(embedding) || embedding.length !== VECTOR_SIZE) return false;
   return embedding.every((value) => typeof value === 'number' && Number.isFinite(value));
@@ -169,6 +211,9 @@ app.post('/api/vector/products/upsert', async (req, res) => {
   if (!shopId || typeof shopId !== 'string') {
     return res.status(400).json({ error: 'shopId is required' });
   }
+  if (!canAccessShop(req.session, shopId)) {
+    return res.status(403).json({ error: 'Not allowed for this shop' });
+  }
   if (!Array.isArray(items) || items.length === 0) {
     return res.status(400).json({ error: 'At least one item is required' });
   }
@@ -201,7 +246,7 @@ app.post('/api/vector/products/upsert', async (req, res) => {
     res.json({ ok: true, upserted: points.length });
   } catch (error) {
     console.error('[Qdrant Proxy] Product upsert failed:', error);
-    res.status(500).json({ error: 'Qdrant upsert failed', details: error.message });
+    res.status(500).json({ error: 'Qdrant upsert failed' });
   }
 });
 
@@ -210,21 +255,72 @@ app.post('/api/vector/products/search', async (req, res) => {
   if (!shopId || typeof shopId !== 'string') {
     return res.status(400).json({ error: 'shopId is required' });
   }
+  if (!canAccessShop(req.session, shopId, { storefront: true })) {
+    return res.status(403).json({ error: 'Not allowed for this shop' });
+  }
   if (!validateEmbedding(embedding)) {
     return res.status(400).json({ error: `embedding must be an array of length ${VECTOR_SIZE}` });
   }
 
   try {
+    const promotions = filters?.onSale ? await loadActivePromotions(shopId) : [];
     const response = await qdrantClient.search(PRODUCT_COLLECTION, {
       vector: { name: VECTOR_KEY, vector: embedding },
       limit,
       with_payload: true,
-      filter: buildSearchFilter(shopId, filters),
+      filter: buildSearchFilter(shopId, filters, promotions),
     });
-    res.json({ results: response });
+    // Tag on-sale hits with the promotions that apply to them
+    const results = filters?.onSale
+      ? response.map((hit) => ({ ...hit, promotions: promotions.filter((promotion) => promotionAppliesToProduct(promotion, hit.payload)) }))
+      : response;
+    res.json({ results });
   } catch (error) {
     console.error('[Qdrant Proxy] Product search failed:', error);
-    res.status(500).json({ error: 'Qdrant search failed', details: error.message });
+    res.status(500).json({ error: 'Qdrant search failed' });
+  }
+});
+
+// Expiry lifecycle
+app.post('/api/inventory/expiry-sweep', async (req, res) => {
+  const { shopId = null, dryRun = false } = req.body || {};
+  if (shopId !== null && typeof shopId !== 'string') {
+    return res.status(400).json({ error: 'shopId must be a string' });
+  }
+  // Sweeping every shop (shopId null) is for admins and server jobs
+  if (!canAccessShop(req.session, shopId)) {
+    return res.status(403).json({ error: 'Not allowed for this shop' });
+  }
+
+  try {
+    const result = await runExpirySweep(qdrantClient, { shopId, dryRun: Boolean(dryRun) });
+    console.log(`[Expiry] Swept ${shopId || 'all shops'}: ${result.expiredLots} lots written off`);
+    res.json(result);
+  } catch (error) {
+    console.error('[Expiry] Sweep failed:', error);
+    res.status(500).json({ error: 'Expiry sweep failed' });
+  }
+});
+
+app.get('/api/inventory/markdown-candidates', async (req, res) => {
+  const { shopId } = req.query;
+  if (!shopId || typeof shopId !== 'string') {
+    return res.status(400).json({ error: 'shopId is required' });
+  }
+  if (!canAccessShop(req.session, shopId)) {
+    return res.status(403).json({ error: 'Not allowed for this shop' });
+  }
+  const withinDays = req.query.days !== undefined ? Number(req.query.days) : DEFAULT_MARKDOWN_WINDOW_DAYS;
+  if (!Number.isFinite(withinDays) || withinDays < 0) {
+    return res.status(400).json({ error: 'days must be a non-negative number' });
+  }
+
+  try {
+    const candidates = await listMarkdownCandidates(qdrantClient, { shopId, withinDays });
+    res.json({ candidates });
+  } catch (error) {
+    console.error('[Expiry] Markdown candidate lookup failed:', error);
+    res.status(500).json({ error: 'Markdown candidate lookup failed' });
   }
 });
 
@@ -263,6 +359,13 @@ const forwardRequest = async (req, res) => {
       console.log(`[Qdrant Proxy] Base URL: ${baseUrl}`);
     }
     
+    // Scope the request to the caller before it reaches Qdrant with the master key
+    const { body, filterResult } = await authorizeQdrantRequest(qdrantClient, req.session, {
+      method: req.method,
+      path: upstreamPath.split('?')[0],
+      body: req.body,
+    });
+
     const headers = {
       'Content-Type': 'application/json',
       'api-key': upstreamApiKey,
@@ -274,8 +377,8 @@ const forwardRequest = async (req, res) => {
       headers,
     };
 
-    if (req.method !== 'GET' && req.method !== 'HEAD' && req.body && Object.keys(req.body).length > 0) {
-      init.body = JSON.stringify(req.body);
+    if (req.method !== 'GET' && req.method !== 'HEAD' && body && Object.keys(body).length > 0) {
+      init.body = JSON.stringify(body);
     }
 
     if (shouldLogProxy) {
@@ -301,8 +404,18 @@ const forwardRequest = async (req, res) => {
 
     res.status(response.status);
     res.set('Content-Type', response.headers.get('content-type') || 'application/json');
+    if (filterResult && response.ok) {
+      const parsed = JSON.parse(text);
+      res.send(JSON.stringify({ ...parsed, result: filterResult(parsed.result) }));
+      return;
+    }
     res.send(text);
   } catch (error) {
+    if (error instanceof QdrantAccessError) {
+      console.warn(`[Qdrant Proxy] Denied ${req.method} ${req.originalUrl}: ${error.message}`);
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
     // Enhanced error logging for Railway debugging
     const errorDetails = {
       message: error.message,
@@ -327,15 +440,14 @@ const forwardRequest = async (req, res) => {
       });
     } else {
       console.error('[Qdrant Proxy] Error forwarding request:', errorDetails);
-      res.status(500).json({ 
-        error: 'Proxy request failed', 
-        details: error.message,
-        upstreamUrl: baseUrl,
-      });
+      res.status(500).json({ error: 'Proxy request failed' });
     }
   }
 };
 
+// Versioned REST API; its error handler also envelopes JSON body parse errors
+app.use('/api/v1', createApiV1Router(qdrantClient, { apiKey: process.env.API_V1_KEY, authSecret }), handleApiV1Error);
+
 // Qdrant proxy routes - must be before static file serving
 app.use('/qdrant', async (req, res, next) => {
   // Log all incoming Qdrant proxy requests for debugging
@@ -348,7 +460,7 @@ app.use('/qdrant', async (req, res, next) => {
   } catch (error) {
     console.error('[Qdrant Proxy] Unhandled error in proxy middleware:', error);
     if (!res.headersSent) {
-      res.status(500).json({ error: 'Proxy error', details: error.message });
+      res.status(500).json({ error: 'Proxy error' });
     }
   }
 });
@@ -413,6 +525,26 @@ const testQdrantConnection = async () => {
   }
 };
 
+// Evaluate dan_policies against incoming DAN events (see scripts/policyWorker.mjs to run it standalone)
+const startPolicyWorker = async () => {
+  const supabase = createServerSupabaseClient();
+  if (!supabase) {
+    console.warn('[PolicyWorker] SUPABASE_URL is not set; policy worker disabled');
+    return;
+  }
+  const signingKey = process.env.DAN_WORKER_PRIVATE_KEY
+    ? await loadSigningKey(process.env.DAN_WORKER_PRIVATE_KEY)
+    : null;
+  const lookbackMinutes = Number(process.env.DAN_POLICY_WORKER_LOOKBACK_MINUTES || '60');
+  createPolicyWorker(supabase, {
+    signingKey,
+    qdrantClient,
+    mailer: createMailer(),
+    appBaseUrl: process.env.APP_BASE_URL || null,
+  }).start({ lookbackMinutes });
+  console.log(`[PolicyWorker] Started${signingKey ? ` with key ${signingKey.fingerprint}` : ''}`);
+};
+
 app.listen(PORT, async () => {
   console.log(`[Server] Listening on port ${PORT}`);
   console.log(`[Server] Environment: ${NODE_ENV}`);
@@ -425,5 +557,18 @@ app.listen(PORT, async () => {
   testQdrantConnection().catch(() => {
     // Errors already logged in testQdrantConnection
   });
+
+  if (EXPIRY_SWEEP_INTERVAL_MINUTES > 0) {
+    console.log(`[Expiry] Sweeping all shops every ${EXPIRY_SWEEP_INTERVAL_MINUTES} minutes`);
+    setInterval(() => {
+      runExpirySweep(qdrantClient)
+        .then((result) => console.log(`[Expiry] Scheduled sweep wrote off ${result.expiredLots} lots ($${result.costOfGoodsLoss.toFixed(2)})`))
+        .catch((error) => console.error('[Expiry] Scheduled sweep failed:', error.message));
+    }, EXPIRY_SWEEP_INTERVAL_MINUTES * 60 * 1000);
+  }
+
+  if (process.env.DAN_POLICY_WORKER_ENABLED === 'true') {
+    startPolicyWorker().catch((error) => console.error('[PolicyWorker] Failed to start:', error.message));
+  }
 });
 
@@ -0,0 +1,179 @@
+/**
+ * Inventory (server-side)
+ *
+ * Node counterparts of the stock helpers in services/qdrant/services/inventory.ts
+ * and stockMovements.ts. Quantity writes use the same compare-and-set on updatedAt,
+ * and every change is appended to the stock_movements ledger.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { composePointId, retrievePayload, resolveVectorField, buildPlaceholderVector, scrollAll } from './qdrantPoints.js';
+import { isPastExpiration } from './expirySweep.js';
+
+const RETAIL_MARKUP = 1.4;
+
+// API shape of an inventory lot
+export const mapItemPayload = (payload, pointId) => ({
+  inventoryUuid: payload.inventoryUuid || String(pointId),
+  shopId: payload.shopId,
+  productId: payload.productId,
+  batchId: payload.batchId ? String(payload.batchId) : null,
+  supplierId: payload.supplierId || null,
+  quantity: Number(payload.quantity) || 0,
+  buyPrice: payload.buyPrice ?? null,
+  sellPrice: payload.sellPrice ?? null,
+  expirationDate: payload.expiration || null,
+  location: payload.location || null,
+  status: payload.status || 'ACTIVE',
+  tags: payload.tags || [],
+  createdAt: payload.createdAt || null,
+  updatedAt: payload.updatedAt || null,
+});
+
+// Sellable lots for a shop (in stock, active and not past expiry)
+export const getSellableLots = async (client, shopId, productIds, now = new Date()) => {
+  const must = [{ key: 'shopId', match: { value: shopId } }];
+  if (productIds?.length) must.push({ key: 'productId', match: { any: productIds } });
+  const points = await scrollAll(client, 'items', { must });
+  return points
+    .map((point) => ({ ...(point.payload || {}), inventoryUuid: point.payload?.inventoryUuid || String(point.id) }))
+    .filter((payload) => Number(payload.quantity) > 0 && (payload.status || 'ACTIVE') === 'ACTIVE')
+    .filter((payload) => !isPastExpiration(payload.expiration, now));
+};
+
+export const getItemPayload = (client, inventoryUuid) => retrievePayload(client, 'items', inventoryUuid);
+
+const normalizeTag = (tag) => String(tag).trim().toLowerCase();
+
+// Add and remove tags on a shop's items (by inventoryUuid or by product), like tagStockItems
+export const tagItems = async (client, { shopId, inventoryUuids, productId, add = [], remove = [] }) => {
+  if (!inventoryUuids?.length && !productId) throw new Error('Tagging needs inventory items or a product.');
+  const added = add.map(normalizeTag).filter(Boolean);
+  const removed = new Set(remove.map(normalizeTag));
+  const must = [{ key: 'shopId', match: { value: shopId } }];
+  if (inventoryUuids?.length) must.push({ has_id: inventoryUuids });
+  if (productId) must.push({ key: 'productId', match: { value: productId } });
+
+  let changed = 0;
+  for (const point of await scrollAll(client, 'items', { must })) {
+    const current = point.payload?.tags || [];
+    const next = Array.from(new Set([...current, ...added])).filter((tag) => !removed.has(tag));
+    if (next.length === current.length && next.every((tag) => current.includes(tag))) continue;
+    await client.setPayload('items', { wait: true, payload: { tags: next }, points: [point.id] });
+    changed++;
+  }
+  return changed;
+};
+
+// Set an item's quantity only while its updatedAt is unchanged. Returns the new
+// updatedAt, or null when another writer got there first.
+export const compareAndSetStockQuantity = async (client, inventoryUuid, expectedUpdatedAt, quantity, extraPayload = {}) => {
+  const writeId = uuidv4();
+  const updatedAt = new Date().toISOString();
+  await client.setPayload('items', {
+    wait: true,
+    payload: {
+      status: quantity > 0 ? 'ACTIVE' : 'EMPTY',
+      ...extraPayload,
+      quantity,
+      updatedAt,
+      lastWriteId: writeId,
+    },
+    filter: {
+      must: [
+        { has_id: [inventoryUuid] },
+        expectedUpdatedAt
+          ? { key: 'updatedAt', match: { value: expectedUpdatedAt } }
+          : { is_empty: { key: 'updatedAt' } },
+      ],
+    },
+  });
+  const stored = await getItemPayload(client, inventoryUuid);
+  return stored?.lastWriteId === writeId ? updatedAt : null;
+};
+
+// Add (or remove) units, re-reading and retrying on concurrent writes
+export const adjustStockQuantity = async (client, inventoryUuid, delta, extraPayload = {}, maxAttempts = 5) => {
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    const current = await getItemPayload(client, inventoryUuid);
+    if (!current) throw new Error(`Inventory item ${inventoryUuid} not found`);
+    const quantity = (Number(current.quantity) || 0) + delta;
+    if (quantity < 0) throw new Error(`Inventory item ${inventoryUuid} has insufficient quantity.`);
+    const updatedAt = await compareAndSetStockQuantity(client, inventoryUuid, current.updatedAt, quantity, extraPayload);
+    if (updatedAt) return { quantity, updatedAt };
+  }
+  throw new Error(`Inventory item ${inventoryUuid} is busy. Please try again.`);
+};
+
+// Append movements to the ledger. Pass a deterministic id to make re-recording a no-op.
+export const recordStockMovements = async (client, shopId, movements, createdByUserId) => {
+  const entries = movements.filter((movement) => movement.delta !== 0);
+  if (entries.length === 0) return;
+  const now = new Date().toISOString();
+  const points = await Promise.all(entries.map(async (movement) => {
+    const movementId = movement.id || uuidv4();
+    return {
+      id: composePointId('stock_movements', movementId),
+      ...(await resolveVectorField(client, 'stock_movements', buildPlaceholderVector(movementId))),
+      payload: {
+        movementId,
+        shopId,
+        inventoryUuid: movement.inventoryUuid,
+        productId: movement.productId,
+        delta: movement.delta,
+        quantityAfter: movement.quantityAfter ?? null,
+        reason: movement.reason,
+        createdByUserId,
+        referenceId: movement.referenceId ?? null,
+        note: movement.note ?? null,
+        costOfGoodsLoss: null,
+        createdAt: now,
+      },
+    };
+  }));
+  await client.upsert('stock_movements', { wait: true, points });
+};
+
+// Create stock lots (one per line) and their receipt movements
+export const createLots = async (client, { shopId, batchId, supplierId = null, lines, createdByUserId, defaultExpiration }) => {
+  const now = new Date().toISOString();
+  const points = await Promise.all(lines.map(async (line) => {
+    const inventoryUuid = uuidv4();
+    const buyPrice = Number(line.buyPrice) || 0;
+    return {
+      id: inventoryUuid,
+      ...(await resolveVectorField(client, 'items', buildPlaceholderVector(inventoryUuid))),
+      payload: {
+        inventoryUuid,
+        shopId,
+        productId: line.productId,
+        batchId: batchId || '',
+        supplierId: line.supplierId || supplierId || undefined,
+        buyPrice,
+        sellPrice: line.sellPrice ?? buyPrice * RETAIL_MARKUP,
+        quantity: line.quantity,
+        expiration: line.expirationDate || defaultExpiration,
+        location: line.location || undefined,
+        status: 'ACTIVE',
+        images: [],
+        scanMetadata: null,
+        createdByUserId,
+        createdAt: now,
+        updatedAt: now,
+        shareScope: ['local'],
+      },
+    };
+  }));
+  if (points.length === 0) return [];
+
+  await client.upsert('items', { wait: true, points });
+  await recordStockMovements(client, shopId, points.map((point) => ({
+    inventoryUuid: point.id,
+    productId: point.payload.productId,
+    delta: point.payload.quantity,
+    quantityAfter: point.payload.quantity,
+    reason: 'receipt',
+    referenceId: batchId || null,
+  })), createdByUserId);
+  return points.map((point) => mapItemPayload(point.payload, point.id));
+};
@@ -0,0 +1,25 @@
+/**
+ * Mailer (server-side)
+ *
+ * SMTP delivery for the email notification channel. Unset SMTP_HOST disables
+ * email. For local testing, point it at a mail sink such as Mailpit
+ * (SMTP_HOST=localhost SMTP_PORT=1025) and read messages in its web UI.
+ */
+
+import nodemailer from 'nodemailer';
+
+export const createMailer = (env = process.env) => {
+  if (!env.SMTP_HOST) return null;
+  const port = Number(env.SMTP_PORT || '587');
+  const transport = nodemailer.createTransport({
+    host: env.SMTP_HOST,
+    port,
+    secure: env.SMTP_SECURE ? env.SMTP_SECURE === 'true' : port === 465,
+    auth: env.SMTP_USER ? { user: env.SMTP_USER, pass: env.SMTP_PASS || '' } : undefined,
+  });
+  const from = env.NOTIFY_FROM_EMAIL || 'notifications@localhost';
+
+  return {
+    send: ({ to, subject, text }) => transport.sendMail({ from, to, subject, text }),
+  };
+};
@@ -0,0 +1,172 @@
+/**
+ * Marketplace purchases (server-side)
+ *
+ * Buying from another shop's listing touches the seller's records, which the
+ * buyer's session cannot write through the Qdrant proxy. The listing is
+ * claimed with a conditional decrement on its version, then the seller's
+ * lots are deducted FEFO with the same compare-and-set as sales and the
+ * deductions are appended to the seller's ledger. If the seller's stock
+ * cannot cover the claim, the units go back on the listing.
+ */
+
+import express from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { composePointId, retrievePayload } from './qdrantPoints.js';
+import { getSellableLots, adjustStockQuantity, recordStockMovements } from './inventory.js';
+import { sessionHasPermission } from './staff.js';
+import { isShopVerified } from './verification.js';
+
+const MAX_CLAIM_ATTEMPTS = 5;
+
+class MarketplaceError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/**
+ * Change a listing's quantity by `delta` while its version is unchanged,
+ * retrying on concurrent claims. `check` sees the stored payload before each
+ * attempt and may throw. Returns the payload as written.
+ */
+const updateListingQuantity = async (client, listingId, delta, check = () => {}) => {
+  const pointId = composePointId('marketplace', listingId);
+  for (let attempt = 0; attempt < MAX_CLAIM_ATTEMPTS; attempt++) {
+    const payload = await retrievePayload(client, 'marketplace', pointId);
+    if (!payload) throw new MarketplaceError(404, `Marketplace listing ${listingId} not found.`);
+    check(payload);
+    const available = Number(payload.quantity) || 0;
+    if (available + delta < 0) {
+      throw new MarketplaceError(409, `Only ${available} units of ${payload.productName} remain on this listing.`);
+    }
+
+    // Listings saved before versioning have no version field; their first claim writes 1
+    const unversioned = payload.version === undefined || payload.version === null;
+    const claimId = uuidv4();
+    await client.setPayload('marketplace', {
+      wait: true,
+      payload: { quantity: available + delta, version: (Number(payload.version) || 0) + 1, lastClaimId: claimId },
+      filter: {
+        must: [
+          { has_id: [pointId] },
+          unversioned ? { is_empty: { key: 'version' } } : { key: 'version', match: { value: payload.version } },
+        ],
+      },
+    });
+    const confirmed = await retrievePayload(client, 'marketplace', pointId);
+    if (confirmed?.lastClaimId === claimId) return confirmed;
+  }
+  throw new MarketplaceError(409, `Listing ${listingId} is busy. Please try again.`);
+};
+
+// Take `quantity` units of a product from a shop's sellable lots, earliest expiry first
+const deductSellerStock = async (client, shopId, productId, quantity, referenceId, createdByUserId) => {
+  const lots = (await getSellableLots(client, shopId, [productId]))
+    .sort((a, b) => new Date(a.expiration).getTime() - new Date(b.expiration).getTime());
+  const available = lots.reduce((sum, lot) => sum + Number(lot.quantity), 0);
+  if (available < quantity) {
+    throw new MarketplaceError(409, `The seller has only ${available} units of this product in stock.`);
+  }
+
+  const applied = [];
+  let remaining = quantity;
+  try {
+    for (const lot of lots) {
+      if (remaining <= 0) break;
+      const deducted = Math.min(Number(lot.quantity), remaining);
+      const { quantity: quantityAfter } = await adjustStockQuantity(client, lot.inventoryUuid, -deducted);
+      applied.push({ inventoryUuid: lot.inventoryUuid, deducted, quantityAfter });
+      remaining -= deducted;
+    }
+  } catch (error) {
+    for (const { inventoryUuid, deducted } of applied) {
+      await adjustStockQuantity(client, inventoryUuid, deducted).catch((err) =>
+        console.error(`[Marketplace] Failed to restore ${deducted} units to ${inventoryUuid}:`, err));
+    }
+    throw error;
+  }
+
+  await recordStockMovements(client, shopId, applied.map(({ inventoryUuid, deducted, quantityAfter }) => ({
+    id: `${referenceId}:${inventoryUuid}`,
+    inventoryUuid,
+    productId,
+    delta: -deducted,
+    quantityAfter,
+    reason: 'order',
+    referenceId,
+  })), createdByUserId);
+};
+
+/**
+ * Buy `quantity` units of a listing for the buyer's shop: claims them on the
+ * listing and deducts them from the seller's stock. Returns the listing as
+ * left after the claim.
+ */
+const purchaseListing = async (client, { listingId, quantity, buyerShopIds, createdByUserId }) => {
+  const claimed = await updateListingQuantity(client, listingId, -quantity, (payload) => {
+    if (buyerShopIds.includes(payload.shopId)) throw new MarketplaceError(403, 'You cannot purchase your own listing.');
+  });
+  const referenceId = `${listingId}:${claimed.lastClaimId}`;
+  try {
+    await deductSellerStock(client, claimed.shopId, claimed.productId, quantity, referenceId, createdByUserId);
+  } catch (error) {
+    await updateListingQuantity(client, listingId, quantity).catch((err) =>
+      console.error(`[Marketplace] Failed to release ${quantity} units back to listing ${listingId}:`, err));
+    throw error;
+  }
+  return claimed;
+};
+
+/**
+ * /api/marketplace: purchases from other shops' listings. The buyer is the
+ * session's shop, which must hold an approved shop verification; staff need
+ * receiveBatches, as for any stock intake.
+ */
+export const createMarketplaceRouter = (qdrantClient, { supabase = null, logger = console } = {}) => {
+  const router = express.Router();
+
+  const handle = (fn) => async (req, res) => {
+    try {
+      await fn(req, res);
+    } catch (error) {
+      if (error instanceof MarketplaceError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      logger.error('[Marketplace] Request failed:', error);
+      res.status(500).json({ error: 'Marketplace request failed' });
+    }
+  };
+
+  router.post('/listings/:listingId/purchase', handle(async (req, res) => {
+    if (!qdrantClient) throw new MarketplaceError(503, 'The marketplace is unavailable: Qdrant is not configured on the server.');
+    const shopId = req.session?.shopId;
+    if (!shopId) throw new MarketplaceError(403, 'Marketplace purchases are made by shops.');
+    if (!sessionHasPermission(req.session, 'receiveBatches')) {
+      throw new MarketplaceError(403, 'Your staff role does not allow this (needs receiveBatches).');
+    }
+    if (!supabase) throw new MarketplaceError(503, 'The marketplace is unavailable: SUPABASE_URL is not set on the server.');
+    if (!(await isShopVerified(supabase, shopId))) throw new MarketplaceError(403, 'Shop is not verified.');
+    const quantity = Number(req.body?.quantity);
+    if (!Number.isInteger(quantity) || quantity <= 0) throw new MarketplaceError(400, 'Quantity must be a positive whole number.');
+
+    const listingId = Number(req.params.listingId);
+    if (!Number.isFinite(listingId)) throw new MarketplaceError(404, `Marketplace listing ${req.params.listingId} not found.`);
+    const buyerShopIds = [shopId, ...(req.session.shopIds || [])];
+    const listing = await purchaseListing(qdrantClient, { listingId, quantity, buyerShopIds, createdByUserId: req.session.sub });
+    logger.info(`[Marketplace] Shop ${shopId} bought ${quantity} of ${listing.productName} from shop ${listing.shopId}.`);
+    res.json({
+      listing: {
+        id: Number(listing.listingId),
+        shopId: listing.shopId,
+        productId: listing.productId,
+        productName: listing.productName,
+        quantity: Number(listing.quantity) || 0,
+        price: Number(listing.price) || 0,
+      },
+    });
+  }));
+
+  return router;
+};
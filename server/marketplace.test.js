@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import express from 'express';
+import { createMarketplaceRouter } from './marketplace.js';
+import { requireSession, signAccessToken } from './auth.js';
+import { composePointId } from './qdrantPoints.js';
+import { createFakeQdrant } from './testing/fakeQdrant.js';
+import { createFakeSupabase } from './testing/fakeSupabase.js';
+
+const SECRET = 'test-secret';
+const silent = { info: () => {}, error: () => {} };
+
+const seller = { sub: 'owner-a', shopId: 'shop-a', shopIds: ['shop-a'], staffRole: 'owner', roles: { shop: true } };
+const buyer = { sub: 'owner-b', shopId: 'shop-b', shopIds: ['shop-b'], staffRole: 'owner', roles: { shop: true } };
+const auditor = { sub: 'auditor-b', shopId: 'shop-b', shopIds: ['shop-b'], staffRole: 'auditor', roles: { shop: true } };
+const unverifiedBuyer = { sub: 'owner-c', shopId: 'shop-c', shopIds: ['shop-c'], staffRole: 'owner', roles: { shop: true } };
+
+const LISTING_ID = 1700000000000;
+const listingPointId = composePointId('marketplace', LISTING_ID);
+
+const lot = (id, quantity, expiration) => ({
+  id,
+  payload: { inventoryUuid: id, shopId: 'shop-a', productId: 'milk', quantity, expiration, status: 'ACTIVE', updatedAt: '2026-01-01T00:00:00.000Z' },
+});
+
+describe('/api/marketplace purchases', () => {
+  let client;
+  let server;
+  let base;
+
+  beforeEach(() => {
+    client = createFakeQdrant({
+      marketplace: [{
+        id: listingPointId,
+        payload: { listingId: LISTING_ID, shopId: 'shop-a', productId: 'milk', productName: 'Milk', quantity: 10, price: 2, version: 0 },
+      }],
+      items: [lot('lot-late', 8, '2099-03-01'), lot('lot-early', 3, '2099-01-01')],
+    });
+    const supabase = createFakeSupabase({
+      users: ['a', 'b', 'c'].map((letter) => ({ id: `owner-${letter}`, shop_qdrant_id: `shop-${letter}` })),
+      verification_events: [
+        { id: 1, user_id: 'owner-a', kind: 'shop', status: 'approved' },
+        { id: 2, user_id: 'owner-b', kind: 'shop', status: 'approved' },
+        { id: 3, user_id: 'owner-c', kind: 'shop', status: 'pending' },
+      ],
+    });
+    const app = express();
+    app.use(express.json());
+    app.use('/api/marketplace', requireSession(SECRET), createMarketplaceRouter(client, { supabase, logger: silent }));
+    server = app.listen(0);
+    base = `http://127.0.0.1:${server.address().port}/api/marketplace`;
+  });
+
+  afterEach(() => server.close());
+
+  const purchase = async (session, quantity, listingId = LISTING_ID) => {
+    const response = await fetch(`${base}/listings/${listingId}/purchase`, {
+      method: 'POST',
+      headers: { authorization: `Bearer ${signAccessToken(SECRET, session)}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ quantity }),
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  it('claims the listing and deducts the seller\'s stock earliest expiry first', async () => {
+    const { status, body } = await purchase(buyer, 5);
+
+    expect(status).toBe(200);
+    expect(body.listing).toMatchObject({ shopId: 'shop-a', quantity: 5 });
+    expect(client.payload('marketplace', listingPointId)).toMatchObject({ quantity: 5, version: 1 });
+    expect(client.payload('items', 'lot-early').quantity).toBe(0);
+    expect(client.payload('items', 'lot-late').quantity).toBe(6);
+    const movements = client.all('stock_movements').map((point) => point.payload);
+    expect(movements).toHaveLength(2);
+    expect(movements.every((movement) => movement.shopId === 'shop-a' && movement.reason === 'order')).toBe(true);
+    expect(movements.map((movement) => movement.delta).sort()).toEqual([-2, -3]);
+  });
+
+  it('claims listings saved before they had a version', async () => {
+    const legacyId = LISTING_ID + 1;
+    const legacyPointId = composePointId('marketplace', legacyId);
+    await client.upsert('marketplace', {
+      points: [{ id: legacyPointId, payload: { listingId: legacyId, shopId: 'shop-a', productId: 'milk', productName: 'Milk', quantity: 4, price: 2 } }],
+    });
+
+    expect((await purchase(buyer, 1, legacyId)).status).toBe(200);
+    expect(client.payload('marketplace', legacyPointId)).toMatchObject({ quantity: 3, version: 1 });
+    expect((await purchase(buyer, 1, legacyId)).status).toBe(200);
+    expect(client.payload('marketplace', legacyPointId)).toMatchObject({ quantity: 2, version: 2 });
+  });
+
+  it('puts the units back on the listing when the seller is out of stock', async () => {
+    await client.setPayload('items', { payload: { quantity: 1 }, points: ['lot-late'] });
+
+    const { status } = await purchase(buyer, 6);
+
+    expect(status).toBe(409);
+    expect(client.payload('marketplace', listingPointId).quantity).toBe(10);
+    expect(client.payload('items', 'lot-early').quantity).toBe(3);
+  });
+
+  it('refuses the seller\'s own listing, unverified shops, oversized claims and staff without receiveBatches', async () => {
+    expect((await purchase(seller, 1)).status).toBe(403);
+    expect((await purchase(auditor, 1)).status).toBe(403);
+    expect((await purchase(unverifiedBuyer, 1)).status).toBe(403);
+    expect((await purchase(buyer, 11)).status).toBe(409);
+    expect((await purchase(buyer, 1, 42)).status).toBe(404);
+    expect(client.payload('marketplace', listingPointId).quantity).toBe(10);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Notifications (server-side)
+ *
+ * Node counterpart of services/qdrant/services/notifications.ts: resolves a
+ * shop's recipients from `users` and `notification_subscriptions`, writes one
+ * in-app notification per recipient and, when a mailer is configured, emails
+ * the users who opted into email.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { composePointId, scrollAll, upsertPoint } from './qdrantPoints.js';
+
+const defaultSubscription = (shopId, userId) => ({
+  shopId,
+  userId,
+  inApp: true,
+  email: false,
+  emailAddress: null,
+  mutedPolicyIds: [],
+});
+
+const mapSubscription = (payload) => ({
+  shopId: payload.shopId,
+  userId: payload.userId,
+  inApp: payload.inApp !== false,
+  email: payload.email === true,
+  emailAddress: payload.emailAddress || null,
+  mutedPolicyIds: payload.mutedPolicyIds || [],
+});
+
+export const resolveNotificationRecipients = async (client, shopId, policyId = null) => {
+  const shopFilter = { must: [{ key: 'shopId', match: { value: shopId } }] };
+  const [users, subscriptions] = await Promise.all([
+    scrollAll(client, 'users', shopFilter),
+    scrollAll(client, 'notification_subscriptions', shopFilter),
+  ]);
+  const byUser = new Map();
+  users.forEach((point) => {
+    const userId = point.payload?.userId;
+    if (userId) byUser.set(userId, defaultSubscription(shopId, userId));
+  });
+  subscriptions.forEach((point) => {
+    if (point.payload?.userId) byUser.set(point.payload.userId, mapSubscription(point.payload));
+  });
+  return Array.from(byUser.values())
+    .filter((subscription) => !policyId || !subscription.mutedPolicyIds.includes(policyId));
+};
+
+// Absolute link into the app for emails, e.g. https://shop.example/?tab=inventory&item=<uuid>
+export const buildNotificationUrl = (baseUrl, link) => {
+  if (!baseUrl || !link) return null;
+  const url = new URL(baseUrl);
+  url.searchParams.set('tab', link.tab);
+  if (link.inventoryUuid) url.searchParams.set('item', link.inventoryUuid);
+  else if (link.productId) url.searchParams.set('product', link.productId);
+  return url.toString();
+};
+
+/**
+ * Deliver a notification on the requested channels, honouring each user's
+ * subscription. Returns how many in-app notifications and emails went out.
+ */
+export const deliverNotification = async (client, {
+  shopId,
+  title,
+  message,
+  link = null,
+  policyId = null,
+  eventId = null,
+  channels = ['in_app', 'email'],
+  mailer = null,
+  appBaseUrl = null,
+  logger = console,
+}) => {
+  const recipients = await resolveNotificationRecipients(client, shopId, policyId);
+  const createdAt = new Date().toISOString();
+  let inApp = 0;
+  let emails = 0;
+
+  if (channels.includes('in_app')) {
+    for (const recipient of recipients.filter((subscription) => subscription.inApp)) {
+      const notificationId = uuidv4();
+      await upsertPoint(client, 'notifications', notificationId, {
+        notificationId,
+        shopId,
+        userId: recipient.userId,
+        title,
+        message,
+        link,
+        policyId,
+        eventId,
+        read: false,
+        readAt: null,
+        createdAt,
+      }, composePointId('notifications', notificationId));
+      inApp++;
+    }
+  }
+
+  const emailRecipients = channels.includes('email')
+    ? recipients.filter((subscription) => subscription.email && subscription.emailAddress)
+    : [];
+  if (emailRecipients.length && !mailer) {
+    logger.warn(`[Notifications] ${emailRecipients.length} email recipient(s) skipped: SMTP_HOST is not set`);
+  } else if (emailRecipients.length) {
+    const url = buildNotificationUrl(appBaseUrl, link);
+    const text = url ? `${message}\n\nOpen: ${url}` : message;
+    for (const recipient of emailRecipients) {
+      await mailer.send({ to: recipient.emailAddress, subject: title, text });
+      emails++;
+    }
+  }
+
+  return { inApp, emails };
+};
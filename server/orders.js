@@ -0,0 +1,338 @@
+/**
+ * Order exchange (server-side)
+ *
+ * Shops open orders, other shops propose to supply them, the requester
+ * accepts one proposal and a driver carries the delivery. Every write goes
+ * through here: the parties come from the session (never the request body),
+ * and each status change is a conditional write that only applies while the
+ * record still has the status it was read with, so two callers racing on the
+ * same record cannot both move it. Signed-in users only read these
+ * collections and cannot change a status through the Qdrant proxy
+ * (server/qdrantAccess.js).
+ */
+
+import express from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { composePointId, retrievePayload, upsertPoint, scrollAll } from './qdrantPoints.js';
+import { canAccessShop } from './qdrantAccess.js';
+import { sessionHasPermission } from './staff.js';
+import { isShopVerified } from './verification.js';
+
+// Flat fee plus a per-unit handling charge paid to the driver
+const DELIVERY_BASE_FEE = 5;
+const DELIVERY_FEE_PER_UNIT = 0.1;
+const MAX_NAME_LENGTH = 200;
+
+class OrdersError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const mapOrder = (payload) => ({
+  id: payload.orderId,
+  requesterShop: payload.requesterShop || { id: payload.requesterShopId, name: '', address: '' },
+  productName: payload.productName || '',
+  quantity: payload.quantity || 0,
+  status: payload.status || 'OPEN',
+  createdAt: payload.createdAt || '',
+});
+
+const mapProposal = (payload) => ({
+  id: payload.proposalId,
+  orderId: payload.orderId,
+  supplierShop: payload.supplierShop || { id: payload.supplierShopId, name: '', address: '' },
+  pricePerUnit: payload.pricePerUnit || 0,
+  status: payload.status || 'PENDING',
+});
+
+const mapDelivery = (payload) => ({
+  id: payload.deliveryId,
+  orderId: payload.orderId,
+  proposalId: payload.proposalId,
+  productName: payload.productName || '',
+  quantity: payload.quantity || 0,
+  pickup: payload.pickup || { name: '', address: '' },
+  dropoff: payload.dropoff || { name: '', address: '' },
+  status: payload.status || 'AWAITING_DRIVER',
+  driver: payload.driver || undefined,
+  fee: payload.fee || 0,
+});
+
+const readText = (value, field) => {
+  const text = typeof value === 'string' ? value.trim() : '';
+  if (text.length > MAX_NAME_LENGTH) throw new OrdersError(400, `${field} must be at most ${MAX_NAME_LENGTH} characters`);
+  return text;
+};
+
+// The caller's active shop as an order party; name and address are display only
+const shopParty = (session, body) => ({
+  id: session.shopId,
+  name: readText(body?.name, 'name'),
+  address: readText(body?.address, 'address'),
+});
+
+const loadRecord = (client, collection, entityId) =>
+  retrievePayload(client, collection, composePointId(collection, entityId));
+
+/**
+ * Set `payload` on a record only while its status is still `from`. Returns
+ * the stored payload, or null when another caller changed the status first.
+ */
+export const transitionStatus = async (client, collection, entityId, from, payload) => {
+  const pointId = composePointId(collection, entityId);
+  const writeId = uuidv4();
+  await client.setPayload(collection, {
+    wait: true,
+    payload: { ...payload, updatedAt: new Date().toISOString(), lastWriteId: writeId },
+    filter: {
+      must: [
+        { has_id: [pointId] },
+        { key: 'status', match: { value: from } },
+      ],
+    },
+  });
+  const stored = await retrievePayload(client, collection, pointId);
+  return stored?.lastWriteId === writeId ? stored : null;
+};
+
+/**
+ * /api/orders: open orders, propose, accept a proposal, and pick up and
+ * complete deliveries. Shops act as their session's active shop (staff need
+ * receiveBatches to buy and editPrices to quote) and must hold an approved
+ * shop verification; drivers act as their session's driver record, which must
+ * be verified to pick up deliveries.
+ */
+export const createOrdersRouter = (qdrantClient, { supabase = null, logger = console } = {}) => {
+  const router = express.Router();
+
+  const ensureClient = () => {
+    if (!qdrantClient) throw new OrdersError(503, 'Orders are unavailable: Qdrant is not configured on the server.');
+    return qdrantClient;
+  };
+
+  const requireShop = (req, permission) => {
+    if (!req.session?.shopId) throw new OrdersError(403, 'Orders are placed and supplied by shops.');
+    if (!sessionHasPermission(req.session, permission)) {
+      throw new OrdersError(403, `Your staff role does not allow this (needs ${permission}).`);
+    }
+    return req.session.shopId;
+  };
+
+  // verification_events decide, not the isVerified flag the app was signed in with
+  const requireVerifiedShop = async (shopId) => {
+    if (!supabase) throw new OrdersError(503, 'Orders are unavailable: SUPABASE_URL is not set on the server.');
+    if (!(await isShopVerified(supabase, shopId))) throw new OrdersError(403, 'Shop is not verified.');
+  };
+
+  const requireDriver = (req) => {
+    if (!req.session?.driverId) throw new OrdersError(403, 'Deliveries are carried by driver accounts.');
+    return req.session.driverId;
+  };
+
+  const loadOrFail = async (collection, entityId, label) => {
+    const payload = await loadRecord(ensureClient(), collection, entityId);
+    if (!payload) throw new OrdersError(404, `${label} ${entityId} not found`);
+    return payload;
+  };
+
+  const handle = (fn) => async (req, res) => {
+    try {
+      await fn(req, res);
+    } catch (error) {
+      if (error instanceof OrdersError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      logger.error('[Orders] Request failed:', error);
+      res.status(500).json({ error: 'Orders request failed' });
+    }
+  };
+
+  router.post('/', handle(async (req, res) => {
+    await requireVerifiedShop(requireShop(req, 'receiveBatches'));
+    const productName = readText(req.body?.productName, 'productName');
+    const quantity = Math.floor(Number(req.body?.quantity));
+    if (!productName) throw new OrdersError(400, 'Product name is required.');
+    if (!Number.isFinite(quantity) || quantity <= 0) throw new OrdersError(400, 'Order quantity must be greater than zero.');
+
+    const now = new Date().toISOString();
+    const orderId = uuidv4();
+    const requesterShop = shopParty(req.session, req.body?.requesterShop);
+    const payload = {
+      orderId,
+      requesterShopId: requesterShop.id,
+      requesterShop,
+      productName,
+      quantity,
+      status: 'OPEN',
+      createdAt: now,
+      updatedAt: now,
+    };
+    await upsertPoint(ensureClient(), 'orders', orderId, payload);
+    logger.info(`[Orders] Opened order ${orderId} for ${quantity}x ${productName}.`);
+    res.status(201).json({ order: mapOrder(payload) });
+  }));
+
+  router.post('/:orderId/proposals', handle(async (req, res) => {
+    const supplierShopId = requireShop(req, 'editPrices');
+    await requireVerifiedShop(supplierShopId);
+    const pricePerUnit = Number(req.body?.pricePerUnit);
+    if (!Number.isFinite(pricePerUnit) || pricePerUnit <= 0) {
+      throw new OrdersError(400, 'Price per unit must be greater than zero.');
+    }
+    const order = await loadOrFail('orders', req.params.orderId, 'Order');
+    if (order.status !== 'OPEN') throw new OrdersError(409, `Order ${order.orderId} is no longer accepting proposals.`);
+    if (canAccessShop(req.session, order.requesterShopId)) {
+      throw new OrdersError(403, 'A shop cannot propose to supply its own order.');
+    }
+    const existing = await scrollAll(ensureClient(), 'proposals', {
+      must: [
+        { key: 'orderId', match: { value: order.orderId } },
+        { key: 'supplierShopId', match: { value: supplierShopId } },
+        { key: 'status', match: { value: 'PENDING' } },
+      ],
+    });
+    if (existing.length > 0) throw new OrdersError(409, 'You already have a pending proposal for this order.');
+
+    const proposalId = uuidv4();
+    const supplierShop = shopParty(req.session, req.body?.supplierShop);
+    const payload = {
+      proposalId,
+      orderId: order.orderId,
+      supplierShopId,
+      supplierShop,
+      requesterShopId: order.requesterShopId,
+      pricePerUnit,
+      status: 'PENDING',
+      updatedAt: new Date().toISOString(),
+    };
+    await upsertPoint(ensureClient(), 'proposals', proposalId, payload);
+    logger.info(`[Orders] Proposal ${proposalId} submitted for order ${order.orderId}.`);
+    res.status(201).json({ proposal: mapProposal(payload) });
+  }));
+
+  /**
+   * Accept a proposal: the order moves OPEN -> PENDING_DELIVERY first, and
+   * only the caller whose conditional write lands goes on, so concurrent
+   * accepts create one delivery. The proposal is then ACCEPTED, the delivery
+   * written (its ID derives from the proposal) and competing PENDING proposals
+   * REJECTED; a failure undoes the steps already taken.
+   */
+  router.post('/proposals/:proposalId/accept', handle(async (req, res) => {
+    requireShop(req, 'receiveBatches');
+    const client = ensureClient();
+    const proposal = await loadOrFail('proposals', req.params.proposalId, 'Proposal');
+    const order = await loadOrFail('orders', proposal.orderId, 'Order');
+    if (!canAccessShop(req.session, order.requesterShopId)) {
+      throw new OrdersError(403, 'Only the requesting shop can accept proposals for this order.');
+    }
+    await requireVerifiedShop(order.requesterShopId);
+    if (proposal.status !== 'PENDING') throw new OrdersError(409, `Proposal ${proposal.proposalId} is already ${proposal.status}.`);
+
+    const claimed = await transitionStatus(client, 'orders', order.orderId, 'OPEN', {
+      status: 'PENDING_DELIVERY',
+      acceptedProposalId: proposal.proposalId,
+    });
+    if (!claimed) throw new OrdersError(409, `Order ${order.orderId} is no longer accepting proposals.`);
+
+    const deliveryId = composePointId('deliveries', proposal.proposalId);
+    const delivery = {
+      deliveryId,
+      orderId: order.orderId,
+      proposalId: proposal.proposalId,
+      requesterShopId: order.requesterShopId,
+      supplierShopId: proposal.supplierShopId,
+      productName: order.productName,
+      quantity: order.quantity,
+      pickup: { name: proposal.supplierShop?.name || '', address: proposal.supplierShop?.address || '' },
+      dropoff: { name: order.requesterShop?.name || '', address: order.requesterShop?.address || '' },
+      status: 'AWAITING_DRIVER',
+      driverId: null,
+      driver: null,
+      fee: Number((DELIVERY_BASE_FEE + DELIVERY_FEE_PER_UNIT * order.quantity).toFixed(2)),
+      updatedAt: new Date().toISOString(),
+    };
+    const rejected = [];
+    let accepted = false;
+    let deliveryWritten = false;
+    try {
+      accepted = Boolean(await transitionStatus(client, 'proposals', proposal.proposalId, 'PENDING', { status: 'ACCEPTED' }));
+      if (!accepted) throw new OrdersError(409, `Proposal ${proposal.proposalId} was withdrawn.`);
+      await upsertPoint(client, 'deliveries', deliveryId, delivery);
+      deliveryWritten = true;
+      const competing = await scrollAll(client, 'proposals', {
+        must: [
+          { key: 'orderId', match: { value: order.orderId } },
+          { key: 'status', match: { value: 'PENDING' } },
+        ],
+      });
+      for (const point of competing) {
+        if (await transitionStatus(client, 'proposals', point.payload.proposalId, 'PENDING', { status: 'REJECTED' })) {
+          rejected.push(point.payload.proposalId);
+        }
+      }
+    } catch (error) {
+      for (const proposalId of rejected) {
+        await transitionStatus(client, 'proposals', proposalId, 'REJECTED', { status: 'PENDING' });
+      }
+      if (deliveryWritten) {
+        await client.delete('deliveries', { wait: true, points: [composePointId('deliveries', deliveryId)] });
+      }
+      if (accepted) await transitionStatus(client, 'proposals', proposal.proposalId, 'ACCEPTED', { status: 'PENDING' });
+      await transitionStatus(client, 'orders', order.orderId, 'PENDING_DELIVERY', { status: 'OPEN', acceptedProposalId: null });
+      if (!(error instanceof OrdersError)) logger.error(`[Orders] Failed to accept proposal ${proposal.proposalId}, rolled back:`, error);
+      throw error;
+    }
+
+    logger.info(`[Orders] Accepted proposal ${proposal.proposalId}; delivery ${deliveryId} awaiting driver.`);
+    res.json({ delivery: mapDelivery(delivery) });
+  }));
+
+  router.post('/deliveries/:deliveryId/pickup', handle(async (req, res) => {
+    const driverId = requireDriver(req);
+    const client = ensureClient();
+    const profile = await loadRecord(client, 'drivers', driverId);
+    if (profile?.status !== 'verified') throw new OrdersError(403, 'Driver is not verified.');
+    const delivery = await loadOrFail('deliveries', req.params.deliveryId, 'Delivery');
+    if (delivery.status !== 'AWAITING_DRIVER') throw new OrdersError(409, `Delivery ${delivery.deliveryId} already has a driver.`);
+
+    const driver = { id: driverId, name: profile.name || '' };
+    const updated = await transitionStatus(client, 'deliveries', delivery.deliveryId, 'AWAITING_DRIVER', {
+      status: 'IN_TRANSIT',
+      driverId,
+      driver,
+    });
+    if (!updated) throw new OrdersError(409, `Delivery ${delivery.deliveryId} already has a driver.`);
+    logger.info(`[Orders] Driver ${driverId} picked up delivery ${delivery.deliveryId}.`);
+    res.json({ delivery: mapDelivery(updated) });
+  }));
+
+  router.post('/deliveries/:deliveryId/complete', handle(async (req, res) => {
+    const driverId = requireDriver(req);
+    const client = ensureClient();
+    const delivery = await loadOrFail('deliveries', req.params.deliveryId, 'Delivery');
+    if (delivery.driverId !== driverId) throw new OrdersError(403, 'Only the assigned driver can complete this delivery.');
+    if (delivery.status !== 'IN_TRANSIT') throw new OrdersError(409, `Delivery ${delivery.deliveryId} is ${delivery.status}.`);
+
+    const updated = await transitionStatus(client, 'deliveries', delivery.deliveryId, 'IN_TRANSIT', { status: 'DELIVERED' });
+    if (!updated) throw new OrdersError(409, `Delivery ${delivery.deliveryId} changed, reload and try again.`);
+    const reopen = () => transitionStatus(client, 'deliveries', delivery.deliveryId, 'DELIVERED', { status: 'IN_TRANSIT' });
+    let closed;
+    try {
+      closed = await transitionStatus(client, 'orders', delivery.orderId, 'PENDING_DELIVERY', { status: 'COMPLETED' });
+    } catch (error) {
+      await reopen();
+      throw error;
+    }
+    if (!closed) {
+      await reopen();
+      throw new OrdersError(409, `Order ${delivery.orderId} is not awaiting this delivery.`);
+    }
+    logger.info(`[Orders] Delivery ${delivery.deliveryId} completed; order ${delivery.orderId} closed.`);
+    res.json({ delivery: mapDelivery(updated) });
+  }));
+
+  return router;
+};
@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import express from 'express';
+import { createOrdersRouter } from './orders.js';
+import { requireSession, signAccessToken } from './auth.js';
+import { composePointId } from './qdrantPoints.js';
+import { createFakeQdrant } from './testing/fakeQdrant.js';
+import { createFakeSupabase } from './testing/fakeSupabase.js';
+
+const SECRET = 'test-secret';
+const silent = { info: () => {}, error: () => {} };
+
+const sessions = {
+  buyer: { sub: 'owner-a', shopId: 'shop-a', shopIds: ['shop-a'], staffRole: 'owner', roles: { shop: true } },
+  supplierB: { sub: 'owner-b', shopId: 'shop-b', shopIds: ['shop-b'], staffRole: 'owner', roles: { shop: true } },
+  supplierC: { sub: 'owner-c', shopId: 'shop-c', shopIds: ['shop-c'], staffRole: 'owner', roles: { shop: true } },
+  unverifiedShop: { sub: 'owner-d', shopId: 'shop-d', shopIds: ['shop-d'], staffRole: 'owner', roles: { shop: true } },
+  driver: { sub: 'driver-user', shopId: null, shopIds: [], driverId: 'driver-1', roles: { driver: true } },
+  otherDriver: { sub: 'driver-user-2', shopId: null, shopIds: [], driverId: 'driver-2', roles: { driver: true } },
+  unverifiedDriver: { sub: 'driver-user-3', shopId: null, shopIds: [], driverId: 'driver-3', roles: { driver: true } },
+};
+
+const shopOwners = ['a', 'b', 'c', 'd'].map((letter) => ({ id: `owner-${letter}`, shop_qdrant_id: `shop-${letter}` }));
+const shopDecision = (id, userId, status) => ({ id, user_id: userId, kind: 'shop', status });
+
+const driverPoint = (driverId, status) => ({ id: composePointId('drivers', driverId), payload: { driverId, name: `Driver ${driverId}`, status } });
+
+describe('/api/orders', () => {
+  let client;
+  let supabase;
+  let server;
+  let base;
+
+  beforeEach(() => {
+    client = createFakeQdrant({
+      drivers: [driverPoint('driver-1', 'verified'), driverPoint('driver-2', 'verified'), driverPoint('driver-3', 'pending')],
+    });
+    supabase = createFakeSupabase({
+      users: shopOwners,
+      verification_events: [
+        shopDecision(1, 'owner-a', 'approved'),
+        shopDecision(2, 'owner-b', 'approved'),
+        shopDecision(3, 'owner-c', 'approved'),
+        shopDecision(4, 'owner-d', 'approved'),
+        shopDecision(5, 'owner-d', 'rejected'),
+      ],
+    });
+    const app = express();
+    app.use(express.json());
+    app.use('/api/orders', requireSession(SECRET), createOrdersRouter(client, { supabase, logger: silent }));
+    server = app.listen(0);
+    base = `http://127.0.0.1:${server.address().port}/api/orders`;
+  });
+
+  afterEach(() => server.close());
+
+  const post = async (session, path, body = {}) => {
+    const response = await fetch(`${base}${path}`, {
+      method: 'POST',
+      headers: { authorization: `Bearer ${signAccessToken(SECRET, session)}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  const openOrder = async () => (await post(sessions.buyer, '', { productName: 'Milk', quantity: 10, requesterShop: { id: 'shop-b', name: 'Corner Shop' } })).body.order;
+  const propose = async (session, orderId, pricePerUnit = 1.5) => (await post(session, `/${orderId}/proposals`, { pricePerUnit })).body.proposal;
+  const order = (orderId) => client.payload('orders', composePointId('orders', orderId));
+  const proposal = (proposalId) => client.payload('proposals', composePointId('proposals', proposalId));
+
+  it('opens orders and proposals as the session\'s shop', async () => {
+    const opened = await openOrder();
+    expect(opened.requesterShop).toMatchObject({ id: 'shop-a', name: 'Corner Shop' });
+    expect(order(opened.id)).toMatchObject({ requesterShopId: 'shop-a', status: 'OPEN' });
+
+    const own = await post(sessions.buyer, `/${opened.id}/proposals`, { pricePerUnit: 2 });
+    expect(own.status).toBe(403);
+
+    const quoted = await propose(sessions.supplierB, opened.id);
+    expect(proposal(quoted.id)).toMatchObject({ supplierShopId: 'shop-b', status: 'PENDING' });
+    expect((await post(sessions.supplierB, `/${opened.id}/proposals`, { pricePerUnit: 1 })).status).toBe(409);
+  });
+
+  it('only lets the requesting shop accept', async () => {
+    const opened = await openOrder();
+    const quoted = await propose(sessions.supplierB, opened.id);
+
+    const { status } = await post(sessions.supplierC, `/proposals/${quoted.id}/accept`);
+    expect(status).toBe(403);
+    expect(order(opened.id).status).toBe('OPEN');
+    expect(proposal(quoted.id).status).toBe('PENDING');
+  });
+
+  it('trades only between shops whose latest verification is approved', async () => {
+    expect((await post(sessions.unverifiedShop, '', { productName: 'Milk', quantity: 1 })).status).toBe(403);
+    const opened = await openOrder();
+    expect((await post(sessions.unverifiedShop, `/${opened.id}/proposals`, { pricePerUnit: 1 })).status).toBe(403);
+    const quoted = await propose(sessions.supplierB, opened.id);
+
+    supabase.db.verification_events.push(shopDecision(6, 'owner-a', 'rejected'));
+    expect((await post(sessions.buyer, `/proposals/${quoted.id}/accept`)).status).toBe(403);
+    expect(order(opened.id).status).toBe('OPEN');
+    expect(client.all('proposals')).toHaveLength(1);
+  });
+
+  it('accepts one proposal when two accepts race', async () => {
+    const opened = await openOrder();
+    const first = await propose(sessions.supplierB, opened.id);
+    const second = await propose(sessions.supplierC, opened.id);
+
+    const results = await Promise.all([
+      post(sessions.buyer, `/proposals/${first.id}/accept`),
+      post(sessions.buyer, `/proposals/${second.id}/accept`),
+    ]);
+
+    expect(results.map((result) => result.status).sort()).toEqual([200, 409]);
+    expect(client.all('deliveries')).toHaveLength(1);
+    expect(order(opened.id).status).toBe('PENDING_DELIVERY');
+    expect([proposal(first.id).status, proposal(second.id).status].sort()).toEqual(['ACCEPTED', 'REJECTED']);
+  });
+
+  it('carries a delivery from pickup to completion', async () => {
+    const opened = await openOrder();
+    const quoted = await propose(sessions.supplierB, opened.id);
+    const { body } = await post(sessions.buyer, `/proposals/${quoted.id}/accept`);
+    const deliveryId = body.delivery.id;
+    expect(body.delivery).toMatchObject({ status: 'AWAITING_DRIVER', fee: 6 });
+
+    expect((await post(sessions.unverifiedDriver, `/deliveries/${deliveryId}/pickup`)).status).toBe(403);
+    expect((await post(sessions.buyer, `/deliveries/${deliveryId}/pickup`)).status).toBe(403);
+
+    const pickup = await post(sessions.driver, `/deliveries/${deliveryId}/pickup`);
+    expect(pickup.body.delivery).toMatchObject({ status: 'IN_TRANSIT', driver: { id: 'driver-1', name: 'Driver driver-1' } });
+    expect((await post(sessions.otherDriver, `/deliveries/${deliveryId}/pickup`)).status).toBe(409);
+    expect((await post(sessions.otherDriver, `/deliveries/${deliveryId}/complete`)).status).toBe(403);
+
+    const completed = await post(sessions.driver, `/deliveries/${deliveryId}/complete`);
+    expect(completed.body.delivery.status).toBe('DELIVERED');
+    expect(order(opened.id).status).toBe('COMPLETED');
+    expect((await post(sessions.driver, `/deliveries/${deliveryId}/complete`)).status).toBe(409);
+  });
+});
@@ -0,0 +1,486 @@
+/**
+ * DAN policy worker (server-side)
+ *
+ * Evaluates the policies stored in dan_policies against every event inserted
+ * into dan_events, so automation keeps running with no browser open. Rules
+ * come from policyRules.js (the mirror of services/policyRules.ts); events
+ * are verified against the shop's registered keys first, and each (policy,
+ * event) pair runs at most once, with the outcome written to dan_policy_runs.
+ *
+ * Publishing DAN events (create_dan_event) needs the worker's own Ed25519 key
+ * (DAN_WORKER_PRIVATE_KEY). It enrolls as a pending device per shop and must
+ * be approved from one of the shop's devices like any other.
+ *
+ * notify and tag_inventory write to Qdrant, so they need a qdrantClient;
+ * notify also emails opted-in users when a mailer is configured. With a
+ * qdrantClient the worker also mirrors verified offer events into
+ * dan_inventory, which browsers may only write for their own shop.
+ * call_webhook queues a signed delivery (see webhooks.js); its retries and
+ * dead-lettering happen in the webhook dispatcher, not in the policy run.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  mapDanEventRow,
+  mapDanKeyRow,
+  toDanEventRow,
+  verifyDanEvent,
+  signDanEvent,
+  hashDanPayload,
+} from './danSigning.js';
+import {
+  evaluatePolicyConditions,
+  getPolicyHistoryWindow,
+  isOfferFilterPolicy,
+  replayPolicy,
+  resolveDedupKey,
+  validatePolicy,
+} from './policyRules.js';
+import { tagItems } from './inventory.js';
+import { mirrorDanOfferEvent } from './danInventory.js';
+import { deliverNotification } from './notifications.js';
+import { buildWebhookPayload, createWebhookDispatcher } from './webhooks.js';
+
+export const MAX_ACTION_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+const POLICY_CACHE_TTL_MS = 60 * 1000;
+const KEY_CACHE_TTL_MS = 5 * 60 * 1000;
+const WORKER_DEVICE_ID = 'policy-worker';
+const UNIQUE_VIOLATION = '23505';
+const EVENT_PAGE_SIZE = 200;
+const DRY_RUN_MAX_EVENTS = 10000;
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Errors that retrying cannot fix (missing configuration, unapproved key)
+const permanentError = (message) => Object.assign(new Error(message), { retryable: false });
+
+export const mapPolicyRow = (row) => ({
+  id: row.id,
+  shopId: row.shop_id,
+  name: row.name,
+  description: row.description || undefined,
+  eventType: row.event_type,
+  scope: row.scope,
+  version: row.version,
+  enabled: row.enabled,
+  conditions: row.config?.conditions || [],
+  actions: row.config?.actions || [],
+  cooldown: row.config?.cooldown || null,
+  author: row.author || null,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+// ===== WORKER =====
+
+// Deep link for notifications raised by inventory events
+const resolveNotificationLink = (payload = {}) => {
+  if (payload.inventoryUuid) return { tab: 'inventory', inventoryUuid: payload.inventoryUuid, productId: payload.productId };
+  if (payload.productId) return { tab: 'inventory', productId: payload.productId };
+  return null;
+};
+
+export const createPolicyWorker = (supabase, {
+  signingKey = null,
+  qdrantClient = null,
+  mailer = null,
+  appBaseUrl = null,
+  logger = console,
+} = {}) => {
+  const policyCache = new Map();
+  const keyCache = new Map();
+  const webhooks = createWebhookDispatcher(supabase, { logger });
+  let queue = Promise.resolve();
+
+  const loadPolicies = async (shopId, eventType) => {
+    const cacheKey = `${shopId}:${eventType}`;
+    const cached = policyCache.get(cacheKey);
+    if (cached && Date.now() - cached.fetchedAt < POLICY_CACHE_TTL_MS) return cached.policies;
+    const { data, error } = await supabase
+      .from('dan_policies')
+      .select('*')
+      .eq('shop_id', shopId)
+      .eq('event_type', eventType)
+      .eq('enabled', true);
+    if (error) throw error;
+    const policies = (data || []).map(mapPolicyRow).filter((policy) => {
+      // Offer filters hide peer offers in the marketplace; they never run on the shop's own events
+      if (isOfferFilterPolicy(policy)) return false;
+      const errors = validatePolicy(policy);
+      if (errors.length) logger.warn(`[PolicyWorker] Skipping invalid policy ${policy.id}: ${errors.join('; ')}`);
+      return !errors.length;
+    });
+    policyCache.set(cacheKey, { policies, fetchedAt: Date.now() });
+    return policies;
+  };
+
+  const loadShopKeys = async (shopId, forceRefresh = false) => {
+    const cached = keyCache.get(shopId);
+    if (!forceRefresh && cached && Date.now() - cached.fetchedAt < KEY_CACHE_TTL_MS) return cached.keys;
+    const { data, error } = await supabase
+      .from('dan_keys')
+      .select('*')
+      .eq('shop_id', shopId)
+      .order('created_at', { ascending: true });
+    if (error) throw error;
+    const keys = (data || []).map(mapDanKeyRow);
+    keyCache.set(shopId, { keys, fetchedAt: Date.now() });
+    return keys;
+  };
+
+  const hasRun = async (policyId, eventId) => {
+    const { data, error } = await supabase
+      .from('dan_policy_runs')
+      .select('id')
+      .eq('policy_id', policyId)
+      .eq('event_id', eventId)
+      .limit(1);
+    if (error) throw error;
+    return (data || []).length > 0;
+  };
+
+  const fetchShopEvents = async (shopId, eventTypes, from, to, maxEvents = DRY_RUN_MAX_EVENTS) => {
+    const events = [];
+    for (let offset = 0; offset < maxEvents; offset += EVENT_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('dan_events')
+        .select('*')
+        .eq('shop_id', shopId)
+        .in('event_type', eventTypes)
+        .gt('created_at', from.toISOString())
+        .lte('created_at', to.toISOString())
+        .order('created_at', { ascending: true })
+        .range(offset, offset + EVENT_PAGE_SIZE - 1);
+      if (error) throw error;
+      events.push(...(data || []).map(mapDanEventRow));
+      if (!data || data.length < EVENT_PAGE_SIZE) break;
+    }
+    return events;
+  };
+
+  // Recent events the policy's aggregates need, up to the triggering event
+  const loadHistory = async (policy, event) => {
+    const historyWindow = getPolicyHistoryWindow(policy);
+    if (!historyWindow) return [];
+    const until = new Date(event.createdAt);
+    return fetchShopEvents(
+      policy.shopId,
+      historyWindow.eventTypes,
+      new Date(until.getTime() - historyWindow.windowMinutes * 60 * 1000),
+      until,
+    );
+  };
+
+  const isCooldownActive = async (policy, dedupKey) => {
+    const { data, error } = await supabase
+      .from('dan_policy_runs')
+      .select('id')
+      .eq('policy_id', policy.id)
+      .eq('dedup_key', dedupKey)
+      .eq('outcome', 'triggered')
+      .gte('created_at', new Date(Date.now() - policy.cooldown.minutes * 60 * 1000).toISOString())
+      .limit(1);
+    if (error) throw error;
+    return (data || []).length > 0;
+  };
+
+  const recordRun = async (run) => {
+    const { error } = await supabase.from('dan_policy_runs').insert({
+      id: run.id,
+      policy_id: run.policyId,
+      shop_id: run.shopId,
+      event_id: run.eventId,
+      event_type: run.eventType,
+      event_payload: run.eventPayload,
+      outcome: run.outcome,
+      notes: run.notes,
+      attempts: run.attempts,
+      dedup_key: run.dedupKey,
+      created_at: run.createdAt,
+    });
+    // Another worker recorded this (policy, event) pair first
+    if (error && error.code !== UNIQUE_VIOLATION) throw error;
+  };
+
+  // The worker's key must be an approved device of the shop it publishes for
+  const ensureWorkerKey = async (shopId) => {
+    if (!signingKey) {
+      throw permanentError('Set DAN_WORKER_PRIVATE_KEY to let the policy worker publish DAN events.');
+    }
+    const keys = await loadShopKeys(shopId, true);
+    const own = keys.find((key) => key.fingerprint === signingKey.fingerprint);
+    if (!own) {
+      const { error } = await supabase.from('dan_keys').insert({
+        shop_id: shopId,
+        device_id: WORKER_DEVICE_ID,
+        device_label: 'Policy worker',
+        public_key: signingKey.publicKey,
+        fingerprint: signingKey.fingerprint,
+        algorithm: signingKey.algorithm,
+        status: 'pending',
+        capability_scope: ['local', 'dan'],
+      });
+      if (error && error.code !== UNIQUE_VIOLATION) throw error;
+      keyCache.delete(shopId);
+    }
+    if (own?.status !== 'active') {
+      throw permanentError(
+        `Policy worker key ${signingKey.fingerprint} is ${own?.status || 'pending'} for shop ${shopId}. Approve it from one of the shop's devices.`,
+      );
+    }
+  };
+
+  const publishPolicyEvent = async (policy, action, event) => {
+    await ensureWorkerKey(policy.shopId);
+    const payload = {
+      policyId: policy.id,
+      policyName: policy.name,
+      scope: policy.scope,
+      trigger: action.params?.trigger || 'policy.action',
+      eventPayload: event.payload,
+      sourceEventId: event.eventId,
+    };
+    const record = await signDanEvent(signingKey, {
+      eventId: uuidv4(),
+      eventType: 'policy.trigger.executed',
+      shopId: policy.shopId,
+      namespace: null,
+      payload,
+      shareScope: ['local', 'dan'],
+      vectorContext: null,
+      proofs: { hash: await hashDanPayload(payload) },
+      createdAt: new Date().toISOString(),
+    });
+    const { error } = await supabase.from('dan_events').insert(toDanEventRow(record));
+    if (error) throw error;
+  };
+
+  const executeAction = async (action, policy, event, run) => {
+    switch (action.type) {
+      case 'notify': {
+        const message = action.params?.message || `Policy "${policy.name}" triggered for event ${event.eventType}`;
+        if (!qdrantClient) {
+          logger.info(`[PolicyWorker] ${message}`, { policyId: policy.id, eventId: event.eventId });
+          break;
+        }
+        await deliverNotification(qdrantClient, {
+          shopId: policy.shopId,
+          title: action.params?.title || policy.name,
+          message,
+          link: resolveNotificationLink(event.payload),
+          policyId: policy.id,
+          eventId: event.eventId,
+          channels: action.params?.channels,
+          mailer,
+          appBaseUrl,
+          logger,
+        });
+        break;
+      }
+      case 'create_dan_event':
+        await publishPolicyEvent(policy, action, event);
+        break;
+      case 'tag_inventory': {
+        if (!qdrantClient) throw permanentError('tag_inventory needs QDRANT_URL on the policy worker.');
+        const target = action.params?.target || 'item';
+        const inventoryUuid = event.payload?.inventoryUuid;
+        const productId = event.payload?.productId;
+        if (target === 'item' ? !inventoryUuid : !productId) {
+          throw permanentError(`tag_inventory (${target}) found no ${target === 'item' ? 'inventoryUuid' : 'productId'} in the event payload.`);
+        }
+        await tagItems(qdrantClient, {
+          shopId: policy.shopId,
+          ...(target === 'item' ? { inventoryUuids: [inventoryUuid] } : { productId }),
+          add: action.params?.tags || [],
+          remove: action.params?.removeTags || [],
+        });
+        break;
+      }
+      case 'call_webhook': {
+        const endpointId = action.params?.endpointId || null;
+        if (!endpointId) throw permanentError('call_webhook needs a registered endpoint.');
+        const delivery = await webhooks.enqueue({
+          shopId: policy.shopId,
+          endpointId,
+          policyId: policy.id,
+          policyRunId: run.id,
+          eventId: event.eventId,
+          payload: buildWebhookPayload(policy, event),
+        });
+        // First attempt inline; failures are retried by the dispatcher loop
+        await webhooks.deliver(delivery.id);
+        break;
+      }
+      case 'reject_offer':
+        // Applied where peer offers are listed; nothing to do for a run
+        break;
+      default:
+        throw permanentError(`Unknown action type ${action.type}`);
+    }
+  };
+
+  // Returns the attempts used; rethrows after the last failed attempt
+  const executeWithRetries = async (action, policy, event, run) => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await executeAction(action, policy, event, run);
+        return attempt;
+      } catch (error) {
+        if (error.retryable === false || attempt >= MAX_ACTION_ATTEMPTS) {
+          error.attempts = attempt;
+          throw error;
+        }
+        logger.warn(`[PolicyWorker] ${action.type} failed for policy ${policy.id} (attempt ${attempt}), retrying:`, error.message);
+        await sleep(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+      }
+    }
+  };
+
+  const runPolicy = async (policy, event) => {
+    const conditionsPass = evaluatePolicyConditions(policy, event, await loadHistory(policy, event));
+    const dedupKey = resolveDedupKey(policy, event.payload);
+    const suppressed = conditionsPass && dedupKey !== null && await isCooldownActive(policy, dedupKey);
+    const triggered = conditionsPass && !suppressed;
+    const run = {
+      id: uuidv4(),
+      policyId: policy.id,
+      shopId: policy.shopId,
+      eventId: event.eventId,
+      eventType: event.eventType,
+      eventPayload: event.payload,
+      outcome: triggered ? 'triggered' : suppressed ? 'suppressed' : 'skipped',
+      notes: triggered
+        ? `Policy ${policy.name} triggered`
+        : suppressed ? `Cooldown active for ${dedupKey}` : 'Condition check failed',
+      attempts: 0,
+      dedupKey,
+      createdAt: new Date().toISOString(),
+    };
+    if (triggered) {
+      try {
+        for (const action of policy.actions) {
+          run.attempts = Math.max(run.attempts, await executeWithRetries(action, policy, event, run));
+        }
+      } catch (error) {
+        run.outcome = 'error';
+        run.notes = `Action error: ${error?.message || 'unknown'}`;
+        run.attempts = Math.max(run.attempts, error?.attempts || 1);
+      }
+    }
+    await recordRun(run);
+    return run;
+  };
+
+  const processEvent = async (event) => {
+    let verification = await verifyDanEvent(event, await loadShopKeys(event.shopId));
+    if (!verification.valid) {
+      // The shop may have registered or approved a key since the list was cached
+      verification = await verifyDanEvent(event, await loadShopKeys(event.shopId, true));
+    }
+    if (!verification.valid) {
+      logger.warn(`[PolicyWorker] Ignoring event ${event.eventId} from ${event.shopId}: ${verification.reason}`);
+      return [];
+    }
+
+    if (qdrantClient) {
+      await mirrorDanOfferEvent(qdrantClient, event).catch((error) => {
+        logger.warn(`[PolicyWorker] Failed to mirror offer event ${event.eventId}:`, error?.message || error);
+      });
+    }
+
+    const policies = await loadPolicies(event.shopId, event.eventType);
+    const runs = [];
+    for (const policy of policies) {
+      // A policy never reacts to the events its own actions published
+      if (event.payload?.policyId === policy.id) continue;
+      if (await hasRun(policy.id, event.eventId)) continue;
+      runs.push(await runPolicy(policy, event));
+    }
+    return runs;
+  };
+
+  // Events are handled one at a time so backfill and realtime never race
+  const enqueue = (event) => {
+    queue = queue
+      .then(() => processEvent(event))
+      .catch((error) => logger.error(`[PolicyWorker] Failed to process event ${event.eventId}:`, error));
+    return queue;
+  };
+
+  // Catch up on events inserted while the worker was down
+  const backfill = async (since) => {
+    let from = 0;
+    for (;;) {
+      const { data, error } = await supabase
+        .from('dan_events')
+        .select('*')
+        .gte('created_at', since.toISOString())
+        .order('created_at', { ascending: true })
+        .range(from, from + EVENT_PAGE_SIZE - 1);
+      if (error) throw error;
+      (data || []).forEach((row) => enqueue(mapDanEventRow(row)));
+      if (!data || data.length < EVENT_PAGE_SIZE) break;
+      from += EVENT_PAGE_SIZE;
+    }
+    await queue;
+  };
+
+  /**
+   * Replay a stored policy over the shop's dan_events between `since` and
+   * `until` and report which runs would have fired. Events that fail
+   * signature verification are left out, as the live worker ignores them.
+   */
+  const dryRun = async (policyId, { since, until = new Date() }) => {
+    const { data, error } = await supabase.from('dan_policies').select('*').eq('id', policyId).maybeSingle();
+    if (error) throw error;
+    if (!data) throw new Error(`Policy ${policyId} not found`);
+    const policy = mapPolicyRow(data);
+    const errors = validatePolicy(policy);
+    if (errors.length) throw new Error(`Invalid policy: ${errors.join('; ')}`);
+
+    const historyWindow = getPolicyHistoryWindow(policy);
+    const eventTypes = Array.from(new Set([policy.eventType, ...(historyWindow?.eventTypes || [])]));
+    const from = new Date(since.getTime() - (historyWindow?.windowMinutes || 0) * 60 * 1000);
+    const events = await fetchShopEvents(policy.shopId, eventTypes, from, until);
+    const shopKeys = await loadShopKeys(policy.shopId, true);
+    const verified = [];
+    for (const event of events) {
+      if (event.eventType !== policy.eventType || (await verifyDanEvent(event, shopKeys)).valid) {
+        verified.push(event);
+      }
+    }
+    return replayPolicy(policy, verified, since, until);
+  };
+
+  const start = ({ lookbackMinutes = 60, channelName = 'dan-policy-worker', webhookIntervalMs } = {}) => {
+    const channel = supabase
+      .channel(channelName)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'dan_events' }, (payload) => {
+        enqueue(mapDanEventRow(payload.new));
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'dan_policies' }, () => policyCache.clear())
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'dan_keys' }, (payload) => {
+        keyCache.delete(payload.new?.shop_id || payload.old?.shop_id);
+      })
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') {
+          logger.info('[PolicyWorker] Subscribed to dan_events');
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          logger.warn(`[PolicyWorker] Realtime channel ${status.toLowerCase()}`);
+        }
+      });
+
+    backfill(new Date(Date.now() - lookbackMinutes * 60 * 1000))
+      .catch((error) => logger.error('[PolicyWorker] Backfill failed:', error));
+
+    const stopWebhooks = webhooks.start({ intervalMs: webhookIntervalMs });
+
+    return () => {
+      stopWebhooks();
+      supabase.removeChannel(channel);
+    };
+  };
+
+  return { processEvent, backfill, dryRun, start, webhooks };
+};
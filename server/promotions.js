@@ -0,0 +1,125 @@
+/**
+ * Promotions (server-side)
+ *
+ * Reads the `promotions` collection written by services/qdrant/services/promotions.ts
+ * so product search can filter to items that are currently on promotion, and
+ * prices API sales with the same rule as the browser.
+ */
+
+const isPromotionActive = (promotion, now) =>
+  promotion.active !== false &&
+  Date.parse(promotion.startsAt) <= now &&
+  now <= Date.parse(promotion.endsAt);
+
+export const getActivePromotions = async (client, shopId, now = Date.now()) => {
+  const promotions = [];
+  let offset;
+  do {
+    const response = await client.scroll('promotions', {
+      with_payload: true,
+      limit: 100,
+      offset,
+      filter: {
+        must: [
+          { key: 'shopId', match: { value: shopId } },
+          { key: 'active', match: { value: true } },
+        ],
+      },
+    });
+    promotions.push(...(response?.points ?? []).map((point) => point.payload || {}));
+    offset = response?.next_page_offset ?? undefined;
+  } while (offset);
+  return promotions.filter((promotion) => isPromotionActive(promotion, now));
+};
+
+// Product points match a promotion by productId (product and lot scope) or category
+export const promotionAppliesToProduct = (promotion, payload = {}) => {
+  if (promotion.scope === 'category') return promotion.targetId === payload.category;
+  return !!promotion.productId && promotion.productId === payload.productId;
+};
+
+// Filter clauses (at least one must match) for products on promotion. Explicit
+// sale_start_date/sale_end_date windows on the product payload still count.
+export const buildOnSaleClauses = (promotions, now = Date.now()) => {
+  const productIds = [...new Set(promotions.filter((p) => p.scope !== 'category' && p.productId).map((p) => p.productId))];
+  const categories = [...new Set(promotions.filter((p) => p.scope === 'category').map((p) => p.targetId))];
+
+  const should = [
+    {
+      must: [
+        { key: 'sale_start_date', range: { lte: now } },
+        { key: 'sale_end_date', range: { gte: now } },
+      ],
+    },
+  ];
+  if (productIds.length) should.push({ key: 'productId', match: { any: productIds } });
+  if (categories.length) should.push({ key: 'category', match: { any: categories } });
+  return should;
+};
+
+// ===== PRICING =====
+// Mirrors applyPromotions in services/qdrant/services/promotions.ts: promotions never
+// stack, each line gets its cheapest per-unit deal, and a multi-buy (counted across
+// all lines of a product) replaces those deals only when it is cheaper.
+
+const roundCents = (value) => Math.round(value * 100) / 100;
+
+const promotionAppliesToLine = (promotion, line) => {
+  if (promotion.scope === 'product') return promotion.targetId === line.productId;
+  if (promotion.scope === 'category') return !!line.category && promotion.targetId === line.category;
+  if (promotion.scope === 'lot') return !!line.inventoryUuid && promotion.targetId === line.inventoryUuid;
+  return false;
+};
+
+const discountUnitPrice = (promotion, basePrice) => {
+  if (promotion.type === 'PERCENTAGE') return basePrice * (1 - promotion.value / 100);
+  if (promotion.type === 'FIXED') return Math.max(0, basePrice - promotion.value);
+  return basePrice;
+};
+
+export const applyPromotions = (lines, promotions, now = Date.now()) => {
+  const live = promotions.filter((promotion) => isPromotionActive(promotion, now));
+
+  const priced = lines.map((line) => {
+    let unitPrice = line.basePrice;
+    let promotionId;
+    for (const promotion of live) {
+      if (promotion.type === 'MULTI_BUY' || !promotionAppliesToLine(promotion, line)) continue;
+      const candidate = discountUnitPrice(promotion, line.basePrice);
+      if (candidate < unitPrice) {
+        unitPrice = candidate;
+        promotionId = promotion.promotionId;
+      }
+    }
+    unitPrice = roundCents(unitPrice);
+    return { ...line, unitPrice, lineTotal: roundCents(unitPrice * line.quantity), promotionId };
+  });
+
+  for (const promotion of live) {
+    if (promotion.type !== 'MULTI_BUY' || !promotion.buyQuantity) continue;
+    const buy = promotion.buyQuantity;
+    const pay = promotion.payQuantity ?? buy;
+
+    const productIds = new Set(priced.filter((line) => promotionAppliesToLine(promotion, line)).map((line) => line.productId));
+    for (const productId of productIds) {
+      const group = priced.filter((line) => line.productId === productId && promotionAppliesToLine(promotion, line));
+      const units = group.reduce((sum, line) => sum + line.quantity, 0);
+      const freeUnits = Math.floor(units / buy) * (buy - pay);
+      if (freeUnits <= 0) continue;
+
+      const baseTotal = group.reduce((sum, line) => sum + line.basePrice * line.quantity, 0);
+      const currentTotal = group.reduce((sum, line) => sum + line.lineTotal, 0);
+      const multiBuyTotal = baseTotal - freeUnits * Math.min(...group.map((line) => line.basePrice));
+      if (baseTotal <= 0 || multiBuyTotal >= currentTotal) continue;
+
+      const ratio = multiBuyTotal / baseTotal;
+      for (const line of group) {
+        line.unitPrice = roundCents(line.basePrice * ratio);
+        line.lineTotal = roundCents(line.basePrice * ratio * line.quantity);
+        line.promotionId = promotion.promotionId;
+      }
+    }
+  }
+
+  return priced;
+};
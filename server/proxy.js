@@ -2,6 +2,18 @@ import express from 'express';
 import cors from 'cors';
 import { config } from 'dotenv';
 import { QdrantClient } from '@qdrant/js-client-rest';
+import { getActivePromotions, buildOnSaleClauses, promotionAppliesToProduct } from './promotions.js';
+import { createServerSupabaseClient } from './supabaseClient.js';
+import { createAuthRouter, requireSession, resolveAuthSecret, resolveCorsOrigin } from './auth.js';
+import { createShopsRouter } from './shops.js';
+import { createStaffRouter } from './staff.js';
+import { createVerificationRouter } from './verification.js';
+import { createOrdersRouter } from './orders.js';
+import { createMarketplaceRouter } from './marketplace.js';
+import { createWebhooksRouter } from './webhooks.js';
+import { createDanKeysRouter } from './danKeys.js';
+import { createDanPoliciesRouter } from './danPolicies.js';
+import { authorizeQdrantRequest, canAccessShop, QdrantAccessError } from './qdrantAccess.js';
 
 const envPath = process.env.QDRANT_PROXY_ENV;
 if (envPath) {
@@ -57,9 +69,23 @@ const summarizePointsPayload = (body) => {
   return ` points=${points.length}${vectorInfo}`;
 };
 
-app.use(cors());
+app.use(cors({ origin: resolveCorsOrigin() }));
 app.use(express.json({ limit: '25mb' }));
 
+// Same sessions as server/index.js; everything but /api/auth and /healthz needs a token
+const authSecret = resolveAuthSecret();
+const sessionGuard = requireSession(authSecret, { serviceKey: upstreamApiKey });
+app.use('/api/auth', createAuthRouter(createServerSupabaseClient(), { secret: authSecret }));
+app.use((req, res, next) => (req.path === '/healthz' ? next() : sessionGuard(req, res, next)));
+app.use('/api/shops', createShopsRouter(createServerSupabaseClient()));
+app.use('/api/staff', createStaffRouter(createServerSupabaseClient()));
+app.use('/api/verification', createVerificationRouter(createServerSupabaseClient(), { qdrantClient }));
+app.use('/api/orders', createOrdersRouter(qdrantClient, { supabase: createServerSupabaseClient() }));
+app.use('/api/marketplace', createMarketplaceRouter(qdrantClient, { supabase: createServerSupabaseClient() }));
+app.use('/api/webhooks', createWebhooksRouter(createServerSupabaseClient()));
+app.use('/api/dan/keys', createDanKeysRouter(createServerSupabaseClient()));
+app.use('/api/dan/policies', createDanPoliciesRouter(createServerSupabaseClient()));
+
 const withVectorStruct = (embedding) => {
   return { vectors: { [VECTOR_KEY]: embedding } };
 };
@@ -105,7 +131,7 @@ ensureProductsCollection().catch((error) => {
   console.error('[Qdrant Proxy] Failed to ensure products collection:', error);
 });
 
-const buildSearchFilter = (shopId, filters = {}) => {
+const buildSearchFilter = (shopId, filters = {}, promotions = []) => {
   const must = [{ key: 'shop_id', match: { value: shopId } }];
   if (filters.category) {
     must.push({ key: 'category', match: { value: filters.category } });
@@ -120,19 +146,21 @@ const buildSearchFilter = (shopId, filters = {}) => {
     must.push({ key: 'expiry_date', range });
   }
   if (filters.onSale) {
-    const now = Date.now();
-    must.push({
-      key: 'sale_start_date',
-      range: { lte: now },
-    });
-    must.push({
-      key: 'sale_end_date',
-      range: { gte: now },
-    });
+    return { must, should: buildOnSaleClauses(promotions) };
   }
   return { must };
 };
 
+// Active promotions for the onSale filter; a missing promotions collection means none
+const loadActivePromotions = async (shopId) => {
+  try {
+    return await getActivePromotions(qdrantClient, shopId);
+  } catch (error) {
+    console.warn('[Qdrant Proxy] Failed to load promotions:', error?.message || error);
+    return [];
+  }
+};
+
 const validateEmbedding = (embedding) => {
   if (!Array.isArray(embedding) || embedding.length !== VECTOR_SIZE) return false;
   return embedding.every((value) => typeof value === 'number' && Number.isFinite(value));
@@ -143,6 +171,9 @@ app.post('/api/vector/products/upsert', async (req, res) => {
   if (!shopId || typeof shopId !== 'string') {
     return res.status(400).json({ error: 'shopId is required' });
   }
+  if (!canAccessShop(req.session, shopId)) {
+    return res.status(403).json({ error: 'Not allowed for this shop' });
+  }
   if (!Array.isArray(items) || items.length === 0) {
     return res.status(400).json({ error: 'At least one item is required' });
   }
@@ -175,7 +206,7 @@ app.post('/api/vector/products/upsert', async (req, res) => {
     res.json({ ok: true, upserted: points.length });
   } catch (error) {
     console.error('[Qdrant Proxy] Product upsert failed:', error);
-    res.status(500).json({ error: 'Qdrant upsert failed', details: error.message });
+    res.status(500).json({ error: 'Qdrant upsert failed' });
   }
 });
 
@@ -184,21 +215,29 @@ app.post('/api/vector/products/search', async (req, res) => {
   if (!shopId || typeof shopId !== 'string') {
     return res.status(400).json({ error: 'shopId is required' });
   }
+  if (!canAccessShop(req.session, shopId, { storefront: true })) {
+    return res.status(403).json({ error: 'Not allowed for this shop' });
+  }
   if (!validateEmbedding(embedding)) {
     return res.status(400).json({ error: `embedding must be an array of length ${VECTOR_SIZE}` });
   }
 
   try {
+    const promotions = filters?.onSale ? await loadActivePromotions(shopId) : [];
     const response = await qdrantClient.search(PRODUCT_COLLECTION, {
       vector: { name: VECTOR_KEY, vector: embedding },
       limit,
       with_payload: true,
-      filter: buildSearchFilter(shopId, filters),
+      filter: buildSearchFilter(shopId, filters, promotions),
     });
-    res.json({ results: response });
+    // Tag on-sale hits with the promotions that apply to them
+    const results = filters?.onSale
+      ? response.map((hit) => ({ ...hit, promotions: promotions.filter((promotion) => promotionAppliesToProduct(promotion, hit.payload)) }))
+      : response;
+    res.json({ results });
   } catch (error) {
     console.error('[Qdrant Proxy] Product search failed:', error);
-    res.status(500).json({ error: 'Qdrant search failed', details: error.message });
+    res.status(500).json({ error: 'Qdrant search failed' });
   }
 });
 
@@ -215,6 +254,11 @@ const forwardRequest = async (req, res) => {
   try {
     const upstreamPath = getUpstreamPath(req.originalUrl);
     const upstreamUrl = `${baseUrl}${upstreamPath}`;
+    const { body, filterResult } = await authorizeQdrantRequest(qdrantClient, req.session, {
+      method: req.method,
+      path: upstreamPath.split('?')[0],
+      body: req.body,
+    });
     const headers = {
       'Content-Type': 'application/json',
       'api-key': upstreamApiKey,
@@ -225,8 +269,8 @@ const forwardRequest = async (req, res) => {
       headers,
     };
 
-    if (req.method !== 'GET' && req.method !== 'HEAD' && req.body && Object.keys(req.body).length > 0) {
-      init.body = JSON.stringify(req.body);
+    if (req.method !== 'GET' && req.method !== 'HEAD' && body && Object.keys(body).length > 0) {
+      init.body = JSON.stringify(body);
     }
 
     if (shouldLogProxy) {
@@ -251,10 +295,20 @@ const forwardRequest = async (req, res) => {
 
     res.status(response.status);
     res.set('Content-Type', response.headers.get('content-type') || 'application/json');
+    if (filterResult && response.ok) {
+      const parsed = JSON.parse(text);
+      res.send(JSON.stringify({ ...parsed, result: filterResult(parsed.result) }));
+      return;
+    }
     res.send(text);
   } catch (error) {
+    if (error instanceof QdrantAccessError) {
+      console.warn(`[Qdrant Proxy] Denied ${req.method} ${req.originalUrl}: ${error.message}`);
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
     console.error('[Qdrant Proxy] Error forwarding request:', error);
-    res.status(500).json({ error: 'Proxy request failed', details: error.message });
+    res.status(500).json({ error: 'Proxy request failed' });
   }
 };
 
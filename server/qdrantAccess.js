@@ -0,0 +1,340 @@
+/**
+ * Qdrant proxy authorization
+ *
+ * The proxies forward /qdrant requests with the master QDRANT_API_KEY, so
+ * every request from a signed-in user is checked here first: only the point
+ * operations the app uses are allowed, reads and writes are limited to the
+ * caller's own points (the session's shops, user or role IDs), and
+ * collection administration (create, delete, indexes, snapshots, ...) needs an
+ * admin. Staff sessions also need their role's permission for each kind of
+ * write, and only see costs with viewFinancials (server/staff.js). An owner's session covers all
+ * their shops (server/shops.js), a staff session only its shop. Verification flags are only set
+ * by the server (server/verification.js). Service sessions (server jobs
+ * sending the Qdrant key) and admins are not restricted.
+ */
+
+import { sessionHasPermission } from './staff.js';
+
+// [payload field, session claim] pairs; a point belongs to the caller when any pair matches
+const SHOP_OWNER = [['shopId', 'shopIds']];
+
+/**
+ * Access per collection. `read` is owner pairs or 'all' (any signed-in
+ * user), `write` owner pairs.
+ * `storefront` lets customers read every shop's points (less
+ * STOREFRONT_HIDDEN_FIELDS). `appendOnly` collections
+ * only take new points: no payload edits or deletes, and upserts of stored
+ * points keep the stored payload (re-recording is a no-op).
+ */
+export const COLLECTION_ACCESS = {
+  items: { read: SHOP_OWNER, write: SHOP_OWNER, storefront: true },
+  inventory: { read: SHOP_OWNER, write: SHOP_OWNER },
+  batches: { read: SHOP_OWNER, write: SHOP_OWNER },
+  sales: { read: SHOP_OWNER, write: SHOP_OWNER },
+  visual: { read: SHOP_OWNER, write: SHOP_OWNER },
+  stock_movements: { read: SHOP_OWNER, write: SHOP_OWNER, appendOnly: true },
+  promotions: { read: SHOP_OWNER, write: SHOP_OWNER, storefront: true },
+  reorder_settings: { read: SHOP_OWNER, write: SHOP_OWNER },
+  purchase_orders: { read: SHOP_OWNER, write: SHOP_OWNER },
+  notifications: { read: SHOP_OWNER, write: SHOP_OWNER },
+  notification_subscriptions: { read: SHOP_OWNER, write: SHOP_OWNER },
+  users: { read: [['userId', 'sub'], ['shopId', 'shopId']], write: [['userId', 'sub']] },
+  shops: { read: 'all', write: SHOP_OWNER },
+  suppliers: { read: 'all', write: [['shopId', 'shopId'], ['supplierId', 'supplierId'], ['linkedUserId', 'sub']] },
+  customers: { read: 'all', write: [['customerId', 'customerId']] },
+  drivers: { read: 'all', write: [['driverId', 'driverId']] },
+  // Buyers claim listings through server/marketplace.js
+  marketplace: { read: 'all', write: SHOP_OWNER },
+  dan_inventory: { read: 'all', write: SHOP_OWNER },
+  // Catalog entries belong to the shop that created them; older unowned entries are read-only
+  products: { read: 'all', write: SHOP_OWNER },
+  // The order exchange is written by server/orders.js; parties may only touch their own records
+  orders: { read: 'all', write: [['requesterShopId', 'shopIds']] },
+  proposals: { read: 'all', write: [['supplierShopId', 'shopIds']] },
+  deliveries: { read: 'all', write: [['driverId', 'driverId']] },
+};
+
+// Staff permission a write needs, by collection and operation. `create` is
+// for upserts that only add new points; replacing stored points needs `upsert`.
+const STAFF_WRITE_PERMISSIONS = {
+  items: { create: 'receiveBatches', upsert: 'adjustStock', setPayload: 'adjustStock', delete: 'deleteInventory' },
+  inventory: { create: 'receiveBatches', upsert: 'adjustStock', setPayload: 'adjustStock', delete: 'deleteInventory' },
+  batches: { upsert: 'receiveBatches', setPayload: 'receiveBatches', delete: 'deleteInventory' },
+  visual: { upsert: 'receiveBatches', setPayload: 'receiveBatches', delete: 'deleteInventory' },
+  sales: { upsert: 'adjustStock', setPayload: 'adjustStock', delete: 'deleteInventory' },
+  stock_movements: { upsert: 'adjustStock' },
+  purchase_orders: { upsert: 'receiveBatches', setPayload: 'receiveBatches', delete: 'receiveBatches' },
+  reorder_settings: { upsert: 'receiveBatches', setPayload: 'receiveBatches', delete: 'receiveBatches' },
+  products: { create: 'receiveBatches', upsert: 'editCatalog', setPayload: 'editCatalog', delete: 'deleteInventory' },
+  promotions: { upsert: 'editPrices', setPayload: 'editPrices', delete: 'editPrices' },
+  marketplace: { upsert: 'editPrices', setPayload: 'editPrices', delete: 'editPrices' },
+  dan_inventory: { upsert: 'managePolicies', setPayload: 'managePolicies', delete: 'managePolicies' },
+};
+
+// Cost fields only sessions with viewFinancials read; upserts without them keep the stored values
+const FINANCIAL_FIELDS = {
+  items: ['buyPrice'],
+  inventory: ['buyPrice'],
+  stock_movements: ['costOfGoodsLoss'],
+};
+
+// Payload fields that only staff with editPrices may change on existing points
+const PRICE_FIELDS = {
+  items: ['buyPrice', 'sellPrice'],
+};
+
+// Payload fields storefront readers (customers) do not get on other shops' points
+const STOREFRONT_HIDDEN_FIELDS = {
+  items: ['buyPrice'],
+};
+
+// Payload fields only the server sets; upserts keep their stored values
+const SERVER_FIELDS = {
+  users: ['isVerified', 'isDriverVerified'],
+  drivers: ['status'],
+  // Status changes are conditional writes in server/orders.js
+  orders: ['status', 'acceptedProposalId'],
+  proposals: ['status'],
+  deliveries: ['status', 'fee'],
+};
+
+// Point routes the app uses, by method and path after /collections/<name>
+const POINT_OPERATIONS = {
+  'GET ': 'info',
+  'POST /points': 'retrieve',
+  'POST /points/scroll': 'filter',
+  'POST /points/search': 'filter',
+  'POST /points/count': 'filter',
+  'PUT /points': 'upsert',
+  'POST /points/payload': 'setPayload',
+  'POST /points/delete': 'delete',
+};
+
+export class QdrantAccessError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const forbidden = (message) => new QdrantAccessError(403, message);
+
+const requirePermission = (session, permission) => {
+  if (!sessionHasPermission(session, permission)) {
+    throw forbidden(`Your staff role does not allow this (needs ${permission}).`);
+  }
+};
+
+export const isAdminSession = (session) => Boolean(session?.service || session?.roles?.admin);
+
+// A claim's values as a list; tokens issued before multi-shop accounts carry only shopId
+const claimValues = (session, claim) => {
+  const value = claim === 'shopIds' && !Array.isArray(session[claim]) ? session.shopId : session[claim];
+  return (Array.isArray(value) ? value : [value]).filter(Boolean);
+};
+
+/**
+ * Whether the session may act on `shopId` outside the Qdrant proxy (the
+ * /api routes). `storefront` also admits customers, who browse every shop.
+ */
+export const canAccessShop = (session, shopId, { storefront = false } = {}) => {
+  if (isAdminSession(session)) return true;
+  if (!session || !shopId) return false;
+  if (claimValues(session, 'shopIds').includes(shopId)) return true;
+  return storefront && Boolean(session.roles?.customer);
+};
+
+const ownerConditions = (pairs, session) =>
+  pairs
+    .map(([field, claim]) => [field, claimValues(session, claim)])
+    .filter(([, values]) => values.length > 0)
+    .map(([field, values]) => ({ key: field, match: values.length === 1 ? { value: values[0] } : { any: values } }));
+
+const ownsPayload = (pairs, session, payload) =>
+  pairs.some(([field, claim]) => claimValues(session, claim).includes(payload?.[field]));
+
+// The caller's points as a single filter condition, or null when the session owns nothing here
+const ownershipCondition = (pairs, session) => {
+  const conditions = ownerConditions(pairs, session);
+  if (conditions.length === 0) return null;
+  return conditions.length === 1 ? conditions[0] : { should: conditions };
+};
+
+const andFilter = (condition, filter) => (filter ? { must: [condition, filter] } : { must: [condition] });
+
+const readRule = (access, session) => {
+  if (access.read === 'all') return 'all';
+  if (access.storefront && session.roles?.customer) return 'all';
+  return access.read;
+};
+
+const requireOwnership = (pairs, session, collection) => {
+  const condition = ownershipCondition(pairs, session);
+  if (!condition) throw forbidden(`Your account has no records in '${collection}'.`);
+  return condition;
+};
+
+/**
+ * Strips the fields the caller may not read from retrieve, scroll and search
+ * results: FINANCIAL_FIELDS without viewFinancials, and STOREFRONT_HIDDEN_FIELDS
+ * on storefront points the caller does not own. Null when nothing is hidden.
+ */
+const hiddenFieldsFilter = (collection, access, session) => {
+  const financial = sessionHasPermission(session, 'viewFinancials') ? [] : FINANCIAL_FIELDS[collection] || [];
+  const storefront = access.storefront && access.read !== 'all' ? STOREFRONT_HIDDEN_FIELDS[collection] || [] : [];
+  if (financial.length === 0 && storefront.length === 0) return null;
+  const strip = (point) => {
+    if (!point?.payload) return point;
+    const hidden = ownsPayload(access.read, session, point.payload) ? financial : [...financial, ...storefront];
+    if (hidden.length === 0) return point;
+    const payload = { ...point.payload };
+    hidden.forEach((field) => delete payload[field]);
+    return { ...point, payload };
+  };
+  return (result) => {
+    if (Array.isArray(result)) return result.map(strip);
+    if (Array.isArray(result?.points)) return { ...result, points: result.points.map(strip) };
+    return result;
+  };
+};
+
+const composeResultFilters = (...filters) => {
+  const active = filters.filter(Boolean);
+  if (active.length === 0) return null;
+  return (result) => active.reduce((filtered, filter) => filter(filtered), result);
+};
+
+const parsePath = (path) => {
+  const match = /^\/collections\/([^/]+)(\/.*)?$/.exec(path.replace(/\/+$/, ''));
+  if (!match) return null;
+  return { collection: decodeURIComponent(match[1]), rest: match[2] || '' };
+};
+
+// Upserted points must carry the caller as owner and must not replace someone else's points
+const authorizeUpsert = async (client, collection, access, session, body) => {
+  const pairs = access.write;
+  if (!Array.isArray(body?.points)) {
+    throw forbidden('Only the points upsert format is allowed.');
+  }
+  const points = body.points.map((point) => {
+    const payload = { ...(point.payload || {}) };
+    // Unowned points go to the first matching claim's first value (an owner's active shop)
+    const [field, claim] = pairs.find(([, candidate]) => claimValues(session, candidate).length > 0) || [];
+    if (field && payload[field] === undefined) payload[field] = claimValues(session, claim)[0];
+    if (!ownsPayload(pairs, session, payload)) {
+      throw forbidden(`Points in '${collection}' must belong to your account.`);
+    }
+    return { ...point, payload };
+  });
+  const ids = points.map((point) => point.id).filter((id) => id !== undefined && id !== null);
+  const existing = ids.length > 0
+    ? await client.retrieve(collection, { ids, with_payload: true, with_vector: false })
+    : [];
+  if (existing.some((point) => !ownsPayload(pairs, session, point.payload))) {
+    throw forbidden(`Some points in '${collection}' belong to another account.`);
+  }
+  const rules = STAFF_WRITE_PERMISSIONS[collection];
+  if (rules?.create) requirePermission(session, existing.length > 0 ? rules.upsert : rules.create);
+  const stored = new Map(existing.map((point) => [String(point.id), point.payload || {}]));
+  const financialFields = sessionHasPermission(session, 'viewFinancials') ? [] : FINANCIAL_FIELDS[collection] || [];
+  financialFields.forEach((field) => points.forEach((point) => {
+    const previous = stored.get(String(point.id));
+    if (previous && point.payload[field] === undefined && previous[field] !== undefined) point.payload[field] = previous[field];
+  }));
+  const priceFields = PRICE_FIELDS[collection];
+  if (priceFields && !sessionHasPermission(session, 'editPrices')) {
+    const repriced = points.some((point) => {
+      const previous = stored.get(String(point.id));
+      return previous && priceFields.some((field) => point.payload[field] !== previous[field]);
+    });
+    if (repriced) requirePermission(session, 'editPrices');
+  }
+  if (access.appendOnly) {
+    return { ...body, points: points.map((point) => (stored.has(String(point.id)) ? { ...point, payload: stored.get(String(point.id)) } : point)) };
+  }
+  const serverFields = SERVER_FIELDS[collection];
+  if (!serverFields) return { ...body, points };
+  return {
+    ...body,
+    points: points.map((point) => {
+      const previous = stored.get(String(point.id)) || {};
+      const payload = { ...point.payload };
+      serverFields.forEach((field) => {
+        if (previous[field] === undefined) delete payload[field];
+        else payload[field] = previous[field];
+      });
+      return { ...point, payload };
+    }),
+  };
+};
+
+// Point selectors (ids or filter) narrowed to the caller's points
+const scopeSelector = (condition, body) => {
+  const { points, filter, ...rest } = body || {};
+  const selected = Array.isArray(points) ? { has_id: points } : filter;
+  return { ...rest, filter: andFilter(condition, selected) };
+};
+
+/**
+ * Check a proxied Qdrant request. Returns the body to forward (with the
+ * caller's filter added where needed) and, for point retrieval, a function
+ * that drops points the caller may not see from the upstream result. Throws
+ * QdrantAccessError when the request is not allowed.
+ */
+export const authorizeQdrantRequest = async (client, session, { method, path, body }) => {
+  if (isAdminSession(session)) return { body, filterResult: null };
+  if (!session?.sub) throw new QdrantAccessError(401, 'Authentication required');
+  if (method === 'GET' && (path === '/' || path === '')) return { body, filterResult: null };
+
+  const target = parsePath(path);
+  const operation = target ? POINT_OPERATIONS[`${method} ${target.rest}`] : null;
+  if (!target || !operation) {
+    throw forbidden('Collection administration requires an admin account.');
+  }
+  const { collection } = target;
+  const access = COLLECTION_ACCESS[collection];
+  if (!access) throw forbidden(`Collection '${collection}' is not available.`);
+
+  const read = readRule(access, session);
+  const hideFields = hiddenFieldsFilter(collection, access, session);
+  switch (operation) {
+    case 'info':
+      return { body, filterResult: null };
+    case 'filter':
+      if (read === 'all') return { body, filterResult: hideFields };
+      return { body: { ...body, filter: andFilter(requireOwnership(read, session, collection), body?.filter) }, filterResult: hideFields };
+    case 'retrieve': {
+      if (read === 'all') return { body, filterResult: hideFields };
+      requireOwnership(read, session, collection);
+      const withPayload = body?.with_payload;
+      return {
+        body: { ...body, with_payload: true },
+        filterResult: composeResultFilters(hideFields, (result) => (Array.isArray(result) ? result : [])
+          .filter((point) => ownsPayload(read, session, point.payload))
+          .map((point) => (withPayload ? point : { ...point, payload: undefined }))),
+      };
+    }
+    default:
+      break;
+  }
+
+  // Writes; upserts with a `create` rule are checked in authorizeUpsert, once it is known whether they replace points
+  const rules = STAFF_WRITE_PERMISSIONS[collection] || {};
+  if (rules[operation] && !(operation === 'upsert' && rules.create)) requirePermission(session, rules[operation]);
+  if (operation === 'setPayload' && PRICE_FIELDS[collection]?.some((field) => field in (body?.payload || {}))) {
+    requirePermission(session, 'editPrices');
+  }
+  const serverField = operation === 'setPayload' && SERVER_FIELDS[collection]?.find((field) => field in (body?.payload || {}));
+  if (serverField) throw forbidden(`'${serverField}' in '${collection}' is set by the server.`);
+  const pairs = access.write;
+  if (operation === 'upsert') {
+    return { body: await authorizeUpsert(client, collection, access, session, body), filterResult: null };
+  }
+  if (access.appendOnly) throw forbidden(`'${collection}' is append-only.`);
+  if (operation === 'setPayload') {
+    if (pairs.some(([field, claim]) => field in (body?.payload || {}) && !claimValues(session, claim).includes(body.payload[field]))) {
+      throw forbidden(`Points in '${collection}' cannot be moved to another account.`);
+    }
+  }
+  return { body: scopeSelector(requireOwnership(pairs, session, collection), body), filterResult: null };
+};
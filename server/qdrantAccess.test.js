@@ -0,0 +1,177 @@
+import { describe, expect, it } from 'vitest';
+import { authorizeQdrantRequest, QdrantAccessError } from './qdrantAccess.js';
+import { createFakeQdrant } from './testing/fakeQdrant.js';
+
+const owner = { sub: 'owner-a', shopId: 'shop-a', shopIds: ['shop-a'], staffRole: 'owner', roles: { shop: true } };
+const customer = { sub: 'customer-1', shopId: null, shopIds: [], customerId: 'customer-1', roles: { customer: true } };
+
+const lot = (id, shopId, extra = {}) => ({ id, payload: { inventoryUuid: id, shopId, productId: 'milk', quantity: 5, buyPrice: 1, sellPrice: 2, ...extra } });
+
+// Runs a request through the access check and, like the proxies, against the store
+const proxy = async (client, session, { method, path, body }) => {
+  const { body: forwarded, filterResult } = await authorizeQdrantRequest(client, session, { method, path, body });
+  const collection = path.split('/')[2];
+  const operation = path.split('/').slice(3).join('/');
+  let result;
+  if (method === 'POST' && operation === 'points') result = await client.retrieve(collection, forwarded);
+  else if (operation === 'points/scroll') result = await client.scroll(collection, forwarded);
+  else if (method === 'PUT') result = await client.upsert(collection, forwarded);
+  else if (operation === 'points/payload') result = await client.setPayload(collection, forwarded);
+  else if (operation === 'points/delete') result = await client.delete(collection, forwarded);
+  return filterResult ? filterResult(result) : result;
+};
+
+describe('storefront reads', () => {
+  it('hides purchase prices on other shops\' items', async () => {
+    const client = createFakeQdrant({ items: [lot('lot-1', 'shop-a')] });
+
+    const scrolled = await proxy(client, customer, { method: 'POST', path: '/collections/items/points/scroll', body: {} });
+    expect(scrolled.points[0].payload).not.toHaveProperty('buyPrice');
+    expect(scrolled.points[0].payload.sellPrice).toBe(2);
+
+    const retrieved = await proxy(client, customer, { method: 'POST', path: '/collections/items/points', body: { ids: ['lot-1'], with_payload: true } });
+    expect(retrieved[0].payload).not.toHaveProperty('buyPrice');
+  });
+
+  it('keeps purchase prices for the owning shop', async () => {
+    const client = createFakeQdrant({ items: [lot('lot-1', 'shop-a')] });
+    const scrolled = await proxy(client, owner, { method: 'POST', path: '/collections/items/points/scroll', body: {} });
+    expect(scrolled.points[0].payload.buyPrice).toBe(1);
+  });
+
+  it('rejects reads of collections without a storefront', async () => {
+    const client = createFakeQdrant();
+    await expect(authorizeQdrantRequest(client, customer, { method: 'POST', path: '/collections/sales/points/scroll', body: {} }))
+      .rejects.toBeInstanceOf(QdrantAccessError);
+  });
+});
+
+describe('catalog writes', () => {
+  const otherShop = { sub: 'owner-b', shopId: 'shop-b', shopIds: ['shop-b'], staffRole: 'owner', roles: { shop: true } };
+  const product = (id, extra = {}) => ({ id, payload: { productId: id, name: 'Milk', ...extra } });
+
+  it('stamps new entries with the creating shop', async () => {
+    const client = createFakeQdrant();
+    await proxy(client, owner, { method: 'PUT', path: '/collections/products/points', body: { points: [product('p-new')] } });
+    expect(client.payload('products', 'p-new').shopId).toBe('shop-a');
+  });
+
+  it('keeps other shops from overwriting, editing or deleting an entry', async () => {
+    const client = createFakeQdrant({ products: [product('p-1', { shopId: 'shop-a' })] });
+
+    await expect(proxy(client, otherShop, { method: 'PUT', path: '/collections/products/points', body: { points: [product('p-1', { name: 'Chalk' })] } }))
+      .rejects.toThrow('belong to another account');
+    await proxy(client, otherShop, { method: 'POST', path: '/collections/products/points/payload', body: { payload: { name: 'Chalk' }, points: ['p-1'] } });
+    await proxy(client, otherShop, { method: 'POST', path: '/collections/products/points/delete', body: { points: ['p-1'] } });
+
+    expect(client.payload('products', 'p-1')).toMatchObject({ name: 'Milk', shopId: 'shop-a' });
+  });
+
+  it('leaves older entries without an owner read-only', async () => {
+    const client = createFakeQdrant({ products: [product('p-old')] });
+    await expect(proxy(client, owner, { method: 'PUT', path: '/collections/products/points', body: { points: [product('p-old', { name: 'Chalk' })] } }))
+      .rejects.toThrow('belong to another account');
+  });
+});
+
+describe('staff permissions', () => {
+  const staff = (staffRole) => ({ sub: `${staffRole}-1`, shopId: 'shop-a', shopIds: ['shop-a'], staffRole, roles: { shop: true } });
+  const upsert = (collection, points) => ({ method: 'PUT', path: `/collections/${collection}/points`, body: { points } });
+  const setPayload = (collection, payload, ids) => ({ method: 'POST', path: `/collections/${collection}/points/payload`, body: { payload, points: ids } });
+
+  it('keeps auditors from writing stock, sales and the ledger', async () => {
+    const client = createFakeQdrant({ items: [lot('lot-1', 'shop-a')] });
+    const auditor = staff('auditor');
+
+    await expect(proxy(client, auditor, setPayload('items', { quantity: 99 }, ['lot-1']))).rejects.toThrow('needs adjustStock');
+    await expect(proxy(client, auditor, upsert('items', [lot('lot-1', 'shop-a', { quantity: 99 })]))).rejects.toThrow('needs adjustStock');
+    await expect(proxy(client, auditor, upsert('sales', [{ id: 's-1', payload: { saleId: 's-1' } }]))).rejects.toThrow('needs adjustStock');
+    await expect(proxy(client, auditor, upsert('stock_movements', [{ id: 'm-1', payload: { delta: 1 } }]))).rejects.toThrow('needs adjustStock');
+    expect(client.payload('items', 'lot-1').quantity).toBe(5);
+  });
+
+  it('lets clerks sell and receive but not edit the catalog, prices or policies', async () => {
+    const client = createFakeQdrant({
+      items: [lot('lot-1', 'shop-a')],
+      products: [{ id: 'p-1', payload: { productId: 'p-1', name: 'Milk', shopId: 'shop-a' } }],
+    });
+    const clerk = staff('clerk');
+
+    await proxy(client, clerk, setPayload('items', { quantity: 4 }, ['lot-1']));
+    await proxy(client, clerk, upsert('items', [lot('lot-2', 'shop-a')]));
+    await proxy(client, clerk, upsert('products', [{ id: 'p-2', payload: { productId: 'p-2', name: 'Bread' } }]));
+    expect(client.payload('items', 'lot-1').quantity).toBe(4);
+    expect(client.payload('products', 'p-2').shopId).toBe('shop-a');
+
+    await expect(proxy(client, clerk, upsert('products', [{ id: 'p-1', payload: { productId: 'p-1', name: 'Chalk' } }]))).rejects.toThrow('needs editCatalog');
+    await expect(proxy(client, clerk, setPayload('products', { name: 'Chalk' }, ['p-1']))).rejects.toThrow('needs editCatalog');
+    await expect(proxy(client, clerk, setPayload('items', { sellPrice: 0.5 }, ['lot-1']))).rejects.toThrow('needs editPrices');
+    await expect(proxy(client, clerk, upsert('dan_inventory', [{ id: 'd-1', payload: {} }]))).rejects.toThrow('needs managePolicies');
+    await expect(proxy(client, clerk, { method: 'POST', path: '/collections/items/points/delete', body: { points: ['lot-1'] } })).rejects.toThrow('needs deleteInventory');
+  });
+
+  it('hides costs from staff without viewFinancials and keeps them on their upserts', async () => {
+    const client = createFakeQdrant({ items: [lot('lot-1', 'shop-a')] });
+    const clerk = staff('clerk');
+
+    const [read] = await proxy(client, clerk, { method: 'POST', path: '/collections/items/points', body: { ids: ['lot-1'], with_payload: true } });
+    expect(read.payload).not.toHaveProperty('buyPrice');
+
+    await proxy(client, clerk, upsert('items', [{ id: 'lot-1', payload: { ...read.payload, quantity: 3 } }]));
+    expect(client.payload('items', 'lot-1')).toMatchObject({ quantity: 3, buyPrice: 1 });
+
+    const [managerRead] = await proxy(client, staff('manager'), { method: 'POST', path: '/collections/items/points', body: { ids: ['lot-1'], with_payload: true } });
+    expect(managerRead.payload.buyPrice).toBe(1);
+  });
+});
+
+describe('stock movement ledger', () => {
+  const movement = (id, delta) => ({ id, payload: { movementId: id, shopId: 'shop-a', inventoryUuid: 'lot-1', delta } });
+
+  it('appends new movements and ignores rewrites of recorded ones', async () => {
+    const client = createFakeQdrant({ stock_movements: [movement('m-1', -2)] });
+    await proxy(client, owner, { method: 'PUT', path: '/collections/stock_movements/points', body: { points: [movement('m-1', 500), movement('m-2', 3)] } });
+
+    expect(client.payload('stock_movements', 'm-1').delta).toBe(-2);
+    expect(client.payload('stock_movements', 'm-2').delta).toBe(3);
+  });
+
+  it('rejects payload edits and deletes', async () => {
+    const client = createFakeQdrant({ stock_movements: [movement('m-1', -2)] });
+    await expect(proxy(client, owner, { method: 'POST', path: '/collections/stock_movements/points/payload', body: { payload: { delta: 0 }, points: ['m-1'] } }))
+      .rejects.toThrow('append-only');
+    await expect(proxy(client, owner, { method: 'POST', path: '/collections/stock_movements/points/delete', body: { points: ['m-1'] } }))
+      .rejects.toThrow('append-only');
+  });
+});
+
+describe('order exchange writes', () => {
+  const otherShop = { sub: 'owner-b', shopId: 'shop-b', shopIds: ['shop-b'], staffRole: 'owner', roles: { shop: true } };
+  const order = { id: 'o-1', payload: { orderId: 'o-1', requesterShopId: 'shop-a', status: 'OPEN', quantity: 5 } };
+
+  it('keeps other shops off an order', async () => {
+    const client = createFakeQdrant({ orders: [order] });
+    await expect(proxy(client, otherShop, { method: 'PUT', path: '/collections/orders/points', body: { points: [{ ...order, payload: { ...order.payload, quantity: 1 } }] } }))
+      .rejects.toThrow('belong to your account');
+    await proxy(client, otherShop, { method: 'POST', path: '/collections/orders/points/delete', body: { points: ['o-1'] } });
+    expect(client.payload('orders', 'o-1').quantity).toBe(5);
+  });
+
+  it('leaves status changes to the server', async () => {
+    const client = createFakeQdrant({ orders: [order] });
+    await expect(proxy(client, owner, { method: 'POST', path: '/collections/orders/points/payload', body: { payload: { status: 'COMPLETED' }, points: ['o-1'] } }))
+      .rejects.toThrow('set by the server');
+    await proxy(client, owner, { method: 'PUT', path: '/collections/orders/points', body: { points: [{ ...order, payload: { ...order.payload, status: 'COMPLETED' } }] } });
+    expect(client.payload('orders', 'o-1').status).toBe('OPEN');
+  });
+});
+
+describe('marketplace listings', () => {
+  const buyer = { sub: 'owner-b', shopId: 'shop-b', shopIds: ['shop-b'], staffRole: 'owner', roles: { shop: true } };
+
+  it('keeps buyers from changing another shop\'s listing', async () => {
+    const client = createFakeQdrant({ marketplace: [{ id: 'l-1', payload: { listingId: 1, shopId: 'shop-a', quantity: 10, version: 0 } }] });
+    await proxy(client, buyer, { method: 'POST', path: '/collections/marketplace/points/payload', body: { payload: { quantity: 0, version: 1 }, points: ['l-1'] } });
+    expect(client.payload('marketplace', 'l-1')).toMatchObject({ quantity: 10, version: 0 });
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Qdrant point helpers (server-side)
+ *
+ * Node counterparts of services/qdrant/vectors.ts and queries.ts. Point IDs and
+ * placeholder vectors must match the client exactly so server and browser read
+ * and write the same points.
+ */
+
+import { v5 as uuidv5 } from 'uuid';
+
+export const UUID_NAMESPACE = '58fc3ff2-2f13-11ef-b75e-0242ac110002';
+export const EMBEDDING_VECTOR_SIZE = 768;
+
+export const composePointId = (collection, entityId) => uuidv5(`${collection}:${entityId}`, UUID_NAMESPACE);
+
+export const buildPlaceholderVector = (seed) => {
+  const safeSeed = String(seed || 'default');
+  const vector = new Array(EMBEDDING_VECTOR_SIZE).fill(0);
+  for (let i = 0; i < EMBEDDING_VECTOR_SIZE; i++) {
+    vector[i] = ((safeSeed.charCodeAt(i % safeSeed.length) || 0) % 100) / 1000;
+  }
+  return vector;
+};
+
+// Vector layout never changes for an existing collection, so look it up once
+const vectorNameCache = new Map();
+
+// Named-vector collections need { vectors: { name } } instead of { vector }
+export const resolveVectorField = async (client, collection, vector) => {
+  if (!vectorNameCache.has(collection)) {
+    const info = await client.getCollection(collection);
+    const vectors = info?.config?.params?.vectors;
+    vectorNameCache.set(
+      collection,
+      vectors && typeof vectors.size !== 'number' ? Object.keys(vectors)[0] || 'default' : null,
+    );
+  }
+  const name = vectorNameCache.get(collection);
+  return name ? { vectors: { [name]: vector } } : { vector };
+};
+
+// Every point in a collection matching the filter
+export const scrollAll = async (client, collection, filter) => {
+  const points = [];
+  let offset;
+  do {
+    const response = await client.scroll(collection, { with_payload: true, limit: 100, offset, filter });
+    points.push(...(response?.points ?? []));
+    offset = response?.next_page_offset ?? undefined;
+  } while (offset);
+  return points;
+};
+
+export const retrievePayload = async (client, collection, pointId) => {
+  const [point] = await client.retrieve(collection, { ids: [pointId], with_payload: true });
+  return point?.payload ?? null;
+};
+
+// Upsert one point with a placeholder vector seeded by the entity id
+export const upsertPoint = async (client, collection, entityId, payload, pointId = composePointId(collection, entityId)) => {
+  const vectorField = await resolveVectorField(client, collection, buildPlaceholderVector(entityId));
+  await client.upsert(collection, {
+    wait: true,
+    points: [{ id: pointId, ...vectorField, payload }],
+  });
+};
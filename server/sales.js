@@ -0,0 +1,219 @@
+/**
+ * Sales (server-side)
+ *
+ * Node counterpart of recordSale in services/qdrant/services/sales.ts. The sale
+ * is journaled as PENDING, each lot is decremented FEFO with a compare-and-set,
+ * and the sale is COMMITTED only once every lot is written; failures restore
+ * the lots already touched. Sale ids derive from shop and idempotency key the
+ * same way as the browser, so a key replayed from either side is sold once.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { composePointId, retrievePayload, upsertPoint, scrollAll } from './qdrantPoints.js';
+import { getSellableLots, compareAndSetStockQuantity, adjustStockQuantity, getItemPayload, recordStockMovements } from './inventory.js';
+import { getActivePromotions, applyPromotions } from './promotions.js';
+
+const RETAIL_MARKUP = 1.4;
+const MAX_SALE_ATTEMPTS = 3;
+const PENDING_SALE_LEASE_MS = 30_000;
+
+// Errors carry a code the API maps to a status
+export const saleError = (code, message) => Object.assign(new Error(message), { code });
+
+export const mapSalePayload = (payload) => ({
+  id: String(payload.saleId),
+  shopId: payload.shopId,
+  timestamp: payload.timestamp,
+  items: payload.lineItems || [],
+  totalAmount: payload.totalAmount || 0,
+  source: payload.source || null,
+  idempotencyKey: payload.idempotencyKey || null,
+  status: payload.status || 'COMMITTED',
+});
+
+const persistSale = (client, shopId, sale, journal) => upsertPoint(client, 'sales', sale.id, {
+  saleId: sale.id,
+  shopId,
+  timestamp: sale.timestamp,
+  lineItems: sale.items,
+  totalAmount: sale.totalAmount,
+  source: sale.source || null,
+  idempotencyKey: sale.idempotencyKey || null,
+  status: sale.status,
+  journal,
+  updatedAt: new Date().toISOString(),
+});
+
+const setSaleStatus = (client, saleId, status) => client.setPayload('sales', {
+  wait: true,
+  payload: { status, updatedAt: new Date().toISOString() },
+  points: [composePointId('sales', saleId)],
+});
+
+const compensateStock = async (client, saleId, entries, onlyIfStamped = false) => {
+  for (const entry of entries) {
+    try {
+      if (onlyIfStamped) {
+        const stored = await getItemPayload(client, entry.inventoryUuid);
+        if (stored?.lastSaleId !== saleId) continue;
+      }
+      await adjustStockQuantity(client, entry.inventoryUuid, entry.deducted, { lastSaleId: null });
+    } catch (error) {
+      console.error(`[Sales] Failed to restore ${entry.deducted} units to ${entry.inventoryUuid} for sale ${saleId}:`, error);
+    }
+  }
+};
+
+const recordSaleMovements = async (client, shopId, saleId, journal, createdByUserId) => {
+  try {
+    await recordStockMovements(client, shopId, journal.map((entry) => ({
+      id: `${saleId}:${entry.inventoryUuid}`,
+      inventoryUuid: entry.inventoryUuid,
+      productId: entry.productId,
+      delta: -entry.deducted,
+      quantityAfter: entry.previousQuantity - entry.deducted,
+      reason: 'sale',
+      referenceId: saleId,
+    })), createdByUserId);
+  } catch (error) {
+    console.error(`[Sales] Failed to record stock movements for sale ${saleId}:`, error);
+  }
+};
+
+const getProductCategories = async (client, productIds) => {
+  const points = await scrollAll(client, 'products', { must: [{ key: 'productId', match: { any: productIds } }] });
+  return new Map(points.map((point) => [point.payload?.productId, point.payload?.category || undefined]));
+};
+
+// FEFO deductions against current stock, priced with active promotions
+const planSale = async (client, shopId, lines) => {
+  const productIds = [...new Set(lines.map((line) => line.productId))];
+  const [lots, promotions, categories] = await Promise.all([
+    getSellableLots(client, shopId, productIds),
+    getActivePromotions(client, shopId).catch(() => []),
+    getProductCategories(client, productIds),
+  ]);
+
+  const pricingLines = [];
+  const journal = [];
+  for (const line of lines) {
+    const productLots = lots
+      .filter((lot) => lot.productId === line.productId)
+      .sort((a, b) => new Date(a.expiration).getTime() - new Date(b.expiration).getTime());
+    const available = productLots.reduce((sum, lot) => sum + Number(lot.quantity), 0);
+    if (available < line.quantity) {
+      throw saleError('insufficient_stock', `Insufficient stock for ${line.productId}: requested ${line.quantity}, available ${available}.`);
+    }
+
+    let remaining = line.quantity;
+    for (const lot of productLots) {
+      if (remaining <= 0) break;
+      const quantity = Number(lot.quantity);
+      const deducted = Math.min(quantity, remaining);
+      remaining -= deducted;
+      // Lots already used by an earlier line of this cart are not reused
+      lot.quantity = quantity - deducted;
+
+      pricingLines.push({
+        productId: line.productId,
+        category: categories.get(line.productId),
+        inventoryUuid: lot.inventoryUuid,
+        quantity: deducted,
+        basePrice: lot.sellPrice ?? (Number(lot.buyPrice) || 0) * RETAIL_MARKUP,
+      });
+      const previous = journal.find((entry) => entry.inventoryUuid === lot.inventoryUuid);
+      if (previous) {
+        previous.deducted += deducted;
+      } else {
+        journal.push({
+          inventoryUuid: lot.inventoryUuid,
+          productId: line.productId,
+          expectedUpdatedAt: lot.updatedAt,
+          previousQuantity: quantity,
+          deducted,
+        });
+      }
+    }
+  }
+
+  const priced = applyPromotions(pricingLines, promotions);
+  const items = priced.map((line) => ({
+    productId: line.productId,
+    quantity: line.quantity,
+    priceAtSale: line.unitPrice,
+    basePrice: line.basePrice,
+    ...(line.promotionId ? { promotionId: line.promotionId } : {}),
+  }));
+  const totalAmount = Math.round(priced.reduce((sum, line) => sum + line.lineTotal, 0) * 100) / 100;
+  return { items, totalAmount, journal };
+};
+
+// Record a sale of { productId, quantity } lines for a shop
+export const recordSale = async (client, shopId, { lines, idempotencyKey, source = { type: 'pos' }, createdByUserId }) => {
+  const saleId = idempotencyKey ? composePointId('sales', `${shopId}:${idempotencyKey}`) : uuidv4();
+
+  if (idempotencyKey) {
+    const existing = await retrievePayload(client, 'sales', composePointId('sales', saleId));
+    if (existing?.status === 'COMMITTED') {
+      await recordSaleMovements(client, shopId, saleId, existing.journal || [], createdByUserId);
+      return { sale: mapSalePayload(existing), replayed: true };
+    }
+    if (existing?.status === 'PENDING') {
+      const age = Date.now() - new Date(existing.updatedAt || existing.timestamp).getTime();
+      if (age < PENDING_SALE_LEASE_MS) throw saleError('sale_in_progress', 'This sale is already being processed.');
+      await compensateStock(client, saleId, existing.journal || [], true);
+      await setSaleStatus(client, saleId, 'ROLLED_BACK');
+    }
+  }
+
+  for (let attempt = 1; attempt <= MAX_SALE_ATTEMPTS; attempt++) {
+    const { items, totalAmount, journal } = await planSale(client, shopId, lines);
+    const sale = {
+      id: saleId,
+      shopId,
+      timestamp: new Date().toISOString(),
+      items,
+      totalAmount,
+      source,
+      idempotencyKey: idempotencyKey || null,
+      status: 'PENDING',
+    };
+    await persistSale(client, shopId, sale, journal);
+
+    const applied = [];
+    let conflict = false;
+    try {
+      for (const entry of journal) {
+        const updatedAt = await compareAndSetStockQuantity(
+          client,
+          entry.inventoryUuid,
+          entry.expectedUpdatedAt,
+          entry.previousQuantity - entry.deducted,
+          { lastSaleId: saleId },
+        );
+        if (!updatedAt) {
+          conflict = true;
+          break;
+        }
+        applied.push(entry);
+      }
+
+      if (!conflict) {
+        await setSaleStatus(client, saleId, 'COMMITTED');
+        await recordSaleMovements(client, shopId, saleId, journal, createdByUserId);
+        return { sale: { ...sale, status: 'COMMITTED' }, replayed: false };
+      }
+    } catch (error) {
+      await compensateStock(client, saleId, applied);
+      await setSaleStatus(client, saleId, 'ROLLED_BACK').catch((err) =>
+        console.error(`[Sales] Failed to mark sale ${saleId} as rolled back:`, err));
+      throw error;
+    }
+
+    await compensateStock(client, saleId, applied);
+    await setSaleStatus(client, saleId, 'ROLLED_BACK');
+    console.warn(`[Sales] Stock changed while recording sale ${saleId}, retrying (attempt ${attempt}).`);
+  }
+
+  throw saleError('stock_conflict', 'Stock changed while recording the sale. Please try again.');
+};
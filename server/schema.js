@@ -0,0 +1,81 @@
+/**
+ * JSON Schema validation (server-side)
+ *
+ * The subset of JSON Schema the REST API uses: type, required, properties,
+ * additionalProperties: false, enum, minimum/maximum, minLength/maxLength,
+ * pattern, items, minItems/maxItems and the date / date-time formats.
+ * Returns a list of { path, message } errors; an empty list means valid.
+ */
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const typeOf = (value) => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+};
+
+const matchesType = (value, type) => {
+  const actual = typeOf(value);
+  if (type === 'number') return actual === 'number' || actual === 'integer';
+  return actual === type;
+};
+
+const checkFormat = (value, format) => {
+  if (format === 'date') return DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value));
+  if (format === 'date-time') return !Number.isNaN(Date.parse(value));
+  return true;
+};
+
+export const validateSchema = (schema, value, path = '') => {
+  const errors = [];
+  const at = path || '(root)';
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      return [{ path: at, message: `must be ${types.join(' or ')}` }];
+    }
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push({ path: at, message: `must be one of ${schema.enum.join(', ')}` });
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push({ path: at, message: `must be >= ${schema.minimum}` });
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push({ path: at, message: `must be <= ${schema.maximum}` });
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) errors.push({ path: at, message: `must have at least ${schema.minLength} characters` });
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) errors.push({ path: at, message: `must have at most ${schema.maxLength} characters` });
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) errors.push({ path: at, message: `must match ${schema.pattern}` });
+    if (schema.format && !checkFormat(value, schema.format)) errors.push({ path: at, message: `must be a valid ${schema.format}` });
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) errors.push({ path: at, message: `must have at least ${schema.minItems} items` });
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push({ path: at, message: `must have at most ${schema.maxItems} items` });
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...validateSchema(schema.items, item, `${path}[${index}]`)));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) errors.push({ path: path ? `${path}.${key}` : key, message: 'is required' });
+    }
+    const properties = schema.properties || {};
+    for (const [key, propertyValue] of Object.entries(value)) {
+      const propertyPath = path ? `${path}.${key}` : key;
+      if (properties[key]) {
+        if (propertyValue !== undefined) errors.push(...validateSchema(properties[key], propertyValue, propertyPath));
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: propertyPath, message: 'is not allowed' });
+      }
+    }
+  }
+
+  return errors;
+};
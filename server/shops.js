@@ -0,0 +1,165 @@
+/**
+ * Multi-shop accounts
+ *
+ * An account's own shop is users.shop_qdrant_id; operators running several
+ * locations add more shops in operator_shops. Every shop has one owner
+ * account, and staff (server/staff.js) work at shops they were added to.
+ * A session works in one shop at a time (auth_sessions.active_shop_id,
+ * switched through /api/auth/switch-shop); an owner's session also carries
+ * the IDs of their other shops, so consolidated views and inter-shop
+ * transfers can read and write across them (server/qdrantAccess.js).
+ */
+
+import express from 'express';
+import { v4 as uuidv4 } from 'uuid';
+
+const OWNER_USER_COLUMNS = 'id, display_name, contact_email, email, qdrant_namespace, shop_qdrant_id';
+const MAX_SHOP_NAME_LENGTH = 120;
+
+class ShopsError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const mapOwnShop = (user) => ({
+  shopId: user.shop_qdrant_id,
+  name: user.display_name,
+  ownerUserId: user.id,
+  contactEmail: user.contact_email || user.email || null,
+  qdrantNamespace: user.qdrant_namespace || null,
+  primary: true,
+});
+
+const mapOperatorShop = (row) => ({
+  shopId: row.shop_id,
+  name: row.name,
+  ownerUserId: row.user_id,
+  contactEmail: row.contact_email || null,
+  qdrantNamespace: row.qdrant_namespace || null,
+  primary: false,
+});
+
+/**
+ * A shop with its owner account, or null when no account owns `shopId`.
+ */
+export const loadShop = async (supabase, shopId) => {
+  if (!supabase || !shopId) return null;
+  const { data: owner, error } = await supabase
+    .from('users')
+    .select(OWNER_USER_COLUMNS)
+    .eq('shop_qdrant_id', shopId)
+    .maybeSingle();
+  if (error) throw error;
+  if (owner) return mapOwnShop(owner);
+  const { data: row, error: operatorError } = await supabase
+    .from('operator_shops')
+    .select('*')
+    .eq('shop_id', shopId)
+    .maybeSingle();
+  if (operatorError) throw operatorError;
+  return row ? mapOperatorShop(row) : null;
+};
+
+/**
+ * Every shop a users row can work in, with its role there: the shops it owns
+ * (its own first), or for staff the shops they were added to, oldest first.
+ */
+export const loadAccountShops = async (supabase, user) => {
+  if (!supabase || !user) return [];
+  const { data: operated, error } = await supabase
+    .from('operator_shops')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  const owned = [
+    ...(user.shop_qdrant_id ? [mapOwnShop(user)] : []),
+    ...(operated || []).map(mapOperatorShop),
+  ].map((shop) => ({ ...shop, role: 'owner' }));
+  if (owned.length > 0) return owned;
+
+  const { data: memberships, error: staffError } = await supabase
+    .from('shop_staff')
+    .select('shop_id, role')
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: true });
+  if (staffError) throw staffError;
+  const shops = await Promise.all((memberships || []).map(async (membership) => {
+    const shop = await loadShop(supabase, membership.shop_id);
+    return shop ? { ...shop, role: membership.role } : null;
+  }));
+  return shops.filter(Boolean);
+};
+
+/**
+ * /api/shops: the caller's shops, and opening another one. Only accounts that
+ * run their own shop can add more; the new shop reaches the session's claims
+ * at its next refresh.
+ */
+export const createShopsRouter = (supabase, { logger = console } = {}) => {
+  const router = express.Router();
+
+  const ensureSupabase = () => {
+    if (!supabase) throw new ShopsError(503, 'Shops are unavailable: SUPABASE_URL is not set on the server.');
+    return supabase;
+  };
+
+  const loadCaller = async (req) => {
+    if (!req.session?.sub) throw new ShopsError(403, 'Shops belong to a signed-in account.');
+    const { data: user, error } = await ensureSupabase()
+      .from('users')
+      .select(`${OWNER_USER_COLUMNS}, username`)
+      .eq('id', req.session.sub)
+      .maybeSingle();
+    if (error) throw error;
+    if (!user) throw new ShopsError(404, 'User not found');
+    return user;
+  };
+
+  const handle = (fn) => async (req, res) => {
+    try {
+      await fn(req, res);
+    } catch (error) {
+      if (error instanceof ShopsError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      logger.error('[Shops] Request failed:', error);
+      res.status(500).json({ error: 'Shops request failed' });
+    }
+  };
+
+  router.get('/', handle(async (req, res) => {
+    const shops = await loadAccountShops(ensureSupabase(), await loadCaller(req));
+    res.json({ shops, activeShopId: req.session.shopId || null });
+  }));
+
+  router.post('/', handle(async (req, res) => {
+    const user = await loadCaller(req);
+    if (!user.shop_qdrant_id) throw new ShopsError(403, 'Only shop owners can open more shops.');
+    const name = typeof req.body?.name === 'string' ? req.body.name.trim() : '';
+    if (!name) throw new ShopsError(400, 'name is required');
+    if (name.length > MAX_SHOP_NAME_LENGTH) throw new ShopsError(400, `name must be at most ${MAX_SHOP_NAME_LENGTH} characters`);
+    const contactEmail = typeof req.body?.contactEmail === 'string' && req.body.contactEmail.trim()
+      ? req.body.contactEmail.trim()
+      : user.contact_email || user.email || null;
+    const shopId = uuidv4();
+    const { data: row, error } = await ensureSupabase()
+      .from('operator_shops')
+      .insert({
+        shop_id: shopId,
+        user_id: user.id,
+        name,
+        contact_email: contactEmail,
+        qdrant_namespace: `shop-${shopId}`,
+      })
+      .select('*')
+      .single();
+    if (error) throw error;
+    res.status(201).json({ shop: { ...mapOperatorShop(row), role: 'owner' } });
+  }));
+
+  return router;
+};
@@ -0,0 +1,213 @@
+/**
+ * Shop staff
+ *
+ * The user who registered a shop is its owner and can add other users as
+ * staff (shop_staff, read by the server only). A staff member's session
+ * carries the shop's ID and their role (server/auth.js), and the Qdrant proxy
+ * (server/qdrantAccess.js) and /api/v1 (server/apiV1.js) check the role's
+ * permissions. The role table mirrors services/staff.ts.
+ */
+
+import express from 'express';
+import { loadShop } from './shops.js';
+
+export const STAFF_ROLES = ['owner', 'manager', 'clerk', 'auditor'];
+
+export const STAFF_ROLE_PERMISSIONS = {
+  owner: ['editPrices', 'editCatalog', 'adjustStock', 'deleteInventory', 'receiveBatches', 'managePolicies', 'viewFinancials', 'manageStaff'],
+  manager: ['editPrices', 'editCatalog', 'adjustStock', 'deleteInventory', 'receiveBatches', 'managePolicies', 'viewFinancials'],
+  clerk: ['adjustStock', 'receiveBatches'],
+  auditor: ['viewFinancials'],
+};
+
+// Roles the owner can hand out; every shop has exactly one owner
+const ASSIGNABLE_ROLES = STAFF_ROLES.filter((role) => role !== 'owner');
+const UNIQUE_VIOLATION = '23505';
+const MEMBER_USER_COLUMNS = 'id, username, display_name, email, contact_email, shop_qdrant_id';
+
+class StaffError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// Tokens issued before staff roles existed only went to shop owners
+const sessionStaffRole = (session) => session?.staffRole || (session?.shopId ? 'owner' : null);
+
+export const sessionHasPermission = (session, permission) => {
+  if (session?.service || session?.roles?.admin) return true;
+  const role = sessionStaffRole(session);
+  return Boolean(role && STAFF_ROLE_PERMISSIONS[role]?.includes(permission));
+};
+
+/**
+ * The shop a user works at as staff (`shopId`, or the one they joined
+ * first), with what the app needs to open it, or null. Users who registered
+ * a shop work at their own.
+ */
+export const loadStaffMembership = async (supabase, user, shopId = null) => {
+  if (!supabase || !user || user.shop_qdrant_id) return null;
+  let query = supabase
+    .from('shop_staff')
+    .select('shop_id, role')
+    .eq('user_id', user.id);
+  if (shopId) query = query.eq('shop_id', shopId);
+  const { data: membership, error } = await query
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  if (!membership) return null;
+  const shop = await loadShop(supabase, membership.shop_id);
+  return {
+    shopId: membership.shop_id,
+    role: membership.role,
+    ownerUserId: shop?.ownerUserId || null,
+    shopName: shop?.name || null,
+    contactEmail: shop?.contactEmail || null,
+    qdrantNamespace: shop?.qdrantNamespace || null,
+  };
+};
+
+const mapMember = (user, row) => ({
+  userId: user.id,
+  shopId: row.shop_id,
+  username: user.username,
+  displayName: user.display_name,
+  email: user.contact_email || user.email,
+  role: row.role,
+  addedBy: row.added_by || null,
+  createdAt: row.created_at || null,
+});
+
+/**
+ * /api/staff for the caller's shop: anyone working there can list the staff;
+ * adding, re-roling and removing members needs manageStaff. Changes reach a
+ * member's session at its next refresh.
+ */
+export const createStaffRouter = (supabase, { logger = console } = {}) => {
+  const router = express.Router();
+
+  const ensureSupabase = () => {
+    if (!supabase) throw new StaffError(503, 'Staff accounts are unavailable: SUPABASE_URL is not set on the server.');
+    return supabase;
+  };
+
+  const requireManageStaff = (req) => {
+    if (!sessionHasPermission(req.session, 'manageStaff')) {
+      throw new StaffError(403, 'Only the shop owner can manage staff.');
+    }
+  };
+
+  const validateRole = (role) => {
+    if (!ASSIGNABLE_ROLES.includes(role)) {
+      throw new StaffError(400, `role must be one of: ${ASSIGNABLE_ROLES.join(', ')}`);
+    }
+  };
+
+  const handle = (fn) => async (req, res) => {
+    try {
+      await fn(req, res);
+    } catch (error) {
+      if (error instanceof StaffError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      logger.error('[Staff] Request failed:', error);
+      res.status(500).json({ error: 'Staff request failed' });
+    }
+  };
+
+  router.use((req, res, next) => {
+    if (!req.session?.shopId) {
+      res.status(403).json({ error: 'Staff accounts belong to a shop.' });
+      return;
+    }
+    next();
+  });
+
+  router.get('/', handle(async (req, res) => {
+    const client = ensureSupabase();
+    const shopId = req.session.shopId;
+    const { data: rows, error } = await client
+      .from('shop_staff')
+      .select('*')
+      .eq('shop_id', shopId)
+      .order('created_at', { ascending: true });
+    if (error) throw error;
+    // Operators' further shops (server/shops.js) are owned by an account with another shop_qdrant_id
+    const shop = await loadShop(client, shopId);
+    const { data: owner, error: ownerError } = shop
+      ? await client.from('users').select(MEMBER_USER_COLUMNS).eq('id', shop.ownerUserId).maybeSingle()
+      : { data: null, error: null };
+    if (ownerError) throw ownerError;
+    const { data: users, error: usersError } = rows.length
+      ? await client.from('users').select(MEMBER_USER_COLUMNS).in('id', rows.map((row) => row.user_id))
+      : { data: [], error: null };
+    if (usersError) throw usersError;
+    const byId = new Map(users.map((user) => [user.id, user]));
+    const staff = [
+      ...(owner ? [mapMember(owner, { shop_id: shopId, role: 'owner' })] : []),
+      ...rows.filter((row) => byId.has(row.user_id)).map((row) => mapMember(byId.get(row.user_id), row)),
+    ];
+    res.json({ staff });
+  }));
+
+  router.post('/', handle(async (req, res) => {
+    requireManageStaff(req);
+    const { username, role } = req.body || {};
+    if (typeof username !== 'string' || !username.trim()) throw new StaffError(400, 'username is required');
+    validateRole(role);
+    const client = ensureSupabase();
+    const { data: user, error } = await client
+      .from('users')
+      .select(MEMBER_USER_COLUMNS)
+      .eq('username', username.trim())
+      .maybeSingle();
+    if (error) throw error;
+    if (!user) throw new StaffError(404, `No account with username '${username.trim()}'.`);
+    if (user.shop_qdrant_id) throw new StaffError(409, 'That account runs its own shop and cannot join another as staff.');
+    const row = { shop_id: req.session.shopId, user_id: user.id, role, added_by: req.session.sub || null };
+    const { data: inserted, error: insertError } = await client.from('shop_staff').insert(row).select('*').single();
+    if (insertError?.code === UNIQUE_VIOLATION) throw new StaffError(409, `${user.username} is already on your staff.`);
+    if (insertError) throw insertError;
+    res.status(201).json({ member: mapMember(user, inserted) });
+  }));
+
+  router.patch('/:userId', handle(async (req, res) => {
+    requireManageStaff(req);
+    validateRole(req.body?.role);
+    const client = ensureSupabase();
+    const { data: updated, error } = await client
+      .from('shop_staff')
+      .update({ role: req.body.role })
+      .eq('shop_id', req.session.shopId)
+      .eq('user_id', req.params.userId)
+      .select('*');
+    if (error) throw error;
+    if (!updated?.length) throw new StaffError(404, 'Staff member not found');
+    const { data: user, error: userError } = await client
+      .from('users')
+      .select(MEMBER_USER_COLUMNS)
+      .eq('id', req.params.userId)
+      .single();
+    if (userError) throw userError;
+    res.json({ member: mapMember(user, updated[0]) });
+  }));
+
+  router.delete('/:userId', handle(async (req, res) => {
+    requireManageStaff(req);
+    const { data: removed, error } = await ensureSupabase()
+      .from('shop_staff')
+      .delete()
+      .eq('shop_id', req.session.shopId)
+      .eq('user_id', req.params.userId)
+      .select('user_id');
+    if (error) throw error;
+    if (!removed?.length) throw new StaffError(404, 'Staff member not found');
+    res.status(204).end();
+  }));
+
+  return router;
+};
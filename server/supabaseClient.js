@@ -0,0 +1,20 @@
+/**
+ * Supabase client (server-side)
+ *
+ * Prefers the service role key so server jobs are not limited by row level
+ * security, falling back to the anon key. Realtime runs over the ws package
+ * because Node 20 has no global WebSocket.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import ws from 'ws';
+
+export const createServerSupabaseClient = (env = process.env) => {
+  const url = env.SUPABASE_URL;
+  const key = env.SUPABASE_SERVICE_ROLE_KEY || env.SUPABASE_ANON_KEY;
+  if (!url || !key) return null;
+  return createClient(url, key, {
+    auth: { persistSession: false },
+    realtime: { transport: ws },
+  });
+};
@@ -0,0 +1,85 @@
+/**
+ * In-memory stand-in for QdrantClient in server tests: point retrieve,
+ * scroll, count, upsert, setPayload and delete, with the filter conditions
+ * the app uses (match value/any, range, has_id, is_empty and nested
+ * must/should/must_not). Vectors are accepted and ignored.
+ */
+
+const matchesCondition = (point, condition) => {
+  if (condition.must || condition.should || condition.must_not) return matchesFilter(point, condition);
+  if (condition.has_id) return condition.has_id.map(String).includes(String(point.id));
+  if (condition.is_empty) {
+    const value = point.payload?.[condition.is_empty.key];
+    return value === undefined || value === null || (Array.isArray(value) && value.length === 0);
+  }
+  const value = point.payload?.[condition.key];
+  if (condition.match) {
+    const values = Array.isArray(value) ? value : [value];
+    if ('value' in condition.match) return values.includes(condition.match.value);
+    if ('any' in condition.match) return values.some((entry) => condition.match.any.includes(entry));
+    if ('except' in condition.match) return !values.some((entry) => condition.match.except.includes(entry));
+  }
+  if (condition.range) {
+    if (typeof value !== 'number') return false;
+    const { gt, gte, lt, lte } = condition.range;
+    return (gt === undefined || value > gt) && (gte === undefined || value >= gte)
+      && (lt === undefined || value < lt) && (lte === undefined || value <= lte);
+  }
+  throw new Error(`Unsupported filter condition: ${JSON.stringify(condition)}`);
+};
+
+const matchesFilter = (point, filter) => {
+  if (!filter) return true;
+  const must = filter.must || [];
+  const should = filter.should || [];
+  const mustNot = filter.must_not || [];
+  return must.every((condition) => matchesCondition(point, condition))
+    && (should.length === 0 || should.some((condition) => matchesCondition(point, condition)))
+    && !mustNot.some((condition) => matchesCondition(point, condition));
+};
+
+export const createFakeQdrant = (collections = {}) => {
+  const store = new Map();
+  const points = (collection) => {
+    if (!store.has(collection)) store.set(collection, new Map());
+    return store.get(collection);
+  };
+  const clone = (point) => ({ id: point.id, payload: structuredClone(point.payload) });
+  const select = (collection, { points: ids, filter } = {}) => [...points(collection).values()]
+    .filter((point) => (Array.isArray(ids) ? ids.map(String).includes(String(point.id)) : matchesFilter(point, filter)));
+
+  Object.entries(collections).forEach(([collection, seed]) => {
+    seed.forEach((point) => points(collection).set(String(point.id), clone(point)));
+  });
+
+  return {
+    // Test access to the stored payloads
+    payload: (collection, id) => structuredClone(points(collection).get(String(id))?.payload ?? null),
+    all: (collection) => [...points(collection).values()].map(clone),
+
+    getCollection: async () => ({ config: { params: { vectors: { size: 4, distance: 'Cosine' } } } }),
+    retrieve: async (collection, { ids }) => ids
+      .map((id) => points(collection).get(String(id)))
+      .filter(Boolean)
+      .map(clone),
+    scroll: async (collection, { filter, limit = 10, offset } = {}) => {
+      const matching = select(collection, { filter });
+      const start = offset === undefined || offset === null ? 0 : Number(offset);
+      const page = matching.slice(start, start + limit).map(clone);
+      return { points: page, next_page_offset: start + limit < matching.length ? start + limit : null };
+    },
+    count: async (collection, { filter } = {}) => ({ count: select(collection, { filter }).length }),
+    upsert: async (collection, { points: upserted }) => {
+      upserted.forEach((point) => points(collection).set(String(point.id), { id: point.id, payload: structuredClone(point.payload || {}) }));
+      return { status: 'completed' };
+    },
+    setPayload: async (collection, { payload, ...selector }) => {
+      select(collection, selector).forEach((point) => Object.assign(point.payload, structuredClone(payload)));
+      return { status: 'completed' };
+    },
+    delete: async (collection, selector) => {
+      select(collection, selector).forEach((point) => points(collection).delete(String(point.id)));
+      return { status: 'completed' };
+    },
+  };
+};
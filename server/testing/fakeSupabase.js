@@ -0,0 +1,65 @@
+/**
+ * In-memory stand-in for the Supabase client in server tests. It covers the
+ * query builder calls the routers make (select/insert/update/delete with
+ * eq/neq/is/in/lte filters, order, limit, single/maybeSingle) against plain
+ * rows. Inserted rows without an id get one.
+ */
+
+export const createFakeSupabase = (tables = {}) => {
+  const db = Object.fromEntries(Object.entries(tables).map(([name, rows]) => [name, rows.map((row) => ({ ...row }))]));
+  let sequence = 0;
+
+  const from = (table) => {
+    db[table] = db[table] || [];
+    const filters = [];
+    let order = null;
+    let limit = null;
+    let action = { type: 'select' };
+
+    const run = () => {
+      const matches = () => db[table].filter((row) => filters.every((filter) => filter(row)));
+      if (action.type === 'insert') {
+        const rows = action.rows.map((row) => ({ id: `${table}-${sequence}`, created_at: new Date(Date.now() + sequence++).toISOString(), ...row }));
+        db[table].push(...rows);
+        return rows;
+      }
+      if (action.type === 'update') {
+        const rows = matches();
+        rows.forEach((row) => Object.assign(row, action.patch));
+        return rows;
+      }
+      if (action.type === 'delete') {
+        const rows = matches();
+        db[table] = db[table].filter((row) => !rows.includes(row));
+        return rows;
+      }
+      let rows = matches();
+      if (order) {
+        const [key, ascending] = order;
+        rows = [...rows].sort((a, b) => (a[key] > b[key] ? 1 : a[key] < b[key] ? -1 : 0) * (ascending ? 1 : -1));
+      }
+      return limit === null ? rows : rows.slice(0, limit);
+    };
+    const result = (data) => Promise.resolve({ data, error: null });
+
+    const query = {
+      select: () => query,
+      insert: (rows) => { action = { type: 'insert', rows: Array.isArray(rows) ? rows : [rows] }; return query; },
+      update: (patch) => { action = { type: 'update', patch }; return query; },
+      delete: () => { action = { type: 'delete' }; return query; },
+      eq: (key, value) => { filters.push((row) => row[key] === value); return query; },
+      neq: (key, value) => { filters.push((row) => row[key] !== value); return query; },
+      is: (key, value) => { filters.push((row) => (row[key] ?? null) === value); return query; },
+      in: (key, values) => { filters.push((row) => values.includes(row[key])); return query; },
+      lte: (key, value) => { filters.push((row) => row[key] !== null && row[key] !== undefined && row[key] <= value); return query; },
+      order: (key, { ascending = true } = {}) => { order = [key, ascending]; return query; },
+      limit: (count) => { limit = count; return query; },
+      maybeSingle: () => result(run()[0] || null),
+      single: () => result(run()[0]),
+      then: (resolve, reject) => result(run()).then(resolve, reject),
+    };
+    return query;
+  };
+
+  return { db, from };
+};
@@ -0,0 +1,370 @@
+/**
+ * Shop and driver verification
+ *
+ * Applicants upload their business or driver license and submit it for
+ * review; admins (users.is_admin) approve or reject with a reason. Every
+ * change is a new verification_events row, so the latest row per user and
+ * kind is the current status and older rows are its history. Both tables are
+ * append-only and read by the server only. Decisions are mirrored onto the
+ * users and drivers points in Qdrant, which signed-in users cannot change
+ * (server/qdrantAccess.js).
+ */
+
+import express from 'express';
+import { loadShop } from './shops.js';
+import { loadStaffMembership } from './staff.js';
+
+export const VERIFICATION_KINDS = ['shop', 'driver'];
+export const DOCUMENT_TYPES = ['businessLicense', 'driverLicense', 'other'];
+export const MAX_DOCUMENT_BYTES = 5 * 1024 * 1024;
+const DOCUMENT_CONTENT_TYPES = ['application/pdf', 'image/png', 'image/jpeg', 'image/webp'];
+const DOCUMENT_COLUMNS = 'id, user_id, kind, document_type, file_name, content_type, size_bytes, uploaded_at';
+const APPLICANT_USER_COLUMNS = 'id, username, display_name, email, contact_email, is_shop, is_driver, shop_qdrant_id';
+
+class VerificationError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const mapDocument = (row) => ({
+  id: row.id,
+  userId: row.user_id,
+  kind: row.kind,
+  documentType: row.document_type,
+  fileName: row.file_name,
+  contentType: row.content_type,
+  sizeBytes: row.size_bytes,
+  uploadedAt: row.uploaded_at,
+});
+
+const mapEvent = (row) => ({
+  id: String(row.id),
+  userId: row.user_id,
+  kind: row.kind,
+  status: row.status,
+  reason: row.reason || null,
+  documentIds: row.document_ids || [],
+  actorUserId: row.actor_user_id || null,
+  createdAt: row.created_at,
+});
+
+// Current status from a user's events for one kind (oldest first)
+const buildRecord = (userId, kind, events, documents) => {
+  const latest = events[events.length - 1];
+  return {
+    userId,
+    kind,
+    status: latest?.status || 'unsubmitted',
+    reason: latest?.reason || null,
+    updatedAt: latest?.createdAt || null,
+    documents,
+    history: events,
+  };
+};
+
+const loadLatestStatus = async (supabase, userId, kind) => {
+  const { data, error } = await supabase
+    .from('verification_events')
+    .select('status')
+    .eq('user_id', userId)
+    .eq('kind', kind)
+    .order('id', { ascending: false })
+    .limit(1);
+  if (error) throw error;
+  return data?.[0]?.status || 'unsubmitted';
+};
+
+// The account whose verification covers `kind` for this user: staff work under their shop owner's
+const verificationSubject = (user, kind) => {
+  if (kind === 'driver') return user.is_driver ? user.id : null;
+  if (user.shop_qdrant_id) return user.id;
+  return user.staff?.ownerUserId || null;
+};
+
+/**
+ * Current verification status per kind for a users row (with `staff` from
+ * loadStaffMembership), or null for kinds the user has no role for.
+ */
+export const loadVerificationSummary = async (supabase, user) => {
+  const summary = { shop: null, driver: null };
+  if (!supabase || !user) return summary;
+  for (const kind of VERIFICATION_KINDS) {
+    const subject = verificationSubject(user, kind);
+    if (!subject) continue;
+    summary[kind] = await loadLatestStatus(supabase, subject, kind);
+  }
+  return summary;
+};
+
+/**
+ * Whether the owner of `shopId` holds an approved shop verification. Orders
+ * and marketplace purchases check this themselves rather than trusting the
+ * app's isVerified flag.
+ */
+export const isShopVerified = async (supabase, shopId) => {
+  const shop = await loadShop(supabase, shopId);
+  if (!shop?.ownerUserId) return false;
+  return (await loadLatestStatus(supabase, shop.ownerUserId, 'shop')) === 'approved';
+};
+
+// Mirror a decision onto the Qdrant points the rest of the network reads
+const mirrorDecision = async (qdrantClient, userId, kind, status) => {
+  const filter = { must: [{ key: 'userId', match: { value: userId } }] };
+  if (kind === 'shop') {
+    await qdrantClient.setPayload('users', { wait: true, payload: { isVerified: status === 'approved' }, filter });
+    return;
+  }
+  await qdrantClient.setPayload('users', { wait: true, payload: { isDriverVerified: status === 'approved' }, filter });
+  await qdrantClient.setPayload('drivers', {
+    wait: true,
+    payload: { status: status === 'approved' ? 'verified' : status },
+    filter,
+  });
+};
+
+/**
+ * /api/verification: applicants read their status, upload documents and
+ * submit them; admins list applications and record decisions. Decisions
+ * reach the applicant's session at its next refresh.
+ */
+export const createVerificationRouter = (supabase, { qdrantClient = null, logger = console } = {}) => {
+  const router = express.Router();
+
+  const ensureSupabase = () => {
+    if (!supabase) throw new VerificationError(503, 'Verification is unavailable: SUPABASE_URL is not set on the server.');
+    return supabase;
+  };
+
+  const requireAdmin = (req) => {
+    if (!req.session?.roles?.admin) throw new VerificationError(403, 'Only admins can review verifications.');
+  };
+
+  const validateKind = (kind) => {
+    if (!VERIFICATION_KINDS.includes(kind)) {
+      throw new VerificationError(400, `kind must be one of: ${VERIFICATION_KINDS.join(', ')}`);
+    }
+  };
+
+  const loadApplicant = async (userId) => {
+    const { data: user, error } = await ensureSupabase()
+      .from('users')
+      .select(APPLICANT_USER_COLUMNS)
+      .eq('id', userId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!user) throw new VerificationError(404, 'User not found');
+    return user;
+  };
+
+  // The caller applies for `kind` themselves; staff cannot apply for their employer's shop
+  const requireApplicant = (user, kind) => {
+    if (kind === 'shop' && !user.shop_qdrant_id) throw new VerificationError(403, 'Only shop owners can apply for shop verification.');
+    if (kind === 'driver' && !user.is_driver) throw new VerificationError(403, 'Only drivers can apply for driver verification.');
+  };
+
+  const loadRecord = async (userId, kind) => {
+    const client = ensureSupabase();
+    const { data: events, error } = await client
+      .from('verification_events')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('kind', kind)
+      .order('id', { ascending: true });
+    if (error) throw error;
+    const { data: documents, error: documentsError } = await client
+      .from('verification_documents')
+      .select(DOCUMENT_COLUMNS)
+      .eq('user_id', userId)
+      .eq('kind', kind)
+      .order('uploaded_at', { ascending: true });
+    if (documentsError) throw documentsError;
+    return buildRecord(userId, kind, events.map(mapEvent), documents.map(mapDocument));
+  };
+
+  const appendEvent = async (row) => {
+    const { data, error } = await ensureSupabase().from('verification_events').insert(row).select('*').single();
+    if (error) throw error;
+    return mapEvent(data);
+  };
+
+  const handle = (fn) => async (req, res) => {
+    try {
+      await fn(req, res);
+    } catch (error) {
+      if (error instanceof VerificationError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      logger.error('[Verification] Request failed:', error);
+      res.status(500).json({ error: 'Verification request failed' });
+    }
+  };
+
+  router.use((req, res, next) => {
+    if (!req.session?.sub) {
+      res.status(403).json({ error: 'Verification belongs to a user account.' });
+      return;
+    }
+    next();
+  });
+
+  // The caller's records; staff see their shop's status without its documents
+  router.get('/', handle(async (req, res) => {
+    const user = await loadApplicant(req.session.sub);
+    user.staff = await loadStaffMembership(ensureSupabase(), user, req.session.shopId);
+    const records = {};
+    for (const kind of VERIFICATION_KINDS) {
+      const subject = verificationSubject(user, kind);
+      if (!subject) continue;
+      const record = await loadRecord(subject, kind);
+      records[kind] = subject === user.id ? record : { ...record, documents: [], history: [] };
+    }
+    res.json({ records });
+  }));
+
+  router.post('/:kind/documents', handle(async (req, res) => {
+    validateKind(req.params.kind);
+    const user = await loadApplicant(req.session.sub);
+    requireApplicant(user, req.params.kind);
+    const { documentType, fileName, contentType, data } = req.body || {};
+    if (!DOCUMENT_TYPES.includes(documentType)) {
+      throw new VerificationError(400, `documentType must be one of: ${DOCUMENT_TYPES.join(', ')}`);
+    }
+    if (typeof fileName !== 'string' || !fileName.trim()) throw new VerificationError(400, 'fileName is required');
+    if (!DOCUMENT_CONTENT_TYPES.includes(contentType)) {
+      throw new VerificationError(400, 'Documents must be PDF, PNG, JPEG or WebP files.');
+    }
+    const content = typeof data === 'string' ? data.replace(/^data:[^,]*,/, '') : '';
+    const sizeBytes = Buffer.from(content, 'base64').length;
+    if (sizeBytes === 0) throw new VerificationError(400, 'data (base64 file content) is required');
+    if (sizeBytes > MAX_DOCUMENT_BYTES) {
+      throw new VerificationError(413, `Documents can be at most ${MAX_DOCUMENT_BYTES / (1024 * 1024)} MB.`);
+    }
+    const { data: inserted, error } = await ensureSupabase()
+      .from('verification_documents')
+      .insert({
+        user_id: user.id,
+        kind: req.params.kind,
+        document_type: documentType,
+        file_name: fileName.trim().slice(0, 200),
+        content_type: contentType,
+        size_bytes: sizeBytes,
+        content,
+      })
+      .select(DOCUMENT_COLUMNS)
+      .single();
+    if (error) throw error;
+    res.status(201).json({ document: mapDocument(inserted) });
+  }));
+
+  // Submit documents uploaded since the last status change for review
+  router.post('/:kind/submit', handle(async (req, res) => {
+    validateKind(req.params.kind);
+    const { kind } = req.params;
+    const user = await loadApplicant(req.session.sub);
+    requireApplicant(user, kind);
+    const record = await loadRecord(user.id, kind);
+    if (record.status === 'pending') throw new VerificationError(409, 'Your application is already awaiting review.');
+    if (record.status === 'approved') throw new VerificationError(409, 'Your account is already verified.');
+    const since = record.updatedAt ? new Date(record.updatedAt).getTime() : 0;
+    const documentIds = record.documents
+      .filter((document) => new Date(document.uploadedAt).getTime() > since)
+      .map((document) => document.id);
+    if (documentIds.length === 0) throw new VerificationError(400, 'Upload at least one document before submitting.');
+    const event = await appendEvent({ user_id: user.id, kind, status: 'pending', document_ids: documentIds, actor_user_id: user.id });
+    res.status(201).json({ event });
+  }));
+
+  // File content for the uploader and admins
+  router.get('/documents/:documentId', handle(async (req, res) => {
+    const { data: document, error } = await ensureSupabase()
+      .from('verification_documents')
+      .select('*')
+      .eq('id', req.params.documentId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!document || (document.user_id !== req.session.sub && !req.session.roles?.admin)) {
+      throw new VerificationError(404, 'Document not found');
+    }
+    res.set('Content-Type', document.content_type);
+    res.set('Content-Disposition', `inline; filename="${document.file_name.replace(/["\\\r\n]/g, '_')}"`);
+    res.send(Buffer.from(document.content, 'base64'));
+  }));
+
+  // Applications for admins, filtered by current status (default: pending)
+  router.get('/review', handle(async (req, res) => {
+    requireAdmin(req);
+    const status = String(req.query.status || 'pending');
+    const kinds = req.query.kind ? [String(req.query.kind)] : VERIFICATION_KINDS;
+    kinds.forEach(validateKind);
+    const client = ensureSupabase();
+    const { data: events, error } = await client
+      .from('verification_events')
+      .select('*')
+      .in('kind', kinds)
+      .order('id', { ascending: true });
+    if (error) throw error;
+    const byApplication = new Map();
+    for (const event of events.map(mapEvent)) {
+      const key = `${event.userId}:${event.kind}`;
+      if (!byApplication.has(key)) byApplication.set(key, []);
+      byApplication.get(key).push(event);
+    }
+    const selected = [...byApplication.values()].filter((history) => history[history.length - 1].status === status);
+    const userIds = [...new Set(selected.map((history) => history[0].userId))];
+    const { data: users, error: usersError } = userIds.length
+      ? await client.from('users').select(APPLICANT_USER_COLUMNS).in('id', userIds)
+      : { data: [], error: null };
+    if (usersError) throw usersError;
+    const { data: documents, error: documentsError } = userIds.length
+      ? await client.from('verification_documents').select(DOCUMENT_COLUMNS).in('user_id', userIds).order('uploaded_at', { ascending: true })
+      : { data: [], error: null };
+    if (documentsError) throw documentsError;
+    const usersById = new Map(users.map((user) => [user.id, user]));
+    const applications = selected
+      .map((history) => {
+        const { userId, kind } = history[0];
+        const user = usersById.get(userId);
+        return {
+          ...buildRecord(userId, kind, history, documents.filter((row) => row.user_id === userId && row.kind === kind).map(mapDocument)),
+          username: user?.username || null,
+          displayName: user?.display_name || null,
+          email: user?.contact_email || user?.email || null,
+        };
+      })
+      .sort((a, b) => String(a.updatedAt).localeCompare(String(b.updatedAt)));
+    res.json({ applications });
+  }));
+
+  router.post('/review/:userId/:kind', handle(async (req, res) => {
+    requireAdmin(req);
+    const { userId, kind } = req.params;
+    validateKind(kind);
+    const { status, reason } = req.body || {};
+    if (!['approved', 'rejected'].includes(status)) throw new VerificationError(400, "status must be 'approved' or 'rejected'");
+    const trimmedReason = typeof reason === 'string' ? reason.trim() : '';
+    if (status === 'rejected' && !trimmedReason) throw new VerificationError(400, 'A reason is required to reject.');
+    const user = await loadApplicant(userId);
+    requireApplicant(user, kind);
+    const record = await loadRecord(userId, kind);
+    if (record.status === status) throw new VerificationError(409, `This ${kind} is already ${status}.`);
+    const event = await appendEvent({
+      user_id: userId,
+      kind,
+      status,
+      reason: trimmedReason || null,
+      document_ids: record.history[record.history.length - 1]?.documentIds || [],
+      actor_user_id: req.session.sub,
+    });
+    if (qdrantClient) {
+      await mirrorDecision(qdrantClient, userId, kind, status).catch((error) => {
+        logger.warn(`[Verification] Could not mirror ${kind} ${status} for ${userId} to Qdrant:`, error.message);
+      });
+    }
+    res.status(201).json({ event });
+  }));
+
+  return router;
+};
@@ -0,0 +1,565 @@
+/**
+ * Webhook delivery (server-side)
+ *
+ * call_webhook actions queue a row in webhook_deliveries; the dispatcher here
+ * POSTs it to the shop's registered endpoint, signing the body with the
+ * endpoint's secret:
+ *
+ *   X-ShopNexus-Timestamp: <unix seconds>
+ *   X-ShopNexus-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<body>">
+ *   X-ShopNexus-Delivery:  <delivery id, stable across retries>
+ *
+ * Failed attempts are retried with exponential backoff; once maxAttempts is
+ * reached the delivery is marked 'dead' (the dead-letter queue) and only a
+ * manual redelivery sends it again. Every attempt's status code and latency
+ * is kept in attempt_log for the Policy Center.
+ *
+ * Deliveries only go to endpoints a shop registered through /api/webhooks;
+ * both tables are read and written by the server alone, and an endpoint's
+ * secret is returned once, when it is created or rotated.
+ */
+
+import express from 'express';
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { isIP } from 'node:net';
+import { canAccessShop } from './qdrantAccess.js';
+import { sessionHasPermission } from './staff.js';
+
+export const SIGNATURE_HEADER = 'X-ShopNexus-Signature';
+export const TIMESTAMP_HEADER = 'X-ShopNexus-Timestamp';
+export const DELIVERY_HEADER = 'X-ShopNexus-Delivery';
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+const DEFAULT_MAX_ATTEMPTS = 6;
+const DEFAULT_BASE_DELAY_MS = 30 * 1000;
+const DEFAULT_TIMEOUT_MS = 10 * 1000;
+const CLAIM_LEASE_MS = 60 * 1000;
+const ATTEMPT_LOG_LIMIT = 20;
+const DUE_BATCH_SIZE = 25;
+const MAX_DELIVERY_LIST = 500;
+const MAX_ENDPOINT_NAME_LENGTH = 120;
+const DELIVERY_STATUSES = ['pending', 'retrying', 'delivered', 'dead'];
+
+// The body every call_webhook delivery carries, from the worker or a browser run
+export const buildWebhookPayload = (policy, event) => ({
+  policyId: policy.id,
+  policyName: policy.name,
+  eventId: event.eventId,
+  eventType: event.eventType,
+  payload: event.payload,
+});
+
+export const signWebhookPayload = (secret, timestamp, body) =>
+  `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+// For receivers: checks the signature and rejects stale timestamps (replays)
+export const verifyWebhookSignature = (secret, { signature, timestamp, body }, now = Date.now()) => {
+  if (!signature || !timestamp) return { valid: false, reason: 'Missing signature headers' };
+  const seconds = Number(timestamp);
+  if (!Number.isFinite(seconds)) return { valid: false, reason: 'Invalid timestamp' };
+  if (Math.abs(now / 1000 - seconds) > SIGNATURE_TOLERANCE_SECONDS) {
+    return { valid: false, reason: 'Timestamp outside tolerance' };
+  }
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const received = Buffer.from(String(signature));
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return { valid: false, reason: 'Signature mismatch' };
+  }
+  return { valid: true };
+};
+
+// The secret stays out of the mapped endpoint; only creation and rotation return it
+export const mapWebhookEndpointRow = (row) => ({
+  id: row.id,
+  shopId: row.shop_id,
+  name: row.name,
+  url: row.url,
+  enabled: row.enabled,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+export const mapWebhookDeliveryRow = (row) => ({
+  id: row.id,
+  shopId: row.shop_id,
+  endpointId: row.endpoint_id || null,
+  url: row.url,
+  policyId: row.policy_id || null,
+  policyRunId: row.policy_run_id || null,
+  eventId: row.event_id || null,
+  payload: row.payload || {},
+  status: row.status,
+  attempts: row.attempts || 0,
+  lastStatusCode: row.last_status_code ?? null,
+  lastLatencyMs: row.last_latency_ms ?? null,
+  lastError: row.last_error || null,
+  attemptLog: row.attempt_log || [],
+  nextAttemptAt: row.next_attempt_at || null,
+  deliveredAt: row.delivered_at || null,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+export const createWebhookDispatcher = (supabase, {
+  maxAttempts = DEFAULT_MAX_ATTEMPTS,
+  baseDelayMs = DEFAULT_BASE_DELAY_MS,
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+  logger = console,
+} = {}) => {
+  const loadEndpoint = async (endpointId) => {
+    const { data, error } = await supabase.from('webhook_endpoints').select('*').eq('id', endpointId).maybeSingle();
+    if (error) throw error;
+    return data ? { ...mapWebhookEndpointRow(data), secret: data.secret } : null;
+  };
+
+  // Queue a delivery to one of the shop's registered endpoints
+  const enqueue = async ({ shopId, endpointId, payload, policyId = null, policyRunId = null, eventId = null }) => {
+    if (!endpointId) throw new Error('A webhook delivery needs a registered endpoint.');
+    const endpoint = await loadEndpoint(endpointId);
+    if (!endpoint || endpoint.shopId !== shopId) throw new Error(`Webhook endpoint ${endpointId} not found`);
+    const { data, error } = await supabase
+      .from('webhook_deliveries')
+      .insert({
+        shop_id: shopId,
+        endpoint_id: endpointId,
+        url: endpoint.url,
+        policy_id: policyId,
+        policy_run_id: policyRunId,
+        event_id: eventId,
+        payload,
+        status: 'pending',
+        next_attempt_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+    if (error) throw error;
+    return mapWebhookDeliveryRow(data);
+  };
+
+  // Take a due delivery for ourselves so concurrent dispatchers never send it twice
+  const claim = async (deliveryId) => {
+    const now = new Date();
+    const { data, error } = await supabase
+      .from('webhook_deliveries')
+      .update({ next_attempt_at: new Date(now.getTime() + CLAIM_LEASE_MS).toISOString() })
+      .eq('id', deliveryId)
+      .in('status', ['pending', 'retrying'])
+      .lte('next_attempt_at', now.toISOString())
+      .select();
+    if (error) throw error;
+    return data?.[0] ? mapWebhookDeliveryRow(data[0]) : null;
+  };
+
+  // Always sent to the endpoint's current url; the delivery's own url is only a record
+  const send = async (delivery) => {
+    if (!delivery.endpointId) return { statusCode: null, latencyMs: 0, error: 'No registered endpoint', final: true };
+    const endpoint = await loadEndpoint(delivery.endpointId);
+    if (!endpoint || endpoint.shopId !== delivery.shopId) return { statusCode: null, latencyMs: 0, error: 'Endpoint deleted', final: true };
+    if (!endpoint.enabled) return { statusCode: null, latencyMs: 0, error: 'Endpoint disabled', final: true };
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const headers = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'ShopNexus-Webhooks/1.0',
+      [DELIVERY_HEADER]: delivery.id,
+      [TIMESTAMP_HEADER]: timestamp,
+      [SIGNATURE_HEADER]: signWebhookPayload(endpoint.secret, timestamp, body),
+    };
+
+    const startedAt = Date.now();
+    try {
+      const response = await fetch(endpoint.url, {
+        method: 'POST',
+        headers,
+        body,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      return {
+        statusCode: response.status,
+        latencyMs: Date.now() - startedAt,
+        error: response.ok ? null : `Endpoint responded with ${response.status}`,
+      };
+    } catch (error) {
+      return { statusCode: null, latencyMs: Date.now() - startedAt, error: error?.message || 'Request failed' };
+    }
+  };
+
+  // One attempt for a claimed delivery, then record the outcome and schedule the next try
+  const attempt = async (delivery) => {
+    const result = await send(delivery);
+    const attempts = delivery.attempts + 1;
+    const at = new Date();
+    const entry = { at: at.toISOString(), statusCode: result.statusCode, latencyMs: result.latencyMs, error: result.error };
+    const delivered = !result.error;
+    const dead = !delivered && (result.final || attempts >= maxAttempts);
+    const update = {
+      status: delivered ? 'delivered' : dead ? 'dead' : 'retrying',
+      attempts,
+      last_status_code: result.statusCode,
+      last_latency_ms: result.latencyMs,
+      last_error: result.error,
+      attempt_log: [...delivery.attemptLog, entry].slice(-ATTEMPT_LOG_LIMIT),
+      next_attempt_at: delivered || dead ? null : new Date(at.getTime() + baseDelayMs * 2 ** (attempts - 1)).toISOString(),
+      delivered_at: delivered ? at.toISOString() : null,
+      updated_at: at.toISOString(),
+    };
+    const { data, error } = await supabase.from('webhook_deliveries').update(update).eq('id', delivery.id).select().single();
+    if (error) throw error;
+    if (dead) logger.warn(`[Webhooks] Delivery ${delivery.id} moved to the dead-letter queue: ${result.error}`);
+    return mapWebhookDeliveryRow(data);
+  };
+
+  // Attempt one delivery now if it is due and nobody else holds it
+  const deliver = async (deliveryId) => {
+    const claimed = await claim(deliveryId);
+    return claimed ? attempt(claimed) : null;
+  };
+
+  const processDue = async ({ limit = DUE_BATCH_SIZE } = {}) => {
+    const { data, error } = await supabase
+      .from('webhook_deliveries')
+      .select('id')
+      .in('status', ['pending', 'retrying'])
+      .lte('next_attempt_at', new Date().toISOString())
+      .order('next_attempt_at', { ascending: true })
+      .limit(limit);
+    if (error) throw error;
+    const results = [];
+    for (const row of data || []) {
+      try {
+        const result = await deliver(row.id);
+        if (result) results.push(result);
+      } catch (err) {
+        logger.error(`[Webhooks] Failed to process delivery ${row.id}:`, err);
+      }
+    }
+    return results;
+  };
+
+  // Manual redelivery: one more attempt, including for dead-lettered deliveries
+  const redeliver = async (deliveryId) => {
+    const { error } = await supabase
+      .from('webhook_deliveries')
+      .update({ status: 'pending', next_attempt_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+      .eq('id', deliveryId);
+    if (error) throw error;
+    return deliver(deliveryId);
+  };
+
+  const start = ({ intervalMs = 15 * 1000 } = {}) => {
+    let running = false;
+    const tick = async () => {
+      if (running) return;
+      running = true;
+      try {
+        await processDue();
+      } catch (error) {
+        logger.error('[Webhooks] Dispatch loop failed:', error);
+      } finally {
+        running = false;
+      }
+    };
+    const timer = setInterval(tick, intervalMs);
+    tick();
+    return () => clearInterval(timer);
+  };
+
+  return { enqueue, deliver, processDue, redeliver, start };
+};
+
+class WebhooksError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const generateSecret = () => `whsec_${randomBytes(24).toString('hex')}`;
+
+const PRIVATE_HOSTNAME = /(^|\.)(localhost|local|internal)$/i;
+
+// Loopback, private, link-local and unspecified addresses
+const isPrivateAddress = (address) => {
+  if (isIP(address) === 4) {
+    const [a, b] = address.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127 || (a === 169 && b === 254) || (a === 172 && b >= 16 && b <= 31)
+      || (a === 192 && b === 168) || (a === 100 && b >= 64 && b <= 127);
+  }
+  const lower = address.toLowerCase();
+  return lower === '::' || lower === '::1' || /^f[cd]/.test(lower) || lower.startsWith('fe80') || lower.startsWith('::ffff:');
+};
+
+const isLoopbackHost = (host) =>
+  host.toLowerCase() === 'localhost' || host === '::1' || (isIP(host) === 4 && host.startsWith('127.'));
+
+/**
+ * WEBHOOK_ALLOW_LOOPBACK=true lets endpoints point at this machine, for the
+ * local receiver (scripts/webhookReceiver.mjs). It is ignored in production.
+ */
+export const allowsLoopbackWebhooks = (env = process.env) =>
+  env.WEBHOOK_ALLOW_LOOPBACK === 'true' && env.NODE_ENV !== 'production';
+
+/**
+ * The endpoint URL to store, or null when it is not a public http(s) URL.
+ * The dispatcher posts from inside the server's network, so hosts that name
+ * the server itself or a private network are refused, loopback included
+ * unless `allowLoopback` is set.
+ */
+export const normalizeWebhookUrl = (value, { allowLoopback = false } = {}) => {
+  let url;
+  try {
+    url = new URL(String(value || '').trim());
+  } catch {
+    return null;
+  }
+  if (!['http:', 'https:'].includes(url.protocol) || url.username || url.password) return null;
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (allowLoopback && isLoopbackHost(host)) return url.toString();
+  if (!host || PRIVATE_HOSTNAME.test(host) || (isIP(host) && isPrivateAddress(host))) return null;
+  return url.toString();
+};
+
+/**
+ * /api/webhooks: a shop's endpoints and delivery log. Managing endpoints and
+ * redelivering need managePolicies; anyone working at the shop can read the
+ * log and queue deliveries of its own DAN events for its policies (browser
+ * policy runs). Requests act on the session's active shop, or `shopId` when
+ * the session covers it.
+ */
+export const createWebhooksRouter = (supabase, {
+  dispatcher = null,
+  allowLoopback = allowsLoopbackWebhooks(),
+  logger = console,
+} = {}) => {
+  const router = express.Router();
+  const webhooks = dispatcher || (supabase ? createWebhookDispatcher(supabase, { logger }) : null);
+
+  const ensureSupabase = () => {
+    if (!supabase) throw new WebhooksError(503, 'Webhooks are unavailable: SUPABASE_URL is not set on the server.');
+    return supabase;
+  };
+
+  const resolveShop = (req, requested) => {
+    const shopId = requested || req.session?.shopId;
+    if (!shopId || !canAccessShop(req.session, shopId)) throw new WebhooksError(403, 'Webhooks belong to a shop you work at.');
+    return shopId;
+  };
+
+  const requireManage = (req) => {
+    if (!sessionHasPermission(req.session, 'managePolicies')) {
+      throw new WebhooksError(403, 'Your staff role does not allow this (needs managePolicies).');
+    }
+  };
+
+  const loadEndpoint = async (shopId, endpointId) => {
+    const { data, error } = await ensureSupabase()
+      .from('webhook_endpoints')
+      .select('*')
+      .eq('id', endpointId)
+      .eq('shop_id', shopId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) throw new WebhooksError(404, `Webhook endpoint ${endpointId} not found`);
+    return data;
+  };
+
+  const readEndpointFields = (body, existing = null) => {
+    const fields = {};
+    if (!existing || body?.name !== undefined) {
+      const name = typeof body?.name === 'string' ? body.name.trim() : '';
+      if (!name) throw new WebhooksError(400, 'Give the endpoint a name.');
+      if (name.length > MAX_ENDPOINT_NAME_LENGTH) throw new WebhooksError(400, `name must be at most ${MAX_ENDPOINT_NAME_LENGTH} characters`);
+      fields.name = name;
+    }
+    if (!existing || body?.url !== undefined) {
+      const url = normalizeWebhookUrl(body?.url, { allowLoopback });
+      if (!url) throw new WebhooksError(400, 'Endpoint URL must be a public http:// or https:// address.');
+      fields.url = url;
+    }
+    if (body?.enabled !== undefined) fields.enabled = body.enabled === true;
+    return fields;
+  };
+
+  const handle = (fn) => async (req, res) => {
+    try {
+      await fn(req, res);
+    } catch (error) {
+      if (error instanceof WebhooksError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      logger.error('[Webhooks] Request failed:', error);
+      res.status(500).json({ error: 'Webhooks request failed' });
+    }
+  };
+
+  router.get('/endpoints', handle(async (req, res) => {
+    const shopId = resolveShop(req, req.query.shopId);
+    const { data, error } = await ensureSupabase()
+      .from('webhook_endpoints')
+      .select('*')
+      .eq('shop_id', shopId)
+      .order('created_at', { ascending: true });
+    if (error) throw error;
+    res.json({ endpoints: (data || []).map(mapWebhookEndpointRow) });
+  }));
+
+  router.post('/endpoints', handle(async (req, res) => {
+    const shopId = resolveShop(req, req.body?.shopId);
+    requireManage(req);
+    const secret = generateSecret();
+    const { data, error } = await ensureSupabase()
+      .from('webhook_endpoints')
+      .insert({ enabled: true, ...readEndpointFields(req.body), shop_id: shopId, secret })
+      .select()
+      .single();
+    if (error) throw error;
+    res.status(201).json({ endpoint: mapWebhookEndpointRow(data), secret });
+  }));
+
+  router.patch('/endpoints/:endpointId', handle(async (req, res) => {
+    const shopId = resolveShop(req, req.body?.shopId);
+    requireManage(req);
+    const existing = await loadEndpoint(shopId, req.params.endpointId);
+    const { data, error } = await ensureSupabase()
+      .from('webhook_endpoints')
+      .update({ ...readEndpointFields(req.body, existing), updated_at: new Date().toISOString() })
+      .eq('id', existing.id)
+      .select()
+      .single();
+    if (error) throw error;
+    res.json({ endpoint: mapWebhookEndpointRow(data) });
+  }));
+
+  // Receivers must switch to the new secret; signatures made with the old one stop verifying
+  router.post('/endpoints/:endpointId/rotate', handle(async (req, res) => {
+    const shopId = resolveShop(req, req.body?.shopId);
+    requireManage(req);
+    const existing = await loadEndpoint(shopId, req.params.endpointId);
+    const secret = generateSecret();
+    const { data, error } = await ensureSupabase()
+      .from('webhook_endpoints')
+      .update({ secret, updated_at: new Date().toISOString() })
+      .eq('id', existing.id)
+      .select()
+      .single();
+    if (error) throw error;
+    res.json({ endpoint: mapWebhookEndpointRow(data), secret });
+  }));
+
+  // Outstanding deliveries are dead-lettered first so the dispatcher stops retrying them
+  router.delete('/endpoints/:endpointId', handle(async (req, res) => {
+    const shopId = resolveShop(req, req.query.shopId);
+    requireManage(req);
+    const existing = await loadEndpoint(shopId, req.params.endpointId);
+    const client = ensureSupabase();
+    const now = new Date().toISOString();
+    const { error: deadError } = await client
+      .from('webhook_deliveries')
+      .update({ status: 'dead', last_error: 'Endpoint deleted', next_attempt_at: null, updated_at: now })
+      .eq('endpoint_id', existing.id)
+      .in('status', ['pending', 'retrying']);
+    if (deadError) throw deadError;
+    const { error } = await client.from('webhook_endpoints').delete().eq('id', existing.id);
+    if (error) throw error;
+    res.status(204).end();
+  }));
+
+  router.get('/deliveries', handle(async (req, res) => {
+    const shopId = resolveShop(req, req.query.shopId);
+    const { status, policyRunIds } = req.query;
+    if (status && !DELIVERY_STATUSES.includes(status)) {
+      throw new WebhooksError(400, `status must be one of: ${DELIVERY_STATUSES.join(', ')}`);
+    }
+    const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), MAX_DELIVERY_LIST);
+    let query = ensureSupabase().from('webhook_deliveries').select('*').eq('shop_id', shopId);
+    if (status) query = query.eq('status', status);
+    if (typeof policyRunIds === 'string') query = query.in('policy_run_id', policyRunIds.split(',').filter(Boolean));
+    const { data, error } = await query.order('created_at', { ascending: false }).limit(limit);
+    if (error) throw error;
+    res.json({ deliveries: (data || []).map(mapWebhookDeliveryRow) });
+  }));
+
+  /**
+   * Browser policy runs queue their call_webhook actions here. The body only
+   * names the policy, the shop's DAN event and the endpoint; the payload is
+   * built from the stored rows, so a session cannot have arbitrary JSON
+   * signed with the endpoint's secret, and each event goes out once.
+   */
+  router.post('/deliveries', handle(async (req, res) => {
+    const shopId = resolveShop(req, req.body?.shopId);
+    const client = ensureSupabase();
+    const { endpointId, policyId, eventId, policyRunId = null } = req.body || {};
+    for (const [field, value] of Object.entries({ endpointId, policyId, eventId })) {
+      if (typeof value !== 'string' || !value) throw new WebhooksError(400, `${field} is required`);
+    }
+    if (policyRunId !== null && typeof policyRunId !== 'string') throw new WebhooksError(400, 'policyRunId must be a string');
+    await loadEndpoint(shopId, endpointId);
+
+    const { data: policyRow, error: policyError } = await client
+      .from('dan_policies')
+      .select('*')
+      .eq('id', policyId)
+      .eq('shop_id', shopId)
+      .maybeSingle();
+    if (policyError) throw policyError;
+    const calls = policyRow?.config?.actions?.some((action) =>
+      action?.type === 'call_webhook' && action.params?.endpointId === endpointId);
+    if (!policyRow?.enabled || !calls) {
+      throw new WebhooksError(404, `No enabled policy ${policyId} calls webhook endpoint ${endpointId}`);
+    }
+
+    const { data: eventRow, error: eventError } = await client
+      .from('dan_events')
+      .select('*')
+      .eq('event_id', eventId)
+      .eq('shop_id', shopId)
+      .maybeSingle();
+    if (eventError) throw eventError;
+    if (!eventRow || eventRow.event_type !== policyRow.event_type) {
+      throw new WebhooksError(404, `DAN event ${eventId} not found for policy ${policyId}`);
+    }
+
+    const { data: queued, error: queuedError } = await client
+      .from('webhook_deliveries')
+      .select('id')
+      .eq('policy_id', policyId)
+      .eq('event_id', eventId)
+      .eq('endpoint_id', endpointId)
+      .limit(1);
+    if (queuedError) throw queuedError;
+    if (queued?.length) throw new WebhooksError(409, `Event ${eventId} was already queued for this endpoint`);
+
+    const delivery = await webhooks.enqueue({
+      shopId,
+      endpointId,
+      policyId,
+      policyRunId,
+      eventId,
+      payload: buildWebhookPayload(
+        { id: policyRow.id, name: policyRow.name },
+        { eventId: eventRow.event_id, eventType: eventRow.event_type, payload: eventRow.payload },
+      ),
+    });
+    res.status(201).json({ delivery });
+  }));
+
+  // One more attempt now, including for dead-lettered deliveries
+  router.post('/deliveries/:deliveryId/redeliver', handle(async (req, res) => {
+    const shopId = resolveShop(req, req.body?.shopId);
+    requireManage(req);
+    const { data, error } = await ensureSupabase()
+      .from('webhook_deliveries')
+      .select('id')
+      .eq('id', req.params.deliveryId)
+      .eq('shop_id', shopId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) throw new WebhooksError(404, `Webhook delivery ${req.params.deliveryId} not found`);
+    const delivery = await webhooks.redeliver(data.id);
+    res.json({ delivery });
+  }));
+
+  return router;
+};
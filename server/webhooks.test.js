@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import express from 'express';
+import { allowsLoopbackWebhooks, createWebhookDispatcher, createWebhooksRouter, normalizeWebhookUrl } from './webhooks.js';
+import { requireSession, signAccessToken } from './auth.js';
+import { createFakeSupabase } from './testing/fakeSupabase.js';
+
+const SECRET = 'test-secret';
+const silent = { info: () => {}, warn: () => {}, error: () => {} };
+
+const owner = { sub: 'owner-a', shopId: 'shop-a', shopIds: ['shop-a'], staffRole: 'owner', roles: { shop: true } };
+const clerk = { sub: 'clerk-a', shopId: 'shop-a', shopIds: ['shop-a'], staffRole: 'clerk', roles: { shop: true } };
+const otherShop = { sub: 'owner-b', shopId: 'shop-b', shopIds: ['shop-b'], staffRole: 'owner', roles: { shop: true } };
+
+describe('/api/webhooks', () => {
+  let supabase;
+  let server;
+  let base;
+
+  beforeEach(() => {
+    supabase = createFakeSupabase({
+      webhook_endpoints: [],
+      webhook_deliveries: [],
+      dan_policies: [],
+      dan_events: [{ event_id: 'event-1', shop_id: 'shop-a', event_type: 'inventory.offer.created', payload: { quantity: 3 } }],
+    });
+    const app = express();
+    app.use(express.json());
+    app.use('/api/webhooks', requireSession(SECRET), createWebhooksRouter(supabase, { logger: silent }));
+    server = app.listen(0);
+    base = `http://127.0.0.1:${server.address().port}/api/webhooks`;
+  });
+
+  afterEach(() => server.close());
+
+  const call = async (session, method, path, body) => {
+    const response = await fetch(`${base}${path}`, {
+      method,
+      headers: { authorization: `Bearer ${signAccessToken(SECRET, session)}`, 'Content-Type': 'application/json' },
+      body: body && JSON.stringify(body),
+    });
+    return { status: response.status, body: response.status === 204 ? null : await response.json() };
+  };
+
+  const createEndpoint = async () => (await call(owner, 'POST', '/endpoints', { name: 'ERP', url: 'https://erp.example.com/hooks' })).body;
+
+  const addPolicy = (endpointId) => supabase.db.dan_policies.push({
+    id: 'policy-1', shop_id: 'shop-a', name: 'Tell the ERP', event_type: 'inventory.offer.created', enabled: true,
+    config: { actions: [{ type: 'call_webhook', params: { endpointId } }] },
+  });
+
+  it('returns the secret only when an endpoint is created or rotated', async () => {
+    const created = await createEndpoint();
+    expect(created.secret).toMatch(/^whsec_/);
+    expect(created.endpoint).not.toHaveProperty('secret');
+
+    const listed = await call(owner, 'GET', '/endpoints');
+    expect(listed.body.endpoints).toHaveLength(1);
+    expect(listed.body.endpoints[0]).not.toHaveProperty('secret');
+
+    const rotated = await call(owner, 'POST', `/endpoints/${created.endpoint.id}/rotate`);
+    expect(rotated.body.secret).toMatch(/^whsec_/);
+    expect(rotated.body.secret).not.toBe(created.secret);
+  });
+
+  it('keeps endpoints and deliveries within the shop', async () => {
+    const { endpoint } = await createEndpoint();
+    addPolicy(endpoint.id);
+    const queue = { endpointId: endpoint.id, policyId: 'policy-1', eventId: 'event-1' };
+
+    expect((await call(otherShop, 'GET', '/endpoints?shopId=shop-a')).status).toBe(403);
+    expect((await call(otherShop, 'GET', '/endpoints')).body.endpoints).toEqual([]);
+    expect((await call(otherShop, 'PATCH', `/endpoints/${endpoint.id}`, { url: 'https://evil.example.com' })).status).toBe(404);
+    expect((await call(otherShop, 'DELETE', `/endpoints/${endpoint.id}`)).status).toBe(404);
+    expect((await call(otherShop, 'POST', '/deliveries', queue)).status).toBe(404);
+    expect(supabase.db.webhook_endpoints[0].url).toBe('https://erp.example.com/hooks');
+
+    const queued = await call(clerk, 'POST', '/deliveries', queue);
+    expect(queued.status).toBe(201);
+    expect((await call(otherShop, 'POST', `/deliveries/${queued.body.delivery.id}/redeliver`)).status).toBe(404);
+    expect((await call(otherShop, 'GET', '/deliveries')).body.deliveries).toEqual([]);
+  });
+
+  it('builds delivery bodies from the stored policy and event', async () => {
+    const { endpoint } = await createEndpoint();
+    addPolicy(endpoint.id);
+
+    const forged = await call(clerk, 'POST', '/deliveries', {
+      endpointId: endpoint.id, policyId: 'policy-1', eventId: 'event-1', payload: { refund: 1000 },
+    });
+    expect(forged.status).toBe(201);
+    expect(forged.body.delivery.payload).toEqual({
+      policyId: 'policy-1',
+      policyName: 'Tell the ERP',
+      eventId: 'event-1',
+      eventType: 'inventory.offer.created',
+      payload: { quantity: 3 },
+    });
+
+    const again = await call(clerk, 'POST', '/deliveries', { endpointId: endpoint.id, policyId: 'policy-1', eventId: 'event-1' });
+    expect(again.status).toBe(409);
+    const unknownEvent = await call(clerk, 'POST', '/deliveries', { endpointId: endpoint.id, policyId: 'policy-1', eventId: 'event-2' });
+    expect(unknownEvent.status).toBe(404);
+    const { endpoint: other } = await createEndpoint();
+    const otherEndpoint = await call(clerk, 'POST', '/deliveries', { endpointId: other.id, policyId: 'policy-1', eventId: 'event-1' });
+    expect(otherEndpoint.status).toBe(404);
+  });
+
+  it('needs managePolicies to manage endpoints', async () => {
+    expect((await call(clerk, 'POST', '/endpoints', { name: 'ERP', url: 'https://erp.example.com/hooks' })).status).toBe(403);
+  });
+
+  it('refuses endpoints on the server\'s own or private networks', async () => {
+    for (const url of ['http://localhost:3001/api', 'http://127.0.0.1/', 'http://169.254.169.254/latest', 'http://[::1]/', 'http://10.0.0.5/', 'ftp://example.com/']) {
+      const { status } = await call(owner, 'POST', '/endpoints', { name: 'Internal', url });
+      expect(status, url).toBe(400);
+    }
+    expect(normalizeWebhookUrl('https://hooks.example.com/in')).toBe('https://hooks.example.com/in');
+    expect(normalizeWebhookUrl('http://localhost:4000/', { allowLoopback: true })).toBe('http://localhost:4000/');
+    expect(normalizeWebhookUrl('http://10.0.0.5/', { allowLoopback: true })).toBeNull();
+    expect(allowsLoopbackWebhooks({ WEBHOOK_ALLOW_LOOPBACK: 'true', NODE_ENV: 'development' })).toBe(true);
+    expect(allowsLoopbackWebhooks({ WEBHOOK_ALLOW_LOOPBACK: 'true', NODE_ENV: 'production' })).toBe(false);
+  });
+});
+
+describe('webhook dispatcher', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('never posts to a delivery\'s own url', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 200 }));
+    const supabase = createFakeSupabase({
+      webhook_deliveries: [{
+        id: 'delivery-1', shop_id: 'shop-a', endpoint_id: null, url: 'http://169.254.169.254/latest',
+        payload: {}, status: 'pending', attempts: 0, attempt_log: [], next_attempt_at: new Date(0).toISOString(),
+      }],
+    });
+
+    const result = await createWebhookDispatcher(supabase, { logger: silent }).deliver('delivery-1');
+
+    expect(fetchSpy).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ status: 'dead', lastError: 'No registered endpoint' });
+  });
+
+  it('signs deliveries to the endpoint\'s current url', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 200 }));
+    const supabase = createFakeSupabase({
+      webhook_endpoints: [{ id: 'endpoint-1', shop_id: 'shop-a', name: 'ERP', url: 'https://erp.example.com/new', secret: 'whsec_test', enabled: true }],
+      webhook_deliveries: [{
+        id: 'delivery-1', shop_id: 'shop-a', endpoint_id: 'endpoint-1', url: 'https://erp.example.com/old',
+        payload: { hello: 'world' }, status: 'pending', attempts: 0, attempt_log: [], next_attempt_at: new Date(0).toISOString(),
+      }],
+    });
+
+    const result = await createWebhookDispatcher(supabase, { logger: silent }).deliver('delivery-1');
+
+    expect(result.status).toBe('delivered');
+    const [url, init] = fetchSpy.mock.calls[0];
+    expect(url).toBe('https://erp.example.com/new');
+    expect(init.headers['X-ShopNexus-Signature']).toMatch(/^sha256=/);
+  });
+});
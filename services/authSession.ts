@@ -0,0 +1,164 @@
+import { SERVER_BASE_URL } from '../config';
+import type { AuthSessionTokens } from '../types';
+
+/**
+ * Session issued by the server's /api/auth endpoints. The access token goes
+ * out on every /api and /qdrant request and is refreshed a minute before it
+ * expires; tokens live in sessionStorage so they end with the tab.
+ */
+
+const STORAGE_KEY = 'shopnexus_session';
+const REFRESH_LEAD_MS = 60 * 1000;
+
+type SessionListener = (session: AuthSessionTokens | null) => void;
+
+let currentSession: AuthSessionTokens | null = null;
+let sessionLoaded = false;
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+let inflightRefresh: Promise<{ user: any; session: AuthSessionTokens }> | null = null;
+const listeners = new Set<SessionListener>();
+
+const getStorage = (): Storage | null => {
+  if (typeof window !== 'undefined' && window.sessionStorage) {
+    return window.sessionStorage;
+  }
+  return null;
+};
+
+const loadSession = (): AuthSessionTokens | null => {
+  if (!sessionLoaded) {
+    sessionLoaded = true;
+    try {
+      const raw = getStorage()?.getItem(STORAGE_KEY);
+      currentSession = raw ? (JSON.parse(raw) as AuthSessionTokens) : null;
+    } catch {
+      currentSession = null;
+    }
+  }
+  return currentSession;
+};
+
+const scheduleRefresh = (session: AuthSessionTokens | null) => {
+  if (refreshTimer) clearTimeout(refreshTimer);
+  refreshTimer = null;
+  if (!session) return;
+  const delay = Math.max(0, new Date(session.accessTokenExpiresAt).getTime() - Date.now() - REFRESH_LEAD_MS);
+  refreshTimer = setTimeout(() => {
+    refreshSession().catch(error => console.warn('[Auth] Session refresh failed:', error));
+  }, delay);
+};
+
+const setSession = (session: AuthSessionTokens | null) => {
+  currentSession = session;
+  sessionLoaded = true;
+  const storage = getStorage();
+  if (session) storage?.setItem(STORAGE_KEY, JSON.stringify(session));
+  else storage?.removeItem(STORAGE_KEY);
+  scheduleRefresh(session);
+  listeners.forEach(listener => listener(session));
+};
+
+// Access token of the current session, or null when signed out or expired
+export const getAccessToken = (): string | null => {
+  const session = loadSession();
+  if (!session || new Date(session.accessTokenExpiresAt).getTime() <= Date.now()) return null;
+  return session.accessToken;
+};
+
+// fetch against the server (SERVER_BASE_URL) with the session's access token
+export const fetchWithSession = (path: string, init: RequestInit = {}): Promise<Response> => {
+  const headers = new Headers(init.headers);
+  const token = getAccessToken();
+  if (token) headers.set('Authorization', `Bearer ${token}`);
+  return fetch(`${SERVER_BASE_URL}${path}`, { ...init, headers });
+};
+
+export const hasStoredSession = (): boolean => !!loadSession();
+
+export const subscribeToSession = (listener: SessionListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const postAuth = async <T>(path: string, body: Record<string, unknown>): Promise<T> => {
+  const response = await fetch(`${SERVER_BASE_URL}/api/auth/${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (response.status === 204) return undefined as T;
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const error: Error & { status?: number } = new Error(data.error || `Authentication request failed (${response.status})`);
+    error.status = response.status;
+    throw error;
+  }
+  return data as T;
+};
+
+/**
+ * Sign in or register through the server; the returned user row carries no
+ * password hash.
+ */
+export const requestSession = async (
+  path: 'login' | 'register',
+  body: Record<string, unknown>,
+): Promise<{ user: any; session: AuthSessionTokens }> => {
+  const result = await postAuth<{ user: any; session: AuthSessionTokens }>(path, body);
+  setSession(result.session);
+  return result;
+};
+
+/**
+ * Exchange the refresh token for a new session. Concurrent callers share
+ * one request, since the server only honours each refresh token once.
+ */
+export const refreshSession = async (): Promise<{ user: any; session: AuthSessionTokens }> => {
+  if (inflightRefresh) return inflightRefresh;
+  const session = loadSession();
+  if (!session) throw new Error('Not signed in.');
+  inflightRefresh = postAuth<{ user: any; session: AuthSessionTokens }>('refresh', { refreshToken: session.refreshToken })
+    .then(result => {
+      setSession(result.session);
+      return result;
+    })
+    .catch(error => {
+      // Keep the session through network errors; the server rejecting it ends it
+      if (error?.status === 401) setSession(null);
+      throw error;
+    })
+    .finally(() => {
+      inflightRefresh = null;
+    });
+  return inflightRefresh;
+};
+
+/**
+ * Point the session at another of the user's shops. The server checks the
+ * user works there; the refresh that follows issues tokens for that shop.
+ */
+export const switchSessionShop = async (shopId: string): Promise<{ user: any; session: AuthSessionTokens }> => {
+  // A refresh already under way would still carry the previous shop
+  await inflightRefresh?.catch(() => null);
+  const response = await fetchWithSession('/api/auth/switch-shop', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ shopId }),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `Could not switch shop (${response.status})`);
+  }
+  return refreshSession();
+};
+
+export const endSession = async (): Promise<void> => {
+  const session = loadSession();
+  setSession(null);
+  if (!session) return;
+  await postAuth('logout', { refreshToken: session.refreshToken }).catch(error => {
+    console.warn('[Auth] Logout request failed:', error);
+  });
+};
@@ -0,0 +1,270 @@
+import supabase from './supabaseClient';
+import type { DanEventRecord, DanOutboxEntry, DanOutboxSummary } from '../types';
+
+/**
+ * Durable outbox for signed DAN events that could not reach Supabase.
+ * Entries live in IndexedDB (in memory when it is unavailable), keyed by
+ * eventId so a re-sent event is never queued twice. Each event is sent on
+ * its own with exponential backoff; one that Postgres rejects outright, or
+ * that keeps failing, is set aside as 'failed' instead of blocking the rest.
+ */
+
+const DB_NAME = 'shopnexus-dan';
+const DB_VERSION = 1;
+const STORE_NAME = 'outbox';
+// localStorage buffer used before the outbox existed; drained on first open
+const LEGACY_BUFFER_KEY = 'dan:event-buffer:v1';
+
+const MAX_OUTBOX_ATTEMPTS = 8;
+const RETRY_BASE_DELAY_MS = 5 * 1000;
+const RETRY_MAX_DELAY_MS = 10 * 60 * 1000;
+const UNIQUE_VIOLATION = '23505';
+
+type OutboxListener = (summary: DanOutboxSummary) => void;
+
+const memoryStore = new Map<string, DanOutboxEntry>();
+const listeners = new Set<OutboxListener>();
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+let flushPromise: Promise<void> | null = null;
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let onlineListenerAttached = false;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase | null>(resolve => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'eventId' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('[DAN] IndexedDB unavailable, keeping the outbox in memory', request.error);
+        resolve(null);
+      };
+    } catch (err) {
+      console.warn('[DAN] IndexedDB unavailable, keeping the outbox in memory', err);
+      resolve(null);
+    }
+  }).then(async db => {
+    await migrateLegacyBuffer(db);
+    return db;
+  });
+  return dbPromise;
+};
+
+const readAll = async (): Promise<DanOutboxEntry[]> => {
+  const db = await openDatabase();
+  if (!db) return Array.from(memoryStore.values());
+  const stored = await requestToPromise(
+    db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAll() as IDBRequest<DanOutboxEntry[]>,
+  );
+  // Entries that could not be written to IndexedDB (quota) are held in memory
+  const byId = new Map(stored.map(entry => [entry.eventId, entry]));
+  memoryStore.forEach((entry, eventId) => byId.set(eventId, entry));
+  return Array.from(byId.values()).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+const writeEntry = async (entry: DanOutboxEntry, db?: IDBDatabase | null) => {
+  const target = db === undefined ? await openDatabase() : db;
+  if (!target) {
+    memoryStore.set(entry.eventId, entry);
+    return;
+  }
+  try {
+    await requestToPromise(target.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(entry));
+    memoryStore.delete(entry.eventId);
+  } catch (err) {
+    console.error(`[DAN] Could not persist event ${entry.eventId} to the outbox; it is kept in memory until sent`, err);
+    memoryStore.set(entry.eventId, entry);
+  }
+};
+
+const deleteEntry = async (eventId: string) => {
+  memoryStore.delete(eventId);
+  const db = await openDatabase();
+  if (!db) return;
+  await requestToPromise(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).delete(eventId));
+};
+
+const buildEntry = (event: DanEventRecord, lastError: string | null = null): DanOutboxEntry => {
+  const now = new Date().toISOString();
+  return {
+    eventId: event.eventId,
+    event,
+    status: 'pending',
+    attempts: 0,
+    lastError,
+    nextAttemptAt: now,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+const migrateLegacyBuffer = async (db: IDBDatabase | null) => {
+  const store = typeof window !== 'undefined' ? window.localStorage : null;
+  if (!store) return;
+  try {
+    const raw = store.getItem(LEGACY_BUFFER_KEY);
+    if (!raw) return;
+    const buffered = JSON.parse(raw) as DanEventRecord[];
+    for (const event of buffered) {
+      if (event?.eventId) await writeEntry(buildEntry(event), db);
+    }
+    store.removeItem(LEGACY_BUFFER_KEY);
+  } catch (err) {
+    console.warn('[DAN] Failed to migrate the legacy event buffer', err);
+  }
+};
+
+const summarize = (entries: DanOutboxEntry[]): DanOutboxSummary => {
+  const pending = entries.filter(entry => entry.status === 'pending');
+  return {
+    pending: pending.length,
+    failed: entries.length - pending.length,
+    nextAttemptAt: pending.map(entry => entry.nextAttemptAt).sort()[0] || null,
+  };
+};
+
+const notifyListeners = async () => {
+  if (!listeners.size) return;
+  const summary = summarize(await readAll());
+  listeners.forEach(listener => listener(summary));
+};
+
+// Rows Postgres rejects for their content will be rejected on every retry
+const isPoisonError = (error: { code?: string } | null | undefined) =>
+  Boolean(error?.code && /^(22|23|42)/.test(error.code) && error.code !== UNIQUE_VIOLATION);
+
+const retryDelayMs = (attempts: number) =>
+  Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (attempts - 1));
+
+export const toDanEventRow = (event: DanEventRecord) => ({
+  event_id: event.eventId,
+  shop_id: event.shopId,
+  namespace: event.namespace,
+  event_type: event.eventType,
+  payload: event.payload,
+  share_scope: event.shareScope,
+  vector_context: event.vectorContext,
+  proofs: event.proofs,
+  actor_public_key: event.actor.publicKey,
+  actor_fingerprint: event.actor.fingerprint,
+  actor_signature: event.actor.signature,
+  created_at: event.createdAt,
+});
+
+/**
+ * Insert one event into dan_events. An event that is already there (same
+ * eventId) counts as sent. Throws the Supabase error otherwise.
+ */
+export const sendDanEvent = async (event: DanEventRecord): Promise<void> => {
+  if (!supabase) throw new Error('Supabase is not configured.');
+  const { error } = await supabase.from('dan_events').insert(toDanEventRow(event));
+  if (error && error.code !== UNIQUE_VIOLATION) throw error;
+};
+
+const scheduleFlush = (summary: DanOutboxSummary) => {
+  if (flushTimer) clearTimeout(flushTimer);
+  flushTimer = null;
+  if (!summary.nextAttemptAt || !supabase) return;
+  const delay = Math.max(0, new Date(summary.nextAttemptAt).getTime() - Date.now());
+  flushTimer = setTimeout(() => {
+    flushTimer = null;
+    flushDanOutbox();
+  }, delay);
+};
+
+const attachOnlineListener = () => {
+  if (onlineListenerAttached || typeof window === 'undefined') return;
+  onlineListenerAttached = true;
+  window.addEventListener('online', () => flushDanOutbox({ force: true }));
+};
+
+export const enqueueDanEvent = async (event: DanEventRecord, lastError: string | null = null) => {
+  attachOnlineListener();
+  const existing = (await readAll()).find(entry => entry.eventId === event.eventId);
+  if (!existing) await writeEntry(buildEntry(event, lastError));
+  await notifyListeners();
+  scheduleFlush(summarize(await readAll()));
+};
+
+/**
+ * Send every pending entry that is due (or all pending entries with force).
+ * Concurrent calls share one flush.
+ */
+export const flushDanOutbox = ({ force = false }: { force?: boolean } = {}): Promise<void> => {
+  if (flushPromise) return flushPromise;
+  flushPromise = (async () => {
+    if (!supabase) return;
+    attachOnlineListener();
+    const now = Date.now();
+    const due = (await readAll()).filter(entry => entry.status === 'pending'
+      && (force || new Date(entry.nextAttemptAt).getTime() <= now));
+    for (const entry of due) {
+      try {
+        await sendDanEvent(entry.event);
+        await deleteEntry(entry.eventId);
+      } catch (err: any) {
+        const attempts = entry.attempts + 1;
+        const failed = isPoisonError(err) || attempts >= MAX_OUTBOX_ATTEMPTS;
+        const updatedAt = new Date().toISOString();
+        await writeEntry({
+          ...entry,
+          attempts,
+          status: failed ? 'failed' : 'pending',
+          lastError: err?.message || String(err),
+          nextAttemptAt: new Date(Date.now() + retryDelayMs(attempts)).toISOString(),
+          updatedAt,
+        });
+        if (failed) console.warn(`[DAN] Event ${entry.eventId} moved to failed after ${attempts} attempts`, err);
+      }
+    }
+  })()
+    .catch(err => console.warn('[DAN] Failed to flush the outbox', err))
+    .finally(async () => {
+      flushPromise = null;
+      await notifyListeners();
+      scheduleFlush(summarize(await readAll()));
+    });
+  return flushPromise;
+};
+
+export const getDanOutboxEntries = (): Promise<DanOutboxEntry[]> => readAll();
+
+export const getDanOutboxSummary = async (): Promise<DanOutboxSummary> => summarize(await readAll());
+
+// Give failed entries (one, or all when no id is passed) a fresh set of attempts
+export const retryDanOutboxEvents = async (eventId?: string) => {
+  const entries = (await readAll()).filter(entry => (eventId ? entry.eventId === eventId : entry.status === 'failed'));
+  const now = new Date().toISOString();
+  for (const entry of entries) {
+    await writeEntry({ ...entry, status: 'pending', attempts: 0, nextAttemptAt: now, updatedAt: now });
+  }
+  await flushDanOutbox({ force: true });
+};
+
+export const discardDanOutboxEvent = async (eventId: string) => {
+  await deleteEntry(eventId);
+  await notifyListeners();
+};
+
+export const subscribeToDanOutbox = (listener: OutboxListener) => {
+  listeners.add(listener);
+  getDanOutboxSummary().then(listener).catch(() => undefined);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -1,26 +1,59 @@
 import { v4 as uuidv4 } from 'uuid';
 import supabase from './supabaseClient';
+import { fetchWithSession } from './authSession';
 import {
   activeShopId,
   activeNamespace,
 } from './qdrant/core';
 import {
   ENABLE_DAN_EXPERIMENT,
-  DAN_KEY_SALT,
   DAN_REALTIME_CHANNEL,
 } from '../config';
+import { enqueueDanEvent, flushDanOutbox, sendDanEvent } from './danOutbox';
 import type {
   DanContext,
+  DanDeviceKey,
   DanEventInput,
   DanEventRecord,
+  DanKeyAlgorithm,
   DanKeyMaterial,
+  DanKeyStatus,
   DanShareScope,
+  DanSignatureLogEntry,
+  DanVerificationFailure,
+  QuarantinedDanEvent,
 } from '../types';
 
+// privateKey is the PKCS#8 export, base64; it never leaves this device
 type StoredDanKeyMaterial = DanKeyMaterial & { privateKey: string };
 
-const KEY_STORAGE_KEY = 'dan:keypairs:v1';
-const EVENT_BUFFER_KEY = 'dan:event-buffer:v1';
+export interface DanVerificationResult {
+  valid: boolean;
+  reason?: DanVerificationFailure;
+}
+
+// v1 held hash-derived keys that could be recomputed from the shop ID
+const KEY_STORAGE_KEY = 'dan:keypairs:v2';
+const QUARANTINE_KEY = 'dan:quarantine:v1';
+const DEVICE_ID_KEY = 'dan:device-id:v1';
+const SIGNATURE_LOG_KEY = 'dan:signature-log:v1';
+const MAX_QUARANTINED_EVENTS = 200;
+const MAX_SIGNATURE_LOG_ENTRIES = 50;
+const REGISTERED_KEY_TTL_MS = 5 * 60 * 1000;
+
+// How long a rotated-out key keeps verifying events signed before its expiry
+export const DAN_KEY_ROTATION_OVERLAP_DAYS = 7;
+
+const SIGNING_PARAMS: Record<
+  DanKeyAlgorithm,
+  { key: AlgorithmIdentifier | EcKeyImportParams; sign: AlgorithmIdentifier | EcdsaParams }
+> = {
+  Ed25519: { key: { name: 'Ed25519' }, sign: { name: 'Ed25519' } },
+  'ECDSA-P256': {
+    key: { name: 'ECDSA', namedCurve: 'P-256' },
+    sign: { name: 'ECDSA', hash: 'SHA-256' },
+  },
+};
 
 const getLocalStorage = (): Storage | null => {
   if (typeof window !== 'undefined' && window.localStorage) {
@@ -59,6 +92,23 @@ const bufferToHex = (buffer: ArrayBuffer): string =>
     .map(b => b.toString(16).padStart(2, '0'))
     .join('');
 
+const bufferToBase64 = (buffer: ArrayBuffer): string => {
+  let binary = '';
+  new Uint8Array(buffer).forEach(b => {
+    binary += String.fromCharCode(b);
+  });
+  return btoa(binary);
+};
+
+const base64ToBuffer = (value: string): ArrayBuffer => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+};
+
 const getSubtleCrypto = (): SubtleCrypto | null => {
   if (typeof globalThis === 'undefined') return null;
   const candidate = (globalThis as unknown as { crypto?: Crypto }).crypto;
@@ -83,23 +133,140 @@ const sha256 = async (value: string): Promise<string> => {
   return bufferToHex(digest);
 };
 
+/**
+ * JSON with object keys sorted and undefined members dropped, so a value
+ * serializes identically after a round trip through Postgres jsonb.
+ */
+export const canonicalizeDanValue = (value: unknown): string => {
+  if (value === null || value === undefined || typeof value !== 'object') {
+    return JSON.stringify(value ?? null);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalizeDanValue(item)).join(',')}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, member]) => member !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries
+    .map(([key, member]) => `${JSON.stringify(key)}:${canonicalizeDanValue(member)}`)
+    .join(',')}}`;
+};
+
 export const hashDanPayload = async (input: unknown): Promise<string> => {
   const serialized =
-    typeof input === 'string' ? input : JSON.stringify(input ?? {});
+    typeof input === 'string' ? input : canonicalizeDanValue(input ?? {});
   return sha256(serialized);
 };
 
-const deriveKeyPair = async (shopId: string): Promise<StoredDanKeyMaterial> => {
-  const material = `${shopId}:${activeNamespace || 'global'}:${DAN_KEY_SALT}`;
-  const privateKey = await sha256(`${material}:private`);
-  const publicKey = await sha256(`${privateKey}:public`);
-  const fingerprint = publicKey.slice(0, 16);
-  return {
-    publicKey,
-    fingerprint,
-    derivedAt: new Date().toISOString(),
+// The exact bytes an event signature covers. createdAt is normalized because
+// timestamptz comes back from Postgres in a different format.
+export const serializeDanEventForSigning = (
+  record: Omit<DanEventRecord, 'actor'> & { actor: { publicKey: string } },
+): string =>
+  canonicalizeDanValue({
+    eventId: record.eventId,
+    eventType: record.eventType,
+    shopId: record.shopId,
+    namespace: record.namespace ?? null,
+    payload: record.payload,
+    shareScope: record.shareScope,
+    vectorContext: record.vectorContext ?? null,
+    proofs: record.proofs ?? null,
+    createdAt: new Date(record.createdAt).toISOString(),
+    publicKey: record.actor.publicKey,
+  });
+
+const getDeviceId = (): string => {
+  const existing = tryReadJson<string | null>(DEVICE_ID_KEY, null);
+  if (existing) return existing;
+  const deviceId = uuidv4();
+  tryWriteJson(DEVICE_ID_KEY, deviceId);
+  return deviceId;
+};
+
+// What an approving device signs to vouch for another device's key
+const serializeKeyApproval = (shopId: string, publicKey: string, fingerprint: string): string =>
+  canonicalizeDanValue({ purpose: 'dan-key-approval', shopId, publicKey, fingerprint });
+
+const fingerprintPublicKey = async (publicKey: string): Promise<string> =>
+  (await sha256(publicKey)).slice(0, 16);
+
+const generateKeyPair = async (): Promise<StoredDanKeyMaterial | null> => {
+  const subtle = getSubtleCrypto();
+  if (!subtle) return null;
+  const algorithms: DanKeyAlgorithm[] = ['Ed25519', 'ECDSA-P256'];
+  for (const algorithm of algorithms) {
+    try {
+      const pair = (await subtle.generateKey(SIGNING_PARAMS[algorithm].key, true, [
+        'sign',
+        'verify',
+      ])) as CryptoKeyPair;
+      const [spki, pkcs8] = await Promise.all([
+        subtle.exportKey('spki', pair.publicKey),
+        subtle.exportKey('pkcs8', pair.privateKey),
+      ]);
+      const publicKey = bufferToBase64(spki);
+      return {
+        algorithm,
+        deviceId: getDeviceId(),
+        publicKey,
+        fingerprint: await fingerprintPublicKey(publicKey),
+        derivedAt: new Date().toISOString(),
+        privateKey: bufferToBase64(pkcs8),
+      };
+    } catch (err) {
+      console.warn(`[DAN] ${algorithm} key generation unavailable`, err);
+    }
+  }
+  return null;
+};
+
+const signingKeyCache = new Map<string, CryptoKey>();
+
+const signMessage = async (key: StoredDanKeyMaterial, message: string): Promise<string> => {
+  const subtle = getSubtleCrypto();
+  if (!subtle) throw new Error('WebCrypto is not available to sign DAN events.');
+  let privateKey = signingKeyCache.get(key.publicKey);
+  if (!privateKey) {
+    privateKey = await subtle.importKey(
+      'pkcs8',
+      base64ToBuffer(key.privateKey),
+      SIGNING_PARAMS[key.algorithm].key,
+      false,
+      ['sign'],
+    );
+    signingKeyCache.set(key.publicKey, privateKey);
+  }
+  const signature = await subtle.sign(
+    SIGNING_PARAMS[key.algorithm].sign,
     privateKey,
-  };
+    new TextEncoder().encode(message),
+  );
+  return bufferToBase64(signature);
+};
+
+const verifyMessage = async (
+  algorithm: DanKeyAlgorithm,
+  publicKey: string,
+  signature: string,
+  message: string,
+): Promise<boolean> => {
+  const subtle = getSubtleCrypto();
+  if (!subtle) return false;
+  try {
+    const params = SIGNING_PARAMS[algorithm];
+    const key = await subtle.importKey('spki', base64ToBuffer(publicKey), params.key, false, [
+      'verify',
+    ]);
+    return await subtle.verify(
+      params.sign,
+      key,
+      base64ToBuffer(signature),
+      new TextEncoder().encode(message),
+    );
+  } catch {
+    return false;
+  }
 };
 
 const readStoredKeys = (): Record<string, StoredDanKeyMaterial> =>
@@ -119,35 +286,94 @@ const persistKeyForShop = (shopId: string, key: StoredDanKeyMaterial) => {
   writeStoredKeys(next);
 };
 
+const mapKeyRow = (row: any): DanDeviceKey => ({
+  shopId: row.shop_id,
+  deviceId: row.device_id,
+  deviceLabel: row.device_label || null,
+  publicKey: row.public_key,
+  fingerprint: row.fingerprint,
+  algorithm: (row.algorithm as DanKeyAlgorithm | null) || null,
+  status: (row.status as DanKeyStatus) || 'pending',
+  approvedByFingerprint: row.approved_by_fingerprint || null,
+  approvalSignature: row.approval_signature || null,
+  expiresAt: row.expires_at || null,
+  revokedAt: row.revoked_at || null,
+  revokedReason: row.revoked_reason || null,
+  createdAt: row.created_at,
+});
+
+const isSigningStatus = (status?: DanKeyStatus | null) =>
+  status === 'active' || status === 'retiring';
+
+const shopKeyCache = new Map<string, { keys: DanDeviceKey[]; fetchedAt: number }>();
+
+// Every key a shop has registered, revoked ones included (the revocation list)
+export const fetchShopKeys = async (
+  shopId: string,
+  forceRefresh = false,
+): Promise<DanDeviceKey[]> => {
+  const cached = shopKeyCache.get(shopId);
+  if (!forceRefresh && cached && Date.now() - cached.fetchedAt < REGISTERED_KEY_TTL_MS) {
+    return cached.keys;
+  }
+  if (!supabase) return [];
+  const { data, error } = await supabase
+    .from('dan_keys')
+    .select('*')
+    .eq('shop_id', shopId)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  const keys = (data || []).map(mapKeyRow);
+  shopKeyCache.set(shopId, { keys, fetchedAt: Date.now() });
+  return keys;
+};
+
+// dan_keys is written by the server only (server/danKeys.js), which checks
+// registration proofs and approval signatures before changing a row
+const danKeysRequest = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+  const response = await fetchWithSession(`/api/dan/keys${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...(init.headers || {}) },
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `DAN key request failed (${response.status})`);
+  }
+  return data as T;
+};
+
+// A device proves it holds a key by signing the key's approval itself
+const describeKeyForRegistration = async (shopId: string, key: StoredDanKeyMaterial) => ({
+  deviceId: key.deviceId,
+  namespace: activeNamespace,
+  publicKey: key.publicKey,
+  algorithm: key.algorithm,
+  proof: await signMessage(key, serializeKeyApproval(shopId, key.publicKey, key.fingerprint)),
+});
+
+// The server activates a shop's first key when an owner or manager enrolls
+// it; later devices stay pending until an active device approves them.
 const registerKeyWithControlPlane = async (
   shopId: string,
   key: StoredDanKeyMaterial,
-) => {
-  if (!supabase) return false;
+): Promise<StoredDanKeyMaterial> => {
+  if (!supabase) return key;
   try {
-    const now = new Date().toISOString();
-    const { error } = await supabase
-      .from('dan_keys')
-      .upsert(
-        {
-          shop_id: shopId,
-          namespace: activeNamespace,
-          public_key: key.publicKey,
-          fingerprint: key.fingerprint,
-          capability_scope: ['local', 'dan'],
-          last_seen_at: now,
-        },
-        { onConflict: 'shop_id' },
-      );
-    if (error) {
-      console.warn('[DAN] Failed to register key with control plane', error);
-      return false;
-    }
-    persistKeyForShop(shopId, { ...key, lastRegisteredAt: now });
-    return true;
+    const { key: registeredKey } = await danKeysRequest<{ key: DanDeviceKey }>('', {
+      method: 'POST',
+      body: JSON.stringify({ shopId, ...(await describeKeyForRegistration(shopId, key)) }),
+    });
+    shopKeyCache.delete(shopId);
+    const registered: StoredDanKeyMaterial = {
+      ...key,
+      lastRegisteredAt: new Date().toISOString(),
+      status: registeredKey.status,
+    };
+    persistKeyForShop(shopId, registered);
+    return registered;
   } catch (err) {
     console.warn('[DAN] Error registering key', err);
-    return false;
+    return key;
   }
 };
 
@@ -155,44 +381,116 @@ const ensureKeyPair = async (): Promise<StoredDanKeyMaterial | null> => {
   const shopId = activeShopId;
   if (!shopId || !ENABLE_DAN_EXPERIMENT) return null;
   let key = getStoredKeyForShop(shopId);
-  if (!key) {
-    key = await deriveKeyPair(shopId);
+  // A revoked device enrolls again with a fresh key
+  if (!key || key.status === 'revoked') {
+    key = await generateKeyPair();
+    if (!key) return null;
     persistKeyForShop(shopId, key);
   }
   if (supabase) {
-    await registerKeyWithControlPlane(shopId, key);
+    key = await registerKeyWithControlPlane(shopId, key);
   }
   return key;
 };
 
-const flushBufferedEvents = async () => {
-  if (!supabase) return;
-  const buffered = tryReadJson<DanEventRecord[]>(EVENT_BUFFER_KEY, []);
-  if (!buffered.length) return;
-  try {
-    const insertPayload = buffered.map(event => ({
-      event_id: event.eventId,
-      shop_id: event.shopId,
-      namespace: event.namespace,
-      event_type: event.eventType,
-      payload: event.payload,
-      share_scope: event.shareScope,
-      vector_context: event.vectorContext,
-      proofs: event.proofs,
-      actor_public_key: event.actor.publicKey,
-      actor_fingerprint: event.actor.fingerprint,
-      actor_signature: event.actor.signature,
-      created_at: event.createdAt,
-    }));
-    const { error } = await supabase.from('dan_events').insert(insertPayload);
-    if (!error) {
-      tryWriteJson(EVENT_BUFFER_KEY, []);
-    }
-  } catch (err) {
-    console.warn('[DAN] Failed to flush buffered events', err);
+const requireActiveKey = async (shopId: string): Promise<StoredDanKeyMaterial> => {
+  const key = await ensureKeyPair();
+  if (!key) throw new Error('DAN is not available on this device.');
+  if (key.status !== 'active') {
+    throw new Error('This device needs an active DAN key. Ask an enrolled device to approve it.');
+  }
+  if (!supabase) throw new Error('Managing DAN keys requires Supabase.');
+  if (activeShopId !== shopId) throw new Error('The active shop changed. Please try again.');
+  return key;
+};
+
+// Approve another device's pending key by signing it with this device's key
+export const approveDanDeviceKey = async (fingerprint: string): Promise<void> => {
+  const shopId = activeShopId;
+  if (!shopId) throw new Error('Select a shop first.');
+  const approver = await requireActiveKey(shopId);
+  const keys = await fetchShopKeys(shopId, true);
+  const pending = keys.find(entry => entry.fingerprint === fingerprint);
+  if (!pending) throw new Error(`DAN key ${fingerprint} not found.`);
+  if (pending.status !== 'pending') throw new Error(`DAN key ${fingerprint} is ${pending.status}, not pending.`);
+
+  const approvalSignature = await signMessage(
+    approver,
+    serializeKeyApproval(shopId, pending.publicKey, pending.fingerprint),
+  );
+  await danKeysRequest(`/${encodeURIComponent(fingerprint)}/approve`, {
+    method: 'POST',
+    body: JSON.stringify({ shopId, approverFingerprint: approver.fingerprint, approvalSignature }),
+  });
+  shopKeyCache.delete(shopId);
+};
+
+/**
+ * Replace this device's key. The new key is approved by the old one, and the
+ * old key keeps verifying events created before its expiry so events already
+ * in flight are not rejected.
+ */
+export const rotateDanKey = async (): Promise<DanDeviceKey | null> => {
+  const shopId = activeShopId;
+  if (!shopId) throw new Error('Select a shop first.');
+  const current = await requireActiveKey(shopId);
+  const next = await generateKeyPair();
+  if (!next) throw new Error('WebCrypto is not available to generate a DAN key.');
+
+  const approvalSignature = await signMessage(
+    current,
+    serializeKeyApproval(shopId, next.publicKey, next.fingerprint),
+  );
+  const { key } = await danKeysRequest<{ key: DanDeviceKey }>('/rotate', {
+    method: 'POST',
+    body: JSON.stringify({
+      shopId,
+      fingerprint: current.fingerprint,
+      approvalSignature,
+      next: await describeKeyForRegistration(shopId, next),
+    }),
+  });
+
+  persistKeyForShop(shopId, { ...next, status: 'active', lastRegisteredAt: new Date().toISOString() });
+  signingKeyCache.delete(current.publicKey);
+  shopKeyCache.delete(shopId);
+  return key;
+};
+
+// Revoked keys fail verification for every event they signed, past or future
+export const revokeDanKey = async (fingerprint: string, reason?: string): Promise<void> => {
+  const shopId = activeShopId;
+  if (!shopId) throw new Error('Select a shop first.');
+  if (!supabase) throw new Error('Managing DAN keys requires Supabase.');
+  await danKeysRequest(`/${encodeURIComponent(fingerprint)}/revoke`, {
+    method: 'POST',
+    body: JSON.stringify({ shopId, reason: reason?.trim() || null }),
+  });
+  shopKeyCache.delete(shopId);
+
+  const own = getStoredKeyForShop(shopId);
+  if (own?.fingerprint === fingerprint) {
+    persistKeyForShop(shopId, { ...own, status: 'revoked' });
   }
 };
 
+export const setDanDeviceLabel = async (label: string): Promise<void> => {
+  const shopId = activeShopId;
+  const key = shopId ? getStoredKeyForShop(shopId) : null;
+  if (!supabase || !shopId || !key) return;
+  await danKeysRequest(`/${encodeURIComponent(key.fingerprint)}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ shopId, deviceLabel: label.trim() || null }),
+  });
+  shopKeyCache.delete(shopId);
+};
+
+const appendSignatureLog = (entry: DanSignatureLogEntry) => {
+  const log = tryReadJson<DanSignatureLogEntry[]>(SIGNATURE_LOG_KEY, []);
+  log.push(entry);
+  tryWriteJson(SIGNATURE_LOG_KEY, log.slice(-MAX_SIGNATURE_LOG_ENTRIES));
+};
+
 export const resolveShareScope = (
   scopes?: DanShareScope[],
 ): DanShareScope[] => {
@@ -236,27 +534,28 @@ export const getDanContext = async (): Promise<DanContext> => {
       shopId,
       namespace,
       capabilityScope: ['local'],
-      reason: 'missing-supabase',
+      reason: 'missing-crypto',
     };
   }
+  const shopKeys = await fetchShopKeys(shopId).catch(() => [] as DanDeviceKey[]);
+  const keyStatus = key.status || null;
+  const canSign = keyStatus !== 'pending' && keyStatus !== 'revoked';
   return {
-    enabled: true,
+    enabled: canSign,
     shopId,
     namespace,
     publicKey: key.publicKey,
     fingerprint: key.fingerprint,
-    capabilityScope: ['local', 'dan'],
+    capabilityScope: canSign ? ['local', 'dan'] : ['local'],
     lastRegisteredAt: key.lastRegisteredAt || key.derivedAt,
-    reason: 'ok',
+    deviceId: key.deviceId,
+    keyStatus,
+    shopKeys,
+    recentSignatures: tryReadJson<DanSignatureLogEntry[]>(SIGNATURE_LOG_KEY, []).slice().reverse(),
+    reason: keyStatus === 'pending' ? 'pending-approval' : keyStatus === 'revoked' ? 'key-revoked' : 'ok',
   };
 };
 
-const bufferEventLocally = (event: DanEventRecord) => {
-  const buffered = tryReadJson<DanEventRecord[]>(EVENT_BUFFER_KEY, []);
-  buffered.push(event);
-  tryWriteJson(EVENT_BUFFER_KEY, buffered);
-};
-
 export const publishDanEvent = async (
   input: DanEventInput,
 ): Promise<DanEventRecord | null> => {
@@ -266,13 +565,17 @@ export const publishDanEvent = async (
 
   const key = await ensureKeyPair();
   if (!key) return null;
+  // Unknown status (never reached Supabase) still signs; peers verify on receipt
+  if (key.status === 'pending' || key.status === 'revoked') {
+    console.warn(`[DAN] Not publishing ${input.eventType}: this device's key is ${key.status}.`);
+    return null;
+  }
 
   const shareScope = resolveShareScope(input.shareScope);
   const payloadClone = JSON.parse(JSON.stringify(input.payload || {}));
   const baseHash = await hashDanPayload(payloadClone);
-  const signature = await sha256(`${key.privateKey}:${baseHash}`);
 
-  const record: DanEventRecord = {
+  const unsigned = {
     eventId: uuidv4(),
     eventType: input.eventType,
     shopId,
@@ -284,51 +587,140 @@ export const publishDanEvent = async (
       ...(input.proofs || {}),
       hash: baseHash,
     },
+    actor: { publicKey: key.publicKey },
+    createdAt: new Date().toISOString(),
+  };
+  const record: DanEventRecord = {
+    ...unsigned,
     actor: {
       publicKey: key.publicKey,
       fingerprint: key.fingerprint,
-      signature,
+      signature: await signMessage(key, serializeDanEventForSigning(unsigned)),
     },
-    createdAt: new Date().toISOString(),
   };
+  appendSignatureLog({
+    eventId: record.eventId,
+    eventType: record.eventType,
+    fingerprint: key.fingerprint,
+    createdAt: record.createdAt,
+  });
 
-  await flushBufferedEvents();
+  flushDanOutbox();
 
   if (!supabase) {
-    bufferEventLocally(record);
+    await enqueueDanEvent(record);
     return record;
   }
 
   try {
-    const { error } = await supabase.from('dan_events').insert({
-      event_id: record.eventId,
-      shop_id: record.shopId,
-      namespace: record.namespace,
-      event_type: record.eventType,
-      payload: record.payload,
-      share_scope: record.shareScope,
-      vector_context: record.vectorContext,
-      proofs: record.proofs,
-      actor_public_key: record.actor.publicKey,
-      actor_fingerprint: record.actor.fingerprint,
-      actor_signature: record.actor.signature,
-      created_at: record.createdAt,
-    });
-    if (error) {
-      console.warn('[DAN] Failed to send event to Supabase, buffering', error);
-      bufferEventLocally(record);
-    }
-  } catch (err) {
-    console.warn('[DAN] Error publishing event, buffering instead', err);
-    bufferEventLocally(record);
+    await sendDanEvent(record);
+  } catch (err: any) {
+    console.warn('[DAN] Failed to send event to Supabase, queueing in the outbox', err);
+    await enqueueDanEvent(record, err?.message || String(err));
   }
 
   return record;
 };
 
+const checkKeyTrust = async (
+  key: DanDeviceKey,
+  shopKeys: DanDeviceKey[],
+  eventCreatedAt: string,
+): Promise<DanVerificationFailure | null> => {
+  if (key.status === 'revoked') return 'key-revoked';
+  if (key.status === 'pending') return 'key-pending';
+  if (
+    key.status === 'retiring' &&
+    key.expiresAt &&
+    new Date(eventCreatedAt).getTime() > new Date(key.expiresAt).getTime()
+  ) {
+    return 'key-expired';
+  }
+  if (!key.approvedByFingerprint) {
+    // The server activates one unapproved key per shop, the first an owner or
+    // manager enrolled. More than one means the registry was tampered with,
+    // so none of them is trusted.
+    const bootstrapKeys = shopKeys.filter(
+      entry => !entry.approvedByFingerprint && isSigningStatus(entry.status),
+    );
+    return bootstrapKeys.length === 1 && bootstrapKeys[0].fingerprint === key.fingerprint
+      ? null
+      : 'key-unapproved';
+  }
+  const approver = shopKeys.find(entry => entry.fingerprint === key.approvedByFingerprint);
+  if (!approver?.algorithm || approver.status === 'revoked' || !key.approvalSignature) {
+    return 'key-unapproved';
+  }
+  const approved = await verifyMessage(
+    approver.algorithm,
+    approver.publicKey,
+    key.approvalSignature,
+    serializeKeyApproval(key.shopId, key.publicKey, key.fingerprint),
+  );
+  return approved ? null : 'key-unapproved';
+};
+
+/**
+ * Check an event against the shop's key registry: the signing key must be
+ * registered, approved, not revoked and (when rotated out) not expired; then
+ * the payload hash and the signature itself.
+ */
+export const verifyDanEvent = async (
+  record: DanEventRecord,
+): Promise<DanVerificationResult> => {
+  const fail = (reason: DanVerificationFailure): DanVerificationResult => ({ valid: false, reason });
+  if (!getSubtleCrypto()) return fail('crypto-unavailable');
+  if (!record.actor?.publicKey || !record.actor.signature) return fail('unsigned');
+
+  const findKey = (keys: DanDeviceKey[]) =>
+    keys.find(entry => entry.publicKey === record.actor.publicKey) || null;
+  let shopKeys = await fetchShopKeys(record.shopId);
+  let signingKey = findKey(shopKeys);
+  if (!signingKey || signingKey.status === 'pending') {
+    // The key may have been registered or approved since the list was cached
+    shopKeys = await fetchShopKeys(record.shopId, true);
+    signingKey = findKey(shopKeys);
+  }
+  if (!signingKey) return fail('unknown-key');
+  if (signingKey.fingerprint !== record.actor.fingerprint) return fail('key-mismatch');
+  if (!signingKey.algorithm || !SIGNING_PARAMS[signingKey.algorithm]) {
+    return fail('unsupported-algorithm');
+  }
+  const trustFailure = await checkKeyTrust(signingKey, shopKeys, record.createdAt);
+  if (trustFailure) return fail(trustFailure);
+  if (record.proofs?.hash && record.proofs.hash !== (await hashDanPayload(record.payload))) {
+    return fail('payload-hash-mismatch');
+  }
+
+  const valid = await verifyMessage(
+    signingKey.algorithm,
+    signingKey.publicKey,
+    record.actor.signature,
+    serializeDanEventForSigning(record),
+  );
+  return valid ? { valid: true } : fail('bad-signature');
+};
+
+const quarantineEvent = (event: DanEventRecord, reason: DanVerificationFailure) => {
+  const quarantined = tryReadJson<QuarantinedDanEvent[]>(QUARANTINE_KEY, []);
+  quarantined.push({ event, reason, quarantinedAt: new Date().toISOString() });
+  tryWriteJson(QUARANTINE_KEY, quarantined.slice(-MAX_QUARANTINED_EVENTS));
+};
+
+export const getQuarantinedDanEvents = (): QuarantinedDanEvent[] =>
+  tryReadJson<QuarantinedDanEvent[]>(QUARANTINE_KEY, []);
+
+export const clearQuarantinedDanEvents = () => tryWriteJson(QUARANTINE_KEY, []);
+
 export type DanRealtimeHandler = (event: DanEventRecord) => void;
+export type DanKeyChangeHandler = (key: DanDeviceKey) => void;
 
-export const subscribeToDanEvents = (handler: DanRealtimeHandler) => {
+// Only events that verify reach the handler; the rest are quarantined locally.
+// Key registry changes clear the cached key list so revocations apply at once.
+export const subscribeToDanEvents = (
+  handler: DanRealtimeHandler,
+  onKeyChange?: DanKeyChangeHandler,
+) => {
   if (!supabase || !ENABLE_DAN_EXPERIMENT) {
     console.warn('[DAN] Realtime not available. Supabase client missing or DAN disabled.');
     return () => {};
@@ -338,7 +730,7 @@ export const subscribeToDanEvents = (handler: DanRealtimeHandler) => {
     .on(
       'postgres_changes',
       { event: 'INSERT', schema: 'public', table: 'dan_events' },
-      (payload) => {
+      async (payload) => {
         const row = payload.new as any;
         const record: DanEventRecord = {
           eventId: row.event_id,
@@ -356,12 +748,37 @@ export const subscribeToDanEvents = (handler: DanRealtimeHandler) => {
           },
           createdAt: row.created_at,
         };
+        let verification: DanVerificationResult;
+        try {
+          verification = await verifyDanEvent(record);
+        } catch (err) {
+          console.warn('[DAN] Could not look up signing key, quarantining event', err);
+          verification = { valid: false, reason: 'unknown-key' };
+        }
+        if (!verification.valid) {
+          console.warn(`[DAN] Quarantined event ${record.eventId} from ${record.shopId}: ${verification.reason}`);
+          quarantineEvent(record, verification.reason);
+          return;
+        }
         handler(record);
       },
     )
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'dan_keys' },
+      (payload) => {
+        const updated = payload.new as any;
+        const shopId = updated?.shop_id || (payload.old as any)?.shop_id;
+        if (!shopId) return;
+        shopKeyCache.delete(shopId);
+        if (updated?.fingerprint) {
+          onKeyChange?.(mapKeyRow(updated));
+        }
+      },
+    )
     .subscribe((status) => {
       if (status === 'SUBSCRIBED') {
-        flushBufferedEvents();
+        flushDanOutbox();
       }
     });
 
@@ -0,0 +1,80 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('./supabaseClient', () => ({ default: null }));
+vi.mock('./danRegistry', () => ({ verifyDanEvent: vi.fn() }));
+
+import { computeShopReputations, findOpenReservations } from './danReputation';
+import type { DanEventRecord, DanEventType } from '../types';
+
+const NOW = new Date('2026-06-10T00:00:00.000Z');
+const hoursAgo = (hours: number) => new Date(NOW.getTime() - hours * 60 * 60 * 1000).toISOString();
+
+const event = (eventId: string, eventType: DanEventType, shopId: string, payload: Record<string, any>, createdAt: string) => ({
+  eventId,
+  eventType,
+  shopId,
+  namespace: null,
+  payload,
+  shareScope: ['dan'],
+  actor: { publicKey: '', fingerprint: '', signature: '' },
+  createdAt,
+}) as DanEventRecord;
+
+const offer = event('offer', 'inventory.offer.created', 'seller', { inventoryUuid: 'lot-1' }, hoursAgo(200));
+const reserve = (eventId: string, shopId: string, quantity: number, at: number) =>
+  event(eventId, 'inventory.offer.reserved', shopId, { inventoryUuid: 'lot-1', productName: 'Milk', reservedQuantity: quantity, sellerShopId: 'seller' }, hoursAgo(at));
+const fulfil = (eventId: string, quantity: number, at: number, reservationEventId?: string) =>
+  event(eventId, 'inventory.offer.fulfilled', 'seller', { inventoryUuid: 'lot-1', fulfilledQuantity: quantity, reservationEventId }, hoursAgo(at));
+
+describe('computeShopReputations', () => {
+  it('fills only the reservation a fulfillment names', () => {
+    const reputations = computeShopReputations([
+      offer,
+      reserve('r-1', 'buyer-a', 5, 150),
+      reserve('r-2', 'buyer-b', 5, 150),
+      fulfil('f-1', 5, 130, 'r-2'),
+    ], NOW);
+
+    expect(reputations.seller).toMatchObject({ fillRate: 0.5, onTimeRate: 0.5, reservations: 2 });
+  });
+
+  it('does not count local sales as filling peer reservations', () => {
+    const reputations = computeShopReputations([
+      offer,
+      reserve('r-1', 'buyer-a', 5, 150),
+      reserve('r-2', 'buyer-b', 5, 140),
+      fulfil('sale-1', 10, 130),
+    ], NOW);
+
+    expect(reputations.seller).toMatchObject({ fillRate: 0, onTimeRate: 0, cancellationRate: 1 });
+  });
+
+  it('ignores fulfillments naming the seller\'s own or an unknown reservation', () => {
+    const reputations = computeShopReputations([
+      offer,
+      reserve('r-own', 'seller', 5, 150),
+      reserve('r-1', 'buyer-a', 5, 150),
+      fulfil('f-1', 5, 130, 'r-own'),
+      fulfil('f-2', 5, 130, 'unknown'),
+    ], NOW);
+
+    expect(reputations.seller).toMatchObject({ fillRate: 0, reservations: 1 });
+  });
+});
+
+describe('findOpenReservations', () => {
+  it('lists peers\' reservations until fulfillments cover them', () => {
+    const open = findOpenReservations([
+      offer,
+      reserve('r-1', 'buyer-a', 5, 10),
+      reserve('r-2', 'buyer-b', 3, 5),
+      fulfil('f-1', 2, 4, 'r-1'),
+      fulfil('f-2', 3, 3, 'r-2'),
+      fulfil('sale-1', 4, 2),
+    ], 'seller');
+
+    expect(open).toEqual([
+      expect.objectContaining({ reservationEventId: 'r-1', reservedBy: 'buyer-a', reservedQuantity: 5, fulfilledQuantity: 2 }),
+    ]);
+  });
+});
@@ -0,0 +1,310 @@
+import supabase from './supabaseClient';
+import { verifyDanEvent } from './danRegistry';
+import type { DanEventRecord, DanEventType, DanOpenReservation, DanReputationTier, DanShopReputation } from '../types';
+
+/**
+ * Reputation of DAN peers, computed from the verified offer lifecycle in
+ * dan_events. Reservations (inventory.offer.reserved, sent by the buyer) are
+ * filled by the seller's inventory.offer.fulfilled events that name them in
+ * `reservationEventId`; fulfillments without one (local sales) only move the
+ * offer's quantity. batch.receipt.attested events from the buyer confirm the
+ * quantity that arrived. Every observation is weighted by age with a
+ * half-life, so a shop can recover from a bad month.
+ */
+
+const REPUTATION_EVENT_TYPES: DanEventType[] = [
+  'inventory.offer.created',
+  'inventory.offer.reserved',
+  'inventory.offer.fulfilled',
+  'batch.receipt.attested',
+];
+const HISTORY_DAYS = 180;
+const HALF_LIFE_DAYS = 30;
+// A reservation still unfilled after this long counts as cancelled
+export const FULFILLMENT_WINDOW_HOURS = 48;
+// Below this many settled reservations a shop is 'new'
+const MIN_SETTLED_RESERVATIONS = 2;
+const CACHE_TTL_MS = 5 * 60 * 1000;
+const EVENT_PAGE_SIZE = 500;
+const MAX_EVENTS = 10000;
+
+const METRIC_WEIGHTS = { fillRate: 0.35, onTimeRate: 0.25, cancellationRate: 0.2, quantityAccuracy: 0.2 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface Reservation {
+  eventId: string;
+  reservedBy: string;
+  quantity: number;
+  at: number;
+  fulfilled: number;
+  fulfilledAt: number | null;
+}
+
+interface TrackedOffer {
+  shopId: string;
+  reservations: Reservation[];
+}
+
+// Decayed weights, plus raw counts for the tier and display
+interface ShopTotals {
+  offerCount: number;
+  settled: number;
+  settledCount: number;
+  filled: number;
+  onTime: number;
+  cancelled: number;
+  attestations: number;
+  attestationCount: number;
+  accuracy: number;
+}
+
+const toTime = (value: string) => new Date(value).getTime();
+
+const emptyTotals = (): ShopTotals => ({
+  offerCount: 0,
+  settled: 0,
+  settledCount: 0,
+  filled: 0,
+  onTime: 0,
+  cancelled: 0,
+  attestations: 0,
+  attestationCount: 0,
+  accuracy: 0,
+});
+
+export const emptyReputation = (shopId: string, computedAt = new Date().toISOString()): DanShopReputation => ({
+  shopId,
+  score: null,
+  tier: 'new',
+  fillRate: null,
+  onTimeRate: null,
+  cancellationRate: null,
+  quantityAccuracy: null,
+  offers: 0,
+  reservations: 0,
+  attestations: 0,
+  computedAt,
+});
+
+const resolveTier = (score: number | null, settled: number): DanReputationTier => {
+  if (score === null || settled < MIN_SETTLED_RESERVATIONS) return 'new';
+  if (score >= 80) return 'trusted';
+  if (score >= 60) return 'fair';
+  return 'poor';
+};
+
+const round = (value: number, digits = 3) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Score every shop that offered inventory in `events` (already verified).
+ * Only the seller's fulfillments and other shops' reservations and
+ * attestations count, so a shop cannot vouch for itself.
+ */
+export const computeShopReputations = (
+  events: DanEventRecord[],
+  now: Date = new Date(),
+): Record<string, DanShopReputation> => {
+  const nowTime = now.getTime();
+  const windowMs = FULFILLMENT_WINDOW_HOURS * 60 * 60 * 1000;
+  const decay = (time: number) => 0.5 ** (Math.max(0, nowTime - time) / DAY_MS / HALF_LIFE_DAYS);
+  const offers = new Map<string, TrackedOffer>();
+  const totals = new Map<string, ShopTotals>();
+  const totalsFor = (shopId: string) => {
+    if (!totals.has(shopId)) totals.set(shopId, emptyTotals());
+    return totals.get(shopId)!;
+  };
+
+  [...events].sort((a, b) => toTime(a.createdAt) - toTime(b.createdAt)).forEach(event => {
+    const payload = event.payload || {};
+    const time = toTime(event.createdAt);
+    const offer = payload.inventoryUuid ? offers.get(payload.inventoryUuid) : undefined;
+    switch (event.eventType) {
+      case 'inventory.offer.created':
+        if (!payload.inventoryUuid || offer) break;
+        offers.set(payload.inventoryUuid, { shopId: event.shopId, reservations: [] });
+        totalsFor(event.shopId).offerCount += 1;
+        break;
+      case 'inventory.offer.reserved': {
+        const quantity = Number(payload.reservedQuantity) || 0;
+        if (!offer || event.shopId === offer.shopId || quantity <= 0) break;
+        offer.reservations.push({ eventId: event.eventId, reservedBy: event.shopId, quantity, at: time, fulfilled: 0, fulfilledAt: null });
+        break;
+      }
+      case 'inventory.offer.fulfilled': {
+        if (!offer || event.shopId !== offer.shopId || !payload.reservationEventId) break;
+        const reservation = offer.reservations.find(entry => entry.eventId === payload.reservationEventId);
+        const quantity = Number(payload.fulfilledQuantity) || 0;
+        if (!reservation || quantity <= 0 || reservation.fulfilled >= reservation.quantity) break;
+        reservation.fulfilled = Math.min(reservation.quantity, reservation.fulfilled + quantity);
+        if (reservation.fulfilled >= reservation.quantity) reservation.fulfilledAt = time;
+        break;
+      }
+      case 'batch.receipt.attested': {
+        if (!offer || event.shopId === offer.shopId) break;
+        const expected = offer.reservations
+          .filter(reservation => reservation.reservedBy === event.shopId)
+          .reduce((sum, reservation) => sum + reservation.fulfilled, 0);
+        const received = Number(payload.receivedQuantity ?? payload.quantity);
+        const accuracy = expected > 0 && Number.isFinite(received)
+          ? 1 - Math.min(1, Math.abs(received - expected) / expected)
+          : 1;
+        const weight = decay(time);
+        const shop = totalsFor(offer.shopId);
+        shop.attestations += weight;
+        shop.attestationCount += 1;
+        shop.accuracy += accuracy * weight;
+        break;
+      }
+      default:
+        break;
+    }
+  });
+
+  offers.forEach(offer => {
+    const shop = totalsFor(offer.shopId);
+    offer.reservations.forEach(reservation => {
+      const complete = reservation.fulfilled >= reservation.quantity;
+      // Open reservations still inside the window are not judged yet
+      if (!complete && nowTime - reservation.at < windowMs) return;
+      const weight = decay(reservation.at);
+      shop.settled += weight;
+      shop.settledCount += 1;
+      shop.filled += (Math.min(reservation.fulfilled, reservation.quantity) / reservation.quantity) * weight;
+      if (reservation.fulfilledAt !== null && reservation.fulfilledAt - reservation.at <= windowMs) shop.onTime += weight;
+      if (reservation.fulfilled === 0) shop.cancelled += weight;
+    });
+  });
+
+  const computedAt = now.toISOString();
+  const result: Record<string, DanShopReputation> = {};
+  totals.forEach((shop, shopId) => {
+    const metrics = {
+      fillRate: shop.settled ? shop.filled / shop.settled : null,
+      onTimeRate: shop.settled ? shop.onTime / shop.settled : null,
+      cancellationRate: shop.settled ? shop.cancelled / shop.settled : null,
+      quantityAccuracy: shop.attestations ? shop.accuracy / shop.attestations : null,
+    };
+    // Cancellations count against the score; missing metrics are left out of the mean
+    let weighted = 0;
+    let weightSum = 0;
+    (Object.keys(METRIC_WEIGHTS) as (keyof typeof METRIC_WEIGHTS)[]).forEach(metric => {
+      const value = metrics[metric];
+      if (value === null) return;
+      weighted += (metric === 'cancellationRate' ? 1 - value : value) * METRIC_WEIGHTS[metric];
+      weightSum += METRIC_WEIGHTS[metric];
+    });
+    const score = shop.settled ? Math.round((weighted / weightSum) * 100) : null;
+    result[shopId] = {
+      shopId,
+      score,
+      tier: resolveTier(score, shop.settledCount),
+      fillRate: metrics.fillRate === null ? null : round(metrics.fillRate),
+      onTimeRate: metrics.onTimeRate === null ? null : round(metrics.onTimeRate),
+      cancellationRate: metrics.cancellationRate === null ? null : round(metrics.cancellationRate),
+      quantityAccuracy: metrics.quantityAccuracy === null ? null : round(metrics.quantityAccuracy),
+      offers: shop.offerCount,
+      reservations: shop.settledCount,
+      attestations: shop.attestationCount,
+      computedAt,
+    };
+  });
+  return result;
+};
+
+const mapEventRow = (row: any): DanEventRecord => ({
+  eventId: row.event_id,
+  eventType: row.event_type,
+  shopId: row.shop_id,
+  namespace: row.namespace,
+  payload: row.payload,
+  shareScope: row.share_scope || ['local'],
+  vectorContext: row.vector_context || null,
+  proofs: row.proofs,
+  actor: {
+    publicKey: row.actor_public_key,
+    fingerprint: row.actor_fingerprint,
+    signature: row.actor_signature,
+  },
+  createdAt: row.created_at,
+});
+
+/**
+ * Other shops' reservations on `sellerShopId`'s offers that its fulfillments
+ * have not covered yet, oldest first.
+ */
+export const findOpenReservations = (events: DanEventRecord[], sellerShopId: string): DanOpenReservation[] => {
+  const reservations = new Map<string, DanOpenReservation>();
+  [...events].sort((a, b) => toTime(a.createdAt) - toTime(b.createdAt)).forEach(event => {
+    const payload = event.payload || {};
+    if (event.eventType === 'inventory.offer.reserved') {
+      const quantity = Number(payload.reservedQuantity) || 0;
+      if (payload.sellerShopId !== sellerShopId || event.shopId === sellerShopId || quantity <= 0) return;
+      reservations.set(event.eventId, {
+        reservationEventId: event.eventId,
+        inventoryUuid: payload.inventoryUuid,
+        productName: payload.productName || '',
+        reservedBy: event.shopId,
+        reservedQuantity: quantity,
+        fulfilledQuantity: 0,
+        reservedAt: event.createdAt,
+      });
+    } else if (event.eventType === 'inventory.offer.fulfilled' && event.shopId === sellerShopId) {
+      const reservation = reservations.get(payload.reservationEventId);
+      if (reservation) reservation.fulfilledQuantity += Number(payload.fulfilledQuantity) || 0;
+    }
+  });
+  return [...reservations.values()].filter(reservation => reservation.fulfilledQuantity < reservation.reservedQuantity);
+};
+
+let reputationCache: { events: DanEventRecord[]; reputations: Record<string, DanShopReputation>; fetchedAt: number } | null = null;
+
+const loadReputationEvents = async (): Promise<DanEventRecord[]> => {
+  if (!supabase) return [];
+  const since = new Date(Date.now() - HISTORY_DAYS * DAY_MS).toISOString();
+  const events: DanEventRecord[] = [];
+  for (let offset = 0; offset < MAX_EVENTS; offset += EVENT_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('dan_events')
+      .select('*')
+      .in('event_type', REPUTATION_EVENT_TYPES)
+      .gte('created_at', since)
+      .order('created_at', { ascending: true })
+      .range(offset, offset + EVENT_PAGE_SIZE - 1);
+    if (error) throw error;
+    events.push(...(data || []).map(mapEventRow));
+    if (!data || data.length < EVENT_PAGE_SIZE) break;
+  }
+  return events;
+};
+
+// Verified reputation events and the scores computed from them, cached for CACHE_TTL_MS
+const loadReputationCache = async (forceRefresh: boolean) => {
+  if (forceRefresh || !reputationCache || Date.now() - reputationCache.fetchedAt > CACHE_TTL_MS) {
+    const verified: DanEventRecord[] = [];
+    for (const event of await loadReputationEvents()) {
+      const { valid } = await verifyDanEvent(event).catch(() => ({ valid: false }));
+      if (valid) verified.push(event);
+    }
+    reputationCache = { events: verified, reputations: computeShopReputations(verified), fetchedAt: Date.now() };
+  }
+  return reputationCache;
+};
+
+/**
+ * Reputation for each requested shop; shops with no history come back as
+ * 'new'. Events that fail verification are ignored.
+ */
+export const getShopReputations = async (
+  shopIds: string[],
+  forceRefresh = false,
+): Promise<Record<string, DanShopReputation>> => {
+  const { reputations } = await loadReputationCache(forceRefresh);
+  return Object.fromEntries(shopIds.map(shopId => [shopId, reputations[shopId] || emptyReputation(shopId)]));
+};
+
+// Reservations the shop still has to fulfil; they count as cancelled once FULFILLMENT_WINDOW_HOURS pass
+export const getOpenDanReservations = async (shopId: string, forceRefresh = false): Promise<DanOpenReservation[]> => {
+  const { events } = await loadReputationCache(forceRefresh);
+  return findOpenReservations(events, shopId);
+};
@@ -0,0 +1,146 @@
+import type {
+  DanEventType,
+  PolicyActionType,
+  PolicyConditionOperator,
+  PolicyScope,
+} from '../types';
+
+/**
+ * Vocabulary for the Policy Center editor: the payload fields each DAN event
+ * type carries (matching what vectorDBService and the policy worker publish),
+ * the operators that make sense for each kind of field and the action types.
+ * Sample values seed the "test against sample event" form.
+ */
+
+export type PolicyFieldKind = 'string' | 'number' | 'date' | 'list';
+
+export interface PolicyEventField {
+  path: string;
+  label: string;
+  kind: PolicyFieldKind;
+  sample: unknown;
+}
+
+const daysFromNow = (days: number) =>
+  new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+const INVENTORY_FIELDS: PolicyEventField[] = [
+  { path: 'inventoryUuid', label: 'Inventory item', kind: 'string', sample: '00000000-0000-4000-8000-000000000000' },
+  { path: 'productId', label: 'Product ID', kind: 'string', sample: 'sample-product' },
+  { path: 'productName', label: 'Product name', kind: 'string', sample: 'Whole Milk 1L' },
+  { path: 'batchId', label: 'Batch ID', kind: 'string', sample: 'sample-batch' },
+  { path: 'shareScope', label: 'Share scope', kind: 'list', sample: ['local', 'dan'] },
+];
+
+export const POLICY_EVENT_FIELDS: Record<DanEventType, PolicyEventField[]> = {
+  'inventory.offer.created': [
+    ...INVENTORY_FIELDS,
+    { path: 'quantity', label: 'Quantity', kind: 'number', sample: 8 },
+    { path: 'expirationDate', label: 'Expiration date', kind: 'date', sample: daysFromNow(5) },
+    { path: 'locationBucket', label: 'Location (aisle)', kind: 'string', sample: 'Aisle 3' },
+    { path: 'sellPrice', label: 'Sell price', kind: 'number', sample: 1.99 },
+    { path: 'supplierId', label: 'Supplier ID', kind: 'string', sample: 'sample-supplier' },
+    { path: 'supplierName', label: 'Supplier name', kind: 'string', sample: 'Local Dairy' },
+    // Only set when a reject_offer policy screens a peer's offer (danReputation.ts)
+    { path: 'shopId', label: 'Seller shop', kind: 'string', sample: 'peer-shop' },
+    { path: 'sellerReputation.score', label: 'Seller reputation score', kind: 'number', sample: 72 },
+    { path: 'sellerReputation.tier', label: 'Seller reputation tier', kind: 'string', sample: 'fair' },
+    { path: 'sellerReputation.fillRate', label: 'Seller fill rate', kind: 'number', sample: 0.9 },
+    { path: 'sellerReputation.onTimeRate', label: 'Seller on-time rate', kind: 'number', sample: 0.8 },
+    { path: 'sellerReputation.cancellationRate', label: 'Seller cancellation rate', kind: 'number', sample: 0.1 },
+    { path: 'sellerReputation.quantityAccuracy', label: 'Seller quantity accuracy', kind: 'number', sample: 0.95 },
+  ],
+  'inventory.offer.reserved': [
+    ...INVENTORY_FIELDS,
+    { path: 'reservedQuantity', label: 'Reserved quantity', kind: 'number', sample: 2 },
+    { path: 'reservedBy', label: 'Reserved by (shop)', kind: 'string', sample: 'peer-shop' },
+    { path: 'sellerShopId', label: 'Seller shop', kind: 'string', sample: 'sample-shop' },
+  ],
+  'inventory.offer.fulfilled': [
+    ...INVENTORY_FIELDS,
+    { path: 'fulfilledQuantity', label: 'Fulfilled quantity', kind: 'number', sample: 3 },
+    { path: 'remainingQuantity', label: 'Remaining quantity', kind: 'number', sample: 5 },
+    { path: 'saleTimestamp', label: 'Sale time', kind: 'date', sample: new Date().toISOString() },
+    { path: 'reservationEventId', label: 'Reservation event (peer fulfillments)', kind: 'string', sample: 'sample-reservation' },
+  ],
+  'batch.receipt.attested': [
+    { path: 'batchId', label: 'Batch ID', kind: 'string', sample: 'sample-batch' },
+    { path: 'supplierId', label: 'Supplier ID', kind: 'string', sample: 'sample-supplier' },
+    { path: 'deliveryDate', label: 'Delivery date', kind: 'date', sample: daysFromNow(0) },
+    { path: 'invoiceHash', label: 'Invoice hash', kind: 'string', sample: 'sha256:sample' },
+    { path: 'ocrChecksum', label: 'OCR checksum', kind: 'string', sample: 'sha256:sample' },
+  ],
+  'delivery.capacity.updated': [
+    { path: 'driverId', label: 'Driver ID', kind: 'string', sample: 'sample-driver' },
+    { path: 'capacity', label: 'Capacity', kind: 'number', sample: 12 },
+    { path: 'geoHash', label: 'Area (geohash)', kind: 'string', sample: 'u33db' },
+    { path: 'specialties', label: 'Specialties', kind: 'list', sample: ['chilled'] },
+  ],
+  'policy.trigger.executed': [
+    { path: 'policyId', label: 'Policy ID', kind: 'string', sample: 'sample-policy' },
+    { path: 'policyName', label: 'Policy name', kind: 'string', sample: 'Auto-flag low inventory offers' },
+    { path: 'scope', label: 'Policy scope', kind: 'string', sample: 'inventory' },
+    { path: 'trigger', label: 'Trigger', kind: 'string', sample: 'policy.auto-alert' },
+    { path: 'eventPayload.productId', label: 'Source product ID', kind: 'string', sample: 'sample-product' },
+    { path: 'eventPayload.quantity', label: 'Source quantity', kind: 'number', sample: 8 },
+  ],
+};
+
+export const DAN_EVENT_TYPES = Object.keys(POLICY_EVENT_FIELDS) as DanEventType[];
+
+export const POLICY_SCOPES: PolicyScope[] = ['inventory', 'marketplace', 'delivery', 'policy'];
+
+export const OPERATOR_LABELS: Record<PolicyConditionOperator, string> = {
+  eq: 'equals',
+  neq: 'does not equal',
+  gt: 'greater than',
+  gte: 'at least',
+  lt: 'less than',
+  lte: 'at most',
+  includes: 'includes',
+  contains: 'contains text',
+  withinDays: 'within the next days',
+  olderThan: 'older than days',
+};
+
+export const OPERATORS_BY_KIND: Record<PolicyFieldKind, PolicyConditionOperator[]> = {
+  string: ['eq', 'neq', 'contains'],
+  number: ['eq', 'neq', 'gt', 'gte', 'lt', 'lte'],
+  date: ['withinDays', 'olderThan', 'eq', 'neq'],
+  list: ['includes'],
+};
+
+export const ACTION_LABELS: Record<PolicyActionType, string> = {
+  notify: 'Notify shop staff',
+  create_dan_event: 'Publish DAN event',
+  tag_inventory: 'Tag inventory',
+  call_webhook: 'Call webhook',
+  reject_offer: 'Hide peer offer',
+};
+
+// Default parameters when an action is added in the editor
+export const ACTION_DEFAULT_PARAMS: Record<PolicyActionType, Record<string, any>> = {
+  notify: { message: '', channels: ['in_app', 'email'] },
+  create_dan_event: { trigger: 'policy.action' },
+  tag_inventory: { tags: [], target: 'item' },
+  call_webhook: { endpointId: '' },
+  reject_offer: {},
+};
+
+export const getPolicyEventField = (eventType: DanEventType, path: string): PolicyEventField | undefined =>
+  POLICY_EVENT_FIELDS[eventType]?.find(field => field.path === path);
+
+// Payload with every catalogued field filled with its sample value
+export const buildSamplePayload = (eventType: DanEventType): Record<string, any> => {
+  const payload: Record<string, any> = {};
+  (POLICY_EVENT_FIELDS[eventType] || []).forEach(field => {
+    const keys = field.path.split('.');
+    let target = payload;
+    keys.slice(0, -1).forEach(key => {
+      target[key] = target[key] || {};
+      target = target[key];
+    });
+    target[keys[keys.length - 1]] = field.sample;
+  });
+  return payload;
+};
@@ -1,16 +1,38 @@
 import { v4 as uuidv4 } from 'uuid';
+import supabase from './supabaseClient';
 import { activeShopId, activeShopName } from './qdrant/core';
 import { publishDanEvent } from './danRegistry';
+import { createNotifications } from './qdrant/services/notifications';
+import { tagStockItems } from './qdrant/services/inventory';
+import { getWebhookDeliveries, queueWebhookDelivery } from './webhooks';
+import { fetchWithSession } from './authSession';
+import { DAN_POLICY_EXECUTION } from '../config';
+import {
+  evaluateCondition,
+  evaluatePolicyConditions,
+  getPolicyHistoryWindow,
+  isOfferFilterPolicy,
+  replayPolicy,
+  resolveDedupKey,
+  validatePolicy,
+} from './policyRules';
 import type {
   DanEventType,
+  DanInventoryOffer,
+  DanShopReputation,
   PolicyActionDefinition,
-  PolicyConditionRule,
   PolicyDescriptor,
+  PolicyDryRunReport,
+  PolicyEventSample,
   PolicyRunLog,
+  PolicyTestResult,
+  PolicyVersion,
 } from '../types';
 
 const POLICY_STORAGE_KEY = 'dan:policies:v1';
 const POLICY_RUN_STORAGE_KEY = 'dan:policy-runs:v1';
+const POLICY_VERSION_STORAGE_KEY = 'dan:policy-versions:v1';
+const MAX_LOCAL_POLICY_VERSIONS = 20;
 
 const getLocalStorage = (): Storage | null => {
   if (typeof window !== 'undefined' && window.localStorage) {
@@ -56,12 +78,161 @@ const getPolicyRunsMap = (): Record<string, PolicyRunLog[]> =>
 const savePolicyRunsMap = (map: Record<string, PolicyRunLog[]>) =>
   writeJson(POLICY_RUN_STORAGE_KEY, map);
 
+const getPolicyVersionsMap = (): Record<string, PolicyVersion[]> =>
+  readJson<Record<string, PolicyVersion[]>>(POLICY_VERSION_STORAGE_KEY, {});
+
+const savePolicyVersionsMap = (map: Record<string, PolicyVersion[]>) =>
+  writeJson(POLICY_VERSION_STORAGE_KEY, map);
+
+const mapPolicyRow = (row: any): PolicyDescriptor => ({
+  id: row.id,
+  shopId: row.shop_id,
+  name: row.name,
+  description: row.description || undefined,
+  eventType: row.event_type,
+  scope: row.scope,
+  version: row.version,
+  enabled: row.enabled,
+  conditions: row.config?.conditions || [],
+  actions: row.config?.actions || [],
+  cooldown: row.config?.cooldown || null,
+  author: row.author || null,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const mapPolicyRunRow = (row: any): PolicyRunLog => ({
+  id: row.id,
+  policyId: row.policy_id,
+  shopId: row.shop_id,
+  eventId: row.event_id || undefined,
+  eventType: row.event_type,
+  eventPayload: row.event_payload || undefined,
+  outcome: row.outcome,
+  notes: row.notes || undefined,
+  attempts: row.attempts ?? 1,
+  dedupKey: row.dedup_key || undefined,
+  createdAt: row.created_at,
+});
+
+const mapPolicyVersionRow = (row: any): PolicyVersion => ({
+  id: row.id,
+  policyId: row.policy_id,
+  shopId: row.shop_id,
+  version: row.version,
+  snapshot: row.snapshot,
+  author: row.author || null,
+  createdAt: row.created_at,
+});
+
+const upsertLocalPolicy = (policy: PolicyDescriptor) => {
+  const map = getPolicyMap();
+  const policies = map[policy.shopId] || [];
+  const index = policies.findIndex(p => p.id === policy.id);
+  if (index >= 0) {
+    policies[index] = policy;
+  } else {
+    policies.push(policy);
+  }
+  map[policy.shopId] = policies;
+  savePolicyMap(map);
+};
+
+// dan_policies is written by the server only (server/danPolicies.js), which
+// checks the shop and managePolicies and records each saved version
+const policiesRequest = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+  const response = await fetchWithSession(`/api/dan/policies${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...(init.headers || {}) },
+  });
+  if (response.status === 204) return undefined as T;
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Policy request failed (${response.status})`);
+  }
+  return data as T;
+};
+
+/**
+ * Policies live in Supabase (dan_policies) so the server-side worker can
+ * evaluate them; localStorage is only used when Supabase is not configured.
+ */
+export const upsertPolicy = async (policy: PolicyDescriptor): Promise<PolicyDescriptor> => {
+  const now = new Date().toISOString();
+  const saved: PolicyDescriptor = { ...policy, createdAt: policy.createdAt || now, updatedAt: now };
+  const errors = validatePolicy(saved);
+  if (errors.length) throw new Error(`Invalid policy: ${errors.join('; ')}`);
+  if (!supabase) {
+    upsertLocalPolicy(saved);
+    recordLocalPolicyVersion(saved);
+    return saved;
+  }
+  const { policy: stored } = await policiesRequest<{ policy: PolicyDescriptor }>(
+    `/${encodeURIComponent(saved.id)}`,
+    { method: 'PUT', body: JSON.stringify({ policy: saved }) },
+  );
+  return stored;
+};
+
+export const deletePolicy = async (policy: Pick<PolicyDescriptor, 'id' | 'shopId'>): Promise<void> => {
+  if (!supabase) {
+    const map = getPolicyMap();
+    map[policy.shopId] = (map[policy.shopId] || []).filter(p => p.id !== policy.id);
+    savePolicyMap(map);
+    return;
+  }
+  await policiesRequest(
+    `/${encodeURIComponent(policy.id)}?${new URLSearchParams({ shopId: policy.shopId }).toString()}`,
+    { method: 'DELETE' },
+  );
+};
+
+// Every save is kept so the Policy Center can show and restore earlier versions
+const recordLocalPolicyVersion = (policy: PolicyDescriptor) => {
+  const version: PolicyVersion = {
+    id: uuidv4(),
+    policyId: policy.id,
+    shopId: policy.shopId,
+    version: policy.version,
+    snapshot: policy,
+    author: policy.author || null,
+    createdAt: policy.updatedAt,
+  };
+  const map = getPolicyVersionsMap();
+  map[policy.id] = [version, ...(map[policy.id] || [])].slice(0, MAX_LOCAL_POLICY_VERSIONS);
+  savePolicyVersionsMap(map);
+};
+
+export const getPolicyVersions = async (policyId: string): Promise<PolicyVersion[]> => {
+  if (!supabase) {
+    return getPolicyVersionsMap()[policyId] || [];
+  }
+  const { data, error } = await supabase
+    .from('dan_policy_versions')
+    .select('*')
+    .eq('policy_id', policyId)
+    .order('created_at', { ascending: false });
+  if (error) {
+    console.warn('[PolicyEngine] Failed to load policy versions', error.message);
+    return [];
+  }
+  return (data || []).map(mapPolicyVersionRow);
+};
+
+// '1.0' -> '1.1', '2' -> '2.1'
+export const nextPolicyVersion = (version?: string | null): string => {
+  const match = /^(\d+)\.(\d+)$/.exec(version || '');
+  if (match) return `${match[1]}.${Number(match[2]) + 1}`;
+  return /^\d+$/.test(version || '') ? `${version}.1` : '1.0';
+};
+
 export const seedDefaultPolicyForShop = async (
   shopId: string,
   shopName?: string | null,
 ): Promise<void> => {
-  const map = getPolicyMap();
-  if (map[shopId]?.length) return;
+  if (!shopId) return;
+  const existing = await getPoliciesForShop(shopId);
+  if (existing.length) return;
 
   const defaultPolicy: PolicyDescriptor = {
     id: uuidv4(),
@@ -92,107 +263,257 @@ export const seedDefaultPolicyForShop = async (
           shopName: shopName || 'unknown shop',
         },
       },
+      { type: 'tag_inventory', params: { tags: ['low-stock'] } },
     ],
+    cooldown: { minutes: 24 * 60, keyFields: ['productId'] },
     author: 'system',
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
   };
 
-  map[shopId] = [defaultPolicy];
-  savePolicyMap(map);
-};
-
-export const upsertLocalPolicy = async (policy: PolicyDescriptor) => {
-  const map = getPolicyMap();
-  const policies = map[policy.shopId] || [];
-  const index = policies.findIndex(p => p.id === policy.id);
-  if (index >= 0) {
-    policies[index] = { ...policy, updatedAt: new Date().toISOString() };
-  } else {
-    policies.push({ ...policy, createdAt: new Date().toISOString(), updatedAt: new Date().toISOString() });
+  try {
+    await upsertPolicy(defaultPolicy);
+  } catch (error) {
+    console.warn('[PolicyEngine] Failed to seed default policy', error);
   }
-  map[policy.shopId] = policies;
-  savePolicyMap(map);
 };
 
 export const getPoliciesForShop = async (shopId?: string | null): Promise<PolicyDescriptor[]> => {
   const resolvedShopId = shopId || activeShopId;
   if (!resolvedShopId) return [];
-  const map = getPolicyMap();
-  return map[resolvedShopId] || [];
+  if (!supabase) {
+    return getPolicyMap()[resolvedShopId] || [];
+  }
+  const { data, error } = await supabase
+    .from('dan_policies')
+    .select('*')
+    .eq('shop_id', resolvedShopId)
+    .order('created_at', { ascending: true });
+  if (error) {
+    console.warn('[PolicyEngine] Failed to load policies', error.message);
+    return [];
+  }
+  return (data || []).map(mapPolicyRow);
 };
 
 export const getRecentPolicyRuns = async (
   shopId?: string | null,
   limit: number = 20,
+  filter: { policyId?: string | null; outcome?: PolicyRunLog['outcome'] | null } = {},
 ): Promise<PolicyRunLog[]> => {
   const resolvedShopId = shopId || activeShopId;
   if (!resolvedShopId) return [];
-  const map = getPolicyRunsMap();
-  return (map[resolvedShopId] || []).slice(0, limit);
+  if (!supabase) {
+    return (getPolicyRunsMap()[resolvedShopId] || [])
+      .filter(run => (!filter.policyId || run.policyId === filter.policyId)
+        && (!filter.outcome || run.outcome === filter.outcome))
+      .slice(0, limit);
+  }
+  let query = supabase
+    .from('dan_policy_runs')
+    .select('*')
+    .eq('shop_id', resolvedShopId);
+  if (filter.policyId) query = query.eq('policy_id', filter.policyId);
+  if (filter.outcome) query = query.eq('outcome', filter.outcome);
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) {
+    console.warn('[PolicyEngine] Failed to load policy runs', error.message);
+    return [];
+  }
+  const runs = (data || []).map(mapPolicyRunRow);
+  const triggeredIds = runs.filter(run => run.outcome !== 'skipped' && run.outcome !== 'suppressed').map(run => run.id);
+  if (triggeredIds.length) {
+    try {
+      const deliveries = await getWebhookDeliveries(resolvedShopId, { policyRunIds: triggeredIds, limit: 500 });
+      runs.forEach(run => {
+        const forRun = deliveries.filter(delivery => delivery.policyRunId === run.id);
+        if (forRun.length) run.webhookDeliveries = forRun;
+      });
+    } catch (err) {
+      console.warn('[PolicyEngine] Failed to load webhook deliveries', err);
+    }
+  }
+  return runs;
 };
 
-const recordPolicyRun = (run: PolicyRunLog) => {
-  const map = getPolicyRunsMap();
-  const runs = map[run.shopId] || [];
-  runs.unshift(run);
-  map[run.shopId] = runs.slice(0, 50);
-  savePolicyRunsMap(map);
+const recordPolicyRun = async (run: PolicyRunLog) => {
+  if (!supabase) {
+    const map = getPolicyRunsMap();
+    const runs = map[run.shopId] || [];
+    runs.unshift(run);
+    map[run.shopId] = runs.slice(0, 50);
+    savePolicyRunsMap(map);
+    return;
+  }
+  const { error } = await supabase.from('dan_policy_runs').insert({
+    id: run.id,
+    policy_id: run.policyId,
+    shop_id: run.shopId,
+    event_id: run.eventId || null,
+    event_type: run.eventType,
+    event_payload: run.eventPayload || null,
+    outcome: run.outcome,
+    notes: run.notes || null,
+    attempts: run.attempts ?? 1,
+    dedup_key: run.dedupKey || null,
+    created_at: run.createdAt,
+  });
+  if (error) {
+    console.warn('[PolicyEngine] Failed to record policy run', error.message);
+  }
 };
 
-const getValueByPath = (payload: Record<string, any>, path: string): any => {
-  return path.split('.').reduce((acc: any, key: string) => {
-    if (acc && typeof acc === 'object' && key in acc) {
-      return acc[key];
-    }
-    return undefined;
-  }, payload);
+const mapEventSampleRow = (row: any): PolicyEventSample => ({
+  eventId: row.event_id,
+  eventType: row.event_type,
+  payload: row.payload || {},
+  createdAt: row.created_at,
+});
+
+const DRY_RUN_PAGE_SIZE = 1000;
+const DRY_RUN_MAX_EVENTS = 10000;
+
+const fetchShopEvents = async (
+  shopId: string,
+  eventTypes: DanEventType[],
+  from: Date,
+  to: Date,
+  maxEvents: number = DRY_RUN_MAX_EVENTS,
+): Promise<PolicyEventSample[]> => {
+  if (!supabase) return [];
+  const events: PolicyEventSample[] = [];
+  for (let offset = 0; offset < maxEvents; offset += DRY_RUN_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('dan_events')
+      .select('event_id, event_type, payload, created_at')
+      .eq('shop_id', shopId)
+      .in('event_type', eventTypes)
+      .gt('created_at', from.toISOString())
+      .lte('created_at', to.toISOString())
+      .order('created_at', { ascending: true })
+      .range(offset, offset + DRY_RUN_PAGE_SIZE - 1);
+    if (error) throw new Error(`Failed to load DAN events: ${error.message}`);
+    events.push(...(data || []).map(mapEventSampleRow));
+    if (!data || data.length < DRY_RUN_PAGE_SIZE) break;
+  }
+  return events;
 };
 
-const evaluateRule = (rule: PolicyConditionRule, payload: Record<string, any>): boolean => {
-  const actual = getValueByPath(payload, rule.field);
-  const expected = rule.value;
-  switch (rule.operator) {
-    case 'eq':
-      return actual === expected;
-    case 'neq':
-      return actual !== expected;
-    case 'gt':
-      return typeof actual === 'number' && actual > Number(expected);
-    case 'gte':
-      return typeof actual === 'number' && actual >= Number(expected);
-    case 'lt':
-      return typeof actual === 'number' && actual < Number(expected);
-    case 'lte':
-      return typeof actual === 'number' && actual <= Number(expected);
-    case 'includes':
-    case 'contains': {
-      if (Array.isArray(actual)) {
-        return actual.includes(expected);
-      }
-      if (typeof actual === 'string') {
-        return actual.toLowerCase().includes(String(expected).toLowerCase());
-      }
-      return false;
-    }
-    default:
-      return false;
+// Recent events the policy's aggregates need, up to the triggering event
+const loadPolicyHistory = async (
+  policy: PolicyDescriptor,
+  event: PolicyEventSample,
+): Promise<PolicyEventSample[]> => {
+  const historyWindow = getPolicyHistoryWindow(policy);
+  if (!historyWindow) return [];
+  const until = new Date(event.createdAt);
+  try {
+    return await fetchShopEvents(
+      policy.shopId,
+      historyWindow.eventTypes,
+      new Date(until.getTime() - historyWindow.windowMinutes * 60 * 1000),
+      until,
+    );
+  } catch (error) {
+    console.warn('[PolicyEngine] Failed to load event history', error);
+    return [];
+  }
+};
+
+const isCooldownActive = async (policy: PolicyDescriptor, dedupKey: string): Promise<boolean> => {
+  if (!policy.cooldown) return false;
+  const since = new Date(Date.now() - policy.cooldown.minutes * 60 * 1000).toISOString();
+  if (!supabase) {
+    return (getPolicyRunsMap()[policy.shopId] || []).some(run =>
+      run.policyId === policy.id && run.dedupKey === dedupKey && run.outcome === 'triggered' && run.createdAt >= since);
+  }
+  const { data, error } = await supabase
+    .from('dan_policy_runs')
+    .select('id')
+    .eq('policy_id', policy.id)
+    .eq('dedup_key', dedupKey)
+    .eq('outcome', 'triggered')
+    .gte('created_at', since)
+    .limit(1);
+  if (error) {
+    console.warn('[PolicyEngine] Failed to check policy cooldown', error.message);
+    return false;
+  }
+  return (data || []).length > 0;
+};
+
+/**
+ * Replay the shop's dan_events between `since` and `until` through a policy
+ * (saved or draft) and report which runs would have fired. Nothing is
+ * executed or recorded.
+ */
+export const dryRunPolicy = async (
+  policy: PolicyDescriptor,
+  since: Date,
+  until: Date = new Date(),
+): Promise<PolicyDryRunReport> => {
+  if (!supabase) throw new Error('Policy dry runs need Supabase to read dan_events.');
+  const errors = validatePolicy(policy);
+  if (errors.length) throw new Error(`Invalid policy: ${errors.join('; ')}`);
+  const historyWindow = getPolicyHistoryWindow(policy);
+  const eventTypes = Array.from(new Set([policy.eventType, ...(historyWindow?.eventTypes || [])]));
+  const from = new Date(since.getTime() - (historyWindow?.windowMinutes || 0) * 60 * 1000);
+  const events = await fetchShopEvents(policy.shopId, eventTypes, from, until);
+  return replayPolicy(policy, events, since, until);
+};
+
+/**
+ * Evaluate a (draft) policy against one sample event, using the shop's real
+ * event history for aggregates. Reports each top-level condition and whether
+ * a saved policy's cooldown would suppress the run; no action is executed.
+ */
+export const testPolicyAgainstEvent = async (
+  policy: PolicyDescriptor,
+  sample: PolicyEventSample,
+): Promise<PolicyTestResult> => {
+  const errors = validatePolicy(policy);
+  if (sample.eventType !== policy.eventType) {
+    errors.push(`Sample event is ${sample.eventType} but the policy listens for ${policy.eventType}`);
+  }
+  if (errors.length) {
+    return { matched: false, conditionResults: [], dedupKey: null, cooldownActive: false, errors };
   }
+
+  const history = await loadPolicyHistory(policy, sample);
+  const events = [...history, sample];
+  const eventTime = new Date(sample.createdAt).getTime();
+  const now = Number.isNaN(eventTime) ? Date.now() : eventTime;
+  const conditionResults = policy.conditions.map(condition => evaluateCondition(condition, sample, events, now));
+  const matched = evaluatePolicyConditions(policy, sample, history);
+  const dedupKey = resolveDedupKey(policy, sample.payload);
+  const cooldownActive = matched && dedupKey !== null ? await isCooldownActive(policy, dedupKey) : false;
+  return { matched, conditionResults, dedupKey, cooldownActive, errors: [] };
 };
 
 const executeAction = async (
   action: PolicyActionDefinition,
   policy: PolicyDescriptor,
   context: PolicyEventContext,
+  runId: string,
 ) => {
   switch (action.type) {
     case 'notify': {
       const message =
         action.params?.message ||
         `Policy "${policy.name}" triggered for event ${context.eventType}`;
-      console.info(`[PolicyEngine] ${message}`, {
+      // Email is only sent by the server worker, which holds the SMTP settings
+      const channels: string[] = action.params?.channels || ['in_app', 'email'];
+      if (!channels.includes('in_app')) break;
+      const { inventoryUuid, productId } = context.payload || {};
+      await createNotifications({
+        shopId: policy.shopId,
+        title: action.params?.title || policy.name,
+        message,
+        link: inventoryUuid || productId ? { tab: 'inventory', inventoryUuid, productId } : null,
         policyId: policy.id,
-        payload: context.payload,
+        eventId: context.eventId,
       });
       break;
     }
@@ -210,31 +531,36 @@ const executeAction = async (
       break;
     }
     case 'tag_inventory': {
-      // Placeholder for future automation (e.g., tagging items via Qdrant)
-      console.debug('[PolicyEngine] tag_inventory action queued', {
-        policyId: policy.id,
-        params: action.params,
+      const target = action.params?.target || 'item';
+      const { inventoryUuid, productId } = context.payload || {};
+      if (target === 'item' ? !inventoryUuid : !productId) {
+        throw new Error(`tag_inventory (${target}) found no ${target === 'item' ? 'inventoryUuid' : 'productId'} in the event payload`);
+      }
+      await tagStockItems({
+        shopId: policy.shopId,
+        ...(target === 'item' ? { inventoryUuids: [inventoryUuid] } : { productId }),
+        add: action.params?.tags || [],
+        remove: action.params?.removeTags || [],
       });
       break;
     }
     case 'call_webhook': {
-      const url = action.params?.url;
-      if (!url || typeof fetch === 'undefined') break;
-      try {
-        await fetch(url, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            policyId: policy.id,
-            policyName: policy.name,
-            payload: context.payload,
-          }),
-        });
-      } catch (err) {
-        console.warn('[PolicyEngine] call_webhook failed', err);
-      }
+      const endpointId = action.params?.endpointId;
+      if (!endpointId) throw new Error('call_webhook needs a registered endpoint');
+      if (!context.eventId) throw new Error('call_webhook needs a published DAN event');
+      // Signing, retries and dead-lettering are left to the server dispatcher
+      await queueWebhookDelivery({
+        shopId: policy.shopId,
+        endpointId,
+        policyId: policy.id,
+        policyRunId: runId,
+        eventId: context.eventId,
+      });
       break;
     }
+    case 'reject_offer':
+      // Offer filters are applied by filterDanOffers, never as a run
+      break;
     default:
       console.warn('[PolicyEngine] Unknown action type', action.type);
   }
@@ -250,6 +576,9 @@ export interface PolicyEventContext {
 export const evaluatePoliciesForEvent = async (
   context: PolicyEventContext,
 ): Promise<void> => {
+  // The server-side worker (server/policyWorker.js) owns execution
+  if (DAN_POLICY_EXECUTION === 'server') return;
+
   const shopId =
     context.payload?.shopId || activeShopId || context.payload?.shop?.id || null;
   if (!shopId) return;
@@ -260,30 +589,43 @@ export const evaluatePoliciesForEvent = async (
   }
   const candidatePolicies = await getPoliciesForShop(shopId);
   const matchingPolicies = candidatePolicies.filter(
-    policy => policy.enabled && policy.eventType === context.eventType,
+    policy => policy.enabled && policy.eventType === context.eventType && !isOfferFilterPolicy(policy),
   );
 
   if (!matchingPolicies.length) return;
 
+  const event: PolicyEventSample = {
+    eventId: context.eventId,
+    eventType: context.eventType,
+    payload: context.payload || {},
+    createdAt: new Date().toISOString(),
+  };
+
   for (const policy of matchingPolicies) {
-    const allRulesPass = policy.conditions.every(rule => evaluateRule(rule, context.payload));
+    const history = await loadPolicyHistory(policy, event);
+    const conditionsPass = evaluatePolicyConditions(policy, event, history);
+    const dedupKey = resolveDedupKey(policy, event.payload);
+    const suppressed = conditionsPass && dedupKey !== null && await isCooldownActive(policy, dedupKey);
+    const allRulesPass = conditionsPass && !suppressed;
     const run: PolicyRunLog = {
       id: uuidv4(),
       policyId: policy.id,
       shopId,
+      eventId: context.eventId,
       eventType: context.eventType,
       eventPayload: context.payload,
-      outcome: allRulesPass ? 'triggered' : 'skipped',
+      outcome: allRulesPass ? 'triggered' : suppressed ? 'suppressed' : 'skipped',
       notes: allRulesPass
         ? `Policy ${policy.name} triggered`
-        : 'Condition check failed',
+        : suppressed ? `Cooldown active for ${dedupKey}` : 'Condition check failed',
+      dedupKey: dedupKey || undefined,
       createdAt: new Date().toISOString(),
     };
 
     if (allRulesPass) {
       try {
         for (const action of policy.actions) {
-          await executeAction(action, policy, context);
+          await executeAction(action, policy, context, run.id);
         }
       } catch (error: any) {
         run.outcome = 'error';
@@ -291,7 +633,44 @@ export const evaluatePoliciesForEvent = async (
       }
     }
 
-    recordPolicyRun(run);
+    await recordPolicyRun(run);
   }
 };
 
+/**
+ * Peer offers hidden by the shop's enabled reject_offer policies, keyed by
+ * inventoryUuid with the name of the first policy that matched. Conditions
+ * see the offer's inventory.offer.created fields plus sellerReputation.*.
+ */
+export const filterDanOffers = async (
+  offers: DanInventoryOffer[],
+  reputations: Record<string, DanShopReputation>,
+  shopId?: string | null,
+): Promise<Record<string, string>> => {
+  const filters = (await getPoliciesForShop(shopId)).filter(
+    policy => policy.enabled && isOfferFilterPolicy(policy) && !validatePolicy(policy).length,
+  );
+  const hidden: Record<string, string> = {};
+  if (!filters.length) return hidden;
+  offers.forEach(offer => {
+    const reputation = reputations[offer.shopId];
+    const sample: PolicyEventSample = {
+      eventType: 'inventory.offer.created',
+      payload: {
+        ...offer,
+        sellerReputation: {
+          score: reputation?.score ?? null,
+          tier: reputation?.tier ?? 'new',
+          fillRate: reputation?.fillRate ?? null,
+          onTimeRate: reputation?.onTimeRate ?? null,
+          cancellationRate: reputation?.cancellationRate ?? null,
+          quantityAccuracy: reputation?.quantityAccuracy ?? null,
+        },
+      },
+      createdAt: offer.updatedAt,
+    };
+    const match = filters.find(policy => evaluatePolicyConditions(policy, sample));
+    if (match) hidden[offer.inventoryUuid] = match.name;
+  });
+  return hidden;
+};
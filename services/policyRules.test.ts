@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest';
+import * as browserRules from './policyRules';
+import * as serverRules from '../server/policyRules.js';
+import type { PolicyDescriptor, PolicyEventSample } from '../types';
+
+const AT = '2026-03-10T12:00:00.000Z';
+const minutesBefore = (minutes: number, from = AT) => new Date(new Date(from).getTime() - minutes * 60 * 1000).toISOString();
+const daysFrom = (days: number) => new Date(new Date(AT).getTime() + days * 24 * 60 * 60 * 1000).toISOString();
+
+const policy = (overrides: Partial<PolicyDescriptor> = {}): PolicyDescriptor => ({
+  id: 'policy-1',
+  shopId: 'shop-a',
+  name: 'Test policy',
+  eventType: 'inventory.offer.fulfilled',
+  scope: 'inventory',
+  version: '1.0',
+  enabled: true,
+  conditions: [],
+  actions: [{ type: 'notify', params: { message: 'Hi' } }],
+  ...overrides,
+} as PolicyDescriptor);
+
+let sequence = 0;
+const event = (payload: Record<string, any>, createdAt = AT, eventType: PolicyEventSample['eventType'] = 'inventory.offer.fulfilled') => ({
+  eventId: `event-${++sequence}`,
+  eventType,
+  payload,
+  createdAt,
+}) as PolicyEventSample;
+
+const sale = (productId: string, fulfilledQuantity: number, minutesAgo: number) =>
+  event({ productId, fulfilledQuantity }, minutesBefore(minutesAgo));
+
+describe('policy rules', () => {
+  it('matches withinDays only for dates from the event up to N days ahead', () => {
+    const expiringSoon = policy({ conditions: [{ field: 'expirationDate', operator: 'withinDays', value: 3 }] });
+    const matches = (expirationDate: string) =>
+      browserRules.evaluatePolicyConditions(expiringSoon, event({ expirationDate }));
+
+    expect(matches(daysFrom(2))).toBe(true);
+    expect(matches(daysFrom(0))).toBe(true);
+    expect(matches(daysFrom(4))).toBe(false);
+    expect(matches(daysFrom(-1))).toBe(false);
+  });
+
+  it('evaluates nested all / any / not groups', () => {
+    const grouped = policy({
+      conditions: [{
+        all: [
+          { any: [{ field: 'category', operator: 'eq', value: 'dairy' }, { field: 'tags', operator: 'includes', value: 'chilled' }] },
+          { not: { field: 'quantity', operator: 'gt', value: 10 } },
+        ],
+      }],
+    });
+    const matches = (payload: Record<string, any>) => browserRules.evaluatePolicyConditions(grouped, event(payload));
+
+    expect(matches({ category: 'dairy', quantity: 4 })).toBe(true);
+    expect(matches({ category: 'bakery', tags: ['chilled'], quantity: 10 })).toBe(true);
+    expect(matches({ category: 'bakery', tags: [], quantity: 4 })).toBe(false);
+    expect(matches({ category: 'dairy', quantity: 11 })).toBe(false);
+  });
+
+  it('aggregates recent events per group inside the window', () => {
+    const busyProduct = policy({
+      conditions: [{
+        aggregate: {
+          eventType: 'inventory.offer.fulfilled', fn: 'sum', field: 'fulfilledQuantity', windowMinutes: 60, groupBy: 'productId',
+          where: [{ field: 'fulfilledQuantity', operator: 'gte', value: 2 }],
+        },
+        operator: 'gte',
+        value: 10,
+      }],
+    });
+    const history = [sale('milk', 5, 30), sale('milk', 1, 20), sale('bread', 9, 10), sale('milk', 9, 90)];
+
+    expect(browserRules.evaluatePolicyConditions(busyProduct, sale('milk', 5, 0), history)).toBe(true);
+    expect(browserRules.evaluatePolicyConditions(busyProduct, sale('milk', 4, 0), history)).toBe(false);
+    expect(browserRules.evaluatePolicyConditions(busyProduct, sale('bread', 1, 0), history)).toBe(false);
+
+    const count = policy({
+      conditions: [{ aggregate: { eventType: 'inventory.offer.fulfilled', fn: 'count', windowMinutes: 60 }, operator: 'gt', value: 3 }],
+    });
+    expect(browserRules.evaluatePolicyConditions(count, sale('milk', 1, 0), history)).toBe(true);
+    expect(browserRules.evaluatePolicyConditions(count, sale('milk', 1, 0), history.slice(1))).toBe(false);
+  });
+
+  it('suppresses repeat runs for the same key during the cooldown', () => {
+    const cooled = policy({ cooldown: { minutes: 60, keyFields: ['productId'] } });
+    const events = [sale('milk', 1, 100), sale('milk', 1, 70), sale('bread', 1, 65), sale('milk', 1, 30)];
+
+    const report = browserRules.replayPolicy(cooled, events, new Date(minutesBefore(120)), new Date(AT));
+
+    expect(report.results.map(result => result.outcome)).toEqual(['triggered', 'suppressed', 'triggered', 'triggered']);
+    expect(report.results[0].dedupKey).toBe('productId="milk"');
+    expect(browserRules.resolveDedupKey(policy({ cooldown: { minutes: 5 } }), {})).toBe('*');
+    expect(browserRules.resolveDedupKey(policy(), {})).toBeNull();
+  });
+
+  it('rejects malformed groups, aggregates and cooldowns', () => {
+    const errors = browserRules.validatePolicy(policy({
+      conditions: [
+        { all: [] },
+        { aggregate: { eventType: 'inventory.offer.fulfilled', fn: 'sum', windowMinutes: 0 }, operator: 'includes', value: 1 },
+        { field: 'expirationDate', operator: 'withinDays', value: -1 },
+      ] as any,
+      cooldown: { minutes: 0 },
+    }));
+
+    expect(errors).toEqual([
+      'conditions[0].all: must be a non-empty array',
+      'conditions[1].aggregate.field: is required for sum',
+      'conditions[1].aggregate.windowMinutes: must be a positive number',
+      'conditions[1].operator: must be one of eq, neq, gt, gte, lt, lte',
+      'conditions[2].value: must not be negative',
+      'cooldown.minutes: must be a positive number',
+    ]);
+  });
+});
+
+describe('server/policyRules.js parity', () => {
+  const history = [sale('milk', 5, 30), sale('milk', 1, 20), sale('bread', 9, 10), sale('milk', 3, 5)];
+  const cases: [string, PolicyDescriptor][] = [
+    ['dates', policy({ conditions: [{ any: [
+      { field: 'expirationDate', operator: 'withinDays', value: 2 },
+      { field: 'receivedAt', operator: 'olderThan', value: 30 },
+    ] }] })],
+    ['groups', policy({ conditions: [{ not: { all: [
+      { field: 'productId', operator: 'eq', value: 'milk' },
+      { field: 'productName', operator: 'contains', value: 'MILK' },
+    ] } }] })],
+    ['aggregates', policy({ conditions: [
+      { aggregate: { eventType: 'inventory.offer.fulfilled', fn: 'avg', field: 'fulfilledQuantity', windowMinutes: 25, groupBy: 'productId' }, operator: 'lt', value: 3 },
+      { aggregate: { eventType: 'inventory.offer.fulfilled', fn: 'max', field: 'fulfilledQuantity', windowMinutes: 60 }, operator: 'gte', value: 9 },
+    ] })],
+    ['cooldown', policy({ cooldown: { minutes: 15, keyFields: ['productId'] } })],
+  ];
+  const samples = [
+    event({ productId: 'milk', productName: 'Whole milk', expirationDate: daysFrom(1), receivedAt: daysFrom(-40), fulfilledQuantity: 1 }),
+    event({ productId: 'bread', productName: 'Rye', expirationDate: daysFrom(-1), receivedAt: daysFrom(-2), fulfilledQuantity: 2 }),
+    event({ productId: 'milk', productName: 'Oat drink', expirationDate: daysFrom(5) }),
+  ];
+
+  it.each(cases)('evaluates %s policies the same way', (_name, descriptor) => {
+    for (const sample of samples) {
+      expect(serverRules.evaluatePolicyConditions(descriptor, sample, history))
+        .toBe(browserRules.evaluatePolicyConditions(descriptor, sample, history));
+    }
+    const since = new Date(minutesBefore(60));
+    const until = new Date(AT);
+    expect(serverRules.replayPolicy(descriptor, [...history, ...samples], since, until))
+      .toEqual(browserRules.replayPolicy(descriptor, [...history, ...samples], since, until));
+    expect(serverRules.validatePolicy(descriptor)).toEqual(browserRules.validatePolicy(descriptor));
+  });
+
+  it('reports the same validation errors', () => {
+    const invalid = policy({
+      name: ' ',
+      conditions: [{ any: [{ aggregate: { eventType: 'inventory.offer.fulfilled', fn: 'median', windowMinutes: 5 }, operator: 'gt', value: 'x' }] }] as any,
+      actions: [{ type: 'call_webhook', params: { url: 'https://example.com' } }, { type: 'reject_offer', params: {} }],
+      cooldown: { minutes: 5, keyFields: [''] },
+    });
+
+    expect(serverRules.validatePolicy(invalid)).toEqual(browserRules.validatePolicy(invalid));
+    expect(browserRules.validatePolicy(invalid).length).toBeGreaterThan(3);
+  });
+});
@@ -0,0 +1,431 @@
+import type {
+  DanEventType,
+  PolicyActionDefinition,
+  PolicyAggregateCondition,
+  PolicyCondition,
+  PolicyConditionGroup,
+  PolicyConditionRule,
+  PolicyDescriptor,
+  PolicyDryRunReport,
+  PolicyDryRunResult,
+  PolicyEventSample,
+} from '../types';
+
+/**
+ * Policy condition DSL shared by the browser engine (policyEngine.ts) and,
+ * mirrored in server/policyRules.js, the server-side worker. Evaluation is
+ * pure: aggregates read from the event history the caller passes in, and all
+ * relative dates are measured from the triggering event's createdAt so
+ * replays give the same answer as the live run.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const COMPARISON_OPERATORS = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte'];
+const RULE_OPERATORS = [...COMPARISON_OPERATORS, 'includes', 'contains', 'withinDays', 'olderThan'];
+const AGGREGATE_FUNCTIONS = ['count', 'sum', 'avg', 'min', 'max'];
+const ACTION_TYPES = ['notify', 'create_dan_event', 'tag_inventory', 'call_webhook', 'reject_offer'];
+const NOTIFICATION_CHANNELS = ['in_app', 'email'];
+const TAG_TARGETS = ['item', 'product'];
+
+export const getValueByPath = (payload: Record<string, any>, path: string): any => {
+  return path.split('.').reduce((acc: any, key: string) => {
+    if (acc && typeof acc === 'object' && key in acc) {
+      return acc[key];
+    }
+    return undefined;
+  }, payload);
+};
+
+const isAggregateCondition = (condition: PolicyCondition): condition is PolicyAggregateCondition =>
+  !!condition && typeof condition === 'object' && 'aggregate' in condition;
+
+const isConditionGroup = (condition: PolicyCondition): condition is PolicyConditionGroup =>
+  !!condition && typeof condition === 'object' && ('all' in condition || 'any' in condition || 'not' in condition);
+
+const toTime = (value: unknown): number => {
+  if (typeof value !== 'string' && typeof value !== 'number') return NaN;
+  return new Date(value).getTime();
+};
+
+const compareNumbers = (actual: unknown, operator: string, expected: unknown): boolean => {
+  if (typeof actual !== 'number') return false;
+  const target = Number(expected);
+  switch (operator) {
+    case 'eq':
+      return actual === target;
+    case 'neq':
+      return actual !== target;
+    case 'gt':
+      return actual > target;
+    case 'gte':
+      return actual >= target;
+    case 'lt':
+      return actual < target;
+    case 'lte':
+      return actual <= target;
+    default:
+      return false;
+  }
+};
+
+export const evaluateRule = (
+  rule: PolicyConditionRule,
+  payload: Record<string, any>,
+  now: number = Date.now(),
+): boolean => {
+  const actual = getValueByPath(payload, rule.field);
+  const expected = rule.value;
+  switch (rule.operator) {
+    case 'eq':
+      return actual === expected;
+    case 'neq':
+      return actual !== expected;
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte':
+      return compareNumbers(actual, rule.operator, expected);
+    case 'includes':
+    case 'contains': {
+      if (Array.isArray(actual)) {
+        return actual.includes(expected);
+      }
+      if (typeof actual === 'string') {
+        return actual.toLowerCase().includes(String(expected).toLowerCase());
+      }
+      return false;
+    }
+    // Forward-only: from the event up to `value` days after it; dates already passed never match
+    case 'withinDays': {
+      const time = toTime(actual);
+      return !Number.isNaN(time) && time >= now && time - now <= Number(expected) * DAY_MS;
+    }
+    case 'olderThan': {
+      const time = toTime(actual);
+      return !Number.isNaN(time) && now - time > Number(expected) * DAY_MS;
+    }
+    default:
+      return false;
+  }
+};
+
+const evaluateAggregate = (
+  condition: PolicyAggregateCondition,
+  event: PolicyEventSample,
+  history: PolicyEventSample[],
+  now: number,
+): boolean => {
+  const { eventType, fn, field, windowMinutes, where, groupBy } = condition.aggregate;
+  const windowStart = now - windowMinutes * 60 * 1000;
+  const groupValue = groupBy ? getValueByPath(event.payload || {}, groupBy) : undefined;
+
+  const matching = history.filter(candidate => {
+    if (candidate.eventType !== eventType) return false;
+    const time = toTime(candidate.createdAt);
+    if (Number.isNaN(time) || time <= windowStart || time > now) return false;
+    if (groupBy && getValueByPath(candidate.payload || {}, groupBy) !== groupValue) return false;
+    return (where || []).every(nested => evaluateCondition(nested, candidate, [], time));
+  });
+
+  if (fn === 'count') {
+    return compareNumbers(matching.length, condition.operator, condition.value);
+  }
+  const values = matching
+    .map(candidate => getValueByPath(candidate.payload || {}, field || ''))
+    .filter((value): value is number => typeof value === 'number');
+  if (fn === 'sum') {
+    return compareNumbers(values.reduce((total, value) => total + value, 0), condition.operator, condition.value);
+  }
+  if (!values.length) return false;
+  const statistic = fn === 'avg'
+    ? values.reduce((total, value) => total + value, 0) / values.length
+    : fn === 'min' ? Math.min(...values) : Math.max(...values);
+  return compareNumbers(statistic, condition.operator, condition.value);
+};
+
+export const evaluateCondition = (
+  condition: PolicyCondition,
+  event: PolicyEventSample,
+  history: PolicyEventSample[],
+  now: number,
+): boolean => {
+  if (isAggregateCondition(condition)) {
+    return evaluateAggregate(condition, event, history, now);
+  }
+  if (isConditionGroup(condition)) {
+    if (condition.all) return condition.all.every(nested => evaluateCondition(nested, event, history, now));
+    if (condition.any) return condition.any.some(nested => evaluateCondition(nested, event, history, now));
+    return !evaluateCondition(condition.not as PolicyCondition, event, history, now);
+  }
+  return evaluateRule(condition as PolicyConditionRule, event.payload || {}, now);
+};
+
+/**
+ * True when every top-level condition passes. `history` holds the shop's
+ * recent events for aggregates; the triggering event is counted even when
+ * the caller's history does not include it yet.
+ */
+export const evaluatePolicyConditions = (
+  policy: PolicyDescriptor,
+  event: PolicyEventSample,
+  history: PolicyEventSample[] = [],
+): boolean => {
+  const now = Number.isNaN(toTime(event.createdAt)) ? Date.now() : toTime(event.createdAt);
+  const events = event.eventId && history.some(candidate => candidate.eventId === event.eventId)
+    ? history
+    : [...history, event];
+  return (policy.conditions || []).every(condition => evaluateCondition(condition, event, events, now));
+};
+
+// Event types and the longest window the policy's aggregates look back over
+export const getPolicyHistoryWindow = (
+  policy: PolicyDescriptor,
+): { eventTypes: DanEventType[]; windowMinutes: number } | null => {
+  const eventTypes = new Set<DanEventType>();
+  let windowMinutes = 0;
+  const visit = (condition: PolicyCondition) => {
+    if (isAggregateCondition(condition)) {
+      eventTypes.add(condition.aggregate.eventType);
+      windowMinutes = Math.max(windowMinutes, condition.aggregate.windowMinutes);
+    } else if (isConditionGroup(condition)) {
+      (condition.all || condition.any || []).forEach(visit);
+      if (condition.not) visit(condition.not);
+    }
+  };
+  (policy.conditions || []).forEach(visit);
+  return eventTypes.size ? { eventTypes: Array.from(eventTypes), windowMinutes } : null;
+};
+
+// Dedup key for cooldowns, e.g. "productId=\"p-1\""; '*' when keyed on the policy alone
+export const resolveDedupKey = (policy: PolicyDescriptor, payload: Record<string, any>): string | null => {
+  if (!policy.cooldown) return null;
+  const keyFields = policy.cooldown.keyFields || [];
+  if (!keyFields.length) return '*';
+  return keyFields
+    .map(field => `${field}=${JSON.stringify(getValueByPath(payload || {}, field) ?? null)}`)
+    .join('&');
+};
+
+/**
+ * Policies with a reject_offer action are offer filters: they are not run by
+ * the worker but evaluated against peer offers (inventory.offer.created
+ * payloads) when the marketplace lists them.
+ */
+export const OFFER_FILTER_EVENT_TYPE: DanEventType = 'inventory.offer.created';
+
+export const isOfferFilterPolicy = (policy: Pick<PolicyDescriptor, 'actions'>): boolean =>
+  (policy.actions || []).some(action => action?.type === 'reject_offer');
+
+// ===== VALIDATION =====
+
+const validateCondition = (
+  condition: PolicyCondition,
+  path: string,
+  errors: string[],
+  allowAggregates: boolean,
+) => {
+  if (!condition || typeof condition !== 'object' || Array.isArray(condition)) {
+    errors.push(`${path}: must be an object`);
+    return;
+  }
+  if (isAggregateCondition(condition)) {
+    if (!allowAggregates) {
+      errors.push(`${path}: aggregates cannot be nested inside an aggregate's where`);
+      return;
+    }
+    const { aggregate } = condition;
+    if (!aggregate || typeof aggregate !== 'object') {
+      errors.push(`${path}.aggregate: must be an object`);
+      return;
+    }
+    if (!aggregate.eventType) errors.push(`${path}.aggregate.eventType: is required`);
+    if (!AGGREGATE_FUNCTIONS.includes(aggregate.fn)) {
+      errors.push(`${path}.aggregate.fn: must be one of ${AGGREGATE_FUNCTIONS.join(', ')}`);
+    }
+    if (aggregate.fn !== 'count' && !aggregate.field) {
+      errors.push(`${path}.aggregate.field: is required for ${aggregate.fn}`);
+    }
+    if (!(typeof aggregate.windowMinutes === 'number' && aggregate.windowMinutes > 0)) {
+      errors.push(`${path}.aggregate.windowMinutes: must be a positive number`);
+    }
+    if (aggregate.where !== undefined) {
+      if (!Array.isArray(aggregate.where)) {
+        errors.push(`${path}.aggregate.where: must be an array`);
+      } else {
+        aggregate.where.forEach((nested, index) =>
+          validateCondition(nested, `${path}.aggregate.where[${index}]`, errors, false));
+      }
+    }
+    if (!COMPARISON_OPERATORS.includes(condition.operator)) {
+      errors.push(`${path}.operator: must be one of ${COMPARISON_OPERATORS.join(', ')}`);
+    }
+    if (typeof condition.value !== 'number') errors.push(`${path}.value: must be a number`);
+    return;
+  }
+  if (isConditionGroup(condition)) {
+    const keys = ['all', 'any', 'not'].filter(key => key in condition);
+    if (keys.length !== 1) {
+      errors.push(`${path}: a group takes exactly one of all, any or not`);
+      return;
+    }
+    if (condition.not !== undefined) {
+      validateCondition(condition.not, `${path}.not`, errors, allowAggregates);
+      return;
+    }
+    const key = keys[0] as 'all' | 'any';
+    const members = condition[key];
+    if (!Array.isArray(members) || !members.length) {
+      errors.push(`${path}.${key}: must be a non-empty array`);
+      return;
+    }
+    members.forEach((nested, index) => validateCondition(nested, `${path}.${key}[${index}]`, errors, allowAggregates));
+    return;
+  }
+  const rule = condition as PolicyConditionRule;
+  if (!rule.field || typeof rule.field !== 'string') errors.push(`${path}.field: is required`);
+  if (!RULE_OPERATORS.includes(rule.operator)) {
+    errors.push(`${path}.operator: must be one of ${RULE_OPERATORS.join(', ')}`);
+    return;
+  }
+  if (['gt', 'gte', 'lt', 'lte', 'withinDays', 'olderThan'].includes(rule.operator)
+    && !(typeof rule.value === 'number' && Number.isFinite(rule.value))) {
+    errors.push(`${path}.value: must be a number for ${rule.operator}`);
+  }
+  if (['withinDays', 'olderThan'].includes(rule.operator) && rule.value < 0) {
+    errors.push(`${path}.value: must not be negative`);
+  }
+};
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(entry => typeof entry === 'string' && entry.trim() !== '');
+
+const validateAction = (action: PolicyActionDefinition, path: string, errors: string[]) => {
+  if (!ACTION_TYPES.includes(action?.type)) {
+    errors.push(`${path}.type: must be one of ${ACTION_TYPES.join(', ')}`);
+    return;
+  }
+  const params = action.params || {};
+  switch (action.type) {
+    case 'notify':
+      if (params.channels !== undefined
+        && !(Array.isArray(params.channels) && params.channels.length
+          && params.channels.every((channel: unknown) => NOTIFICATION_CHANNELS.includes(channel as string)))) {
+        errors.push(`${path}.params.channels: must be a non-empty list of ${NOTIFICATION_CHANNELS.join(', ')}`);
+      }
+      break;
+    case 'tag_inventory': {
+      const { tags, removeTags, target } = params;
+      if ((tags !== undefined && !isStringList(tags)) || (removeTags !== undefined && !isStringList(removeTags))) {
+        errors.push(`${path}.params: tags and removeTags must be lists of non-empty strings`);
+      } else if (!tags?.length && !removeTags?.length) {
+        errors.push(`${path}.params: tags or removeTags is required`);
+      }
+      if (target !== undefined && !TAG_TARGETS.includes(target)) {
+        errors.push(`${path}.params.target: must be one of ${TAG_TARGETS.join(', ')}`);
+      }
+      break;
+    }
+    case 'call_webhook':
+      // Deliveries only go to endpoints registered under /api/webhooks
+      if (!params.endpointId) {
+        errors.push(`${path}.params.endpointId: is required`);
+      } else if (typeof params.endpointId !== 'string') {
+        errors.push(`${path}.params.endpointId: must be a string`);
+      }
+      break;
+    default:
+      break;
+  }
+};
+
+// Returns every problem found (empty when the policy is valid)
+export const validatePolicy = (policy: PolicyDescriptor): string[] => {
+  const errors: string[] = [];
+  if (!policy.shopId) errors.push('shopId: is required');
+  if (!policy.name?.trim()) errors.push('name: is required');
+  if (!policy.eventType) errors.push('eventType: is required');
+  if (!Array.isArray(policy.conditions)) {
+    errors.push('conditions: must be an array');
+  } else {
+    policy.conditions.forEach((condition, index) =>
+      validateCondition(condition, `conditions[${index}]`, errors, true));
+  }
+  if (!Array.isArray(policy.actions) || !policy.actions.length) {
+    errors.push('actions: must be a non-empty array');
+  } else {
+    policy.actions.forEach((action, index) => validateAction(action, `actions[${index}]`, errors));
+    if (isOfferFilterPolicy(policy)) {
+      if (policy.eventType !== OFFER_FILTER_EVENT_TYPE) {
+        errors.push(`actions: reject_offer only applies to ${OFFER_FILTER_EVENT_TYPE} policies`);
+      }
+      if (policy.actions.some(action => action?.type !== 'reject_offer')) {
+        errors.push('actions: reject_offer cannot be combined with other actions');
+      }
+    }
+  }
+  if (policy.cooldown) {
+    if (!(typeof policy.cooldown.minutes === 'number' && policy.cooldown.minutes > 0)) {
+      errors.push('cooldown.minutes: must be a positive number');
+    }
+    const { keyFields } = policy.cooldown;
+    if (keyFields !== undefined && (!Array.isArray(keyFields) || keyFields.some(field => !field || typeof field !== 'string'))) {
+      errors.push('cooldown.keyFields: must be an array of field paths');
+    }
+  }
+  return errors;
+};
+
+// ===== DRY RUN =====
+
+/**
+ * Replay `events` (the shop's history, any order, including lead-in before
+ * `since` for aggregate windows) and report which runs the policy would have
+ * produced between `since` and `until`. Cooldowns only see runs fired during
+ * the replay itself.
+ */
+export const replayPolicy = (
+  policy: PolicyDescriptor,
+  events: PolicyEventSample[],
+  since: Date,
+  until: Date = new Date(),
+): PolicyDryRunReport => {
+  const sorted = [...events].sort((a, b) => toTime(a.createdAt) - toTime(b.createdAt));
+  const lastTriggered = new Map<string, number>();
+  const results: PolicyDryRunResult[] = [];
+
+  sorted.forEach((event, index) => {
+    const time = toTime(event.createdAt);
+    if (event.eventType !== policy.eventType || time < since.getTime() || time > until.getTime()) return;
+    if (event.payload?.policyId === policy.id) return;
+
+    const triggered = evaluatePolicyConditions(policy, event, sorted.slice(0, index + 1));
+    const dedupKey = resolveDedupKey(policy, event.payload);
+    let outcome: PolicyDryRunResult['outcome'] = triggered ? 'triggered' : 'skipped';
+    if (triggered && dedupKey !== null) {
+      const previous = lastTriggered.get(dedupKey);
+      if (previous !== undefined && time - previous < policy.cooldown!.minutes * 60 * 1000) {
+        outcome = 'suppressed';
+      } else {
+        lastTriggered.set(dedupKey, time);
+      }
+    }
+    results.push({
+      eventId: event.eventId,
+      eventType: event.eventType,
+      createdAt: event.createdAt,
+      outcome,
+      ...(dedupKey !== null ? { dedupKey } : {}),
+    });
+  });
+
+  return {
+    policyId: policy.id,
+    since: since.toISOString(),
+    until: until.toISOString(),
+    eventsScanned: results.length,
+    triggered: results.filter(result => result.outcome === 'triggered').length,
+    suppressed: results.filter(result => result.outcome === 'suppressed').length,
+    results,
+  };
+};
@@ -48,6 +48,7 @@ export const COLLECTION_PAYLOAD_INDEXES: Partial<Record<CollectionKey, PayloadIn
     status: { type: 'keyword' },
     quantity: { type: 'integer' },
     expiration: { type: 'keyword' },
+    tags: { type: 'keyword' },
   },
   batches: {
     batchId: { type: 'keyword' },
@@ -55,11 +56,15 @@ export const COLLECTION_PAYLOAD_INDEXES: Partial<Record<CollectionKey, PayloadIn
     supplierId: { type: 'keyword' },
     deliveryDate: { type: 'keyword' },
     inventoryDate: { type: 'keyword' },
+    status: { type: 'keyword' },
+    purchaseOrderId: { type: 'keyword' },
   },
   sales: {
     saleId: { type: 'keyword' },
     shopId: { type: 'keyword' },
     timestamp: { type: 'keyword' },
+    idempotencyKey: { type: 'keyword' },
+    status: { type: 'keyword' },
   },
   customers: {
     customerId: { type: 'keyword' },
@@ -80,6 +85,8 @@ export const COLLECTION_PAYLOAD_INDEXES: Partial<Record<CollectionKey, PayloadIn
     listingId: { type: 'keyword' },
     shopId: { type: 'keyword' },
     productId: { type: 'keyword' },
+    quantity: { type: 'integer' },
+    version: { type: 'integer' },
   },
   dan_inventory: {
     inventoryUuid: { type: 'keyword' },
@@ -89,6 +96,72 @@ export const COLLECTION_PAYLOAD_INDEXES: Partial<Record<CollectionKey, PayloadIn
     locationBucket: { type: 'keyword' },
     shareScope: { type: 'keyword' },
     expirationDate: { type: 'keyword' },
+    signerFingerprint: { type: 'keyword' },
+  },
+  orders: {
+    orderId: { type: 'keyword' },
+    requesterShopId: { type: 'keyword' },
+    productName: { type: 'keyword' },
+    status: { type: 'keyword' },
+    createdAt: { type: 'keyword' },
+  },
+  proposals: {
+    proposalId: { type: 'keyword' },
+    orderId: { type: 'keyword' },
+    supplierShopId: { type: 'keyword' },
+    status: { type: 'keyword' },
+  },
+  deliveries: {
+    deliveryId: { type: 'keyword' },
+    orderId: { type: 'keyword' },
+    proposalId: { type: 'keyword' },
+    driverId: { type: 'keyword' },
+    status: { type: 'keyword' },
+  },
+  stock_movements: {
+    movementId: { type: 'keyword' },
+    shopId: { type: 'keyword' },
+    inventoryUuid: { type: 'keyword' },
+    productId: { type: 'keyword' },
+    reason: { type: 'keyword' },
+    referenceId: { type: 'keyword' },
+    createdAt: { type: 'keyword' },
+  },
+  promotions: {
+    promotionId: { type: 'keyword' },
+    shopId: { type: 'keyword' },
+    type: { type: 'keyword' },
+    scope: { type: 'keyword' },
+    targetId: { type: 'keyword' },
+    productId: { type: 'keyword' },
+    active: { type: 'bool' },
+    startsAt: { type: 'keyword' },
+    endsAt: { type: 'keyword' },
+  },
+  reorder_settings: {
+    shopId: { type: 'keyword' },
+    productId: { type: 'keyword' },
+    supplierId: { type: 'keyword' },
+  },
+  purchase_orders: {
+    purchaseOrderId: { type: 'keyword' },
+    shopId: { type: 'keyword' },
+    supplierId: { type: 'keyword' },
+    status: { type: 'keyword' },
+    batchId: { type: 'keyword' },
+    createdAt: { type: 'keyword' },
+  },
+  notifications: {
+    notificationId: { type: 'keyword' },
+    shopId: { type: 'keyword' },
+    userId: { type: 'keyword' },
+    policyId: { type: 'keyword' },
+    read: { type: 'bool' },
+    createdAt: { type: 'keyword' },
+  },
+  notification_subscriptions: {
+    shopId: { type: 'keyword' },
+    userId: { type: 'keyword' },
   },
 };
 
@@ -173,7 +246,8 @@ const analyzeVectorConfig = (raw: any): {
   return { params: null, named: true, vectorName: null };
 };
 
-// Ensure payload indexes exist
+// Check payload indexes. Creating them is collection administration, which the
+// proxy leaves to admins and `npm run setup:qdrant`, so missing ones are only reported.
 const ensurePayloadIndexes = async (name: CollectionKey): Promise<boolean> => {
   if (!qdrantClient) return false;
   const definitions = COLLECTION_PAYLOAD_INDEXES[name];
@@ -182,39 +256,16 @@ const ensurePayloadIndexes = async (name: CollectionKey): Promise<boolean> => {
   try {
     const result = await qdrantClient.getCollection(name);
     const existingSchema = result?.payload_schema || {};
+    const missing = Object.entries(definitions)
+      .filter(([field, schema]) => existingSchema?.[field]?.data_type !== schema.type)
+      .map(([field]) => field);
 
-    for (const [field, schema] of Object.entries(definitions)) {
-      const existingField = existingSchema?.[field];
-      const existingType = existingField?.data_type;
-      
-      // Skip if index already exists with correct type
-      if (existingType === schema.type) continue;
-
-      // Delete existing index if type is wrong
-      if (existingField && existingType !== schema.type) {
-        try {
-          await qdrantClient.deletePayloadIndex(name, field);
-          pushQdrantLog('info', `Deleted existing index '${name}.${field}' (wrong type)`);
-        } catch (deleteError: any) {
-          pushQdrantLog('warn', `Failed to delete index '${name}.${field}': ${describeError(deleteError)}`);
-        }
-      }
-
-      // Create new index
-      try {
-        await qdrantClient.createPayloadIndex(name, {
-          field_name: field,
-          field_schema: schema,
-        });
-        pushQdrantLog('info', `Created index '${name}.${field}' (${schema.type})`);
-      } catch (createError: any) {
-        pushQdrantLog('error', `Failed to create index '${name}.${field}': ${describeError(createError)}`);
-      }
+    if (missing.length > 0) {
+      pushQdrantLog('warn', `Collection '${name}' is missing payload indexes (${missing.join(', ')}). Run npm run setup:qdrant.`);
     }
-
     return true;
   } catch (error) {
-    pushQdrantLog('error', `Failed to ensure indexes for '${name}': ${describeError(error)}`);
+    pushQdrantLog('error', `Failed to check indexes for '${name}': ${describeError(error)}`);
     return false;
   }
 };
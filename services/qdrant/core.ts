@@ -6,6 +6,8 @@
 
 import { QdrantClient } from '@qdrant/js-client-rest';
 import { EMBEDDING_VECTOR_SIZE } from '../embeddingService';
+import { getAccessToken, subscribeToSession } from '../authSession';
+import type { StaffRole } from '../../types';
 
 // Collection names
 export const BASE_COLLECTIONS = [
@@ -22,6 +24,15 @@ export const BASE_COLLECTIONS = [
   'visual',
   'marketplace',
   'dan_inventory',
+  'orders',
+  'proposals',
+  'deliveries',
+  'stock_movements',
+  'promotions',
+  'reorder_settings',
+  'purchase_orders',
+  'notifications',
+  'notification_subscriptions',
 ] as const;
 
 export type CollectionKey = typeof BASE_COLLECTIONS[number];
@@ -97,6 +108,18 @@ const getRawQdrantUrl = (): string | null => {
 let _qdrantClient: QdrantClient | null = null;
 let _initializationAttempted = false;
 
+// The proxy requires the session's access token. QdrantClient fixes its
+// headers at construction, so the client is rebuilt whenever the session changes.
+const buildAuthHeaders = (): Record<string, string> => {
+  const token = getAccessToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
+subscribeToSession(() => {
+  _qdrantClient = null;
+  _initializationAttempted = false;
+});
+
 const initializeQdrantClient = (): QdrantClient | null => {
   // If already initialized, return it
   if (_qdrantClient) {
@@ -174,6 +197,7 @@ const initializeQdrantClient = (): QdrantClient | null => {
       _qdrantClient = new QdrantClient({ 
         url: baseUrlWithoutPath,
         prefix: prefixPath,
+        headers: buildAuthHeaders(),
       });
       
       // Wrap the QdrantClient's internal fetch to fix the port from 8443 to 443
@@ -247,11 +271,12 @@ const initializeQdrantClient = (): QdrantClient | null => {
       _qdrantClient = new QdrantClient({ 
         url: baseUrlWithoutPath,
         prefix: prefixPath,
+        headers: buildAuthHeaders(),
       });
       console.log('[Qdrant Core] Using base URL with prefix:', { url: baseUrlWithoutPath, prefix: prefixPath });
     } else {
       // No pathname - just use the URL as-is
-      _qdrantClient = new QdrantClient({ url: finalUrl });
+      _qdrantClient = new QdrantClient({ url: finalUrl, headers: buildAuthHeaders() });
     }
     
     // Verify the client was created successfully and log the actual URL it's using
@@ -327,3 +352,15 @@ export const setActiveShopContext = (shop: ActiveShopContextType | null) => {
   }
 };
 
+// Signed-in user working in the active shop (its owner or a staff member)
+export let activeUserId: string | null = null;
+export let activeStaffRole: StaffRole | null = null;
+
+export const setActiveUserContext = (user: { id: string; staffRole?: StaffRole | null } | null) => {
+  activeUserId = user?.id || null;
+  activeStaffRole = user?.staffRole || null;
+};
+
+// Recorded as createdByUserId; falls back to the shop when nobody is signed in
+export const resolveActorId = (): string | null => activeUserId || activeShopId;
+
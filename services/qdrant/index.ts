@@ -15,6 +15,10 @@ export {
   activeNamespace,
   setActiveShopContext,
   type ActiveShopContextType,
+  activeUserId,
+  activeStaffRole,
+  setActiveUserContext,
+  resolveActorId,
   BASE_COLLECTIONS,
   type CollectionKey,
   UUID_NAMESPACE,
@@ -47,6 +51,7 @@ export {
 // Query utilities
 export {
   fetchAllPoints,
+  fetchPointsByFilter,
   searchWithFilters,
 } from './queries';
 
@@ -60,6 +65,13 @@ export * from './services/marketplace';
 export * from './services/ocr';
 export * from './services/helpers';
 export * from './services/dataLoader';
+export * from './services/orders';
+export * from './services/stockMovements';
+export * from './services/expiry';
+export * from './services/promotions';
+export * from './services/purchasing';
+export * from './services/receiving';
+export * from './services/forecasting';
 
 // Re-export for backward compatibility
 export { getCanonicalProducts as fetchCanonicalProducts } from './services/products';
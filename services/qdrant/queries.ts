@@ -119,6 +119,36 @@ export const fetchAllPoints = async (
   return points;
 };
 
+// Fetch all points matching an arbitrary Qdrant filter
+export const fetchPointsByFilter = async (
+  collection: CollectionKey,
+  filter: { must?: any[]; should?: any[]; must_not?: any[] },
+): Promise<any[]> => {
+  if (!qdrantClient) return [];
+  if (!(await ensureReadyOrWarn(collection))) return [];
+
+  const points: any[] = [];
+  let offset: any = undefined;
+
+  do {
+    try {
+      const response = await qdrantClient.scroll(collection, {
+        with_payload: true,
+        limit: 100,
+        offset: offset ?? undefined,
+        filter,
+      });
+      points.push(...(response?.points ?? []));
+      offset = response?.next_page_offset ?? undefined;
+    } catch (scrollError: any) {
+      console.error(`[Qdrant] Filtered scroll error in '${collection}' (Filter: ${JSON.stringify(filter)}):`, scrollError);
+      break;
+    }
+  } while (offset);
+
+  return points;
+};
+
 // Search with filters (for semantic search)
 export const searchWithFilters = async (
   collection: CollectionKey,
@@ -13,25 +13,43 @@ import type {
   QdrantBatchPayload,
 } from '../../../types';
 
+const mapPointToBatchRecord = (point: { id: string | number; payload?: any }): BatchRecord => {
+  const payload = point.payload as any;
+  return {
+    id: payload?.batchId || String(point.id),
+    shopId: payload?.shopId,
+    supplierId: payload?.supplierId,
+    deliveryDate: payload?.deliveryDate,
+    inventoryDate: payload?.inventoryDate,
+    invoiceNumber: payload?.invoiceNumber,
+    documents: payload?.documents || [],
+    lineItems: payload?.lineItems || [],
+    createdAt: payload?.createdAt,
+    createdByUserId: payload?.createdByUserId,
+    status: payload?.status || 'RECEIVED',
+    purchaseOrderId: payload?.purchaseOrderId || null,
+    receivedAt: payload?.receivedAt || undefined,
+    discrepancyReport: payload?.discrepancyReport || null,
+  } as BatchRecord;
+};
+
 // Get batch records for a shop
 export const getBatchRecords = async (shopId: string): Promise<BatchRecord[]> => {
   if (!qdrantClient) return [];
   const points = await fetchAllPoints('batches', shopId);
-  return points.map(point => {
-    const payload = point.payload as any;
-    return {
-      id: payload?.batchId || String(point.id),
-      shopId: payload?.shopId,
-      supplierId: payload?.supplierId,
-      deliveryDate: payload?.deliveryDate,
-      inventoryDate: payload?.inventoryDate,
-      invoiceNumber: payload?.invoiceNumber,
-      documents: payload?.documents || [],
-      lineItems: payload?.lineItems || [],
-      createdAt: payload?.createdAt,
-      createdByUserId: payload?.createdByUserId,
-    } as BatchRecord;
+  return points.map(mapPointToBatchRecord);
+};
+
+// Get a single batch record by batchId
+export const getBatchRecord = async (batchId: string): Promise<BatchRecord | null> => {
+  if (!qdrantClient) return null;
+  if (!(await ensureReadyOrWarn('batches'))) return null;
+
+  const [point] = await qdrantClient.retrieve('batches', {
+    ids: [composePointId('batches', batchId)],
+    with_payload: true,
   });
+  return point ? mapPointToBatchRecord(point) : null;
 };
 
 // Fetch batch records for active shop
@@ -59,6 +77,10 @@ export const upsertBatchRecord = async (batch: BatchRecord): Promise<void> => {
     lineItems: batch.lineItems || [],
     createdAt: batch.createdAt,
     createdByUserId: batch.createdByUserId,
+    status: batch.status || 'RECEIVED',
+    purchaseOrderId: batch.purchaseOrderId || null,
+    receivedAt: batch.receivedAt || null,
+    discrepancyReport: batch.discrepancyReport || null,
   };
 
   await qdrantClient.upsert('batches', {
@@ -17,6 +17,7 @@ interface UpsertDanInventoryOfferInput {
   shopName?: string | null;
   shareScope: DanShareScope[];
   proofHash?: string;
+  signerFingerprint?: string | null;
   vector?: number[];
   updatedAt?: string;
 }
@@ -53,6 +54,7 @@ export const upsertDanInventoryOffer = async (
     shopName: input.shopName || null,
     shareScope: input.shareScope,
     proofHash: input.proofHash,
+    signerFingerprint: input.signerFingerprint || null,
     updatedAt: input.updatedAt || new Date().toISOString(),
   };
 
@@ -79,6 +81,36 @@ export const removeDanInventoryOffer = async (
   });
 };
 
+export const updateDanInventoryOfferQuantity = async (
+  inventoryUuid: string,
+  quantity: number,
+  signerFingerprint?: string | null,
+): Promise<void> => {
+  if (!qdrantClient) return;
+  if (!(await ensureReadyOrWarn(COLLECTION_NAME))) return;
+  await qdrantClient.setPayload(COLLECTION_NAME, {
+    wait: true,
+    payload: {
+      quantity,
+      ...(signerFingerprint ? { signerFingerprint } : {}),
+      updatedAt: new Date().toISOString(),
+    },
+    points: [inventoryUuid],
+  });
+};
+
+// Drop every offer published under a key, e.g. once that key is revoked
+export const removeDanInventoryOffersBySigner = async (
+  signerFingerprint: string,
+): Promise<void> => {
+  if (!qdrantClient) return;
+  if (!(await ensureReadyOrWarn(COLLECTION_NAME))) return;
+  await qdrantClient.delete(COLLECTION_NAME, {
+    wait: true,
+    filter: { must: [{ key: 'signerFingerprint', match: { value: signerFingerprint } }] },
+  });
+};
+
 export const listDanInventoryOffers = async (): Promise<DanInventoryOffer[]> => {
   const points = await fetchAllPoints(COLLECTION_NAME, null);
   return points
@@ -96,6 +128,7 @@ export const listDanInventoryOffers = async (): Promise<DanInventoryOffer[]> =>
         sellPrice: payload?.sellPrice ?? null,
         shareScope: payload?.shareScope || ['local'],
         proofHash: payload?.proofHash,
+        signerFingerprint: payload?.signerFingerprint || null,
         updatedAt: payload?.updatedAt || point.payload?.updatedAt || '',
       } as DanInventoryOffer;
     })
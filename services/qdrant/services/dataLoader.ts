@@ -109,6 +109,8 @@ export const loadDataFromQdrant = async (): Promise<void> => {
     const payload = point.payload as any;
     const batchUuid = payload?.batchId || String(point.id);
     if (!batchUuid) return;
+    // Batches expected from purchase orders hold no stock until received
+    if (payload?.status === 'EXPECTED') return;
     db.batches.set(String(batchUuid), {
       id: String(batchUuid),
       supplier: payload?.supplierId || 'Unknown Supplier',
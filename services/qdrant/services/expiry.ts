@@ -0,0 +1,146 @@
+/**
+ * Expiry Service
+ *
+ * Expiry lifecycle for inventory lots: lots past their expiration date are
+ * flipped to EXPIRED and written off to the stock ledger, and lots close to
+ * expiry are surfaced as markdown candidates with a suggested sell price.
+ * The same sweep runs server-side from server/expirySweep.js.
+ */
+
+import { qdrantClient, activeShopId } from '../core';
+import { ensureReadyOrWarn } from '../collections';
+import { fetchAllPoints } from '../queries';
+import { getAllStockItems, compareAndSetStockQuantity } from './inventory';
+import { recordStockMovement } from './stockMovements';
+import type {
+  ExpirySweepResult,
+  MarkdownCandidate,
+} from '../../../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RETAIL_MARKUP = 1.4; // Fallback only when a lot has no sellPrice
+
+export const DEFAULT_MARKDOWN_WINDOW_DAYS = 3;
+
+// Discount by days left until expiry (first matching tier wins)
+const MARKDOWN_TIERS: { maxDays: number; discount: number }[] = [
+  { maxDays: 1, discount: 0.5 },
+  { maxDays: 2, discount: 0.3 },
+  { maxDays: 7, discount: 0.15 },
+];
+
+const toDateKey = (value: string | Date) => (
+  typeof value === 'string' ? value.slice(0, 10) : value.toISOString().slice(0, 10)
+);
+
+// A lot is expired once its expiration day is before today (it is still sellable on the day itself)
+export const isPastExpiration = (expirationDate: string | undefined, now: Date = new Date()): boolean => {
+  if (!expirationDate) return false;
+  return toDateKey(expirationDate) < toDateKey(now);
+};
+
+const daysUntil = (expirationDate: string, now: Date) => (
+  Math.round((Date.parse(toDateKey(expirationDate)) - Date.parse(toDateKey(now))) / DAY_MS)
+);
+
+export const suggestMarkdownDiscount = (daysUntilExpiry: number): number => (
+  MARKDOWN_TIERS.find(tier => daysUntilExpiry <= tier.maxDays)?.discount ?? MARKDOWN_TIERS[MARKDOWN_TIERS.length - 1].discount
+);
+
+// Flip every lot past its expiration date to EXPIRED and write it off.
+// Pass shopId = null to sweep all shops.
+export const sweepExpiredStock = async (
+  shopId: string | null = activeShopId,
+  now: Date = new Date(),
+): Promise<ExpirySweepResult> => {
+  const result: ExpirySweepResult = { shopId, expiredLots: 0, unitsWrittenOff: 0, costOfGoodsLoss: 0 };
+  if (!qdrantClient) return result;
+  if (!(await ensureReadyOrWarn('items'))) return result;
+
+  const points = await fetchAllPoints('items', shopId);
+  for (const point of points) {
+    const payload = point.payload as any;
+    const status = payload?.status || 'ACTIVE';
+    if (status !== 'ACTIVE' || !isPastExpiration(payload?.expiration, now)) continue;
+
+    const inventoryUuid = payload.inventoryUuid || String(point.id);
+    const quantity = Number(payload.quantity) || 0;
+    const unitCost = Number(payload.buyPrice ?? payload.costPerUnit) || 0;
+    const costOfGoodsLoss = Math.round(quantity * unitCost * 100) / 100;
+
+    const updatedAt = await compareAndSetStockQuantity(inventoryUuid, payload.updatedAt, 0, {
+      status: 'EXPIRED',
+      expiredAt: now.toISOString(),
+      writtenOffQuantity: quantity,
+    });
+    if (!updatedAt) {
+      // The lot changed under us (e.g. a sale); the next sweep will pick it up again
+      console.warn(`[Expiry] Skipped ${inventoryUuid}: modified during sweep.`);
+      continue;
+    }
+
+    await recordStockMovement({
+      id: `expiry:${inventoryUuid}`,
+      inventoryUuid,
+      productId: payload.productId,
+      delta: -quantity,
+      quantityAfter: 0,
+      reason: 'expiry_write_off',
+      referenceId: toDateKey(payload.expiration),
+      costOfGoodsLoss,
+      shopId: payload.shopId,
+    });
+
+    result.expiredLots += 1;
+    result.unitsWrittenOff += quantity;
+    result.costOfGoodsLoss += costOfGoodsLoss;
+  }
+
+  result.costOfGoodsLoss = Math.round(result.costOfGoodsLoss * 100) / 100;
+  console.info(`[Expiry] Wrote off ${result.expiredLots} lots (${result.unitsWrittenOff} units, $${result.costOfGoodsLoss.toFixed(2)}).`);
+  return result;
+};
+
+// Active lots expiring within `withinDays`, soonest first, with a suggested discounted sellPrice
+export const getMarkdownCandidates = async (
+  shopId: string,
+  withinDays: number = DEFAULT_MARKDOWN_WINDOW_DAYS,
+  now: Date = new Date(),
+): Promise<MarkdownCandidate[]> => {
+  const items = await getAllStockItems(shopId);
+  return items
+    .filter(item => item.expirationDate && !isPastExpiration(item.expirationDate, now))
+    .map(item => ({ item, daysUntilExpiry: daysUntil(item.expirationDate, now) }))
+    .filter(({ daysUntilExpiry }) => daysUntilExpiry <= withinDays)
+    .map(({ item, daysUntilExpiry }) => {
+      const currentSellPrice = item.sellPrice ?? (item.buyPrice ?? item.costPerUnit) * RETAIL_MARKUP;
+      const discount = suggestMarkdownDiscount(daysUntilExpiry);
+      return {
+        inventoryUuid: item.inventoryUuid,
+        productId: item.productId,
+        expirationDate: item.expirationDate,
+        daysUntilExpiry,
+        quantity: item.quantity,
+        currentSellPrice,
+        suggestedSellPrice: Math.round(currentSellPrice * (1 - discount) * 100) / 100,
+        discountPercent: Math.round(discount * 100),
+      };
+    })
+    .sort((a, b) => a.daysUntilExpiry - b.daysUntilExpiry);
+};
+
+// Apply a markdown price to a lot
+export const applyMarkdown = async (inventoryUuid: string, sellPrice: number): Promise<void> => {
+  if (!qdrantClient) throw new Error('Qdrant client not initialized.');
+  if (!(sellPrice >= 0)) throw new Error('Markdown price must be zero or more.');
+
+  await qdrantClient.setPayload('items', {
+    wait: true,
+    payload: {
+      sellPrice,
+      markdownAppliedAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    },
+    points: [inventoryUuid],
+  });
+};
@@ -0,0 +1,197 @@
+/**
+ * Forecasting Service
+ *
+ * Deterministic demand forecasts from committed sales, computed locally (no
+ * Gemini). Each product's daily sales are deseasonalised by day of week and
+ * exponentially smoothed; the smoothed level times the weekday factor is the
+ * expected demand for a day, which gives days of cover and a stockout date.
+ */
+
+import { getAllSales } from './sales';
+import type { ProductForecast, ProductSummary, SaleTransaction } from '../../../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days of sales history the forecast looks at
+export const FORECAST_HISTORY_DAYS = 56;
+
+// Weight of the most recent day in the smoothed level
+export const SMOOTHING_ALPHA = 0.3;
+
+// Products projected to run out within this many days are flagged on the Dashboard
+export const STOCKOUT_ALERT_DAYS = 3;
+
+// Weekday factors need at least two of each weekday to mean anything
+const MIN_DAYS_FOR_SEASONALITY = 14;
+
+// Stop projecting after a year; slower sellers are reported as a year of cover
+const MAX_PROJECTION_DAYS = 365;
+
+const toDateKey = (date: Date) => date.toISOString().slice(0, 10);
+
+const startOfUtcDay = (date: Date) => Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+
+const round = (value: number, places: number) => {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+};
+
+// Units sold per day, per product, over the trailing window
+export const computeSalesVelocity = (
+  sales: SaleTransaction[],
+  windowDays: number,
+  now: Date = new Date(),
+): Map<string, number> => {
+  const since = now.getTime() - windowDays * DAY_MS;
+  const unitsSold = new Map<string, number>();
+  for (const sale of sales) {
+    if (new Date(sale.timestamp).getTime() < since) continue;
+    for (const item of sale.items) {
+      unitsSold.set(item.productId, (unitsSold.get(item.productId) || 0) + item.quantity);
+    }
+  }
+  return new Map(Array.from(unitsSold, ([productId, units]) => [productId, units / windowDays]));
+};
+
+// Daily units per product over the completed days of the history window, oldest
+// first. startDay is the UTC midnight (ms) of the first day.
+export const buildDailySalesSeries = (
+  sales: SaleTransaction[],
+  historyDays: number = FORECAST_HISTORY_DAYS,
+  now: Date = new Date(),
+): { startDay: number; series: Map<string, number[]> } => {
+  const today = startOfUtcDay(now);
+  const startDay = today - historyDays * DAY_MS;
+  const series = new Map<string, number[]>();
+
+  for (const sale of sales) {
+    const day = startOfUtcDay(new Date(sale.timestamp));
+    if (Number.isNaN(day) || day < startDay || day >= today) continue;
+    const index = Math.round((day - startDay) / DAY_MS);
+    for (const item of sale.items) {
+      const units = series.get(item.productId) || new Array(historyDays).fill(0);
+      units[index] += item.quantity;
+      series.set(item.productId, units);
+    }
+  }
+
+  return { startDay, series };
+};
+
+// Average demand on each weekday (Sunday first) relative to the average day
+export const computeDayOfWeekFactors = (units: number[], firstDayOfWeek: number): number[] => {
+  const totals = new Array(7).fill(0);
+  const counts = new Array(7).fill(0);
+  units.forEach((value, index) => {
+    const weekday = (firstDayOfWeek + index) % 7;
+    totals[weekday] += value;
+    counts[weekday] += 1;
+  });
+
+  const mean = units.reduce((sum, value) => sum + value, 0) / (units.length || 1);
+  if (units.length < MIN_DAYS_FOR_SEASONALITY || mean <= 0) return new Array(7).fill(1);
+  return totals.map((total, weekday) => (counts[weekday] > 0 ? total / counts[weekday] / mean : 1));
+};
+
+// Simple exponential smoothing; the level starts at the first week's average
+export const exponentialSmoothing = (values: number[], alpha: number = SMOOTHING_ALPHA): number => {
+  if (values.length === 0) return 0;
+  const seed = values.slice(0, 7);
+  let level = seed.reduce((sum, value) => sum + value, 0) / seed.length;
+  for (const value of values.slice(seed.length)) {
+    level = alpha * value + (1 - alpha) * level;
+  }
+  return level;
+};
+
+// Walk forward day by day until expected demand uses up the stock on hand
+const projectStockout = (
+  onHand: number,
+  level: number,
+  factors: number[],
+  now: Date,
+): { daysOfCover: number | null; projectedStockoutDate: string | null } => {
+  if (level <= 0) return { daysOfCover: null, projectedStockoutDate: null };
+  if (onHand <= 0) return { daysOfCover: 0, projectedStockoutDate: toDateKey(now) };
+
+  const today = startOfUtcDay(now);
+  let remaining = onHand;
+  for (let day = 0; day < MAX_PROJECTION_DAYS; day++) {
+    const date = new Date(today + day * DAY_MS);
+    const demand = level * factors[date.getUTCDay()];
+    if (demand > 0 && remaining <= demand) {
+      return { daysOfCover: round(day + remaining / demand, 1), projectedStockoutDate: toDateKey(date) };
+    }
+    remaining -= demand;
+  }
+  return { daysOfCover: MAX_PROJECTION_DAYS, projectedStockoutDate: null };
+};
+
+// Forecast every product with sales in the history window against its stock on
+// hand. Each series starts at the product's first sale in the window so products
+// added recently are not diluted by days they were not stocked.
+export const computeForecasts = (
+  sales: SaleTransaction[],
+  onHandByProduct: Map<string, number>,
+  now: Date = new Date(),
+  historyDays: number = FORECAST_HISTORY_DAYS,
+): Map<string, ProductForecast> => {
+  const { startDay, series } = buildDailySalesSeries(sales, historyDays, now);
+  const firstDayOfWeek = new Date(startDay).getUTCDay();
+  const forecasts = new Map<string, ProductForecast>();
+
+  series.forEach((fullUnits, productId) => {
+    const offset = fullUnits.findIndex(value => value > 0);
+    if (offset < 0) return;
+    const units = fullUnits.slice(offset);
+    const weekdayStart = (firstDayOfWeek + offset) % 7;
+
+    const factors = computeDayOfWeekFactors(units, weekdayStart);
+    const deseasonalised = units.map((value, index) => {
+      const factor = factors[(weekdayStart + index) % 7];
+      return factor > 0 ? value / factor : value;
+    });
+    const level = exponentialSmoothing(deseasonalised);
+
+    const today = startOfUtcDay(now);
+    let next7DaysDemand = 0;
+    for (let day = 0; day < 7; day++) {
+      next7DaysDemand += level * factors[new Date(today + day * DAY_MS).getUTCDay()];
+    }
+
+    forecasts.set(productId, {
+      productId,
+      dailyVelocity: round(units.reduce((sum, value) => sum + value, 0) / units.length, 2),
+      forecastDailyDemand: round(level, 2),
+      dayOfWeekFactors: factors.map(factor => round(factor, 2)),
+      next7DaysDemand: round(next7DaysDemand, 1),
+      ...projectStockout(onHandByProduct.get(productId) || 0, level, factors, now),
+    });
+  });
+
+  return forecasts;
+};
+
+// Forecasts for a shop from its committed sales
+export const getDemandForecasts = async (
+  shopId: string,
+  onHandByProduct: Map<string, number>,
+  now: Date = new Date(),
+): Promise<Map<string, ProductForecast>> => {
+  const sales = await getAllSales(shopId);
+  return computeForecasts(sales, onHandByProduct, now);
+};
+
+// Copy velocity, days of cover and stockout date onto product summaries
+export const applyForecastsToSummaries = (
+  summaries: ProductSummary[],
+  forecasts: Map<string, ProductForecast>,
+): ProductSummary[] => summaries.map(summary => {
+  const forecast = forecasts.get(summary.productId);
+  return {
+    ...summary,
+    dailyVelocity: forecast?.dailyVelocity ?? 0,
+    daysOfCover: forecast?.daysOfCover ?? null,
+    projectedStockoutDate: forecast?.projectedStockoutDate ?? null,
+  };
+});
@@ -12,7 +12,7 @@ export const db = {
   products: new Map<string, Product>(),
   batches: new Map<string, Batch>(),
   stockItems: new Map<number, StockItem>(),
-  salesTransactions: new Map<number, SaleTransaction>(),
+  salesTransactions: new Map<string, SaleTransaction>(),
   productVisualFeatures: new Map<string, { imageBase64: string; mimeType: string }>(),
   marketplaceListings: new Map<number, MarketplaceListing>(),
 };
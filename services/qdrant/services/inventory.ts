@@ -5,12 +5,13 @@
  * Integrates scanMetadata from OCR operations into inventory records.
  */
 
-import { qdrantClient, activeShopId } from '../core';
+import { qdrantClient, activeShopId, resolveActorId } from '../core';
 import { ensureReadyOrWarn } from '../collections';
 import { composePointId, composePointVectorPayload, resolveVector, buildPlaceholderVector } from '../vectors';
-import { fetchAllPoints, searchWithFilters } from '../queries';
+import { fetchAllPoints, fetchPointsByFilter, searchWithFilters } from '../queries';
 import { composeQueryVector } from '../vectors';
 import { embedText } from '../../embeddingService';
+import { recordStockMovements } from './stockMovements';
 import { v4 as uuidv4 } from 'uuid';
 import type {
   StockItem,
@@ -74,10 +75,14 @@ export const persistInventoryEntry = async (
   const buyPrice = stock.buyPrice ?? stock.costPerUnit ?? null;
   const sellPrice = stock.sellPrice ?? (buyPrice ? buyPrice * 1.4 : null);
   const shareScope = stock.shareScope || ['local'];
+  // Tags are only changed through tagStockItems; upsert replaces the whole
+  // payload, so carry the stored ones over rather than a possibly stale copy
+  const storedTags = (await getStockPayload(inventoryUuid).catch(() => null))?.tags;
+  const tags = storedTags ?? stock.tags ?? [];
 
   const payload: QdrantItemPayload = {
     inventoryUuid,
-    shopId: activeShopId,
+    shopId: stock.shopId || activeShopId,
     productId: stock.productId,
     batchId: stock.batchId || '',
     supplierId: stock.supplierId || undefined,
@@ -89,12 +94,13 @@ export const persistInventoryEntry = async (
     status: status as 'ACTIVE' | 'EMPTY' | 'EXPIRED',
     images: stock.images || [],
     scanMetadata: finalScanMetadata, // OCR metadata integrated here
-    createdByUserId: activeShopId,
+    createdByUserId: stock.createdByUserId || resolveActorId(),
     createdAt: stock.createdAt || now,
     updatedAt: stock.updatedAt || now,
     embeddings: vector,
     shareScope,
     shareProofHash: stock.shareProofHash,
+    tags,
   };
 
   await qdrantClient.upsert('items', {
@@ -107,6 +113,114 @@ export const persistInventoryEntry = async (
   });
 };
 
+// Read the stored payload of a single inventory item
+export const getStockPayload = async (inventoryUuid: string): Promise<QdrantItemPayload | null> => {
+  if (!qdrantClient) return null;
+  const records = await qdrantClient.retrieve('items', {
+    ids: [inventoryUuid],
+    with_payload: true,
+  });
+  return (records?.[0]?.payload as QdrantItemPayload | undefined) ?? null;
+};
+
+// Conditionally set an item's quantity (optimistic concurrency on updatedAt).
+// The write only lands while the stored updatedAt still equals expectedUpdatedAt;
+// returns the new updatedAt, or null when another writer got there first.
+// Status follows the quantity unless extraPayload sets it explicitly.
+export const compareAndSetStockQuantity = async (
+  inventoryUuid: string,
+  expectedUpdatedAt: string | undefined,
+  quantity: number,
+  extraPayload: Record<string, unknown> = {},
+): Promise<string | null> => {
+  if (!qdrantClient) throw new Error('Qdrant client not initialized.');
+
+  const writeId = uuidv4();
+  const updatedAt = new Date().toISOString();
+  await qdrantClient.setPayload('items', {
+    wait: true,
+    payload: {
+      status: quantity > 0 ? 'ACTIVE' : 'EMPTY',
+      ...extraPayload,
+      quantity,
+      updatedAt,
+      lastWriteId: writeId,
+    },
+    filter: {
+      must: [
+        { has_id: [inventoryUuid] },
+        expectedUpdatedAt
+          ? { key: 'updatedAt', match: { value: expectedUpdatedAt } }
+          : { is_empty: { key: 'updatedAt' } },
+      ],
+    },
+  } as any);
+
+  const stored = await getStockPayload(inventoryUuid);
+  return stored?.lastWriteId === writeId ? updatedAt : null;
+};
+
+// Add (or remove) units on an item, re-reading and retrying on concurrent writes; returns the new quantity
+export const adjustStockQuantity = async (
+  inventoryUuid: string,
+  delta: number,
+  extraPayload: Record<string, unknown> = {},
+  maxAttempts: number = 5,
+): Promise<number> => {
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    const current = await getStockPayload(inventoryUuid);
+    if (!current) throw new Error(`Inventory item ${inventoryUuid} not found`);
+
+    const quantity = (Number(current.quantity) || 0) + delta;
+    if (quantity < 0) throw new Error(`Inventory item ${inventoryUuid} has insufficient quantity.`);
+
+    const updatedAt = await compareAndSetStockQuantity(inventoryUuid, current.updatedAt, quantity, extraPayload);
+    if (updatedAt) return quantity;
+  }
+  throw new Error(`Inventory item ${inventoryUuid} is busy. Please try again.`);
+};
+
+export const normalizeStockTag = (tag: string) => tag.trim().toLowerCase();
+
+/**
+ * Add and remove tags on a shop's items, either listed by inventoryUuid or
+ * every item of a product. Returns how many items changed. Leaves updatedAt
+ * alone so tagging never collides with quantity compare-and-set writes.
+ */
+export const tagStockItems = async (input: {
+  shopId: string;
+  inventoryUuids?: string[];
+  productId?: string;
+  add?: string[];
+  remove?: string[];
+}): Promise<number> => {
+  if (!qdrantClient) throw new Error('Qdrant client not initialized.');
+  if (!input.inventoryUuids?.length && !input.productId) {
+    throw new Error('Tagging needs inventory items or a product.');
+  }
+  const add = (input.add || []).map(normalizeStockTag).filter(Boolean);
+  const remove = new Set((input.remove || []).map(normalizeStockTag));
+
+  const must: any[] = [{ key: 'shopId', match: { value: input.shopId } }];
+  if (input.inventoryUuids?.length) must.push({ has_id: input.inventoryUuids });
+  if (input.productId) must.push({ key: 'productId', match: { value: input.productId } });
+  const points = await fetchPointsByFilter('items', { must });
+
+  let changed = 0;
+  for (const point of points) {
+    const current: string[] = point.payload?.tags || [];
+    const next = Array.from(new Set([...current, ...add])).filter(tag => !remove.has(tag));
+    if (next.length === current.length && next.every(tag => current.includes(tag))) continue;
+    await qdrantClient.setPayload('items', {
+      wait: true,
+      payload: { tags: next },
+      points: [point.id],
+    });
+    changed++;
+  }
+  return changed;
+};
+
 // Update inventory entry with OCR data
 export const updateInventoryWithOCR = async (
   inventoryUuid: string,
@@ -210,12 +324,12 @@ export const createInventoryFromBatch = async (
           buyPrice,
           sellPrice,
           quantity: item.quantity,
-          expiration: defaultExpiration,
+          expiration: item.expirationDate || defaultExpiration,
           location: undefined,
           status: 'ACTIVE' as const,
           images: ocrData?.images || [],
           scanMetadata: ocrData?.scanMetadata || null,
-          createdByUserId: activeShopId,
+          createdByUserId: resolveActorId(),
           createdAt: now,
           updatedAt: now,
           embeddings: vector,
@@ -235,6 +349,14 @@ export const createInventoryFromBatch = async (
       wait: true,
       points: newInventoryPoints,
     });
+    await recordStockMovements(newInventoryPoints.map(point => ({
+      inventoryUuid: point.payload.inventoryUuid,
+      productId: point.payload.productId,
+      delta: point.payload.quantity,
+      quantityAfter: point.payload.quantity,
+      reason: 'receipt' as const,
+      referenceId: batch.id,
+    })));
     console.log(`[Inventory] Added ${newInventoryPoints.length} inventory items from batch ${batch.id}`);
   }
 };
@@ -289,6 +411,7 @@ export const searchRelevantInventoryItems = async (
       updatedAt: payload.updatedAt,
       shareScope: payload.shareScope || ['local'],
       shareProofHash: payload.shareProofHash,
+      tags: payload.tags || [],
     };
   });
 };
@@ -329,6 +452,7 @@ export const getAllStockItems = async (shopId: string): Promise<StockItem[]> =>
         updatedAt: payload.updatedAt,
       shareScope: payload.shareScope || ['local'],
       shareProofHash: payload.shareProofHash,
+      tags: payload.tags || [],
       };
     })
     .filter(item => item.quantity > 0 && item.status !== 'EMPTY' && item.status !== 'EXPIRED');
@@ -4,18 +4,20 @@
  * Handles marketplace listings and peer-to-peer transactions.
  */
 
-import { qdrantClient, activeShopId } from '../core';
+import { qdrantClient, activeShopId, activeShopName } from '../core';
 import { ensureReadyOrWarn } from '../collections';
 import { composePointId, composePointVectorPayload, resolveVector, buildPlaceholderVector } from '../vectors';
 import { fetchAllPoints } from '../queries';
+import { getAllShops } from './users';
+import { getCanonicalProductsForShopDirect } from './products';
+import { fetchWithSession } from '../../authSession';
+import { v4 as uuidv4 } from 'uuid';
 import type {
   MarketplaceListing,
   PeerListing,
+  PeerShop,
 } from '../../../types';
 
-// In-memory cache for marketplace listings
-const marketplaceListingsCache = new Map<number, MarketplaceListing>();
-
 // Persist marketplace listing
 const persistMarketplaceListing = async (listing: MarketplaceListing): Promise<void> => {
   if (!qdrantClient || !activeShopId) return;
@@ -31,52 +33,118 @@ const persistMarketplaceListing = async (listing: MarketplaceListing): Promise<v
       ...composePointVectorPayload('marketplace', vector),
       payload: {
         shopId: activeShopId,
+        shopName: activeShopName,
         listingId: listing.id,
         productId: listing.productId,
         productName: listing.productName,
         quantity: listing.quantity,
         price: listing.price,
+        version: 0,
+        createdAt: new Date().toISOString(),
       },
-    }],
+    }] as any,
   });
 };
 
+const mapPointToListing = (point: { payload?: any }): MarketplaceListing => {
+  const payload = point.payload as any;
+  return {
+    id: Number(payload.listingId),
+    productId: payload.productId,
+    productName: payload.productName,
+    quantity: Number(payload.quantity) || 0,
+    price: Number(payload.price) || 0,
+  };
+};
+
 // List product on marketplace
 export const listProductOnMarketplace = async (
   listing: Omit<MarketplaceListing, 'id'>
 ): Promise<void> => {
   if (!activeShopId) throw new Error('No shop selected.');
+  if (listing.quantity <= 0) throw new Error('Listing quantity must be greater than zero.');
 
   const newListing: MarketplaceListing = {
     ...listing,
     id: Date.now(),
   };
 
-  marketplaceListingsCache.set(newListing.id, newListing);
   await persistMarketplaceListing(newListing);
   console.info(`[Marketplace] Listed ${newListing.quantity} of ${newListing.productName}.`);
 };
 
 // Get marketplace listings for active shop
 export const getMyMarketplaceListings = async (): Promise<MarketplaceListing[]> => {
-  // Return from cache if available, otherwise fetch from Qdrant
-  if (marketplaceListingsCache.size > 0) {
-    return Array.from(marketplaceListingsCache.values());
-  }
-
   if (!activeShopId) return [];
 
   const points = await fetchAllPoints('marketplace', activeShopId);
-  return points.map(point => {
+  return points
+    .map(mapPointToListing)
+    .filter(listing => listing.quantity > 0);
+};
+
+// Get listings from every other shop, grouped by seller
+export const getPeerListings = async (excludeShopId: string | null): Promise<PeerShop[]> => {
+  if (!qdrantClient) return [];
+
+  const points = (await fetchAllPoints('marketplace', null))
+    .filter(point => point.payload?.shopId && point.payload.shopId !== excludeShopId)
+    .filter(point => Number(point.payload?.quantity) > 0);
+  if (points.length === 0) return [];
+
+  const [shops, products] = await Promise.all([
+    getAllShops(),
+    getCanonicalProductsForShopDirect(new Set(points.map(point => point.payload.productId).filter(Boolean))),
+  ]);
+  const shopNames = new Map(shops.map(shop => [shop.id, shop.name]));
+  const productsById = new Map(products.map(product => [product.id, product]));
+
+  const peers = new Map<string, PeerShop>();
+  for (const point of points) {
     const payload = point.payload as any;
-    return {
-      id: payload.listingId || Date.now(),
-      productId: payload.productId,
+    const shopId = String(payload.shopId);
+    const shopName = shopNames.get(shopId) || payload.shopName || shopId;
+    const product = productsById.get(payload.productId);
+
+    let peer = peers.get(shopId);
+    if (!peer) {
+      peer = { id: shopId, name: shopName, listings: [] };
+      peers.set(shopId, peer);
+    }
+
+    peer.listings.push({
+      listingId: String(payload.listingId),
       productName: payload.productName,
-      quantity: payload.quantity,
-      price: payload.price,
-    } as MarketplaceListing;
+      manufacturer: product?.manufacturer || '',
+      category: product?.category || '',
+      quantity: Number(payload.quantity),
+      quantityType: 'units',
+      price: Number(payload.price) || 0,
+      seller: { id: shopId, name: shopName },
+    });
+  }
+
+  return Array.from(peers.values()).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Buy units of a peer listing. The server claims them on the listing and
+// deducts them from the seller's stock (server/marketplace.js), since the
+// buyer's session cannot write the seller's records.
+export const consumeMarketplaceListing = async (listingId: string, quantity: number): Promise<void> => {
+  if (!activeShopId) throw new Error('No shop selected.');
+  if (!Number.isInteger(quantity) || quantity <= 0) throw new Error('Quantity must be a positive whole number.');
+
+  const response = await fetchWithSession(`/api/marketplace/listings/${encodeURIComponent(listingId)}/purchase`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ quantity }),
   });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Marketplace request failed (${response.status})`);
+  }
+
+  console.info(`[Marketplace] Reserved ${quantity} of ${data.listing?.productName} from shop ${data.listing?.shopId}.`);
 };
 
 // Purchase from marketplace (creates batch and sale)
@@ -109,7 +177,7 @@ export const purchaseFromMarketplace = async (
   await createBatchFn(batchData, [itemData]);
 
   const sale = {
-    id: Date.now(),
+    id: uuidv4(),
     timestamp: new Date().toISOString(),
     items: [{
       productId: item.productName.toLowerCase().trim().replace(/\s+/g, '-'),
@@ -0,0 +1,227 @@
+/**
+ * Notifications Service
+ *
+ * In-app notification inbox and per-user delivery preferences. Each
+ * recipient gets their own point so read state is tracked per user. Email
+ * delivery only happens server-side (server/notifications.js), which reads
+ * the same subscriptions.
+ */
+
+import { qdrantClient } from '../core';
+import { ensureReadyOrWarn } from '../collections';
+import { composePointId, composePointVectorPayload, resolveVector, buildPlaceholderVector } from '../vectors';
+import { fetchAllPoints, fetchPointsByFilter } from '../queries';
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  AppNotification,
+  NotificationLink,
+  NotificationSubscription,
+} from '../../../types';
+
+const INBOX_LIMIT = 50;
+
+export interface CreateNotificationInput {
+  shopId: string;
+  title: string;
+  message: string;
+  link?: NotificationLink | null;
+  policyId?: string | null;
+  eventId?: string | null;
+}
+
+const mapPointToNotification = (point: { id: string | number; payload?: any }): AppNotification => {
+  const payload = point.payload as any;
+  return {
+    id: payload?.notificationId || String(point.id),
+    shopId: payload?.shopId || '',
+    userId: payload?.userId || '',
+    title: payload?.title || '',
+    message: payload?.message || '',
+    link: payload?.link || null,
+    policyId: payload?.policyId || null,
+    eventId: payload?.eventId || null,
+    read: payload?.read === true,
+    readAt: payload?.readAt || null,
+    createdAt: payload?.createdAt || '',
+  };
+};
+
+const mapPointToSubscription = (point: { payload?: any }): NotificationSubscription => {
+  const payload = point.payload as any;
+  return {
+    shopId: payload?.shopId || '',
+    userId: payload?.userId || '',
+    inApp: payload?.inApp !== false,
+    email: payload?.email === true,
+    emailAddress: payload?.emailAddress || null,
+    mutedPolicyIds: payload?.mutedPolicyIds || [],
+    updatedAt: payload?.updatedAt || '',
+  };
+};
+
+const defaultSubscription = (shopId: string, userId: string): NotificationSubscription => ({
+  shopId,
+  userId,
+  inApp: true,
+  email: false,
+  emailAddress: null,
+  mutedPolicyIds: [],
+  updatedAt: '',
+});
+
+const subscriptionPointId = (shopId: string, userId: string) =>
+  composePointId('notification_subscriptions', `${shopId}:${userId}`);
+
+// ===== SUBSCRIPTIONS =====
+
+export const getNotificationSubscription = async (
+  shopId: string,
+  userId: string,
+): Promise<NotificationSubscription> => {
+  if (!qdrantClient) return defaultSubscription(shopId, userId);
+  if (!(await ensureReadyOrWarn('notification_subscriptions'))) return defaultSubscription(shopId, userId);
+
+  const [point] = await qdrantClient.retrieve('notification_subscriptions', {
+    ids: [subscriptionPointId(shopId, userId)],
+    with_payload: true,
+  });
+  return point ? mapPointToSubscription(point) : defaultSubscription(shopId, userId);
+};
+
+export const saveNotificationSubscription = async (
+  subscription: Omit<NotificationSubscription, 'updatedAt'>,
+): Promise<NotificationSubscription> => {
+  if (!qdrantClient) throw new Error('Qdrant client not initialized.');
+  if (!(await ensureReadyOrWarn('notification_subscriptions'))) {
+    throw new Error('Notification settings are unavailable.');
+  }
+  if (subscription.email && !subscription.emailAddress?.trim()) {
+    throw new Error('Enter an email address to receive email notifications.');
+  }
+
+  const saved: NotificationSubscription = {
+    ...subscription,
+    emailAddress: subscription.emailAddress?.trim() || null,
+    mutedPolicyIds: subscription.mutedPolicyIds || [],
+    updatedAt: new Date().toISOString(),
+  };
+  const key = `${saved.shopId}:${saved.userId}`;
+  const vector = resolveVector(buildPlaceholderVector(key), key, `notification_subscriptions:${key}`);
+  await qdrantClient.upsert('notification_subscriptions', {
+    wait: true,
+    points: [{
+      id: subscriptionPointId(saved.shopId, saved.userId),
+      ...composePointVectorPayload('notification_subscriptions', vector),
+      payload: { ...saved },
+    }] as any,
+  });
+  return saved;
+};
+
+/**
+ * Users who should receive a shop notification: every user of the shop plus
+ * anyone with a subscription for it, minus those who muted the policy.
+ */
+export const resolveNotificationRecipients = async (
+  shopId: string,
+  policyId?: string | null,
+): Promise<NotificationSubscription[]> => {
+  const [userPoints, subscriptionPoints] = await Promise.all([
+    fetchAllPoints('users', shopId),
+    fetchAllPoints('notification_subscriptions', shopId),
+  ]);
+  const byUser = new Map<string, NotificationSubscription>();
+  userPoints.forEach(point => {
+    const userId = point.payload?.userId;
+    if (userId) byUser.set(userId, defaultSubscription(shopId, userId));
+  });
+  subscriptionPoints.map(mapPointToSubscription).forEach(subscription => {
+    if (subscription.userId) byUser.set(subscription.userId, subscription);
+  });
+  return Array.from(byUser.values())
+    .filter(subscription => !policyId || !subscription.mutedPolicyIds.includes(policyId));
+};
+
+// ===== INBOX =====
+
+// Write one in-app notification per subscribed recipient
+export const createNotifications = async (
+  input: CreateNotificationInput,
+): Promise<AppNotification[]> => {
+  if (!qdrantClient) return [];
+  if (!(await ensureReadyOrWarn('notifications'))) return [];
+
+  const recipients = (await resolveNotificationRecipients(input.shopId, input.policyId))
+    .filter(subscription => subscription.inApp);
+  if (!recipients.length) return [];
+
+  const createdAt = new Date().toISOString();
+  const notifications: AppNotification[] = recipients.map(recipient => ({
+    id: uuidv4(),
+    shopId: input.shopId,
+    userId: recipient.userId,
+    title: input.title,
+    message: input.message,
+    link: input.link || null,
+    policyId: input.policyId || null,
+    eventId: input.eventId || null,
+    read: false,
+    readAt: null,
+    createdAt,
+  }));
+
+  await qdrantClient.upsert('notifications', {
+    wait: true,
+    points: notifications.map(notification => {
+      const vector = resolveVector(buildPlaceholderVector(notification.id), notification.id, `notifications:${notification.id}`);
+      return {
+        id: composePointId('notifications', notification.id),
+        ...composePointVectorPayload('notifications', vector),
+        payload: { notificationId: notification.id, ...notification },
+      };
+    }) as any,
+  });
+  return notifications;
+};
+
+// A user's inbox for one shop, newest first
+export const getNotifications = async (
+  shopId: string,
+  userId: string,
+  limit: number = INBOX_LIMIT,
+): Promise<AppNotification[]> => {
+  const points = await fetchPointsByFilter('notifications', {
+    must: [
+      { key: 'shopId', match: { value: shopId } },
+      { key: 'userId', match: { value: userId } },
+    ],
+  });
+  return points
+    .map(mapPointToNotification)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, limit);
+};
+
+export const markNotificationRead = async (notificationId: string, read: boolean = true): Promise<void> => {
+  if (!qdrantClient) throw new Error('Qdrant client not initialized.');
+  await qdrantClient.setPayload('notifications', {
+    wait: true,
+    payload: { read, readAt: read ? new Date().toISOString() : null },
+    points: [composePointId('notifications', notificationId)],
+  });
+};
+
+export const markAllNotificationsRead = async (shopId: string, userId: string): Promise<void> => {
+  if (!qdrantClient) throw new Error('Qdrant client not initialized.');
+  await qdrantClient.setPayload('notifications', {
+    wait: true,
+    payload: { read: true, readAt: new Date().toISOString() },
+    filter: {
+      must: [
+        { key: 'shopId', match: { value: shopId } },
+        { key: 'userId', match: { value: userId } },
+        { key: 'read', match: { value: false } },
+      ],
+    },
+  });
+};
@@ -0,0 +1,205 @@
+/**
+ * Orders Service
+ *
+ * Handles the B2B supply chain lifecycle: Order → SupplyProposal → Delivery.
+ * Reads come straight from Qdrant; every write goes through /api/orders
+ * (server/orders.js), which takes the parties from the session and applies
+ * each status change only while the stored status is unchanged, so stale UI
+ * data or a concurrent caller cannot skip or repeat a step.
+ */
+
+import { qdrantClient } from '../core';
+import { ensureReadyOrWarn } from '../collections';
+import { composePointId } from '../vectors';
+import { fetchAllPoints, fetchPointsByFilter } from '../queries';
+import { fetchWithSession } from '../../authSession';
+import type {
+  Order,
+  SupplyProposal,
+  Delivery,
+} from '../../../types';
+
+type DeliveryStatus = Delivery['status'];
+type ShopDetails = Pick<Order['requesterShop'], 'name' | 'address'>;
+
+const requireClient = async (collection: 'orders' | 'proposals' | 'deliveries') => {
+  if (!qdrantClient || !(await ensureReadyOrWarn(collection))) {
+    throw new Error(`Qdrant collection '${collection}' is not available.`);
+  }
+  return qdrantClient;
+};
+
+const ordersRequest = async <T>(path: string, body: Record<string, unknown> = {}): Promise<T> => {
+  const response = await fetchWithSession(`/api/orders${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Orders request failed (${response.status})`);
+  }
+  return data as T;
+};
+
+// ===== MAPPERS =====
+
+const mapPointToOrder = (point: { id: string | number; payload?: any }): Order => {
+  const payload = point.payload as any;
+  return {
+    id: payload?.orderId || String(point.id),
+    requesterShop: payload?.requesterShop || { id: payload?.requesterShopId || '', name: '', address: '' },
+    productName: payload?.productName || '',
+    quantity: payload?.quantity || 0,
+    status: payload?.status || 'OPEN',
+    createdAt: payload?.createdAt || '',
+  };
+};
+
+const mapPointToProposal = (point: { id: string | number; payload?: any }): SupplyProposal => {
+  const payload = point.payload as any;
+  return {
+    id: payload?.proposalId || String(point.id),
+    orderId: payload?.orderId || '',
+    supplierShop: payload?.supplierShop || { id: payload?.supplierShopId || '', name: '', address: '' },
+    pricePerUnit: payload?.pricePerUnit || 0,
+    status: payload?.status || 'PENDING',
+  };
+};
+
+const mapPointToDelivery = (point: { id: string | number; payload?: any }): Delivery => {
+  const payload = point.payload as any;
+  return {
+    id: payload?.deliveryId || String(point.id),
+    orderId: payload?.orderId || '',
+    proposalId: payload?.proposalId || '',
+    productName: payload?.productName || '',
+    quantity: payload?.quantity || 0,
+    pickup: payload?.pickup || { name: '', address: '' },
+    dropoff: payload?.dropoff || { name: '', address: '' },
+    status: payload?.status || 'AWAITING_DRIVER',
+    driver: payload?.driver || undefined,
+    fee: payload?.fee || 0,
+  };
+};
+
+const retrieveOne = async (
+  collection: 'orders' | 'proposals' | 'deliveries',
+  entityId: string,
+): Promise<{ id: string | number; payload?: any } | null> => {
+  const client = await requireClient(collection);
+  const records = await client.retrieve(collection, {
+    ids: [composePointId(collection, entityId)],
+    with_payload: true,
+  });
+  return records[0] || null;
+};
+
+// ===== READS =====
+
+export const getOrderById = async (orderId: string): Promise<Order | null> => {
+  const point = await retrieveOne('orders', orderId);
+  return point ? mapPointToOrder(point) : null;
+};
+
+export const getProposalById = async (proposalId: string): Promise<SupplyProposal | null> => {
+  const point = await retrieveOne('proposals', proposalId);
+  return point ? mapPointToProposal(point) : null;
+};
+
+export const getDeliveryById = async (deliveryId: string): Promise<Delivery | null> => {
+  const point = await retrieveOne('deliveries', deliveryId);
+  return point ? mapPointToDelivery(point) : null;
+};
+
+export const listOrders = async (): Promise<Order[]> => {
+  const points = await fetchAllPoints('orders', null);
+  return points
+    .map(mapPointToOrder)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const listProposalsForOrders = async (orderIds: string[]): Promise<SupplyProposal[]> => {
+  if (orderIds.length === 0) return [];
+  const points = await fetchPointsByFilter('proposals', {
+    must: [{ key: 'orderId', match: { any: orderIds } }],
+  });
+  return points.map(mapPointToProposal);
+};
+
+export const listDeliveriesByStatus = async (status: DeliveryStatus): Promise<Delivery[]> => {
+  const points = await fetchPointsByFilter('deliveries', {
+    must: [{ key: 'status', match: { value: status } }],
+  });
+  return points.map(mapPointToDelivery);
+};
+
+export const listDeliveriesForDriver = async (driverId: string): Promise<Delivery[]> => {
+  const points = await fetchPointsByFilter('deliveries', {
+    must: [{ key: 'driverId', match: { value: driverId } }],
+  });
+  return points.map(mapPointToDelivery);
+};
+
+// ===== LIFECYCLE =====
+
+// The requester is the session's active shop; `requesterShop` only supplies its display name and address
+export const openOrder = async (input: {
+  requesterShop: ShopDetails;
+  productName: string;
+  quantity: number;
+}): Promise<Order> => {
+  if (!input.productName.trim()) throw new Error('Product name is required.');
+  if (!Number.isFinite(input.quantity) || input.quantity <= 0) {
+    throw new Error('Order quantity must be greater than zero.');
+  }
+  const { order } = await ordersRequest<{ order: Order }>('', {
+    productName: input.productName.trim(),
+    quantity: Math.floor(input.quantity),
+    requesterShop: { name: input.requesterShop.name, address: input.requesterShop.address },
+  });
+  console.info(`[Orders] Opened order ${order.id} for ${order.quantity}x ${order.productName}.`);
+  return order;
+};
+
+// The supplier is the session's active shop
+export const submitProposal = async (input: {
+  orderId: string;
+  supplierShop: ShopDetails;
+  pricePerUnit: number;
+}): Promise<SupplyProposal> => {
+  if (!Number.isFinite(input.pricePerUnit) || input.pricePerUnit <= 0) {
+    throw new Error('Price per unit must be greater than zero.');
+  }
+  const { proposal } = await ordersRequest<{ proposal: SupplyProposal }>(`/${encodeURIComponent(input.orderId)}/proposals`, {
+    pricePerUnit: input.pricePerUnit,
+    supplierShop: { name: input.supplierShop.name, address: input.supplierShop.address },
+  });
+  console.info(`[Orders] Proposal ${proposal.id} submitted for order ${proposal.orderId}.`);
+  return proposal;
+};
+
+/**
+ * Accept a proposal as the requesting shop: the server marks it ACCEPTED,
+ * rejects competing PENDING proposals, creates the Delivery and moves the
+ * order to PENDING_DELIVERY. Only one accept per order succeeds.
+ */
+export const acceptSupplyProposal = async (proposalId: string): Promise<Delivery> => {
+  const { delivery } = await ordersRequest<{ delivery: Delivery }>(`/proposals/${encodeURIComponent(proposalId)}/accept`);
+  console.info(`[Orders] Accepted proposal ${proposalId}; delivery ${delivery.id} awaiting driver.`);
+  return delivery;
+};
+
+// Pick up a delivery as the session's (verified) driver
+export const assignDeliveryToDriver = async (deliveryId: string): Promise<Delivery> => {
+  const { delivery } = await ordersRequest<{ delivery: Delivery }>(`/deliveries/${encodeURIComponent(deliveryId)}/pickup`);
+  console.info(`[Orders] Picked up delivery ${delivery.id}.`);
+  return delivery;
+};
+
+// Complete a delivery as its assigned driver; closes the order
+export const completeDelivery = async (deliveryId: string): Promise<Delivery> => {
+  const { delivery } = await ordersRequest<{ delivery: Delivery }>(`/deliveries/${encodeURIComponent(deliveryId)}/complete`);
+  console.info(`[Orders] Delivery ${delivery.id} completed; order ${delivery.orderId} closed.`);
+  return delivery;
+};
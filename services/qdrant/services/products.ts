@@ -4,7 +4,7 @@
  * Handles canonical product definitions with semantic search.
  */
 
-import { qdrantClient, activeShopId } from '../core';
+import { qdrantClient, activeShopId, activeStaffRole, resolveActorId } from '../core';
 import { ensureReadyOrWarn } from '../collections';
 import { composePointId, composePointVectorPayload, resolveVector, buildPlaceholderVector } from '../vectors';
 import { fetchAllPoints } from '../queries';
@@ -25,6 +25,7 @@ const mapPointToProductDefinition = (point: { id: number | string; payload?: any
     category: payload?.category || '',
     description: payload?.description || '',
     defaultSupplierId: payload?.defaultSupplierId || null,
+    shopId: payload?.shopId || null,
     images: payload?.images || [],
     audit: payload?.audit || [],
     embeddings: payload?.embeddings || undefined,
@@ -147,6 +148,7 @@ export const upsertProductDefinition = async (
     category: product.category,
     description: product.description || '',
     defaultSupplierId: product.defaultSupplierId || null,
+    shopId: product.shopId || activeShopId,
     images: product.images || [],
     audit: auditEntry ? [...(product.audit || []), auditEntry] : product.audit || [],
     embeddings: payloadEmbeddings,
@@ -162,6 +164,13 @@ export const upsertProductDefinition = async (
   });
 };
 
+// Audit entry for the signed-in user (owner or staff member) acting in the active shop
+const buildAuditEntry = (action: string): AuditEntry | undefined => {
+  const userId = resolveActorId();
+  if (!userId) return undefined;
+  return { userId, shopId: activeShopId, staffRole: activeStaffRole, action, timestamp: new Date().toISOString() };
+};
+
 // Create new canonical product
 export const createCanonicalProduct = async (input: {
   name: string;
@@ -179,14 +188,13 @@ export const createCanonicalProduct = async (input: {
     category: input.category.trim(),
     description: input.description?.trim() || '',
     defaultSupplierId: input.defaultSupplierId || null,
+    shopId: activeShopId,
     images: input.images || [],
     audit: [],
     embeddings: input.embeddings || (input.name ? await embedText(input.name) : buildPlaceholderVector(uuidv4())),
   };
 
-  const auditEntry: AuditEntry | undefined = activeShopId
-    ? { userId: activeShopId, shopId: activeShopId, action: 'create', timestamp: new Date().toISOString() }
-    : undefined;
+  const auditEntry = buildAuditEntry('create');
 
   await upsertProductDefinition(productDef, auditEntry);
   return productDef;
@@ -225,9 +233,7 @@ export const updateCanonicalProduct = async (
     embeddings: newEmbeddings,
   };
 
-  const auditEntry: AuditEntry | undefined = activeShopId
-    ? { userId: activeShopId, shopId: activeShopId, action: 'update', timestamp: new Date().toISOString() }
-    : undefined;
+  const auditEntry = buildAuditEntry('update');
 
   await upsertProductDefinition(updatedProduct, auditEntry);
   return updatedProduct;
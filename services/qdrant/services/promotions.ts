@@ -0,0 +1,282 @@
+/**
+ * Promotions Service
+ *
+ * Time-boxed promotional pricing scoped to a product, a category or a single
+ * inventory lot. `applyPromotions` is the one pricing rule used by cart totals
+ * and by recordSale, so what a customer sees is what lands in priceAtSale.
+ */
+
+import { qdrantClient, activeShopId } from '../core';
+import { ensureReadyOrWarn } from '../collections';
+import { composePointId, composePointVectorPayload, resolveVector, buildPlaceholderVector } from '../vectors';
+import { fetchAllPoints } from '../queries';
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  Promotion,
+  PromotionScope,
+  PromotionType,
+} from '../../../types';
+
+export type PromotionInput = {
+  id?: string; // Pass an existing id to update the promotion
+  name: string;
+  type: PromotionType;
+  value?: number;
+  buyQuantity?: number;
+  payQuantity?: number;
+  scope: PromotionScope;
+  targetId: string;
+  productId?: string;
+  startsAt: string;
+  endsAt: string;
+  active?: boolean;
+};
+
+// One priced unit group: a stock lot in a sale, or a product in a cart preview
+export interface PricingLine {
+  productId: string;
+  category?: string;
+  inventoryUuid?: string;
+  quantity: number;
+  basePrice: number;
+}
+
+export interface PricedLine extends PricingLine {
+  unitPrice: number;
+  lineTotal: number;
+  promotionId?: string;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const mapPointToPromotion = (point: { id: string | number; payload?: any }): Promotion => {
+  const payload = point.payload as any;
+  return {
+    id: payload?.promotionId || String(point.id),
+    shopId: payload?.shopId || '',
+    name: payload?.name || '',
+    type: payload?.type || 'PERCENTAGE',
+    value: Number(payload?.value) || 0,
+    buyQuantity: payload?.buyQuantity ?? undefined,
+    payQuantity: payload?.payQuantity ?? undefined,
+    scope: payload?.scope || 'product',
+    targetId: payload?.targetId || '',
+    productId: payload?.productId || undefined,
+    startsAt: payload?.startsAt || '',
+    endsAt: payload?.endsAt || '',
+    active: payload?.active !== false,
+    createdAt: payload?.createdAt || '',
+    updatedAt: payload?.updatedAt || '',
+  };
+};
+
+const validatePromotion = (input: PromotionInput) => {
+  if (!input.name?.trim()) throw new Error('Promotion name is required.');
+  if (!input.targetId) throw new Error('Promotion target is required.');
+  if (!(Date.parse(input.startsAt) < Date.parse(input.endsAt))) {
+    throw new Error('Promotion must end after it starts.');
+  }
+  switch (input.type) {
+    case 'PERCENTAGE':
+      if (!(Number(input.value) > 0 && Number(input.value) <= 100)) {
+        throw new Error('Percentage discount must be between 0 and 100.');
+      }
+      break;
+    case 'FIXED':
+      if (!(Number(input.value) > 0)) throw new Error('Fixed discount must be greater than zero.');
+      break;
+    case 'MULTI_BUY': {
+      const buy = Number(input.buyQuantity);
+      const pay = Number(input.payQuantity);
+      if (!Number.isInteger(buy) || !Number.isInteger(pay) || pay < 0 || buy <= pay) {
+        throw new Error('Multi-buy needs whole quantities with buy greater than pay (e.g. buy 3, pay 2).');
+      }
+      break;
+    }
+    default:
+      throw new Error(`Unknown promotion type: ${input.type}`);
+  }
+};
+
+// Create or update a promotion for the active shop
+export const savePromotion = async (input: PromotionInput): Promise<Promotion> => {
+  if (!activeShopId) throw new Error('No shop selected.');
+  if (!qdrantClient) throw new Error('Qdrant client not initialized.');
+  if (!(await ensureReadyOrWarn('promotions'))) throw new Error('Promotions are unavailable.');
+  validatePromotion(input);
+
+  const now = new Date().toISOString();
+  const id = input.id || uuidv4();
+  const existing = input.id ? await getPromotion(input.id) : null;
+  if (existing && existing.shopId !== activeShopId) throw new Error('Promotion belongs to another shop.');
+
+  const promotion: Promotion = {
+    id,
+    shopId: activeShopId,
+    name: input.name.trim(),
+    type: input.type,
+    value: input.type === 'MULTI_BUY' ? 0 : Number(input.value),
+    buyQuantity: input.type === 'MULTI_BUY' ? Number(input.buyQuantity) : undefined,
+    payQuantity: input.type === 'MULTI_BUY' ? Number(input.payQuantity) : undefined,
+    scope: input.scope,
+    targetId: input.targetId,
+    productId: input.scope === 'product' ? input.targetId : input.productId,
+    startsAt: new Date(input.startsAt).toISOString(),
+    endsAt: new Date(input.endsAt).toISOString(),
+    active: input.active ?? true,
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+  };
+
+  const vector = resolveVector(buildPlaceholderVector(id), id, `promotions:${id}`);
+  await qdrantClient.upsert('promotions', {
+    wait: true,
+    points: [{
+      id: composePointId('promotions', id),
+      ...composePointVectorPayload('promotions', vector),
+      payload: {
+        promotionId: promotion.id,
+        shopId: promotion.shopId,
+        name: promotion.name,
+        type: promotion.type,
+        value: promotion.value,
+        buyQuantity: promotion.buyQuantity ?? null,
+        payQuantity: promotion.payQuantity ?? null,
+        scope: promotion.scope,
+        targetId: promotion.targetId,
+        productId: promotion.productId ?? null,
+        startsAt: promotion.startsAt,
+        endsAt: promotion.endsAt,
+        active: promotion.active,
+        createdAt: promotion.createdAt,
+        updatedAt: promotion.updatedAt,
+      },
+    }] as any,
+  });
+
+  return promotion;
+};
+
+export const getPromotion = async (promotionId: string): Promise<Promotion | null> => {
+  if (!qdrantClient) return null;
+  if (!(await ensureReadyOrWarn('promotions'))) return null;
+
+  const [point] = await qdrantClient.retrieve('promotions', {
+    ids: [composePointId('promotions', promotionId)],
+    with_payload: true,
+  });
+  return point ? mapPointToPromotion(point) : null;
+};
+
+// All promotions for a shop, newest first
+export const getPromotions = async (shopId: string): Promise<Promotion[]> => {
+  const points = await fetchAllPoints('promotions', shopId);
+  return points
+    .map(mapPointToPromotion)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const isPromotionActive = (promotion: Promotion, now: Date = new Date()): boolean => (
+  promotion.active
+  && Date.parse(promotion.startsAt) <= now.getTime()
+  && now.getTime() <= Date.parse(promotion.endsAt)
+);
+
+export const getActivePromotions = async (shopId: string, now: Date = new Date()): Promise<Promotion[]> => {
+  const promotions = await getPromotions(shopId);
+  return promotions.filter(promotion => isPromotionActive(promotion, now));
+};
+
+// Turn a promotion on or off without changing its window
+export const setPromotionActive = async (promotionId: string, active: boolean): Promise<void> => {
+  if (!qdrantClient) throw new Error('Qdrant client not initialized.');
+
+  await qdrantClient.setPayload('promotions', {
+    wait: true,
+    payload: { active, updatedAt: new Date().toISOString() },
+    points: [composePointId('promotions', promotionId)],
+  });
+};
+
+// ===== PRICING =====
+
+export const promotionAppliesTo = (promotion: Promotion, line: Omit<PricingLine, 'quantity' | 'basePrice'>): boolean => {
+  switch (promotion.scope) {
+    case 'product':
+      return promotion.targetId === line.productId;
+    case 'category':
+      return !!line.category && promotion.targetId === line.category;
+    case 'lot':
+      return !!line.inventoryUuid && promotion.targetId === line.inventoryUuid;
+    default:
+      return false;
+  }
+};
+
+const discountUnitPrice = (promotion: Promotion, basePrice: number): number => {
+  if (promotion.type === 'PERCENTAGE') return basePrice * (1 - promotion.value / 100);
+  if (promotion.type === 'FIXED') return Math.max(0, basePrice - promotion.value);
+  return basePrice;
+};
+
+// Price lines with the shop's promotions. Promotions never stack: each line gets
+// its cheapest per-unit deal, and a multi-buy (counted across all lines of a
+// product) replaces those deals only when it is cheaper for the customer.
+export const applyPromotions = (
+  lines: PricingLine[],
+  promotions: Promotion[],
+  now: Date = new Date(),
+): PricedLine[] => {
+  const live = promotions.filter(promotion => isPromotionActive(promotion, now));
+
+  const priced: PricedLine[] = lines.map(line => {
+    let unitPrice = line.basePrice;
+    let promotionId: string | undefined;
+    for (const promotion of live) {
+      if (promotion.type === 'MULTI_BUY' || !promotionAppliesTo(promotion, line)) continue;
+      const candidate = discountUnitPrice(promotion, line.basePrice);
+      if (candidate < unitPrice) {
+        unitPrice = candidate;
+        promotionId = promotion.id;
+      }
+    }
+    unitPrice = roundCents(unitPrice);
+    return { ...line, unitPrice, lineTotal: roundCents(unitPrice * line.quantity), promotionId };
+  });
+
+  for (const promotion of live) {
+    if (promotion.type !== 'MULTI_BUY' || !promotion.buyQuantity) continue;
+    const buy = promotion.buyQuantity;
+    const pay = promotion.payQuantity ?? buy;
+
+    const productIds = new Set(priced.filter(line => promotionAppliesTo(promotion, line)).map(line => line.productId));
+    for (const productId of productIds) {
+      const group = priced.filter(line => line.productId === productId && promotionAppliesTo(promotion, line));
+      const units = group.reduce((sum, line) => sum + line.quantity, 0);
+      const freeUnits = Math.floor(units / buy) * (buy - pay);
+      if (freeUnits <= 0) continue;
+
+      const baseTotal = group.reduce((sum, line) => sum + line.basePrice * line.quantity, 0);
+      const currentTotal = group.reduce((sum, line) => sum + line.lineTotal, 0);
+      // Free units are the cheapest ones
+      const multiBuyTotal = baseTotal - freeUnits * Math.min(...group.map(line => line.basePrice));
+      if (baseTotal <= 0 || multiBuyTotal >= currentTotal) continue;
+
+      const ratio = multiBuyTotal / baseTotal;
+      for (const line of group) {
+        line.unitPrice = roundCents(line.basePrice * ratio);
+        line.lineTotal = roundCents(line.basePrice * ratio * line.quantity);
+        line.promotionId = promotion.id;
+      }
+    }
+  }
+
+  return priced;
+};
+
+// Short label for a promotion badge, e.g. "20% off" or "Buy 3, pay 2"
+export const describePromotion = (promotion: Promotion): string => {
+  if (promotion.type === 'PERCENTAGE') return `${promotion.value}% off`;
+  if (promotion.type === 'FIXED') return `$${promotion.value.toFixed(2)} off`;
+  return `Buy ${promotion.buyQuantity}, pay ${promotion.payQuantity}`;
+};
@@ -0,0 +1,354 @@
+/**
+ * Purchasing Service
+ *
+ * Per-product reorder points and purchase orders. A daily reorder run compares
+ * projected stock (on hand + on order - demand over the lead time) with each
+ * product's reorder point and drafts one purchase order per supplier. Sending
+ * a draft creates an EXPECTED BatchRecord that receiving checks against.
+ */
+
+import { qdrantClient, activeShopId, resolveActorId } from '../core';
+import { ensureReadyOrWarn } from '../collections';
+import { composePointId, composePointVectorPayload, resolveVector, buildPlaceholderVector } from '../vectors';
+import { fetchAllPoints } from '../queries';
+import { getAllStockItems } from './inventory';
+import { getAllSales } from './sales';
+import { isPastExpiration } from './expiry';
+import { computeSalesVelocity } from './forecasting';
+import { getCanonicalProductsForShopDirect } from './products';
+import { getBatchRecords, upsertBatchRecord } from './batches';
+import type {
+  BatchRecord,
+  PurchaseOrder,
+  PurchaseOrderLine,
+  ReorderSetting,
+} from '../../../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Sales history used for velocity
+export const VELOCITY_WINDOW_DAYS = 28;
+
+const UNASSIGNED_SUPPLIER = 'unassigned';
+
+const toDateKey = (date: Date) => date.toISOString().slice(0, 10);
+
+const requireClient = async (collection: 'reorder_settings' | 'purchase_orders') => {
+  if (!qdrantClient || !(await ensureReadyOrWarn(collection))) {
+    throw new Error(`Qdrant collection '${collection}' is not available.`);
+  }
+  return qdrantClient;
+};
+
+// ===== REORDER SETTINGS =====
+
+const mapPointToReorderSetting = (point: { id: string | number; payload?: any }): ReorderSetting => {
+  const payload = point.payload as any;
+  return {
+    shopId: payload?.shopId || '',
+    productId: payload?.productId || '',
+    reorderPoint: Number(payload?.reorderPoint) || 0,
+    targetLevel: Number(payload?.targetLevel) || 0,
+    leadTimeDays: Number(payload?.leadTimeDays) || 0,
+    supplierId: payload?.supplierId || null,
+    updatedAt: payload?.updatedAt || '',
+  };
+};
+
+export const getReorderSettings = async (shopId: string): Promise<ReorderSetting[]> => {
+  const points = await fetchAllPoints('reorder_settings', shopId);
+  return points.map(mapPointToReorderSetting);
+};
+
+// Create or replace the reorder setting for one product of the active shop
+export const saveReorderSetting = async (
+  input: Omit<ReorderSetting, 'shopId' | 'updatedAt'>,
+): Promise<ReorderSetting> => {
+  if (!activeShopId) throw new Error('No shop selected.');
+  const client = await requireClient('reorder_settings');
+
+  const values = [input.reorderPoint, input.targetLevel, input.leadTimeDays];
+  if (values.some(value => !Number.isFinite(value) || value < 0)) {
+    throw new Error('Reorder point, target level and lead time must be zero or more.');
+  }
+  if (input.targetLevel < input.reorderPoint) {
+    throw new Error('Target level must be at least the reorder point.');
+  }
+
+  const setting: ReorderSetting = {
+    ...input,
+    shopId: activeShopId,
+    supplierId: input.supplierId || null,
+    updatedAt: new Date().toISOString(),
+  };
+  const key = `${setting.shopId}:${setting.productId}`;
+  const vector = resolveVector(buildPlaceholderVector(key), key, `reorder_settings:${key}`);
+
+  await client.upsert('reorder_settings', {
+    wait: true,
+    points: [{
+      id: composePointId('reorder_settings', key),
+      ...composePointVectorPayload('reorder_settings', vector),
+      payload: { ...setting },
+    }] as any,
+  });
+  return setting;
+};
+
+// ===== PURCHASE ORDERS =====
+
+const mapPointToPurchaseOrder = (point: { id: string | number; payload?: any }): PurchaseOrder => {
+  const payload = point.payload as any;
+  return {
+    id: payload?.purchaseOrderId || String(point.id),
+    shopId: payload?.shopId || '',
+    supplierId: payload?.supplierId || null,
+    status: payload?.status || 'DRAFT',
+    lines: payload?.lines || [],
+    expectedDeliveryDate: payload?.expectedDeliveryDate || '',
+    batchId: payload?.batchId || null,
+    notes: payload?.notes || undefined,
+    createdAt: payload?.createdAt || '',
+    updatedAt: payload?.updatedAt || '',
+    sentAt: payload?.sentAt || undefined,
+  };
+};
+
+const persistPurchaseOrder = async (order: PurchaseOrder): Promise<void> => {
+  const client = await requireClient('purchase_orders');
+  const vector = resolveVector(buildPlaceholderVector(order.id), order.id, `purchase_orders:${order.id}`);
+
+  await client.upsert('purchase_orders', {
+    wait: true,
+    points: [{
+      id: composePointId('purchase_orders', order.id),
+      ...composePointVectorPayload('purchase_orders', vector),
+      payload: {
+        purchaseOrderId: order.id,
+        shopId: order.shopId,
+        supplierId: order.supplierId,
+        status: order.status,
+        lines: order.lines,
+        expectedDeliveryDate: order.expectedDeliveryDate,
+        batchId: order.batchId ?? null,
+        notes: order.notes ?? null,
+        createdAt: order.createdAt,
+        updatedAt: order.updatedAt,
+        sentAt: order.sentAt ?? null,
+      },
+    }] as any,
+  });
+};
+
+export const getPurchaseOrder = async (purchaseOrderId: string): Promise<PurchaseOrder | null> => {
+  const client = await requireClient('purchase_orders');
+  const [point] = await client.retrieve('purchase_orders', {
+    ids: [composePointId('purchase_orders', purchaseOrderId)],
+    with_payload: true,
+  });
+  return point ? mapPointToPurchaseOrder(point) : null;
+};
+
+// All purchase orders for a shop, newest first
+export const getPurchaseOrders = async (shopId: string): Promise<PurchaseOrder[]> => {
+  const points = await fetchAllPoints('purchase_orders', shopId);
+  return points
+    .map(mapPointToPurchaseOrder)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+const requireDraft = async (purchaseOrderId: string): Promise<PurchaseOrder> => {
+  const order = await getPurchaseOrder(purchaseOrderId);
+  if (!order) throw new Error(`Purchase order ${purchaseOrderId} not found.`);
+  if (order.status !== 'DRAFT') throw new Error(`Purchase order is ${order.status}; only drafts can be changed.`);
+  return order;
+};
+
+// Edit a draft's lines, supplier, delivery date or notes
+export const updatePurchaseOrderDraft = async (
+  purchaseOrderId: string,
+  updates: Partial<Pick<PurchaseOrder, 'lines' | 'supplierId' | 'expectedDeliveryDate' | 'notes'>>,
+): Promise<PurchaseOrder> => {
+  const order = await requireDraft(purchaseOrderId);
+  const lines = (updates.lines ?? order.lines).filter(line => line.quantity > 0);
+  if (lines.some(line => !Number.isFinite(line.quantity) || !Number.isFinite(line.unitCost) || line.unitCost < 0)) {
+    throw new Error('Line quantities and costs must be valid numbers.');
+  }
+
+  const updated: PurchaseOrder = {
+    ...order,
+    ...updates,
+    lines,
+    updatedAt: new Date().toISOString(),
+  };
+  await persistPurchaseOrder(updated);
+  return updated;
+};
+
+export const cancelPurchaseOrder = async (purchaseOrderId: string): Promise<void> => {
+  const order = await requireDraft(purchaseOrderId);
+  await persistPurchaseOrder({ ...order, status: 'CANCELLED', updatedAt: new Date().toISOString() });
+};
+
+// Mark a draft as sent and create the EXPECTED batch receiving will check against.
+// The batch id is derived from the order id so a retried send cannot create a second batch.
+export const sendPurchaseOrder = async (purchaseOrderId: string): Promise<PurchaseOrder> => {
+  const order = await requireDraft(purchaseOrderId);
+  if (order.lines.length === 0) throw new Error('Cannot send a purchase order without lines.');
+  if (!order.supplierId) throw new Error('Assign a supplier before sending the purchase order.');
+
+  const now = new Date().toISOString();
+  const batch: BatchRecord = {
+    id: composePointId('batches', `po:${order.id}`),
+    shopId: order.shopId,
+    supplierId: order.supplierId,
+    deliveryDate: order.expectedDeliveryDate,
+    invoiceNumber: undefined,
+    documents: [],
+    lineItems: order.lines.map(line => ({
+      productId: line.productId,
+      productName: line.productName,
+      quantity: line.quantity,
+      cost: line.unitCost,
+    })),
+    createdAt: now,
+    createdByUserId: resolveActorId() || order.shopId,
+    status: 'EXPECTED',
+    purchaseOrderId: order.id,
+  };
+  await upsertBatchRecord(batch);
+
+  const sent: PurchaseOrder = { ...order, status: 'SENT', batchId: batch.id, sentAt: now, updatedAt: now };
+  await persistPurchaseOrder(sent);
+  return sent;
+};
+
+// CSV for emailing or uploading to a supplier portal
+export const purchaseOrderToCsv = (order: PurchaseOrder, supplierName?: string): string => {
+  const escape = (value: string | number) => {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const rows: (string | number)[][] = [
+    ['Purchase Order', order.id],
+    ['Supplier', supplierName || order.supplierId || 'Unassigned'],
+    ['Expected Delivery', order.expectedDeliveryDate],
+    [],
+    ['Product ID', 'Product', 'Quantity', 'Unit Cost', 'Line Total'],
+    ...order.lines.map(line => [
+      line.productId,
+      line.productName,
+      line.quantity,
+      line.unitCost.toFixed(2),
+      (line.quantity * line.unitCost).toFixed(2),
+    ]),
+  ];
+  return rows.map(row => row.map(escape).join(',')).join('\n');
+};
+
+// ===== REORDER COMPUTATION =====
+
+// Units sold per day, per product, over the trailing window
+export const getSalesVelocity = async (
+  shopId: string,
+  windowDays: number = VELOCITY_WINDOW_DAYS,
+  now: Date = new Date(),
+): Promise<Map<string, number>> => {
+  const sales = await getAllSales(shopId);
+  return computeSalesVelocity(sales, windowDays, now);
+};
+
+// Draft purchase orders for every product whose projected stock is at or below its
+// reorder point. Draft ids are derived from shop, supplier and day, so running this
+// more than once a day never duplicates (or overwrites edits to) a draft. Products
+// already on an open draft are skipped, and sent orders still EXPECTED count as on order.
+export const generateDraftPurchaseOrders = async (
+  shopId: string,
+  now: Date = new Date(),
+): Promise<PurchaseOrder[]> => {
+  const settings = await getReorderSettings(shopId);
+  if (settings.length === 0) return [];
+
+  const [stockItems, velocity, orders, batches, products] = await Promise.all([
+    getAllStockItems(shopId),
+    getSalesVelocity(shopId, VELOCITY_WINDOW_DAYS, now),
+    getPurchaseOrders(shopId),
+    getBatchRecords(shopId),
+    getCanonicalProductsForShopDirect(new Set(settings.map(setting => setting.productId))),
+  ]);
+  const productById = new Map(products.map(product => [product.id, product]));
+
+  const onHand = new Map<string, number>();
+  const unitCosts = new Map<string, number[]>();
+  for (const item of stockItems) {
+    if (isPastExpiration(item.expirationDate, now)) continue;
+    onHand.set(item.productId, (onHand.get(item.productId) || 0) + item.quantity);
+    if (item.costPerUnit > 0) unitCosts.set(item.productId, [...(unitCosts.get(item.productId) || []), item.costPerUnit]);
+  }
+
+  const expectedBatchIds = new Set(batches.filter(batch => batch.status === 'EXPECTED').map(batch => batch.id));
+  const onOrder = new Map<string, number>();
+  const onOpenDraft = new Set<string>();
+  for (const order of orders) {
+    if (order.status === 'DRAFT') order.lines.forEach(line => onOpenDraft.add(line.productId));
+    if (order.status === 'SENT' && order.batchId && expectedBatchIds.has(order.batchId)) {
+      order.lines.forEach(line => onOrder.set(line.productId, (onOrder.get(line.productId) || 0) + line.quantity));
+    }
+  }
+
+  // Group the lines that need ordering by supplier
+  const bySupplier = new Map<string, { lines: PurchaseOrderLine[]; leadTimeDays: number }>();
+  for (const setting of settings) {
+    if (onOpenDraft.has(setting.productId)) continue;
+
+    const dailyVelocity = velocity.get(setting.productId) || 0;
+    const stock = onHand.get(setting.productId) || 0;
+    const incoming = onOrder.get(setting.productId) || 0;
+    const leadTimeDemand = dailyVelocity * setting.leadTimeDays;
+    if (stock + incoming - leadTimeDemand > setting.reorderPoint) continue;
+
+    const quantity = Math.ceil(setting.targetLevel + leadTimeDemand - stock - incoming);
+    if (quantity <= 0) continue;
+
+    const product = productById.get(setting.productId);
+    const costs = unitCosts.get(setting.productId) || [];
+    const supplierKey = setting.supplierId || product?.defaultSupplierId || UNASSIGNED_SUPPLIER;
+    const group = bySupplier.get(supplierKey) || { lines: [], leadTimeDays: 0 };
+    group.lines.push({
+      productId: setting.productId,
+      productName: product?.name || setting.productId,
+      quantity,
+      suggestedQuantity: quantity,
+      unitCost: costs.length ? Math.round((costs.reduce((sum, cost) => sum + cost, 0) / costs.length) * 100) / 100 : 0,
+      onHand: stock,
+      dailyVelocity: Math.round(dailyVelocity * 100) / 100,
+    });
+    group.leadTimeDays = Math.max(group.leadTimeDays, setting.leadTimeDays);
+    bySupplier.set(supplierKey, group);
+  }
+
+  const created: PurchaseOrder[] = [];
+  for (const [supplierKey, group] of bySupplier) {
+    const id = composePointId('purchase_orders', `draft:${shopId}:${supplierKey}:${toDateKey(now)}`);
+    if (orders.some(order => order.id === id)) continue;
+
+    const order: PurchaseOrder = {
+      id,
+      shopId,
+      supplierId: supplierKey === UNASSIGNED_SUPPLIER ? null : supplierKey,
+      status: 'DRAFT',
+      lines: group.lines,
+      expectedDeliveryDate: toDateKey(new Date(now.getTime() + group.leadTimeDays * DAY_MS)),
+      batchId: null,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+    await persistPurchaseOrder(order);
+    created.push(order);
+  }
+
+  if (created.length > 0) {
+    console.info(`[Purchasing] Drafted ${created.length} purchase order(s) for shop ${shopId}.`);
+  }
+  return created;
+};
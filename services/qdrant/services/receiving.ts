@@ -0,0 +1,217 @@
+/**
+ * Receiving Service
+ *
+ * Receive-against-PO workflow. Staff count each line of an EXPECTED batch; the
+ * counts are reconciled against the invoice and the expected order, stock is
+ * created for the good units, and any differences are kept on the batch as a
+ * discrepancy report for the supplier.
+ */
+
+import { activeShopId } from '../core';
+import { getBatchRecord, upsertBatchRecord } from './batches';
+import { createInventoryFromBatch } from './inventory';
+import type {
+  BatchDiscrepancy,
+  BatchLineItem,
+  BatchRecord,
+  DiscrepancyReport,
+  ReceivingLine,
+} from '../../../types';
+
+// Unit costs closer than half a cent are the same price
+const PRICE_TOLERANCE = 0.005;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+// Starting lines for a receiving session: expected values from the batch, invoiced
+// values from the supplier invoice when one was read, counts at zero.
+export const buildReceivingLines = (batch: BatchRecord, invoiceItems: BatchLineItem[] = []): ReceivingLine[] => {
+  const invoiced = new Map(invoiceItems.map(item => [item.productId, item]));
+  const lines: ReceivingLine[] = (batch.lineItems || []).map(item => {
+    const invoiceItem = invoiced.get(item.productId);
+    return {
+      productId: item.productId,
+      productName: item.productName || invoiceItem?.productName || item.productId,
+      expectedQuantity: item.quantity,
+      invoicedQuantity: invoiceItem?.quantity ?? item.quantity,
+      countedQuantity: 0,
+      damagedQuantity: 0,
+      expectedCost: item.cost,
+      invoicedCost: invoiceItem?.cost ?? item.cost,
+      expirationDate: item.expirationDate || invoiceItem?.expirationDate,
+    };
+  });
+
+  // Invoiced products that were never ordered
+  for (const item of invoiceItems) {
+    if (lines.some(line => line.productId === item.productId)) continue;
+    lines.push({
+      productId: item.productId,
+      productName: item.productName || item.productId,
+      expectedQuantity: 0,
+      invoicedQuantity: item.quantity,
+      countedQuantity: 0,
+      damagedQuantity: 0,
+      expectedCost: item.cost,
+      invoicedCost: item.cost,
+      expirationDate: item.expirationDate,
+    });
+  }
+  return lines;
+};
+
+// Flag shortages, overages, damage and price variances. Quantities are checked
+// against the invoice (what the supplier bills for); cost against the order.
+export const reconcileReceivingLines = (lines: ReceivingLine[]): BatchDiscrepancy[] => {
+  const discrepancies: BatchDiscrepancy[] = [];
+  for (const line of lines) {
+    const base = { productId: line.productId, productName: line.productName };
+
+    if (line.countedQuantity < line.invoicedQuantity) {
+      discrepancies.push({
+        ...base,
+        type: 'SHORTAGE',
+        expected: line.invoicedQuantity,
+        actual: line.countedQuantity,
+        valueImpact: roundCents((line.invoicedQuantity - line.countedQuantity) * line.invoicedCost),
+      });
+    } else if (line.countedQuantity > line.invoicedQuantity) {
+      discrepancies.push({
+        ...base,
+        type: 'OVERAGE',
+        expected: line.invoicedQuantity,
+        actual: line.countedQuantity,
+        valueImpact: roundCents((line.invoicedQuantity - line.countedQuantity) * line.invoicedCost),
+      });
+    }
+
+    if (line.damagedQuantity > 0) {
+      discrepancies.push({
+        ...base,
+        type: 'DAMAGED',
+        expected: 0,
+        actual: line.damagedQuantity,
+        valueImpact: roundCents(line.damagedQuantity * line.invoicedCost),
+      });
+    }
+
+    if (Math.abs(line.invoicedCost - line.expectedCost) > PRICE_TOLERANCE) {
+      discrepancies.push({
+        ...base,
+        type: 'PRICE_VARIANCE',
+        expected: line.expectedCost,
+        actual: line.invoicedCost,
+        valueImpact: roundCents((line.invoicedCost - line.expectedCost) * line.invoicedQuantity),
+      });
+    }
+  }
+  return discrepancies;
+};
+
+const validateReceivingLines = (lines: ReceivingLine[]) => {
+  for (const line of lines) {
+    const counts = [line.invoicedQuantity, line.countedQuantity, line.damagedQuantity];
+    if (counts.some(value => !Number.isInteger(value) || value < 0)) {
+      throw new Error(`Quantities for ${line.productName} must be whole numbers of zero or more.`);
+    }
+    if (line.damagedQuantity > line.countedQuantity) {
+      throw new Error(`Damaged units for ${line.productName} cannot exceed the units counted.`);
+    }
+    if (!(line.invoicedCost >= 0)) throw new Error(`Invoiced cost for ${line.productName} is invalid.`);
+  }
+};
+
+// Receive an EXPECTED batch: stock the undamaged counted units at the invoiced
+// cost and store the reconciliation on the batch.
+export const receiveBatch = async (
+  batchId: string,
+  lines: ReceivingLine[],
+  options: { invoiceNumber?: string } = {},
+): Promise<BatchRecord> => {
+  if (!activeShopId) throw new Error('No shop selected.');
+  const batch = await getBatchRecord(batchId);
+  if (!batch || batch.shopId !== activeShopId) throw new Error('Batch not found.');
+  if ((batch.status || 'RECEIVED') === 'RECEIVED') throw new Error('Batch has already been received.');
+  if (lines.length === 0) throw new Error('Nothing to receive.');
+  validateReceivingLines(lines);
+
+  const now = new Date().toISOString();
+  const discrepancies = reconcileReceivingLines(lines);
+  const report: DiscrepancyReport = {
+    batchId: batch.id,
+    supplierId: batch.supplierId || null,
+    purchaseOrderId: batch.purchaseOrderId || null,
+    invoiceNumber: options.invoiceNumber || batch.invoiceNumber,
+    lines,
+    discrepancies,
+    totalValueImpact: roundCents(discrepancies.reduce((sum, entry) => sum + entry.valueImpact, 0)),
+    status: 'OPEN',
+    receivedAt: now,
+    receivedByUserId: activeShopId,
+  };
+
+  const receivedItems: BatchLineItem[] = lines.map(line => ({
+    productId: line.productId,
+    productName: line.productName,
+    quantity: line.countedQuantity - line.damagedQuantity,
+    cost: line.invoicedCost,
+    expirationDate: line.expirationDate,
+  }));
+
+  const received: BatchRecord = {
+    ...batch,
+    invoiceNumber: report.invoiceNumber,
+    lineItems: receivedItems,
+    inventoryDate: now.split('T')[0],
+    status: 'RECEIVED',
+    receivedAt: now,
+    discrepancyReport: report,
+  };
+
+  // Mark the batch received first so a retry cannot stock the same delivery twice
+  await upsertBatchRecord(received);
+  await createInventoryFromBatch(received, receivedItems);
+  return received;
+};
+
+// Record that the discrepancy report went out to the supplier
+export const markDiscrepancyReportSent = async (batchId: string): Promise<BatchRecord> => {
+  const batch = await getBatchRecord(batchId);
+  if (!batch || batch.shopId !== activeShopId) throw new Error('Batch not found.');
+  if (!batch.discrepancyReport) throw new Error('Batch has no discrepancy report.');
+
+  const updated: BatchRecord = {
+    ...batch,
+    discrepancyReport: { ...batch.discrepancyReport, status: 'SENT_TO_SUPPLIER', sentAt: new Date().toISOString() },
+  };
+  await upsertBatchRecord(updated);
+  return updated;
+};
+
+// CSV of the flagged lines, for emailing to the supplier
+export const discrepancyReportToCsv = (report: DiscrepancyReport, supplierName?: string): string => {
+  const escape = (value: string | number) => {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const rows: (string | number)[][] = [
+    ['Discrepancy Report', report.batchId],
+    ['Supplier', supplierName || report.supplierId || 'Unassigned'],
+    ['Invoice Number', report.invoiceNumber || ''],
+    ['Purchase Order', report.purchaseOrderId || ''],
+    ['Received', report.receivedAt],
+    [],
+    ['Product ID', 'Product', 'Type', 'Expected', 'Actual', 'Value Impact'],
+    ...report.discrepancies.map(entry => [
+      entry.productId,
+      entry.productName,
+      entry.type,
+      entry.expected,
+      entry.actual,
+      entry.valueImpact.toFixed(2),
+    ]),
+    [],
+    ['Total', '', '', '', '', report.totalValueImpact.toFixed(2)],
+  ];
+  return rows.map(row => row.map(escape).join(',')).join('\n');
+};
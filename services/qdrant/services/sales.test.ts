@@ -0,0 +1,119 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createFakeQdrant } from '../../../server/testing/fakeQdrant.js';
+
+const state = vi.hoisted(() => ({ client: null as any }));
+
+vi.mock('../core', () => ({
+  get qdrantClient() { return state.client; },
+  activeShopId: 'shop-a',
+  resolveActorId: () => 'user-1',
+  UUID_NAMESPACE: '58fc3ff2-2f13-11ef-b75e-0242ac110002',
+}));
+vi.mock('../collections', () => ({
+  ensureReadyOrWarn: async () => true,
+  getCollectionVectorConfig: () => null,
+}));
+vi.mock('../../embeddingService', () => ({
+  EMBEDDING_VECTOR_SIZE: 4,
+  embedText: async () => [0, 0, 0, 0],
+}));
+
+import { recordSale } from './sales';
+import { composePointId } from '../vectors';
+
+const products = new Map([['Milk', { id: 'milk', name: 'Milk' }]]);
+
+const lot = (id: string, quantity: number, expiration: string) => ({
+  id,
+  payload: {
+    inventoryUuid: id,
+    shopId: 'shop-a',
+    productId: 'milk',
+    quantity,
+    expiration,
+    sellPrice: 2,
+    status: 'ACTIVE',
+    updatedAt: `2030-01-01T00:00:00.000Z#${id}`,
+  },
+});
+
+const quantities = () => Object.fromEntries(state.client.all('items').map((point: any) => [point.id, point.payload.quantity]));
+const salePayload = (saleId: string) => state.client.payload('sales', composePointId('sales', saleId));
+
+describe('recordSale', () => {
+  beforeEach(() => {
+    state.client = createFakeQdrant({
+      items: [lot('lot-late', 5, '2031-06-01'), lot('lot-soon', 2, '2031-01-01')],
+    });
+  });
+
+  it('deducts the soonest-expiring lots first and commits the journal', async () => {
+    const sale = await recordSale([{ productName: 'Milk', quantity: 3 }], products);
+
+    expect(sale.status).toBe('COMMITTED');
+    expect(sale.totalAmount).toBe(6);
+    expect(quantities()).toEqual({ 'lot-soon': 0, 'lot-late': 4 });
+
+    const stored = salePayload(sale.id);
+    expect(stored.status).toBe('COMMITTED');
+    expect(stored.journal.map((entry: any) => [entry.inventoryUuid, entry.previousQuantity, entry.deducted]))
+      .toEqual([['lot-soon', 2, 2], ['lot-late', 5, 1]]);
+
+    const movements = state.client.all('stock_movements').map((point: any) => point.payload);
+    expect(movements.map((movement: any) => [movement.movementId, movement.delta, movement.quantityAfter])).toEqual([
+      [`${sale.id}:lot-soon`, -2, 0],
+      [`${sale.id}:lot-late`, -1, 4],
+    ]);
+  });
+
+  it('returns the committed sale on a retry with the same idempotency key', async () => {
+    const first = await recordSale([{ productName: 'Milk', quantity: 3 }], products, { idempotencyKey: 'checkout-1' });
+    const replay = await recordSale([{ productName: 'Milk', quantity: 3 }], products, { idempotencyKey: 'checkout-1' });
+
+    expect(replay.id).toBe(first.id);
+    expect(quantities()).toEqual({ 'lot-soon': 0, 'lot-late': 4 });
+    expect(state.client.all('stock_movements')).toHaveLength(2);
+  });
+
+  it('replans when another writer changes a lot between planning and the write', async () => {
+    const setPayload = state.client.setPayload;
+    let interfered = false;
+    state.client.setPayload = async (collection: string, request: any) => {
+      if (collection === 'items' && !interfered) {
+        interfered = true;
+        // A concurrent sale takes one unit of the soonest lot first
+        await setPayload('items', { payload: { quantity: 1, updatedAt: 'concurrent' }, points: ['lot-soon'] });
+      }
+      return setPayload(collection, request);
+    };
+
+    const sale = await recordSale([{ productName: 'Milk', quantity: 3 }], products);
+
+    expect(sale.status).toBe('COMMITTED');
+    // 7 units minus the concurrent unit minus this sale's 3
+    expect(quantities()).toEqual({ 'lot-soon': 0, 'lot-late': 3 });
+    expect(salePayload(sale.id).journal.map((entry: any) => entry.deducted)).toEqual([1, 2]);
+  });
+
+  it('restores deducted lots and rolls back when a write fails', async () => {
+    const setPayload = state.client.setPayload;
+    let itemWrites = 0;
+    state.client.setPayload = async (collection: string, request: any) => {
+      if (collection === 'items' && request.filter && ++itemWrites === 2) throw new Error('Qdrant unavailable');
+      return setPayload(collection, request);
+    };
+
+    await expect(recordSale([{ productName: 'Milk', quantity: 3 }], products, { idempotencyKey: 'checkout-2' }))
+      .rejects.toThrow('Qdrant unavailable');
+
+    expect(quantities()).toEqual({ 'lot-soon': 2, 'lot-late': 5 });
+    expect(state.client.all('sales').map((point: any) => point.payload.status)).toEqual(['ROLLED_BACK']);
+    expect(state.client.all('stock_movements')).toHaveLength(0);
+  });
+
+  it('refuses a sale larger than the sellable stock without writing', async () => {
+    await expect(recordSale([{ productName: 'Milk', quantity: 8 }], products)).rejects.toThrow('Insufficient stock');
+    expect(quantities()).toEqual({ 'lot-soon': 2, 'lot-late': 5 });
+    expect(state.client.all('sales')).toHaveLength(0);
+  });
+});
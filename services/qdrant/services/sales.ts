@@ -9,14 +9,48 @@ import { qdrantClient, activeShopId } from '../core';
 import { ensureReadyOrWarn } from '../collections';
 import { composePointId, composePointVectorPayload, resolveVector, buildPlaceholderVector } from '../vectors';
 import { fetchAllPoints } from '../queries';
-import { persistInventoryEntry, getAllStockItems, deleteInventoryEntry } from './inventory';
+import {
+  getAllStockItems,
+  getStockPayload,
+  compareAndSetStockQuantity,
+  adjustStockQuantity,
+} from './inventory';
+import { recordStockMovements } from './stockMovements';
+import { isPastExpiration } from './expiry';
+import { applyPromotions, getActivePromotions, type PricingLine } from './promotions';
+import { v4 as uuidv4 } from 'uuid';
 import type {
   SaleTransaction,
+  SaleStatus,
   StockItem,
 } from '../../../types';
 
-// Persist sale transaction
-export const persistSale = async (sale: SaleTransaction): Promise<void> => {
+const RETAIL_MARKUP = 1.4; // Fallback only - should use actual sellPrice from DB
+const MAX_SALE_ATTEMPTS = 3;
+// A PENDING sale older than this is treated as abandoned and rolled back on retry
+const PENDING_SALE_LEASE_MS = 30_000;
+
+// One stock deduction planned (and later applied) by a sale
+interface SaleJournalEntry {
+  inventoryUuid: string;
+  productId: string;
+  expectedUpdatedAt?: string;
+  previousQuantity: number;
+  deducted: number;
+}
+
+const mapPayloadToSale = (payload: any): SaleTransaction => ({
+  id: String(payload.saleId),
+  timestamp: payload.timestamp,
+  items: payload.lineItems || [],
+  totalAmount: payload.totalAmount || 0,
+  source: payload.source || undefined,
+  idempotencyKey: payload.idempotencyKey || undefined,
+  status: payload.status || 'COMMITTED',
+});
+
+// Persist sale transaction (optionally with the stock journal it applies)
+export const persistSale = async (sale: SaleTransaction, journal: SaleJournalEntry[] = []): Promise<void> => {
   if (!qdrantClient || !activeShopId) return;
   if (!(await ensureReadyOrWarn('sales'))) return;
 
@@ -35,135 +69,295 @@ export const persistSale = async (sale: SaleTransaction): Promise<void> => {
         timestamp: sale.timestamp,
         lineItems: sale.items,
         totalAmount: sale.totalAmount,
+        source: sale.source || null,
+        idempotencyKey: sale.idempotencyKey || null,
+        status: sale.status || 'COMMITTED',
+        journal,
+        updatedAt: new Date().toISOString(),
       },
     } as any], // Type assertion needed due to named vs unnamed vector types
   });
 };
 
-// Record sale and update inventory (FEFO - First Expired First Out)
-export const recordSale = async (
-  cart: { productName: string; quantity: number }[],
-  productMap: Map<string, { id: string; name: string }>
-): Promise<SaleTransaction> => {
-  if (!activeShopId) throw new Error('No shop selected.');
+const retrieveSalePayload = async (saleId: string): Promise<any | null> => {
+  if (!qdrantClient) return null;
+  const records = await qdrantClient.retrieve('sales', {
+    ids: [composePointId('sales', saleId)],
+    with_payload: true,
+  });
+  return records?.[0]?.payload ?? null;
+};
 
-  const transactionItems: SaleTransaction['items'] = [];
-  let totalAmount = 0;
-  const RETAIL_MARKUP = 1.4; // Fallback only - should use actual sellPrice from DB
-  const touchedItems: StockItem[] = [];
-  const removedItems: StockItem[] = [];
+const setSaleStatus = async (saleId: string, status: SaleStatus): Promise<void> => {
+  if (!qdrantClient) return;
+  await qdrantClient.setPayload('sales', {
+    wait: true,
+    payload: { status, updatedAt: new Date().toISOString() },
+    points: [composePointId('sales', saleId)],
+  });
+};
 
-  // Get all stock items for the shop
-  const allStockItems = await getAllStockItems(activeShopId);
+// Put deducted units back. Entries not stamped with this sale are skipped when
+// onlyIfStamped is set (recovering a crashed sale whose progress is unknown).
+const compensateStock = async (
+  saleId: string,
+  entries: SaleJournalEntry[],
+  onlyIfStamped: boolean = false,
+): Promise<void> => {
+  for (const entry of entries) {
+    try {
+      if (onlyIfStamped) {
+        const stored = await getStockPayload(entry.inventoryUuid);
+        if (stored?.lastSaleId !== saleId) continue;
+      }
+      await adjustStockQuantity(entry.inventoryUuid, entry.deducted, { lastSaleId: null });
+    } catch (error) {
+      console.error(`[Sales] Failed to restore ${entry.deducted} units to ${entry.inventoryUuid} for sale ${saleId}:`, error);
+    }
+  }
+};
+
+// Ledger entries for a committed sale. IDs derive from the sale, so recording
+// them again (e.g. on an idempotent replay) does not double count.
+const recordSaleMovements = async (saleId: string, journal: SaleJournalEntry[]): Promise<void> => {
+  try {
+    await recordStockMovements(journal.map(entry => ({
+      id: `${saleId}:${entry.inventoryUuid}`,
+      inventoryUuid: entry.inventoryUuid,
+      productId: entry.productId,
+      delta: -entry.deducted,
+      quantityAfter: entry.previousQuantity - entry.deducted,
+      reason: 'sale' as const,
+      referenceId: saleId,
+    })));
+  } catch (error) {
+    console.error(`[Sales] Failed to record stock movements for sale ${saleId}:`, error);
+  }
+};
+
+type SaleProductMap = Map<string, { id: string; name: string; category?: string }>;
+
+// Work out FEFO deductions against the current stored stock and price them with active promotions
+const planSale = async (
+  cart: { productName: string; quantity: number }[],
+  productMap: SaleProductMap,
+  shopId: string,
+): Promise<{ items: SaleTransaction['items']; totalAmount: number; journal: SaleJournalEntry[] }> => {
+  const lines: PricingLine[] = [];
+  const journal: SaleJournalEntry[] = [];
+
+  const [allStockItems, promotions] = await Promise.all([
+    getAllStockItems(shopId),
+    getActivePromotions(shopId),
+  ]);
 
   for (const cartItem of cart) {
-    let quantityToDeduct = cartItem.quantity;
     const product = productMap.get(cartItem.productName);
-    if (!product) continue;
+    if (!product) throw new Error(`Unknown product: ${cartItem.productName}`);
 
-    // Filter and sort by expiration (FEFO)
+    // Filter and sort by expiration (FEFO); expired lots are never sold
     const productStock = allStockItems
-      .filter(item => item.productId === product.id && item.quantity > 0)
+      .filter(item => item.productId === product.id && item.quantity > 0 && !isPastExpiration(item.expirationDate))
       .sort((a, b) => new Date(a.expirationDate).getTime() - new Date(b.expirationDate).getTime());
 
+    const available = productStock.reduce((sum, item) => sum + item.quantity, 0);
+    if (available < cartItem.quantity) {
+      throw new Error(`Insufficient stock for ${cartItem.productName}: requested ${cartItem.quantity}, available ${available}.`);
+    }
+
+    let quantityToDeduct = cartItem.quantity;
     for (const stockItem of productStock) {
       if (quantityToDeduct <= 0) break;
 
       const deduction = Math.min(stockItem.quantity, quantityToDeduct);
-      stockItem.quantity -= deduction;
       quantityToDeduct -= deduction;
 
       // Use actual sellPrice from DB if available, otherwise fallback to calculated markup
-      const priceAtSale = stockItem.sellPrice ?? (stockItem.costPerUnit * RETAIL_MARKUP);
-      transactionItems.push({
+      lines.push({
         productId: product.id,
+        category: product.category,
+        inventoryUuid: stockItem.inventoryUuid,
         quantity: deduction,
-        priceAtSale,
+        basePrice: stockItem.sellPrice ?? (stockItem.costPerUnit * RETAIL_MARKUP),
       });
-      totalAmount += deduction * priceAtSale;
 
-      if (stockItem.quantity === 0) {
-        removedItems.push(stockItem);
-      } else {
-        touchedItems.push(stockItem);
-      }
+      journal.push({
+        inventoryUuid: stockItem.inventoryUuid,
+        productId: product.id,
+        expectedUpdatedAt: stockItem.updatedAt,
+        previousQuantity: stockItem.quantity,
+        deducted: deduction,
+      });
     }
   }
 
-  // Create sale transaction
-  const newTransaction: SaleTransaction = {
-    id: Date.now(),
-    timestamp: new Date().toISOString(),
-    items: transactionItems,
-    totalAmount,
-  };
-
-  // Update inventory for touched items
-  for (const stock of touchedItems) {
-    await persistInventoryEntry(stock);
+  const priced = applyPromotions(lines, promotions);
+  const items: SaleTransaction['items'] = priced.map(line => ({
+    productId: line.productId,
+    quantity: line.quantity,
+    priceAtSale: line.unitPrice,
+    basePrice: line.basePrice,
+    ...(line.promotionId ? { promotionId: line.promotionId } : {}),
+  }));
+  const totalAmount = Math.round(priced.reduce((sum, line) => sum + line.lineTotal, 0) * 100) / 100;
+
+  return { items, totalAmount, journal };
+};
+
+// Price a cart exactly as recordSale would, without touching stock
+export const quoteSale = async (
+  cart: { productName: string; quantity: number }[],
+  productMap: SaleProductMap,
+  shopId: string,
+): Promise<{ items: SaleTransaction['items']; totalAmount: number }> => {
+  const { items, totalAmount } = await planSale(cart, productMap, shopId);
+  return { items, totalAmount };
+};
+
+// Record sale and update inventory (FEFO - First Expired First Out).
+// The sale is journaled as PENDING, each stock lot is decremented with a
+// compare-and-set on updatedAt, and the sale is only COMMITTED once every lot
+// has been written. Any failure restores the lots already touched. Retrying
+// with the same idempotencyKey returns the committed sale instead of selling twice.
+export const recordSale = async (
+  cart: { productName: string; quantity: number }[],
+  productMap: SaleProductMap,
+  options: { idempotencyKey?: string } = {},
+): Promise<SaleTransaction> => {
+  if (!activeShopId) throw new Error('No shop selected.');
+  if (!qdrantClient) throw new Error('Qdrant client not initialized.');
+  if (!(await ensureReadyOrWarn('sales'))) throw new Error('Sales ledger is unavailable.');
+
+  const shopId = activeShopId;
+  const { idempotencyKey } = options;
+  const saleId = idempotencyKey ? composePointId('sales', `${shopId}:${idempotencyKey}`) : uuidv4();
+
+  if (idempotencyKey) {
+    const existing = await retrieveSalePayload(saleId);
+    if (existing?.status === 'COMMITTED') {
+      console.info(`[Sales] Sale ${saleId} already recorded for key ${idempotencyKey}.`);
+      await recordSaleMovements(saleId, existing.journal || []);
+      return mapPayloadToSale(existing);
+    }
+    if (existing?.status === 'PENDING') {
+      const age = Date.now() - new Date(existing.updatedAt || existing.timestamp).getTime();
+      if (age < PENDING_SALE_LEASE_MS) {
+        throw new Error('This sale is already being processed.');
+      }
+      await compensateStock(saleId, existing.journal || [], true);
+      await setSaleStatus(saleId, 'ROLLED_BACK');
+    }
   }
 
-  // Delete empty items
-  await Promise.all(removedItems.map(deleteInventoryEntry));
+  for (let attempt = 1; attempt <= MAX_SALE_ATTEMPTS; attempt++) {
+    const { items, totalAmount, journal } = await planSale(cart, productMap, shopId);
+    const sale: SaleTransaction = {
+      id: saleId,
+      timestamp: new Date().toISOString(),
+      items,
+      totalAmount,
+      source: { type: 'pos' },
+      idempotencyKey,
+      status: 'PENDING',
+    };
 
-  // Persist sale
-  await persistSale(newTransaction);
+    await persistSale(sale, journal);
 
-  console.log(`[Sales] Recorded sale ${newTransaction.id} with total $${totalAmount.toFixed(2)}.`);
-  return newTransaction;
+    const applied: SaleJournalEntry[] = [];
+    let conflict = false;
+    try {
+      for (const entry of journal) {
+        const updatedAt = await compareAndSetStockQuantity(
+          entry.inventoryUuid,
+          entry.expectedUpdatedAt,
+          entry.previousQuantity - entry.deducted,
+          { lastSaleId: saleId },
+        );
+        if (!updatedAt) {
+          conflict = true;
+          break;
+        }
+        applied.push(entry);
+      }
+
+      if (!conflict) {
+        await setSaleStatus(saleId, 'COMMITTED');
+        await recordSaleMovements(saleId, journal);
+        console.log(`[Sales] Recorded sale ${saleId} with total $${totalAmount.toFixed(2)}.`);
+        return { ...sale, status: 'COMMITTED' };
+      }
+    } catch (error) {
+      await compensateStock(saleId, applied);
+      await setSaleStatus(saleId, 'ROLLED_BACK').catch(err =>
+        console.error(`[Sales] Failed to mark sale ${saleId} as rolled back:`, err));
+      throw error;
+    }
+
+    await compensateStock(saleId, applied);
+    await setSaleStatus(saleId, 'ROLLED_BACK');
+    console.warn(`[Sales] Stock changed while recording sale ${saleId}, retrying (attempt ${attempt}).`);
+  }
+
+  throw new Error('Stock changed while recording the sale. Please try again.');
 };
 
-// Deduct stock for order (marketplace orders)
+// Deduct stock for order from the active shop. Marketplace purchases deduct
+// the seller's stock on the server (server/marketplace.js).
 export const deductStockForOrder = async (
   productId: string,
-  quantity: number
+  quantity: number,
+  referenceId?: string,
 ): Promise<void> => {
-  if (!activeShopId) throw new Error('No shop selected.');
+  const shopId = activeShopId;
+  if (!shopId) throw new Error('No shop selected.');
 
-  const allStockItems = await getAllStockItems(activeShopId);
+  const allStockItems = await getAllStockItems(shopId);
   const productStock = allStockItems
-    .filter(item => item.productId === productId && item.quantity > 0)
+    .filter(item => item.productId === productId && item.quantity > 0 && !isPastExpiration(item.expirationDate))
     .sort((a, b) => new Date(a.expirationDate).getTime() - new Date(b.expirationDate).getTime());
 
-  let quantityToDeduct = quantity;
-  const touchedItems: StockItem[] = [];
-  const removedItems: StockItem[] = [];
+  const available = productStock.reduce((sum, item) => sum + item.quantity, 0);
+  if (available < quantity) {
+    throw new Error(`Insufficient stock for product ${productId}: requested ${quantity}, available ${available}.`);
+  }
 
-  for (const stockItem of productStock) {
-    if (quantityToDeduct <= 0) break;
+  let quantityToDeduct = quantity;
+  const applied: { stock: StockItem; deducted: number; quantityAfter: number }[] = [];
 
-    const deduction = Math.min(stockItem.quantity, quantityToDeduct);
-    stockItem.quantity -= deduction;
-    quantityToDeduct -= deduction;
+  try {
+    for (const stockItem of productStock) {
+      if (quantityToDeduct <= 0) break;
 
-    if (stockItem.quantity === 0) {
-      removedItems.push(stockItem);
-    } else {
-      touchedItems.push(stockItem);
+      const deduction = Math.min(stockItem.quantity, quantityToDeduct);
+      const quantityAfter = await adjustStockQuantity(stockItem.inventoryUuid, -deduction);
+      applied.push({ stock: stockItem, deducted: deduction, quantityAfter });
+      quantityToDeduct -= deduction;
     }
+  } catch (error) {
+    for (const { stock, deducted } of applied) {
+      await adjustStockQuantity(stock.inventoryUuid, deducted).catch(err =>
+        console.error(`[Sales] Failed to restore ${deducted} units to ${stock.inventoryUuid}:`, err));
+    }
+    throw error;
   }
 
-  // Update inventory
-  for (const stock of touchedItems) {
-    await persistInventoryEntry(stock);
-  }
-
-  await Promise.all(removedItems.map(deleteInventoryEntry));
+  await recordStockMovements(applied.map(({ stock, deducted, quantityAfter }) => ({
+    inventoryUuid: stock.inventoryUuid,
+    productId,
+    delta: -deducted,
+    quantityAfter,
+    reason: 'order' as const,
+    referenceId: referenceId ?? null,
+    shopId,
+  })));
 
-  console.info(`[Sales] Deducted ${quantity} units of product ${productId} for order fulfillment.`);
+  console.info(`[Sales] Deducted ${quantity} units of product ${productId} from shop ${shopId} for order fulfillment.`);
 };
 
-// Get all sales for a shop
+// Get all committed sales for a shop
 export const getAllSales = async (shopId: string): Promise<SaleTransaction[]> => {
   const points = await fetchAllPoints('sales', shopId);
-  return points.map(point => {
-    const payload = point.payload as any;
-    return {
-      id: payload.saleId,
-      timestamp: payload.timestamp,
-      items: payload.lineItems || [],
-      totalAmount: payload.totalAmount || 0,
-    } as SaleTransaction;
-  });
+  return points
+    .map(point => mapPayloadToSale(point.payload))
+    .filter(sale => sale.status === 'COMMITTED');
 };
-
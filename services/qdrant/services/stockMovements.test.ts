@@ -0,0 +1,53 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { retrieve } = vi.hoisted(() => ({ retrieve: vi.fn() }));
+
+vi.mock('../core', () => ({ qdrantClient: { retrieve }, activeShopId: null, resolveActorId: () => 'user-1' }));
+vi.mock('../collections', () => ({ ensureReadyOrWarn: vi.fn() }));
+vi.mock('../vectors', () => ({}));
+vi.mock('../queries', () => ({ fetchAllPoints: vi.fn(), fetchPointsByFilter: vi.fn() }));
+
+import { fetchPointsByFilter } from '../queries';
+import { reconcileStockItem } from './stockMovements';
+
+const movement = (id: string, delta: number, quantityAfter: number, createdAt: string, reason = 'sale') => ({
+  id,
+  payload: { movementId: id, inventoryUuid: 'lot-1', productId: 'product-1', shopId: 'shop-a', delta, quantityAfter, reason, createdAt },
+});
+
+describe('reconcileStockItem', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    retrieve.mockResolvedValue([{ id: 'lot-1', payload: { productId: 'product-1', quantity: 7 } }]);
+  });
+
+  it('replays a lot received through the ledger from zero', async () => {
+    vi.mocked(fetchPointsByFilter).mockResolvedValue([
+      movement('m-1', 10, 10, '2026-01-01', 'receipt'),
+      movement('m-2', -3, 7, '2026-01-02'),
+    ] as any);
+
+    expect(await reconcileStockItem('lot-1')).toMatchObject({
+      openingQuantity: 0, replayedQuantity: 7, preLedger: false, consistent: true,
+    });
+  });
+
+  it('starts lots that predate the ledger from their first movement', async () => {
+    vi.mocked(fetchPointsByFilter).mockResolvedValue([
+      movement('m-2', -1, 7, '2026-01-02'),
+      movement('m-1', -2, 8, '2026-01-01'),
+    ] as any);
+
+    expect(await reconcileStockItem('lot-1')).toMatchObject({
+      openingQuantity: 10, replayedQuantity: 7, preLedger: true, consistent: true,
+    });
+  });
+
+  it('takes lots without movements as they stand and still reports real drift', async () => {
+    vi.mocked(fetchPointsByFilter).mockResolvedValue([]);
+    expect(await reconcileStockItem('lot-1')).toMatchObject({ openingQuantity: 7, preLedger: true, consistent: true });
+
+    vi.mocked(fetchPointsByFilter).mockResolvedValue([movement('m-1', -2, 8, '2026-01-01')] as any);
+    expect(await reconcileStockItem('lot-1')).toMatchObject({ replayedQuantity: 8, consistent: false });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Stock Movements Service
+ *
+ * Append-only ledger of every quantity change on an inventory item. Entries are
+ * never updated or deleted (the Qdrant proxy refuses to); corrections are
+ * recorded as new movements. Replaying an item's movements must reproduce its
+ * current quantity.
+ */
+
+import { qdrantClient, activeShopId, resolveActorId } from '../core';
+import { ensureReadyOrWarn } from '../collections';
+import { composePointId, composePointVectorPayload, resolveVector, buildPlaceholderVector } from '../vectors';
+import { fetchAllPoints, fetchPointsByFilter } from '../queries';
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  StockMovement,
+  StockMovementReason,
+  StockReconciliation,
+} from '../../../types';
+
+export type NewStockMovement = {
+  id?: string; // Pass a deterministic id to make re-recording the same movement a no-op
+  inventoryUuid: string;
+  productId: string;
+  delta: number;
+  reason: StockMovementReason;
+  quantityAfter?: number;
+  referenceId?: string | null;
+  note?: string;
+  costOfGoodsLoss?: number;
+  shopId?: string;
+  createdByUserId?: string;
+};
+
+const mapPointToMovement = (point: { id: string | number; payload?: any }): StockMovement => {
+  const payload = point.payload as any;
+  return {
+    id: payload?.movementId || String(point.id),
+    shopId: payload?.shopId || '',
+    inventoryUuid: payload?.inventoryUuid || '',
+    productId: payload?.productId || '',
+    delta: Number(payload?.delta) || 0,
+    quantityAfter: payload?.quantityAfter ?? undefined,
+    reason: payload?.reason || 'adjustment',
+    createdByUserId: payload?.createdByUserId || '',
+    referenceId: payload?.referenceId ?? null,
+    note: payload?.note || undefined,
+    costOfGoodsLoss: payload?.costOfGoodsLoss ?? undefined,
+    createdAt: payload?.createdAt || '',
+  };
+};
+
+const buildMovementPoint = (movement: StockMovement) => {
+  const vector = resolveVector(buildPlaceholderVector(movement.id), movement.id, `stock_movements:${movement.id}`);
+  return {
+    id: composePointId('stock_movements', movement.id),
+    ...composePointVectorPayload('stock_movements', vector),
+    payload: {
+      movementId: movement.id,
+      shopId: movement.shopId,
+      inventoryUuid: movement.inventoryUuid,
+      productId: movement.productId,
+      delta: movement.delta,
+      quantityAfter: movement.quantityAfter ?? null,
+      reason: movement.reason,
+      createdByUserId: movement.createdByUserId,
+      referenceId: movement.referenceId ?? null,
+      note: movement.note ?? null,
+      costOfGoodsLoss: movement.costOfGoodsLoss ?? null,
+      createdAt: movement.createdAt,
+    },
+  };
+};
+
+// Append movements to the ledger (zero deltas are dropped)
+export const recordStockMovements = async (movements: NewStockMovement[]): Promise<StockMovement[]> => {
+  const entries = movements.filter(movement => movement.delta !== 0);
+  if (entries.length === 0) return [];
+  if (!qdrantClient) return [];
+  if (!(await ensureReadyOrWarn('stock_movements'))) return [];
+
+  const now = new Date().toISOString();
+  const recorded: StockMovement[] = entries.map(movement => ({
+    id: movement.id || uuidv4(),
+    shopId: movement.shopId || activeShopId || '',
+    inventoryUuid: movement.inventoryUuid,
+    productId: movement.productId,
+    delta: movement.delta,
+    quantityAfter: movement.quantityAfter,
+    reason: movement.reason,
+    createdByUserId: movement.createdByUserId || resolveActorId() || '',
+    referenceId: movement.referenceId ?? null,
+    note: movement.note,
+    costOfGoodsLoss: movement.costOfGoodsLoss,
+    createdAt: now,
+  }));
+
+  await qdrantClient.upsert('stock_movements', {
+    wait: true,
+    points: recorded.map(buildMovementPoint) as any,
+  });
+  return recorded;
+};
+
+export const recordStockMovement = async (movement: NewStockMovement): Promise<StockMovement | null> => {
+  const [recorded] = await recordStockMovements([movement]);
+  return recorded ?? null;
+};
+
+// Movement history for one item, oldest first
+export const getStockMovementsForItem = async (inventoryUuid: string): Promise<StockMovement[]> => {
+  const points = await fetchPointsByFilter('stock_movements', {
+    must: [{ key: 'inventoryUuid', match: { value: inventoryUuid } }],
+  });
+  return points
+    .map(mapPointToMovement)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+// Movements for a shop, optionally narrowed to one reason
+export const getStockMovementsForShop = async (
+  shopId: string,
+  reason?: StockMovementReason,
+): Promise<StockMovement[]> => {
+  const must: any[] = [{ key: 'shopId', match: { value: shopId } }];
+  if (reason) must.push({ key: 'reason', match: { value: reason } });
+  const points = await fetchPointsByFilter('stock_movements', { must });
+  return points
+    .map(mapPointToMovement)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+/**
+ * Stock an item held before its first recorded movement. Lots that predate the
+ * ledger start from the quantity their first movement saw; lots with no
+ * movements at all are taken as they stand.
+ */
+const openingQuantity = (movements: StockMovement[], currentQuantity: number): number => {
+  const [first] = movements;
+  if (!first) return currentQuantity;
+  return first.quantityAfter === undefined ? 0 : first.quantityAfter - first.delta;
+};
+
+// Replay an item's movements from its opening quantity and compare the result with its stored quantity
+export const reconcileStockItem = async (inventoryUuid: string): Promise<StockReconciliation> => {
+  if (!qdrantClient) throw new Error('Qdrant client not initialized.');
+  const [records, movements] = await Promise.all([
+    qdrantClient.retrieve('items', { ids: [inventoryUuid], with_payload: true }),
+    getStockMovementsForItem(inventoryUuid),
+  ]);
+  const stored = records?.[0]?.payload as any;
+
+  const currentQuantity = Number(stored?.quantity) || 0;
+  const opening = openingQuantity(movements, currentQuantity);
+  const replayedQuantity = movements.reduce((sum, movement) => sum + movement.delta, opening);
+  return {
+    inventoryUuid,
+    productId: stored?.productId || movements[0]?.productId || '',
+    currentQuantity,
+    openingQuantity: opening,
+    replayedQuantity,
+    movementCount: movements.length,
+    preLedger: opening !== 0,
+    consistent: currentQuantity === replayedQuantity,
+  };
+};
+
+// Reconcile every item of a shop; returns only the mismatches (pre-ledger lots are not mismatches by themselves)
+export const reconcileShopStock = async (shopId: string): Promise<StockReconciliation[]> => {
+  const points = await fetchAllPoints('items', shopId);
+  const results: StockReconciliation[] = [];
+  for (const point of points) {
+    const inventoryUuid = (point.payload as any)?.inventoryUuid || String(point.id);
+    const result = await reconcileStockItem(inventoryUuid);
+    if (!result.consistent) results.push(result);
+  }
+  return results;
+};
@@ -0,0 +1,56 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../core', () => ({ qdrantClient: {} }));
+vi.mock('./inventory', () => ({
+  adjustStockQuantity: vi.fn(),
+  getStockPayload: vi.fn(),
+  persistInventoryEntry: vi.fn(),
+}));
+vi.mock('./stockMovements', () => ({
+  getStockMovementsForShop: vi.fn(),
+  recordStockMovements: vi.fn(),
+}));
+
+import { adjustStockQuantity, getStockPayload, persistInventoryEntry } from './inventory';
+import { recordStockMovements } from './stockMovements';
+import { transferStock } from './transfers';
+
+const source = {
+  inventoryUuid: 'lot-1',
+  shopId: 'shop-a',
+  productId: 'product-1',
+  batchId: 'batch-1',
+  quantity: 10,
+  expiration: '2030-01-01',
+  buyPrice: 2,
+  sellPrice: 3,
+};
+
+describe('transferStock', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getStockPayload).mockResolvedValue(source as any);
+    vi.mocked(persistInventoryEntry).mockResolvedValue(undefined);
+    vi.mocked(recordStockMovements).mockResolvedValue([]);
+  });
+
+  it('records the quantity the source lot was actually left with', async () => {
+    // A sale landed between the read and the decrement: 10 - 2 (sale) - 4 (transfer)
+    vi.mocked(adjustStockQuantity).mockResolvedValue(4);
+
+    await transferStock({ inventoryUuid: 'lot-1', toShopId: 'shop-b', quantity: 4 });
+
+    const [out, incoming] = vi.mocked(recordStockMovements).mock.calls[0][0];
+    expect(out).toMatchObject({ inventoryUuid: 'lot-1', delta: -4, quantityAfter: 4, shopId: 'shop-a' });
+    expect(incoming).toMatchObject({ delta: 4, quantityAfter: 4, shopId: 'shop-b' });
+  });
+
+  it('puts the units back when the destination lot cannot be written', async () => {
+    vi.mocked(adjustStockQuantity).mockResolvedValue(6);
+    vi.mocked(persistInventoryEntry).mockRejectedValue(new Error('write failed'));
+
+    await expect(transferStock({ inventoryUuid: 'lot-1', toShopId: 'shop-b', quantity: 4 })).rejects.toThrow('write failed');
+    expect(adjustStockQuantity).toHaveBeenLastCalledWith('lot-1', 4);
+    expect(recordStockMovements).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Inter-shop Transfers Service
+ *
+ * Moves stock between shops run by the same operator without the public
+ * marketplace. Units leave one lot in the source shop and arrive as a new lot
+ * (same product, batch, expiration and prices) in the destination shop. The
+ * pair of 'transfer' movements shares the transfer's ID as referenceId, so
+ * each shop's ledger still replays to its stored quantities.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { qdrantClient } from '../core';
+import { adjustStockQuantity, getStockPayload, persistInventoryEntry } from './inventory';
+import { getStockMovementsForShop, recordStockMovements } from './stockMovements';
+import type { StockItem, StockTransfer } from '../../../types';
+
+export const transferStock = async (input: {
+  inventoryUuid: string;
+  toShopId: string;
+  quantity: number;
+  note?: string;
+}): Promise<StockTransfer> => {
+  if (!qdrantClient) throw new Error('Qdrant client not initialized.');
+  if (!Number.isInteger(input.quantity) || input.quantity <= 0) {
+    throw new Error('Transfer a whole number of units above zero.');
+  }
+  const source = await getStockPayload(input.inventoryUuid);
+  if (!source) throw new Error(`Inventory item ${input.inventoryUuid} not found`);
+  if (source.shopId === input.toShopId) throw new Error('Pick a different shop to transfer to.');
+  const available = Number(source.quantity) || 0;
+  if (available < input.quantity) {
+    throw new Error(`Only ${available} units are in stock to transfer.`);
+  }
+
+  const transferId = uuidv4();
+  const destinationUuid = uuidv4();
+  const now = new Date().toISOString();
+  const sourceQuantityAfter = await adjustStockQuantity(input.inventoryUuid, -input.quantity);
+
+  const destination: StockItem = {
+    id: Date.now() + Math.random(),
+    inventoryUuid: destinationUuid,
+    qdrantId: destinationUuid,
+    shopId: input.toShopId,
+    productId: source.productId,
+    batchId: source.batchId,
+    supplierId: source.supplierId || undefined,
+    expirationDate: source.expiration,
+    quantity: input.quantity,
+    costPerUnit: source.buyPrice || 0,
+    buyPrice: source.buyPrice ?? undefined,
+    sellPrice: source.sellPrice ?? undefined,
+    location: 'Transfer Intake',
+    status: 'ACTIVE',
+    createdAt: now,
+    updatedAt: now,
+  };
+  try {
+    await persistInventoryEntry(destination);
+  } catch (error) {
+    await adjustStockQuantity(input.inventoryUuid, input.quantity).catch(err =>
+      console.error(`[Transfers] Failed to restore ${input.quantity} units to ${input.inventoryUuid}:`, err));
+    throw error;
+  }
+
+  // IDs derive from the transfer, so recording the pair again does not double count
+  await recordStockMovements([
+    {
+      id: `${transferId}:out`,
+      inventoryUuid: input.inventoryUuid,
+      productId: source.productId,
+      delta: -input.quantity,
+      quantityAfter: sourceQuantityAfter,
+      reason: 'transfer',
+      referenceId: transferId,
+      note: input.note,
+      shopId: source.shopId,
+    },
+    {
+      id: `${transferId}:in`,
+      inventoryUuid: destinationUuid,
+      productId: source.productId,
+      delta: input.quantity,
+      quantityAfter: input.quantity,
+      reason: 'transfer',
+      referenceId: transferId,
+      note: input.note,
+      shopId: input.toShopId,
+    },
+  ]);
+
+  console.info(`[Transfers] Moved ${input.quantity} units of ${source.productId} from shop ${source.shopId} to ${input.toShopId}.`);
+  return {
+    id: transferId,
+    productId: source.productId,
+    quantity: input.quantity,
+    fromShopId: source.shopId,
+    fromInventoryUuid: input.inventoryUuid,
+    toShopId: input.toShopId,
+    toInventoryUuid: destinationUuid,
+    note: input.note,
+    createdAt: now,
+  };
+};
+
+/**
+ * Transfers in and out of the given shops, newest first, rebuilt from their
+ * movement pairs. Pass every shop of the operator to see both sides.
+ */
+export const getTransfersForShops = async (shopIds: string[]): Promise<StockTransfer[]> => {
+  const movements = (await Promise.all(shopIds.map(shopId => getStockMovementsForShop(shopId, 'transfer')))).flat();
+  const byTransfer = new Map<string, StockTransfer>();
+  for (const movement of movements) {
+    // Marketplace intake also records 'transfer' movements; only pairs from transferStock count here
+    const side = movement.id === `${movement.referenceId}:out` ? 'out' : movement.id === `${movement.referenceId}:in` ? 'in' : null;
+    if (!movement.referenceId || !side) continue;
+    const transfer = byTransfer.get(movement.referenceId) || {
+      id: movement.referenceId,
+      productId: movement.productId,
+      quantity: Math.abs(movement.delta),
+      fromShopId: '',
+      fromInventoryUuid: '',
+      toShopId: '',
+      toInventoryUuid: '',
+      note: movement.note,
+      createdAt: movement.createdAt,
+    };
+    if (side === 'out') {
+      transfer.fromShopId = movement.shopId;
+      transfer.fromInventoryUuid = movement.inventoryUuid;
+    } else {
+      transfer.toShopId = movement.shopId;
+      transfer.toInventoryUuid = movement.inventoryUuid;
+    }
+    byTransfer.set(movement.referenceId, transfer);
+  }
+  return Array.from(byTransfer.values()).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
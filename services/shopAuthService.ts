@@ -1,18 +1,16 @@
-import bcrypt from 'bcryptjs';
-import { v4 as uuidv4 } from 'uuid';
-import supabase from './supabaseClient';
+import { endSession, fetchWithSession, hasStoredSession, refreshSession, requestSession, switchSessionShop } from './authSession';
 import {
   ActiveShopContext,
   createShopNamespace,
   setActiveShopContext,
+  setActiveUserContext,
   upsertShopRecord,
   upsertCustomerRecord,
   upsertDriverRecord,
   upsertSupplierProfile,
   upsertUserProfile,
 } from './vectorDBService';
-import { User } from '../types';
-import { registerShopForVerification, registerDriverForVerification, getVerificationStatusForUser } from './backendService';
+import { AccountShop, StaffRole, User, VerificationKind, VerificationStatus } from '../types';
 
 export type UserRole = 'shop' | 'customer' | 'driver' | 'supplier';
 
@@ -32,7 +30,6 @@ interface UserRow {
   id: string;
   username: string;
   email: string;
-  password_hash: string;
   display_name: string;
   contact_email?: string | null;
   is_shop: boolean;
@@ -45,16 +42,24 @@ interface UserRow {
   customer_qdrant_id: string | null;
   driver_qdrant_id: string | null;
   supplier_qdrant_id: string | null;
+  is_admin?: boolean;
   metadata?: any;
+  // Shop the user works at as staff (server/staff.js), when they have none of their own
+  staff?: {
+    shopId: string;
+    role: StaffRole;
+    ownerUserId: string | null;
+    shopName: string | null;
+    contactEmail: string | null;
+    qdrantNamespace: string | null;
+  } | null;
+  // Current status per kind from the server's verification history; null without the role
+  verification?: Record<VerificationKind, VerificationStatus | null>;
+  // Every shop the user can work in and the one this session works in (server/shops.js)
+  shops?: AccountShop[];
+  activeShop?: AccountShop | null;
 }
 
-const ensureSupabase = () => {
-  if (!supabase) {
-    throw new Error('Supabase is not configured.');
-  }
-  return supabase;
-};
-
 const derivePrimaryRole = (roles: RoleFlags): UserRole => {
   if (roles.shop) return 'shop';
   if (roles.customer) return 'customer';
@@ -63,17 +68,18 @@ const derivePrimaryRole = (roles: RoleFlags): UserRole => {
 };
 
 const buildProfileFromRow = async (row: UserRow): Promise<AuthenticatedProfile> => {
+  const staff = row.shop_qdrant_id ? null : row.staff || null;
+  const shops = row.shops || [];
+  const activeShop = row.activeShop || null;
   const roles: RoleFlags = {
-    shop: row.is_shop,
+    shop: row.is_shop || shops.length > 0 || Boolean(staff),
     customer: row.is_customer,
     driver: row.is_driver,
     supplier: row.is_supplier,
   };
 
-  const verification = await getVerificationStatusForUser(row.id, {
-    requiresShopVerification: row.is_shop,
-    requiresDriverVerification: row.is_driver,
-  });
+  // Staff work under their shop's verification, which the server reports as theirs
+  const verification = row.verification;
 
   const user: User = {
     clientId: row.id,
@@ -82,26 +88,44 @@ const buildProfileFromRow = async (row: UserRow): Promise<AuthenticatedProfile>
     address: '',
     email: row.email,
     role: derivePrimaryRole(roles),
-    isVerified: verification.isVerified,
-    isDriverVerified: verification.isDriverVerified,
-    shopId: row.shop_qdrant_id || undefined,
+    isVerified: !roles.shop || verification?.shop === 'approved',
+    isDriverVerified: !roles.driver || verification?.driver === 'approved',
+    shopId: activeShop?.shopId || row.shop_qdrant_id || staff?.shopId || undefined,
     customerId: row.customer_qdrant_id || undefined,
     driverId: row.driver_qdrant_id || undefined,
     supplierId: row.supplier_qdrant_id || undefined,
     roles,
+    staffRole: activeShop?.role || (row.shop_qdrant_id ? 'owner' : staff?.role),
+    isAdmin: row.is_admin === true,
+    shops,
   };
 
   let shopContext: ActiveShopContext | null = null;
-  if (row.is_shop && row.shop_qdrant_id) {
+  if (activeShop) {
+    shopContext = {
+      id: activeShop.shopId,
+      name: activeShop.name,
+      contactEmail: activeShop.contactEmail,
+      qdrantNamespace: activeShop.qdrantNamespace || undefined,
+    };
+  } else if (row.is_shop && row.shop_qdrant_id) {
     shopContext = {
       id: row.shop_qdrant_id,
       name: row.display_name,
       contactEmail: row.contact_email,
       qdrantNamespace: row.qdrant_namespace || undefined,
     };
+  } else if (staff) {
+    shopContext = {
+      id: staff.shopId,
+      name: staff.shopName,
+      contactEmail: staff.contactEmail,
+      qdrantNamespace: staff.qdrantNamespace || undefined,
+    };
   }
 
   setActiveShopContext(shopContext);
+  setActiveUserContext(user.shopId ? { id: row.id, staffRole: user.staffRole } : null);
   
   // Ensure user profile exists in Qdrant with matching ID
   // Use Supabase userId (row.id) as Qdrant user point ID for access control
@@ -118,12 +142,6 @@ const buildProfileFromRow = async (row: UserRow): Promise<AuthenticatedProfile>
   return { user, shopContext };
 };
 
-const insertUserRow = async (payload: Partial<UserRow> & { password_hash: string }) => {
-  const client = ensureSupabase();
-  const { error } = await client.from('users').insert([payload]);
-  if (error) throw error;
-};
-
 export const registerUser = async (params: {
   username: string;
   email: string;
@@ -133,39 +151,18 @@ export const registerUser = async (params: {
   licenseId?: string;
   supplierShopId?: string;
 }): Promise<AuthenticatedProfile> => {
-  const client = ensureSupabase();
   const normalizedRoles = params.roles;
   if (!normalizedRoles.shop && !normalizedRoles.customer && !normalizedRoles.driver && !normalizedRoles.supplier) {
     throw new Error('Please select at least one role.');
   }
 
-  const passwordHash = await bcrypt.hash(params.password, 10);
-  const userId = uuidv4(); // Supabase user ID - also used as Qdrant user point ID for matching
-  // Auto-generate shop_qdrant_id if shop role is enabled (even if not explicitly provided)
-  const shopQdrantId = normalizedRoles.shop ? uuidv4() : null;
-  const customerQdrantId = normalizedRoles.customer ? uuidv4() : null;
-  const driverQdrantId = normalizedRoles.driver ? uuidv4() : null;
-  const supplierQdrantId = normalizedRoles.supplier ? uuidv4() : null;
-
-  await insertUserRow({
-    id: userId,
-    username: params.username.trim(),
-    email: params.email.trim(),
-    contact_email: params.email.trim(),
-    display_name: params.displayName.trim(),
-    password_hash: passwordHash,
-    is_shop: normalizedRoles.shop,
-    is_customer: normalizedRoles.customer,
-    is_driver: normalizedRoles.driver,
-    is_supplier: normalizedRoles.supplier,
-    qdrant_user_id: userId, // Use Supabase userId as Qdrant user ID for matching
-    shop_qdrant_id: shopQdrantId,
-    qdrant_namespace: shopQdrantId ? `shop-${shopQdrantId}` : null,
-    customer_qdrant_id: customerQdrantId,
-    driver_qdrant_id: driverQdrantId,
-    supplier_qdrant_id: supplierQdrantId,
-    metadata: normalizedRoles.driver && params.licenseId ? { licenseId: params.licenseId } : {},
-  });
+  // The server hashes the password, creates the users row (and its Qdrant IDs) and signs us in
+  const { user: row } = await requestSession('register', params) as { user: UserRow };
+  const userId = row.id; // Supabase user ID - also used as Qdrant user point ID for matching
+  const shopQdrantId = row.shop_qdrant_id;
+  const customerQdrantId = row.customer_qdrant_id;
+  const driverQdrantId = row.driver_qdrant_id;
+  const supplierQdrantId = row.supplier_qdrant_id;
 
   // Use Supabase userId as Qdrant user point ID - they match for access control
   await upsertUserProfile({
@@ -207,71 +204,61 @@ export const registerUser = async (params: {
     });
   }
 
-  const row: UserRow = {
-    id: userId,
-    username: params.username.trim(),
-    email: params.email.trim(),
-    password_hash: passwordHash,
-    display_name: params.displayName.trim(),
-    contact_email: params.email.trim(),
-    is_shop: normalizedRoles.shop,
-    is_customer: normalizedRoles.customer,
-    is_driver: normalizedRoles.driver,
-    is_supplier: normalizedRoles.supplier,
-    qdrant_user_id: userId, // Same as Supabase userId - used for Qdrant user point ID
-    shop_qdrant_id: shopQdrantId,
-    qdrant_namespace: shopQdrantId ? `shop-${shopQdrantId}` : null,
-    customer_qdrant_id: customerQdrantId,
-    driver_qdrant_id: driverQdrantId,
-    supplier_qdrant_id: supplierQdrantId,
-    metadata: {
-      ...(normalizedRoles.driver && params.licenseId ? { licenseId: params.licenseId } : {}),
-      ...(normalizedRoles.supplier && params.supplierShopId ? { linkedShop: params.supplierShopId } : {}),
-    },
-  };
-
-  const pendingUser: User = {
-    clientId: userId,
-    companyName: params.displayName.trim(),
-    contactPerson: params.displayName.trim(),
-    address: '',
-    email: params.email.trim(),
-    role: derivePrimaryRole(normalizedRoles),
-    isVerified: !normalizedRoles.shop,
-    isDriverVerified: !normalizedRoles.driver,
-    shopId: shopQdrantId || undefined,
-    customerId: customerQdrantId || undefined,
-    driverId: driverQdrantId || undefined,
-    supplierId: supplierQdrantId || undefined,
-    roles: normalizedRoles,
-  };
-
-  if (normalizedRoles.shop) {
-    await registerShopForVerification(pendingUser);
-  }
-  if (normalizedRoles.driver) {
-    await registerDriverForVerification(pendingUser);
-  }
-
   return await buildProfileFromRow(row);
 };
 
 export const loginUser = async (params: { username: string; password: string }): Promise<AuthenticatedProfile> => {
-  const client = ensureSupabase();
-  const { data: row, error } = await client
-    .from('users')
-    .select('*')
-    .eq('username', params.username.trim())
-    .single();
+  const { user: row } = await requestSession('login', params);
+  return await buildProfileFromRow(row as UserRow);
+};
 
-  if (error || !row) {
-    throw new Error('Invalid username or password.');
+// Profile for a session kept from earlier in this tab, or null when there is none or it expired
+export const restoreSession = async (): Promise<AuthenticatedProfile | null> => {
+  if (!hasStoredSession()) return null;
+  try {
+    const { user: row } = await refreshSession();
+    return await buildProfileFromRow(row as UserRow);
+  } catch (error) {
+    console.warn('[Auth] Could not restore session:', error);
+    return null;
   }
+};
 
-  const isValid = await bcrypt.compare(params.password, row.password_hash ?? '');
-  if (!isValid) {
-    throw new Error('Invalid username or password.');
-  }
+// Work in another of the user's shops; returns the profile for it
+export const switchShop = async (shopId: string): Promise<AuthenticatedProfile> => {
+  const { user: row } = await switchSessionShop(shopId);
+  return await buildProfileFromRow(row as UserRow);
+};
+
+/**
+ * Open another shop under the signed-in owner's account and create its shop
+ * record in Qdrant. The session stays in the current shop; the returned
+ * profile lists the new one.
+ */
+export const createOperatorShop = async (params: { name: string; contactEmail?: string }): Promise<AuthenticatedProfile> => {
+  const response = await fetchWithSession('/api/shops', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(params),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || `Could not open the shop (${response.status})`);
+  const shop = data.shop as AccountShop;
 
+  // The refreshed session covers the new shop, so its records can be written
+  const { user: row } = await refreshSession();
+  await upsertShopRecord({
+    id: shop.shopId,
+    name: shop.name,
+    contactEmail: shop.contactEmail,
+    userId: shop.ownerUserId,
+    qdrantNamespace: shop.qdrantNamespace,
+  });
   return await buildProfileFromRow(row as UserRow);
 };
+
+export const logoutUser = async (): Promise<void> => {
+  setActiveShopContext(null);
+  setActiveUserContext(null);
+  await endSession();
+};
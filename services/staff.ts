@@ -0,0 +1,87 @@
+import { fetchWithSession } from './authSession';
+import type { StaffMember, StaffPermission, StaffRole, User } from '../types';
+
+/**
+ * Staff accounts of the signed-in user's shop. The owner adds existing users
+ * by username; memberships live on the server (server/staff.js), which also
+ * enforces the permissions on Qdrant writes. The role table mirrors
+ * STAFF_ROLE_PERMISSIONS there.
+ */
+
+export const STAFF_ROLE_PERMISSIONS: Record<StaffRole, StaffPermission[]> = {
+  owner: ['editPrices', 'editCatalog', 'adjustStock', 'deleteInventory', 'receiveBatches', 'managePolicies', 'viewFinancials', 'manageStaff'],
+  manager: ['editPrices', 'editCatalog', 'adjustStock', 'deleteInventory', 'receiveBatches', 'managePolicies', 'viewFinancials'],
+  clerk: ['adjustStock', 'receiveBatches'],
+  auditor: ['viewFinancials'],
+};
+
+export const STAFF_ROLE_LABELS: Record<StaffRole, string> = {
+  owner: 'Owner',
+  manager: 'Manager',
+  clerk: 'Clerk',
+  auditor: 'Auditor',
+};
+
+export const STAFF_PERMISSION_LABELS: Record<StaffPermission, string> = {
+  editPrices: 'Edit prices and promotions',
+  editCatalog: 'Edit the product catalog',
+  adjustStock: 'Adjust stock counts',
+  deleteInventory: 'Delete inventory and products',
+  receiveBatches: 'Log and receive batches',
+  managePolicies: 'Manage DAN policies',
+  viewFinancials: 'View costs and analysis',
+  manageStaff: 'Manage staff',
+};
+
+// Roles the owner can give to staff
+export const ASSIGNABLE_STAFF_ROLES: StaffRole[] = ['manager', 'clerk', 'auditor'];
+
+// The user's role in their shop; shop users from before staff roles are owners
+export const resolveStaffRole = (user: User | null | undefined): StaffRole | null => {
+  if (!user?.shopId) return null;
+  return user.staffRole ?? 'owner';
+};
+
+export const hasStaffPermission = (user: User | null | undefined, permission: StaffPermission): boolean => {
+  const role = resolveStaffRole(user);
+  return Boolean(role && STAFF_ROLE_PERMISSIONS[role].includes(permission));
+};
+
+const staffRequest = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+  const response = await fetchWithSession(`/api/staff${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...(init.headers || {}) },
+  });
+  if (response.status === 204) return undefined as T;
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Staff request failed (${response.status})`);
+  }
+  return data as T;
+};
+
+// The owner first, then staff in the order they were added
+export const getStaffMembers = async (): Promise<StaffMember[]> => {
+  const { staff } = await staffRequest<{ staff: StaffMember[] }>('');
+  return staff;
+};
+
+export const addStaffMember = async (username: string, role: StaffRole): Promise<StaffMember> => {
+  const { member } = await staffRequest<{ member: StaffMember }>('', {
+    method: 'POST',
+    body: JSON.stringify({ username: username.trim(), role }),
+  });
+  return member;
+};
+
+export const updateStaffRole = async (userId: string, role: StaffRole): Promise<StaffMember> => {
+  const { member } = await staffRequest<{ member: StaffMember }>(`/${encodeURIComponent(userId)}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ role }),
+  });
+  return member;
+};
+
+export const removeStaffMember = async (userId: string): Promise<void> => {
+  await staffRequest<void>(`/${encodeURIComponent(userId)}`, { method: 'DELETE' });
+};
@@ -16,6 +16,8 @@ import {
   activeNamespace as _activeNamespace,
   setActiveShopContext as _setActiveShopContext,
   type ActiveShopContextType,
+  setActiveUserContext,
+  resolveActorId,
 } from './qdrant/core';
 
 import {
@@ -61,11 +63,24 @@ import {
   createInventoryFromBatch,
   searchRelevantInventoryItems,
   getAllStockItems as _getAllStockItems,
+  tagStockItems,
+  getStockPayload,
+  compareAndSetStockQuantity,
+  adjustStockQuantity,
 } from './qdrant/services/inventory';
 
+import {
+  getNotifications,
+  markNotificationRead,
+  markAllNotificationsRead,
+  getNotificationSubscription,
+  saveNotificationSubscription,
+} from './qdrant/services/notifications';
+
 import {
   persistSale,
   recordSale as _recordSale,
+  quoteSale as _quoteSale,
   deductStockForOrder as _deductStockForOrder,
   getAllSales,
 } from './qdrant/services/sales';
@@ -76,6 +91,61 @@ import {
   purchaseFromMarketplace as _purchaseFromMarketplace,
 } from './qdrant/services/marketplace';
 
+import {
+  recordStockMovement,
+  getStockMovementsForItem,
+  reconcileStockItem,
+  reconcileShopStock,
+} from './qdrant/services/stockMovements';
+
+import {
+  sweepExpiredStock as _sweepExpiredStock,
+  getMarkdownCandidates as _getMarkdownCandidates,
+  applyMarkdown,
+  DEFAULT_MARKDOWN_WINDOW_DAYS,
+} from './qdrant/services/expiry';
+
+import {
+  transferStock as _transferStock,
+  getTransfersForShops,
+} from './qdrant/services/transfers';
+
+import {
+  savePromotion,
+  getPromotions,
+  getActivePromotions,
+  setPromotionActive,
+  applyPromotions,
+  promotionAppliesTo,
+  describePromotion,
+} from './qdrant/services/promotions';
+
+import {
+  getReorderSettings,
+  saveReorderSetting,
+  getPurchaseOrders,
+  updatePurchaseOrderDraft,
+  sendPurchaseOrder,
+  cancelPurchaseOrder,
+  purchaseOrderToCsv,
+  generateDraftPurchaseOrders,
+} from './qdrant/services/purchasing';
+
+import {
+  getDemandForecasts,
+  applyForecastsToSummaries,
+  computeForecasts,
+  STOCKOUT_ALERT_DAYS,
+} from './qdrant/services/forecasting';
+
+import {
+  buildReceivingLines,
+  reconcileReceivingLines,
+  receiveBatch as _receiveBatch,
+  markDiscrepancyReportSent,
+  discrepancyReportToCsv,
+} from './qdrant/services/receiving';
+
 import {
   addImageForField,
   getLocalLearnedFields,
@@ -85,6 +155,7 @@ import {
 import {
   upsertDanInventoryOffer,
   removeDanInventoryOffer,
+  removeDanInventoryOffersBySigner,
   listDanInventoryOffers,
 } from './qdrant/services/danInventory';
 
@@ -120,6 +191,18 @@ import type {
   BatchLineItem,
   ScanMetadata,
   DanShareScope,
+  DanInventoryOffer,
+  DanOpenReservation,
+  StockMovementReason,
+  ExpirySweepResult,
+  MarkdownCandidate,
+  Promotion,
+  PurchaseOrder,
+  BatchStatus,
+  ReceivingLine,
+  AccountShop,
+  ShopOverview,
+  StockTransfer,
 } from '../types';
 
 import {
@@ -129,12 +212,44 @@ import {
   shareScopeIncludesDan,
   isDanFeatureEnabled,
   hashDanPayload,
+  subscribeToDanEvents,
+  approveDanDeviceKey,
+  rotateDanKey,
+  revokeDanKey as _revokeDanKey,
+  setDanDeviceLabel,
+  getQuarantinedDanEvents,
+  DAN_KEY_ROTATION_OVERLAP_DAYS,
 } from './danRegistry';
 
 import {
   seedDefaultPolicyForShop,
   evaluatePoliciesForEvent,
+  getPoliciesForShop,
+  getRecentPolicyRuns,
+  getPolicyVersions,
+  upsertPolicy,
+  deletePolicy,
+  nextPolicyVersion,
+  testPolicyAgainstEvent,
+  dryRunPolicy,
+  filterDanOffers,
 } from './policyEngine';
+import { getShopReputations, getOpenDanReservations } from './danReputation';
+import { fetchWithSession } from './authSession';
+import {
+  getDanOutboxEntries,
+  retryDanOutboxEvents,
+  discardDanOutboxEvent,
+  subscribeToDanOutbox,
+} from './danOutbox';
+import {
+  getWebhookEndpoints,
+  saveWebhookEndpoint,
+  rotateWebhookSecret,
+  deleteWebhookEndpoint,
+  getWebhookDeliveries,
+  redeliverWebhook,
+} from './webhooks';
 
 const resolveActiveShopId = (): string | null => _activeShopId || null;
 
@@ -213,13 +328,14 @@ const publishInventoryOfferToDan = async (
       supplierId: stockItem.supplierId || context.supplierId || null,
       supplierName: context.supplierName || null,
       shopId: stockItem.shopId,
+      shopName: _activeShopName || null,
       shareScope,
     };
     const proofHash = await hashDanPayload(payload);
     const vectorContext = await embedText(
       `${payload.productName} ${payload.quantity} ${payload.locationBucket || ''}`,
     );
-    await publishDanEvent({
+    const event = await publishDanEvent({
       eventType: 'inventory.offer.created',
       payload: { ...payload, proofHash },
       shareScope,
@@ -230,10 +346,13 @@ const publishInventoryOfferToDan = async (
       },
     });
     await evaluatePoliciesForEvent({
+      eventId: event?.eventId,
       eventType: 'inventory.offer.created',
       payload: { ...payload },
       proofs: { hash: proofHash },
     });
+    // Nothing was signed (e.g. this device's key awaits approval)
+    if (!event) return;
     await upsertDanInventoryOffer({
       inventoryUuid: stockItem.inventoryUuid,
       productId: stockItem.productId,
@@ -246,6 +365,7 @@ const publishInventoryOfferToDan = async (
       shopName: _activeShopName,
       shareScope,
       proofHash,
+      signerFingerprint: event.actor.fingerprint,
       vector: vectorContext,
     });
   } catch (err) {
@@ -253,10 +373,12 @@ const publishInventoryOfferToDan = async (
   }
 };
 
+// `reservationEventId` links the fulfillment to a peer's reservation; local sales have none
 const publishFulfillmentEventToDan = async (
   stockItem: StockItem,
   productName: string,
   fulfilledQuantity: number,
+  reservationEventId?: string,
 ) => {
   if (!shouldShareWithDan(stockItem.shareScope)) return;
   try {
@@ -275,12 +397,13 @@ const publishFulfillmentEventToDan = async (
       batchId: stockItem.batchId,
        shopId: stockItem.shopId,
       shareScope,
+      ...(reservationEventId ? { reservationEventId } : {}),
     };
     const proofHash = await hashDanPayload(payload);
     const vectorContext = await embedText(
       `${payload.productName} fulfilled ${fulfilledQuantity}`,
     );
-    await publishDanEvent({
+    const event = await publishDanEvent({
       eventType: 'inventory.offer.fulfilled',
       payload: { ...payload, proofHash },
       shareScope,
@@ -291,10 +414,12 @@ const publishFulfillmentEventToDan = async (
       },
     });
     await evaluatePoliciesForEvent({
+      eventId: event?.eventId,
       eventType: 'inventory.offer.fulfilled',
       payload,
       proofs: { hash: proofHash },
     });
+    if (!event) return;
     if (remainingQuantity <= 0) {
       await removeDanInventoryOffer(stockItem.inventoryUuid);
     } else {
@@ -310,6 +435,7 @@ const publishFulfillmentEventToDan = async (
         shopName: _activeShopName,
         shareScope,
         proofHash,
+        signerFingerprint: event.actor.fingerprint,
       });
     }
   } catch (err) {
@@ -392,6 +518,16 @@ export {
   updateInventoryWithOCR,
   deleteInventoryEntry,
   createInventoryFromBatch,
+  tagStockItems,
+};
+
+// Re-export notification inbox functions
+export {
+  getNotifications,
+  markNotificationRead,
+  markAllNotificationsRead,
+  getNotificationSubscription,
+  saveNotificationSubscription,
 };
 
 // Re-export all sales functions
@@ -400,6 +536,53 @@ export {
   getAllSales,
 };
 
+// Re-export stock movement ledger functions
+export {
+  recordStockMovement,
+  getStockMovementsForItem,
+  reconcileStockItem,
+  reconcileShopStock,
+};
+
+// Re-export expiry helpers
+export { applyMarkdown, DEFAULT_MARKDOWN_WINDOW_DAYS };
+
+// Re-export promotion functions
+export {
+  savePromotion,
+  getPromotions,
+  setPromotionActive,
+  applyPromotions,
+  promotionAppliesTo,
+  describePromotion,
+};
+
+// Re-export purchasing functions
+export {
+  getReorderSettings,
+  saveReorderSetting,
+  getPurchaseOrders,
+  updatePurchaseOrderDraft,
+  sendPurchaseOrder,
+  cancelPurchaseOrder,
+  purchaseOrderToCsv,
+};
+
+// Re-export forecasting functions
+export {
+  getDemandForecasts,
+  computeForecasts,
+  STOCKOUT_ALERT_DAYS,
+};
+
+// Re-export receiving functions
+export {
+  buildReceivingLines,
+  reconcileReceivingLines,
+  markDiscrepancyReportSent,
+  discrepancyReportToCsv,
+};
+
 // Re-export all marketplace functions
 export {
   listProductOnMarketplace,
@@ -416,12 +599,146 @@ export {
 // Re-export diagnostics
 export { getQdrantDiagnostics };
 
+// Re-export Policy Center functions
+export {
+  getPoliciesForShop,
+  getRecentPolicyRuns,
+  getPolicyVersions,
+  upsertPolicy,
+  deletePolicy,
+  nextPolicyVersion,
+  testPolicyAgainstEvent,
+  dryRunPolicy,
+  filterDanOffers,
+};
+
+// Re-export DAN reputation functions
+export { getShopReputations, getOpenDanReservations };
+
+// Re-export DAN outbox functions
+export {
+  getDanOutboxEntries,
+  retryDanOutboxEvents,
+  discardDanOutboxEvent,
+  subscribeToDanOutbox,
+};
+
+// Re-export webhook endpoint and delivery functions
+export {
+  getWebhookEndpoints,
+  saveWebhookEndpoint,
+  rotateWebhookSecret,
+  deleteWebhookEndpoint,
+  getWebhookDeliveries,
+  redeliverWebhook,
+};
+
 // DAN offer helpers
 export const getDanInventoryOffers = () => listDanInventoryOffers();
 
+// Buyer side of a peer offer; the seller's fulfillments are scored against it
+export const reserveDanOffer = async (offer: DanInventoryOffer, reservedQuantity: number) => {
+  if (!isDanFeatureEnabled()) throw new Error('DAN is not enabled.');
+  if (!Number.isInteger(reservedQuantity) || reservedQuantity <= 0 || reservedQuantity > offer.quantity) {
+    throw new Error(`Reserve between 1 and ${offer.quantity} units.`);
+  }
+  const payload = {
+    inventoryUuid: offer.inventoryUuid,
+    productId: offer.productId,
+    productName: offer.productName,
+    reservedQuantity,
+    reservedBy: resolveActiveShopId(),
+    sellerShopId: offer.shopId,
+  };
+  const event = await publishDanEvent({
+    eventType: 'inventory.offer.reserved',
+    payload,
+    shareScope: ['dan'],
+    proofs: { link: `dan://offers/${offer.inventoryUuid}` },
+  });
+  if (!event) throw new Error('This device cannot sign DAN events yet. Check its key under DAN devices.');
+  await evaluatePoliciesForEvent({
+    eventId: event.eventId,
+    eventType: 'inventory.offer.reserved',
+    payload,
+    proofs: event.proofs,
+  });
+  return event;
+};
+
+// Seller side: ship units of a peer's reservation from the offered lot. Only
+// fulfillments published this way count toward the seller's reputation.
+export const fulfillDanReservation = async (reservation: DanOpenReservation, quantity: number) => {
+  if (!isDanFeatureEnabled()) throw new Error('DAN is not enabled.');
+  const stockItem = resolveStockItemByInventoryUuid(reservation.inventoryUuid);
+  if (!stockItem || stockItem.shopId !== resolveActiveShopId()) {
+    throw new Error(`The reserved lot of ${reservation.productName} is not in this shop's inventory.`);
+  }
+  const open = reservation.reservedQuantity - reservation.fulfilledQuantity;
+  if (!Number.isInteger(quantity) || quantity <= 0 || quantity > open) {
+    throw new Error(`Fulfil between 1 and ${open} units.`);
+  }
+  const quantityAfter = await adjustStockQuantity(stockItem.inventoryUuid, -quantity);
+  db.stockItems.set(stockItem.id, { ...stockItem, quantity: quantityAfter });
+  await recordStockMovement({
+    inventoryUuid: stockItem.inventoryUuid,
+    productId: stockItem.productId,
+    delta: -quantity,
+    quantityAfter,
+    reason: 'order',
+    referenceId: reservation.reservationEventId,
+    note: `DAN reservation from ${reservation.reservedBy}`,
+  });
+  await publishFulfillmentEventToDan(
+    { ...stockItem, quantity: quantityAfter + quantity },
+    resolveProductName(stockItem.productId, reservation.productName),
+    quantity,
+    reservation.reservationEventId,
+  );
+};
+
 // DAN context helpers
 export const getDanContext = () => _getDanContext();
 
+export {
+  approveDanDeviceKey,
+  rotateDanKey,
+  setDanDeviceLabel,
+  getQuarantinedDanEvents,
+  DAN_KEY_ROTATION_OVERLAP_DAYS,
+};
+
+// Offers this shop published under the key are withdrawn with it
+export const revokeDanKey = async (fingerprint: string, reason?: string) => {
+  await _revokeDanKey(fingerprint, reason);
+  await removeDanInventoryOffersBySigner(fingerprint);
+};
+
+// The policy worker writes other shops' offers to dan_inventory once it has
+// verified their events; give it a moment before reloading
+const DAN_MIRROR_DELAY_MS = 2000;
+
+/**
+ * Follow other shops' verified offer events. The policy worker mirrors them
+ * into dan_inventory (the proxy only lets a shop write its own offers), so
+ * this just reloads after each one. Offers signed by a key are removed as
+ * soon as that key is revoked.
+ */
+export const startDanInventorySync = (onChange?: () => void) =>
+  subscribeToDanEvents(
+    event => {
+      if (event.shopId === resolveActiveShopId()) return;
+      if (event.eventType !== 'inventory.offer.created' && event.eventType !== 'inventory.offer.fulfilled') return;
+      setTimeout(() => onChange?.(), DAN_MIRROR_DELAY_MS);
+    },
+    key => {
+      if (key.status !== 'revoked') return;
+      removeDanInventoryOffersBySigner(key.fingerprint)
+        .then(() => onChange?.())
+        .catch(err => console.warn('[DAN] Failed to remove offers for revoked key', err));
+    },
+  );
+
 // Compatibility functions that need the in-memory db
 export const setActiveShopContext = (shop: ActiveShopContextType | null) => {
   const previousShopId = _activeShopId;
@@ -443,6 +760,11 @@ export const setActiveShopContext = (shop: ActiveShopContextType | null) => {
 
 export const getActiveShopId = (): string | null => resolveActiveShopId();
 
+// The signed-in user to record on new records (see resolveActorId in qdrant/core)
+export const getActiveActorId = (): string | null => resolveActorId();
+
+export { setActiveUserContext };
+
 export const usesSupabaseStorage = () => true;
 
 export const initializeAndSeedDatabase = async () => {
@@ -476,9 +798,11 @@ export const syncBatchesFromQdrant = async () => {
 };
 
 // Add inventory batch (with OCR support)
+// movementReason defaults to 'receipt'; marketplace intake records a 'transfer'.
 export const addInventoryBatch = async (
   batchData: Omit<Batch, 'id'>,
   itemsData: NewInventoryItemData[],
+  options: { movementReason?: StockMovementReason; referenceId?: string } = {},
 ): Promise<void> => {
   if (!_activeShopId) throw new Error('No shop selected. Shop role/ID required.');
   await ensureBaseCollections();
@@ -546,7 +870,7 @@ export const addInventoryBatch = async (
       cost: item.buyPrice ?? item.costPerUnit ?? 0,
     })),
     createdAt: now,
-    createdByUserId: _activeShopId || '',
+    createdByUserId: resolveActorId() || '',
   };
 
   await upsertBatchRecord(batchRecord);
@@ -572,7 +896,7 @@ export const addInventoryBatch = async (
       sellPrice: item.sellPrice ?? undefined,
       images: item.images,
       scanMetadata: item.scanMetadata || null, // OCR metadata integrated
-      createdByUserId: _activeShopId || undefined,
+      createdByUserId: resolveActorId() || undefined,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
       qdrantId: inventoryUuid,
@@ -589,6 +913,14 @@ export const addInventoryBatch = async (
     }
     db.stockItems.set(stockItem.id, stockItem);
     await persistInventoryEntry(stockItem, stockItem.scanMetadata || undefined);
+    await recordStockMovement({
+      inventoryUuid,
+      productId,
+      delta: stockItem.quantity,
+      quantityAfter: stockItem.quantity,
+      reason: options.movementReason || 'receipt',
+      referenceId: options.referenceId || batchUuid,
+    });
     if (shareWithDan) {
       await publishInventoryOfferToDan(stockItem, item, {
         batchId: batchUuid,
@@ -601,8 +933,11 @@ export const addInventoryBatch = async (
   console.log(`[Data Service] Added batch ${newBatch.id} with ${itemsData.length} item types.`);
 };
 
+const MAX_INVENTORY_UPDATE_ATTEMPTS = 5;
+
 type InventoryUpdateInput = {
   quantity?: number;
+  movementReason?: StockMovementReason; // Why the quantity changed (defaults to 'adjustment')
   expirationDate?: string;
   costPerUnit?: number;
   sellPrice?: number;
@@ -622,22 +957,52 @@ export const updateInventoryItem = async (
     throw new Error(`Inventory item ${inventoryUuid} not found`);
   }
 
-  const quantity = updates.quantity ?? existing.quantity;
-  const updated: StockItem = {
-    ...existing,
-    quantity,
-    expirationDate: updates.expirationDate ?? existing.expirationDate,
-    costPerUnit: updates.costPerUnit ?? existing.costPerUnit,
-    buyPrice: updates.buyPrice ?? updates.costPerUnit ?? existing.buyPrice ?? existing.costPerUnit,
-    sellPrice: updates.sellPrice ?? existing.sellPrice,
-    location: updates.location ?? existing.location,
-    updatedAt: new Date().toISOString(),
-    status: quantity > 0 ? 'ACTIVE' : 'EMPTY',
-  };
-
-  db.stockItems.set(updated.id, updated);
-  await persistInventoryEntry(updated);
-  return updated;
+  // Only fields edited since the item was opened are written, on top of the stored lot,
+  // so a sale landing in between is neither overwritten nor left out of the movement
+  const changes: Record<string, unknown> = {};
+  if (updates.expirationDate !== undefined && updates.expirationDate !== existing.expirationDate) {
+    changes.expiration = updates.expirationDate;
+  }
+  const buyPrice = updates.buyPrice ?? updates.costPerUnit;
+  if (buyPrice !== undefined && buyPrice !== (existing.buyPrice ?? existing.costPerUnit)) changes.buyPrice = buyPrice;
+  if (updates.sellPrice !== undefined && updates.sellPrice !== existing.sellPrice) changes.sellPrice = updates.sellPrice;
+  if (updates.location !== undefined && (updates.location || null) !== (existing.location || null)) {
+    changes.location = updates.location || null;
+  }
+  const quantityEdited = updates.quantity !== undefined && updates.quantity !== existing.quantity;
+
+  for (let attempt = 0; attempt < MAX_INVENTORY_UPDATE_ATTEMPTS; attempt++) {
+    const current = await getStockPayload(inventoryUuid);
+    if (!current) throw new Error(`Inventory item ${inventoryUuid} not found`);
+    const currentQuantity = Number(current.quantity) || 0;
+    const quantity = quantityEdited ? updates.quantity! : currentQuantity;
+    const extraPayload = quantity === currentQuantity ? { ...changes, status: current.status || 'ACTIVE' } : changes;
+
+    const updatedAt = await compareAndSetStockQuantity(inventoryUuid, current.updatedAt, quantity, extraPayload);
+    if (!updatedAt) continue;
+
+    const updated: StockItem = {
+      ...existing,
+      quantity,
+      expirationDate: updates.expirationDate ?? existing.expirationDate,
+      costPerUnit: buyPrice ?? existing.costPerUnit,
+      buyPrice: buyPrice ?? existing.buyPrice,
+      sellPrice: updates.sellPrice ?? existing.sellPrice,
+      location: updates.location === undefined ? existing.location : updates.location || undefined,
+      updatedAt,
+      status: quantity === currentQuantity ? current.status || 'ACTIVE' : quantity > 0 ? 'ACTIVE' : 'EMPTY',
+    };
+    db.stockItems.set(updated.id, updated);
+    await recordStockMovement({
+      inventoryUuid,
+      productId: updated.productId,
+      delta: quantity - currentQuantity,
+      quantityAfter: quantity,
+      reason: updates.movementReason || 'adjustment',
+    });
+    return updated;
+  }
+  throw new Error(`Inventory item ${inventoryUuid} is busy. Please try again.`);
 };
 
 export const removeInventoryItem = async (inventoryUuid: string): Promise<void> => {
@@ -650,26 +1015,163 @@ export const removeInventoryItem = async (inventoryUuid: string): Promise<void>
   }
   db.stockItems.delete(existing.id);
   await deleteInventoryEntry(existing);
+  await recordStockMovement({
+    inventoryUuid: existing.inventoryUuid,
+    productId: existing.productId,
+    delta: -existing.quantity,
+    quantityAfter: 0,
+    reason: 'shrinkage',
+    note: 'Item removed',
+  });
 };
 
 // Record sale (with inventory integration)
+// Pass the same idempotencyKey when retrying a checkout so it is only recorded once.
+type SaleProductMap = Map<string, { id: string; name: string; category?: string }>;
+
+const buildSaleProductMap = (): SaleProductMap => {
+  const productMap: SaleProductMap = new Map();
+  for (const product of db.products.values()) {
+    productMap.set(product.name, { id: product.id, name: product.name, category: product.category });
+  }
+  return productMap;
+};
+
 export const recordSale = async (
   cart: { productName: string; quantity: number }[],
+  options: { idempotencyKey?: string; productMap?: SaleProductMap } = {},
 ): Promise<void> => {
   if (!_activeShopId) throw new Error('No shop selected.');
 
-  // Build product map
-  const productMap = new Map<string, { id: string; name: string }>();
-  for (const product of db.products.values()) {
-    productMap.set(product.name, { id: product.id, name: product.name });
-  }
+  const productMap = options.productMap ?? buildSaleProductMap();
 
   // Use the new recordSale function
-  await _recordSale(cart, productMap);
+  await _recordSale(cart, productMap, { idempotencyKey: options.idempotencyKey });
   await loadDataFromQdrant();
   await emitSaleFulfillmentEvents(cart);
 };
 
+// Price a cart with active promotions exactly as recordSale will charge it.
+// shopId defaults to the active shop; customer checkouts pass the shop they are browsing.
+export const quoteSale = async (
+  cart: { productName: string; quantity: number }[],
+  options: { shopId?: string; productMap?: SaleProductMap } = {},
+): Promise<{ items: SaleTransaction['items']; totalAmount: number }> => {
+  const shopId = options.shopId ?? _activeShopId;
+  if (!shopId) throw new Error('No shop selected.');
+  return _quoteSale(cart, options.productMap ?? buildSaleProductMap(), shopId);
+};
+
+// Customer checkout at the shop being browsed. A customer's session cannot
+// write another shop's stock through the Qdrant proxy, so the sale is recorded
+// by the server's /api/v1 sales endpoint (FEFO and promotions as in recordSale).
+export const recordCustomerSale = async (
+  shopId: string,
+  lines: { productId: string; quantity: number }[],
+  options: { idempotencyKey?: string } = {},
+): Promise<SaleTransaction> => {
+  const response = await fetchWithSession(`/api/v1/shops/${encodeURIComponent(shopId)}/sales`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(options.idempotencyKey ? { 'Idempotency-Key': options.idempotencyKey } : {}),
+    },
+    body: JSON.stringify({ lines }),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data?.error?.message || `Checkout failed (${response.status})`);
+  }
+  return data.data as SaleTransaction;
+};
+
+// Active promotions for the active shop (or the given shop)
+export const getActivePromotionsForShop = async (shopId?: string): Promise<Promotion[]> => {
+  const targetShopId = shopId ?? _activeShopId;
+  if (!targetShopId) return [];
+  return getActivePromotions(targetShopId);
+};
+
+// Expire lots past their date for the active shop and refresh the cache
+export const sweepExpiredStock = async (): Promise<ExpirySweepResult> => {
+  if (!_activeShopId) throw new Error('No shop selected.');
+  const result = await _sweepExpiredStock(_activeShopId);
+  if (result.expiredLots > 0) await loadDataFromQdrant();
+  return result;
+};
+
+export const getMarkdownCandidates = async (withinDays: number = DEFAULT_MARKDOWN_WINDOW_DAYS): Promise<MarkdownCandidate[]> => {
+  if (!_activeShopId) return [];
+  return _getMarkdownCandidates(_activeShopId, withinDays);
+};
+
+// Stock, sales and lots expiring within `withinDays` for each of an operator's shops
+export const getShopOverviews = async (
+  shops: AccountShop[],
+  withinDays: number = DEFAULT_MARKDOWN_WINDOW_DAYS,
+): Promise<ShopOverview[]> => Promise.all(shops.map(async shop => {
+  const [stockItems, sales, expiringLots] = await Promise.all([
+    _getAllStockItems(shop.shopId),
+    getAllSales(shop.shopId),
+    _getMarkdownCandidates(shop.shopId, withinDays),
+  ]);
+  const activeItems = stockItems.filter(isActiveStockItem);
+  return {
+    shopId: shop.shopId,
+    shopName: shop.name,
+    stockUnits: activeItems.reduce((sum, item) => sum + item.quantity, 0),
+    stockValue: activeItems.reduce((sum, item) => sum + item.quantity * (item.buyPrice ?? item.costPerUnit ?? 0), 0),
+    lotCount: activeItems.length,
+    salesCount: sales.length,
+    revenue: sales.reduce((sum, sale) => sum + sale.totalAmount, 0),
+    expiringLots,
+  };
+}));
+
+// Active lots of any shop the session covers (the cached getAllStockItems is the active shop's)
+export const getStockItemsForShop = async (shopId: string): Promise<StockItem[]> =>
+  (await _getAllStockItems(shopId)).filter(isActiveStockItem);
+
+// Move units of a lot to another of the operator's shops and refresh the cache when the active shop is involved
+export const transferStock = async (input: {
+  inventoryUuid: string;
+  toShopId: string;
+  quantity: number;
+  note?: string;
+}): Promise<StockTransfer> => {
+  const transfer = await _transferStock(input);
+  if (transfer.fromShopId === _activeShopId || transfer.toShopId === _activeShopId) {
+    await loadDataFromQdrant();
+  }
+  return transfer;
+};
+
+export { getTransfersForShops };
+
+// Shop and day of the last reorder run in this session
+let lastReorderRun: string | null = null;
+
+// Draft purchase orders for the active shop at most once per day (pass force to rerun).
+// Drafts are keyed by day, so a rerun from another tab or session is harmless.
+export const runDailyReorderCheck = async (force = false): Promise<PurchaseOrder[]> => {
+  if (!_activeShopId) return [];
+  const runKey = `${_activeShopId}:${new Date().toISOString().slice(0, 10)}`;
+  if (!force && lastReorderRun === runKey) return [];
+  lastReorderRun = runKey;
+  return generateDraftPurchaseOrders(_activeShopId);
+};
+
+// Receive an expected batch against its counts and refresh cached stock
+export const receiveBatch = async (
+  batchId: string,
+  lines: ReceivingLine[],
+  options: { invoiceNumber?: string } = {},
+): Promise<BatchRecord> => {
+  const batch = await _receiveBatch(batchId, lines, options);
+  await loadDataFromQdrant();
+  return batch;
+};
+
 // Deduct stock for order
 export const deductStockForOrder = async (productName: string, quantity: number): Promise<void> => {
   if (!_activeShopId) throw new Error('No shop selected.');
@@ -681,12 +1183,22 @@ export const deductStockForOrder = async (productName: string, quantity: number)
   await loadDataFromQdrant();
 };
 
-// Get product summaries
+// Get product summaries, with days of cover and projected stockout from sales history
 export const getProductSummaries = async (): Promise<ProductSummary[]> => {
-  return _getProductSummaries(
+  const summaries = await _getProductSummaries(
     () => Promise.resolve(getCachedActiveStockItems()),
     fetchSuppliersForActiveShop
   );
+  if (!_activeShopId || summaries.length === 0) return summaries;
+
+  try {
+    const onHand = new Map(summaries.map(summary => [summary.productId, summary.totalQuantity]));
+    const forecasts = await getDemandForecasts(_activeShopId, onHand);
+    return applyForecastsToSummaries(summaries, forecasts);
+  } catch (error) {
+    console.warn('[Forecast] Could not forecast demand:', error);
+    return summaries;
+  }
 };
 
 // Get all batches (from in-memory cache)
@@ -707,6 +1219,7 @@ export const createBatchForShop = async (input: {
   invoiceNumber?: string;
   documents?: any[];
   lineItems?: BatchLineItem[];
+  status?: BatchStatus; // EXPECTED logs the delivery for counting instead of stocking it now
 }): Promise<BatchRecord> => {
   if (!_activeShopId) throw new Error('No shop selected.');
 
@@ -721,13 +1234,14 @@ export const createBatchForShop = async (input: {
     documents: input.documents || [],
     lineItems: input.lineItems || [],
     createdAt: now,
-    createdByUserId: _activeShopId,
+    createdByUserId: resolveActorId() || _activeShopId,
+    status: input.status || 'RECEIVED',
   };
 
   await upsertBatchRecord(batch);
 
   // Create inventory items from line items
-  if (input.lineItems && input.lineItems.length > 0) {
+  if (batch.status === 'RECEIVED' && input.lineItems && input.lineItems.length > 0) {
     await createInventoryFromBatch(batch, input.lineItems);
   }
 
@@ -740,7 +1254,7 @@ export const purchaseFromMarketplace = async (item: PeerListing, quantity: numbe
     item,
     quantity,
     async (batchData: any, itemsData: any[]) => {
-      await addInventoryBatch(batchData, itemsData);
+      await addInventoryBatch(batchData, itemsData, { movementReason: 'transfer', referenceId: item.listingId });
     },
     async (sale: any) => {
       await persistSale(sale);
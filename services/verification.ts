@@ -0,0 +1,123 @@
+import { fetchWithSession } from './authSession';
+import type {
+  VerificationApplication,
+  VerificationDocument,
+  VerificationDocumentType,
+  VerificationEvent,
+  VerificationKind,
+  VerificationRecord,
+  VerificationStatus,
+} from '../types';
+
+/**
+ * Shop and driver verification through the server (server/verification.js).
+ * Applicants upload license documents and submit them; admins approve or
+ * reject with a reason. Statuses are an append-only history kept on the
+ * server, and the signed-in user's isVerified / isDriverVerified flags come
+ * from it (server/auth.js).
+ */
+
+export const VERIFICATION_STATUS_LABELS: Record<VerificationStatus, string> = {
+  unsubmitted: 'Not submitted',
+  pending: 'Awaiting review',
+  approved: 'Verified',
+  rejected: 'Rejected',
+};
+
+export const VERIFICATION_DOCUMENT_LABELS: Record<VerificationDocumentType, string> = {
+  businessLicense: 'Business license',
+  driverLicense: "Driver's license",
+  other: 'Other document',
+};
+
+export const VERIFICATION_ACCEPTED_FILE_TYPES = 'application/pdf,image/png,image/jpeg,image/webp';
+export const MAX_VERIFICATION_DOCUMENT_BYTES = 5 * 1024 * 1024;
+
+const verificationRequest = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+  const response = await fetchWithSession(`/api/verification${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...(init.headers || {}) },
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Verification request failed (${response.status})`);
+  }
+  return data as T;
+};
+
+const readFileAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error || new Error(`Could not read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+
+// The signed-in user's records by kind; staff get their shop's status without its documents
+export const getMyVerification = async (): Promise<Partial<Record<VerificationKind, VerificationRecord>>> => {
+  const { records } = await verificationRequest<{ records: Partial<Record<VerificationKind, VerificationRecord>> }>('');
+  return records;
+};
+
+export const uploadVerificationDocument = async (
+  kind: VerificationKind,
+  file: File,
+  documentType: VerificationDocumentType,
+): Promise<VerificationDocument> => {
+  if (file.size > MAX_VERIFICATION_DOCUMENT_BYTES) {
+    throw new Error(`${file.name} is larger than ${MAX_VERIFICATION_DOCUMENT_BYTES / (1024 * 1024)} MB.`);
+  }
+  const { document } = await verificationRequest<{ document: VerificationDocument }>(`/${kind}/documents`, {
+    method: 'POST',
+    body: JSON.stringify({
+      documentType,
+      fileName: file.name,
+      contentType: file.type,
+      data: await readFileAsDataUrl(file),
+    }),
+  });
+  return document;
+};
+
+// Send the documents uploaded since the last decision for review
+export const submitVerification = async (kind: VerificationKind): Promise<VerificationEvent> => {
+  const { event } = await verificationRequest<{ event: VerificationEvent }>(`/${kind}/submit`, { method: 'POST' });
+  return event;
+};
+
+// Open an uploaded document in a new tab (the uploader's own, or any for admins)
+export const openVerificationDocument = async (documentId: string): Promise<void> => {
+  const response = await fetchWithSession(`/api/verification/documents/${encodeURIComponent(documentId)}`);
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `Could not open document (${response.status})`);
+  }
+  const url = URL.createObjectURL(await response.blob());
+  window.open(url, '_blank', 'noopener');
+  setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+};
+
+// Admins: applications whose current status is `status`, oldest first
+export const getVerificationApplications = async (
+  status: VerificationStatus = 'pending',
+  kind?: VerificationKind,
+): Promise<VerificationApplication[]> => {
+  const params = new URLSearchParams({ status });
+  if (kind) params.set('kind', kind);
+  const { applications } = await verificationRequest<{ applications: VerificationApplication[] }>(`/review?${params}`);
+  return applications;
+};
+
+// Admins: approve, or reject with a reason the applicant sees
+export const reviewVerification = async (
+  userId: string,
+  kind: VerificationKind,
+  status: 'approved' | 'rejected',
+  reason?: string,
+): Promise<VerificationEvent> => {
+  const { event } = await verificationRequest<{ event: VerificationEvent }>(
+    `/review/${encodeURIComponent(userId)}/${kind}`,
+    { method: 'POST', body: JSON.stringify({ status, reason }) },
+  );
+  return event;
+};
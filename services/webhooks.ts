@@ -0,0 +1,109 @@
+import { fetchWithSession } from './authSession';
+import { activeShopId } from './qdrant/core';
+import type { WebhookDelivery, WebhookDeliveryStatus, WebhookEndpoint } from '../types';
+
+/**
+ * Registered webhook endpoints and their delivery log, kept on the server
+ * (server/webhooks.js), which also signs and sends deliveries, retries with
+ * backoff and dead-letters what keeps failing. An endpoint's signing secret
+ * is only returned when the endpoint is created or its secret rotated.
+ */
+
+const webhooksRequest = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+  const response = await fetchWithSession(`/api/webhooks${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...(init.headers || {}) },
+  });
+  if (response.status === 204) return undefined as T;
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Webhooks request failed (${response.status})`);
+  }
+  return data as T;
+};
+
+const shopQuery = (shopId: string, params: Record<string, string> = {}) =>
+  `?${new URLSearchParams({ shopId, ...params }).toString()}`;
+
+const requireShopId = () => {
+  if (!activeShopId) throw new Error('Select a shop first.');
+  return activeShopId;
+};
+
+export const getWebhookEndpoints = async (shopId?: string | null): Promise<WebhookEndpoint[]> => {
+  const resolvedShopId = shopId || activeShopId;
+  if (!resolvedShopId) return [];
+  const { endpoints } = await webhooksRequest<{ endpoints: WebhookEndpoint[] }>(`/endpoints${shopQuery(resolvedShopId)}`);
+  return endpoints;
+};
+
+// Creating an endpoint also returns its signing secret, which is not shown again
+export const saveWebhookEndpoint = async (
+  endpoint: Pick<WebhookEndpoint, 'name' | 'url' | 'enabled'> & { id?: string },
+): Promise<{ endpoint: WebhookEndpoint; secret: string | null }> => {
+  const shopId = requireShopId();
+  const name = endpoint.name.trim();
+  const url = endpoint.url.trim();
+  if (!name) throw new Error('Give the endpoint a name.');
+  if (!/^https?:\/\//i.test(url)) throw new Error('Endpoint URL must start with http:// or https://.');
+
+  const body = JSON.stringify({ shopId, name, url, enabled: endpoint.enabled });
+  if (endpoint.id) {
+    const updated = await webhooksRequest<{ endpoint: WebhookEndpoint }>(`/endpoints/${encodeURIComponent(endpoint.id)}`, { method: 'PATCH', body });
+    return { endpoint: updated.endpoint, secret: null };
+  }
+  return webhooksRequest<{ endpoint: WebhookEndpoint; secret: string }>('/endpoints', { method: 'POST', body });
+};
+
+// Receivers must switch to the new secret; signatures made with the old one stop verifying
+export const rotateWebhookSecret = async (endpointId: string): Promise<{ endpoint: WebhookEndpoint; secret: string }> =>
+  webhooksRequest(`/endpoints/${encodeURIComponent(endpointId)}/rotate`, {
+    method: 'POST',
+    body: JSON.stringify({ shopId: requireShopId() }),
+  });
+
+// The server dead-letters the endpoint's outstanding deliveries first
+export const deleteWebhookEndpoint = async (endpointId: string): Promise<void> => {
+  await webhooksRequest(`/endpoints/${encodeURIComponent(endpointId)}${shopQuery(requireShopId())}`, { method: 'DELETE' });
+};
+
+export const getWebhookDeliveries = async (
+  shopId?: string | null,
+  { status = null, policyRunIds = null, limit = 50 }: {
+    status?: WebhookDeliveryStatus | null;
+    policyRunIds?: string[] | null;
+    limit?: number;
+  } = {},
+): Promise<WebhookDelivery[]> => {
+  const resolvedShopId = shopId || activeShopId;
+  if (!resolvedShopId) return [];
+  if (policyRunIds && policyRunIds.length === 0) return [];
+  const params: Record<string, string> = { limit: String(limit) };
+  if (status) params.status = status;
+  if (policyRunIds) params.policyRunIds = policyRunIds.join(',');
+  const { deliveries } = await webhooksRequest<{ deliveries: WebhookDelivery[] }>(`/deliveries${shopQuery(resolvedShopId, params)}`);
+  return deliveries;
+};
+
+// One more attempt now, including for dead-lettered deliveries
+export const redeliverWebhook = async (deliveryId: string): Promise<void> => {
+  await webhooksRequest(`/deliveries/${encodeURIComponent(deliveryId)}/redeliver`, {
+    method: 'POST',
+    body: JSON.stringify({ shopId: requireShopId() }),
+  });
+};
+
+// The server builds the body from the stored policy and DAN event
+export const queueWebhookDelivery = async (delivery: {
+  shopId: string;
+  endpointId: string;
+  policyId: string;
+  eventId: string;
+  policyRunId?: string | null;
+}): Promise<WebhookDelivery> => {
+  const { delivery: queued } = await webhooksRequest<{ delivery: WebhookDelivery }>('/deliveries', {
+    method: 'POST',
+    body: JSON.stringify(delivery),
+  });
+  return queued;
+};
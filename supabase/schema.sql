@@ -6,6 +6,11 @@ DROP TABLE IF EXISTS public.sales CASCADE;
 DROP TABLE IF EXISTS public.stock_items CASCADE;
 DROP TABLE IF EXISTS public.batches CASCADE;
 DROP TABLE IF EXISTS public.products CASCADE;
+DROP TABLE IF EXISTS public.verification_events CASCADE;
+DROP TABLE IF EXISTS public.verification_documents CASCADE;
+DROP TABLE IF EXISTS public.shop_staff CASCADE;
+DROP TABLE IF EXISTS public.operator_shops CASCADE;
+DROP TABLE IF EXISTS public.auth_sessions CASCADE;
 DROP TABLE IF EXISTS public.users CASCADE;
 
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
@@ -21,6 +26,8 @@ CREATE TABLE public.users (
     is_customer boolean NOT NULL DEFAULT false,
     is_driver boolean NOT NULL DEFAULT false,
     is_supplier boolean NOT NULL DEFAULT false,
+    -- Set by hand; admins bypass the Qdrant proxy's shop scoping
+    is_admin boolean NOT NULL DEFAULT false,
     qdrant_user_id uuid NOT NULL DEFAULT uuid_generate_v4(),
     shop_qdrant_id uuid,
     qdrant_namespace text,
@@ -34,6 +41,91 @@ CREATE TABLE public.users (
 CREATE INDEX users_username_idx ON public.users(username);
 CREATE INDEX users_role_flags_idx ON public.users(is_shop, is_customer, is_driver, is_supplier);
 
+-- Refresh tokens issued by the server (server/auth.js); only the hash is stored
+CREATE TABLE public.auth_sessions (
+    id uuid PRIMARY KEY,
+    user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    refresh_token_hash text NOT NULL,
+    expires_at timestamptz NOT NULL,
+    revoked_at timestamptz,
+    last_used_at timestamptz,
+    user_agent text,
+    -- Shop the session works in, for accounts with several (server/shops.js)
+    active_shop_id uuid,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX auth_sessions_user_idx ON public.auth_sessions(user_id);
+
+-- Further shops run by an account besides its own (users.shop_qdrant_id), see server/shops.js
+CREATE TABLE public.operator_shops (
+    shop_id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    name text NOT NULL,
+    contact_email text,
+    qdrant_namespace text,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX operator_shops_user_idx ON public.operator_shops(user_id);
+
+-- Staff of a shop besides its owner (server/staff.js); the role sets their permissions
+CREATE TABLE public.shop_staff (
+    shop_id uuid NOT NULL,
+    user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    role text NOT NULL CHECK (role IN ('manager', 'clerk', 'auditor')),
+    added_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    PRIMARY KEY (shop_id, user_id)
+);
+
+CREATE INDEX shop_staff_user_idx ON public.shop_staff(user_id);
+
+-- Licenses uploaded for shop or driver verification (server/verification.js); content is base64
+CREATE TABLE public.verification_documents (
+    id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id uuid NOT NULL REFERENCES public.users(id),
+    kind text NOT NULL CHECK (kind IN ('shop', 'driver')),
+    document_type text NOT NULL CHECK (document_type IN ('businessLicense', 'driverLicense', 'other')),
+    file_name text NOT NULL,
+    content_type text NOT NULL,
+    size_bytes integer NOT NULL,
+    content text NOT NULL,
+    uploaded_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX verification_documents_user_idx ON public.verification_documents(user_id, kind);
+
+-- Verification status history; the latest row per user and kind is the current status
+CREATE TABLE public.verification_events (
+    id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    user_id uuid NOT NULL REFERENCES public.users(id),
+    kind text NOT NULL CHECK (kind IN ('shop', 'driver')),
+    status text NOT NULL CHECK (status IN ('pending', 'approved', 'rejected')),
+    reason text,
+    document_ids uuid[] NOT NULL DEFAULT '{}',
+    actor_user_id uuid REFERENCES public.users(id),
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX verification_events_user_idx ON public.verification_events(user_id, kind, id);
+CREATE INDEX verification_events_status_idx ON public.verification_events(kind, status, id);
+
+-- Documents and history are append-only, even for the service role
+CREATE OR REPLACE FUNCTION public.reject_verification_changes() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION '% is append-only', TG_TABLE_NAME;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER verification_documents_append_only
+    BEFORE UPDATE OR DELETE ON public.verification_documents
+    FOR EACH ROW EXECUTE FUNCTION public.reject_verification_changes();
+
+CREATE TRIGGER verification_events_append_only
+    BEFORE UPDATE OR DELETE ON public.verification_events
+    FOR EACH ROW EXECUTE FUNCTION public.reject_verification_changes();
+
 CREATE TABLE public.products (
     id text PRIMARY KEY,
     name text NOT NULL,
@@ -84,16 +176,26 @@ CREATE TABLE public.dan_keys (
     id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
     shop_user_id uuid REFERENCES public.users(id) ON DELETE CASCADE,
     shop_id text NOT NULL,
+    device_id text NOT NULL,
+    device_label text,
     namespace text,
     public_key text NOT NULL,
     fingerprint text NOT NULL,
+    algorithm text,
+    status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'active', 'retiring', 'revoked')),
+    approved_by_fingerprint text,
+    approval_signature text,
+    expires_at timestamptz,
+    revoked_at timestamptz,
+    revoked_reason text,
     capability_scope text[] NOT NULL DEFAULT ARRAY['local'],
     last_seen_at timestamptz NOT NULL DEFAULT now(),
     created_at timestamptz NOT NULL DEFAULT now(),
     updated_at timestamptz NOT NULL DEFAULT now()
 );
 
-CREATE UNIQUE INDEX dan_keys_shop_idx ON public.dan_keys(shop_id);
+CREATE UNIQUE INDEX dan_keys_shop_fingerprint_idx ON public.dan_keys(shop_id, fingerprint);
+CREATE INDEX dan_keys_shop_idx ON public.dan_keys(shop_id, status);
 
 CREATE TABLE public.dan_events (
     event_id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -143,19 +245,81 @@ CREATE TABLE public.dan_policy_runs (
     id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
     policy_id uuid REFERENCES public.dan_policies(id) ON DELETE CASCADE,
     shop_id text NOT NULL,
+    event_id uuid,
     event_type text NOT NULL,
     event_payload jsonb,
     outcome text NOT NULL,
     notes text,
+    attempts integer NOT NULL DEFAULT 1,
+    dedup_key text,
     created_at timestamptz NOT NULL DEFAULT now()
 );
 
 CREATE INDEX dan_policy_runs_shop_idx ON public.dan_policy_runs(shop_id, created_at);
+-- A policy runs at most once per event, however many workers see it
+CREATE UNIQUE INDEX dan_policy_runs_event_idx ON public.dan_policy_runs(policy_id, event_id) WHERE event_id IS NOT NULL;
+CREATE INDEX dan_policy_runs_cooldown_idx ON public.dan_policy_runs(policy_id, dedup_key, created_at) WHERE outcome = 'triggered';
+
+CREATE TABLE public.dan_policy_versions (
+    id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+    policy_id uuid REFERENCES public.dan_policies(id) ON DELETE CASCADE,
+    shop_id text NOT NULL,
+    version text NOT NULL,
+    snapshot jsonb NOT NULL,
+    author text,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX dan_policy_versions_policy_idx ON public.dan_policy_versions(policy_id, created_at);
+
+CREATE TABLE public.webhook_endpoints (
+    id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+    shop_id text NOT NULL,
+    name text NOT NULL,
+    url text NOT NULL,
+    secret text NOT NULL,
+    enabled boolean NOT NULL DEFAULT true,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX webhook_endpoints_shop_idx ON public.webhook_endpoints(shop_id);
+
+-- One row per webhook call; status 'dead' is the dead-letter queue
+CREATE TABLE public.webhook_deliveries (
+    id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+    shop_id text NOT NULL,
+    endpoint_id uuid REFERENCES public.webhook_endpoints(id) ON DELETE SET NULL,
+    url text NOT NULL,
+    policy_id uuid,
+    policy_run_id uuid,
+    event_id uuid,
+    payload jsonb NOT NULL,
+    status text NOT NULL DEFAULT 'pending',
+    attempts integer NOT NULL DEFAULT 0,
+    last_status_code integer,
+    last_latency_ms integer,
+    last_error text,
+    attempt_log jsonb NOT NULL DEFAULT '[]'::jsonb,
+    next_attempt_at timestamptz DEFAULT now(),
+    delivered_at timestamptz,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX webhook_deliveries_shop_idx ON public.webhook_deliveries(shop_id, created_at);
+CREATE INDEX webhook_deliveries_due_idx ON public.webhook_deliveries(next_attempt_at) WHERE status IN ('pending', 'retrying');
+CREATE INDEX webhook_deliveries_run_idx ON public.webhook_deliveries(policy_run_id);
 
 -- Note: All data (products, batches, items/inventory, suppliers) is stored in Qdrant
 -- Supabase is only used for user authentication and role management
 
 ALTER TABLE public.users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.auth_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shop_staff ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.operator_shops ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.verification_documents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.verification_events ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.batches ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.stock_items ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.sales ENABLE ROW LEVEL SECURITY;
@@ -164,19 +328,42 @@ ALTER TABLE public.dan_events ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.dan_audit ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.dan_policies ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.dan_policy_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.dan_policy_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- users, auth_sessions, shop_staff, operator_shops and the verification
+-- tables have no policies: only the server (service role key) reads them, so
+-- password hashes, refresh tokens, staff memberships and license documents
+-- never reach the anon key
+DROP POLICY IF EXISTS public_users_select ON public.users;
+DROP POLICY IF EXISTS public_users_insert ON public.users;
+
+-- webhook_endpoints and webhook_deliveries have no policies either: endpoints
+-- and deliveries are managed through /api/webhooks, so signing secrets never
+-- reach the anon key and nobody can queue deliveries to arbitrary URLs
+DROP POLICY IF EXISTS public_webhook_endpoints_select ON public.webhook_endpoints;
+DROP POLICY IF EXISTS public_webhook_endpoints_insert ON public.webhook_endpoints;
+DROP POLICY IF EXISTS public_webhook_endpoints_update ON public.webhook_endpoints;
+DROP POLICY IF EXISTS public_webhook_endpoints_delete ON public.webhook_endpoints;
+DROP POLICY IF EXISTS public_webhook_deliveries_select ON public.webhook_deliveries;
+DROP POLICY IF EXISTS public_webhook_deliveries_insert ON public.webhook_deliveries;
+DROP POLICY IF EXISTS public_webhook_deliveries_update ON public.webhook_deliveries;
+
+-- dan_keys stays readable for verifiers but only the server (/api/dan/keys)
+-- writes it: verifiers take each key's status, and which key is a shop's
+-- unapproved first key, from these rows, so the anon key must not touch them
+DROP POLICY IF EXISTS public_dan_keys_insert ON public.dan_keys;
+DROP POLICY IF EXISTS public_dan_keys_update ON public.dan_keys;
+
+-- The policy worker runs dan_policies with the service role key, so policies
+-- and their saved versions are written by the server only (/api/dan/policies)
+DROP POLICY IF EXISTS public_dan_policies_insert ON public.dan_policies;
+DROP POLICY IF EXISTS public_dan_policies_update ON public.dan_policies;
+DROP POLICY IF EXISTS public_dan_policy_versions_insert ON public.dan_policy_versions;
 
 DO $$
 BEGIN
-  IF NOT EXISTS (
-    SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='users' AND policyname='public_users_select'
-  ) THEN
-    CREATE POLICY public_users_select ON public.users FOR SELECT USING (true);
-  END IF;
-  IF NOT EXISTS (
-    SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='users' AND policyname='public_users_insert'
-  ) THEN
-    CREATE POLICY public_users_insert ON public.users FOR INSERT WITH CHECK (true);
-  END IF;
   IF NOT EXISTS (
     SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='batches' AND policyname='public_batches_select'
   ) THEN
@@ -212,11 +399,6 @@ BEGIN
   ) THEN
     CREATE POLICY public_dan_keys_select ON public.dan_keys FOR SELECT USING (true);
   END IF;
-  IF NOT EXISTS (
-    SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='dan_keys' AND policyname='public_dan_keys_insert'
-  ) THEN
-    CREATE POLICY public_dan_keys_insert ON public.dan_keys FOR INSERT WITH CHECK (true);
-  END IF;
   IF NOT EXISTS (
     SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='dan_events' AND policyname='public_dan_events_select'
   ) THEN
@@ -242,11 +424,6 @@ BEGIN
   ) THEN
     CREATE POLICY public_dan_policies_select ON public.dan_policies FOR SELECT USING (true);
   END IF;
-  IF NOT EXISTS (
-    SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='dan_policies' AND policyname='public_dan_policies_insert'
-  ) THEN
-    CREATE POLICY public_dan_policies_insert ON public.dan_policies FOR INSERT WITH CHECK (true);
-  END IF;
   IF NOT EXISTS (
     SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='dan_policy_runs' AND policyname='public_dan_policy_runs_select'
   ) THEN
@@ -257,5 +434,10 @@ BEGIN
   ) THEN
     CREATE POLICY public_dan_policy_runs_insert ON public.dan_policy_runs FOR INSERT WITH CHECK (true);
   END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='dan_policy_versions' AND policyname='public_dan_policy_versions_select'
+  ) THEN
+    CREATE POLICY public_dan_policy_versions_select ON public.dan_policy_versions FOR SELECT USING (true);
+  END IF;
 END
 $$;
@@ -17,11 +17,44 @@ export interface ProductImage {
 
 export type DanShareScope = 'local' | 'marketplace' | 'dan';
 
+// Ed25519 where WebCrypto supports it, ECDSA P-256 (SHA-256) otherwise
+export type DanKeyAlgorithm = 'Ed25519' | 'ECDSA-P256';
+
+export type DanKeyStatus = 'pending' | 'active' | 'retiring' | 'revoked';
+
 export interface DanKeyMaterial {
+  algorithm: DanKeyAlgorithm;
+  deviceId: string;
   publicKey: string;
   fingerprint: string;
   derivedAt: string;
   lastRegisteredAt?: string | null;
+  // Last status seen in dan_keys
+  status?: DanKeyStatus | null;
+}
+
+// One device's key as registered in dan_keys
+export interface DanDeviceKey {
+  shopId: string;
+  deviceId: string;
+  deviceLabel: string | null;
+  publicKey: string;
+  fingerprint: string;
+  algorithm: DanKeyAlgorithm | null;
+  status: DanKeyStatus;
+  approvedByFingerprint: string | null;
+  approvalSignature: string | null;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  revokedReason: string | null;
+  createdAt: string;
+}
+
+export interface DanSignatureLogEntry {
+  eventId: string;
+  eventType: DanEventType;
+  fingerprint: string;
+  createdAt: string;
 }
 
 export interface DanContext {
@@ -32,7 +65,18 @@ export interface DanContext {
   fingerprint?: string | null;
   capabilityScope: DanShareScope[];
   lastRegisteredAt?: string | null;
-  reason?: 'flag-disabled' | 'no-shop' | 'missing-supabase' | 'ok';
+  deviceId?: string | null;
+  keyStatus?: DanKeyStatus | null;
+  shopKeys?: DanDeviceKey[];
+  recentSignatures?: DanSignatureLogEntry[];
+  reason?:
+    | 'flag-disabled'
+    | 'no-shop'
+    | 'missing-supabase'
+    | 'missing-crypto'
+    | 'pending-approval'
+    | 'key-revoked'
+    | 'ok';
 }
 
 export type DanEventType =
@@ -62,6 +106,45 @@ export interface DanEventRecord {
   createdAt: string;
 }
 
+export type DanVerificationFailure =
+  | 'unsigned'
+  | 'unknown-key'
+  | 'key-mismatch'
+  | 'key-pending'
+  | 'key-revoked'
+  | 'key-expired'
+  | 'key-unapproved'
+  | 'unsupported-algorithm'
+  | 'payload-hash-mismatch'
+  | 'bad-signature'
+  | 'crypto-unavailable';
+
+export interface QuarantinedDanEvent {
+  event: DanEventRecord;
+  reason: DanVerificationFailure;
+  quarantinedAt: string;
+}
+
+// 'failed' outbox entries stopped retrying and wait for a manual retry or discard
+export type DanOutboxStatus = 'pending' | 'failed';
+
+export interface DanOutboxEntry {
+  eventId: string;
+  event: DanEventRecord;
+  status: DanOutboxStatus;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DanOutboxSummary {
+  pending: number;
+  failed: number;
+  nextAttemptAt: string | null;
+}
+
 export interface DanEventInput {
   eventType: DanEventType;
   payload: Record<string, any>;
@@ -82,9 +165,39 @@ export interface DanInventoryOffer {
   sellPrice?: number | null;
   shareScope: DanShareScope[];
   proofHash?: string;
+  signerFingerprint?: string | null;
   updatedAt: string;
 }
 
+// 'new' shops have too little recent history to score
+export type DanReputationTier = 'trusted' | 'fair' | 'poor' | 'new';
+
+// Time-decayed delivery record of a DAN peer; rates are 0-1, null without data
+export interface DanShopReputation {
+  shopId: string;
+  score: number | null; // 0-100
+  tier: DanReputationTier;
+  fillRate: number | null;
+  onTimeRate: number | null;
+  cancellationRate: number | null;
+  quantityAccuracy: number | null;
+  offers: number;
+  reservations: number; // settled: filled, or open past the fulfillment window
+  attestations: number;
+  computedAt: string;
+}
+
+// A peer's reservation on one of this shop's DAN offers, not yet fully fulfilled
+export interface DanOpenReservation {
+  reservationEventId: string;
+  inventoryUuid: string;
+  productName: string;
+  reservedBy: string; // Buyer shop
+  reservedQuantity: number;
+  fulfilledQuantity: number;
+  reservedAt: string;
+}
+
 export type PolicyScope = 'inventory' | 'marketplace' | 'delivery' | 'policy';
 
 export type PolicyConditionOperator =
@@ -95,7 +208,9 @@ export type PolicyConditionOperator =
   | 'lt'
   | 'lte'
   | 'includes'
-  | 'contains';
+  | 'contains'
+  | 'withinDays' // date field is at most `value` days from the event time, either side
+  | 'olderThan'; // date field is more than `value` days before the event time
 
 export interface PolicyConditionRule {
   field: string; // dot-notation path into event payload
@@ -103,11 +218,42 @@ export interface PolicyConditionRule {
   value: any;
 }
 
+export interface PolicyConditionGroup {
+  all?: PolicyCondition[];
+  any?: PolicyCondition[];
+  not?: PolicyCondition;
+}
+
+export type PolicyAggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+// Compares a statistic over the shop's recent events, e.g. fulfillments in the last hour
+export interface PolicyAggregateCondition {
+  aggregate: {
+    eventType: DanEventType;
+    fn: PolicyAggregateFunction;
+    field?: string; // required except for count
+    windowMinutes: number;
+    where?: PolicyCondition[]; // filters on each windowed event's payload
+    groupBy?: string; // only events whose value at this path equals the triggering event's
+  };
+  operator: 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte';
+  value: number;
+}
+
+export type PolicyCondition = PolicyConditionRule | PolicyConditionGroup | PolicyAggregateCondition;
+
+// At most one triggered run per dedup key (payload values of keyFields) within the window
+export interface PolicyCooldown {
+  minutes: number;
+  keyFields?: string[];
+}
+
 export type PolicyActionType =
   | 'notify'
   | 'create_dan_event'
   | 'tag_inventory'
-  | 'call_webhook';
+  | 'call_webhook'
+  | 'reject_offer'; // hides matching peer offers in the DAN marketplace
 
 export interface PolicyActionDefinition {
   type: PolicyActionType;
@@ -123,8 +269,9 @@ export interface PolicyDescriptor {
   scope: PolicyScope;
   version: string;
   enabled: boolean;
-  conditions: PolicyConditionRule[];
+  conditions: PolicyCondition[]; // all must pass
   actions: PolicyActionDefinition[];
+  cooldown?: PolicyCooldown | null;
   author?: string | null;
   createdAt: string;
   updatedAt: string;
@@ -134,16 +281,144 @@ export interface PolicyRunLog {
   id: string;
   policyId: string;
   shopId: string;
+  eventId?: string;
   eventType: DanEventType;
   eventPayload?: Record<string, any>;
-  outcome: 'triggered' | 'skipped' | 'error';
+  outcome: 'triggered' | 'skipped' | 'suppressed' | 'error';
   notes?: string;
+  attempts?: number;
+  dedupKey?: string;
+  webhookDeliveries?: WebhookDelivery[]; // call_webhook deliveries made by this run
   createdAt: string;
 }
 
-export interface AuditEntry {
+// Minimal event shape the policy rules evaluate against
+export interface PolicyEventSample {
+  eventId?: string;
+  eventType: DanEventType;
+  payload: Record<string, any>;
+  createdAt: string;
+}
+
+export interface PolicyDryRunResult {
+  eventId?: string;
+  eventType: DanEventType;
+  createdAt: string;
+  outcome: 'triggered' | 'skipped' | 'suppressed';
+  dedupKey?: string;
+}
+
+export interface PolicyDryRunReport {
+  policyId: string;
+  since: string;
+  until: string;
+  eventsScanned: number;
+  triggered: number;
+  suppressed: number;
+  results: PolicyDryRunResult[];
+}
+
+// A shop's registered webhook receiver; bodies are signed with its secret
+export interface WebhookEndpoint {
+  id: string;
+  shopId: string;
+  name: string;
+  url: string;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 'dead' deliveries ran out of retries and form the dead-letter queue
+export type WebhookDeliveryStatus = 'pending' | 'retrying' | 'delivered' | 'dead';
+
+export interface WebhookDeliveryAttempt {
+  at: string;
+  statusCode: number | null;
+  latencyMs: number;
+  error?: string | null;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  shopId: string;
+  endpointId: string | null;
+  url: string;
+  policyId?: string | null;
+  policyRunId?: string | null;
+  eventId?: string | null;
+  payload: Record<string, any>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  lastStatusCode: number | null;
+  lastLatencyMs: number | null;
+  lastError: string | null;
+  attemptLog: WebhookDeliveryAttempt[];
+  nextAttemptAt: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Snapshot of a policy as saved, kept for the Policy Center's version history
+export interface PolicyVersion {
+  id: string;
+  policyId: string;
+  shopId: string;
+  version: string;
+  snapshot: PolicyDescriptor;
+  author?: string | null;
+  createdAt: string;
+}
+
+// Result of testing a (draft) policy against one sample event; nothing is executed
+export interface PolicyTestResult {
+  matched: boolean;
+  conditionResults: boolean[]; // one per top-level condition
+  dedupKey: string | null;
+  cooldownActive: boolean;
+  errors: string[];
+}
+
+export type NotificationChannel = 'in_app' | 'email';
+
+// Where a notification takes the reader when opened
+export interface NotificationLink {
+  tab: 'inventory';
+  inventoryUuid?: string | null;
+  productId?: string | null;
+}
+
+// One in-app notification for one user (read state is per recipient)
+export interface AppNotification {
+  id: string;
+  shopId: string;
   userId: string;
+  title: string;
+  message: string;
+  link?: NotificationLink | null;
+  policyId?: string | null;
+  eventId?: string | null;
+  read: boolean;
+  readAt?: string | null;
+  createdAt: string;
+}
+
+// Per-user delivery preferences; users without one get in-app only
+export interface NotificationSubscription {
+  shopId: string;
+  userId: string;
+  inApp: boolean;
+  email: boolean;
+  emailAddress?: string | null;
+  mutedPolicyIds: string[];
+  updatedAt: string;
+}
+
+export interface AuditEntry {
+  userId: string; // The signed-in user, so staff sharing a shop are told apart
   shopId?: string | null;
+  staffRole?: StaffRole | null;
   action: string;
   timestamp: string;
 }
@@ -155,6 +430,7 @@ export interface ProductDefinition {
   category: string;
   description?: string;
   defaultSupplierId?: string | null;
+  shopId?: string | null; // Shop that created the entry and may change it; null on older entries
   images?: ProductImage[];
   audit?: AuditEntry[];
   embeddings?: number[]; // Combined text/image embedding vector
@@ -194,16 +470,100 @@ export interface StockItem {
   updatedAt?: string;
   shareScope?: DanShareScope[];
   shareProofHash?: string;
+  tags?: string[]; // Set by shop staff or tag_inventory policy actions
 }
 
+// Why a StockItem quantity changed (one entry per change in the stock_movements ledger)
+export type StockMovementReason =
+  | 'sale'
+  | 'order'
+  | 'shrinkage'
+  | 'shelf_scan_correction'
+  | 'receipt'
+  | 'transfer'
+  | 'expiry_write_off'
+  | 'adjustment';
+
+export interface StockMovement {
+  id: string;
+  shopId: string;
+  inventoryUuid: string;
+  productId: string;
+  delta: number; // Signed change in units
+  quantityAfter?: number; // Item quantity once this movement was applied
+  reason: StockMovementReason;
+  createdByUserId: string;
+  referenceId?: string | null; // Sale, listing, batch or scan that caused the movement
+  note?: string;
+  costOfGoodsLoss?: number; // Cost value lost on write-offs (units × buy price)
+  createdAt: string;
+}
+
+export interface MarkdownCandidate {
+  inventoryUuid: string;
+  productId: string;
+  expirationDate: string;
+  daysUntilExpiry: number;
+  quantity: number;
+  currentSellPrice: number;
+  suggestedSellPrice: number;
+  discountPercent: number;
+}
+
+export interface ExpirySweepResult {
+  shopId: string | null;
+  expiredLots: number;
+  unitsWrittenOff: number;
+  costOfGoodsLoss: number;
+}
+
+export interface StockReconciliation {
+  inventoryUuid: string;
+  productId: string;
+  currentQuantity: number;
+  openingQuantity: number; // Stock held before the first recorded movement
+  replayedQuantity: number; // openingQuantity plus every movement's delta
+  movementCount: number;
+  preLedger: boolean; // The item held stock before the ledger started recording it
+  consistent: boolean;
+}
+
+// Promotional pricing. PERCENTAGE takes `value` percent off the unit price, FIXED takes
+// `value` off the unit price and MULTI_BUY charges `payQuantity` for every `buyQuantity` units.
+export type PromotionType = 'PERCENTAGE' | 'FIXED' | 'MULTI_BUY';
+export type PromotionScope = 'product' | 'category' | 'lot';
+
+export interface Promotion {
+  id: string;
+  shopId: string;
+  name: string;
+  type: PromotionType;
+  value: number;
+  buyQuantity?: number;
+  payQuantity?: number;
+  scope: PromotionScope;
+  targetId: string; // productId, category name or inventoryUuid depending on scope
+  productId?: string; // Product of the targeted lot (lot scope only)
+  startsAt: string;
+  endsAt: string;
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Sales are journaled: PENDING while stock is being deducted, then COMMITTED or ROLLED_BACK.
+export type SaleStatus = 'PENDING' | 'COMMITTED' | 'ROLLED_BACK';
+
 // A log of a completed customer purchase.
 export interface SaleTransaction {
-    id: number;
+    id: string; // UUID (legacy numeric IDs are stringified on read)
     timestamp: string;
     items: {
         productId: string;
         quantity: number;
         priceAtSale: number; // The price per unit at the time of sale
+        basePrice?: number; // Lot price before promotions
+        promotionId?: string; // Promotion that set priceAtSale, if any
     }[];
     totalAmount: number;
     source?: {
@@ -211,6 +571,8 @@ export interface SaleTransaction {
         supplierName?: string;
         listingId?: string;
     };
+    idempotencyKey?: string;
+    status?: SaleStatus;
 }
 
 export type ScanFieldSource = 'manual' | 'learned' | 'auto';
@@ -254,6 +616,48 @@ export interface BatchLineItem {
   productName: string; // The name from the invoice, pre-matching
   quantity: number;
   cost: number;
+  expirationDate?: string; // Recorded at receiving; defaults to one year after delivery
+}
+
+// One line counted at receiving. Expected values come from the batch (purchase
+// order or logged invoice); invoiced values from the supplier's invoice.
+export interface ReceivingLine {
+  productId: string;
+  productName: string;
+  expectedQuantity: number;
+  invoicedQuantity: number;
+  countedQuantity: number; // Every unit that arrived, damaged ones included
+  damagedQuantity: number;
+  expectedCost: number;
+  invoicedCost: number;
+  expirationDate?: string;
+}
+
+export type BatchDiscrepancyType = 'SHORTAGE' | 'OVERAGE' | 'DAMAGED' | 'PRICE_VARIANCE';
+
+export interface BatchDiscrepancy {
+  productId: string;
+  productName: string;
+  type: BatchDiscrepancyType;
+  expected: number; // Units, or unit cost for PRICE_VARIANCE
+  actual: number;
+  valueImpact: number; // Amount the supplier owes (positive) or is owed (negative)
+}
+
+export type DiscrepancyReportStatus = 'OPEN' | 'SENT_TO_SUPPLIER' | 'RESOLVED';
+
+export interface DiscrepancyReport {
+  batchId: string;
+  supplierId?: string | null;
+  purchaseOrderId?: string | null;
+  invoiceNumber?: string;
+  lines: ReceivingLine[];
+  discrepancies: BatchDiscrepancy[];
+  totalValueImpact: number;
+  status: DiscrepancyReportStatus;
+  receivedAt: string;
+  receivedByUserId: string;
+  sentAt?: string;
 }
 
 export interface BatchRecord {
@@ -267,6 +671,50 @@ export interface BatchRecord {
   lineItems?: BatchLineItem[]; // Product line items in this batch
   createdAt?: string;
   createdByUserId?: string;
+  status?: BatchStatus; // Missing on batches logged before purchase orders (treated as RECEIVED)
+  purchaseOrderId?: string | null; // Set when the batch is expected from a sent purchase order
+  receivedAt?: string;
+  discrepancyReport?: DiscrepancyReport | null; // Set when the batch was received by counting
+}
+
+// EXPECTED batches (from sent purchase orders or logged for counting) have not been received yet
+export type BatchStatus = 'EXPECTED' | 'RECEIVED';
+
+// Per-product replenishment settings for a shop
+export interface ReorderSetting {
+  shopId: string;
+  productId: string;
+  reorderPoint: number; // Reorder once projected stock falls to this level
+  targetLevel: number; // Order back up to this level
+  leadTimeDays: number;
+  supplierId?: string | null; // Overrides the product's defaultSupplierId
+  updatedAt: string;
+}
+
+export type PurchaseOrderStatus = 'DRAFT' | 'SENT' | 'CANCELLED';
+
+export interface PurchaseOrderLine {
+  productId: string;
+  productName: string;
+  quantity: number;
+  unitCost: number;
+  suggestedQuantity?: number; // What the reorder computation proposed
+  onHand?: number;
+  dailyVelocity?: number; // Units sold per day over the velocity window
+}
+
+export interface PurchaseOrder {
+  id: string;
+  shopId: string;
+  supplierId: string | null; // null when the products have no default supplier
+  status: PurchaseOrderStatus;
+  lines: PurchaseOrderLine[];
+  expectedDeliveryDate: string;
+  batchId?: string | null; // Expected batch created when the order is sent
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+  sentAt?: string;
 }
 
 // --- Marketplace, Auth, Orders, Drivers ---
@@ -290,6 +738,125 @@ export interface User {
     driver: boolean;
     supplier: boolean;
   };
+  // Role in the shop at shopId; its owner is 'owner', staff get theirs from shop_staff
+  staffRole?: StaffRole;
+  // users.is_admin; admins review verifications
+  isAdmin?: boolean;
+  // Every shop the user can work in; shopId is the active one
+  shops?: AccountShop[];
+}
+
+// Staff of a shop (shop_staff table, managed through the server's /api/staff)
+export type StaffRole = 'owner' | 'manager' | 'clerk' | 'auditor';
+
+export type StaffPermission =
+  | 'editPrices'
+  | 'editCatalog'
+  | 'adjustStock'
+  | 'deleteInventory'
+  | 'receiveBatches'
+  | 'managePolicies'
+  | 'viewFinancials'
+  | 'manageStaff';
+
+export interface StaffMember {
+  userId: string;
+  shopId: string;
+  username: string;
+  displayName: string;
+  email: string;
+  role: StaffRole;
+  addedBy: string | null;
+  createdAt: string | null; // null for the owner, who is not a shop_staff row
+}
+
+// A shop an account works in (server/shops.js): its own, an operator's further shops, or as staff
+export interface AccountShop {
+  shopId: string;
+  name: string;
+  role: StaffRole;
+  primary: boolean; // The owner's own shop (users.shop_qdrant_id) rather than an operator_shops row
+  ownerUserId: string;
+  contactEmail: string | null;
+  qdrantNamespace: string | null;
+}
+
+// One shop's figures in an operator's consolidated overview
+export interface ShopOverview {
+  shopId: string;
+  shopName: string;
+  stockUnits: number;
+  stockValue: number; // Units × buy price
+  lotCount: number;
+  salesCount: number;
+  revenue: number;
+  expiringLots: MarkdownCandidate[];
+}
+
+// Stock moved between two shops of one operator; recorded as a pair of 'transfer' movements
+export interface StockTransfer {
+  id: string; // referenceId of both movements
+  productId: string;
+  quantity: number;
+  fromShopId: string;
+  fromInventoryUuid: string;
+  toShopId: string;
+  toInventoryUuid: string;
+  note?: string;
+  createdAt: string;
+}
+
+// Shop and driver verification (server/verification.js, served under /api/verification)
+export type VerificationKind = 'shop' | 'driver';
+export type VerificationStatus = 'unsubmitted' | 'pending' | 'approved' | 'rejected';
+export type VerificationDocumentType = 'businessLicense' | 'driverLicense' | 'other';
+
+export interface VerificationDocument {
+  id: string;
+  userId: string;
+  kind: VerificationKind;
+  documentType: VerificationDocumentType;
+  fileName: string;
+  contentType: string;
+  sizeBytes: number;
+  uploadedAt: string;
+}
+
+// One row of the append-only status history
+export interface VerificationEvent {
+  id: string;
+  userId: string;
+  kind: VerificationKind;
+  status: Exclude<VerificationStatus, 'unsubmitted'>;
+  reason: string | null; // Required when rejected
+  documentIds: string[]; // Documents the submission (and its decision) covered
+  actorUserId: string | null; // The applicant for submissions, the admin for decisions
+  createdAt: string;
+}
+
+export interface VerificationRecord {
+  userId: string;
+  kind: VerificationKind;
+  status: VerificationStatus; // Status of the latest event
+  reason: string | null;
+  updatedAt: string | null;
+  documents: VerificationDocument[];
+  history: VerificationEvent[];
+}
+
+// A record in the admin review queue, with the applicant's details
+export interface VerificationApplication extends VerificationRecord {
+  username: string | null;
+  displayName: string | null;
+  email: string | null;
+}
+
+// Tokens issued by the server's /api/auth endpoints (server/auth.js)
+export interface AuthSessionTokens {
+  accessToken: string;
+  accessTokenExpiresAt: string;
+  refreshToken: string;
+  refreshTokenExpiresAt: string;
 }
 
 export interface MarketplaceListing {
@@ -387,6 +954,20 @@ export interface ProductSummary {
     quantity: number;
     expirationDate: string;
   }[];
+  dailyVelocity?: number; // Average units sold per day (see ProductForecast)
+  daysOfCover?: number | null; // null when the product has no recent sales
+  projectedStockoutDate?: string | null; // YYYY-MM-DD
+}
+
+// Demand forecast for one product from its committed sales history
+export interface ProductForecast {
+  productId: string;
+  dailyVelocity: number; // Average units per day since the first sale in the history window
+  forecastDailyDemand: number; // Exponentially smoothed, deseasonalised units per day
+  dayOfWeekFactors: number[]; // Sunday first; 1 is an average day
+  next7DaysDemand: number;
+  daysOfCover: number | null; // null when there is no demand to run out against
+  projectedStockoutDate: string | null; // YYYY-MM-DD; null when not within a year
 }
 
 // Qdrant collection payload types (internal structure)
@@ -430,6 +1011,7 @@ export interface QdrantProductPayload {
   category: string;
   description: string;
   defaultSupplierId?: string | null;
+  shopId?: string | null;
   images: ProductImage[];
   audit: AuditEntry[];
   embeddings?: number[]; // Optional embedding vector
@@ -456,6 +1038,7 @@ export interface QdrantItemPayload {
   embeddings?: number[]; // Added for RAG
   shareScope?: DanShareScope[];
   shareProofHash?: string;
+  tags?: string[];
   [key: string]: any;
 }
 
@@ -470,6 +1053,10 @@ export interface QdrantBatchPayload {
   lineItems: BatchLineItem[];
   createdAt: string;
   createdByUserId: string;
+  status?: BatchStatus;
+  purchaseOrderId?: string | null;
+  receivedAt?: string | null;
+  discrepancyReport?: DiscrepancyReport | null;
   [key: string]: any;
 }
 